@@ -101,6 +101,7 @@ module.exports = {
         // to live here.
         GPS_TCP_PORT: 7808,
         GPS_TLS_PORT: 0,
+        GPS_UDP_PORT: 0,
         GPS_AUTO_PROVISION: 'false',
         GPS_HEARTBEAT_TIMEOUT_SEC: 180
       },
@@ -16,6 +16,11 @@ import GpsFleetMapSection from '@/components/sections/GpsFleetMapSection';
 import GpsDtcsSection from '@/components/sections/GpsDtcsSection';
 import GpsScanReportsSection from '@/components/sections/GpsScanReportsSection';
 import GpsCommandsSection from '@/components/sections/GpsCommandsSection';
+import GpsFirmwareSection from '@/components/sections/GpsFirmwareSection';
+import GpsCommandBatchesSection from '@/components/sections/GpsCommandBatchesSection';
+import GpsCommandSchedulesSection from '@/components/sections/GpsCommandSchedulesSection';
+import GpsCommandApprovalsSection from '@/components/sections/GpsCommandApprovalsSection';
+import GpsConfigProfilesSection from '@/components/sections/GpsConfigProfilesSection';
 import GpsAuditLogSection from '@/components/sections/GpsAuditLogSection';
 import RealtimePill from '@/components/RealtimePill';
 import BackupModal from '@/components/modals/BackupModal';
@@ -25,13 +30,14 @@ import {
   LayoutDashboard, Users, UserCheck, History, Settings, LogOut,
   Moon, Sun, Shield, Menu,
   TrendingUp, Car, FileText, ClipboardList, CalendarDays, DollarSign,
-  Radio, Map as MapIcon, Bell, AlertTriangle, Send, FileSearch, Activity
+  Radio, Map as MapIcon, Bell, AlertTriangle, Send, FileSearch, Activity, Cpu,
+  SlidersHorizontal, Layers, CalendarClock, ShieldCheck
 } from 'lucide-react';
 import { toast } from 'sonner';
 
 type Tab =
   | 'overview' | 'dealers' | 'regular' | 'history' | 'schedule' | 'inspection' | 'settings'
-  | 'gps-terminals' | 'gps-alarms' | 'gps-fleet' | 'gps-dtcs' | 'gps-scan-reports' | 'gps-commands' | 'audit';
+  | 'gps-terminals' | 'gps-alarms' | 'gps-fleet' | 'gps-dtcs' | 'gps-scan-reports' | 'gps-commands' | 'gps-command-batches' | 'gps-command-schedules' | 'gps-command-approvals' | 'gps-firmware' | 'gps-config' | 'audit';
 
 interface NavItem {
   id: Tab;
@@ -53,6 +59,7 @@ export default function Dashboard() {
   const [tab, setTab] = useState<Tab>('overview');
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [gpsStats, setGpsStats] = useState<GpsOverviewStats | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState(0);
   const [recentAlarms, setRecentAlarms] = useState<GpsAlarm[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -65,6 +72,7 @@ export default function Dashboard() {
 
   useEffect(() => {
     loadStats();
+    loadPendingApprovals();
     // Best-effort eager connect of the GPS WS so the RealtimePill flips
     // green during the first paint instead of waiting for it to mount.
     gpsAdminWs.connect();
@@ -111,6 +119,12 @@ export default function Dashboard() {
     }
   };
 
+  const loadPendingApprovals = () => {
+    api.listGpsCommandApprovals(1, 1, { status: 'PENDING' })
+      .then((res) => setPendingApprovals(res.total))
+      .catch(() => {});
+  };
+
   const navGroups: NavGroup[] = [
     {
       label: null,
@@ -140,6 +154,16 @@ export default function Dashboard() {
         { id: 'gps-dtcs', label: 'DTC Events', icon: <AlertTriangle size={20} /> },
         { id: 'gps-scan-reports', label: 'Scan Reports', icon: <FileText size={20} /> },
         { id: 'gps-commands', label: 'Commands', icon: <Send size={20} /> },
+        { id: 'gps-command-batches', label: 'Bulk Commands', icon: <Layers size={20} /> },
+        { id: 'gps-command-schedules', label: 'Schedules', icon: <CalendarClock size={20} /> },
+        {
+          id: 'gps-command-approvals',
+          label: 'Approvals',
+          icon: <ShieldCheck size={20} />,
+          badge: pendingApprovals,
+        },
+        { id: 'gps-firmware', label: 'Firmware', icon: <Cpu size={20} /> },
+        { id: 'gps-config', label: 'Config Profiles', icon: <SlidersHorizontal size={20} /> },
       ],
     },
     {
@@ -301,6 +325,11 @@ export default function Dashboard() {
           {tab === 'gps-dtcs' && <GpsDtcsSection />}
           {tab === 'gps-scan-reports' && <GpsScanReportsSection />}
           {tab === 'gps-commands' && <GpsCommandsSection />}
+          {tab === 'gps-command-batches' && <GpsCommandBatchesSection />}
+          {tab === 'gps-command-schedules' && <GpsCommandSchedulesSection />}
+          {tab === 'gps-command-approvals' && <GpsCommandApprovalsSection onChanged={loadPendingApprovals} />}
+          {tab === 'gps-firmware' && <GpsFirmwareSection />}
+          {tab === 'gps-config' && <GpsConfigProfilesSection />}
           {tab === 'audit' && <GpsAuditLogSection />}
         </div>
       </main>
@@ -61,6 +61,20 @@ export default function RealtimePill() {
           : s,
       );
     });
+    const offLogout = gpsAdminWs.on('terminal.logout', () => {
+      setStats((s) =>
+        s
+          ? {
+              ...s,
+              terminals: {
+                ...s.terminals,
+                online: Math.max(0, s.terminals.online - 1),
+                loggedOut: s.terminals.loggedOut + 1,
+              },
+            }
+          : s,
+      );
+    });
     const offAlarm = gpsAdminWs.on('alarm.opened', () => {
       setStats((s) =>
         s
@@ -97,6 +111,7 @@ export default function RealtimePill() {
       offState();
       offUp();
       offDown();
+      offLogout();
       offAlarm();
       offAlarmClosed();
       offAlarmAcked();
@@ -176,6 +191,7 @@ export default function RealtimePill() {
             <Row label="Online terminals" value={stats?.terminals.online ?? '—'} />
             <Row label="Offline" value={stats?.terminals.offline ?? '—'} />
             <Row label="Never connected" value={stats?.terminals.neverConnected ?? '—'} />
+            <Row label="Logged out" value={stats?.terminals.loggedOut ?? '—'} />
             <Row
               label="Unacknowledged alarms"
               value={stats?.alarms.unacknowledged ?? '—'}
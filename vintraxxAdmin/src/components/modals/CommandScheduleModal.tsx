@@ -0,0 +1,412 @@
+'use client';
+
+/**
+ * CommandScheduleModal — create or edit a command schedule.
+ *
+ * Backend routes: POST /admin/gps/command-schedules and
+ * PATCH /admin/gps/command-schedules/:id. The backend cron runs a schedule
+ * at "First run" and then every "Repeat" interval; "Once" disables it after
+ * the one run. A command run is an ordinary bulk batch over the matching
+ * terminals (filter resolved at run time); "Full scan" starts a scan report
+ * on each of them instead. The action can't change after creation.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  api,
+  GpsBatchCommand,
+  GpsCommandBatchFilter,
+  GpsCommandSchedule,
+  GpsParamDef,
+  NUMERIC_PARAM_TYPES,
+} from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { X, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Props {
+  /** Null to create a new schedule. */
+  schedule: GpsCommandSchedule | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type Kind = GpsBatchCommand['kind'] | 'full-scan';
+
+const KINDS: Array<{ kind: Kind; label: string; superAdminOnly?: boolean }> = [
+  { kind: 'read-params', label: 'Read parameters (0x8104)' },
+  { kind: 'full-scan', label: 'Full scan (scan report)' },
+  { kind: 'locate', label: 'Locate (0x8201)' },
+  { kind: 'set-params', label: 'Set parameters (0x8103)' },
+  { kind: 'clear-dtcs', label: 'Clear DTCs', superAdminOnly: true },
+  { kind: 'terminal-control', label: 'Terminal control (0x8105)', superAdminOnly: true },
+];
+
+const CONTROL_TYPES: Array<{ value: 3 | 4 | 5 | 6 | 7; label: string }> = [
+  { value: 4, label: 'Reset' },
+  { value: 3, label: 'Shut down' },
+  { value: 5, label: 'Factory reset' },
+  { value: 6, label: 'Close data link' },
+  { value: 7, label: 'Open data link' },
+];
+
+/** Repeat presets in minutes; '' runs once. */
+const REPEATS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Once' },
+  { value: '60', label: 'Every hour' },
+  { value: '360', label: 'Every 6 hours' },
+  { value: '1440', label: 'Daily' },
+  { value: '10080', label: 'Weekly' },
+];
+
+/** "A, B\nC" → ["A", "B", "C"] — ids are usually pasted one per line. */
+function splitList(raw: string): string[] {
+  return raw.split(/[,\n]/).map((s) => s.trim()).filter(Boolean);
+}
+
+function fmtParamId(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
+
+/** Date → `yyyy-MM-ddTHH:mm` in local time, for datetime-local inputs. */
+function toLocalInput(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Next whole hour — a sensible default first run. */
+function nextHour(): Date {
+  const d = new Date(Date.now() + 60 * 60_000);
+  d.setMinutes(0, 0, 0);
+  return d;
+}
+
+export default function CommandScheduleModal({ schedule, onClose, onSaved }: Props) {
+  const { admin } = useAuth();
+  const command = schedule?.command ?? null;
+  const filter = schedule?.filter ?? {};
+  const [name, setName] = useState(schedule?.name ?? '');
+  const [terminalIds, setTerminalIds] = useState(filter.terminalIds?.join('\n') ?? '');
+  const [models, setModels] = useState(filter.models?.join(', ') ?? '');
+  const [firmwareVersions, setFirmwareVersions] = useState(filter.firmwareVersions?.join(', ') ?? '');
+  const [fleetGroups, setFleetGroups] = useState(filter.fleetGroups?.join(', ') ?? '');
+  const [ownerUserId, setOwnerUserId] = useState(filter.ownerUserId ?? '');
+  const [kind, setKind] = useState<Kind>(
+    schedule ? (schedule.action === 'FULL_SCAN' ? 'full-scan' : command!.kind) : 'read-params',
+  );
+  const [controlType, setControlType] = useState<3 | 4 | 5 | 6 | 7>(
+    command?.kind === 'terminal-control' ? command.controlType : 4,
+  );
+  const [params, setParams] = useState<Array<{ id: number; value: string }>>(
+    () => (command?.kind === 'set-params' ? command.setParams.map((p) => ({ id: p.id, value: String(p.value) })) : []),
+  );
+  const [defs, setDefs] = useState<GpsParamDef[]>([]);
+  const [concurrency, setConcurrency] = useState(String(schedule?.concurrency ?? 20));
+  const [firstRun, setFirstRun] = useState(toLocalInput(schedule ? new Date(schedule.nextRunAt) : nextHour()));
+  const [repeat, setRepeat] = useState(schedule?.intervalMinutes ? String(schedule.intervalMinutes) : '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (kind !== 'set-params' || defs.length > 0) return;
+    api
+      .listGpsParameterDefs()
+      .then((res) => setDefs(res.parameters.filter((d) => !d.readOnly && !d.action)))
+      .catch((err: any) => toast.error(err.message || 'Failed to load parameter definitions'));
+  }, [kind, defs.length]);
+
+  const defById = new Map(defs.map((d) => [d.id, d]));
+  // Keep an interval set through the API selectable even if it isn't a preset.
+  const repeats = REPEATS.some((r) => r.value === repeat)
+    ? REPEATS
+    : [...REPEATS, { value: repeat, label: `Every ${repeat} min` }];
+
+  const buildCommand = (): GpsBatchCommand | null => {
+    switch (kind) {
+      case 'set-params': {
+        if (params.length === 0) {
+          toast.error('Add at least one parameter');
+          return null;
+        }
+        const setParams: Array<{ id: number; value: number | string }> = [];
+        for (const p of params) {
+          const def = defById.get(p.id);
+          if (!def) continue;
+          if (p.value.trim() === '') {
+            toast.error(`${def.name} needs a value`);
+            return null;
+          }
+          setParams.push({
+            id: p.id,
+            value: NUMERIC_PARAM_TYPES.has(def.type) ? Number(p.value) : p.value,
+          });
+        }
+        return { kind, setParams };
+      }
+      case 'terminal-control':
+        return { kind, controlType };
+      case 'full-scan':
+        return null;
+      default:
+        return { kind };
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return toast.error('Name is required');
+    const targeting: GpsCommandBatchFilter = {};
+    if (splitList(terminalIds).length > 0) targeting.terminalIds = splitList(terminalIds);
+    if (splitList(models).length > 0) targeting.models = splitList(models);
+    if (splitList(firmwareVersions).length > 0) targeting.firmwareVersions = splitList(firmwareVersions);
+    if (splitList(fleetGroups).length > 0) targeting.fleetGroups = splitList(fleetGroups);
+    if (ownerUserId.trim()) targeting.ownerUserId = ownerUserId.trim();
+    if (Object.keys(targeting).length === 0) {
+      return toast.error('Pick terminals by id, model, firmware, fleet group or owner');
+    }
+    const runAt = new Date(firstRun);
+    if (Number.isNaN(runAt.getTime())) return toast.error('Pick a first run time');
+    const cmd = buildCommand();
+    if (kind !== 'full-scan' && !cmd) return;
+
+    setSaving(true);
+    try {
+      const body = {
+        name: name.trim(),
+        filter: targeting,
+        concurrency: Number(concurrency) || 20,
+        intervalMinutes: repeat ? Number(repeat) : null,
+        nextRunAt: runAt.toISOString(),
+        ...(cmd ? { command: cmd } : {}),
+      };
+      if (schedule) {
+        await api.updateGpsCommandSchedule(schedule.id, body);
+        toast.success('Schedule saved');
+      } else {
+        await api.createGpsCommandSchedule({
+          ...body,
+          action: kind === 'full-scan' ? 'FULL_SCAN' : 'COMMAND',
+        });
+        toast.success('Schedule created');
+      }
+      onSaved();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unused = defs.filter((d) => !params.some((p) => p.id === d.id));
+  // The action is fixed once created: a command schedule can switch kinds,
+  // a full-scan one can't become a command.
+  const kinds = KINDS.filter(
+    (k) =>
+      (!k.superAdminOnly || admin?.superAdmin || k.kind === kind) &&
+      (!schedule || (k.kind === 'full-scan') === (schedule.action === 'FULL_SCAN')),
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[5vh] overflow-y-auto">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl animate-scale-in max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">
+              {schedule ? 'Edit Schedule' : 'New Schedule'}
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Runs a command (or full scan) on matching terminals later, once or on repeat.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <Field label="Name" required>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Nightly parameter read-back" className="input" maxLength={120} autoFocus />
+          </Field>
+
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 pt-2">When</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field label="First run" required>
+              <input type="datetime-local" value={firstRun} onChange={(e) => setFirstRun(e.target.value)} className="input" />
+            </Field>
+            <Field label="Repeat">
+              <select value={repeat} onChange={(e) => setRepeat(e.target.value)} className="input">
+                {repeats.map((r) => (
+                  <option key={r.value} value={r.value}>{r.label}</option>
+                ))}
+              </select>
+            </Field>
+          </div>
+
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 pt-2">Terminals (all filled fields must match)</p>
+          <Field label="Terminal ids" hint="Comma or newline separated.">
+            <textarea value={terminalIds} onChange={(e) => setTerminalIds(e.target.value)} rows={3} className="input font-mono" />
+          </Field>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field label="Models" hint="Comma-separated terminalModel values.">
+              <input type="text" value={models} onChange={(e) => setModels(e.target.value)} placeholder="D450" className="input" />
+            </Field>
+            <Field label="Firmware versions" hint="Comma-separated.">
+              <input type="text" value={firmwareVersions} onChange={(e) => setFirmwareVersions(e.target.value)} className="input" />
+            </Field>
+            <Field label="Fleet groups" hint="Comma-separated. Resolved at each run.">
+              <input type="text" value={fleetGroups} onChange={(e) => setFleetGroups(e.target.value)} placeholder="loaner-fleet" className="input" />
+            </Field>
+            <Field label="Owner user id">
+              <input type="text" value={ownerUserId} onChange={(e) => setOwnerUserId(e.target.value)} className="input font-mono" />
+            </Field>
+          </div>
+
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 pt-2">What</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field label="Command" required>
+              <select value={kind} onChange={(e) => setKind(e.target.value as Kind)} className="input">
+                {kinds.map((k) => (
+                  <option key={k.kind} value={k.kind}>{k.label}</option>
+                ))}
+              </select>
+            </Field>
+            {kind !== 'full-scan' && (
+              <Field label="Concurrency" hint="Commands in flight at once per run.">
+                <input type="number" min={1} max={500} value={concurrency} onChange={(e) => setConcurrency(e.target.value)} className="input" />
+              </Field>
+            )}
+          </div>
+
+          {kind === 'terminal-control' && (
+            <Field label="Control" required>
+              <select value={controlType} onChange={(e) => setControlType(Number(e.target.value) as 3 | 4 | 5 | 6 | 7)} className="input">
+                {CONTROL_TYPES.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </Field>
+          )}
+
+          {kind === 'set-params' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Parameters</p>
+                <button
+                  onClick={() => unused.length > 0 && setParams((prev) => [...prev, { id: unused[0].id, value: '' }])}
+                  disabled={unused.length === 0}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  <Plus size={12} /> Add
+                </button>
+              </div>
+              <div className="space-y-2">
+                {params.map((p, i) => {
+                  const def = defById.get(p.id);
+                  return (
+                    <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={p.id}
+                        onChange={(e) =>
+                          setParams((prev) => prev.map((x, j) => (j === i ? { id: Number(e.target.value), value: '' } : x)))
+                        }
+                        className="input col-span-7"
+                      >
+                        {defs
+                          .filter((d) => d.id === p.id || !params.some((x) => x.id === d.id))
+                          .map((d) => (
+                            <option key={d.id} value={d.id}>{fmtParamId(d.id)} · {d.name}</option>
+                          ))}
+                      </select>
+                      <input
+                        type={def && NUMERIC_PARAM_TYPES.has(def.type) ? 'number' : 'text'}
+                        value={p.value}
+                        onChange={(e) =>
+                          setParams((prev) => prev.map((x, j) => (j === i ? { ...x, value: e.target.value } : x)))
+                        }
+                        placeholder={def?.unit ?? ''}
+                        className="input col-span-4"
+                      />
+                      <button
+                        onClick={() => setParams((prev) => prev.filter((_, j) => j !== i))}
+                        title="Remove"
+                        className="col-span-1 p-1.5 rounded-lg text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="px-4 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium flex items-center gap-2 transition-all"
+          >
+            {saving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Save size={16} />
+            )}
+            {schedule ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        :global(.input) {
+          width: 100%;
+          padding: 0.625rem 1rem;
+          border-radius: 0.75rem;
+          border: 1px solid rgb(229 231 235);
+          background: rgb(249 250 251);
+          font-size: 0.875rem;
+          color: rgb(17 24 39);
+        }
+        :global(.dark .input) {
+          border-color: rgb(75 85 99);
+          background: rgba(55, 65, 81, 0.5);
+          color: white;
+        }
+        :global(.input:focus) {
+          outline: none;
+          box-shadow: 0 0 0 2px rgb(59 130 246);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  children,
+  required,
+  hint,
+}: {
+  label: string;
+  children: React.ReactNode;
+  required?: boolean;
+  hint?: string;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+      </label>
+      {children}
+      {hint && (
+        <p className="mt-1 text-[11px] leading-snug text-gray-500 dark:text-gray-400">{hint}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+/**
+ * ConfigProfileModal — create or edit a terminal configuration profile.
+ *
+ * Backend routes: POST /admin/gps/config-profiles and
+ * PATCH /admin/gps/config-profiles/:id. Parameters are picked from the
+ * registry (GET /admin/gps/parameters); read-only parameters and one-shot
+ * actions are left out since a profile is re-pushed on every connect. The
+ * backend validates values against the same registry, so a bad range comes
+ * back as a 400 toast.
+ *
+ * Saving an edited parameter set puts every terminal on the profile back to
+ * PENDING; they get it on their next connect.
+ */
+
+import { useEffect, useState } from 'react';
+import { api, GpsConfigProfile, GpsParamDef, NUMERIC_PARAM_TYPES } from '@/lib/api';
+import { X, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Props {
+  /** Null to create a new profile. */
+  profile: GpsConfigProfile | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface Row {
+  id: number;
+  value: string;
+}
+
+/** "A, B , ,C" → ["A", "B", "C"] */
+function splitList(raw: string): string[] {
+  return raw.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function fmtParamId(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
+
+export default function ConfigProfileModal({ profile, onClose, onSaved }: Props) {
+  const [defs, setDefs] = useState<GpsParamDef[]>([]);
+  const [name, setName] = useState(profile?.name ?? '');
+  const [description, setDescription] = useState(profile?.description ?? '');
+  const [groups, setGroups] = useState(profile?.fleetGroups.join(', ') ?? '');
+  const [rows, setRows] = useState<Row[]>(
+    () => profile?.params.map((p) => ({ id: p.id, value: String(p.value) })) ?? [],
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    api
+      .listGpsParameterDefs()
+      .then((res) => setDefs(res.parameters.filter((d) => !d.readOnly && !d.action)))
+      .catch((err: any) => toast.error(err.message || 'Failed to load parameter definitions'));
+  }, []);
+
+  const defById = new Map(defs.map((d) => [d.id, d]));
+  const unused = defs.filter((d) => !rows.some((r) => r.id === d.id));
+
+  const addRow = () => {
+    if (unused.length === 0) return;
+    setRows((prev) => [...prev, { id: unused[0].id, value: '' }]);
+  };
+
+  const setRow = (index: number, patch: Partial<Row>) =>
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return toast.error('Name is required');
+    if (rows.length === 0) return toast.error('Add at least one parameter');
+    const params: Array<{ id: number; value: number | string }> = [];
+    for (const r of rows) {
+      const def = defById.get(r.id);
+      if (!def) continue;
+      if (r.value.trim() === '') return toast.error(`${def.name} needs a value`);
+      if (NUMERIC_PARAM_TYPES.has(def.type)) {
+        const n = Number(r.value);
+        if (!Number.isInteger(n)) return toast.error(`${def.name} needs a whole number`);
+        params.push({ id: r.id, value: n });
+      } else {
+        params.push({ id: r.id, value: r.value });
+      }
+    }
+
+    setSaving(true);
+    try {
+      const body = {
+        name: name.trim(),
+        description: description.trim() || null,
+        params,
+        fleetGroups: splitList(groups),
+      };
+      if (profile) {
+        await api.updateGpsConfigProfile(profile.id, body);
+        toast.success('Profile saved');
+      } else {
+        await api.createGpsConfigProfile(body);
+        toast.success('Profile created');
+      }
+      onSaved();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[5vh] overflow-y-auto">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl animate-scale-in max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">
+              {profile ? 'Edit Config Profile' : 'New Config Profile'}
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Pushed to out-of-sync terminals when they connect.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <Field label="Name" required>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="input" maxLength={120} autoFocus />
+          </Field>
+          <Field label="Description">
+            <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className="input" maxLength={500} />
+          </Field>
+          <Field
+            label="Fleet groups"
+            hint="Comma-separated. Terminals in these groups get this profile unless assigned another directly."
+          >
+            <input type="text" value={groups} onChange={(e) => setGroups(e.target.value)} placeholder="loaner-fleet" className="input" />
+          </Field>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Parameters</p>
+              <button
+                onClick={addRow}
+                disabled={unused.length === 0}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Plus size={12} /> Add
+              </button>
+            </div>
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No parameters yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {rows.map((r, i) => {
+                  const def = defById.get(r.id);
+                  const choices = defs.filter((d) => d.id === r.id || !rows.some((x) => x.id === d.id));
+                  return (
+                    <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={r.id}
+                        onChange={(e) => setRow(i, { id: Number(e.target.value), value: '' })}
+                        className="input col-span-7"
+                      >
+                        {choices.map((d) => (
+                          <option key={d.id} value={d.id}>
+                            {fmtParamId(d.id)} · {d.name}
+                          </option>
+                        ))}
+                      </select>
+                      {def?.options ? (
+                        <select value={r.value} onChange={(e) => setRow(i, { value: e.target.value })} className="input col-span-4">
+                          <option value="">—</option>
+                          {Object.entries(def.options).map(([v, label]) => (
+                            <option key={v} value={v}>{label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type={def && NUMERIC_PARAM_TYPES.has(def.type) ? 'number' : 'text'}
+                          min={def?.min}
+                          max={def?.max}
+                          value={r.value}
+                          onChange={(e) => setRow(i, { value: e.target.value })}
+                          placeholder={def?.type === 'BYTES' ? 'hex' : def?.unit ?? ''}
+                          className="input col-span-4"
+                        />
+                      )}
+                      <button
+                        onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))}
+                        title="Remove"
+                        className="col-span-1 p-1.5 rounded-lg text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="px-4 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium flex items-center gap-2 transition-all"
+          >
+            {saving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Save size={16} />
+            )}
+            {profile ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        :global(.input) {
+          width: 100%;
+          padding: 0.625rem 1rem;
+          border-radius: 0.75rem;
+          border: 1px solid rgb(229 231 235);
+          background: rgb(249 250 251);
+          font-size: 0.875rem;
+          color: rgb(17 24 39);
+        }
+        :global(.dark .input) {
+          border-color: rgb(75 85 99);
+          background: rgba(55, 65, 81, 0.5);
+          color: white;
+        }
+        :global(.input:focus) {
+          outline: none;
+          box-shadow: 0 0 0 2px rgb(59 130 246);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  children,
+  required,
+  hint,
+}: {
+  label: string;
+  children: React.ReactNode;
+  required?: boolean;
+  hint?: string;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+      </label>
+      {children}
+      {hint && (
+        <p className="mt-1 text-[11px] leading-snug text-gray-500 dark:text-gray-400">{hint}</p>
+      )}
+    </div>
+  );
+}
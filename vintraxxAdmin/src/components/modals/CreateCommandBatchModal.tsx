@@ -0,0 +1,336 @@
+'use client';
+
+/**
+ * CreateCommandBatchModal — send one command to a filtered set of terminals.
+ *
+ * Backend route: POST /admin/gps/command-batches. Filter fields combine with
+ * AND and are resolved once, when the batch is created. The batch starts
+ * straight away; `concurrency` caps how many of its commands are on the
+ * wire at once. terminal-control (reset, shutdown…) and clear-dtcs are
+ * offered to super-admins only, as on the single-terminal command.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  api,
+  GpsBatchCommand,
+  GpsCommandBatchFilter,
+  GpsParamDef,
+  NUMERIC_PARAM_TYPES,
+} from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { X, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Props {
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+type Kind = GpsBatchCommand['kind'];
+
+const KINDS: Array<{ kind: Kind; label: string; superAdminOnly?: boolean }> = [
+  { kind: 'locate', label: 'Locate (0x8201)' },
+  { kind: 'read-params', label: 'Read parameters (0x8104)' },
+  { kind: 'set-params', label: 'Set parameters (0x8103)' },
+  { kind: 'clear-dtcs', label: 'Clear DTCs', superAdminOnly: true },
+  { kind: 'terminal-control', label: 'Terminal control (0x8105)', superAdminOnly: true },
+];
+
+const CONTROL_TYPES: Array<{ value: 3 | 4 | 5 | 6 | 7; label: string }> = [
+  { value: 4, label: 'Reset' },
+  { value: 3, label: 'Shut down' },
+  { value: 5, label: 'Factory reset' },
+  { value: 6, label: 'Close data link' },
+  { value: 7, label: 'Open data link' },
+];
+
+/** "A, B\nC" → ["A", "B", "C"] — ids are usually pasted one per line. */
+function splitList(raw: string): string[] {
+  return raw.split(/[,\n]/).map((s) => s.trim()).filter(Boolean);
+}
+
+function fmtParamId(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
+
+export default function CreateCommandBatchModal({ onClose, onCreated }: Props) {
+  const { admin } = useAuth();
+  const [name, setName] = useState('');
+  const [terminalIds, setTerminalIds] = useState('');
+  const [models, setModels] = useState('');
+  const [firmwareVersions, setFirmwareVersions] = useState('');
+  const [fleetGroups, setFleetGroups] = useState('');
+  const [ownerUserId, setOwnerUserId] = useState('');
+  const [kind, setKind] = useState<Kind>('locate');
+  const [controlType, setControlType] = useState<3 | 4 | 5 | 6 | 7>(4);
+  const [params, setParams] = useState<Array<{ id: number; value: string }>>([]);
+  const [defs, setDefs] = useState<GpsParamDef[]>([]);
+  const [concurrency, setConcurrency] = useState('20');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (kind !== 'set-params' || defs.length > 0) return;
+    api
+      .listGpsParameterDefs()
+      .then((res) => setDefs(res.parameters.filter((d) => !d.readOnly && !d.action)))
+      .catch((err: any) => toast.error(err.message || 'Failed to load parameter definitions'));
+  }, [kind, defs.length]);
+
+  const defById = new Map(defs.map((d) => [d.id, d]));
+
+  const buildCommand = (): GpsBatchCommand | null => {
+    switch (kind) {
+      case 'set-params': {
+        if (params.length === 0) {
+          toast.error('Add at least one parameter');
+          return null;
+        }
+        const setParams: Array<{ id: number; value: number | string }> = [];
+        for (const p of params) {
+          const def = defById.get(p.id);
+          if (!def) continue;
+          if (p.value.trim() === '') {
+            toast.error(`${def.name} needs a value`);
+            return null;
+          }
+          setParams.push({
+            id: p.id,
+            value: NUMERIC_PARAM_TYPES.has(def.type) ? Number(p.value) : p.value,
+          });
+        }
+        return { kind, setParams };
+      }
+      case 'terminal-control':
+        return { kind, controlType };
+      default:
+        return { kind };
+    }
+  };
+
+  const handleSubmit = async () => {
+    const filter: GpsCommandBatchFilter = {};
+    if (splitList(terminalIds).length > 0) filter.terminalIds = splitList(terminalIds);
+    if (splitList(models).length > 0) filter.models = splitList(models);
+    if (splitList(firmwareVersions).length > 0) filter.firmwareVersions = splitList(firmwareVersions);
+    if (splitList(fleetGroups).length > 0) filter.fleetGroups = splitList(fleetGroups);
+    if (ownerUserId.trim()) filter.ownerUserId = ownerUserId.trim();
+    if (Object.keys(filter).length === 0) {
+      return toast.error('Pick terminals by id, model, firmware, fleet group or owner');
+    }
+    const command = buildCommand();
+    if (!command) return;
+    if (
+      kind === 'terminal-control' &&
+      !confirm('Send this terminal-control command to every matching terminal?')
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await api.createGpsCommandBatch({
+        name: name.trim() || null,
+        filter,
+        command,
+        concurrency: Number(concurrency) || 20,
+      });
+      toast.success(`Batch started for ${res.batch.progress.total} terminals`);
+      onCreated();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to start batch');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unused = defs.filter((d) => !params.some((p) => p.id === d.id));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[5vh] overflow-y-auto">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl animate-scale-in max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">New Bulk Command</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              One command per matching terminal, released a few at a time.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <Field label="Name">
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Re-point loaners to new APN" className="input" maxLength={120} />
+          </Field>
+
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 pt-2">Terminals (all filled fields must match)</p>
+          <Field label="Terminal ids" hint="Comma or newline separated.">
+            <textarea value={terminalIds} onChange={(e) => setTerminalIds(e.target.value)} rows={3} className="input font-mono" />
+          </Field>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field label="Models" hint="Comma-separated terminalModel values.">
+              <input type="text" value={models} onChange={(e) => setModels(e.target.value)} placeholder="D450" className="input" />
+            </Field>
+            <Field label="Firmware versions" hint="Comma-separated.">
+              <input type="text" value={firmwareVersions} onChange={(e) => setFirmwareVersions(e.target.value)} className="input" />
+            </Field>
+            <Field label="Fleet groups" hint="Comma-separated.">
+              <input type="text" value={fleetGroups} onChange={(e) => setFleetGroups(e.target.value)} placeholder="loaner-fleet" className="input" />
+            </Field>
+            <Field label="Owner user id">
+              <input type="text" value={ownerUserId} onChange={(e) => setOwnerUserId(e.target.value)} className="input font-mono" />
+            </Field>
+          </div>
+
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 pt-2">Command</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field label="Kind" required>
+              <select value={kind} onChange={(e) => setKind(e.target.value as Kind)} className="input">
+                {KINDS.filter((k) => !k.superAdminOnly || admin?.superAdmin).map((k) => (
+                  <option key={k.kind} value={k.kind}>{k.label}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Concurrency" hint="Commands in flight at once.">
+              <input type="number" min={1} max={500} value={concurrency} onChange={(e) => setConcurrency(e.target.value)} className="input" />
+            </Field>
+          </div>
+
+          {kind === 'terminal-control' && (
+            <Field label="Control" required>
+              <select value={controlType} onChange={(e) => setControlType(Number(e.target.value) as 3 | 4 | 5 | 6 | 7)} className="input">
+                {CONTROL_TYPES.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </Field>
+          )}
+
+          {kind === 'set-params' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Parameters</p>
+                <button
+                  onClick={() => unused.length > 0 && setParams((prev) => [...prev, { id: unused[0].id, value: '' }])}
+                  disabled={unused.length === 0}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  <Plus size={12} /> Add
+                </button>
+              </div>
+              <div className="space-y-2">
+                {params.map((p, i) => {
+                  const def = defById.get(p.id);
+                  return (
+                    <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={p.id}
+                        onChange={(e) =>
+                          setParams((prev) => prev.map((x, j) => (j === i ? { id: Number(e.target.value), value: '' } : x)))
+                        }
+                        className="input col-span-7"
+                      >
+                        {defs
+                          .filter((d) => d.id === p.id || !params.some((x) => x.id === d.id))
+                          .map((d) => (
+                            <option key={d.id} value={d.id}>{fmtParamId(d.id)} · {d.name}</option>
+                          ))}
+                      </select>
+                      <input
+                        type={def && NUMERIC_PARAM_TYPES.has(def.type) ? 'number' : 'text'}
+                        value={p.value}
+                        onChange={(e) =>
+                          setParams((prev) => prev.map((x, j) => (j === i ? { ...x, value: e.target.value } : x)))
+                        }
+                        placeholder={def?.unit ?? ''}
+                        className="input col-span-4"
+                      />
+                      <button
+                        onClick={() => setParams((prev) => prev.filter((_, j) => j !== i))}
+                        title="Remove"
+                        className="col-span-1 p-1.5 rounded-lg text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="px-4 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium flex items-center gap-2 transition-all"
+          >
+            {saving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Send size={16} />
+            )}
+            Start batch
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        :global(.input) {
+          width: 100%;
+          padding: 0.625rem 1rem;
+          border-radius: 0.75rem;
+          border: 1px solid rgb(229 231 235);
+          background: rgb(249 250 251);
+          font-size: 0.875rem;
+          color: rgb(17 24 39);
+        }
+        :global(.dark .input) {
+          border-color: rgb(75 85 99);
+          background: rgba(55, 65, 81, 0.5);
+          color: white;
+        }
+        :global(.input:focus) {
+          outline: none;
+          box-shadow: 0 0 0 2px rgb(59 130 246);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  children,
+  required,
+  hint,
+}: {
+  label: string;
+  children: React.ReactNode;
+  required?: boolean;
+  hint?: string;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+      </label>
+      {children}
+      {hint && (
+        <p className="mt-1 text-[11px] leading-snug text-gray-500 dark:text-gray-400">{hint}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+/**
+ * CreateFirmwareCampaignModal — super-admin form to stage an OTA rollout.
+ *
+ * Backend route: POST /admin/gps/firmware/campaigns. Terminals are matched
+ * once, at creation, by model and/or current firmware version (at least one
+ * is required); terminals already on the image's version or in another
+ * live campaign are left out. The campaign is created as DRAFT — nothing is
+ * sent until an admin presses Start in the section.
+ */
+
+import { useState } from 'react';
+import { api, GpsFirmwareImage } from '@/lib/api';
+import { X, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Props {
+  images: GpsFirmwareImage[];
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+/** "A, B , ,C" → ["A", "B", "C"] */
+function splitList(raw: string): string[] {
+  return raw.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+export default function CreateFirmwareCampaignModal({ images, onClose, onCreated }: Props) {
+  const [name, setName] = useState('');
+  const [imageId, setImageId] = useState(images[0]?.id ?? '');
+  const [models, setModels] = useState('');
+  const [versions, setVersions] = useState('');
+  const [batchSize, setBatchSize] = useState(10);
+  const [failureThresholdPct, setFailureThresholdPct] = useState(20);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    const targetModels = splitList(models);
+    const targetFirmwareVersions = splitList(versions);
+    if (!name.trim() || !imageId) return toast.error('Name and image are required');
+    if (targetModels.length === 0 && targetFirmwareVersions.length === 0) {
+      return toast.error('Target at least one terminal model or firmware version');
+    }
+    setSaving(true);
+    try {
+      const res = await api.createGpsFirmwareCampaign({
+        name: name.trim(),
+        imageId,
+        targetModels,
+        targetFirmwareVersions,
+        batchSize,
+        failureThresholdPct,
+      });
+      toast.success(
+        `Draft created: ${res.campaign.targetCount} terminal${res.campaign.targetCount === 1 ? '' : 's'} in ${res.campaign.totalBatches} batch${res.campaign.totalBatches === 1 ? '' : 'es'}`,
+      );
+      onCreated();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create campaign');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[5vh] overflow-y-auto">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl animate-scale-in max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">New Firmware Campaign</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Created as a draft; review the targets, then start it.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <Field label="Name" required>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="input" maxLength={120} autoFocus />
+          </Field>
+          <Field label="Firmware image" required>
+            <select value={imageId} onChange={(e) => setImageId(e.target.value)} className="input">
+              {images.map((img) => (
+                <option key={img.id} value={img.id}>
+                  {img.name} — v{img.version}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Terminal models" hint="Comma-separated. Leave blank to match any model.">
+            <input type="text" value={models} onChange={(e) => setModels(e.target.value)} placeholder="D450, D450-4G" className="input" />
+          </Field>
+          <Field label="Current firmware versions" hint="Comma-separated. Leave blank to match any version.">
+            <input type="text" value={versions} onChange={(e) => setVersions(e.target.value)} placeholder="V1.2.3, V1.2.4" className="input font-mono" />
+          </Field>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="Batch size" hint="Terminals released per stage.">
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={batchSize}
+                onChange={(e) => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+                className="input"
+              />
+            </Field>
+            <Field label="Pause at failure rate (%)" hint="Campaign pauses when failed results exceed this share.">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={failureThresholdPct}
+                onChange={(e) => setFailureThresholdPct(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                className="input"
+              />
+            </Field>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !imageId}
+            className="px-4 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium flex items-center gap-2 transition-all"
+          >
+            {saving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Plus size={16} />
+            )}
+            Create draft
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        :global(.input) {
+          width: 100%;
+          padding: 0.625rem 1rem;
+          border-radius: 0.75rem;
+          border: 1px solid rgb(229 231 235);
+          background: rgb(249 250 251);
+          font-size: 0.875rem;
+          color: rgb(17 24 39);
+        }
+        :global(.dark .input) {
+          border-color: rgb(75 85 99);
+          background: rgba(55, 65, 81, 0.5);
+          color: white;
+        }
+        :global(.input:focus) {
+          outline: none;
+          box-shadow: 0 0 0 2px rgb(59 130 246);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  children,
+  required,
+  hint,
+}: {
+  label: string;
+  children: React.ReactNode;
+  required?: boolean;
+  hint?: string;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+      </label>
+      {children}
+      {hint && (
+        <p className="mt-1 text-[11px] leading-snug text-gray-500 dark:text-gray-400">{hint}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+/**
+ * DestructiveActionModal — reset / shut down a terminal, clear its DTCs or
+ * delete it.
+ *
+ * Super admins run the action straight away. Everyone else files an
+ * approval request (POST /admin/gps/command-approvals) with a
+ * justification; it runs once a different super admin approves it under
+ * Approvals.
+ */
+
+import { useState } from 'react';
+import { api, GpsApprovalCommand, GpsTerminal } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { terminalLabel } from '@/lib/gpsHelpers';
+import { X, ShieldAlert, Send } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Props {
+  terminal: GpsTerminal;
+  onClose: () => void;
+  /** `deleted` when a super admin deleted the terminal outright. */
+  onDone: (outcome: 'queued' | 'requested' | 'deleted') => void;
+}
+
+type Action = 'terminal-control' | 'clear-dtcs' | 'delete-terminal';
+
+const ACTIONS: Array<{ value: Action; label: string }> = [
+  { value: 'terminal-control', label: 'Terminal control (0x8105)' },
+  { value: 'clear-dtcs', label: 'Clear DTCs' },
+  { value: 'delete-terminal', label: 'Delete terminal and all its data' },
+];
+
+export const CONTROL_TYPES: Array<{ value: 3 | 4 | 5 | 6 | 7; label: string }> = [
+  { value: 4, label: 'Reset' },
+  { value: 3, label: 'Shut down' },
+  { value: 5, label: 'Factory reset' },
+  { value: 6, label: 'Close data link' },
+  { value: 7, label: 'Open data link' },
+];
+
+export default function DestructiveActionModal({ terminal, onClose, onDone }: Props) {
+  const { admin } = useAuth();
+  const isSuper = !!admin?.superAdmin;
+  const [action, setAction] = useState<Action>('terminal-control');
+  const [controlType, setControlType] = useState<3 | 4 | 5 | 6 | 7>(4);
+  const [justification, setJustification] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const command = (): GpsApprovalCommand =>
+    action === 'terminal-control' ? { kind: 'terminal-control', controlType } : { kind: 'clear-dtcs' };
+
+  const handleSubmit = async () => {
+    if (!isSuper && justification.trim().length < 10) {
+      return toast.error('Tell the approver why (at least 10 characters)');
+    }
+    const label = terminalLabel(terminal);
+    if (isSuper && !confirm(`${ACTIONS.find((a) => a.value === action)?.label} on ${label}? This can't be undone.`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (!isSuper) {
+        await api.createGpsCommandApproval(
+          action === 'delete-terminal'
+            ? { action: 'DELETE_TERMINAL', terminalId: terminal.id, justification: justification.trim() }
+            : { action: 'COMMAND', terminalId: terminal.id, command: command(), justification: justification.trim() },
+        );
+        toast.success('Approval requested — a super admin will review it');
+        onDone('requested');
+      } else if (action === 'delete-terminal') {
+        await api.deleteGpsTerminal(terminal.id);
+        toast.success('Terminal deleted');
+        onDone('deleted');
+      } else {
+        await api.enqueueGpsCommand(terminal.id, command());
+        toast.success('Command queued');
+        onDone('queued');
+      }
+    } catch (err: any) {
+      toast.error(err.message || (isSuper ? 'Action failed' : 'Failed to request approval'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center p-4 pt-[10vh] overflow-y-auto">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl animate-scale-in">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Destructive action</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">{terminalLabel(terminal)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!isSuper && (
+            <div className="flex gap-2 px-3 py-2 rounded-xl text-xs border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-800 dark:text-amber-300">
+              <ShieldAlert size={14} className="flex-shrink-0 mt-0.5" />
+              <p>These actions need a super admin. Your request runs once another super admin approves it.</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Action</label>
+            <select value={action} onChange={(e) => setAction(e.target.value as Action)} className={inputCls}>
+              {ACTIONS.map((a) => (
+                <option key={a.value} value={a.value}>{a.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {action === 'terminal-control' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Control</label>
+              <select value={controlType} onChange={(e) => setControlType(Number(e.target.value) as 3 | 4 | 5 | 6 | 7)} className={inputCls}>
+                {CONTROL_TYPES.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {!isSuper && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Justification<span className="text-red-500 ml-0.5">*</span>
+              </label>
+              <textarea
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+                rows={4}
+                maxLength={2000}
+                placeholder="e.g. Unit stuck in a reboot loop since the last firmware push; dealer confirmed the vehicle is parked."
+                className={inputCls}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="px-4 py-2.5 rounded-xl bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-medium flex items-center gap-2 transition-all"
+          >
+            {saving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Send size={16} />
+            )}
+            {isSuper ? 'Run now' : 'Request approval'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const inputCls =
+  'w-full px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
@@ -16,8 +16,8 @@
  * would still work but keeps the audit-log payload lean.
  */
 
-import { useState } from 'react';
-import { api, GpsTerminal, UpdateTerminalBody } from '@/lib/api';
+import { useEffect, useState } from 'react';
+import { api, GpsConfigProfile, GpsTerminal, UpdateTerminalBody } from '@/lib/api';
 import { X, Save } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -41,6 +41,8 @@ type Form = {
   vehicleModel: string;
   nickname: string;
   plateNumber: string;
+  fleetGroup: string;
+  configProfileId: string;
 };
 
 function seedForm(t: GpsTerminal): Form {
@@ -58,6 +60,8 @@ function seedForm(t: GpsTerminal): Form {
     vehicleModel: t.vehicleModel ?? '',
     nickname: t.nickname ?? '',
     plateNumber: t.plateNumber ?? '',
+    fleetGroup: t.fleetGroup ?? '',
+    configProfileId: t.configProfileId ?? '',
   };
 }
 
@@ -83,6 +87,8 @@ function buildPatch(form: Form, original: GpsTerminal): UpdateTerminalBody {
     ['vehicleModel', 'vehicleModel'],
     ['nickname', 'nickname'],
     ['plateNumber', 'plateNumber'],
+    ['fleetGroup', 'fleetGroup'],
+    ['configProfileId', 'configProfileId'],
   ];
   for (const [formKey, apiKey] of pairs) {
     const formVal = form[formKey].trim();
@@ -108,6 +114,14 @@ function buildPatch(form: Form, original: GpsTerminal): UpdateTerminalBody {
 export default function EditTerminalModal({ terminal, onClose, onUpdated }: Props) {
   const [form, setForm] = useState<Form>(() => seedForm(terminal));
   const [saving, setSaving] = useState(false);
+  const [profiles, setProfiles] = useState<GpsConfigProfile[]>([]);
+
+  useEffect(() => {
+    api
+      .listGpsConfigProfiles()
+      .then((res) => setProfiles(res.profiles))
+      .catch(() => setProfiles([]));
+  }, []);
 
   const setField = (key: keyof Form, value: string) =>
     setForm((f) => ({ ...f, [key]: value }));
@@ -332,6 +346,34 @@ export default function EditTerminalModal({ terminal, onClose, onUpdated }: Prop
                 maxLength={64}
               />
             </Field>
+            <Field label="Config profile" hint="Assigned directly, this overrides the fleet group's profile.">
+              <select
+                value={form.configProfileId}
+                onChange={(e) => setField('configProfileId', e.target.value)}
+                className="input"
+              >
+                <option value="">From fleet group</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </Field>
+          </Section>
+
+          <Section title="Configuration (optional)">
+            <Field
+              label="Fleet group"
+              hint="Terminals in a group get the config profile that lists it, unless one is assigned directly."
+            >
+              <input
+                type="text"
+                value={form.fleetGroup}
+                onChange={(e) => setField('fleetGroup', e.target.value)}
+                placeholder="e.g. loaner-fleet"
+                className="input"
+                maxLength={64}
+              />
+            </Field>
           </Section>
 
           <div className="flex items-center justify-end gap-3 pt-2 border-t border-gray-200 dark:border-gray-700 -mx-6 px-6 pt-4">
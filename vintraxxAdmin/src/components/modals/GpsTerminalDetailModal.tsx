@@ -2,15 +2,16 @@
 
 /**
  * GpsTerminalDetailModal — full per-terminal admin view with tabs:
- * Overview · Track · OBD · Alarms · DTC · Trips · Commands.
+ * Overview · Track · OBD · Tires · Alarms · DTC · Trips · Commands · Params · Journal.
  *
  * Subscribes to the per-terminal WebSocket channel so location updates
  * and alarm/DTC events refresh the relevant tab without polling.
  */
 
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { Fragment, useEffect, useState, useCallback, useRef } from 'react';
 import {
   api,
+  GpsTerminal,
   GpsTerminalDetail,
   GpsLocation,
   GpsObdSnapshot,
@@ -19,6 +20,10 @@ import {
   GpsTrip,
   GpsCommand,
   GpsScanReport,
+  GpsTireReading,
+  GpsFrameJournalEntry,
+  GpsParamDef,
+  NUMERIC_PARAM_TYPES,
 } from '@/lib/api';
 import { gpsAdminWs } from '@/lib/gpsAdminWs';
 import {
@@ -32,17 +37,20 @@ import {
   statusDotClasses,
   severityColor,
   alarmTypeLabel,
+  tireLabel,
+  tireFlags,
   toNumber,
 } from '@/lib/gpsHelpers';
 import {
   X, MapPin, Activity, AlertTriangle, Bell, Route, Send,
   Hash, Cpu, Calendar, RefreshCw, Smartphone, Car, Globe,
   CheckCircle, ExternalLink, Zap, FileText, Play, Mail, Sparkles,
-  WifiOff, Clock, XCircle,
+  WifiOff, Clock, XCircle, CircleDot, Lock, ScrollText, Download, SlidersHorizontal, ShieldAlert,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import BulkBar from '../shared/BulkBar';
 import TerminalInfoCard from '../shared/TerminalInfoCard';
+import DestructiveActionModal from './DestructiveActionModal';
 
 interface Props {
   terminalId: string;
@@ -50,7 +58,7 @@ interface Props {
   onMutated?: () => void;
 }
 
-type Tab = 'overview' | 'track' | 'obd' | 'alarms' | 'dtcs' | 'scan' | 'trips' | 'commands';
+type Tab = 'overview' | 'track' | 'obd' | 'tires' | 'alarms' | 'dtcs' | 'scan' | 'trips' | 'commands' | 'params' | 'journal';
 
 export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated }: Props) {
   const [terminal, setTerminal] = useState<GpsTerminalDetail | null>(null);
@@ -71,10 +79,12 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
   const [latestLastTripEndedAt, setLatestLastTripEndedAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [tab, setTab] = useState<Tab>('overview');
+  const [destructiveOpen, setDestructiveOpen] = useState(false);
 
   // Tab data caches — loaded lazily on tab open.
   const [locations, setLocations] = useState<GpsLocation[] | null>(null);
   const [obd, setObd] = useState<GpsObdSnapshot[] | null>(null);
+  const [tires, setTires] = useState<{ latest: GpsTireReading[]; readings: GpsTireReading[] } | null>(null);
   const [alarms, setAlarms] = useState<GpsAlarm[] | null>(null);
   const [dtcs, setDtcs] = useState<GpsDtcEvent[] | null>(null);
   const [trips, setTrips] = useState<GpsTrip[] | null>(null);
@@ -161,6 +171,9 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
     const offState2 = gpsAdminWs.on('terminal.offline', (e) => {
       if (e.terminalId === terminalId) loadTerminal();
     });
+    const offState3 = gpsAdminWs.on('terminal.logout', (e) => {
+      if (e.terminalId === terminalId) loadTerminal();
+    });
     const offAlarm = gpsAdminWs.on('alarm.opened', (e) => {
       // Only reload the list when the Alarms tab is visible — otherwise
       // we let the next tab-open re-hydrate from scratch. Previously there
@@ -178,6 +191,7 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
       offLoc();
       offState();
       offState2();
+      offState3();
       offAlarm();
       offDtc();
     };
@@ -205,6 +219,14 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
       toast.error(err.message || 'Failed to load OBD snapshots');
     }
   };
+  const reloadTires = async () => {
+    try {
+      const res = await api.getGpsTerminalTires(terminalId, { limit: 500 });
+      setTires({ latest: res.latest, readings: res.readings });
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load tire pressure');
+    }
+  };
   const reloadAlarms = async () => {
     try {
       const res = await api.listGpsAlarms(1, 100, { terminalId });
@@ -241,6 +263,7 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
   useEffect(() => {
     if (tab === 'track' && !locations) reloadLocations();
     if (tab === 'obd' && !obd) reloadObd();
+    if (tab === 'tires' && !tires) reloadTires();
     if (tab === 'alarms' && !alarms) reloadAlarms();
     if (tab === 'dtcs' && !dtcs) reloadDtcs();
     if (tab === 'trips' && !trips) reloadTrips();
@@ -263,11 +286,14 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
     { id: 'overview', label: 'Overview', icon: <Activity size={14} /> },
     { id: 'track', label: 'Track', icon: <MapPin size={14} /> },
     { id: 'obd', label: 'OBD', icon: <Cpu size={14} /> },
+    { id: 'tires', label: 'Tires', icon: <CircleDot size={14} /> },
     { id: 'alarms', label: 'Alarms', icon: <Bell size={14} /> },
     { id: 'dtcs', label: 'DTC', icon: <AlertTriangle size={14} /> },
     { id: 'scan', label: 'Scan', icon: <FileText size={14} /> },
     { id: 'trips', label: 'Trips', icon: <Route size={14} /> },
     { id: 'commands', label: 'Commands', icon: <Send size={14} /> },
+    { id: 'params', label: 'Params', icon: <SlidersHorizontal size={14} /> },
+    { id: 'journal', label: 'Journal', icon: <ScrollText size={14} /> },
   ];
 
   return (
@@ -307,6 +333,15 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
               </div>
             </div>
             <div className="flex items-center gap-1">
+              {terminal && (
+                <button
+                  onClick={() => setDestructiveOpen(true)}
+                  className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-red-500 transition-all"
+                  title="Reset, clear DTCs or delete"
+                >
+                  <ShieldAlert size={16} />
+                </button>
+              )}
               <button onClick={loadTerminal} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-blue-500 transition-all" title="Refresh">
                 <RefreshCw size={16} />
               </button>
@@ -348,11 +383,17 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
               latestObd={latestObd}
               stockNumber={latestStockNumber}
               lastTripEndedAt={latestLastTripEndedAt}
+              onTerminalChange={(t) => {
+                setTerminal((prev) => (prev ? { ...prev, ...t } : prev));
+                onMutated?.();
+              }}
             />
           ) : tab === 'track' ? (
             <TrackPane locations={locations} onReload={reloadLocations} onMutated={onMutated} />
           ) : tab === 'obd' ? (
             <ObdPane snapshots={obd} onReload={reloadObd} onMutated={onMutated} />
+          ) : tab === 'tires' ? (
+            <TiresPane data={tires} onReload={reloadTires} />
           ) : tab === 'alarms' ? (
             <AlarmsPane
               alarms={alarms}
@@ -368,9 +409,35 @@ export default function GpsTerminalDetailModal({ terminalId, onClose, onMutated
             <TripsPane trips={trips} onReload={reloadTrips} onMutated={onMutated} />
           ) : tab === 'commands' ? (
             <CommandsPane commands={commands} onReload={reloadCommands} onMutated={onMutated} />
+          ) : tab === 'params' ? (
+            <ParamsPane terminal={terminal} onQueued={reloadCommands} />
+          ) : tab === 'journal' ? (
+            <JournalPane
+              terminal={terminal}
+              onTerminalChange={(t) => {
+                setTerminal((prev) => (prev ? { ...prev, ...t } : prev));
+                onMutated?.();
+              }}
+            />
           ) : null}
         </div>
       </div>
+
+      {destructiveOpen && terminal && (
+        <DestructiveActionModal
+          terminal={terminal}
+          onClose={() => setDestructiveOpen(false)}
+          onDone={(outcome) => {
+            setDestructiveOpen(false);
+            if (outcome === 'deleted') {
+              onMutated?.();
+              onClose();
+            } else if (outcome === 'queued') {
+              reloadCommands();
+            }
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -383,12 +450,14 @@ function OverviewPane({
   latestObd,
   stockNumber,
   lastTripEndedAt,
+  onTerminalChange,
 }: {
   terminal: GpsTerminalDetail;
   latest: GpsLocation | null;
   latestObd: GpsObdSnapshot | null;
   stockNumber: string | null;
   lastTripEndedAt: string | null;
+  onTerminalChange: (t: GpsTerminal) => void;
 }) {
   // Battery comes from the OBD snapshot in practice — the gateway never
   // populates GpsLocation.batteryVoltageMv (no JT/T 808 TLV maps to it).
@@ -460,6 +529,7 @@ function OverviewPane({
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
           <Stat label="Device Identifier" value={terminal.deviceIdentifier} mono />
           <Stat label="IMEI" value={terminal.imei || '—'} mono />
+          <Stat label="Protocol" value={terminal.protocol === 'GT06' ? 'GT06' : 'JT/T 808'} />
           <Stat label="Phone" value={terminal.phoneNumber || '—'} mono />
           <Stat label="ICCID" value={terminal.iccid || '—'} mono />
           <Stat label="Manufacturer" value={terminal.manufacturerId || '—'} />
@@ -470,6 +540,9 @@ function OverviewPane({
         </div>
       </Section>
 
+      {/* Encryption */}
+      <EncryptionSection terminal={terminal} onTerminalChange={onTerminalChange} />
+
       {/* Vehicle */}
       <Section title="Vehicle" icon={<Car size={14} />}>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -716,6 +789,22 @@ function ObdPane({
                 <ObdField label="O₂ sensor" value={s.o2Voltage != null ? `${Number(s.o2Voltage).toFixed(3)} V` : '—'} />
                 <ObdField label="Odometer" value={s.odometerKm != null ? `${Number(s.odometerKm).toFixed(1)} km` : '—'} />
                 <ObdField label="MIL distance" value={s.milDistanceKm != null ? `${Number(s.milDistanceKm).toFixed(1)} km` : '—'} />
+                {/* Commercial / EV flows — only shown when the vehicle reports them. */}
+                {s.engineHours != null && <ObdField label="Engine hours" value={`${Number(s.engineHours).toFixed(1)} h`} />}
+                {s.fuelConsumedL != null && <ObdField label="Total fuel used" value={`${Number(s.fuelConsumedL).toFixed(1)} L`} />}
+                {s.defLevelPct != null && <ObdField label="DEF level" value={fmtPct(s.defLevelPct)} />}
+                {s.engineOilTempC != null && <ObdField label="Oil temp" value={`${s.engineOilTempC}°C`} />}
+                {s.engineOilPressureKpa != null && <ObdField label="Oil pressure" value={`${s.engineOilPressureKpa} kPa`} />}
+                {s.parkingBrakeOn != null && <ObdField label="Parking brake" value={s.parkingBrakeOn ? 'Set' : 'Released'} />}
+                {s.ptoIdleActive && <ObdField label="PTO" value="Running at idle" />}
+                {s.axleWeightKg != null && <ObdField label="Axle weight" value={`${s.axleWeightKg.toLocaleString()} kg`} />}
+                {s.evRangeKm != null && <ObdField label="EV range" value={`${Number(s.evRangeKm).toFixed(0)} km`} />}
+                {s.evChargingState != null && <ObdField label="Charging" value={s.evChargingState.replace(/_/g, ' ').toLowerCase()} />}
+                {s.evChargerPlugged != null && <ObdField label="Charger" value={s.evChargerPlugged ? 'Plugged in' : 'Unplugged'} />}
+                {s.evMotorRpm != null && <ObdField label="Motor RPM" value={s.evMotorRpm.toLocaleString()} />}
+                {s.evMotorTorqueNm != null && <ObdField label="Motor torque" value={`${s.evMotorTorqueNm} Nm`} />}
+                {s.evMotorTempC != null && <ObdField label="Motor temp" value={`${s.evMotorTempC}°C`} />}
+                {s.evSohPct != null && <ObdField label="Battery health" value={`${s.evSohPct}%`} />}
               </div>
               {s.extraPidsJson && Object.keys(s.extraPidsJson).length > 0 && (
                 <div className="mt-2 flex flex-wrap gap-1.5 text-[11px]">
@@ -1154,8 +1243,482 @@ function CommandStatusPill({ status }: { status: GpsCommand['status'] }) {
   return <span className={`px-2 py-0.5 text-[10px] font-bold rounded-md ${cls}`}>{status}</span>;
 }
 
+function fmtParamId(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
+
+function fmtParamValue(def: GpsParamDef, value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (Array.isArray(value)) return value.map((v) => fmtParamValue(def, v)).join(', ');
+  if (def.options && typeof value === 'number' && def.options[value] !== undefined) {
+    return `${def.options[value]} (${value})`;
+  }
+  return def.unit ? `${value} ${def.unit}` : String(value);
+}
+
+/**
+ * Parameter editor driven by the backend registry. Current values come from
+ * the last 0x0104 dump; edits go out as one set-params (0x8103) command and
+ * the backend validates each value against the same registry.
+ */
+function ParamsPane({ terminal, onQueued }: { terminal: GpsTerminalDetail; onQueued: () => void }) {
+  const [defs, setDefs] = useState<GpsParamDef[] | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadDefs = useCallback(async () => {
+    try {
+      const res = await api.listGpsParameterDefs();
+      setDefs(res.parameters);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load parameter definitions');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDefs();
+  }, [loadDefs]);
+
+  if (defs === null) return <Loading />;
+
+  const values = terminal.parameters?.values ?? {};
+  const unknown = terminal.parameters?.unknown ?? {};
+  const needle = filter.trim().toLowerCase();
+  // One-shot instructions (clear data, read DTCs) have their own commands.
+  const visible = defs.filter(
+    (d) =>
+      !d.action &&
+      (!needle ||
+        d.name.toLowerCase().includes(needle) ||
+        d.key.toLowerCase().includes(needle) ||
+        fmtParamId(d.id).includes(needle)),
+  );
+  const groups = Array.from(new Set(visible.map((d) => d.group)));
+  const changed = defs.filter((d) => draft[d.key] !== undefined && draft[d.key] !== '');
+
+  const queue = async (body: Parameters<typeof api.enqueueGpsCommand>[1], label: string) => {
+    setBusy(true);
+    try {
+      await api.enqueueGpsCommand(terminal.id, body);
+      toast.success(label);
+      onQueued();
+      return true;
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to queue command');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRead = () => queue({ kind: 'read-params' }, 'Parameter query queued');
+
+  const handleApply = async () => {
+    const setParams = changed.map((d) => ({
+      id: d.id,
+      value: NUMERIC_PARAM_TYPES.has(d.type) ? Number(draft[d.key]) : draft[d.key],
+    }));
+    const bad = setParams.find((p) => typeof p.value === 'number' && !Number.isFinite(p.value));
+    if (bad) {
+      toast.error(`${fmtParamId(bad.id)} needs a number`);
+      return;
+    }
+    const ok = await queue(
+      { kind: 'set-params', setParams },
+      `Queued ${setParams.length} parameter change${setParams.length === 1 ? '' : 's'}`,
+    );
+    if (ok) setDraft({});
+  };
+
+  const inputCls =
+    'w-full px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const buttonCls =
+    'px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by name or id…"
+          className={`${inputCls} max-w-xs`}
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 flex-1">
+          {terminal.parameters?.queriedAt
+            ? `Read ${fmtRelative(terminal.parameters.queriedAt)}`
+            : 'Never read from the device'}
+        </p>
+        <button onClick={handleRead} disabled={busy} className={`${buttonCls} flex items-center gap-1`}>
+          <RefreshCw size={12} /> Read from device
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={busy || changed.length === 0}
+          className="px-3 py-1.5 text-xs font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Send size={12} /> Apply{changed.length > 0 ? ` ${changed.length}` : ''}
+        </button>
+      </div>
+
+      {terminal.configStatus && (
+        <div
+          className={`px-3 py-2 rounded-xl text-xs border ${
+            terminal.configStatus === 'DRIFTED'
+              ? 'border-red-200 dark:border-red-500/30 bg-red-50 dark:bg-red-500/10 text-red-700 dark:text-red-300'
+              : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+          }`}
+        >
+          <p>
+            Config profile: <span className="font-semibold">{terminal.configStatus.replace('_', ' ')}</span>
+            {terminal.configCheckedAt && ` · checked ${fmtRelative(terminal.configCheckedAt)}`}
+          </p>
+          {terminal.configDrift?.map((d) => (
+            <p key={d.id} className="font-mono text-[11px] mt-0.5">
+              {d.id} {d.key}: expected {String(d.expected)}, device has {d.actual === null ? 'nothing' : String(d.actual)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <Section key={group} title={group.charAt(0).toUpperCase() + group.slice(1)}>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-xl border border-gray-200 dark:border-gray-600">
+            {visible
+              .filter((d) => d.group === group)
+              .map((d) => (
+                <div key={d.id} className="grid grid-cols-12 gap-3 items-center px-3 py-2">
+                  <div className="col-span-5 min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-white truncate" title={d.description}>
+                      {d.name}
+                    </p>
+                    <p className="text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                      {fmtParamId(d.id)} · {d.type}
+                    </p>
+                  </div>
+                  <p className="col-span-3 text-xs text-gray-700 dark:text-gray-300 truncate">
+                    {fmtParamValue(d, values[d.key])}
+                  </p>
+                  <div className="col-span-4">
+                    {d.readOnly ? (
+                      <span className="text-[10px] uppercase tracking-wider text-gray-400">Read-only</span>
+                    ) : d.options ? (
+                      <select
+                        value={draft[d.key] ?? ''}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, [d.key]: e.target.value }))}
+                        className={inputCls}
+                      >
+                        <option value="">Unchanged</option>
+                        {Object.entries(d.options).map(([v, label]) => (
+                          <option key={v} value={v}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type={NUMERIC_PARAM_TYPES.has(d.type) ? 'number' : 'text'}
+                        min={d.min}
+                        max={d.max}
+                        value={draft[d.key] ?? ''}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, [d.key]: e.target.value }))}
+                        placeholder={d.type === 'BYTES' ? 'hex' : d.unit ?? ''}
+                        className={inputCls}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+          </div>
+        </Section>
+      ))}
+
+      {Object.keys(unknown).length > 0 && (
+        <Section title="Unrecognised parameters">
+          <div className="space-y-1">
+            {Object.entries(unknown).map(([id, hex]) => (
+              <p key={id} className="text-xs font-mono text-gray-600 dark:text-gray-400 break-all">
+                {id}: {hex}
+              </p>
+            ))}
+          </div>
+        </Section>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Raw frame journal: every JT/T 808 frame in and out of the terminal while
+ * capture is on. The capture download feeds scripts/replay-frame-journal.ts
+ * on the backend to re-run decoders against field data.
+ */
+function JournalPane({
+  terminal,
+  onTerminalChange,
+}: {
+  terminal: GpsTerminal;
+  onTerminalChange: (t: GpsTerminal) => void;
+}) {
+  const [entries, setEntries] = useState<GpsFrameJournalEntry[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [direction, setDirection] = useState<'' | 'IN' | 'OUT'>('');
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.getGpsTerminalJournal(terminal.id, {
+        direction: direction || undefined,
+        errorsOnly: errorsOnly || undefined,
+        page,
+        limit: 100,
+      });
+      setEntries(res.entries);
+      setTotal(res.total);
+      setTotalPages(res.totalPages);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load frame journal');
+    }
+  }, [terminal.id, direction, errorsOnly, page]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      const res = await api.updateGpsTerminal(terminal.id, {
+        journalEnabled: !terminal.journalEnabled,
+      });
+      onTerminalChange(res.terminal);
+      toast.success(res.terminal.journalEnabled ? 'Frame capture started' : 'Frame capture stopped');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to update frame capture');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const token = localStorage.getItem('admin_token');
+      const res = await fetch(api.getGpsJournalCaptureUrl(terminal.id), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error(`Download failed: ${res.status}`);
+      const blob = await res.blob();
+      const match = /filename=([^;]+)/.exec(res.headers.get('Content-Disposition') ?? '');
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = match?.[1] ?? `journal-${terminal.deviceIdentifier}.jsonl`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to download capture');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const selectCls =
+    'px-2 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300';
+  const buttonCls =
+    'px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600">
+        <div>
+          <p className="text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">Capture</p>
+          <p className="text-sm font-medium text-gray-900 dark:text-white mt-0.5">
+            {terminal.journalEnabled ? 'Recording every frame' : 'Off'} · {total} frame{total === 1 ? '' : 's'} stored
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={handleDownload} disabled={downloading || total === 0} className={`${buttonCls} inline-flex items-center gap-1.5`}>
+            <Download size={12} />
+            {downloading ? 'Downloading…' : 'Capture file'}
+          </button>
+          <button onClick={handleToggle} disabled={saving} className={buttonCls}>
+            {saving ? 'Saving…' : terminal.journalEnabled ? 'Stop capture' : 'Start capture'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={direction}
+          onChange={(e) => {
+            setDirection(e.target.value as '' | 'IN' | 'OUT');
+            setPage(1);
+          }}
+          className={selectCls}
+        >
+          <option value="">Both directions</option>
+          <option value="IN">Inbound</option>
+          <option value="OUT">Outbound</option>
+        </select>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={errorsOnly}
+            onChange={(e) => {
+              setErrorsOnly(e.target.checked);
+              setPage(1);
+            }}
+            className="w-4 h-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+          />
+          Decode errors only
+        </label>
+        <button onClick={load} className="ml-auto p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-blue-500 transition-all" title="Refresh">
+          <RefreshCw size={14} />
+        </button>
+      </div>
+
+      {entries === null ? (
+        <Loading />
+      ) : entries.length === 0 ? (
+        <Empty
+          icon={<ScrollText />}
+          text={terminal.journalEnabled ? 'No frames captured yet' : 'Start capture to record frames'}
+          onReload={load}
+        />
+      ) : (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-600 overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="text-left px-3 py-1.5 font-medium">Time</th>
+                <th className="text-left px-3 py-1.5 font-medium">Dir</th>
+                <th className="text-left px-3 py-1.5 font-medium">Message</th>
+                <th className="text-right px-3 py-1.5 font-medium">Serial</th>
+                <th className="text-right px-3 py-1.5 font-medium">Bytes</th>
+                <th className="text-left px-3 py-1.5 font-medium">Outcome</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <Fragment key={e.id}>
+                  <tr
+                    onClick={() => setExpanded(expanded === e.id ? null : e.id)}
+                    className="border-t border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/30"
+                  >
+                    <td className="px-3 py-1 whitespace-nowrap">{new Date(e.capturedAt).toLocaleString()}</td>
+                    <td className={`px-3 py-1 font-semibold ${e.direction === 'IN' ? 'text-blue-600 dark:text-blue-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                      {e.direction === 'IN' ? '→ IN' : '← OUT'}
+                    </td>
+                    <td className="px-3 py-1 font-mono">{e.msgId ?? '—'}</td>
+                    <td className="px-3 py-1 text-right font-mono">{e.msgSerial ?? '—'}</td>
+                    <td className="px-3 py-1 text-right font-mono">{e.frame.length / 2}</td>
+                    <td className="px-3 py-1">
+                      {e.decodeError ? <span className="text-red-600 dark:text-red-400">{e.decodeError}</span> : 'OK'}
+                    </td>
+                  </tr>
+                  {expanded === e.id && (
+                    <tr className="bg-gray-50 dark:bg-gray-700/30">
+                      <td colSpan={6} className="px-3 py-2 font-mono text-[11px] break-all text-gray-700 dark:text-gray-300">
+                        {e.frame}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <button onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page <= 1} className={buttonCls}>
+            Newer
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button onClick={() => setPage((p) => Math.min(totalPages, p + 1))} disabled={page >= totalPages} className={buttonCls}>
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
+/**
+ * RSA body encryption: whether the device has sent its 0x0A00 key, and the
+ * per-terminal policy that makes the gateway refuse plaintext telemetry.
+ * The policy is read at login, so a connected device picks it up on its
+ * next reconnect.
+ */
+function EncryptionSection({
+  terminal,
+  onTerminalChange,
+}: {
+  terminal: GpsTerminal;
+  onTerminalChange: (t: GpsTerminal) => void;
+}) {
+  const [saving, setSaving] = useState(false);
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      const res = await api.updateGpsTerminal(terminal.id, {
+        requireEncryption: !terminal.requireEncryption,
+      });
+      onTerminalChange(res.terminal);
+      toast.success(
+        res.terminal.requireEncryption
+          ? 'Encryption required from next login'
+          : 'Plaintext allowed from next login',
+      );
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to update encryption policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Section title="Encryption" icon={<Lock size={14} />}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Stat
+          label="Terminal RSA key"
+          value={terminal.rsaKeyReceivedAt ? `Received ${fmtRelative(terminal.rsaKeyReceivedAt)}` : 'Not exchanged'}
+        />
+        <div className="flex items-center justify-between px-3 py-2 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600">
+          <div>
+            <p className="text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">Policy</p>
+            <p className="text-sm font-medium text-gray-900 dark:text-white mt-0.5">
+              {terminal.requireEncryption ? 'Encryption required' : 'Plaintext allowed'}
+            </p>
+          </div>
+          <button
+            onClick={handleToggle}
+            disabled={saving}
+            className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : terminal.requireEncryption ? 'Allow plaintext' : 'Require'}
+          </button>
+        </div>
+      </div>
+    </Section>
+  );
+}
+
 function Section({
   title,
   icon,
@@ -1209,6 +1772,85 @@ function ObdField({ label, value, mono }: { label: string; value: string; mono?:
   );
 }
 
+function TiresPane({
+  data,
+  onReload,
+}: {
+  data: { latest: GpsTireReading[]; readings: GpsTireReading[] } | null;
+  onReload: () => void;
+}) {
+  if (data === null) return <Loading />;
+  if (data.latest.length === 0) {
+    return <Empty icon={<CircleDot />} text="No tire-pressure data (needs a TPMS peripheral)" onReload={onReload} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Last reported {fmtRelative(data.latest[0].reportedAt)}
+        </p>
+        <button onClick={onReload} className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-blue-500 transition-all" title="Refresh">
+          <RefreshCw size={14} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {data.latest.map((t) => {
+          const flags = tireFlags(t.statusBits);
+          return (
+            <div
+              key={t.id}
+              className={`p-3 rounded-xl border ${
+                flags.length > 0
+                  ? 'border-red-200 dark:border-red-500/30 bg-red-50 dark:bg-red-500/10'
+                  : 'border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/30'
+              }`}
+            >
+              <p className="text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">{tireLabel(t)}</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">
+                {t.pressureKpa} <span className="text-xs font-normal text-gray-500">kPa</span>
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-300">
+                {(t.pressureKpa * 0.145038).toFixed(1)} psi · {t.temperatureC}°C
+              </p>
+              {flags.length > 0 && (
+                <p className="mt-1 text-[10px] font-semibold text-red-700 dark:text-red-300">{flags.join(', ')}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div>
+        <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">Last 24h</p>
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="text-left px-3 py-1.5 font-medium">Time</th>
+                <th className="text-left px-3 py-1.5 font-medium">Wheel</th>
+                <th className="text-right px-3 py-1.5 font-medium">Pressure</th>
+                <th className="text-right px-3 py-1.5 font-medium">Temp</th>
+                <th className="text-left px-3 py-1.5 font-medium">Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.readings.map((r) => (
+                <tr key={r.id} className="border-t border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                  <td className="px-3 py-1">{new Date(r.reportedAt).toLocaleString()}</td>
+                  <td className="px-3 py-1">{tireLabel(r)}</td>
+                  <td className="px-3 py-1 text-right font-mono">{r.pressureKpa} kPa</td>
+                  <td className="px-3 py-1 text-right font-mono">{r.temperatureC}°C</td>
+                  <td className="px-3 py-1">{tireFlags(r.statusBits).join(', ') || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function Loading() {
   return (
     <div className="flex items-center justify-center py-16">
@@ -1427,6 +2069,21 @@ function ScanReportsPane({ terminal }: { terminal: GpsTerminalDetail }) {
                   {toNum(report.distanceWithMilKm) > 0 && <ScanObdCell label="Dist w/ MIL" value={kmToMi(report.distanceWithMilKm)} />}
                   {toNum(report.distanceSinceClearKm) > 0 && <ScanObdCell label="Dist Since Clear" value={kmToMi(report.distanceSinceClearKm)} />}
                   {report.warmupsSinceClear != null && <ScanObdCell label="Warm-ups" value={`${report.warmupsSinceClear}`} />}
+                  {report.engineHours != null && <ScanObdCell label="Engine Hours" value={`${toNum(report.engineHours)} h`} />}
+                  {report.fuelRateLph != null && <ScanObdCell label="Fuel Rate" value={`${toNum(report.fuelRateLph)} L/h`} />}
+                  {report.fuelConsumedL != null && <ScanObdCell label="Total Fuel" value={`${toNum(report.fuelConsumedL)} L`} />}
+                  {report.defLevelPct != null && <ScanObdCell label="DEF Level" value={`${toNum(report.defLevelPct)}%`} />}
+                  {report.engineOilTempC != null && <ScanObdCell label="Oil Temp" value={`${report.engineOilTempC}°C`} />}
+                  {report.engineOilPressureKpa != null && <ScanObdCell label="Oil Pressure" value={`${report.engineOilPressureKpa} kPa`} />}
+                  {report.parkingBrakeOn != null && <ScanObdCell label="Parking Brake" value={report.parkingBrakeOn ? 'Set' : 'Released'} />}
+                  {report.ptoIdleActive && <ScanObdCell label="PTO" value="Running at idle" />}
+                  {report.axleWeightKg != null && <ScanObdCell label="Axle Weight" value={`${report.axleWeightKg} kg`} />}
+                  {report.evSocPct != null && <ScanObdCell label="EV SOC" value={`${report.evSocPct}%`} />}
+                  {report.evRangeKm != null && <ScanObdCell label="EV Range" value={`${toNum(report.evRangeKm)} km`} />}
+                  {report.evChargingState != null && <ScanObdCell label="Charging" value={report.evChargingState.replace(/_/g, ' ')} />}
+                  {report.evMotorRpm != null && <ScanObdCell label="Motor RPM" value={`${report.evMotorRpm}`} />}
+                  {report.evMotorTempC != null && <ScanObdCell label="Motor Temp" value={`${report.evMotorTempC}°C`} />}
+                  {report.evSohPct != null && <ScanObdCell label="Battery Health" value={`${report.evSohPct}%`} />}
                 </div>
               </div>
             </>
@@ -18,7 +18,7 @@
  */
 
 import { useEffect, useState } from 'react';
-import { api, ProvisionTerminalBody, User } from '@/lib/api';
+import { api, GpsProtocol, ProvisionTerminalBody, User } from '@/lib/api';
 import { X, Plus, UserPlus, Search } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -44,6 +44,7 @@ export default function ProvisionTerminalModal({ onClose, onCreated }: Props) {
     nickname: '',
     plateNumber: '',
     ownerUserId: undefined,
+    protocol: 'JT808',
   });
   const [saving, setSaving] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
@@ -115,6 +116,7 @@ export default function ProvisionTerminalModal({ onClose, onCreated }: Props) {
       }
       if (form.vehicleYear) cleaned.vehicleYear = form.vehicleYear;
       if (form.ownerUserId) cleaned.ownerUserId = form.ownerUserId;
+      if (form.protocol && form.protocol !== 'JT808') cleaned.protocol = form.protocol;
 
       await api.provisionGpsTerminal(cleaned);
       toast.success('Terminal provisioned');
@@ -133,7 +135,7 @@ export default function ProvisionTerminalModal({ onClose, onCreated }: Props) {
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
           <div>
             <h2 className="text-lg font-bold text-gray-900 dark:text-white">Provision GPS Terminal</h2>
-            <p className="text-sm text-gray-500 dark:text-gray-400">Register a JT/T 808 GPS terminal by its device identifier.</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Register a JT/T 808 or GT06 GPS terminal by its device identifier.</p>
           </div>
           <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
             <X size={18} />
@@ -143,6 +145,19 @@ export default function ProvisionTerminalModal({ onClose, onCreated }: Props) {
         <div className="overflow-y-auto flex-1 p-6 space-y-5">
           {/* Identification */}
           <Section title="Identification">
+            <Field
+              label="Protocol"
+              hint="GT06 (Concox and compatible) trackers log in with their IMEI — use it as the device identifier. Only locate, read-params, reset and factory reset commands are available for GT06."
+            >
+              <select
+                value={form.protocol ?? 'JT808'}
+                onChange={(e) => setField('protocol', e.target.value as GpsProtocol)}
+                className="input"
+              >
+                <option value="JT808">JT/T 808</option>
+                <option value="GT06">GT06</option>
+              </select>
+            </Field>
             <Field
               label="Device Identifier / Terminal ID *"
               required
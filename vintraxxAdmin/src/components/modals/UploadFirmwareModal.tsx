@@ -0,0 +1,220 @@
+'use client';
+
+/**
+ * UploadFirmwareModal — super-admin form to upload an OTA firmware image.
+ *
+ * Backend route: POST /admin/gps/firmware/images (Zod schema in
+ * `schemas/gps-admin.schema.ts::createFirmwareImageSchema`). The file is
+ * sent base64-encoded in the JSON body; the backend decodes it, enforces
+ * the 8 MiB cap and returns the SHA-256 it computed.
+ *
+ * `manufacturerId` and `version` go into every 0x8108 header the gateway
+ * sends — the terminal rejects an image whose manufacturer id doesn't
+ * match its own, so copy it from the vendor's release notes.
+ */
+
+import { useRef, useState } from 'react';
+import { api, GpsFirmwareUpgradeType } from '@/lib/api';
+import { X, Upload, FileUp } from 'lucide-react';
+import { toast } from 'sonner';
+
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const UPGRADE_TYPES: { value: GpsFirmwareUpgradeType; label: string }[] = [
+  { value: 0, label: 'Terminal (0)' },
+  { value: 12, label: 'IC card reader (12)' },
+  { value: 52, label: 'GNSS module (52)' },
+];
+
+interface Props {
+  onClose: () => void;
+  onUploaded: () => void;
+}
+
+/** Raw base64 of the file (the data: URL prefix stripped). */
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const url = reader.result as string;
+      resolve(url.substring(url.indexOf(',') + 1));
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function UploadFirmwareModal({ onClose, onUploaded }: Props) {
+  const [name, setName] = useState('');
+  const [version, setVersion] = useState('');
+  const [upgradeType, setUpgradeType] = useState<GpsFirmwareUpgradeType>(0);
+  const [manufacturerId, setManufacturerId] = useState('');
+  const [terminalModel, setTerminalModel] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (f: File | undefined) => {
+    if (!f) return;
+    if (f.size === 0) return toast.error('File is empty');
+    if (f.size > MAX_IMAGE_BYTES) return toast.error('Firmware image must be 8 MB or less');
+    setFile(f);
+    if (!name.trim()) setName(f.name);
+  };
+
+  const handleSubmit = async () => {
+    if (!file) return toast.error('Choose a firmware file');
+    if (!name.trim() || !version.trim()) return toast.error('Name and version are required');
+    if (!/^[A-Za-z0-9]{1,5}$/.test(manufacturerId.trim())) {
+      return toast.error('Manufacturer ID must be 1–5 letters or digits');
+    }
+    setSaving(true);
+    try {
+      const res = await api.createGpsFirmwareImage({
+        name: name.trim(),
+        version: version.trim(),
+        upgradeType,
+        manufacturerId: manufacturerId.trim(),
+        terminalModel: terminalModel.trim() || null,
+        dataBase64: await fileToBase64(file),
+      });
+      toast.success(`Uploaded ${res.image.name} (sha256 ${res.image.sha256.substring(0, 12)}…)`);
+      onUploaded();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to upload firmware');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[5vh] overflow-y-auto">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl animate-scale-in max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Upload Firmware Image</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Delivered to terminals over JT/T 808 0x8108.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex flex-col items-center gap-2 px-4 py-6 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 transition-all"
+          >
+            <FileUp size={28} />
+            <span className="text-sm font-medium">
+              {file ? `${file.name} · ${(file.size / 1024).toFixed(1)} KB` : 'Choose firmware file (max 8 MB)'}
+            </span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+
+          <Field label="Name" required>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="input" maxLength={120} />
+          </Field>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="Version" required hint="Sent in the 0x8108 body and compared with each terminal's reported firmware version.">
+              <input type="text" value={version} onChange={(e) => setVersion(e.target.value)} className="input font-mono" maxLength={64} />
+            </Field>
+            <Field label="Upgrade type" required>
+              <select
+                value={upgradeType}
+                onChange={(e) => setUpgradeType(Number(e.target.value) as GpsFirmwareUpgradeType)}
+                className="input"
+              >
+                {UPGRADE_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </Field>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="Manufacturer ID" required hint="1–5 characters; must match the terminal's own manufacturer ID.">
+              <input type="text" value={manufacturerId} onChange={(e) => setManufacturerId(e.target.value)} className="input font-mono" maxLength={5} />
+            </Field>
+            <Field label="Terminal model (optional)">
+              <input type="text" value={terminalModel} onChange={(e) => setTerminalModel(e.target.value)} className="input" maxLength={64} />
+            </Field>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !file}
+            className="px-4 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium flex items-center gap-2 transition-all"
+          >
+            {saving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Upload size={16} />
+            )}
+            Upload
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        :global(.input) {
+          width: 100%;
+          padding: 0.625rem 1rem;
+          border-radius: 0.75rem;
+          border: 1px solid rgb(229 231 235);
+          background: rgb(249 250 251);
+          font-size: 0.875rem;
+          color: rgb(17 24 39);
+        }
+        :global(.dark .input) {
+          border-color: rgb(75 85 99);
+          background: rgba(55, 65, 81, 0.5);
+          color: white;
+        }
+        :global(.input:focus) {
+          outline: none;
+          box-shadow: 0 0 0 2px rgb(59 130 246);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  children,
+  required,
+  hint,
+}: {
+  label: string;
+  children: React.ReactNode;
+  required?: boolean;
+  hint?: string;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+      </label>
+      {children}
+      {hint && (
+        <p className="mt-1 text-[11px] leading-snug text-gray-500 dark:text-gray-400">{hint}</p>
+      )}
+    </div>
+  );
+}
@@ -33,6 +33,9 @@ const TYPES: GpsAlarmType[] = [
   'HARSH_BRAKE', 'HARSH_ACCEL', 'HARSH_TURN',
   'POWER_LOSS', 'POWER_LOW',
   'IGNITION_ON', 'IGNITION_OFF',
+  'EV_CELL_IMBALANCE', 'EV_OVER_TEMPERATURE',
+  'DOOR_OPEN_PARKED', 'MOTION_PARKED',
+  'TIRE_LOW_PRESSURE', 'TIRE_RAPID_LEAK', 'TIRE_OVER_TEMPERATURE',
   'TAMPER', 'GPS_BLOCKED', 'OTHER',
 ];
 
@@ -0,0 +1,231 @@
+'use client';
+
+/**
+ * GpsCommandApprovalsSection — requests for destructive actions.
+ *
+ * Admins without super-admin rights request terminal-control, clear-dtcs
+ * or terminal deletion from the terminal detail modal. A different super
+ * admin approves the request here, which runs it right away, or rejects it
+ * with a reason. Requesters can withdraw their own pending requests. Every
+ * step is also written to the Audit Log.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, GpsCommandApproval, GpsCommandApprovalStatus } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { fmtRelative } from '@/lib/gpsHelpers';
+import { CONTROL_TYPES } from '@/components/modals/DestructiveActionModal';
+import { RefreshCw, ShieldCheck, Check, X, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const STATUSES: Array<{ value: GpsCommandApprovalStatus | ''; label: string }> = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+  { value: '', label: 'All' },
+];
+
+function actionLabel(a: GpsCommandApproval): string {
+  if (a.action === 'DELETE_TERMINAL') return 'Delete terminal';
+  if (a.command?.kind === 'clear-dtcs') return 'Clear DTCs';
+  const control = CONTROL_TYPES.find((c) => c.value === a.command?.controlType);
+  return `Terminal control: ${control?.label ?? a.command?.controlType}`;
+}
+
+function StatusPill({ status }: { status: GpsCommandApprovalStatus }) {
+  const cls =
+    status === 'APPROVED'
+      ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300'
+      : status === 'REJECTED'
+        ? 'bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-300'
+        : status === 'PENDING'
+          ? 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300'
+          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300';
+  return <span className={`px-2 py-0.5 text-[10px] font-bold rounded-md ${cls}`}>{status}</span>;
+}
+
+export default function GpsCommandApprovalsSection({ onChanged }: { onChanged?: () => void }) {
+  const { admin } = useAuth();
+  const isSuper = !!admin?.superAdmin;
+  const [approvals, setApprovals] = useState<GpsCommandApproval[]>([]);
+  const [status, setStatus] = useState<GpsCommandApprovalStatus | ''>('PENDING');
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsCommandApprovals(1, 200, { status: status || undefined });
+      setApprovals(res.approvals);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load approval requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const act = async (a: GpsCommandApproval, run: () => Promise<unknown>, done: string, failed: string) => {
+    setBusyId(a.id);
+    try {
+      await run();
+      toast.success(done);
+      load();
+      onChanged?.();
+    } catch (err: any) {
+      toast.error(err.message || failed);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const approve = (a: GpsCommandApproval) => {
+    if (!confirm(`Approve and run "${actionLabel(a)}" on ${a.deviceIdentifier} now?`)) return;
+    act(a, () => api.approveGpsCommandApproval(a.id), 'Approved — action is running', 'Failed to approve');
+  };
+
+  const reject = (a: GpsCommandApproval) => {
+    const note = prompt(`Why reject "${actionLabel(a)}" on ${a.deviceIdentifier}?`)?.trim();
+    if (!note) return;
+    act(a, () => api.rejectGpsCommandApproval(a.id, note), 'Request rejected', 'Failed to reject');
+  };
+
+  const cancel = (a: GpsCommandApproval) => {
+    if (!confirm('Withdraw this request?')) return;
+    act(a, () => api.cancelGpsCommandApproval(a.id), 'Request withdrawn', 'Failed to withdraw');
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Approvals</h2>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as GpsCommandApprovalStatus | '')}
+            className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+          >
+            {STATUSES.map((s) => (
+              <option key={s.label} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+          <button onClick={load} className="p-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all">
+            <RefreshCw size={18} />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-14 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          ))}
+        </div>
+      ) : approvals.length === 0 ? (
+        <div className="text-center py-16">
+          <ShieldCheck size={48} className="mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <p className="text-gray-500 dark:text-gray-400">
+            {status === 'PENDING' ? 'Nothing waiting for approval' : 'No approval requests'}
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-3 text-left">Requested</th>
+                <th className="px-4 py-3 text-left">Action</th>
+                <th className="px-4 py-3 text-left">Justification</th>
+                <th className="px-4 py-3 text-left">Review</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {approvals.map((a) => {
+                const own = a.requestedByAdminId === admin?.id;
+                const pending = a.status === 'PENDING';
+                return (
+                  <tr key={a.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30 align-top">
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      <p className="text-gray-900 dark:text-white">{a.requestedByEmail ?? 'deleted admin'}</p>
+                      <p>{fmtRelative(a.createdAt)}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className={`font-medium ${a.action === 'DELETE_TERMINAL' ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                        {actionLabel(a)}
+                      </p>
+                      <p className="text-[11px] font-mono text-gray-500 dark:text-gray-400">{a.deviceIdentifier}</p>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-700 dark:text-gray-300 max-w-[320px] whitespace-pre-wrap">
+                      {a.justification}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 max-w-[260px]">
+                      <StatusPill status={a.status} />
+                      {a.reviewedByEmail && (
+                        <p className="mt-1">
+                          {a.reviewedByEmail} · {fmtRelative(a.reviewedAt)}
+                        </p>
+                      )}
+                      {a.reviewNote && <p className="mt-0.5 italic">{a.reviewNote}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {pending && (
+                        <div className="flex items-center justify-end gap-1">
+                          {isSuper && !own && (
+                            <>
+                              <ActionButton title="Approve and run" disabled={busyId === a.id} onClick={() => approve(a)} className="text-emerald-600 dark:text-emerald-400">
+                                <Check size={16} />
+                              </ActionButton>
+                              <ActionButton title="Reject" disabled={busyId === a.id} onClick={() => reject(a)} className="text-red-600 dark:text-red-400">
+                                <X size={16} />
+                              </ActionButton>
+                            </>
+                          )}
+                          {own && (
+                            <ActionButton title="Withdraw" disabled={busyId === a.id} onClick={() => cancel(a)} className="text-gray-600 dark:text-gray-300">
+                              <Undo2 size={16} />
+                            </ActionButton>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActionButton({
+  title,
+  onClick,
+  disabled,
+  className,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-all ${className ?? ''}`}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,374 @@
+'use client';
+
+/**
+ * GpsCommandBatchesSection — fleet-wide bulk commands and their progress.
+ *
+ * Each row is one batch: a single command released to every matching
+ * terminal a few at a time. Progress updates live from the admin WebSocket
+ * (`command.batch.progress`); clicking a batch lists its commands below.
+ * Cancelling stops further releases and expires the still-queued ones.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  api,
+  GpsCommand,
+  GpsCommandBatch,
+  GpsCommandBatchProgress,
+  GpsCommandBatchStatus,
+  GpsCommandStatus,
+} from '@/lib/api';
+import { gpsAdminWs } from '@/lib/gpsAdminWs';
+import { fmtRelative, terminalLabel } from '@/lib/gpsHelpers';
+import CreateCommandBatchModal from '@/components/modals/CreateCommandBatchModal';
+import {
+  RefreshCw, Layers, Plus, Ban, ChevronLeft, ChevronRight, X as XIcon,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+const BATCH_STATUSES: GpsCommandBatchStatus[] = ['RUNNING', 'COMPLETED', 'CANCELLED'];
+const COMMAND_STATUSES: GpsCommandStatus[] = ['QUEUED', 'SENT', 'ACKED', 'FAILED', 'EXPIRED'];
+
+export default function GpsCommandBatchesSection() {
+  const [batches, setBatches] = useState<GpsCommandBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [status, setStatus] = useState<GpsCommandBatchStatus | undefined>();
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<GpsCommandBatch | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsCommandBatches(page, 30, { status });
+      setBatches(res.batches);
+      setTotalPages(res.totalPages);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load command batches');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Patch progress in place; a batch we haven't loaded (new, other page) is
+  // picked up on the next refresh.
+  useEffect(() => {
+    return gpsAdminWs.on('command.batch.progress', (e) => {
+      const patch = (b: GpsCommandBatch) =>
+        b.id === e.batchId ? { ...b, status: e.status, progress: e.progress } : b;
+      setBatches((prev) => prev.map(patch));
+      setSelected((prev) => (prev ? patch(prev) : prev));
+    });
+  }, []);
+
+  const cancel = async (b: GpsCommandBatch) => {
+    if (!confirm(`Cancel batch "${b.name || b.command.kind}"? Queued commands will expire.`)) return;
+    setBusyId(b.id);
+    try {
+      await api.cancelGpsCommandBatch(b.id);
+      toast.success('Batch cancelled');
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to cancel batch');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Bulk Commands</h2>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={status || ''}
+            onChange={(e) => {
+              setStatus((e.target.value as GpsCommandBatchStatus) || undefined);
+              setPage(1);
+            }}
+            className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Any status</option>
+            {BATCH_STATUSES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setCreating(true)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-all"
+          >
+            <Plus size={14} />
+            New batch
+          </button>
+          <button onClick={load} className="p-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all">
+            <RefreshCw size={18} />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="h-14 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          ))}
+        </div>
+      ) : batches.length === 0 ? (
+        <div className="text-center py-16">
+          <Layers size={48} className="mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <p className="text-gray-500 dark:text-gray-400">
+            {status ? 'No batches match your filter' : 'No bulk commands yet'}
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3 text-left">Batch</th>
+                <th className="px-4 py-3 text-left w-1/3">Progress</th>
+                <th className="px-4 py-3 text-left">Created</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {batches.map((b) => (
+                <tr
+                  key={b.id}
+                  onClick={() => setSelected(b)}
+                  className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/30 ${
+                    selected?.id === b.id ? 'bg-blue-50 dark:bg-blue-500/10' : ''
+                  }`}
+                >
+                  <td className="px-4 py-3"><BatchStatusPill status={b.status} /></td>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900 dark:text-white font-medium">{b.name || b.command.kind}</p>
+                    <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                      {b.command.kind} · {b.concurrency} at a time
+                      {b.scheduleId && ' · scheduled run'}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3"><ProgressBar progress={b.progress} /></td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {fmtRelative(b.createdAt)}
+                  </td>
+                  <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                    {b.status === 'RUNNING' && (
+                      <button
+                        title="Cancel"
+                        onClick={() => cancel(b)}
+                        disabled={busyId === b.id}
+                        className="p-1.5 rounded-lg text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+                      >
+                        <Ban size={16} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Page {page} of {totalPages}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selected && <BatchCommands batch={selected} onClose={() => setSelected(null)} />}
+
+      {creating && (
+        <CreateCommandBatchModal
+          onClose={() => setCreating(false)}
+          onCreated={() => {
+            setCreating(false);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function BatchCommands({ batch, onClose }: { batch: GpsCommandBatch; onClose: () => void }) {
+  const [commands, setCommands] = useState<GpsCommand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [status, setStatus] = useState<GpsCommandStatus | undefined>();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsCommands(page, 50, { batchId: batch.id, status });
+      setCommands(res.commands);
+      setTotalPages(res.totalPages);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load batch commands');
+    } finally {
+      setLoading(false);
+    }
+  }, [batch.id, page, status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="space-y-3 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-900 dark:text-white">
+          Commands — {batch.name || batch.command.kind}
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={status || ''}
+            onChange={(e) => {
+              setStatus((e.target.value as GpsCommandStatus) || undefined);
+              setPage(1);
+            }}
+            className="px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Any status</option>
+            {COMMAND_STATUSES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <button onClick={load} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-all">
+            <RefreshCw size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-all">
+            <XIcon size={16} />
+          </button>
+        </div>
+      </div>
+
+      {batch.skipped.length > 0 && (
+        <div className="px-3 py-2 rounded-xl border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-xs text-amber-800 dark:text-amber-300">
+          <p className="font-semibold mb-1">{batch.skipped.length} terminal{batch.skipped.length === 1 ? '' : 's'} skipped</p>
+          {batch.skipped.slice(0, 10).map((s) => (
+            <p key={s.terminalId} className="font-mono text-[11px]">
+              {s.terminalId.substring(0, 8)}… {s.error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="h-24 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+      ) : commands.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">No commands match.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-white dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 text-left">Status</th>
+                <th className="px-4 py-2 text-left">Terminal</th>
+                <th className="px-4 py-2 text-left">Created</th>
+                <th className="px-4 py-2 text-left">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {commands.map((c) => (
+                <tr key={c.id}>
+                  <td className="px-4 py-2 text-xs font-semibold text-gray-700 dark:text-gray-300">{c.status}</td>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                    {c.terminal?.nickname || (c.terminal && terminalLabel(c.terminal)) || c.terminalId.substring(0, 8) + '…'}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {fmtRelative(c.createdAt)}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {c.errorText ? (
+                      <span className="text-red-500">{c.errorText}</span>
+                    ) : c.ackAt ? (
+                      `acked ${fmtRelative(c.ackAt)}`
+                    ) : c.sentAt ? (
+                      `sent ${fmtRelative(c.sentAt)}`
+                    ) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="p-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{page} / {totalPages}</span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="p-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Stacked bar: acked / failed / expired / skipped out of the batch total. */
+function ProgressBar({ progress: p }: { progress: GpsCommandBatchProgress }) {
+  const pct = (n: number) => (p.total > 0 ? `${(n / p.total) * 100}%` : '0%');
+  return (
+    <div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700">
+        <div className="bg-emerald-500" style={{ width: pct(p.acked) }} />
+        <div className="bg-red-500" style={{ width: pct(p.failed) }} />
+        <div className="bg-gray-400" style={{ width: pct(p.expired + p.skipped) }} />
+        <div className="bg-blue-400" style={{ width: pct(p.pending) }} />
+      </div>
+      <p className="mt-1 text-[11px] text-gray-500 dark:text-gray-400 whitespace-nowrap">
+        {p.acked} acked · {p.failed} failed · {p.expired} expired
+        {p.skipped > 0 && ` · ${p.skipped} skipped`}
+        {' · '}{p.pending} in flight · {p.total - p.released} waiting
+      </p>
+    </div>
+  );
+}
+
+export function BatchStatusPill({ status }: { status: GpsCommandBatchStatus }) {
+  const cls =
+    status === 'RUNNING'
+      ? 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300'
+      : status === 'COMPLETED'
+        ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300'
+        : 'bg-gray-200 dark:bg-gray-600/40 text-gray-600 dark:text-gray-300';
+  return <span className={`px-2 py-0.5 text-[10px] font-bold rounded-md ${cls}`}>{status}</span>;
+}
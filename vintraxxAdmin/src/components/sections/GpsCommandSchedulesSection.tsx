@@ -0,0 +1,229 @@
+'use client';
+
+/**
+ * GpsCommandSchedulesSection — one-off and recurring commands.
+ *
+ * Lists schedules with their repeat interval, next and last run, and the
+ * latest run's batch. The backend cron starts each due schedule as a bulk
+ * batch (see Bulk Commands for its progress) or, for full-scan schedules,
+ * as one scan report per terminal. A run that couldn't start shows its
+ * error under "Last run". Pausing keeps the schedule; resuming a one-off
+ * schedule whose time has passed runs it on the next cron tick.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, GpsCommandSchedule } from '@/lib/api';
+import { fmtRelative } from '@/lib/gpsHelpers';
+import CommandScheduleModal from '@/components/modals/CommandScheduleModal';
+import { BatchStatusPill } from '@/components/sections/GpsCommandBatchesSection';
+import {
+  RefreshCw, CalendarClock, Plus, Pencil, Pause, Play, Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+function fmtInterval(minutes: number | null): string {
+  if (!minutes) return 'Once';
+  if (minutes === 10080) return 'Weekly';
+  if (minutes === 1440) return 'Daily';
+  if (minutes % 60 === 0) return minutes === 60 ? 'Every hour' : `Every ${minutes / 60} hours`;
+  return `Every ${minutes} min`;
+}
+
+function fmtTargets(s: GpsCommandSchedule): string {
+  const f = s.filter;
+  const parts: string[] = [];
+  if (f.terminalIds?.length) parts.push(`${f.terminalIds.length} terminal${f.terminalIds.length === 1 ? '' : 's'}`);
+  if (f.fleetGroups?.length) parts.push(`groups: ${f.fleetGroups.join(', ')}`);
+  if (f.models?.length) parts.push(`models: ${f.models.join(', ')}`);
+  if (f.firmwareVersions?.length) parts.push(`firmware: ${f.firmwareVersions.join(', ')}`);
+  if (f.ownerUserId) parts.push(`owner ${f.ownerUserId.substring(0, 8)}…`);
+  return parts.join(' · ') || '—';
+}
+
+export default function GpsCommandSchedulesSection() {
+  const [schedules, setSchedules] = useState<GpsCommandSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // undefined = closed, null = creating, schedule = editing.
+  const [editing, setEditing] = useState<GpsCommandSchedule | null | undefined>(undefined);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsCommandSchedules(1, 200);
+      setSchedules(res.schedules);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggle = async (s: GpsCommandSchedule) => {
+    setBusyId(s.id);
+    try {
+      await api.updateGpsCommandSchedule(s.id, { enabled: !s.enabled });
+      toast.success(s.enabled ? 'Schedule paused' : 'Schedule resumed');
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to update schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (s: GpsCommandSchedule) => {
+    if (!confirm(`Delete schedule "${s.name}"? Past runs stay under Bulk Commands.`)) return;
+    setBusyId(s.id);
+    try {
+      await api.deleteGpsCommandSchedule(s.id);
+      toast.success('Schedule deleted');
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Schedules</h2>
+        <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={() => setEditing(null)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-all"
+          >
+            <Plus size={14} />
+            New schedule
+          </button>
+          <button onClick={load} className="p-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all">
+            <RefreshCw size={18} />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-14 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          ))}
+        </div>
+      ) : schedules.length === 0 ? (
+        <div className="text-center py-16">
+          <CalendarClock size={48} className="mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <p className="text-gray-500 dark:text-gray-400">No schedules yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-3 text-left">Schedule</th>
+                <th className="px-4 py-3 text-left">Terminals</th>
+                <th className="px-4 py-3 text-left">Repeat</th>
+                <th className="px-4 py-3 text-left">Next run</th>
+                <th className="px-4 py-3 text-left">Last run</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {schedules.map((s) => {
+                const lastBatch = s.batches[0];
+                return (
+                  <tr key={s.id} className={`hover:bg-gray-50 dark:hover:bg-gray-700/30 ${s.enabled ? '' : 'opacity-60'}`}>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900 dark:text-white font-medium">{s.name}</p>
+                      <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                        {s.action === 'FULL_SCAN' ? 'full scan' : s.command?.kind}
+                        {!s.enabled && ' · paused'}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 max-w-[220px]">{fmtTargets(s)}</td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {fmtInterval(s.intervalMinutes)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {s.enabled ? new Date(s.nextRunAt).toLocaleString() : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400">
+                      <span className="whitespace-nowrap">
+                        {fmtRelative(s.lastRunAt)}
+                        {lastBatch && (
+                          <span className="ml-1.5"><BatchStatusPill status={lastBatch.status} /></span>
+                        )}
+                      </span>
+                      {s.lastError && (
+                        <p className="text-[11px] text-red-600 dark:text-red-400 max-w-[240px]">{s.lastError}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <ActionButton
+                          title={s.enabled ? 'Pause' : 'Resume'}
+                          disabled={busyId === s.id}
+                          onClick={() => toggle(s)}
+                          className="text-blue-600 dark:text-blue-400"
+                        >
+                          {s.enabled ? <Pause size={16} /> : <Play size={16} />}
+                        </ActionButton>
+                        <ActionButton title="Edit" disabled={busyId === s.id} onClick={() => setEditing(s)} className="text-gray-600 dark:text-gray-300">
+                          <Pencil size={16} />
+                        </ActionButton>
+                        <ActionButton title="Delete" disabled={busyId === s.id} onClick={() => remove(s)} className="text-red-600 dark:text-red-400">
+                          <Trash2 size={16} />
+                        </ActionButton>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <CommandScheduleModal
+          schedule={editing}
+          onClose={() => setEditing(undefined)}
+          onSaved={() => {
+            setEditing(undefined);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ActionButton({
+  title,
+  onClick,
+  disabled,
+  className,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-all ${className ?? ''}`}
+    >
+      {children}
+    </button>
+  );
+}
@@ -10,10 +10,16 @@
  * isn't part of this milestone). This section therefore reads the
  * command history with status filter, pagination, and a status pill
  * so an operator can verify that the gateway dispatched the right
- * commands during incidents.
+ * commands during incidents. The one write action is "Send via SMS" on a
+ * QUEUED command whose terminal has a SIM number — the fallback for a
+ * device that never comes online to collect it.
+ *
+ * Clicking a row opens the command's send history: every earlier attempt
+ * that timed out or lost its socket and was retried under the kind's retry
+ * policy, with the gateway pod and error of each.
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
 import { api, GpsCommand, GpsCommandStatus } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { fmtRelative, terminalLabel } from '@/lib/gpsHelpers';
@@ -22,7 +28,7 @@ import BulkActionBar from '@/components/shared/BulkActionBar';
 import { useMultiSelect } from '@/lib/useMultiSelect';
 import {
   Search, RefreshCw, Send, ChevronLeft, ChevronRight, Filter,
-  X as XIcon,
+  X as XIcon, MessageSquare,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -105,6 +111,26 @@ export default function GpsCommandsSection({
     }
   };
 
+  const [smsSendingId, setSmsSendingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleSendViaSms = async (c: GpsCommand) => {
+    setSmsSendingId(c.id);
+    try {
+      const res = await api.sendGpsCommandViaSms(c.id);
+      if (res.command.status === 'FAILED') {
+        toast.error(res.command.errorText || 'SMS could not be sent');
+      } else {
+        toast.success('Command sent by SMS');
+      }
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to send command by SMS');
+    } finally {
+      setSmsSendingId(null);
+    }
+  };
+
   const visibleIds = filteredCommands.map((c) => c.id);
 
   return (
@@ -225,42 +251,83 @@ export default function GpsCommandsSection({
             </thead>
             <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
               {filteredCommands.map((c) => (
-                <tr key={c.id} className={`hover:bg-gray-50 dark:hover:bg-gray-700/30 ${
-                  sel.isSelected(c.id) ? 'bg-blue-50 dark:bg-blue-500/10' : ''
-                }`}>
-                  {canDelete && (
-                    <td className="px-3 py-3">
-                      <input
-                        type="checkbox"
-                        checked={sel.isSelected(c.id)}
-                        onChange={() => sel.toggle(c.id)}
-                        className="w-4 h-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
-                      />
+                <Fragment key={c.id}>
+                  <tr
+                    onClick={() => setExpandedId((prev) => (prev === c.id ? null : c.id))}
+                    className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/30 ${
+                      sel.isSelected(c.id) ? 'bg-blue-50 dark:bg-blue-500/10' : ''
+                    }`}
+                  >
+                    {canDelete && (
+                      <td className="px-3 py-3" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={sel.isSelected(c.id)}
+                          onChange={() => sel.toggle(c.id)}
+                          className="w-4 h-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                    )}
+                    <td className="px-4 py-3"><CommandStatusPill status={c.status} /></td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900 dark:text-white font-medium">
+                        {c.kind || '—'}
+                        {c.channel === 'SMS' && (
+                          <span className="ml-1.5 px-1.5 py-0.5 text-[10px] font-bold rounded bg-purple-100 dark:bg-purple-500/20 text-purple-700 dark:text-purple-300">
+                            SMS
+                          </span>
+                        )}
+                      </p>
+                      {c.functionCode != null && (
+                        <p className="text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                          0x{c.functionCode.toString(16).toUpperCase().padStart(4, '0')}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-gray-500 dark:text-gray-400">
+                      {c.terminal?.nickname || (c.terminal && terminalLabel(c.terminal)) || c.terminalId.substring(0, 8) + '…'}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 truncate max-w-[160px]">
+                      {c.admin?.email || 'system'}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {fmtRelative(c.createdAt)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {c.sentAt ? `sent ${fmtRelative(c.sentAt)}` : c.errorText ? <span className="text-red-500">{c.errorText}</span> : '—'}
+                      {c.ackAt && <span className="text-emerald-600 dark:text-emerald-400"> · acked {fmtRelative(c.ackAt)}</span>}
+                      {c.status === 'QUEUED' && c.notBefore && new Date(c.notBefore) > new Date() && (
+                        <span> · due {new Date(c.notBefore).toLocaleString()}</span>
+                      )}
+                      {(c.attempt ?? 1) > 1 && (
+                        <span className="ml-1.5 px-1.5 py-0.5 text-[10px] font-bold rounded bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300">
+                          attempt {c.attempt}/{c.maxAttempts}
+                        </span>
+                      )}
+                      {c.status === 'QUEUED' && c.terminal?.phoneNumber && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSendViaSms(c);
+                          }}
+                          disabled={smsSendingId === c.id}
+                          title={`Text this command to ${c.terminal.phoneNumber}`}
+                          className="ml-2 inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-600 text-[11px] font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+                        >
+                          <MessageSquare size={12} />
+                          Send via SMS
+                        </button>
+                      )}
                     </td>
+                  </tr>
+                  {expandedId === c.id && (
+                    <tr className="bg-gray-50 dark:bg-gray-900/40">
+                      <td colSpan={canDelete ? 7 : 6} className="px-4 py-3">
+                        <CommandAttempts commandId={c.id} />
+                      </td>
+                    </tr>
                   )}
-                  <td className="px-4 py-3"><CommandStatusPill status={c.status} /></td>
-                  <td className="px-4 py-3">
-                    <p className="text-gray-900 dark:text-white font-medium">{c.kind || '—'}</p>
-                    {c.functionCode != null && (
-                      <p className="text-[10px] font-mono text-gray-500 dark:text-gray-400">
-                        0x{c.functionCode.toString(16).toUpperCase().padStart(4, '0')}
-                      </p>
-                    )}
-                  </td>
-                  <td className="px-4 py-3 font-mono text-xs text-gray-500 dark:text-gray-400">
-                    {c.terminal?.nickname || (c.terminal && terminalLabel(c.terminal)) || c.terminalId.substring(0, 8) + '…'}
-                  </td>
-                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 truncate max-w-[160px]">
-                    {c.admin?.email || 'system'}
-                  </td>
-                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
-                    {fmtRelative(c.createdAt)}
-                  </td>
-                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
-                    {c.sentAt ? `sent ${fmtRelative(c.sentAt)}` : c.errorText ? <span className="text-red-500">{c.errorText}</span> : '—'}
-                    {c.ackAt && <span className="text-emerald-600 dark:text-emerald-400"> · acked {fmtRelative(c.ackAt)}</span>}
-                  </td>
-                </tr>
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -308,6 +375,46 @@ export default function GpsCommandsSection({
   );
 }
 
+/** Send history of one command, from the detail endpoint. */
+function CommandAttempts({ commandId }: { commandId: string }) {
+  const [command, setCommand] = useState<GpsCommand | null>(null);
+
+  useEffect(() => {
+    api
+      .getGpsCommand(commandId)
+      .then((res) => setCommand(res.command))
+      .catch((err: any) => toast.error(err.message || 'Failed to load command'));
+  }, [commandId]);
+
+  if (!command) {
+    return <div className="h-8 rounded-lg bg-gray-200 dark:bg-gray-700 animate-pulse" />;
+  }
+  const attempts = command.attempts ?? [];
+  return (
+    <div className="space-y-1.5 text-xs text-gray-600 dark:text-gray-300">
+      <p className="font-medium">
+        Attempt {command.attempt ?? 1} of {command.maxAttempts ?? 1}
+        {command.notBefore && ` · not before ${new Date(command.notBefore).toLocaleString()}`}
+      </p>
+      {attempts.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No earlier attempts.</p>
+      ) : (
+        <ul className="space-y-1">
+          {attempts.map((a) => (
+            <li key={a.attempt} className="flex flex-wrap gap-x-3">
+              <span className="font-mono">#{a.attempt}</span>
+              <span>sent {a.sentAt ? new Date(a.sentAt).toLocaleString() : '—'}</span>
+              <span>failed {new Date(a.failedAt).toLocaleString()}</span>
+              {a.gatewayPodId && <span className="font-mono text-gray-500 dark:text-gray-400">{a.gatewayPodId}</span>}
+              <span className="text-red-500">{a.errorText}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function CommandStatusPill({ status }: { status: GpsCommandStatus }) {
   // Five-state palette - separates terminal-success (ACKED, emerald) from
   // terminal-failure (FAILED red, EXPIRED gray) and in-flight states
@@ -0,0 +1,363 @@
+'use client';
+
+/**
+ * GpsConfigProfilesSection — terminal configuration profiles and drift.
+ *
+ * Top: profiles with their fleet groups and how many terminals are in sync,
+ * drifted or still pending. Clicking a profile opens its terminal table
+ * underneath, with the mismatching parameters of every drifted terminal.
+ *
+ * "Push now" queues the profile for connected terminals that aren't in
+ * sync; offline ones get it on their next connect either way.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  api,
+  GpsConfigProfile,
+  GpsConfigProfileTerminal,
+  GpsConfigSyncStatus,
+} from '@/lib/api';
+import { fmtRelative, statusDotClasses, terminalLabel } from '@/lib/gpsHelpers';
+import ConfigProfileModal from '@/components/modals/ConfigProfileModal';
+import {
+  RefreshCw, SlidersHorizontal, Plus, Pencil, Send, Trash2,
+  ChevronLeft, ChevronRight, X as XIcon,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+const SYNC_STATUSES: GpsConfigSyncStatus[] = ['PENDING', 'IN_SYNC', 'DRIFTED'];
+
+export default function GpsConfigProfilesSection() {
+  const [profiles, setProfiles] = useState<GpsConfigProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // undefined = closed, null = creating, profile = editing.
+  const [editing, setEditing] = useState<GpsConfigProfile | null | undefined>(undefined);
+  const [selected, setSelected] = useState<GpsConfigProfile | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsConfigProfiles();
+      setProfiles(res.profiles);
+      setSelected((prev) => (prev ? res.profiles.find((p) => p.id === prev.id) ?? null : prev));
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load config profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const push = async (p: GpsConfigProfile) => {
+    setBusyId(p.id);
+    try {
+      const res = await api.pushGpsConfigProfile(p.id);
+      toast.success(
+        res.queued === 0
+          ? 'No connected terminals need it'
+          : `Queued for ${res.queued} terminal${res.queued === 1 ? '' : 's'}`,
+      );
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to push profile');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (p: GpsConfigProfile) => {
+    if (!confirm(`Delete profile "${p.name}"? Its terminals keep their current settings.`)) return;
+    setBusyId(p.id);
+    try {
+      await api.deleteGpsConfigProfile(p.id);
+      toast.success('Profile deleted');
+      if (selected?.id === p.id) setSelected(null);
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete profile');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Config Profiles</h2>
+        <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={() => setEditing(null)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-all"
+          >
+            <Plus size={14} />
+            New profile
+          </button>
+          <button onClick={load} className="p-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all">
+            <RefreshCw size={18} />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-14 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          ))}
+        </div>
+      ) : profiles.length === 0 ? (
+        <div className="text-center py-16">
+          <SlidersHorizontal size={48} className="mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <p className="text-gray-500 dark:text-gray-400">No config profiles yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-3 text-left">Profile</th>
+                <th className="px-4 py-3 text-left">Fleet groups</th>
+                <th className="px-4 py-3 text-left">Params</th>
+                <th className="px-4 py-3 text-left">Terminals</th>
+                <th className="px-4 py-3 text-left">Updated</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {profiles.map((p) => (
+                <tr
+                  key={p.id}
+                  onClick={() => setSelected(p)}
+                  className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/30 ${
+                    selected?.id === p.id ? 'bg-blue-50 dark:bg-blue-500/10' : ''
+                  }`}
+                >
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900 dark:text-white font-medium">{p.name}</p>
+                    {p.description && (
+                      <p className="text-[11px] text-gray-500 dark:text-gray-400">{p.description}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400">
+                    {p.fleetGroups.length > 0 ? p.fleetGroups.join(', ') : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400">{p.params.length}</td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    <span className="text-emerald-600 dark:text-emerald-400">{p.statusCounts.IN_SYNC} in sync</span>
+                    {' · '}
+                    <span className={p.statusCounts.DRIFTED > 0 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>
+                      {p.statusCounts.DRIFTED} drifted
+                    </span>
+                    {' · '}
+                    {p.statusCounts.PENDING} pending
+                    <span className="block text-[10px]">of {p.statusCounts.total}</span>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {fmtRelative(p.updatedAt)}
+                  </td>
+                  <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center justify-end gap-1">
+                      <ActionButton title="Push now" disabled={busyId === p.id} onClick={() => push(p)} className="text-blue-600 dark:text-blue-400">
+                        <Send size={16} />
+                      </ActionButton>
+                      <ActionButton title="Edit" disabled={busyId === p.id} onClick={() => setEditing(p)} className="text-gray-600 dark:text-gray-300">
+                        <Pencil size={16} />
+                      </ActionButton>
+                      <ActionButton title="Delete" disabled={busyId === p.id} onClick={() => remove(p)} className="text-red-600 dark:text-red-400">
+                        <Trash2 size={16} />
+                      </ActionButton>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && <ProfileTerminals profile={selected} onClose={() => setSelected(null)} />}
+
+      {editing !== undefined && (
+        <ConfigProfileModal
+          profile={editing}
+          onClose={() => setEditing(undefined)}
+          onSaved={() => {
+            setEditing(undefined);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ProfileTerminals({
+  profile,
+  onClose,
+}: {
+  profile: GpsConfigProfile;
+  onClose: () => void;
+}) {
+  const [terminals, setTerminals] = useState<GpsConfigProfileTerminal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [status, setStatus] = useState<GpsConfigSyncStatus | undefined>();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsConfigProfileTerminals(profile.id, page, 50, { status });
+      setTerminals(res.terminals);
+      setTotalPages(res.totalPages);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load profile terminals');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile.id, page, status]);
+
+  useEffect(() => {
+    load();
+  }, [load, profile.updatedAt]);
+
+  return (
+    <div className="space-y-3 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-900 dark:text-white">Terminals — {profile.name}</p>
+        <div className="flex items-center gap-2">
+          <select
+            value={status || ''}
+            onChange={(e) => {
+              setStatus((e.target.value as GpsConfigSyncStatus) || undefined);
+              setPage(1);
+            }}
+            className="px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Any status</option>
+            {SYNC_STATUSES.map((s) => (
+              <option key={s} value={s}>{s.replace('_', ' ')}</option>
+            ))}
+          </select>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-all">
+            <XIcon size={16} />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-24 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+      ) : terminals.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">No terminals match.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-white dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 text-left">Config</th>
+                <th className="px-4 py-2 text-left">Terminal</th>
+                <th className="px-4 py-2 text-left">Via</th>
+                <th className="px-4 py-2 text-left">Checked</th>
+                <th className="px-4 py-2 text-left">Drift</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {terminals.map((t) => (
+                <tr key={t.id}>
+                  <td className="px-4 py-2">
+                    {t.configStatus ? <ConfigStatusPill status={t.configStatus} /> : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-700 dark:text-gray-300">
+                    <span className="flex items-center gap-2">
+                      <span className={`w-2 h-2 rounded-full ${statusDotClasses(t.status)}`} />
+                      <span className="font-mono">{t.nickname || terminalLabel(t)}</span>
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {t.configProfileId ? 'direct' : `group ${t.fleetGroup}`}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {t.configCheckedAt ? fmtRelative(t.configCheckedAt) : 'never'}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {t.configDrift && t.configDrift.length > 0 ? (
+                      <ul className="space-y-0.5">
+                        {t.configDrift.map((d) => (
+                          <li key={d.id} className="font-mono text-[11px]">
+                            {d.id} {d.key}: <span className="text-emerald-600 dark:text-emerald-400">{String(d.expected)}</span>
+                            {' ≠ '}
+                            <span className="text-red-600 dark:text-red-400">{d.actual === null ? 'missing' : String(d.actual)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="p-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{page} / {totalPages}</span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="p-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActionButton({
+  title,
+  onClick,
+  disabled,
+  className,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-all ${className ?? ''}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function ConfigStatusPill({ status }: { status: GpsConfigSyncStatus }) {
+  const cls =
+    status === 'IN_SYNC'
+      ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300'
+      : status === 'DRIFTED'
+        ? 'bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-300'
+        : 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300';
+  return <span className={`px-2 py-0.5 text-[10px] font-bold rounded-md ${cls}`}>{status.replace('_', ' ')}</span>;
+}
@@ -0,0 +1,554 @@
+'use client';
+
+/**
+ * GpsFirmwareSection — OTA firmware images and staged upgrade campaigns.
+ *
+ * Top: campaigns, newest first, with batch progress and a settled-target
+ * bar (succeeded / failed / skipped). Clicking a campaign opens its
+ * per-terminal target table underneath. Bottom: uploaded images.
+ *
+ * Permissions mirror the backend routes: everyone can read and pause;
+ * upload, create, start/resume and cancel are super-admin only, so those
+ * buttons are hidden for regular admins rather than left to 403.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  api,
+  GpsFirmwareCampaign,
+  GpsFirmwareCampaignStatus,
+  GpsFirmwareImage,
+  GpsFirmwareTarget,
+  GpsFirmwareTargetStatus,
+} from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { fmtRelative, terminalLabel } from '@/lib/gpsHelpers';
+import UploadFirmwareModal from '@/components/modals/UploadFirmwareModal';
+import CreateFirmwareCampaignModal from '@/components/modals/CreateFirmwareCampaignModal';
+import {
+  RefreshCw, Cpu, Upload, Plus, Play, Pause, Ban, Trash2,
+  ChevronLeft, ChevronRight, X as XIcon,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+const TARGET_STATUSES: GpsFirmwareTargetStatus[] = [
+  'PENDING', 'QUEUED', 'TRANSFERRING', 'AWAITING_RESULT', 'SUCCEEDED', 'FAILED', 'SKIPPED',
+];
+
+export default function GpsFirmwareSection() {
+  const { admin } = useAuth();
+  const isSuper = !!admin?.superAdmin;
+
+  const [campaigns, setCampaigns] = useState<GpsFirmwareCampaign[]>([]);
+  const [images, setImages] = useState<GpsFirmwareImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [selected, setSelected] = useState<GpsFirmwareCampaign | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [c, i] = await Promise.all([
+        api.listGpsFirmwareCampaigns(page, 20),
+        api.listGpsFirmwareImages(),
+      ]);
+      setCampaigns(c.campaigns);
+      setTotalPages(c.totalPages);
+      setImages(i.images);
+      // Keep the drill-in in sync with the refreshed row.
+      setSelected((prev) => (prev ? c.campaigns.find((x) => x.id === prev.id) ?? prev : prev));
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load firmware campaigns');
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (
+    c: GpsFirmwareCampaign,
+    action: 'start' | 'pause' | 'cancel',
+  ) => {
+    if (action === 'cancel' && !confirm(`Cancel "${c.name}"? Terminals not yet flashing will be skipped.`)) {
+      return;
+    }
+    setBusyId(c.id);
+    try {
+      if (action === 'start') await api.startGpsFirmwareCampaign(c.id);
+      if (action === 'pause') await api.pauseGpsFirmwareCampaign(c.id);
+      if (action === 'cancel') await api.cancelGpsFirmwareCampaign(c.id);
+      toast.success(`Campaign ${action === 'start' ? (c.status === 'PAUSED' ? 'resumed' : 'started') : action === 'pause' ? 'paused' : 'cancelled'}`);
+      load();
+    } catch (err: any) {
+      toast.error(err.message || `Failed to ${action} campaign`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteImage = async (img: GpsFirmwareImage) => {
+    if (!confirm(`Delete firmware image "${img.name}"?`)) return;
+    try {
+      await api.deleteGpsFirmwareImage(img.id);
+      toast.success('Image deleted');
+      load();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete image');
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Firmware Campaigns</h2>
+        <div className="flex items-center gap-2 flex-wrap">
+          {isSuper && (
+            <>
+              <button
+                onClick={() => setUploadOpen(true)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+              >
+                <Upload size={14} />
+                Upload image
+              </button>
+              <button
+                onClick={() => setCreateOpen(true)}
+                disabled={images.length === 0}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium transition-all"
+              >
+                <Plus size={14} />
+                New campaign
+              </button>
+            </>
+          )}
+          <button onClick={load} className="p-2.5 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all">
+            <RefreshCw size={18} />
+          </button>
+        </div>
+      </div>
+
+      {/* Campaigns */}
+      {loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="h-14 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          ))}
+        </div>
+      ) : campaigns.length === 0 ? (
+        <div className="text-center py-16">
+          <Cpu size={48} className="mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <p className="text-gray-500 dark:text-gray-400">No firmware campaigns yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3 text-left">Campaign</th>
+                <th className="px-4 py-3 text-left">Batch</th>
+                <th className="px-4 py-3 text-left">Progress</th>
+                <th className="px-4 py-3 text-left">Created</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {campaigns.map((c) => (
+                <tr
+                  key={c.id}
+                  onClick={() => setSelected(c)}
+                  className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/30 ${
+                    selected?.id === c.id ? 'bg-blue-50 dark:bg-blue-500/10' : ''
+                  }`}
+                >
+                  <td className="px-4 py-3"><CampaignStatusPill status={c.status} /></td>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900 dark:text-white font-medium">{c.name}</p>
+                    <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                      {c.image ? `${c.image.name} → v${c.image.version}` : c.imageId.substring(0, 8) + '…'}
+                    </p>
+                    {c.pauseReason && c.status === 'PAUSED' && (
+                      <p className="text-[11px] text-amber-600 dark:text-amber-400">{c.pauseReason}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {Math.min(c.currentBatch + 1, c.totalBatches)} / {c.totalBatches}
+                    <span className="block text-[10px]">{c.batchSize} per batch · pause &gt; {c.failureThresholdPct}%</span>
+                  </td>
+                  <td className="px-4 py-3 min-w-[180px]"><ProgressBar counts={c.targetCounts} /></td>
+                  <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {fmtRelative(c.createdAt)}
+                  </td>
+                  <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center justify-end gap-1">
+                      {isSuper && (c.status === 'DRAFT' || c.status === 'PAUSED') && (
+                        <ActionButton
+                          title={c.status === 'DRAFT' ? 'Start' : 'Resume'}
+                          disabled={busyId === c.id}
+                          onClick={() => runAction(c, 'start')}
+                          className="text-emerald-600 dark:text-emerald-400"
+                        >
+                          <Play size={16} />
+                        </ActionButton>
+                      )}
+                      {c.status === 'RUNNING' && (
+                        <ActionButton
+                          title="Pause"
+                          disabled={busyId === c.id}
+                          onClick={() => runAction(c, 'pause')}
+                          className="text-amber-600 dark:text-amber-400"
+                        >
+                          <Pause size={16} />
+                        </ActionButton>
+                      )}
+                      {isSuper && c.status !== 'COMPLETED' && c.status !== 'CANCELLED' && (
+                        <ActionButton
+                          title="Cancel"
+                          disabled={busyId === c.id}
+                          onClick={() => runAction(c, 'cancel')}
+                          className="text-red-600 dark:text-red-400"
+                        >
+                          <Ban size={16} />
+                        </ActionButton>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Page {page} of {totalPages}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selected && <CampaignTargets campaign={selected} onClose={() => setSelected(null)} />}
+
+      {/* Images */}
+      <div className="space-y-3">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400">Firmware images</h3>
+        {images.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No images uploaded yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-3 text-left">Image</th>
+                  <th className="px-4 py-3 text-left">Type / Mfr</th>
+                  <th className="px-4 py-3 text-left">Size</th>
+                  <th className="px-4 py-3 text-left">SHA-256</th>
+                  <th className="px-4 py-3 text-left">Uploaded</th>
+                  {isSuper && <th className="px-4 py-3 w-10" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+                {images.map((img) => (
+                  <tr key={img.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900 dark:text-white font-medium">{img.name}</p>
+                      <p className="text-[11px] font-mono text-gray-500 dark:text-gray-400">
+                        v{img.version}{img.terminalModel ? ` · ${img.terminalModel}` : ''}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400">
+                      {img.upgradeType} / <span className="font-mono">{img.manufacturerId}</span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {(img.sizeBytes / 1024).toFixed(1)} KB
+                    </td>
+                    <td className="px-4 py-3 text-[11px] font-mono text-gray-500 dark:text-gray-400" title={img.sha256}>
+                      {img.sha256.substring(0, 16)}…
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {fmtRelative(img.createdAt)}
+                    </td>
+                    {isSuper && (
+                      <td className="px-4 py-3">
+                        {(img._count?.campaigns ?? 0) === 0 && (
+                          <ActionButton title="Delete" onClick={() => deleteImage(img)} className="text-red-600 dark:text-red-400">
+                            <Trash2 size={16} />
+                          </ActionButton>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {uploadOpen && (
+        <UploadFirmwareModal
+          onClose={() => setUploadOpen(false)}
+          onUploaded={() => {
+            setUploadOpen(false);
+            load();
+          }}
+        />
+      )}
+      {createOpen && (
+        <CreateFirmwareCampaignModal
+          images={images}
+          onClose={() => setCreateOpen(false)}
+          onCreated={() => {
+            setCreateOpen(false);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function CampaignTargets({
+  campaign,
+  onClose,
+}: {
+  campaign: GpsFirmwareCampaign;
+  onClose: () => void;
+}) {
+  const [targets, setTargets] = useState<GpsFirmwareTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [status, setStatus] = useState<GpsFirmwareTargetStatus | undefined>();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.listGpsFirmwareTargets(campaign.id, page, 50, { status });
+      setTargets(res.targets);
+      setTotalPages(res.totalPages);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load campaign targets');
+    } finally {
+      setLoading(false);
+    }
+  }, [campaign.id, page, status]);
+
+  useEffect(() => {
+    load();
+  }, [load, campaign.updatedAt]);
+
+  return (
+    <div className="space-y-3 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-900 dark:text-white">Targets — {campaign.name}</p>
+        <div className="flex items-center gap-2">
+          <select
+            value={status || ''}
+            onChange={(e) => {
+              setStatus((e.target.value as GpsFirmwareTargetStatus) || undefined);
+              setPage(1);
+            }}
+            className="px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Any status</option>
+            {TARGET_STATUSES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-all">
+            <XIcon size={16} />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-24 rounded-xl bg-gray-200 dark:bg-gray-700 animate-pulse" />
+      ) : targets.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">No targets match.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-white dark:bg-gray-800 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 text-left">Status</th>
+                <th className="px-4 py-2 text-left">Terminal</th>
+                <th className="px-4 py-2 text-left">Batch</th>
+                <th className="px-4 py-2 text-left">From → Now</th>
+                <th className="px-4 py-2 text-left">Transfer</th>
+                <th className="px-4 py-2 text-left">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 bg-white dark:bg-gray-800">
+              {targets.map((t) => (
+                <tr key={t.id}>
+                  <td className="px-4 py-2"><TargetStatusPill status={t.status} /></td>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                    {t.terminal?.nickname || (t.terminal && terminalLabel(t.terminal)) || t.terminalId.substring(0, 8) + '…'}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">{t.batchNumber + 1}</td>
+                  <td className="px-4 py-2 text-xs font-mono text-gray-500 dark:text-gray-400">
+                    {t.fromVersion || '—'} → {t.terminal?.firmwareVersion || '—'}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {t.packetsTotal ? `${t.packetsAcked}/${t.packetsTotal} pkts` : '—'}
+                    {t.attempts > 1 && <span className="block text-[10px]">attempt {t.attempts}</span>}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {t.errorText ? (
+                      <span className="text-red-500">{t.errorText}</span>
+                    ) : t.resultSource ? (
+                      `${t.resultSource}${t.resultCode != null ? ` (${t.resultCode})` : ''}`
+                    ) : '—'}
+                    {t.finishedAt && <span className="block text-[10px]">{fmtRelative(t.finishedAt)}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="p-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{page} / {totalPages}</span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="p-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-all"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActionButton({
+  title,
+  onClick,
+  disabled,
+  className,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-all ${className ?? ''}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Stacked bar of settled targets over the whole campaign. */
+function ProgressBar({ counts }: { counts: Partial<Record<GpsFirmwareTargetStatus, number>> }) {
+  const total = Object.values(counts).reduce((a, b) => a + (b ?? 0), 0);
+  const ok = counts.SUCCEEDED ?? 0;
+  const failed = counts.FAILED ?? 0;
+  const skipped = counts.SKIPPED ?? 0;
+  const inFlight = (counts.TRANSFERRING ?? 0) + (counts.AWAITING_RESULT ?? 0);
+  const pct = (n: number) => (total > 0 ? `${(n * 100) / total}%` : '0%');
+  return (
+    <div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700">
+        <div className="bg-emerald-500" style={{ width: pct(ok) }} />
+        <div className="bg-red-500" style={{ width: pct(failed) }} />
+        <div className="bg-gray-400" style={{ width: pct(skipped) }} />
+        <div className="bg-blue-400" style={{ width: pct(inFlight) }} />
+      </div>
+      <p className="mt-1 text-[10px] text-gray-500 dark:text-gray-400">
+        {ok} ok · {failed} failed{skipped ? ` · ${skipped} skipped` : ''}{inFlight ? ` · ${inFlight} in flight` : ''} / {total}
+      </p>
+    </div>
+  );
+}
+
+function CampaignStatusPill({ status }: { status: GpsFirmwareCampaignStatus }) {
+  let cls: string;
+  switch (status) {
+    case 'RUNNING':
+      cls = 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300';
+      break;
+    case 'PAUSED':
+      cls = 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300';
+      break;
+    case 'COMPLETED':
+      cls = 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300';
+      break;
+    case 'CANCELLED':
+      cls = 'bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-300';
+      break;
+    case 'DRAFT':
+    default:
+      cls = 'bg-gray-200 dark:bg-gray-600/40 text-gray-600 dark:text-gray-300';
+      break;
+  }
+  return <span className={`px-2 py-0.5 text-[10px] font-bold rounded-md ${cls}`}>{status}</span>;
+}
+
+function TargetStatusPill({ status }: { status: GpsFirmwareTargetStatus }) {
+  let cls: string;
+  switch (status) {
+    case 'SUCCEEDED':
+      cls = 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300';
+      break;
+    case 'FAILED':
+      cls = 'bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-300';
+      break;
+    case 'TRANSFERRING':
+    case 'AWAITING_RESULT':
+      cls = 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300';
+      break;
+    case 'QUEUED':
+      cls = 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300';
+      break;
+    case 'PENDING':
+    case 'SKIPPED':
+    default:
+      cls = 'bg-gray-200 dark:bg-gray-600/40 text-gray-600 dark:text-gray-300';
+      break;
+  }
+  return <span className={`px-2 py-0.5 text-[10px] font-bold rounded-md ${cls}`}>{status.replace('_', ' ')}</span>;
+}
@@ -22,7 +22,7 @@
  */
 
 import { useState, useEffect, useMemo, useRef, useCallback, Fragment } from 'react';
-import { GoogleMap, InfoWindowF, useLoadScript, type Libraries } from '@react-google-maps/api';
+import { CircleF, GoogleMap, InfoWindowF, useLoadScript, type Libraries } from '@react-google-maps/api';
 // Side-effect import: filters one inherent Google Maps warning that fires
 // when a `mapId` is present AND the user picks the Satellite/Hybrid map
 // type. See the module header for the full rationale. Must be imported
@@ -183,6 +183,8 @@ export default function GpsFleetMapSection() {
               altitudeM: d.altitudeM,
               accOn: d.accOn,
               gpsFix: d.gpsFix,
+              positionSource: d.positionSource ?? 'GNSS',
+              accuracyM: d.accuracyM ?? null,
               alarmBits: d.alarmBits ?? cur.location?.alarmBits ?? 0,
               statusBits: d.statusBits ?? cur.location?.statusBits ?? 0,
               satelliteCount: cur.location?.satelliteCount ?? null,
@@ -338,8 +340,25 @@ export default function GpsFleetMapSection() {
                   visually distinguishes "parked / scanner asleep" from "live". */}
               {located.map(({ entry, lat, lng }) => {
                 const isSelected = selectedId === entry.terminal.id;
+                const accuracyM =
+                  entry.location?.positionSource === 'CELL' ? entry.location.accuracyM : null;
                 return (
                   <Fragment key={entry.terminal.id}>
+                    {/* Cell-tower fix: the pin is only somewhere inside this circle. */}
+                    {accuracyM ? (
+                      <CircleF
+                        center={{ lat, lng }}
+                        radius={accuracyM}
+                        options={{
+                          strokeColor: getStatusColor(entry.terminal.status),
+                          strokeOpacity: 0.6,
+                          strokeWeight: 1,
+                          fillColor: getStatusColor(entry.terminal.status),
+                          fillOpacity: 0.12,
+                          clickable: false,
+                        }}
+                      />
+                    ) : null}
                     <AdvancedMarkerWrapper
                       position={{ lat, lng }}
                       title={vehicleLabel({
@@ -447,9 +466,11 @@ function getStatusColor(status: GpsTerminal['status']): string {
       ? '#DC2626' // red — offline / sleeping
       : status === 'NEVER_CONNECTED'
         ? '#9CA3AF' // grey — never connected
-        : status === 'SUSPENDED'
-          ? '#8b5cf6' // violet
-          : '#9CA3AF'; // grey fallback
+        : status === 'LOGGED_OUT'
+          ? '#F59E0B' // amber — deregistered (unplugged / reset)
+          : status === 'SUSPENDED'
+            ? '#8b5cf6' // violet
+            : '#9CA3AF'; // grey fallback
 }
 
 function ApiKeyMissing({ reason }: { reason: string }) {
@@ -74,9 +74,11 @@ export default function GpsScanReportsSection() {
     };
     const off1 = gpsAdminWs.on('terminal.online', queue);
     const off2 = gpsAdminWs.on('terminal.offline', queue);
+    const off3 = gpsAdminWs.on('terminal.logout', queue);
     return () => {
       off1();
       off2();
+      off3();
       if (timer) clearTimeout(timer);
     };
   }, [load]);
@@ -609,6 +611,21 @@ function ReportView({ report }: { report: GpsScanReport }) {
               <ObdCell label="Dist w/ MIL" value={kmToMi(report.distanceWithMilKm)} />
               <ObdCell label="Dist Since Clear" value={kmToMi(report.distanceSinceClearKm)} />
               <ObdCell label="Warm-ups" value={report.warmupsSinceClear != null ? `${report.warmupsSinceClear}` : null} />
+              <ObdCell label="Engine Hours" value={report.engineHours != null ? `${toNum(report.engineHours)} h` : null} />
+              <ObdCell label="Fuel Rate" value={report.fuelRateLph != null ? `${toNum(report.fuelRateLph)} L/h` : null} />
+              <ObdCell label="Total Fuel" value={report.fuelConsumedL != null ? `${toNum(report.fuelConsumedL)} L` : null} />
+              <ObdCell label="DEF Level" value={report.defLevelPct != null ? `${toNum(report.defLevelPct)}%` : null} />
+              <ObdCell label="Oil Temp" value={report.engineOilTempC != null ? `${report.engineOilTempC}°C` : null} />
+              <ObdCell label="Oil Pressure" value={report.engineOilPressureKpa != null ? `${report.engineOilPressureKpa} kPa` : null} />
+              <ObdCell label="Parking Brake" value={report.parkingBrakeOn != null ? (report.parkingBrakeOn ? 'Set' : 'Released') : null} />
+              <ObdCell label="PTO" value={report.ptoIdleActive ? 'Running at idle' : null} />
+              <ObdCell label="Axle Weight" value={report.axleWeightKg != null ? `${report.axleWeightKg} kg` : null} />
+              <ObdCell label="EV SOC" value={report.evSocPct != null ? `${report.evSocPct}%` : null} />
+              <ObdCell label="EV Range" value={report.evRangeKm != null ? `${toNum(report.evRangeKm)} km` : null} />
+              <ObdCell label="Charging" value={report.evChargingState != null ? report.evChargingState.replace(/_/g, ' ') : null} />
+              <ObdCell label="Motor RPM" value={report.evMotorRpm != null ? `${report.evMotorRpm}` : null} />
+              <ObdCell label="Motor Temp" value={report.evMotorTempC != null ? `${report.evMotorTempC}°C` : null} />
+              <ObdCell label="Battery Health" value={report.evSohPct != null ? `${report.evSohPct}%` : null} />
             </div>
           </div>
         </>
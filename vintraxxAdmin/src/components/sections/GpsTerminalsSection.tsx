@@ -43,7 +43,14 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 
-type Filter = 'all' | 'online' | 'offline' | 'unpaired' | 'never_connected' | 'revoked';
+type Filter =
+  | 'all'
+  | 'online'
+  | 'offline'
+  | 'unpaired'
+  | 'never_connected'
+  | 'logged_out'
+  | 'revoked';
 
 interface Props {
   initialOwnerUserId?: string;
@@ -165,9 +172,11 @@ export default function GpsTerminalsSection({
     };
     const offUp = gpsAdminWs.on('terminal.online', queueRefresh);
     const offDown = gpsAdminWs.on('terminal.offline', queueRefresh);
+    const offLogout = gpsAdminWs.on('terminal.logout', queueRefresh);
     return () => {
       offUp();
       offDown();
+      offLogout();
       if (timer) clearTimeout(timer);
     };
   }, [load]);
@@ -222,6 +231,7 @@ export default function GpsTerminalsSection({
     { id: 'offline', label: 'Offline' },
     { id: 'unpaired', label: 'Unpaired' },
     { id: 'never_connected', label: 'Never Connected' },
+    { id: 'logged_out', label: 'Logged Out' },
     { id: 'revoked', label: 'Revoked' },
   ];
 
@@ -217,6 +217,13 @@ export default function TerminalInfoCard({
       <Section title="Location" forceLight={compact}>
         <Row label="Address" value={address} forceLight={compact} />
         <Row label="Coordinates" value={coordsLabel} mono forceLight={compact} />
+        {location?.positionSource === 'CELL' && (
+          <Row
+            label="Position source"
+            value={`Cell tower (approx.${location.accuracyM ? ` ±${location.accuracyM.toLocaleString()} m` : ''})`}
+            forceLight={compact}
+          />
+        )}
         <Row label="Last GPS ping" value={location?.reportedAt ? fmtRelative(location.reportedAt) : null} forceLight={compact} />
         {!isOnline && (
           <>
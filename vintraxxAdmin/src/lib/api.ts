@@ -232,7 +232,7 @@ export const api = {
     page = 1,
     limit = 50,
     opts: {
-      filter?: 'online' | 'offline' | 'unpaired' | 'never_connected' | 'revoked';
+      filter?: 'online' | 'offline' | 'unpaired' | 'never_connected' | 'logged_out' | 'revoked';
       search?: string;
       ownerUserId?: string;
     } = {},
@@ -345,6 +345,38 @@ export const api = {
       until: string;
     }>(`/gps/terminals/${id}/obd?${buildQuery(opts)}`),
 
+  /** Latest per-wheel TPMS reading + history window (default last 24h). */
+  getGpsTerminalTires: (
+    id: string,
+    opts: { since?: string; until?: string; limit?: number } = {},
+  ) =>
+    request<{
+      success: boolean;
+      latestReportedAt: string | null;
+      latest: GpsTireReading[];
+      readings: GpsTireReading[];
+      since: string;
+      until: string;
+    }>(`/gps/terminals/${id}/tires?${buildQuery(opts)}`),
+
+  /** Raw frame journal, newest-first. */
+  getGpsTerminalJournal: (
+    id: string,
+    opts: { direction?: 'IN' | 'OUT'; msgId?: string; errorsOnly?: boolean; page?: number; limit?: number } = {},
+  ) =>
+    request<{
+      success: boolean;
+      journalEnabled: boolean;
+      entries: GpsFrameJournalEntry[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/terminals/${id}/journal?${buildQuery(opts)}`),
+
+  /** Capture-file download (JSON Lines) for scripts/replay-frame-journal.ts. */
+  getGpsJournalCaptureUrl: (id: string) => `${API_URL}/gps/terminals/${id}/journal/capture`,
+
   // Alarms
   /**
    * List alarms (admin scope). Supports the canonical filter triplet from
@@ -474,7 +506,18 @@ export const api = {
   getGpsTrip: (id: string) =>
     request<{ success: boolean; trip: GpsTrip }>(`/gps/trips/${id}`),
 
-  // Commands (read-only in v1)
+  // Commands
+  /** Queue a command for the terminal; the gateway dispatches it when online. */
+  enqueueGpsCommand: (terminalId: string, body: GpsEnqueueCommandBody) =>
+    request<{ success: boolean; command: GpsCommand }>(`/gps/terminals/${terminalId}/commands`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+
+  /** The terminal parameter registry (ids, types, bounds) for the editor. */
+  listGpsParameterDefs: () =>
+    request<{ success: boolean; parameters: GpsParamDef[] }>('/gps/parameters'),
+
   listGpsCommands: (
     page = 1,
     limit = 50,
@@ -482,6 +525,7 @@ export const api = {
       terminalId?: string;
       status?: GpsCommandStatus;
       adminId?: string;
+      batchId?: string;
       since?: string;
       until?: string;
     } = {},
@@ -498,6 +542,261 @@ export const api = {
   getGpsCommand: (id: string) =>
     request<{ success: boolean; command: GpsCommand }>(`/gps/commands/${id}`),
 
+  /** Text a still-QUEUED command to the terminal's SIM instead (SMS fallback). */
+  sendGpsCommandViaSms: (id: string) =>
+    request<{ success: boolean; command: GpsCommand }>(`/gps/commands/${id}/sms`, {
+      method: 'POST',
+    }),
+
+  // ── Bulk command batches ──────────────────────────────────────────────────
+  // Open to every admin except terminal-control and clear-dtcs batches
+  // (super-admin only, 403 otherwise). Progress also arrives live as `command.batch.progress`
+  // on the admin WebSocket. A batch's commands: listGpsCommands({ batchId }).
+
+  listGpsCommandBatches: (
+    page = 1,
+    limit = 50,
+    filters: { status?: GpsCommandBatchStatus } = {},
+  ) =>
+    request<{
+      success: boolean;
+      batches: GpsCommandBatch[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/command-batches?${buildQuery({ page, limit, ...filters })}`),
+
+  createGpsCommandBatch: (body: GpsCommandBatchBody) =>
+    request<{ success: boolean; batch: GpsCommandBatch }>('/gps/command-batches', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+
+  getGpsCommandBatch: (id: string) =>
+    request<{ success: boolean; batch: GpsCommandBatch }>(`/gps/command-batches/${id}`),
+
+  /** Stops releasing and expires the batch's still-QUEUED commands. */
+  cancelGpsCommandBatch: (id: string) =>
+    request<{ success: boolean; batch: GpsCommandBatch }>(`/gps/command-batches/${id}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    }),
+
+  // ── Command schedules ─────────────────────────────────────────────────────
+  // One-off or recurring commands run by the backend cron. Same
+  // super-admin gate as batches.
+
+  listGpsCommandSchedules: (
+    page = 1,
+    limit = 50,
+    filters: { enabled?: boolean } = {},
+  ) =>
+    request<{
+      success: boolean;
+      schedules: GpsCommandSchedule[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/command-schedules?${buildQuery({ page, limit, ...filters })}`),
+
+  createGpsCommandSchedule: (body: GpsCommandScheduleBody) =>
+    request<{ success: boolean; schedule: GpsCommandSchedule }>('/gps/command-schedules', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+
+  updateGpsCommandSchedule: (
+    id: string,
+    body: Partial<Omit<GpsCommandScheduleBody, 'action'>>,
+  ) =>
+    request<{ success: boolean; schedule: GpsCommandSchedule }>(`/gps/command-schedules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    }),
+
+  deleteGpsCommandSchedule: (id: string) =>
+    request<{ success: boolean }>(`/gps/command-schedules/${id}`, { method: 'DELETE' }),
+
+  // ── Command approvals ─────────────────────────────────────────────────────
+  // terminal-control, clear-dtcs and terminal deletion are super-admin only.
+  // Any other admin files a request; a different super admin approves
+  // (which runs it) or rejects it.
+
+  listGpsCommandApprovals: (
+    page = 1,
+    limit = 50,
+    filters: { status?: GpsCommandApprovalStatus; terminalId?: string } = {},
+  ) =>
+    request<{
+      success: boolean;
+      approvals: GpsCommandApproval[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/command-approvals?${buildQuery({ page, limit, ...filters })}`),
+
+  createGpsCommandApproval: (body: GpsCommandApprovalBody) =>
+    request<{ success: boolean; approval: GpsCommandApproval }>('/gps/command-approvals', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+
+  approveGpsCommandApproval: (id: string, note?: string) =>
+    request<{ success: boolean; approval: GpsCommandApproval }>(`/gps/command-approvals/${id}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    }),
+
+  rejectGpsCommandApproval: (id: string, note: string) =>
+    request<{ success: boolean; approval: GpsCommandApproval }>(`/gps/command-approvals/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    }),
+
+  cancelGpsCommandApproval: (id: string) =>
+    request<{ success: boolean; approval: GpsCommandApproval }>(`/gps/command-approvals/${id}/cancel`, {
+      method: 'POST',
+    }),
+
+  // ── OTA firmware campaigns ────────────────────────────────────────────────
+  // Reads are open to every admin; upload / create / start / cancel are
+  // super-admin only (403 otherwise). Pause is open so anyone can stop a
+  // bad rollout.
+
+  listGpsFirmwareImages: () =>
+    request<{ success: boolean; images: GpsFirmwareImage[] }>('/gps/firmware/images'),
+
+  /** `dataBase64` is the raw image, base64-encoded (no data: URL prefix). */
+  createGpsFirmwareImage: (body: {
+    name: string;
+    version: string;
+    upgradeType: GpsFirmwareUpgradeType;
+    manufacturerId: string;
+    terminalModel?: string | null;
+    dataBase64: string;
+  }) =>
+    request<{ success: boolean; image: GpsFirmwareImage }>('/gps/firmware/images', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+
+  deleteGpsFirmwareImage: (id: string) =>
+    request<{ success: boolean; id: string }>(`/gps/firmware/images/${id}`, {
+      method: 'DELETE',
+    }),
+
+  listGpsFirmwareCampaigns: (
+    page = 1,
+    limit = 50,
+    filters: { status?: GpsFirmwareCampaignStatus } = {},
+  ) =>
+    request<{
+      success: boolean;
+      campaigns: GpsFirmwareCampaign[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/firmware/campaigns?${buildQuery({ page, limit, ...filters })}`),
+
+  createGpsFirmwareCampaign: (body: {
+    name: string;
+    imageId: string;
+    targetModels: string[];
+    targetFirmwareVersions: string[];
+    batchSize: number;
+    failureThresholdPct: number;
+    minResultsBeforePause?: number;
+  }) =>
+    request<{ success: boolean; campaign: GpsFirmwareCampaign & { targetCount: number } }>(
+      '/gps/firmware/campaigns',
+      { method: 'POST', body: JSON.stringify(body) },
+    ),
+
+  getGpsFirmwareCampaign: (id: string) =>
+    request<{ success: boolean; campaign: GpsFirmwareCampaign }>(`/gps/firmware/campaigns/${id}`),
+
+  listGpsFirmwareTargets: (
+    id: string,
+    page = 1,
+    limit = 100,
+    filters: { status?: GpsFirmwareTargetStatus; batchNumber?: number } = {},
+  ) =>
+    request<{
+      success: boolean;
+      targets: GpsFirmwareTarget[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/firmware/campaigns/${id}/targets?${buildQuery({ page, limit, ...filters })}`),
+
+  startGpsFirmwareCampaign: (id: string) =>
+    request<{ success: boolean; campaign: GpsFirmwareCampaign }>(
+      `/gps/firmware/campaigns/${id}/start`,
+      { method: 'POST', body: JSON.stringify({}) },
+    ),
+
+  pauseGpsFirmwareCampaign: (id: string) =>
+    request<{ success: boolean; campaign: GpsFirmwareCampaign }>(
+      `/gps/firmware/campaigns/${id}/pause`,
+      { method: 'POST', body: JSON.stringify({}) },
+    ),
+
+  cancelGpsFirmwareCampaign: (id: string) =>
+    request<{ success: boolean; campaign: GpsFirmwareCampaign }>(
+      `/gps/firmware/campaigns/${id}/cancel`,
+      { method: 'POST', body: JSON.stringify({}) },
+    ),
+
+  // ── Configuration profiles ────────────────────────────────────────────────
+  // Terminals join a profile directly (updateGpsTerminal `configProfileId`)
+  // or through their `fleetGroup`.
+  listGpsConfigProfiles: () =>
+    request<{ success: boolean; profiles: GpsConfigProfile[] }>('/gps/config-profiles'),
+
+  createGpsConfigProfile: (body: GpsConfigProfileBody) =>
+    request<{ success: boolean; profile: GpsConfigProfile }>('/gps/config-profiles', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+
+  updateGpsConfigProfile: (id: string, patch: Partial<GpsConfigProfileBody>) =>
+    request<{ success: boolean; profile: GpsConfigProfile }>(`/gps/config-profiles/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(patch),
+    }),
+
+  deleteGpsConfigProfile: (id: string) =>
+    request<{ success: boolean; id: string }>(`/gps/config-profiles/${id}`, {
+      method: 'DELETE',
+    }),
+
+  listGpsConfigProfileTerminals: (
+    id: string,
+    page = 1,
+    limit = 100,
+    filters: { status?: GpsConfigSyncStatus } = {},
+  ) =>
+    request<{
+      success: boolean;
+      terminals: GpsConfigProfileTerminal[];
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    }>(`/gps/config-profiles/${id}/terminals?${buildQuery({ page, limit, ...filters })}`),
+
+  /** Push now to the profile's connected terminals that aren't IN_SYNC. */
+  pushGpsConfigProfile: (id: string) =>
+    request<{ success: boolean; queued: number }>(`/gps/config-profiles/${id}/push`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    }),
+
   // Audit log
   listAdminAuditLogs: (
     page = 1,
@@ -870,9 +1169,12 @@ export type GpsTerminalStatus =
   | 'NEVER_CONNECTED'
   | 'ONLINE'
   | 'OFFLINE'
+  | 'LOGGED_OUT'
   | 'SUSPENDED'
   | 'REVOKED';
 
+export type GpsProtocol = 'JT808' | 'GT06';
+
 export interface GpsTerminal {
   id: string;
   /**
@@ -909,6 +1211,8 @@ export interface GpsTerminal {
   nickname: string | null;
   plateNumber: string | null;
 
+  /** Device protocol family, recorded by the gateway at every login. */
+  protocol: GpsProtocol;
   status: GpsTerminalStatus;
   connectedAt: string | null;
   disconnectedAt: string | null;
@@ -918,7 +1222,16 @@ export interface GpsTerminal {
   heartbeatIntervalSec: number | null;
   tcpReconnectSec: number | null;
   tcpReplySec: number | null;
-  parameters: Record<string, unknown> | null;
+  /** Last 0x0104 dump, decoded against the parameter registry. */
+  parameters: GpsTerminalParameters | null;
+
+  // Configuration profile: direct assignment, else the fleet group's.
+  fleetGroup: string | null;
+  configProfileId: string | null;
+  /** Null when no profile applies. */
+  configStatus: GpsConfigSyncStatus | null;
+  configCheckedAt: string | null;
+  configDrift: GpsConfigDriftItem[] | null;
 
   // 4G Always-Online feature state
   fourGAlwaysOnlineDesired: boolean;
@@ -928,6 +1241,13 @@ export interface GpsTerminal {
   fourGAlwaysOnlineLastError: string | null;
   fourGAlwaysOnlineUpdatedAt: string | null;
 
+  // JT/T 808 RSA body encryption. The key itself stays server-side.
+  requireEncryption: boolean;
+  rsaKeyReceivedAt: string | null;
+
+  /** Raw frame journal capture (gateway picks it up within ~15 s). */
+  journalEnabled: boolean;
+
   createdAt: string;
   updatedAt: string;
 }
@@ -959,6 +1279,8 @@ export interface ProvisionTerminalBody {
   nickname?: string;
   plateNumber?: string;
   ownerUserId?: string | null;
+  /** Defaults to JT808. */
+  protocol?: GpsProtocol;
 }
 
 /**
@@ -982,6 +1304,12 @@ export interface UpdateTerminalBody {
   nickname?: string | null;
   plateNumber?: string | null;
   ownerUserId?: string | null;
+  /** Refuse plaintext telemetry; takes effect at the terminal's next login. */
+  requireEncryption?: boolean;
+  journalEnabled?: boolean;
+  fleetGroup?: string | null;
+  /** Direct config profile assignment; wins over the fleet group's. */
+  configProfileId?: string | null;
 }
 
 export interface GpsLocation {
@@ -996,6 +1324,9 @@ export interface GpsLocation {
   heading: number | null;
   accOn: boolean | null;
   gpsFix: boolean | null;
+  /** CELL = cell-tower estimate (no GNSS fix); `accuracyM` is its radius. */
+  positionSource?: 'GNSS' | 'CELL';
+  accuracyM?: number | null;
   satelliteCount: number | null;
   signalStrength: number | null;
   odometerKm: number | string | null;
@@ -1037,10 +1368,63 @@ export interface GpsObdSnapshot {
   o2Voltage: number | string | null;
   milOn: boolean | null;
   milDistanceKm: number | string | null;
-  /** Vendor-specific PIDs we don't natively decode — `key` is hex ("0x21"). */
+  /** Commercial vehicles (0xEC J1939 flow / 0xEE load cell). */
+  engineHours: number | string | null;
+  defLevelPct: number | string | null;
+  engineOilTempC: number | null;
+  engineOilPressureKpa: number | null;
+  parkingBrakeOn: boolean | null;
+  ptoIdleActive: boolean | null;
+  axleWeightKg: number | null;
+  /** New-energy vehicles (0xED flow). */
+  evRangeKm: number | string | null;
+  evChargingState: string | null;
+  evChargerPlugged: boolean | null;
+  evMotorRpm: number | null;
+  evMotorTorqueNm: number | null;
+  evMotorTempC: number | null;
+  evSohPct: number | null;
+  /**
+   * Vendor-specific PIDs we don't natively decode — `key` is hex ("0x21") —
+   * plus the typed truck / EV signals that have no column of their own.
+   */
   extraPidsJson: Record<string, unknown> | null;
 }
 
+/**
+ * One wheel of a 0xEE tire-pressure table. `position` is the tire number
+ * (1–32), or the axle/wheel code (0x01, 0x11…) when `axle` is set.
+ * `statusBits`: bit7 quick leak, 6 slow leak, 5 sensor battery low,
+ * 4 high temperature, 3 high pressure, 2 low pressure.
+ */
+export interface GpsTireReading {
+  id: string;
+  terminalId: string;
+  reportedAt: string;
+  position: number;
+  axle: number | null;
+  pressureKpa: number;
+  temperatureC: number;
+  statusBits: number | null;
+  sensorVoltageV: number | string | null;
+}
+
+/**
+ * One raw JT/T 808 frame from a terminal's journal. `frame` is the escaped
+ * wire bytes as upper-case hex; `msgId` / `msgSerial` are null for inbound
+ * frames that failed to decode (see `decodeError`).
+ */
+export interface GpsFrameJournalEntry {
+  id: string;
+  sessionId: string;
+  direction: 'IN' | 'OUT';
+  capturedAt: string;
+  msgId: string | null;
+  msgSerial: number | null;
+  frame: string;
+  decodeError: string | null;
+}
+
 export type GpsAlarmSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
 export type GpsAlarmType =
   | 'COLLISION'
@@ -1058,6 +1442,13 @@ export type GpsAlarmType =
   | 'IGNITION_ON'
   | 'IGNITION_OFF'
   | 'GPS_BLOCKED'
+  | 'EV_CELL_IMBALANCE'
+  | 'EV_OVER_TEMPERATURE'
+  | 'DOOR_OPEN_PARKED'
+  | 'MOTION_PARKED'
+  | 'TIRE_LOW_PRESSURE'
+  | 'TIRE_RAPID_LEAK'
+  | 'TIRE_OVER_TEMPERATURE'
   | 'OTHER';
 
 /**
@@ -1101,6 +1492,9 @@ export interface GpsAlarm {
   vin: string | null;
   extraData: Record<string, unknown> | null;
   serviceAppointmentId: string | null;
+  /** Driver identified on the terminal when the alarm opened. */
+  driverId?: string | null;
+  driver?: { id: string; name: string } | null;
   /**
    * Admin-scoped lists return a richer terminal block with vehicle
    * descriptors and the owner user — used by GpsAlarmsSection to render
@@ -1198,6 +1592,25 @@ export interface GpsScanReport {
   acceleratorPct: string | number | null;
   intakeManifoldKpa: number | null;
 
+  engineHours: string | number | null;
+  fuelRateLph: string | number | null;
+  fuelConsumedL: string | number | null;
+  defLevelPct: string | number | null;
+  engineOilTempC: number | null;
+  engineOilPressureKpa: number | null;
+  parkingBrakeOn: boolean | null;
+  ptoIdleActive: boolean | null;
+  axleWeightKg: number | null;
+
+  evSocPct: number | null;
+  evRangeKm: string | number | null;
+  evChargingState: string | null;
+  evChargerPlugged: boolean | null;
+  evMotorRpm: number | null;
+  evMotorTorqueNm: number | null;
+  evMotorTempC: number | null;
+  evSohPct: number | null;
+
   protocol: string | null;
   rawObdJson: {
     obdLive?: {
@@ -1286,6 +1699,9 @@ export interface GpsTrip {
   /** Driver score 0..100 from the trip-grading service; null until close. */
   score: number | null;
   rawSummary: Record<string, unknown> | null;
+  /** Driver identified via 0x0702 / 0x0252 when the trip opened. */
+  driverId?: string | null;
+  driver?: { id: string; name: string } | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -1310,6 +1726,55 @@ export type GpsCommandStatus =
   | 'JT808_ACK_TIMEOUT'        // 0x0001 not received within timeout
   | 'VENDOR_RESPONSE_TIMEOUT'; // 0x6006 not received within timeout after 0x0001
 
+export type GpsCommandChannel = 'DATA' | 'SMS';
+
+export type GpsEnqueueCommandBody = (
+  | { kind: 'locate' }
+  | { kind: 'read-params' }
+  | { kind: 'clear-dtcs' }
+  | { kind: 'set-params'; setParams: Array<{ id: number; value: number | string }> }
+  | { kind: 'terminal-control'; controlType: 3 | 4 | 5 | 6 | 7 }
+) & {
+  channel?: GpsCommandChannel;
+  /** ISO time to hold a DATA command until. */
+  scheduledFor?: string;
+};
+
+/** Mirrors the backend parameter registry (`param-registry.ts`). */
+export interface GpsParamDef {
+  id: number;
+  /** Key under `GpsTerminal.parameters.values`. */
+  key: string;
+  name: string;
+  type: 'BYTE' | 'WORD' | 'DWORD' | 'STRING' | 'BYTES';
+  group: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  options?: Record<string, string>;
+  readOnly?: boolean;
+  action?: boolean;
+  description: string;
+}
+
+/** Parameter types edited as numbers; STRING and BYTES (hex) stay text. */
+export const NUMERIC_PARAM_TYPES: ReadonlySet<GpsParamDef['type']> = new Set<GpsParamDef['type']>([
+  'BYTE',
+  'WORD',
+  'DWORD',
+]);
+
+export interface GpsTerminalParameters {
+  queriedAt?: string;
+  /** Numbers for BYTE/WORD/DWORD, strings for STRING, hex for BYTES. */
+  values?: Record<string, number | string | Array<number | string>>;
+  /** Ids the registry doesn't know, as raw hex. */
+  unknown?: Record<string, string>;
+}
+
 export interface GpsCommand {
   id: string;
   terminalId: string;
@@ -1319,6 +1784,18 @@ export interface GpsCommand {
   functionCode: number | null;
   kind: string;
   payload: Record<string, unknown> | null;
+  /** DATA = over the gateway session; SMS = texted to the terminal's SIM. */
+  channel: GpsCommandChannel;
+  smsProviderMessageId?: string | null;
+  /** Bulk command batch that released this row, if any. */
+  batchId?: string | null;
+  /** Send number of this row and the kind's retry budget. */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Earlier sends that failed and were retried (detail endpoint only). */
+  attempts?: GpsCommandAttempt[];
+  /** Held until then: a scheduled command or a retry's backoff. */
+  notBefore?: string | null;
   createdAt: string;
   sentAt: string | null;
   ackAt: string | null;
@@ -1338,10 +1815,20 @@ export interface GpsCommand {
     deviceIdentifier: string;
     imei: string | null;
     nickname: string | null;
+    phoneNumber?: string | null;
   };
   admin?: { id: string; email: string } | null;
 }
 
+export interface GpsCommandAttempt {
+  attempt: number;
+  sentAt: string | null;
+  serialNumber: number | null;
+  gatewayPodId: string | null;
+  failedAt: string;
+  errorText: string;
+}
+
 /**
  * NESTED shape returned by `/admin/gps/stats/overview`. Confirmed in
  * `gps-stats.service.ts:66-80`. The frontend reads nested fields directly
@@ -1353,6 +1840,7 @@ export interface GpsOverviewStats {
     online: number;
     offline: number;
     neverConnected: number;
+    loggedOut: number;
     revoked: number;
     unpaired: number;
   };
@@ -1409,3 +1897,258 @@ export interface AdminAuditEntry {
   errorText: string | null;
   createdAt: string;
 }
+
+// ── OTA firmware campaigns ───────────────────────────────────────────────────
+
+/** 0x8108 upgrade type: 0 terminal, 12 IC card reader, 52 GNSS module. */
+export type GpsFirmwareUpgradeType = 0 | 12 | 52;
+
+export type GpsFirmwareCampaignStatus = 'DRAFT' | 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+export type GpsFirmwareTargetStatus =
+  | 'PENDING'
+  | 'QUEUED'
+  | 'TRANSFERRING'
+  | 'AWAITING_RESULT'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'SKIPPED';
+
+export interface GpsFirmwareImage {
+  id: string;
+  name: string;
+  version: string;
+  upgradeType: GpsFirmwareUpgradeType;
+  manufacturerId: string;
+  terminalModel: string | null;
+  sizeBytes: number;
+  sha256: string;
+  uploadedByAdminId: string | null;
+  createdAt: string;
+  _count?: { campaigns: number };
+}
+
+export interface GpsFirmwareCampaign {
+  id: string;
+  name: string;
+  imageId: string;
+  image?: Pick<GpsFirmwareImage, 'id' | 'name' | 'version'> & Partial<GpsFirmwareImage>;
+  status: GpsFirmwareCampaignStatus;
+  targetModels: string[];
+  targetFirmwareVersions: string[];
+  batchSize: number;
+  currentBatch: number;
+  totalBatches: number;
+  failureThresholdPct: number;
+  minResultsBeforePause: number;
+  pauseReason: string | null;
+  createdByAdminId: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Target count per status; statuses with no targets are omitted. */
+  targetCounts: Partial<Record<GpsFirmwareTargetStatus, number>>;
+}
+
+export interface GpsFirmwareTarget {
+  id: string;
+  campaignId: string;
+  terminalId: string;
+  terminal?: {
+    id: string;
+    deviceIdentifier: string;
+    nickname: string | null;
+    terminalModel: string | null;
+    firmwareVersion: string | null;
+    status: string;
+  };
+  batchNumber: number;
+  status: GpsFirmwareTargetStatus;
+  fromVersion: string | null;
+  packetsTotal: number | null;
+  packetsAcked: number;
+  attempts: number;
+  resultCode: number | null;
+  resultSource: string | null;
+  errorText: string | null;
+  queuedAt: string | null;
+  transferStartedAt: string | null;
+  transferCompletedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
+// ── Configuration profiles ─────────────────────────────────────────────────
+
+/** PENDING until the first 0x0104 read-back after an assignment or edit. */
+export type GpsConfigSyncStatus = 'PENDING' | 'IN_SYNC' | 'DRIFTED';
+
+export interface GpsConfigDriftItem {
+  /** Parameter id, `0x0029` style. */
+  id: string;
+  key: string;
+  expected: number | string;
+  /** Null when the device didn't report the parameter. */
+  actual: number | string | Array<number | string> | null;
+}
+
+export interface GpsConfigProfileBody {
+  name: string;
+  description?: string | null;
+  params: Array<{ id: number; value: number | string }>;
+  fleetGroups: string[];
+}
+
+export interface GpsConfigProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  params: Array<{ id: number; value: number | string }>;
+  fleetGroups: string[];
+  createdByAdminId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  statusCounts: { total: number } & Record<GpsConfigSyncStatus, number>;
+}
+
+export interface GpsConfigProfileTerminal {
+  id: string;
+  deviceIdentifier: string;
+  nickname: string | null;
+  vehicleVin: string | null;
+  status: GpsTerminalStatus;
+  protocol: GpsProtocol;
+  fleetGroup: string | null;
+  configProfileId: string | null;
+  configStatus: GpsConfigSyncStatus | null;
+  configCheckedAt: string | null;
+  configDrift: GpsConfigDriftItem[] | null;
+}
+
+// ── Bulk command batches ────────────────────────────────────────────────────
+
+export type GpsCommandBatchStatus = 'RUNNING' | 'COMPLETED' | 'CANCELLED';
+
+/** Criteria combine with AND; at least one is required. */
+export interface GpsCommandBatchFilter {
+  terminalIds?: string[];
+  models?: string[];
+  firmwareVersions?: string[];
+  ownerUserId?: string;
+  fleetGroups?: string[];
+}
+
+export type GpsBatchCommand =
+  | { kind: 'locate' }
+  | { kind: 'read-params' }
+  | { kind: 'clear-dtcs' }
+  | { kind: 'set-params'; setParams: Array<{ id: number; value: number | string }> }
+  | { kind: 'terminal-control'; controlType: 3 | 4 | 5 | 6 | 7 };
+
+export interface GpsCommandBatchBody {
+  name?: string | null;
+  filter: GpsCommandBatchFilter;
+  command: GpsBatchCommand;
+  /** Commands in flight at once; default 20. */
+  concurrency?: number;
+}
+
+export interface GpsCommandBatchProgress {
+  total: number;
+  released: number;
+  /** QUEUED, SENT or awaiting a vendor reply. */
+  pending: number;
+  acked: number;
+  failed: number;
+  expired: number;
+  /** Refused at release — see `skipped` on the batch. */
+  skipped: number;
+}
+
+export interface GpsCommandBatch {
+  id: string;
+  name: string | null;
+  status: GpsCommandBatchStatus;
+  command: GpsBatchCommand;
+  filter: GpsCommandBatchFilter;
+  releasedCount: number;
+  concurrency: number;
+  skipped: Array<{ terminalId: string; error: string }>;
+  createdByAdminId: string | null;
+  /** Recurring schedule whose run started this batch. */
+  scheduleId: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  progress: GpsCommandBatchProgress;
+}
+
+/** COMMAND runs a bulk batch; FULL_SCAN starts a scan report per terminal. */
+export type GpsCommandScheduleAction = 'COMMAND' | 'FULL_SCAN';
+
+export interface GpsCommandScheduleBody {
+  name: string;
+  action?: GpsCommandScheduleAction;
+  /** Required for COMMAND schedules. */
+  command?: GpsBatchCommand;
+  filter: GpsCommandBatchFilter;
+  concurrency?: number;
+  /** Minutes between runs (min 5); null / omitted runs once. */
+  intervalMinutes?: number | null;
+  nextRunAt: string;
+  enabled?: boolean;
+}
+
+export interface GpsCommandSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: GpsCommandScheduleAction;
+  command: GpsBatchCommand | null;
+  filter: GpsCommandBatchFilter;
+  concurrency: number;
+  intervalMinutes: number | null;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  /** Why the last run didn't (fully) start. */
+  lastError: string | null;
+  createdByAdminId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** The latest run's batch (COMMAND schedules). */
+  batches: Array<{ id: string; status: GpsCommandBatchStatus; createdAt: string }>;
+}
+
+export type GpsCommandApprovalAction = 'COMMAND' | 'DELETE_TERMINAL';
+export type GpsCommandApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+/** The commands that need a super admin. */
+export type GpsApprovalCommand =
+  | { kind: 'clear-dtcs' }
+  | { kind: 'terminal-control'; controlType: 3 | 4 | 5 | 6 | 7 };
+
+export type GpsCommandApprovalBody =
+  | { action: 'COMMAND'; terminalId: string; command: GpsApprovalCommand; justification: string }
+  | { action: 'DELETE_TERMINAL'; terminalId: string; justification: string };
+
+export interface GpsCommandApproval {
+  id: string;
+  action: GpsCommandApprovalAction;
+  status: GpsCommandApprovalStatus;
+  terminalId: string;
+  /** Snapshot — the terminal may since have been deleted. */
+  deviceIdentifier: string;
+  command: { kind: GpsApprovalCommand['kind']; controlType?: number } | null;
+  justification: string;
+  requestedByAdminId: string;
+  requestedByEmail: string | null;
+  reviewedByAdminId: string | null;
+  reviewedByEmail: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  /** The command an approved COMMAND request created. */
+  commandId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -19,6 +19,8 @@
 
 'use client';
 
+import type { GpsCommandBatchProgress, GpsCommandBatchStatus } from './api';
+
 const HEARTBEAT_MS = 25_000;
 const MAX_BACKOFF_MS = 30_000;
 const INITIAL_BACKOFF_MS = 500;
@@ -48,6 +50,8 @@ export interface WsLocationUpdate {
     altitudeM: number | null;
     accOn: boolean | null;
     gpsFix: boolean | null;
+    positionSource?: 'GNSS' | 'CELL';
+    accuracyM?: number | null;
     reportedAt: string;
     alarmBits?: number;
     statusBits?: number;
@@ -73,7 +77,11 @@ export interface WsTerminalOnline extends WsTerminalStateBase {
 export interface WsTerminalOffline extends WsTerminalStateBase {
   type: 'terminal.offline';
 }
-export type WsTerminalState = WsTerminalOnline | WsTerminalOffline;
+/** Device deregistered with 0x0003 (unplugged / reset), not a lost link. */
+export interface WsTerminalLogout extends WsTerminalStateBase {
+  type: 'terminal.logout';
+}
+export type WsTerminalState = WsTerminalOnline | WsTerminalOffline | WsTerminalLogout;
 
 interface WsAlarmEventBase {
   alarmId: string;
@@ -123,16 +131,27 @@ export interface WsTripClosed extends WsTripEventBase {
 }
 export type WsTripEvent = WsTripOpened | WsTripClosed;
 
+/** Bulk command batch progress — admin firehose only, no terminal. */
+export interface WsCommandBatchProgress {
+  type: 'command.batch.progress';
+  batchId: string;
+  status: GpsCommandBatchStatus;
+  progress: GpsCommandBatchProgress;
+  at: string;
+}
+
 export type WsDomainEvent =
   | WsLocationUpdate
   | WsTerminalOnline
   | WsTerminalOffline
+  | WsTerminalLogout
   | WsAlarmOpened
   | WsAlarmClosed
   | WsAlarmAcknowledged
   | WsDtcEvent
   | WsTripOpened
-  | WsTripClosed;
+  | WsTripClosed
+  | WsCommandBatchProgress;
 
 interface WsWelcome {
   type: 'welcome';
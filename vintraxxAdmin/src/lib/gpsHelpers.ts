@@ -141,6 +141,8 @@ export function statusDotClasses(status: string): string {
       return 'bg-[#DC2626] ring-2 ring-red-200 dark:ring-red-500/30';
     case 'NEVER_CONNECTED':
       return 'bg-[#9CA3AF] ring-2 ring-gray-200 dark:ring-gray-500/30';
+    case 'LOGGED_OUT':
+      return 'bg-amber-500 ring-2 ring-amber-200 dark:ring-amber-500/30';
     case 'REVOKED':
       return 'bg-red-500 ring-2 ring-red-200 dark:ring-red-500/30';
     case 'SUSPENDED':
@@ -161,3 +163,25 @@ export function alarmTypeLabel(t: string): string {
     .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
     .join(' ');
 }
+
+/**
+ * Wheel label for a TPMS reading: "Tire 3" for the numbered 0x3006 table,
+ * "Axle 2 · W1" for the axle-coded 0x300E table (low nibble = wheel).
+ */
+export function tireLabel(t: { position: number; axle: number | null }): string {
+  return t.axle != null ? `Axle ${t.axle} · W${t.position & 0x0f}` : `Tire ${t.position}`;
+}
+
+/** Active 0x3006 status flags, most severe first. */
+export function tireFlags(statusBits: number | null): string[] {
+  if (statusBits == null) return [];
+  const names: Array<[number, string]> = [
+    [0x80, 'Quick leak'],
+    [0x40, 'Slow leak'],
+    [0x10, 'High temp'],
+    [0x04, 'Low pressure'],
+    [0x08, 'High pressure'],
+    [0x20, 'Sensor battery low'],
+  ];
+  return names.filter(([bit]) => (statusBits & bit) !== 0).map(([, name]) => name);
+}
@@ -0,0 +1,38 @@
+-- Manual migration: Driver roster + driver attribution on trips / alarms
+-- (0x0702 driver identity, 0x0252 driving license data).
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_driver.sql
+
+CREATE TABLE IF NOT EXISTS "Driver" (
+  "id"                   TEXT PRIMARY KEY,
+  "ownerUserId"          TEXT NOT NULL REFERENCES "User"("id") ON DELETE CASCADE,
+  "name"                 TEXT NOT NULL,
+  "qualificationCode"    TEXT,
+  "licenseNumber"        TEXT,
+  "licenseType"          TEXT,
+  "idCardNumber"         TEXT,
+  "issuingAuthority"     TEXT,
+  "certificateExpiresAt" DATE,
+  "phone"                TEXT,
+  "notes"                TEXT,
+  "autoCreated"          BOOLEAN NOT NULL DEFAULT false,
+  "createdAt"            TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"            TIMESTAMP(3) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Driver_ownerUserId_qualificationCode_key"
+  ON "Driver" ("ownerUserId", "qualificationCode");
+CREATE UNIQUE INDEX IF NOT EXISTS "Driver_ownerUserId_licenseNumber_key"
+  ON "Driver" ("ownerUserId", "licenseNumber");
+CREATE INDEX IF NOT EXISTS "Driver_ownerUserId_idx" ON "Driver" ("ownerUserId");
+
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "currentDriverId"    TEXT REFERENCES "Driver"("id") ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "currentDriverSince" TIMESTAMP(3);
+
+ALTER TABLE "GpsTrip"
+  ADD COLUMN IF NOT EXISTS "driverId" TEXT REFERENCES "Driver"("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "GpsTrip_driverId_startAt_idx" ON "GpsTrip" ("driverId", "startAt");
+
+ALTER TABLE "GpsAlarm"
+  ADD COLUMN IF NOT EXISTS "driverId" TEXT REFERENCES "Driver"("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "GpsAlarm_driverId_openedAt_idx" ON "GpsAlarm" ("driverId", "openedAt");
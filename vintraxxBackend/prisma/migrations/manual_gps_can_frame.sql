@@ -0,0 +1,16 @@
+-- Manual migration: add GpsCanFrame for 0x020A CAN broadcast reports.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_can_frame.sql
+
+CREATE TABLE IF NOT EXISTS "GpsCanFrame" (
+  "id"               TEXT PRIMARY KEY,
+  "terminalId"       TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "reportedAt"       TIMESTAMP(3) NOT NULL,
+  "serverReceivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "canId"            BIGINT NOT NULL,
+  "data"             BYTEA NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsCanFrame_terminalId_reportedAt_idx"
+  ON "GpsCanFrame" ("terminalId", "reportedAt" DESC);
+CREATE INDEX IF NOT EXISTS "GpsCanFrame_terminalId_canId_reportedAt_idx"
+  ON "GpsCanFrame" ("terminalId", "canId", "reportedAt" DESC);
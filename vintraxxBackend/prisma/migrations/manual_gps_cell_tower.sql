@@ -0,0 +1,32 @@
+-- Manual migration: cell-tower (LBS) fallback positioning.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_cell_tower.sql
+-- Then load towers with: npx ts-node scripts/import-cell-towers.ts <file.csv>
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsPositionSource') THEN
+    CREATE TYPE "GpsPositionSource" AS ENUM ('GNSS', 'CELL');
+  END IF;
+END
+$$;
+
+ALTER TABLE "GpsLocation"
+  ADD COLUMN IF NOT EXISTS "positionSource" "GpsPositionSource" NOT NULL DEFAULT 'GNSS',
+  ADD COLUMN IF NOT EXISTS "accuracyM"      INTEGER;
+
+CREATE TABLE IF NOT EXISTS "GpsCellTower" (
+  "id"        TEXT PRIMARY KEY,
+  "radio"     TEXT,
+  "mcc"       INTEGER NOT NULL,
+  "mnc"       INTEGER NOT NULL,
+  "lac"       INTEGER NOT NULL,
+  "cellId"    INTEGER NOT NULL,
+  "latitude"  DECIMAL(10, 7) NOT NULL,
+  "longitude" DECIMAL(10, 7) NOT NULL,
+  "rangeM"    INTEGER,
+  "samples"   INTEGER,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GpsCellTower_mcc_mnc_lac_cellId_key"
+  ON "GpsCellTower" ("mcc", "mnc", "lac", "cellId");
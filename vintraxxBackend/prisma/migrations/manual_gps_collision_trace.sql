@@ -0,0 +1,27 @@
+-- Manual migration: 0x0900/0xF7 suspected-collision accelerometer traces.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_collision_trace.sql
+
+CREATE TABLE IF NOT EXISTS "GpsCollisionTrace" (
+  "id"               TEXT PRIMARY KEY,
+  "alarmId"          TEXT NOT NULL REFERENCES "GpsAlarm"("id") ON DELETE CASCADE,
+  "terminalId"       TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "occurredAt"       TIMESTAMP(3) NOT NULL,
+  "latitude"         DECIMAL(10, 7) NOT NULL,
+  "longitude"        DECIMAL(10, 7) NOT NULL,
+  "level"            INTEGER NOT NULL,
+  "sampleIntervalMs" INTEGER NOT NULL,
+  "sampleCount"      INTEGER NOT NULL,
+  "samples"          JSONB NOT NULL,
+  "peakG"            DECIMAL(6, 2) NOT NULL,
+  "peakSampleIndex"  INTEGER NOT NULL,
+  "impactSpeedKmh"   INTEGER,
+  "impactDirection"  TEXT,
+  "impactAngleDeg"   INTEGER,
+  "rawBody"          BYTEA NOT NULL,
+  "createdAt"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GpsCollisionTrace_alarmId_key"
+  ON "GpsCollisionTrace" ("alarmId");
+CREATE INDEX IF NOT EXISTS "GpsCollisionTrace_terminalId_occurredAt_idx"
+  ON "GpsCollisionTrace" ("terminalId", "occurredAt");
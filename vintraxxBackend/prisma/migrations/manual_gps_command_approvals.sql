@@ -0,0 +1,35 @@
+-- Manual migration: two-person approval for destructive GPS commands.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_command_approvals.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsCommandApprovalAction') THEN
+    CREATE TYPE "GpsCommandApprovalAction" AS ENUM ('COMMAND', 'DELETE_TERMINAL');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsCommandApprovalStatus') THEN
+    CREATE TYPE "GpsCommandApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsCommandApproval" (
+  "id"                 TEXT PRIMARY KEY,
+  "action"             "GpsCommandApprovalAction" NOT NULL DEFAULT 'COMMAND',
+  "status"             "GpsCommandApprovalStatus" NOT NULL DEFAULT 'PENDING',
+  "terminalId"         TEXT NOT NULL,
+  "deviceIdentifier"   TEXT NOT NULL,
+  "command"            JSONB,
+  "justification"      TEXT NOT NULL,
+  "requestedByAdminId" TEXT NOT NULL,
+  "reviewedByAdminId"  TEXT,
+  "reviewNote"         TEXT,
+  "reviewedAt"         TIMESTAMP(3),
+  "commandId"          TEXT,
+  "createdAt"          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"          TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsCommandApproval_status_createdAt_idx"
+  ON "GpsCommandApproval" ("status", "createdAt");
+CREATE INDEX IF NOT EXISTS "GpsCommandApproval_terminalId_idx"
+  ON "GpsCommandApproval" ("terminalId");
@@ -0,0 +1,34 @@
+-- Manual migration: fleet-wide bulk command batches.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_command_batches.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsCommandBatchStatus') THEN
+    CREATE TYPE "GpsCommandBatchStatus" AS ENUM ('RUNNING', 'COMPLETED', 'CANCELLED');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsCommandBatch" (
+  "id"               TEXT PRIMARY KEY,
+  "name"             TEXT,
+  "status"           "GpsCommandBatchStatus" NOT NULL DEFAULT 'RUNNING',
+  "command"          JSONB NOT NULL,
+  "filter"           JSONB NOT NULL,
+  "terminalIds"      TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "releasedCount"    INTEGER NOT NULL DEFAULT 0,
+  "concurrency"      INTEGER NOT NULL,
+  "skipped"          JSONB NOT NULL DEFAULT '[]',
+  "createdByAdminId" TEXT,
+  "finishedAt"       TIMESTAMP(3),
+  "createdAt"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"        TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsCommandBatch_status_idx" ON "GpsCommandBatch" ("status");
+
+ALTER TABLE "GpsCommand"
+  ADD COLUMN IF NOT EXISTS "batchId" TEXT
+    REFERENCES "GpsCommandBatch"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "GpsCommand_batchId_status_idx" ON "GpsCommand" ("batchId", "status");
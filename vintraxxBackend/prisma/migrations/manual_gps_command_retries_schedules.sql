@@ -0,0 +1,43 @@
+-- Manual migration: command retry policies and recurring command schedules.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_command_retries_schedules.sql
+
+ALTER TABLE "GpsCommand"
+  ADD COLUMN IF NOT EXISTS "attempt"     INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS "maxAttempts" INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS "attempts"    JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS "notBefore"   TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "expiresAt"   TIMESTAMP(3);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsCommandScheduleAction') THEN
+    CREATE TYPE "GpsCommandScheduleAction" AS ENUM ('COMMAND', 'FULL_SCAN');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsCommandSchedule" (
+  "id"               TEXT PRIMARY KEY,
+  "name"             TEXT NOT NULL,
+  "enabled"          BOOLEAN NOT NULL DEFAULT true,
+  "action"           "GpsCommandScheduleAction" NOT NULL DEFAULT 'COMMAND',
+  "command"          JSONB,
+  "filter"           JSONB NOT NULL,
+  "concurrency"      INTEGER NOT NULL DEFAULT 20,
+  "intervalMinutes"  INTEGER,
+  "nextRunAt"        TIMESTAMP(3) NOT NULL,
+  "lastRunAt"        TIMESTAMP(3),
+  "lastError"        TEXT,
+  "createdByAdminId" TEXT,
+  "createdAt"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"        TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsCommandSchedule_enabled_nextRunAt_idx"
+  ON "GpsCommandSchedule" ("enabled", "nextRunAt");
+
+ALTER TABLE "GpsCommandBatch"
+  ADD COLUMN IF NOT EXISTS "scheduleId" TEXT
+    REFERENCES "GpsCommandSchedule"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "GpsCommandBatch_scheduleId_idx" ON "GpsCommandBatch" ("scheduleId");
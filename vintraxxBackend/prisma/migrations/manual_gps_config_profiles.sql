@@ -0,0 +1,36 @@
+-- Manual migration: terminal configuration profiles with drift detection.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_config_profiles.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsConfigSyncStatus') THEN
+    CREATE TYPE "GpsConfigSyncStatus" AS ENUM ('PENDING', 'IN_SYNC', 'DRIFTED');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsConfigProfile" (
+  "id"               TEXT PRIMARY KEY,
+  "name"             TEXT NOT NULL,
+  "description"      TEXT,
+  "params"           JSONB NOT NULL,
+  "fleetGroups"      TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "createdByAdminId" TEXT,
+  "createdAt"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"        TIMESTAMP(3) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GpsConfigProfile_name_key"
+  ON "GpsConfigProfile" ("name");
+
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "fleetGroup" TEXT,
+  ADD COLUMN IF NOT EXISTS "configProfileId" TEXT
+    REFERENCES "GpsConfigProfile"("id") ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "configStatus" "GpsConfigSyncStatus",
+  ADD COLUMN IF NOT EXISTS "configCheckedAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "configDrift" JSONB;
+
+CREATE INDEX IF NOT EXISTS "GpsTerminal_fleetGroup_idx" ON "GpsTerminal" ("fleetGroup");
+CREATE INDEX IF NOT EXISTS "GpsTerminal_configProfileId_idx" ON "GpsTerminal" ("configProfileId");
+CREATE INDEX IF NOT EXISTS "GpsTerminal_configStatus_idx" ON "GpsTerminal" ("configStatus");
@@ -0,0 +1,50 @@
+-- Manual migration: EV battery telemetry (0x0210 BMS data flow + 0xED pack
+-- summary) and the two EV alarm types.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_ev_snapshot.sql
+
+-- 1. New GpsAlarmType values (idempotent via DO block)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'EV_CELL_IMBALANCE'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'EV_CELL_IMBALANCE';
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'EV_OVER_TEMPERATURE'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'EV_OVER_TEMPERATURE';
+  END IF;
+END;
+$$;
+
+-- 2. Table
+CREATE TABLE IF NOT EXISTS "GpsEvSnapshot" (
+  "id"                   TEXT PRIMARY KEY,
+  "terminalId"           TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "source"               TEXT NOT NULL,
+  "reportedAt"           TIMESTAMP(3) NOT NULL,
+  "serverReceivedAt"     TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "socPct"               INTEGER,
+  "packVoltageV"         DECIMAL(7, 2),
+  "packCurrentA"         DECIMAL(7, 2),
+  "cellVoltagesJson"     JSONB,
+  "cellTemperaturesJson" JSONB,
+  "cellCount"            INTEGER,
+  "minCellVoltageV"      DECIMAL(6, 3),
+  "maxCellVoltageV"      DECIMAL(6, 3),
+  "cellSpreadMv"         INTEGER,
+  "maxCellTempC"         DECIMAL(5, 1)
+);
+
+CREATE INDEX IF NOT EXISTS "GpsEvSnapshot_terminalId_reportedAt_idx"
+  ON "GpsEvSnapshot" ("terminalId", "reportedAt" DESC);
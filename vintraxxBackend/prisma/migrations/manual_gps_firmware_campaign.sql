@@ -0,0 +1,84 @@
+-- Manual migration: OTA firmware campaigns (0x8108 terminal upgrade package,
+-- results from 0x0108 and the 0xF6 pass-through).
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_firmware_campaign.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsFirmwareCampaignStatus') THEN
+    CREATE TYPE "GpsFirmwareCampaignStatus" AS ENUM
+      ('DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsFirmwareTargetStatus') THEN
+    CREATE TYPE "GpsFirmwareTargetStatus" AS ENUM
+      ('PENDING', 'QUEUED', 'TRANSFERRING', 'AWAITING_RESULT', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+  END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsFirmwareImage" (
+  "id"                TEXT PRIMARY KEY,
+  "name"              TEXT NOT NULL,
+  "version"           TEXT NOT NULL,
+  "upgradeType"       INTEGER NOT NULL DEFAULT 0,
+  "manufacturerId"    TEXT NOT NULL,
+  "terminalModel"     TEXT,
+  "sizeBytes"         INTEGER NOT NULL,
+  "sha256"            TEXT NOT NULL,
+  "data"              BYTEA NOT NULL,
+  "uploadedByAdminId" TEXT,
+  "createdAt"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "GpsFirmwareImage_createdAt_idx" ON "GpsFirmwareImage" ("createdAt");
+
+CREATE TABLE IF NOT EXISTS "GpsFirmwareCampaign" (
+  "id"                     TEXT PRIMARY KEY,
+  "name"                   TEXT NOT NULL,
+  "imageId"                TEXT NOT NULL REFERENCES "GpsFirmwareImage"("id") ON DELETE RESTRICT,
+  "status"                 "GpsFirmwareCampaignStatus" NOT NULL DEFAULT 'DRAFT',
+  "targetModels"           TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "targetFirmwareVersions" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "batchSize"              INTEGER NOT NULL,
+  "currentBatch"           INTEGER NOT NULL DEFAULT 0,
+  "totalBatches"           INTEGER NOT NULL,
+  "failureThresholdPct"    INTEGER NOT NULL,
+  "minResultsBeforePause"  INTEGER NOT NULL DEFAULT 3,
+  "failureRateSince"       TIMESTAMP(3),
+  "pauseReason"            TEXT,
+  "createdByAdminId"       TEXT,
+  "startedAt"              TIMESTAMP(3),
+  "finishedAt"             TIMESTAMP(3),
+  "createdAt"              TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"              TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsFirmwareCampaign_status_idx" ON "GpsFirmwareCampaign" ("status");
+
+CREATE TABLE IF NOT EXISTS "GpsFirmwareCampaignTarget" (
+  "id"                  TEXT PRIMARY KEY,
+  "campaignId"          TEXT NOT NULL REFERENCES "GpsFirmwareCampaign"("id") ON DELETE CASCADE,
+  "terminalId"          TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "batchNumber"         INTEGER NOT NULL,
+  "status"              "GpsFirmwareTargetStatus" NOT NULL DEFAULT 'PENDING',
+  "fromVersion"         TEXT,
+  "packetsTotal"        INTEGER,
+  "packetsAcked"        INTEGER NOT NULL DEFAULT 0,
+  "attempts"            INTEGER NOT NULL DEFAULT 0,
+  "resultCode"          INTEGER,
+  "resultSource"        TEXT,
+  "errorText"           TEXT,
+  "queuedAt"            TIMESTAMP(3),
+  "transferStartedAt"   TIMESTAMP(3),
+  "transferCompletedAt" TIMESTAMP(3),
+  "finishedAt"          TIMESTAMP(3),
+  "updatedAt"           TIMESTAMP(3) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GpsFirmwareCampaignTarget_campaignId_terminalId_key"
+  ON "GpsFirmwareCampaignTarget" ("campaignId", "terminalId");
+CREATE INDEX IF NOT EXISTS "GpsFirmwareCampaignTarget_campaignId_batchNumber_status_idx"
+  ON "GpsFirmwareCampaignTarget" ("campaignId", "batchNumber", "status");
+CREATE INDEX IF NOT EXISTS "GpsFirmwareCampaignTarget_terminalId_status_idx"
+  ON "GpsFirmwareCampaignTarget" ("terminalId", "status");
+CREATE INDEX IF NOT EXISTS "GpsFirmwareCampaignTarget_status_idx"
+  ON "GpsFirmwareCampaignTarget" ("status");
@@ -0,0 +1,28 @@
+-- Manual migration: per-terminal raw frame journal.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_frame_journal.sql
+
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "journalEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsFrameDirection') THEN
+    CREATE TYPE "GpsFrameDirection" AS ENUM ('IN', 'OUT');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsFrameJournalEntry" (
+  "id"          BIGSERIAL PRIMARY KEY,
+  "terminalId"  TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "sessionId"   TEXT NOT NULL,
+  "direction"   "GpsFrameDirection" NOT NULL,
+  "capturedAt"  TIMESTAMP(3) NOT NULL,
+  "msgId"       INTEGER,
+  "msgSerial"   INTEGER,
+  "frame"       BYTEA NOT NULL,
+  "decodeError" TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "GpsFrameJournalEntry_terminalId_id_idx"
+  ON "GpsFrameJournalEntry" ("terminalId", "id" DESC);
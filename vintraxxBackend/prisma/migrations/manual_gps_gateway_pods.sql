@@ -0,0 +1,40 @@
+-- Manual migration: multi-instance gateway (pod leases, shared rate limits).
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_gateway_pods.sql
+
+-- 1. Per-terminal session lease
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "gatewayPodId"     TEXT,
+  ADD COLUMN IF NOT EXISTS "gatewaySessionId" TEXT,
+  ADD COLUMN IF NOT EXISTS "gatewayLeaseAt"   TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "GpsTerminal_gatewayPodId_idx"
+  ON "GpsTerminal" ("gatewayPodId");
+
+-- 2. Sending pod on commands
+ALTER TABLE "GpsCommand"
+  ADD COLUMN IF NOT EXISTS "gatewayPodId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "GpsCommand_gatewayPodId_status_idx"
+  ON "GpsCommand" ("gatewayPodId", "status");
+
+-- 3. Live gateway pods
+CREATE TABLE IF NOT EXISTS "GpsGatewayPod" (
+  "id"         TEXT PRIMARY KEY,
+  "hostname"   TEXT NOT NULL,
+  "pid"        INTEGER NOT NULL,
+  "startedAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lastSeenAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsGatewayPod_lastSeenAt_idx"
+  ON "GpsGatewayPod" ("lastSeenAt");
+
+-- 4. Shared rate-limit buckets
+CREATE TABLE IF NOT EXISTS "GpsRateLimitBucket" (
+  "key"         TEXT PRIMARY KEY,
+  "count"       INTEGER NOT NULL,
+  "windowStart" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsRateLimitBucket_windowStart_idx"
+  ON "GpsRateLimitBucket" ("windowStart");
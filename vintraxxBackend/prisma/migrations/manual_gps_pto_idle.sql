@@ -0,0 +1,9 @@
+-- Manual migration: PTO idle state (0xFA alarm 0x0404) on GpsObdSnapshot
+-- and GpsScanReport.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_pto_idle.sql
+
+ALTER TABLE "GpsObdSnapshot"
+  ADD COLUMN IF NOT EXISTS "ptoIdleActive" BOOLEAN;
+
+ALTER TABLE "GpsScanReport"
+  ADD COLUMN IF NOT EXISTS "ptoIdleActive" BOOLEAN;
@@ -0,0 +1,8 @@
+-- Manual migration: JT/T 808 RSA body encryption (per-terminal key + policy).
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_rsa_encryption.sql
+
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "rsaPublicKeyE"     INTEGER,
+  ADD COLUMN IF NOT EXISTS "rsaPublicKeyN"     BYTEA,
+  ADD COLUMN IF NOT EXISTS "rsaKeyReceivedAt"  TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "requireEncryption" BOOLEAN NOT NULL DEFAULT false;
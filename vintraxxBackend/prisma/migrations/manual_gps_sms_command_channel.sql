@@ -0,0 +1,46 @@
+-- Manual migration: SMS fallback channel for GPS commands.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_sms_command_channel.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsCommandChannel') THEN
+    CREATE TYPE "GpsCommandChannel" AS ENUM ('DATA', 'SMS');
+  END IF;
+END;
+$$;
+
+ALTER TABLE "GpsCommand"
+  ADD COLUMN IF NOT EXISTS "channel" "GpsCommandChannel" NOT NULL DEFAULT 'DATA',
+  ADD COLUMN IF NOT EXISTS "smsProviderMessageId" TEXT;
+
+CREATE TABLE IF NOT EXISTS "GpsSmsMessage" (
+  "id"                TEXT PRIMARY KEY,
+  "terminalId"        TEXT REFERENCES "GpsTerminal"("id") ON DELETE SET NULL,
+  "commandId"         TEXT,
+  "direction"         "GpsFrameDirection" NOT NULL,
+  "phoneNumber"       TEXT NOT NULL,
+  "body"              TEXT NOT NULL,
+  "provider"          TEXT NOT NULL,
+  "providerMessageId" TEXT,
+  "errorText"         TEXT,
+  "createdAt"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "GpsSmsMessage_terminalId_createdAt_idx"
+  ON "GpsSmsMessage" ("terminalId", "createdAt");
+CREATE INDEX IF NOT EXISTS "GpsSmsMessage_commandId_idx"
+  ON "GpsSmsMessage" ("commandId");
+
+-- Mask the device password in anything sent before bodies were stored
+-- redacted. Idempotent: already-masked rows no longer match.
+UPDATE "GpsSmsMessage"
+  SET "body" = regexp_replace("body", '^<HL&P:[^&>]*', '<HL&P:***')
+  WHERE "direction" = 'OUT' AND "body" ~ '^<HL&P:' AND "body" !~ '^<HL&P:\*\*\*[&>]';
+
+UPDATE "GpsCommand"
+  SET "rawBytesSent" = convert_to(
+    regexp_replace(convert_from("rawBytesSent", 'UTF8'), '^<HL&P:[^&>]*', '<HL&P:***'),
+    'UTF8')
+  WHERE "channel" = 'SMS' AND "rawBytesSent" IS NOT NULL
+    AND position('\x3c484c26503a'::bytea IN "rawBytesSent") = 1
+    AND position('\x3c484c26503a2a2a2a'::bytea IN "rawBytesSent") <> 1;
@@ -0,0 +1,14 @@
+-- Manual migration: 0x0003 terminal logout status.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_terminal_logout.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'LOGGED_OUT'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsTerminalStatus')
+  ) THEN
+    ALTER TYPE "GpsTerminalStatus" ADD VALUE 'LOGGED_OUT' BEFORE 'REVOKED';
+  END IF;
+END;
+$$;
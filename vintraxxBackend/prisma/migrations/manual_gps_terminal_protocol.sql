@@ -0,0 +1,13 @@
+-- Manual migration: per-terminal device protocol (JT/T 808 or GT06).
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_terminal_protocol.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsProtocol') THEN
+    CREATE TYPE "GpsProtocol" AS ENUM ('JT808', 'GT06');
+  END IF;
+END;
+$$;
+
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "protocol" "GpsProtocol" NOT NULL DEFAULT 'JT808';
@@ -0,0 +1,58 @@
+-- Manual migration: 0xEE tire-pressure time series and TPMS alarm types.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_tire_pressure.sql
+
+-- 1. New GpsAlarmType values (idempotent via DO block)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'TIRE_LOW_PRESSURE'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'TIRE_LOW_PRESSURE';
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'TIRE_RAPID_LEAK'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'TIRE_RAPID_LEAK';
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'TIRE_OVER_TEMPERATURE'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'TIRE_OVER_TEMPERATURE';
+  END IF;
+END;
+$$;
+
+-- 2. GpsTireReading
+CREATE TABLE IF NOT EXISTS "GpsTireReading" (
+  "id"               TEXT PRIMARY KEY,
+  "terminalId"       TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "reportedAt"       TIMESTAMP(3) NOT NULL,
+  "serverReceivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "position"         INTEGER NOT NULL,
+  "axle"             INTEGER,
+  "pressureKpa"      INTEGER NOT NULL,
+  "temperatureC"     INTEGER NOT NULL,
+  "statusBits"       INTEGER,
+  "sensorVoltageV"   DECIMAL(4, 2)
+);
+
+CREATE INDEX IF NOT EXISTS "GpsTireReading_terminalId_reportedAt_idx"
+  ON "GpsTireReading" ("terminalId", "reportedAt" DESC);
+CREATE INDEX IF NOT EXISTS "GpsTireReading_terminalId_position_reportedAt_idx"
+  ON "GpsTireReading" ("terminalId", "position", "reportedAt" DESC);
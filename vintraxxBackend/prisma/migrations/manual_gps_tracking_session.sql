@@ -0,0 +1,34 @@
+-- Manual migration: temporary tracking sessions (0x8202).
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_tracking_session.sql
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'GpsTrackingSessionStatus') THEN
+    CREATE TYPE "GpsTrackingSessionStatus" AS ENUM
+      ('PENDING', 'ACTIVE', 'STOPPED', 'EXPIRED', 'FAILED');
+  END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS "GpsTrackingSession" (
+  "id"             TEXT PRIMARY KEY,
+  "terminalId"     TEXT NOT NULL REFERENCES "GpsTerminal"("id") ON DELETE CASCADE,
+  "adminId"        TEXT,
+  "userId"         TEXT,
+  "status"         "GpsTrackingSessionStatus" NOT NULL DEFAULT 'PENDING',
+  "intervalSec"    INTEGER NOT NULL,
+  "durationSec"    INTEGER NOT NULL,
+  "startCommandId" TEXT,
+  "stopCommandId"  TEXT,
+  "startedAt"      TIMESTAMP(3),
+  "expiresAt"      TIMESTAMP(3),
+  "endedAt"        TIMESTAMP(3),
+  "endReason"      TEXT,
+  "createdAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"      TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "GpsTrackingSession_terminalId_createdAt_idx"
+  ON "GpsTrackingSession" ("terminalId", "createdAt");
+CREATE INDEX IF NOT EXISTS "GpsTrackingSession_status_idx"
+  ON "GpsTrackingSession" ("status");
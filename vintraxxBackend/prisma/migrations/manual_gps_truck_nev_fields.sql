@@ -0,0 +1,38 @@
+-- Manual migration: typed 0xEC truck / 0xED new-energy / 0xEE load-cell
+-- fields on GpsObdSnapshot and GpsScanReport.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_truck_nev_fields.sql
+
+-- 1. GpsObdSnapshot columns
+ALTER TABLE "GpsObdSnapshot"
+  ADD COLUMN IF NOT EXISTS "engineHours"          DECIMAL(10, 1),
+  ADD COLUMN IF NOT EXISTS "defLevelPct"          DECIMAL(4, 1),
+  ADD COLUMN IF NOT EXISTS "engineOilTempC"       INTEGER,
+  ADD COLUMN IF NOT EXISTS "engineOilPressureKpa" INTEGER,
+  ADD COLUMN IF NOT EXISTS "parkingBrakeOn"       BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "axleWeightKg"         INTEGER,
+  ADD COLUMN IF NOT EXISTS "evRangeKm"            DECIMAL(7, 1),
+  ADD COLUMN IF NOT EXISTS "evChargingState"      TEXT,
+  ADD COLUMN IF NOT EXISTS "evChargerPlugged"     BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "evMotorRpm"           INTEGER,
+  ADD COLUMN IF NOT EXISTS "evMotorTorqueNm"      INTEGER,
+  ADD COLUMN IF NOT EXISTS "evMotorTempC"         INTEGER,
+  ADD COLUMN IF NOT EXISTS "evSohPct"             INTEGER;
+
+-- 2. GpsScanReport columns
+ALTER TABLE "GpsScanReport"
+  ADD COLUMN IF NOT EXISTS "engineHours"          DECIMAL(10, 1),
+  ADD COLUMN IF NOT EXISTS "fuelRateLph"          DECIMAL(5, 2),
+  ADD COLUMN IF NOT EXISTS "fuelConsumedL"        DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS "defLevelPct"          DECIMAL(4, 1),
+  ADD COLUMN IF NOT EXISTS "engineOilTempC"       INTEGER,
+  ADD COLUMN IF NOT EXISTS "engineOilPressureKpa" INTEGER,
+  ADD COLUMN IF NOT EXISTS "parkingBrakeOn"       BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "axleWeightKg"         INTEGER,
+  ADD COLUMN IF NOT EXISTS "evSocPct"             INTEGER,
+  ADD COLUMN IF NOT EXISTS "evRangeKm"            DECIMAL(7, 1),
+  ADD COLUMN IF NOT EXISTS "evChargingState"      TEXT,
+  ADD COLUMN IF NOT EXISTS "evChargerPlugged"     BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "evMotorRpm"           INTEGER,
+  ADD COLUMN IF NOT EXISTS "evMotorTorqueNm"      INTEGER,
+  ADD COLUMN IF NOT EXISTS "evMotorTempC"         INTEGER,
+  ADD COLUMN IF NOT EXISTS "evSohPct"             INTEGER;
@@ -0,0 +1,38 @@
+-- Manual migration: decoded 0xEA vehicle status (0x0011) and accelerometer
+-- (0x0010) on GpsObdSnapshot, plus the two parked-vehicle alarm types.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_gps_vehicle_status.sql
+
+-- 1. New GpsAlarmType values (idempotent via DO block)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'DOOR_OPEN_PARKED'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'DOOR_OPEN_PARKED';
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'MOTION_PARKED'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'GpsAlarmType')
+  ) THEN
+    ALTER TYPE "GpsAlarmType" ADD VALUE 'MOTION_PARKED';
+  END IF;
+END;
+$$;
+
+-- 2. GpsObdSnapshot columns
+ALTER TABLE "GpsObdSnapshot"
+  ADD COLUMN IF NOT EXISTS "doorStatusBits"        INTEGER,
+  ADD COLUMN IF NOT EXISTS "lockStatusBits"        INTEGER,
+  ADD COLUMN IF NOT EXISTS "lightStatusBits"       INTEGER,
+  ADD COLUMN IF NOT EXISTS "gearPosition"          TEXT,
+  ADD COLUMN IF NOT EXISTS "accelMaxMg"            INTEGER,
+  ADD COLUMN IF NOT EXISTS "accelSampleIntervalMs" INTEGER,
+  ADD COLUMN IF NOT EXISTS "accelSamplesMg"        INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[];
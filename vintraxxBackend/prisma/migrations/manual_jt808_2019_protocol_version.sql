@@ -0,0 +1,7 @@
+-- Manual migration: JT/T 808-2019 header support.
+-- Records which protocol revision each terminal negotiated.
+-- Applied with: npx prisma db execute --file prisma/migrations/manual_jt808_2019_protocol_version.sql
+
+ALTER TABLE "GpsTerminal"
+  ADD COLUMN IF NOT EXISTS "jt808Revision"        INTEGER,
+  ADD COLUMN IF NOT EXISTS "jt808ProtocolVersion" INTEGER;
@@ -0,0 +1,55 @@
+/**
+ * Check that RSA-encrypted downlinks always fit the 1023-byte body length:
+ * a body over 819 bytes must go out as subpackages, each encrypted on its
+ * own, and decrypt back to the original. Exits non-zero on the first
+ * failure.
+ *
+ *   Usage:  npx ts-node scripts/check-rsa-downlink.ts
+ *
+ * Needs no database or .env — it only runs the codec with a throwaway key.
+ */
+
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import { decodeFrame, downlinkFrameCount, encodeFrame } from '../src/gateway/codec';
+import { EncryptType } from '../src/gateway/codec/constants';
+import { splitFrames } from '../src/gateway/codec/framing';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+
+function roundTrip(bodyLength: number, msgSerial: number): void {
+  const body = crypto.randomBytes(bodyLength);
+  const wire = encodeFrame({
+    msgId: 0x8103,
+    phoneBcd: '013800138000',
+    msgSerial,
+    body,
+    rsaPublicKey: publicKey,
+  });
+  const { frames, rest } = splitFrames(wire);
+  assert.equal(rest.length, 0, 'trailing bytes after the last frame');
+  assert.equal(frames.length, downlinkFrameCount(body, publicKey), 'frame count');
+
+  const decoded = frames.map((f) => decodeFrame(f, { rsaPrivateKey: privateKey }));
+  decoded.forEach(({ header }, i) => {
+    assert.ok(header.bodyLength <= 1023, `frame ${i + 1} body is ${header.bodyLength} bytes`);
+    assert.equal(header.encryptType, EncryptType.RSA);
+    assert.equal(header.msgSerial, (msgSerial + i) & 0xffff, `frame ${i + 1} serial`);
+    if (frames.length > 1) {
+      assert.equal(header.subpackageTotal, frames.length);
+      assert.equal(header.subpackageIndex, i + 1);
+    } else {
+      assert.equal(header.isSubpackage, false);
+    }
+  });
+  assert.ok(
+    Buffer.concat(decoded.map((d) => d.body)).equals(body),
+    'decrypted body differs from the original',
+  );
+  console.log(`ok  ${bodyLength} bytes → ${frames.length} frame(s)`);
+}
+
+roundTrip(100, 1);
+roundTrip(819, 2);
+roundTrip(820, 3);
+roundTrip(2000, 0xfffe); // serials wrap
@@ -0,0 +1,41 @@
+/**
+ * Load an OpenCellID-style CSV into GpsCellTower for LBS fallback
+ * positioning (see src/services/gps-cell-locator.service.ts).
+ *
+ *   Usage:  npx ts-node scripts/import-cell-towers.ts <file.csv>
+ *           npx ts-node scripts/import-cell-towers.ts <file.csv> --mcc 310,311,312
+ *
+ * Rows are upserted on (mcc, mnc, lac, cellId), so re-running with a newer
+ * export refreshes positions in place. `--mcc` limits the import to the
+ * listed country codes — recommended for the ~40M-row world file.
+ */
+
+import 'dotenv/config';
+import { importCellTowersCsv } from '../src/services/gps-cell-locator.service';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = args.find((a) => !a.startsWith('--'));
+  if (!filePath) {
+    console.error('Usage: npx ts-node scripts/import-cell-towers.ts <file.csv> [--mcc 310,311]');
+    process.exit(1);
+  }
+  const mccIdx = args.indexOf('--mcc');
+  const mcc =
+    mccIdx >= 0 && args[mccIdx + 1]
+      ? args[mccIdx + 1].split(',').map((v) => parseInt(v, 10)).filter(Number.isFinite)
+      : undefined;
+
+  const started = Date.now();
+  const { imported, skipped } = await importCellTowersCsv(filePath, { mcc });
+  console.log(
+    `Imported ${imported} towers (${skipped} rows skipped) in ${Math.round((Date.now() - started) / 1000)}s`,
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
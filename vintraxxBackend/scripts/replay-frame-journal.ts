@@ -0,0 +1,85 @@
+/**
+ * Push a frame-journal capture (downloaded from the admin panel's Journal
+ * tab) back through decodeFrame → dispatchFrame against a scratch terminal,
+ * and report how each inbound frame fares compared with capture time.
+ * See src/gateway/replay/ for the capture format and what is skipped.
+ *
+ *   Usage:  npx ts-node scripts/replay-frame-journal.ts <capture.jsonl>
+ *             --terminal <id | deviceIdentifier> [--quiet]
+ *
+ * Runs in-process with the gateway code, so it needs the same .env
+ * (DATABASE_URL, and GPS_RSA_PRIVATE_KEY_PATH for encrypted captures).
+ * Everything the handlers write lands on the scratch terminal, which must
+ * not be the captured terminal and must not be connected.
+ */
+
+import fs from 'fs';
+import prisma from '../src/config/db';
+import { loadPlatformRsaKey } from '../src/gateway/services/rsa-keys';
+import { parseCapture } from '../src/gateway/replay/capture';
+import { replayCapture, type ReplayFrameResult } from '../src/gateway/replay/replayCapture';
+
+function flag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function describe(r: ReplayFrameResult): string {
+  const id = `${r.msgId ?? '0x????'} #${r.serial ?? '-'}`;
+  return `${String(r.index).padStart(5)}  ${r.at}  ${id.padEnd(14)} ${r.outcome}` +
+    (r.error ? `  ${r.error}` : '');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+  const terminalArg = flag(args, '--terminal');
+  if (!file || !terminalArg) {
+    console.error(
+      'Usage: npx ts-node scripts/replay-frame-journal.ts <capture.jsonl> --terminal <id | deviceIdentifier> [--quiet]',
+    );
+    process.exit(1);
+  }
+  const quiet = args.includes('--quiet');
+
+  const capture = parseCapture(fs.readFileSync(file, 'utf8'));
+  const terminal = await prisma.gpsTerminal.findFirst({
+    where: { OR: [{ id: terminalArg }, { deviceIdentifier: terminalArg }] },
+    select: { id: true, deviceIdentifier: true, status: true },
+  });
+  if (!terminal) throw new Error(`Scratch terminal ${terminalArg} not found`);
+  if (terminal.id === capture.header.terminalId) {
+    throw new Error('Refusing to replay a capture onto the terminal it was recorded from');
+  }
+  if (terminal.status === 'ONLINE') {
+    throw new Error(`Scratch terminal ${terminal.deviceIdentifier} is connected; pick an offline one`);
+  }
+
+  loadPlatformRsaKey();
+
+  console.log(
+    `Replaying ${capture.frames.length} frames from ${capture.header.deviceIdentifier} ` +
+      `(exported ${capture.header.exportedAt}) onto ${terminal.deviceIdentifier}`,
+  );
+  const summary = await replayCapture(capture, {
+    terminal,
+    onFrame: (r) => {
+      if (!quiet || (r.outcome !== 'ok' && r.outcome !== 'skipped')) console.log(describe(r));
+    },
+  });
+
+  const c = summary.counts;
+  console.log(
+    `Done: ${summary.inbound} inbound (${c.ok} ok, ${c.fixed} fixed, ${c.regressed} regressed, ` +
+      `${c.still_failing} still failing, ${c.dispatch_error} handler errors, ${c.skipped} skipped); ` +
+      `${summary.outboundInCapture} captured downlinks, ${summary.repliesWritten} replies written`,
+  );
+  if (c.regressed > 0 || c.dispatch_error > 0) process.exitCode = 2;
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
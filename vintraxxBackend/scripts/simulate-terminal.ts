@@ -0,0 +1,75 @@
+/**
+ * Play a scripted D450 against a running gateway — register, auth,
+ * heartbeat, then the scenario's reports — and answer platform commands
+ * like the real device. See src/gateway/simulator/ for the scenario format
+ * and scripts/scenarios/ for examples.
+ *
+ *   Usage:  npx ts-node scripts/simulate-terminal.ts <scenario.json>
+ *             [--host 127.0.0.1] [--port 7808]
+ *             [--phone 13800138000] [--auth-code CODE]
+ *             [--speed 10 | --fast] [--linger]
+ *
+ * The phone (header device identifier) must be provisioned as a GpsTerminal
+ * unless the gateway runs with GPS_AUTO_PROVISION=true. `--speed` replays
+ * simulated time N× faster; `--fast` doesn't wait at all. `--linger` keeps
+ * the session open after the last step so commands can be sent from the
+ * admin panel. Needs no database or .env — only network access to the
+ * gateway port.
+ */
+
+import fs from 'fs';
+import { parseScenario } from '../src/gateway/simulator/scenario';
+import { SimulatedTerminal } from '../src/gateway/simulator/SimulatedTerminal';
+
+function flag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+const stamp = () => new Date().toISOString().slice(11, 23);
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+  if (!file) {
+    console.error(
+      'Usage: npx ts-node scripts/simulate-terminal.ts <scenario.json> [--host H] [--port P] ' +
+        '[--phone N] [--auth-code C] [--speed N | --fast] [--linger]',
+    );
+    process.exit(1);
+  }
+
+  const scenario = parseScenario(JSON.parse(fs.readFileSync(file, 'utf8')));
+  const phone = flag(args, '--phone');
+  const authCode = flag(args, '--auth-code');
+  if (phone) scenario.terminal.phone = phone;
+  if (authCode) scenario.terminal.authCode = authCode;
+
+  const speed = args.includes('--fast') ? Infinity : Number(flag(args, '--speed') ?? 1);
+  const terminal = new SimulatedTerminal(scenario, {
+    host: flag(args, '--host') ?? '127.0.0.1',
+    port: Number(flag(args, '--port') ?? process.env.GPS_TCP_PORT ?? 7808),
+    speed,
+    linger: args.includes('--linger'),
+    log: {
+      info: (m) => console.log(`${stamp()} ${m}`),
+      warn: (m) => console.warn(`${stamp()} WARN ${m}`),
+    },
+  });
+  process.once('SIGINT', () => terminal.close());
+
+  console.log(`Scenario "${scenario.name}" as ${scenario.terminal.phone}`);
+  const summary = await terminal.run();
+  console.log(
+    `Done: ${summary.framesSent} frames sent, ${summary.acksOk} acked OK, ` +
+      `${summary.acksFailed} refused, ${summary.ackTimeouts} unacked, ` +
+      `${summary.commandsAnswered} command replies` +
+      (summary.authCode ? ` (auth code ${summary.authCode})` : ''),
+  );
+  if (summary.acksFailed > 0 || summary.ackTimeouts > 0) process.exitCode = 2;
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
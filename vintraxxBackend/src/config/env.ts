@@ -63,14 +63,24 @@ const envSchema = z.object({
   GPS_TLS_PORT: z.string().default('0').transform(Number),
   GPS_TLS_CERT_PATH: optionalNonEmptyString,
   GPS_TLS_KEY_PATH: optionalNonEmptyString,
+  // UDP listener for trackers that report over datagrams. 0 = disabled.
+  GPS_UDP_PORT: z.string().default('0').transform(Number),
+  // PEM private key (1024-bit RSA) for JT/T 808 body encryption. Unset =
+  // RSA disabled: encrypted frames are dropped and no 0x8A00 is sent.
+  GPS_RSA_PRIVATE_KEY_PATH: optionalNonEmptyString,
   GPS_AUTO_PROVISION: z
     .enum(['true', 'false'])
     .default('false')
     .transform(v => v === 'true'),
+  // Identity of this gateway process for session leases and command
+  // routing. Must be unique per running pod; defaults to hostname-pid.
+  GPS_POD_ID: optionalNonEmptyString,
   GPS_HEARTBEAT_TIMEOUT_SEC: z.string().default('180').transform(Number),
   GPS_LOCATION_RETENTION_MONTHS: z.string().default('12').transform(Number),
   GPS_MAX_LOCATIONS_PER_QUERY: z.string().default('5000').transform(Number),
   GPS_WS_PATH: z.string().default('/ws'),
+  // Raw frame journal: newest frames kept per journaled terminal.
+  GPS_JOURNAL_MAX_FRAMES: z.string().default('20000').transform(Number),
 
   // Mobile push notifications (FCM / APNs via Firebase). Off by default so
   // dev environments don't try to authenticate with Google without creds.
@@ -103,6 +113,24 @@ const envSchema = z.object({
     .default('<HL&P:HOLLOO&7K:1>'),
   GPS_4G_ALWAYS_ONLINE_DISABLE_COMMAND: optionalNonEmptyString,
 
+  // SMS fallback command channel (D450 SMS templates to the terminal SIM).
+  // `stub` only logs — the default, so dev never texts a real SIM. `twilio`
+  // needs the three TWILIO_* values; inbound replies are signature-checked
+  // against SMS_INBOUND_WEBHOOK_URL, the public URL configured on the number.
+  SMS_PROVIDER: z.enum(['stub', 'twilio']).default('stub'),
+  TWILIO_ACCOUNT_SID: optionalNonEmptyString,
+  TWILIO_AUTH_TOKEN: optionalNonEmptyString,
+  TWILIO_FROM_NUMBER: optionalNonEmptyString,
+  SMS_INBOUND_WEBHOOK_URL: optionalNonEmptyString,
+  // Country code (digits, no `+`) for terminal phone numbers stored without
+  // one. Unset, only numbers already in international form can be texted.
+  GPS_SMS_DEFAULT_COUNTRY_CODE: z.preprocess(
+    value => (typeof value === 'string' && value.trim() === '' ? undefined : value),
+    z.string().regex(/^[1-9]\d{0,2}$/).optional(),
+  ),
+  // Password field of every D450 SMS command (`<HL&P:<password>&…>`).
+  GPS_SMS_PASSWORD: z.string().default('HOLLOO'),
+
   CORS_ALLOWED_ORIGINS: z
     .string()
     .default(
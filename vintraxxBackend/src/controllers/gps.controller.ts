@@ -13,17 +13,42 @@ import * as alarmService from '../services/gps-alarm.service';
 import * as dtcService from '../services/gps-dtc.service';
 import * as tripService from '../services/gps-trip-query.service';
 import * as commandService from '../services/gps-command.service';
+import * as commandBatchService from '../services/gps-command-batch.service';
+import * as commandScheduleService from '../services/gps-command-schedule.service';
+import * as approvalService from '../services/gps-command-approval.service';
+import * as smsCommandService from '../services/gps-sms-command.service';
+import { smsProvider } from '../services/sms.service';
+import { PARAM_DEFS } from '../gateway/codec/param-registry';
 import * as pushService from '../services/push.service';
 import * as gpsAdminService from '../services/gps-admin.service';
 import * as bulkDeleteService from '../services/gps-bulk-delete.service';
 import { promoteDtcEventToScan } from '../services/gps-dtc-promote.service';
 import { explainDtcCodes } from '../services/dtc-explain.service';
 import * as scanReportService from '../services/gps-scan-report.service';
+import * as evService from '../services/gps-ev.service';
+import * as tpmsService from '../services/gps-tpms.service';
+import * as driverService from '../services/gps-driver.service';
+import * as firmwareService from '../services/gps-firmware.service';
+import * as configProfileService from '../services/gps-config-profile.service';
+import * as trackingService from '../services/gps-tracking.service';
 import * as alwaysOnlineService from '../services/gps-4g-always-online.service';
+import * as collisionService from '../services/gps-collision.service';
 import { generateGpsScanReportPdf } from '../services/gps-scan-report-pdf.service';
-import { sendGpsScanReportEmail } from '../services/email.service';
+import {
+  collisionVehicleLabel,
+  generateCollisionReportPdf,
+} from '../services/gps-collision-pdf.service';
+import { sendCollisionReportEmail, sendGpsScanReportEmail } from '../services/email.service';
 import { AppError } from '../middleware/errorHandler';
+import { auditContext } from '../middleware/adminAuditLog';
 import prisma from '../config/db';
+import type {
+  GpsCommandApprovalStatus,
+  GpsCommandBatchStatus,
+  GpsConfigSyncStatus,
+  GpsFirmwareCampaignStatus,
+  GpsFirmwareTargetStatus,
+} from '@prisma/client';
 
 // ── Admin: terminals ────────────────────────────────────────────────────────
 
@@ -36,6 +61,7 @@ export async function adminListTerminals(req: Request, res: Response, next: Next
       | 'offline'
       | 'unpaired'
       | 'never_connected'
+      | 'logged_out'
       | 'revoked'
       | undefined;
     const search = typeof req.query.search === 'string' ? req.query.search : undefined;
@@ -191,6 +217,94 @@ export async function adminListTerminalObd(
   }
 }
 
+export async function adminListTerminalCan(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await gpsAdminService.adminGetCanFrames({
+      terminalId: req.params.id as string,
+      // Number() parses both `0x…` and decimal, matching the schema regex.
+      canId: typeof req.query.canId === 'string' ? Number(req.query.canId) : undefined,
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 500),
+      since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
+      until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetTerminalEv(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await evService.getEvTelemetry({
+      terminalId: req.params.id as string,
+      limit: Number(req.query.limit ?? 500),
+      since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
+      until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminListTerminalJournal(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await gpsAdminService.adminGetJournal({
+      terminalId: req.params.id as string,
+      direction: req.query.direction as 'IN' | 'OUT' | undefined,
+      msgId: typeof req.query.msgId === 'string' ? Number(req.query.msgId) : undefined,
+      errorsOnly: req.query.errorsOnly === 'true',
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 100),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminDownloadJournalCapture(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { filename, body } = await gpsAdminService.adminExportJournalCapture({
+      terminalId: req.params.id as string,
+      since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
+      until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
+    });
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.send(body);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetTerminalTires(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await tpmsService.getTireTelemetry({
+      terminalId: req.params.id as string,
+      limit: Number(req.query.limit ?? 1000),
+      since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
+      until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
 // ── Admin: overview stats ───────────────────────────────────────────────────
 
 export async function adminOverviewStats(_req: Request, res: Response, next: NextFunction) {
@@ -263,6 +377,40 @@ export async function myLocationHistory(req: Request, res: Response, next: NextF
   }
 }
 
+export async function myTerminalEv(req: Request, res: Response, next: NextFunction) {
+  try {
+    const terminalId = req.params.id as string;
+    await assertTerminalOwnership(req.user!.userId, terminalId);
+
+    const result = await evService.getEvTelemetry({
+      terminalId,
+      limit: Number(req.query.limit ?? 500),
+      since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
+      until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myTerminalTires(req: Request, res: Response, next: NextFunction) {
+  try {
+    const terminalId = req.params.id as string;
+    await assertTerminalOwnership(req.user!.userId, terminalId);
+
+    const result = await tpmsService.getTireTelemetry({
+      terminalId,
+      limit: Number(req.query.limit ?? 1000),
+      since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
+      until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
 // ── Phase 2: alarms + DTC events ─────────────────────────────────────────────
 
 /**
@@ -277,6 +425,7 @@ function parseAlarmListQuery(req: Request) {
     limit: Number(req.query.limit ?? 50),
     terminalId:
       typeof req.query.terminalId === 'string' ? req.query.terminalId : undefined,
+    driverId: typeof req.query.driverId === 'string' ? req.query.driverId : undefined,
     severity: req.query.severity as
       | 'INFO'
       | 'WARNING'
@@ -562,6 +711,7 @@ function parseTripListQuery(req: Request) {
     limit: Number(req.query.limit ?? 50),
     terminalId:
       typeof req.query.terminalId === 'string' ? req.query.terminalId : undefined,
+    driverId: typeof req.query.driverId === 'string' ? req.query.driverId : undefined,
     status: req.query.status as 'OPEN' | 'CLOSED' | undefined,
     since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
     until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
@@ -593,6 +743,7 @@ export async function myTerminalTrips(req: Request, res: Response, next: NextFun
       terminalId,
       page: Number(req.query.page ?? 1),
       limit: Number(req.query.limit ?? 50),
+      driverId: typeof req.query.driverId === 'string' ? req.query.driverId : undefined,
       status: req.query.status as 'OPEN' | 'CLOSED' | undefined,
       since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
       until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
@@ -679,18 +830,23 @@ export async function adminEnqueueCommand(req: Request, res: Response, next: Nex
   try {
     const terminalId = req.params.id as string;
     const adminId = req.admin!.adminId;
-    const body = req.body as
+    const body = req.body as (
       | { kind: 'locate' }
       | { kind: 'read-params' }
       | { kind: 'clear-dtcs' }
       | { kind: 'set-params'; setParams: Array<{ id: number; value: number | string }> }
-      | { kind: 'terminal-control'; controlType: number };
-
-    // Destructive control commands (0x8105) are super-admin only. We gate
-    // here rather than at the route layer because all other command kinds
-    // share this same URL and the discriminator only resolves after Zod.
-    if (body.kind === 'terminal-control' && !req.admin?.superAdmin) {
-      throw new AppError('Super-admin privilege required for terminal-control', 403);
+      | { kind: 'terminal-control'; controlType: number }
+    ) & { channel?: 'DATA' | 'SMS'; scheduledFor?: string };
+
+    // Destructive kinds (terminal-control, clear-dtcs) are super-admin only.
+    // We gate here rather than at the route layer because all other command
+    // kinds share this same URL and the discriminator only resolves after
+    // Zod. Other admins go through /gps/command-approvals.
+    if (commandService.DESTRUCTIVE_KINDS.has(body.kind) && !req.admin?.superAdmin) {
+      throw new AppError(
+        `Super-admin privilege required for ${body.kind} — file an approval request instead`,
+        403,
+      );
     }
 
     const cmd = await commandService.enqueueCommand({
@@ -700,6 +856,8 @@ export async function adminEnqueueCommand(req: Request, res: Response, next: Nex
       setParams: body.kind === 'set-params' ? body.setParams : undefined,
       controlType:
         body.kind === 'terminal-control' ? body.controlType : undefined,
+      channel: body.channel,
+      scheduledFor: body.scheduledFor ? new Date(body.scheduledFor) : undefined,
     });
     res.status(201).json({ success: true, command: cmd });
   } catch (err) {
@@ -707,6 +865,51 @@ export async function adminEnqueueCommand(req: Request, res: Response, next: Nex
   }
 }
 
+/** The terminal parameter registry — drives the admin parameter editor. */
+export async function adminListParameterDefs(_req: Request, res: Response) {
+  res.json({ success: true, parameters: PARAM_DEFS });
+}
+
+/** Send a still-QUEUED command by SMS instead — the terminal never came online. */
+export async function adminSendCommandViaSms(req: Request, res: Response, next: NextFunction) {
+  try {
+    const existing = await prisma.gpsCommand.findUnique({
+      where: { id: req.params.id as string },
+      select: { payload: true },
+    });
+    if (!existing) throw new AppError('Command not found', 404);
+    // Same rule as enqueueing: destructive kinds are super-admin only.
+    const kind = (existing.payload as { kind?: commandService.CommandKind } | null)?.kind;
+    if (kind && commandService.DESTRUCTIVE_KINDS.has(kind) && !req.admin?.superAdmin) {
+      throw new AppError(`Super-admin privilege required for ${kind}`, 403);
+    }
+    const cmd = await smsCommandService.resendQueuedViaSms(req.params.id as string);
+    res.json({ success: true, command: cmd });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Public webhook for replies texted from terminal SIMs. The provider
+ * authenticates the request (Twilio signature); anything it rejects gets a
+ * 403 and is not recorded.
+ */
+export async function smsInbound(req: Request, res: Response, next: NextFunction) {
+  try {
+    const provider = smsProvider();
+    const sms = provider.parseInbound({
+      headers: req.headers,
+      body: req.body as Record<string, unknown>,
+    });
+    if (!sms) throw new AppError('Invalid SMS webhook request', 403);
+    await smsCommandService.handleInboundSms(sms, provider.name);
+    res.type(provider.inboundAck.contentType).send(provider.inboundAck.body);
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function adminListCommands(req: Request, res: Response, next: NextFunction) {
   try {
     const result = await commandService.listCommands({
@@ -717,6 +920,7 @@ export async function adminListCommands(req: Request, res: Response, next: NextF
       status: req.query.status as
         | 'QUEUED' | 'SENT' | 'ACKED' | 'FAILED' | 'EXPIRED' | undefined,
       adminId: typeof req.query.adminId === 'string' ? req.query.adminId : undefined,
+      batchId: typeof req.query.batchId === 'string' ? req.query.batchId : undefined,
       since: typeof req.query.since === 'string' ? new Date(req.query.since) : undefined,
       until: typeof req.query.until === 'string' ? new Date(req.query.until) : undefined,
     });
@@ -758,6 +962,855 @@ export async function adminListDailyStats(req: Request, res: Response, next: Nex
   }
 }
 
+// ── Drivers (0x0702 / 0x0252 attribution) ───────────────────────────────────
+
+/**
+ * Body → service input. `certificateExpiresAt` arrives as `YYYY-MM-DD`
+ * (schema-validated) and is stored as a UTC date.
+ */
+function parseDriverBody(body: Record<string, unknown>) {
+  const { certificateExpiresAt, ...rest } = body as Record<string, string | null | undefined>;
+  return {
+    ...rest,
+    ...(certificateExpiresAt !== undefined
+      ? {
+          certificateExpiresAt:
+            certificateExpiresAt === null ? null : new Date(`${certificateExpiresAt}T00:00:00Z`),
+        }
+      : {}),
+  };
+}
+
+function parseDriverScoresQuery(req: Request) {
+  return {
+    driverId: typeof req.query.driverId === 'string' ? req.query.driverId : undefined,
+    since:
+      typeof req.query.since === 'string'
+        ? new Date(req.query.since)
+        : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    until: typeof req.query.until === 'string' ? new Date(req.query.until) : new Date(),
+  };
+}
+
+export async function myDrivers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await driverService.listDrivers({
+      userId: req.user!.userId,
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 50),
+      search: typeof req.query.search === 'string' ? req.query.search : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myDriverDetail(req: Request, res: Response, next: NextFunction) {
+  try {
+    const driver = await driverService.getDriver({
+      driverId: req.params.id as string,
+      userId: req.user!.userId,
+    });
+    res.json({ success: true, driver });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myCreateDriver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const input = parseDriverBody(req.body) as Parameters<typeof driverService.createDriver>[1];
+    const driver = await driverService.createDriver(req.user!.userId, input);
+    res.status(201).json({ success: true, driver });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myUpdateDriver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const driver = await driverService.updateDriver({
+      driverId: req.params.id as string,
+      userId: req.user!.userId,
+      input: parseDriverBody(req.body),
+    });
+    res.json({ success: true, driver });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myDeleteDriver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await driverService.deleteDriver({
+      driverId: req.params.id as string,
+      userId: req.user!.userId,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myDriverScores(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await tripService.listDriverScores({
+      ...parseDriverScoresQuery(req),
+      userId: req.user!.userId,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminListDrivers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await driverService.listDrivers({
+      admin: true,
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 50),
+      search: typeof req.query.search === 'string' ? req.query.search : undefined,
+      ownerUserId:
+        typeof req.query.ownerUserId === 'string' ? req.query.ownerUserId : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetDriver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const driver = await driverService.getDriver({
+      driverId: req.params.id as string,
+      admin: true,
+    });
+    res.json({ success: true, driver });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminDriverScores(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await tripService.listDriverScores({
+      ...parseDriverScoresQuery(req),
+      admin: true,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── OTA firmware campaigns (admin) ──────────────────────────────────────────
+
+export async function adminListFirmwareImages(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await firmwareService.listImages();
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCreateFirmwareImage(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as {
+      name: string;
+      version: string;
+      upgradeType?: number;
+      manufacturerId: string;
+      terminalModel?: string | null;
+      dataBase64: string;
+    };
+    const image = await firmwareService.createImage({
+      name: body.name.trim(),
+      version: body.version.trim(),
+      upgradeType: body.upgradeType ?? 0,
+      manufacturerId: body.manufacturerId.trim(),
+      terminalModel: body.terminalModel?.trim() || null,
+      dataBase64: body.dataBase64,
+      adminId: req.admin!.adminId,
+    });
+    res.status(201).json({ success: true, image });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminDeleteFirmwareImage(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await firmwareService.deleteImage(req.params.id as string);
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminListFirmwareCampaigns(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await firmwareService.listCampaigns({
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 50),
+      status:
+        typeof req.query.status === 'string'
+          ? (req.query.status as GpsFirmwareCampaignStatus)
+          : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCreateFirmwareCampaign(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as {
+      name: string;
+      imageId: string;
+      targetModels?: string[];
+      targetFirmwareVersions?: string[];
+      batchSize?: number;
+      failureThresholdPct?: number;
+      minResultsBeforePause?: number;
+    };
+    const campaign = await firmwareService.createCampaign({
+      name: body.name.trim(),
+      imageId: body.imageId,
+      targetModels: (body.targetModels ?? []).map((m) => m.trim()),
+      targetFirmwareVersions: (body.targetFirmwareVersions ?? []).map((v) => v.trim()),
+      batchSize: Number(body.batchSize ?? 10),
+      failureThresholdPct: Number(body.failureThresholdPct ?? 20),
+      minResultsBeforePause: Number(body.minResultsBeforePause ?? 3),
+      adminId: req.admin!.adminId,
+    });
+    res.status(201).json({ success: true, campaign });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetFirmwareCampaign(req: Request, res: Response, next: NextFunction) {
+  try {
+    const campaign = await firmwareService.getCampaign(req.params.id as string);
+    res.json({ success: true, campaign });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminListFirmwareTargets(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await firmwareService.listCampaignTargets({
+      campaignId: req.params.id as string,
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 100),
+      status:
+        typeof req.query.status === 'string'
+          ? (req.query.status as GpsFirmwareTargetStatus)
+          : undefined,
+      batchNumber:
+        req.query.batchNumber !== undefined ? Number(req.query.batchNumber) : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminStartFirmwareCampaign(req: Request, res: Response, next: NextFunction) {
+  try {
+    const campaign = await firmwareService.startCampaign(req.params.id as string);
+    res.json({ success: true, campaign });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminPauseFirmwareCampaign(req: Request, res: Response, next: NextFunction) {
+  try {
+    const campaign = await firmwareService.pauseCampaign(req.params.id as string);
+    res.json({ success: true, campaign });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCancelFirmwareCampaign(req: Request, res: Response, next: NextFunction) {
+  try {
+    const campaign = await firmwareService.cancelCampaign(req.params.id as string);
+    res.json({ success: true, campaign });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Configuration profiles (admin) ──────────────────────────────────────────
+
+export async function adminListConfigProfiles(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await configProfileService.listProfiles();
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCreateConfigProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as {
+      name: string;
+      description?: string | null;
+      params: Array<{ id: number; value: number | string }>;
+      fleetGroups?: string[];
+    };
+    const profile = await configProfileService.createProfile({
+      name: body.name,
+      description: body.description || null,
+      params: body.params,
+      fleetGroups: body.fleetGroups ?? [],
+      adminId: req.admin!.adminId,
+    });
+    res.status(201).json({ success: true, profile });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetConfigProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const profile = await configProfileService.getProfile(req.params.id as string);
+    res.json({ success: true, profile });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminUpdateConfigProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const profile = await configProfileService.updateProfile(req.params.id as string, req.body);
+    res.json({ success: true, profile });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminDeleteConfigProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await configProfileService.deleteProfile(req.params.id as string);
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminListConfigProfileTerminals(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await configProfileService.listProfileTerminals({
+      profileId: req.params.id as string,
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 100),
+      status:
+        typeof req.query.status === 'string'
+          ? (req.query.status as GpsConfigSyncStatus)
+          : undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Push the profile now to its connected, out-of-sync terminals. */
+export async function adminPushConfigProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await configProfileService.pushProfileToOnlineTerminals(req.params.id as string);
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Admin: bulk command batches ─────────────────────────────────────────────
+
+/** A validated batch / schedule `command` body. */
+type FleetCommandBody =
+  | { kind: 'locate' }
+  | { kind: 'read-params' }
+  | { kind: 'clear-dtcs' }
+  | { kind: 'set-params'; setParams: Array<{ id: number; value: number | string }> }
+  | { kind: 'terminal-control'; controlType: number };
+
+function toBatchCommand(command: FleetCommandBody): commandBatchService.BatchCommand {
+  return {
+    kind: command.kind,
+    setParams: command.kind === 'set-params' ? command.setParams : undefined,
+    controlType: command.kind === 'terminal-control' ? command.controlType : undefined,
+  };
+}
+
+export async function adminCreateCommandBatch(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as {
+      name?: string | null;
+      filter: commandBatchService.BatchFilter;
+      command: FleetCommandBody;
+      concurrency?: number;
+    };
+    // Same gate as the single-terminal endpoint — more so across a fleet.
+    if (commandService.DESTRUCTIVE_KINDS.has(body.command.kind) && !req.admin?.superAdmin) {
+      throw new AppError(`Super-admin privilege required for ${body.command.kind}`, 403);
+    }
+    const batch = await commandBatchService.createBatch({
+      name: body.name?.trim() || null,
+      filter: body.filter,
+      command: toBatchCommand(body.command),
+      concurrency: Number(body.concurrency ?? 20),
+      adminId: req.admin!.adminId,
+    });
+    res.status(201).json({ success: true, batch });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminListCommandBatches(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await commandBatchService.listBatches({
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 50),
+      status: req.query.status as GpsCommandBatchStatus | undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetCommandBatch(req: Request, res: Response, next: NextFunction) {
+  try {
+    const batch = await commandBatchService.getBatch(req.params.id as string);
+    res.json({ success: true, batch });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCancelCommandBatch(req: Request, res: Response, next: NextFunction) {
+  try {
+    const batch = await commandBatchService.cancelBatch(req.params.id as string);
+    res.json({ success: true, batch });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Command schedules ───────────────────────────────────────────────────────
+
+export async function adminListCommandSchedules(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await commandScheduleService.listSchedules({
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 50),
+      enabled: req.query.enabled === undefined ? undefined : req.query.enabled === 'true',
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCreateCommandSchedule(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as {
+      name: string;
+      action: 'COMMAND' | 'FULL_SCAN';
+      command?: FleetCommandBody;
+      filter: commandBatchService.BatchFilter;
+      concurrency?: number;
+      intervalMinutes?: number | null;
+      nextRunAt: string;
+      enabled?: boolean;
+    };
+    if (body.command && commandService.DESTRUCTIVE_KINDS.has(body.command.kind) && !req.admin?.superAdmin) {
+      throw new AppError(`Super-admin privilege required for ${body.command.kind}`, 403);
+    }
+    const schedule = await commandScheduleService.createSchedule({
+      name: body.name,
+      action: body.action,
+      command: body.command ? toBatchCommand(body.command) : null,
+      filter: body.filter,
+      concurrency: Number(body.concurrency ?? 20),
+      intervalMinutes: body.intervalMinutes ?? null,
+      nextRunAt: new Date(body.nextRunAt),
+      enabled: body.enabled ?? true,
+      adminId: req.admin!.adminId,
+    });
+    res.status(201).json({ success: true, schedule });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetCommandSchedule(req: Request, res: Response, next: NextFunction) {
+  try {
+    const schedule = await commandScheduleService.getSchedule(req.params.id as string);
+    res.json({ success: true, schedule });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminUpdateCommandSchedule(req: Request, res: Response, next: NextFunction) {
+  try {
+    const id = req.params.id as string;
+    const body = req.body as {
+      name?: string;
+      command?: FleetCommandBody;
+      filter?: commandBatchService.BatchFilter;
+      concurrency?: number;
+      intervalMinutes?: number | null;
+      nextRunAt?: string;
+      enabled?: boolean;
+    };
+    // Editing a destructive schedule (even just its targeting) is as
+    // privileged as creating one.
+    if (!req.admin?.superAdmin) {
+      const existing = await commandScheduleService.getSchedule(id);
+      for (const kind of [
+        (existing.command as { kind?: commandService.CommandKind } | null)?.kind,
+        body.command?.kind,
+      ]) {
+        if (kind && commandService.DESTRUCTIVE_KINDS.has(kind)) {
+          throw new AppError(`Super-admin privilege required for ${kind}`, 403);
+        }
+      }
+    }
+    const schedule = await commandScheduleService.updateSchedule(id, {
+      name: body.name,
+      command: body.command ? toBatchCommand(body.command) : undefined,
+      filter: body.filter,
+      concurrency: body.concurrency,
+      intervalMinutes: body.intervalMinutes,
+      nextRunAt: body.nextRunAt ? new Date(body.nextRunAt) : undefined,
+      enabled: body.enabled,
+    });
+    res.json({ success: true, schedule });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminDeleteCommandSchedule(req: Request, res: Response, next: NextFunction) {
+  try {
+    await commandScheduleService.deleteSchedule(req.params.id as string);
+    res.json({ success: true });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Command approvals ───────────────────────────────────────────────────────
+
+function approvalActor(req: Request): approvalService.ApprovalActor {
+  return {
+    ...auditContext(req),
+    adminId: req.admin!.adminId,
+    superAdmin: req.admin?.superAdmin === true,
+  };
+}
+
+export async function adminListCommandApprovals(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await approvalService.listApprovals({
+      page: Number(req.query.page ?? 1),
+      limit: Number(req.query.limit ?? 50),
+      status: req.query.status as GpsCommandApprovalStatus | undefined,
+      terminalId: req.query.terminalId as string | undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCreateCommandApproval(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as
+      | {
+          action: 'COMMAND';
+          terminalId: string;
+          command: { kind: 'clear-dtcs' } | { kind: 'terminal-control'; controlType: number };
+          justification: string;
+        }
+      | { action: 'DELETE_TERMINAL'; terminalId: string; justification: string };
+    const approval = await approvalService.requestApproval(
+      {
+        action: body.action,
+        terminalId: body.terminalId,
+        command:
+          body.action === 'COMMAND'
+            ? {
+                kind: body.command.kind,
+                controlType:
+                  body.command.kind === 'terminal-control' ? body.command.controlType : undefined,
+              }
+            : undefined,
+        justification: body.justification,
+      },
+      approvalActor(req),
+    );
+    res.status(201).json({ success: true, approval });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetCommandApproval(req: Request, res: Response, next: NextFunction) {
+  try {
+    const approval = await approvalService.getApproval(req.params.id as string);
+    res.json({ success: true, approval });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminApproveCommandApproval(req: Request, res: Response, next: NextFunction) {
+  try {
+    const note = (req.body as { note?: string } | undefined)?.note?.trim() || null;
+    const approval = await approvalService.approveRequest(
+      req.params.id as string,
+      note,
+      approvalActor(req),
+    );
+    res.json({ success: true, approval });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminRejectCommandApproval(req: Request, res: Response, next: NextFunction) {
+  try {
+    const approval = await approvalService.rejectRequest(
+      req.params.id as string,
+      (req.body as { note: string }).note.trim(),
+      approvalActor(req),
+    );
+    res.json({ success: true, approval });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCancelCommandApproval(req: Request, res: Response, next: NextFunction) {
+  try {
+    const approval = await approvalService.cancelRequest(req.params.id as string, approvalActor(req));
+    res.json({ success: true, approval });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Temporary tracking sessions (0x8202) ────────────────────────────────────
+
+export async function myTrackingStatus(req: Request, res: Response, next: NextFunction) {
+  try {
+    const id = req.params.id as string;
+    await assertTerminalOwnership(req.user!.userId, id);
+    const result = await trackingService.getTrackingStatus(id);
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myStartTracking(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user!.userId;
+    const id = req.params.id as string;
+    await assertTerminalOwnership(userId, id);
+    const body = req.body as { intervalSec: number; durationSec: number };
+    const session = await trackingService.startTracking({
+      terminalId: id,
+      userId,
+      intervalSec: body.intervalSec,
+      durationSec: body.durationSec,
+    });
+    res.status(202).json({ success: true, session });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myStopTracking(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user!.userId;
+    const id = req.params.id as string;
+    await assertTerminalOwnership(userId, id);
+    const session = await trackingService.stopTracking({ terminalId: id, userId });
+    res.json({ success: true, session });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetTracking(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await trackingService.getTrackingStatus(req.params.id as string);
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminStartTracking(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body as { intervalSec: number; durationSec: number };
+    const session = await trackingService.startTracking({
+      terminalId: req.params.id as string,
+      adminId: req.admin!.adminId,
+      intervalSec: body.intervalSec,
+      durationSec: body.durationSec,
+    });
+    res.status(202).json({ success: true, session });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminStopTracking(req: Request, res: Response, next: NextFunction) {
+  try {
+    const session = await trackingService.stopTracking({
+      terminalId: req.params.id as string,
+      adminId: req.admin!.adminId,
+    });
+    res.json({ success: true, session });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Collision reports (0x0900/0xF7) ─────────────────────────────────────────
+
+/** JSON view of a collision report. The terminal row stays server-side. */
+function collisionReportBody(report: collisionService.CollisionReport) {
+  const { terminal: _terminal, ...rest } = report;
+  return rest;
+}
+
+async function sendCollisionPdf(
+  res: Response,
+  report: collisionService.CollisionReport,
+  ownerEmail: string | null,
+) {
+  const pdfPath = await generateCollisionReportPdf({ report, ownerEmail });
+  res.download(pdfPath, `VinTraxx-Collision-${report.terminal.vehicleVin ?? report.alarm.id}.pdf`);
+}
+
+export async function myCollisionReport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const report = await collisionService.getCollisionReport({
+      alarmId: req.params.id as string,
+      userId: req.user!.userId,
+    });
+    res.json({ success: true, ...collisionReportBody(report) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function myCollisionReportPdf(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user!.userId;
+    const report = await collisionService.getCollisionReport({
+      alarmId: req.params.id as string,
+      userId,
+    });
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    await sendCollisionPdf(res, report, user?.email ?? null);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Email the crash-report PDF. Dealers use `email` to forward it to the
+ * customer or an insurer; without it the report goes to the caller.
+ */
+export async function myEmailCollisionReport(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const userId = req.user!.userId;
+    const body = (req.body ?? {}) as { email?: string; note?: string };
+
+    const report = await collisionService.getCollisionReport({
+      alarmId: req.params.id as string,
+      userId,
+    });
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    const toEmail = body.email ?? user?.email;
+    if (!toEmail) throw new AppError('No email address on file', 400);
+
+    const pdfPath = await generateCollisionReportPdf({
+      report,
+      ownerEmail: user?.email ?? null,
+    });
+    await sendCollisionReportEmail({
+      toEmail,
+      pdfPath,
+      vehicleLabel: collisionVehicleLabel(report.terminal),
+      vin: report.terminal.vehicleVin,
+      occurredAt: report.trace.occurredAt,
+      peakG: Number(report.trace.peakG),
+      impactDirection: report.trace.impactDirection,
+      note: body.note ?? null,
+    });
+
+    res.json({ success: true, sentTo: toEmail, pdfPath });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminGetCollisionReport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const report = await collisionService.getCollisionReport({
+      alarmId: req.params.id as string,
+      admin: true,
+    });
+    res.json({ success: true, ...collisionReportBody(report) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function adminCollisionReportPdf(req: Request, res: Response, next: NextFunction) {
+  try {
+    const report = await collisionService.getCollisionReport({
+      alarmId: req.params.id as string,
+      admin: true,
+    });
+    const owner = report.alarm.ownerUserId
+      ? await prisma.user.findUnique({
+          where: { id: report.alarm.ownerUserId },
+          select: { email: true },
+        })
+      : null;
+    await sendCollisionPdf(res, report, owner?.email ?? null);
+  } catch (err) {
+    next(err);
+  }
+}
+
 // ── Phase 5 (mobile): push tokens, owner actions, AI bridge ─────────────────
 
 /**
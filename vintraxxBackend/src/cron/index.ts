@@ -23,7 +23,13 @@ import {
   expireStaleQueuedCommands,
   timeoutVendorResponseCommands,
 } from '../services/gps-command.service';
+import { timeoutSmsCommands } from '../services/gps-sms-command.service';
 import { sweepStaleScanReports } from '../services/gps-scan-report.service';
+import { sweepFirmwareCampaigns } from '../services/gps-firmware.service';
+import { sweepTrackingSessions } from '../services/gps-tracking.service';
+import { sweepConfigProfiles } from '../services/gps-config-profile.service';
+import { sweepCommandBatches } from '../services/gps-command-batch.service';
+import { runDueSchedules } from '../services/gps-command-schedule.service';
 import { runOtpCleanup, runPasswordResetCleanup } from './authCleanup';
 
 // 60 s — slightly longer than the gateway's per-command 30 s timeout to act
@@ -31,8 +37,9 @@ import { runOtpCleanup, runPasswordResetCleanup } from './authCleanup';
 // resolving.
 const COMMAND_SENT_TIMEOUT_MS = 60_000;
 
-// 1 hour — QUEUED commands whose terminal never came online get expired.
-// Operators can re-issue manually if they still want the action.
+// 1 hour — QUEUED commands whose terminal never came online get expired,
+// counted from when they became due (a schedule or retry backoff). Retries
+// of `requeueOnReconnect` kinds carry their own longer `expiresAt`.
 const COMMAND_QUEUE_MAX_MS = 60 * 60_000;
 
 // 5 minutes — JT808_ACKED 4G always-online commands waiting for 0x6006 vendor
@@ -40,6 +47,10 @@ const COMMAND_QUEUE_MAX_MS = 60 * 60_000;
 // useful feedback quickly.
 const VENDOR_RESPONSE_TIMEOUT_MS = 5 * 60_000;
 
+// 30 minutes — SMS-channel commands waiting for the device's reply text.
+// Carrier delivery to a sleeping SIM can take a while in both directions.
+const SMS_REPLY_TIMEOUT_MS = 30 * 60_000;
+
 const tasks: cron.ScheduledTask[] = [];
 
 export function startCronJobs(): void {
@@ -110,6 +121,17 @@ export function startCronJobs(): void {
     }),
   );
 
+  // Every 5 minutes: fail SMS-channel commands the device never answered.
+  tasks.push(
+    cron.schedule('*/5 * * * *', () => {
+      void timeoutSmsCommands(SMS_REPLY_TIMEOUT_MS).catch((err) => {
+        logger.error('timeoutSmsCommands crashed', {
+          err: (err as Error).message,
+        });
+      });
+    }),
+  );
+
   // Every 15 minutes: expire QUEUED commands whose terminal never came
   // online within COMMAND_QUEUE_MAX_MS.
   tasks.push(
@@ -135,6 +157,68 @@ export function startCronJobs(): void {
     }),
   );
 
+  // Every minute on the :15 — settle firmware campaign targets that will
+  // never report on their own (result timeout, orphaned transfer, terminal
+  // offline all batch) and advance RUNNING campaigns to their next batch.
+  tasks.push(
+    cron.schedule('15 * * * * *', () => {
+      void sweepFirmwareCampaigns().catch((err) => {
+        logger.error('sweepFirmwareCampaigns crashed', {
+          err: (err as Error).message,
+        });
+      });
+    }),
+  );
+
+  // Every minute on the :05 — expire temporary tracking sessions (0x8202) that
+  // ran their duration and settle ones whose start command failed.
+  tasks.push(
+    cron.schedule('5 * * * * *', () => {
+      void sweepTrackingSessions().catch((err) => {
+        logger.error('sweepTrackingSessions crashed', {
+          err: (err as Error).message,
+        });
+      });
+    }),
+  );
+
+  // Every 15 minutes: push configuration profiles to online terminals left
+  // PENDING by an edit, and queue the periodic 0x8104 read-back that flags
+  // drifted ones.
+  tasks.push(
+    cron.schedule('*/15 * * * *', () => {
+      void sweepConfigProfiles().catch((err) => {
+        logger.error('sweepConfigProfiles crashed', {
+          err: (err as Error).message,
+        });
+      });
+    }),
+  );
+
+  // Every minute on the :50 — release more terminals of RUNNING bulk command
+  // batches and complete settled ones, in case a settle hook was lost.
+  tasks.push(
+    cron.schedule('50 * * * * *', () => {
+      void sweepCommandBatches().catch((err) => {
+        logger.error('sweepCommandBatches crashed', {
+          err: (err as Error).message,
+        });
+      });
+    }),
+  );
+
+  // Every minute on the :20 — run due command schedules (one-off and
+  // recurring; see gps-command-schedule.service).
+  tasks.push(
+    cron.schedule('20 * * * * *', () => {
+      void runDueSchedules().catch((err) => {
+        logger.error('runDueSchedules crashed', {
+          err: (err as Error).message,
+        });
+      });
+    }),
+  );
+
   // MEDIUM #23: 03:30 UTC every day — prune expired OTPs and used /
   // long-expired PasswordResetToken rows. Both functions return the deleted
   // count and log non-zero deletions; misconfiguration / DB issues never
@@ -26,18 +26,22 @@ export const MsgId = {
   DRIVER_INFO: 0x0702,
   TERMINAL_UPGRADE_RESULT: 0x0108,
   DRIVING_LICENSE_DATA: 0x0252,
+  TERMINAL_RSA_PUBLIC_KEY: 0x0a00,
 
   // ── Down-link (platform → terminal) ─────────────────────────────────────────
   PLATFORM_GENERAL_RESPONSE: 0x8001,
+  RETRANSMIT_SUBPACKAGE_REQUEST: 0x8003,
   REGISTER_RESPONSE: 0x8100,
   SET_TERMINAL_PARAMS: 0x8103,
   QUERY_TERMINAL_PARAMS: 0x8104,
   TERMINAL_CONTROL: 0x8105,
+  TERMINAL_UPGRADE_PACKAGE: 0x8108,
   LOCATION_QUERY: 0x8201,
   TEMPORARY_TRACKING_CONTROL: 0x8202,
   TEXT_DISTRIBUTION: 0x8300,
   TEXT_REPLY: 0x6006,
   DATA_PASSTHROUGH_DOWN: 0x8900,
+  PLATFORM_RSA_PUBLIC_KEY: 0x8a00,
 } as const;
 
 export type MsgIdValue = (typeof MsgId)[keyof typeof MsgId];
@@ -59,7 +63,18 @@ export const BODY_PROPS = {
   ENCRYPT_SHIFT: 10, // bits 10..12 (3-bit encryption type, 0 = no encryption)
   ENCRYPT_MASK: 0x1c00,
   SUBPACKAGE_BIT: 0x2000, // bit 13 — message split across multiple frames
-  RESERVED_MASK: 0xc000, // bits 14..15
+  VERSION_BIT: 0x4000, // bit 14 — JT/T 808-2019 header (version byte + 10-byte BCD)
+  RESERVED_MASK: 0x8000, // bit 15
+} as const;
+
+/**
+ * Values of the 3-bit encryption field (bodyProperties bits 10..12). Only
+ * RSA is supported; SM4 (bit 12, D450 0x0200 / 0x0704 only) is rejected.
+ */
+export const EncryptType = {
+  NONE: 0,
+  RSA: 0b001,
+  SM4: 0b100,
 } as const;
 
 /**
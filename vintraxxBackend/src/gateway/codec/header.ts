@@ -1,7 +1,7 @@
 /**
  * JT/T 808 message header decoder/encoder.
  *
- * Header layout (12 bytes for plain messages, 16 bytes when isSubpackage = 1):
+ * 2013 layout (12 bytes for plain messages, 16 bytes when isSubpackage = 1):
  *
  *   offset  size  field
  *   0       2     msgId            (uint16, big-endian)
@@ -10,18 +10,33 @@
  *  10       2     msgSerial        (uint16, big-endian)
  * [12       4     subpackage info  (count: u16, index: u16) — only when bit 13 of bodyProperties = 1]
  *
+ * 2019 layout (17 bytes plain, 21 subpackaged) — selected by bit 14:
+ *
+ *   offset  size  field
+ *   0       2     msgId
+ *   2       2     bodyProperties
+ *   4       1     protocolVersion  (uint8, 1 for the first 2019 revision)
+ *   5       10    phoneNumber/IMEI (BCD, 20 digits)
+ *  15       2     msgSerial
+ * [17       4     subpackage info]
+ *
  * bodyProperties layout (bit 0 = LSB):
  *   bits  0..9   body length (max 1023)
  *   bits 10..12  encryption type
  *   bit  13      subpackage flag
- *   bits 14..15  reserved (must be 0)
+ *   bit  14      version flag (2019 only; 0 on 2013 terminals)
+ *   bit  15      reserved (must be 0)
  */
 
 import { BODY_PROPS } from './constants';
 import type { MessageHeader } from './types';
 
 const HEADER_BASE_LEN = 12;
-const HEADER_SUBPACKAGE_LEN = 16;
+const HEADER_2019_BASE_LEN = 17;
+/** Extra bytes appended to either layout when the subpackage bit is set. */
+const SUBPACKAGE_INFO_LEN = 4;
+const PHONE_BCD_2013_BYTES = 6;
+const PHONE_BCD_2019_BYTES = 10;
 
 /**
  * Decode a message header from the start of an unescaped frame body.
@@ -37,56 +52,66 @@ export function decodeHeader(frame: Buffer): { header: MessageHeader; headerLeng
   const msgId = frame.readUInt16BE(0);
   const bodyProps = frame.readUInt16BE(2);
 
-  // JT/T 808-2019 uses bit 14 as a version flag. When set, the header layout
-  // is 17 bytes (adds 1-byte protocolVersion + 10-byte BCD instead of 6).
-  // This codec only supports the 2013 12-byte layout. Reject early with a
-  // clear error rather than silently misaligning all subsequent fields.
-  if ((bodyProps & 0x4000) !== 0) {
-    throw new Error(
-      'JT/T 808-2019 extended header (version flag bit 14 set) is not supported by this codec',
-    );
-  }
-
   const bodyLength = bodyProps & BODY_PROPS.BODY_LENGTH_MASK;
   const encryptType = (bodyProps & BODY_PROPS.ENCRYPT_MASK) >> BODY_PROPS.ENCRYPT_SHIFT;
   const isSubpackage = (bodyProps & BODY_PROPS.SUBPACKAGE_BIT) !== 0;
+  const is2019 = (bodyProps & BODY_PROPS.VERSION_BIT) !== 0;
 
-  const phoneBcd = bcdToString(frame.subarray(4, 10));
-  const msgSerial = frame.readUInt16BE(10);
-
-  const header: MessageHeader = {
-    msgId,
-    bodyLength,
-    encryptType,
-    isSubpackage,
-    phoneBcd,
-    msgSerial,
-  };
+  let headerLength = is2019 ? HEADER_2019_BASE_LEN : HEADER_BASE_LEN;
+  if (frame.length < headerLength) {
+    throw new Error(
+      `Frame too short for ${is2019 ? '2019' : '2013'} header: ${frame.length} bytes`,
+    );
+  }
 
-  let headerLength = HEADER_BASE_LEN;
+  let header: MessageHeader;
+  if (is2019) {
+    header = {
+      msgId,
+      bodyLength,
+      encryptType,
+      isSubpackage,
+      protocolVersion: frame.readUInt8(4),
+      phoneBcd: bcdToString(frame.subarray(5, 5 + PHONE_BCD_2019_BYTES)),
+      msgSerial: frame.readUInt16BE(15),
+    };
+  } else {
+    header = {
+      msgId,
+      bodyLength,
+      encryptType,
+      isSubpackage,
+      protocolVersion: null,
+      phoneBcd: bcdToString(frame.subarray(4, 4 + PHONE_BCD_2013_BYTES)),
+      msgSerial: frame.readUInt16BE(10),
+    };
+  }
 
   if (isSubpackage) {
-    if (frame.length < HEADER_SUBPACKAGE_LEN) {
+    if (frame.length < headerLength + SUBPACKAGE_INFO_LEN) {
       throw new Error(
         `Subpackaged frame too short for extended header: ${frame.length} bytes`,
       );
     }
-    header.subpackageTotal = frame.readUInt16BE(12);
-    header.subpackageIndex = frame.readUInt16BE(14);
-    headerLength = HEADER_SUBPACKAGE_LEN;
+    header.subpackageTotal = frame.readUInt16BE(headerLength);
+    header.subpackageIndex = frame.readUInt16BE(headerLength + 2);
+    headerLength += SUBPACKAGE_INFO_LEN;
   }
 
   return { header, headerLength };
 }
 
 /**
- * Encode a header into a 12- or 16-byte buffer. `bodyLength` is the length of
- * the body that will follow, NOT including the checksum byte.
+ * Encode a header into a 12/16-byte (2013) or 17/21-byte (2019) buffer.
+ * `bodyLength` is the length of the body that will follow, NOT including the
+ * checksum byte. Passing a `protocolVersion` selects the 2019 layout; leave
+ * it null/undefined for 2013 terminals.
  */
 export function encodeHeader(args: {
   msgId: number;
   bodyLength: number;
   encryptType?: number;
+  protocolVersion?: number | null;
   phoneBcd: string;
   msgSerial: number;
   subpackage?: { total: number; index: number };
@@ -99,23 +124,31 @@ export function encodeHeader(args: {
     throw new Error(`encryptType out of range: ${encryptType}`);
   }
 
+  const is2019 = args.protocolVersion !== undefined && args.protocolVersion !== null;
   const isSubpackage = !!args.subpackage;
-  const headerLen = isSubpackage ? HEADER_SUBPACKAGE_LEN : HEADER_BASE_LEN;
-  const buf = Buffer.alloc(headerLen);
+  const baseLen = is2019 ? HEADER_2019_BASE_LEN : HEADER_BASE_LEN;
+  const buf = Buffer.alloc(baseLen + (isSubpackage ? SUBPACKAGE_INFO_LEN : 0));
 
   buf.writeUInt16BE(args.msgId & 0xffff, 0);
 
   let bodyProps = args.bodyLength & BODY_PROPS.BODY_LENGTH_MASK;
   bodyProps |= (encryptType << BODY_PROPS.ENCRYPT_SHIFT) & BODY_PROPS.ENCRYPT_MASK;
   if (isSubpackage) bodyProps |= BODY_PROPS.SUBPACKAGE_BIT;
+  if (is2019) bodyProps |= BODY_PROPS.VERSION_BIT;
   buf.writeUInt16BE(bodyProps, 2);
 
-  stringToBcd(args.phoneBcd, 6).copy(buf, 4);
-  buf.writeUInt16BE(args.msgSerial & 0xffff, 10);
+  if (is2019) {
+    buf.writeUInt8(args.protocolVersion! & 0xff, 4);
+    stringToBcd(args.phoneBcd, PHONE_BCD_2019_BYTES).copy(buf, 5);
+    buf.writeUInt16BE(args.msgSerial & 0xffff, 15);
+  } else {
+    stringToBcd(args.phoneBcd, PHONE_BCD_2013_BYTES).copy(buf, 4);
+    buf.writeUInt16BE(args.msgSerial & 0xffff, 10);
+  }
 
   if (isSubpackage) {
-    buf.writeUInt16BE(args.subpackage!.total & 0xffff, 12);
-    buf.writeUInt16BE(args.subpackage!.index & 0xffff, 14);
+    buf.writeUInt16BE(args.subpackage!.total & 0xffff, baseLen);
+    buf.writeUInt16BE(args.subpackage!.index & 0xffff, baseLen + 2);
   }
 
   return buf;
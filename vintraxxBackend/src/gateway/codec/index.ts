@@ -8,17 +8,25 @@
  *
  * `encodeFrame` takes a header description + an already-encoded body buffer
  * and produces the complete on-the-wire bytes (escaped, with delimiters).
+ *
+ * RSA-encrypted bodies (header encryption type 1) are decrypted / encrypted
+ * here when the caller passes the key, so handlers only ever see plaintext.
  */
 
+import type { KeyObject } from 'crypto';
 import { unescape, escape, xorChecksum } from './framing';
 import { decodeHeader, encodeHeader } from './header';
-import { FRAME_DELIMITER } from './constants';
+import { BODY_PROPS, EncryptType, FRAME_DELIMITER } from './constants';
+import { RSA_MODULUS_BYTES, RSA_PLAIN_CHUNK_BYTES, rsaDecryptBody, rsaEncryptBody } from './rsa';
 import type { MessageHeader } from './types';
 
 /** Result of decoding one wire frame. */
 export interface DecodedFrame {
   header: MessageHeader;
-  /** Raw unescaped body bytes (after the header, before the checksum). */
+  /**
+   * Raw unescaped body bytes (after the header, before the checksum),
+   * already decrypted when `header.encryptType` is RSA.
+   */
   body: Buffer;
   /** Original unescaped bytes of header + body (useful for raw-frame logging). */
   rawUnescaped: Buffer;
@@ -32,9 +40,52 @@ export interface DecodedFrame {
  *   • missing/wrong delimiters
  *   • body length under-flow vs header.bodyLength
  *   • XOR checksum mismatch
- *   • encryption type other than 0 (we don't support RSA)
+ *   • an RSA body without `opts.rsaPrivateKey`, or one that isn't a whole
+ *     number of RSA blocks (bad padding does not throw — see rsa.ts)
+ *   • any other encryption type (SM4 is not supported)
+ */
+export function decodeFrame(
+  frame: Buffer,
+  opts: { rsaPrivateKey?: KeyObject | null } = {},
+): DecodedFrame {
+  const headerAndBody = unwrapFrame(frame);
+  const { header, headerLength } = decodeHeader(headerAndBody);
+
+  if (header.encryptType !== EncryptType.NONE && header.encryptType !== EncryptType.RSA) {
+    throw new Error(`Unsupported encryption type: ${header.encryptType}`);
+  }
+  if (header.encryptType === EncryptType.RSA && !opts.rsaPrivateKey) {
+    throw new Error('RSA-encrypted frame but no RSA key to decrypt it (unauthenticated session or none configured)');
+  }
+
+  // The bodyLength advertised in the header is authoritative.
+  const expectedTotal = headerLength + header.bodyLength;
+  if (headerAndBody.length < expectedTotal) {
+    throw new Error(
+      `Frame body shorter than declared: have ${headerAndBody.length} bytes, header claims ${expectedTotal}`,
+    );
+  }
+
+  const wireBody = headerAndBody.subarray(headerLength, expectedTotal);
+  const body =
+    header.encryptType === EncryptType.RSA && opts.rsaPrivateKey
+      ? rsaDecryptBody(wireBody, opts.rsaPrivateKey)
+      : wireBody;
+  return { header, body, rawUnescaped: headerAndBody };
+}
+
+/**
+ * Decode only the header of one complete frame, after the same delimiter /
+ * checksum checks as `decodeFrame`. The body is not touched, so this works
+ * on encrypted frames without a key — the UDP listener uses it to find
+ * which terminal a datagram belongs to before the session exists.
  */
-export function decodeFrame(frame: Buffer): DecodedFrame {
+export function decodeFrameHeader(frame: Buffer): MessageHeader {
+  return decodeHeader(unwrapFrame(frame)).header;
+}
+
+/** Strip delimiters, unescape and verify the checksum; returns header + body. */
+function unwrapFrame(frame: Buffer): Buffer {
   if (frame.length < 4) {
     throw new Error(`Frame too short: ${frame.length} bytes`);
   }
@@ -59,48 +110,85 @@ export function decodeFrame(frame: Buffer): DecodedFrame {
     );
   }
 
-  const headerAndBody = unescaped.subarray(0, unescaped.length - 1);
-  const { header, headerLength } = decodeHeader(headerAndBody);
-
-  if (header.encryptType !== 0) {
-    throw new Error(`Unsupported encryption type: ${header.encryptType}`);
-  }
+  return unescaped.subarray(0, unescaped.length - 1);
+}
 
-  // The bodyLength advertised in the header is authoritative.
-  const expectedTotal = headerLength + header.bodyLength;
-  if (headerAndBody.length < expectedTotal) {
-    throw new Error(
-      `Frame body shorter than declared: have ${headerAndBody.length} bytes, header claims ${expectedTotal}`,
-    );
-  }
+/**
+ * Largest plaintext body that still fits one frame once encrypted: 7 RSA
+ * blocks of 117 bytes become 896 bytes, an 8th would overflow the 10-bit
+ * body length (1023).
+ */
+const MAX_ENCRYPTED_PLAIN_BYTES =
+  Math.floor(BODY_PROPS.BODY_LENGTH_MASK / RSA_MODULUS_BYTES) * RSA_PLAIN_CHUNK_BYTES;
 
-  const body = headerAndBody.subarray(headerLength, expectedTotal);
-  return { header, body, rawUnescaped: headerAndBody };
+/**
+ * How many frames `encodeFrame` emits for `body` — and so how many
+ * consecutive serials the caller must reserve. Only an encrypted body over
+ * MAX_ENCRYPTED_PLAIN_BYTES needs more than one.
+ */
+export function downlinkFrameCount(body: Buffer, rsaPublicKey?: KeyObject | null): number {
+  if (!rsaPublicKey || body.length <= MAX_ENCRYPTED_PLAIN_BYTES) return 1;
+  return Math.ceil(body.length / MAX_ENCRYPTED_PLAIN_BYTES);
 }
 
 /**
  * Encode a downstream message into the bytes we'll send over the socket.
  * `bodyEncoder` produces the body-only bytes; we wrap them with header,
- * checksum, escape, and 0x7E delimiters.
+ * checksum, escape, and 0x7E delimiters. With `rsaPublicKey` (the
+ * terminal's key) a non-empty body is RSA-encrypted and flagged as such.
+ *
+ * An encrypted body too long for one frame (see downlinkFrameCount) is cut
+ * into subpackages BEFORE encryption, each encrypted on its own, and the
+ * frames are returned back to back with serials `msgSerial`,
+ * `msgSerial + 1`, … The terminal reassembles and decrypts per frame, and
+ * replies to the message under the first subpackage's serial.
  */
 export function encodeFrame(args: {
   msgId: number;
   phoneBcd: string;
   msgSerial: number;
   body: Buffer;
-  encryptType?: number;
+  rsaPublicKey?: KeyObject | null;
+  /** 2019 header version byte; null/undefined encodes a 2013 header. */
+  protocolVersion?: number | null;
   subpackage?: { total: number; index: number };
 }): Buffer {
+  const total = downlinkFrameCount(args.body, args.rsaPublicKey);
+  if (total === 1) return encodeOneFrame(args);
+  if (args.subpackage) {
+    throw new Error(
+      `Subpackage body of ${args.body.length} bytes is too long to encrypt into one frame`,
+    );
+  }
+  const frames: Buffer[] = [];
+  for (let i = 0; i < total; i++) {
+    const off = i * MAX_ENCRYPTED_PLAIN_BYTES;
+    frames.push(
+      encodeOneFrame({
+        ...args,
+        msgSerial: (args.msgSerial + i) & 0xffff,
+        body: args.body.subarray(off, off + MAX_ENCRYPTED_PLAIN_BYTES),
+        subpackage: { total, index: i + 1 },
+      }),
+    );
+  }
+  return Buffer.concat(frames);
+}
+
+function encodeOneFrame(args: Parameters<typeof encodeFrame>[0]): Buffer {
+  const encrypt = !!args.rsaPublicKey && args.body.length > 0;
+  const body = encrypt ? rsaEncryptBody(args.body, args.rsaPublicKey!) : args.body;
   const header = encodeHeader({
     msgId: args.msgId,
-    bodyLength: args.body.length,
-    encryptType: args.encryptType ?? 0,
+    bodyLength: body.length,
+    encryptType: encrypt ? EncryptType.RSA : EncryptType.NONE,
+    protocolVersion: args.protocolVersion,
     phoneBcd: args.phoneBcd,
     msgSerial: args.msgSerial,
     subpackage: args.subpackage,
   });
 
-  const headerAndBody = Buffer.concat([header, args.body]);
+  const headerAndBody = Buffer.concat([header, body]);
   const checksum = xorChecksum(headerAndBody);
   const middle = Buffer.concat([headerAndBody, Buffer.from([checksum])]);
   const escaped = escape(middle);
@@ -0,0 +1,10 @@
+/**
+ * 0x0003 — Terminal Logout (§2.5).
+ *
+ * Empty body. The device deregisters before it is removed from the vehicle
+ * (spec §1.9.1.1) and drops its auth code. Acked by 0x8001.
+ */
+
+export function decode(_body: Buffer): Record<string, never> {
+  return {};
+}
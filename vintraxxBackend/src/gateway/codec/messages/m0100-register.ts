@@ -13,31 +13,40 @@
  *  36       1     plateColor       (uint8)         — 0 = unbound, 1..5 = color
  *  37       N     plateNumber      (remaining bytes, GBK/ASCII)
  *
- * The 2019 revision of the spec widens terminalModel to 30 bytes and
- * terminalId to 30 bytes, giving a fixed offset to plateColor of 67. We
- * support both by sniffing the body length.
+ * The 2019 revision of the spec widens manufacturerId to 11 bytes and
+ * terminalModel / terminalId to 30 bytes each, giving a fixed offset to
+ * plateColor of 75. When the frame arrived with a 2019 header the caller
+ * passes its `protocolVersion` and we use that layout outright.
+ *
+ * For 2013 headers we still sniff by body length: some HOLLOO firmwares
+ * keep the 2013 header and 5-byte manufacturer but widen model/id to 30
+ * bytes (plateColor at 67).
  */
 
 import * as iconv from 'iconv-lite';
 import type { DecodedRegister } from '../types';
 
 const HEADER_2013_LEN = 37; // through plateColor, before plateNumber
-const HEADER_2019_LEN = 67;
+const HEADER_WIDE_2013_LEN = 67;
+const HEADER_2019_LEN = 76;
 
-export function decode(body: Buffer): DecodedRegister {
-  if (body.length < HEADER_2013_LEN) {
+export function decode(body: Buffer, protocolVersion: number | null = null): DecodedRegister {
+  const strict2019 = protocolVersion !== null;
+  const minLen = strict2019 ? HEADER_2019_LEN : HEADER_2013_LEN;
+  if (body.length < minLen) {
     throw new Error(`0x0100 body too short: ${body.length} bytes`);
   }
 
   const provinceId = body.readUInt16BE(0);
   const cityId = body.readUInt16BE(2);
-  const manufacturerId = readAscii(body, 4, 5);
+  const manufacturerLen = strict2019 ? 11 : 5;
+  const manufacturerId = readAscii(body, 4, manufacturerLen);
 
-  // Heuristic: 2019-spec frames are at least 67 bytes BEFORE the plate number.
-  // Anything shorter is the 2013 layout.
-  const is2019 = body.length >= HEADER_2019_LEN;
+  // Heuristic (2013 header only): wide frames are at least 67 bytes BEFORE
+  // the plate number. Anything shorter is the plain 2013 layout.
+  const is2019 = strict2019 || body.length >= HEADER_WIDE_2013_LEN;
 
-  let cursor = 9;
+  let cursor = 4 + manufacturerLen;
   const modelLen = is2019 ? 30 : 20;
   const terminalModel = readAscii(body, cursor, modelLen);
   cursor += modelLen;
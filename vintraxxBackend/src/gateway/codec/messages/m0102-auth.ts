@@ -10,8 +10,11 @@
  *   15 bytes ASCII  IMEI
  *   20 bytes ASCII  softwareVersion
  *
- * We detect the 2019 layout by reading the leading length byte and verifying
- * that the remaining bytes match the expected fixed-size tail.
+ * When the frame carried a 2019 header the caller passes its
+ * `protocolVersion` and we parse the 2019 layout directly. Otherwise we
+ * detect it by reading the leading length byte and verifying that the
+ * remaining bytes match the expected fixed-size tail (some 2013-header
+ * firmwares already send the 2019 body).
  */
 
 import type { DecodedAuth } from '../types';
@@ -19,7 +22,7 @@ import type { DecodedAuth } from '../types';
 const IMEI_LEN = 15;
 const SW_VER_LEN = 20;
 
-export function decode(body: Buffer): DecodedAuth {
+export function decode(body: Buffer, protocolVersion: number | null = null): DecodedAuth {
   if (body.length === 0) {
     throw new Error('0x0102 body is empty');
   }
@@ -27,13 +30,21 @@ export function decode(body: Buffer): DecodedAuth {
   // 2019 layout? First byte = code length, then code, then 15+20 fixed tail.
   const firstByte = body.readUInt8(0);
   const expected2019Len = 1 + firstByte + IMEI_LEN + SW_VER_LEN;
+
+  if (protocolVersion !== null && body.length < expected2019Len) {
+    throw new Error(
+      `0x0102 2019 body too short: ${body.length} bytes, expected ${expected2019Len}`,
+    );
+  }
+
   // authCodeLength == 0 is valid (some devices send empty auth code in 2019
   // mode but still include the IMEI+software tail).
-  if (firstByte >= 0 && firstByte < 64 && body.length === expected2019Len) {
+  const sniffed2019 = firstByte < 64 && body.length === expected2019Len;
+  if (protocolVersion !== null || sniffed2019) {
     const authCode = body.toString('latin1', 1, 1 + firstByte).trim();
     const imei = body.toString('latin1', 1 + firstByte, 1 + firstByte + IMEI_LEN).trim();
     const softwareVersion = body
-      .toString('latin1', 1 + firstByte + IMEI_LEN, body.length)
+      .toString('latin1', 1 + firstByte + IMEI_LEN, expected2019Len)
       .replace(/\0+$/, '')
       .trim();
     return { authCode, imei, softwareVersion };
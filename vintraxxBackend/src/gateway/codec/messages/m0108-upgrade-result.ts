@@ -0,0 +1,32 @@
+/**
+ * 0x0108 — Terminal Upgrade Result Notification (§3.18 of JT/T 808-2019).
+ *
+ * Body layout (2 bytes):
+ *   offset  size  field
+ *   0       1     upgradeType  (uint8) — same codes as 0x8108
+ *   1       1     result       (uint8) — 0 success, 1 failure, 2 cancelled
+ *
+ * Sent once the terminal has flashed (or rejected) an image delivered by
+ * 0x8108, usually after the reboot into the new firmware.
+ */
+
+export const UpgradeResult = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  CANCELLED: 2,
+} as const;
+
+export interface DecodedUpgradeResult {
+  upgradeType: number;
+  result: number;
+}
+
+export function decode(body: Buffer): DecodedUpgradeResult {
+  if (body.length < 2) {
+    throw new Error(`0x0108 body too short: ${body.length} bytes (expected 2)`);
+  }
+  return {
+    upgradeType: body.readUInt8(0),
+    result: body.readUInt8(1),
+  };
+}
@@ -145,8 +145,130 @@ export interface DecodedAdditional {
    * (MIL state, VIN string).
    */
   obd?: DecodedObdLive;
+
+  /** 0xFB — base-station data flow (§3.42), sent when GNSS is unavailable. */
+  baseStations?: DecodedBaseStations;
+
+  /**
+   * 0xFA — alarm command IDs carried with this report (§3.41: 0x0401/0x0402
+   * emergency braking, 0x0403 overspeed, 0x0404 PTO idle, …).
+   */
+  alarmEventIds?: number[];
+}
+
+/** One neighbouring cell from the 0xFB flow. */
+export interface DecodedCell {
+  lac: number;
+  cellId: number;
+  /** CSQ-style 1..31, null when the field was blank. */
+  signal: number | null;
 }
 
+export interface DecodedBaseStations {
+  mcc: number;
+  mnc: number;
+  /** Serving cell first, in the order the device listed them. */
+  cells: DecodedCell[];
+}
+
+/**
+ * 0xEA/0x0010 accelerometer (spec §3.43/§3.47). The spec defines only
+ * "Acceleration Mean 1..N" (resultant magnitude per collection point) and
+ * "Acceleration Total Max" here — there are no X/Y/Z fields, so 3-axis
+ * acceleration can't be decoded from this flow. Per-axis samples exist only
+ * in the 0xF7 collision pass-through (m0900 `accelXMg` / `accelYMg` /
+ * `accelZMg`), which the device sends after a suspected collision.
+ *
+ * This and DecodedVehicleStatus are type aliases, not interfaces, so that
+ * DecodedObdLive stays assignable to Prisma JSON (gps-scan-report stores it).
+ */
+export type DecodedAccelerometer = {
+  /** Interval between collection points (ms). */
+  sampleIntervalMs: number;
+  /** Mean acceleration per collection point (mg), oldest first. */
+  samplesMg: number[];
+  /** Maximum over the collection window (mg). */
+  maxMg: number;
+};
+
+/** Gear position, Switch state B high nibble (spec §3.49). */
+export type GearPosition =
+  | 'P' | 'R' | 'N' | 'D'
+  | '1' | '2' | '3' | '4' | '5' | '6'
+  | 'M' | 'S' | 'B' | 'L';
+
+/**
+ * 0xEA/0x0011 vehicle status table (spec §3.49): a 10-byte support mask
+ * followed by 10 status bytes, bit-aligned with the mask. The bitmask
+ * fields keep the spec bit layout with unsupported bits cleared, and are
+ * null when the vehicle supports none of them — "all closed" and "not
+ * wired" must not look the same to the parked-vehicle alarms.
+ */
+export type DecodedVehicleStatus = {
+  /** Bit0 ACC, 1 armed, 2 foot brake, 3 accelerator, 4 handbrake, 5/6 seat belts, 7 engine. */
+  securityBits: number | null;
+  /** Bit0 LF, 1 RF, 2 LR, 3 RR door, 4 trunk, 5 hood — 1 = open. */
+  doorBits: number | null;
+  /** Bit0 LF, 1 RF, 2 LR, 3 RR — 1 = locked. */
+  lockBits: number | null;
+  /** Bit0 LF, 1 RF, 2 LR, 3 RR window, 4 sunroof, 5/6 turn signals, 7 reading light — 1 = open/on. */
+  windowBits: number | null;
+  /** Bit0 low beam, 1 high beam, 2/3 front/rear fog, 4 hazard, 5 reversing, 6 auto, 7 width — 1 = on. */
+  lightBits: number | null;
+  /** null when unsupported or the device reports "does not exist" (15). */
+  gear: GearPosition | null;
+};
+
+/**
+ * One wheel from the 0xEE tire-pressure tables.
+ *
+ *   0x3006 (spec §3.56) — `position` is the tire number 1–32 taken from the
+ *     leading mask; each wheel carries a status byte (TIRE_STATUS_BITS).
+ *   0x300E (spec §3.80) — `position` is the axle/wheel code (0x01, 0x11,
+ *     0x20…: high nibble = axle − 1) and `axle` is set. No status byte,
+ *     but a sensor battery voltage.
+ */
+export type DecodedTire = {
+  position: number;
+  axle: number | null;
+  pressureKpa: number;
+  temperatureC: number;
+  statusBits: number | null;
+  sensorVoltageV: number | null;
+};
+
+/**
+ * 0x3006 status byte. The English spec calls bits 3/2 "high/low voltage";
+ * the VJT.04.027 change log ("high pressure, low pressure and high
+ * temperature status bits are added") shows they are pressure flags.
+ */
+export const TIRE_STATUS_BITS = {
+  QUICK_LEAK: 1 << 7,
+  SLOW_LEAK: 1 << 6,
+  SENSOR_LOW_BATTERY: 1 << 5,
+  HIGH_TEMPERATURE: 1 << 4,
+  HIGH_PRESSURE: 1 << 3,
+  LOW_PRESSURE: 1 << 2,
+} as const;
+
+export type EvChargingState =
+  | 'NOT_CHARGING'
+  | 'AC_CHARGING'
+  | 'DC_CHARGING'
+  | 'CHARGE_COMPLETE'
+  | 'DRIVING_CHARGING'
+  | 'PARKED_CHARGING';
+
+export type EvBmsState =
+  | 'INIT'
+  | 'STANDBY'
+  | 'PRECHARGE'
+  | 'RUN'
+  | 'AC_CHARGE'
+  | 'DC_CHARGE'
+  | 'POWER_DOWN'
+  | 'ERROR';
+
 /**
  * OBD live telemetry. Every field is optional — different ECUs expose
  * different PIDs and the D450 reports only what it sees on the bus.
@@ -199,7 +321,7 @@ export interface DecodedObdLive {
   /** 0x0014 — cellular signal strength (CSQ). */
   csq?: number;
 
-  // ── 0xEA basic data flow: newly-decoded fields (spec §3.37) ──────────────
+  // ── 0xEA basic data flow: newly-decoded fields (spec §3.36) ──────────────
   /** 0x0005 — cumulative total runtime (seconds). */
   totalRuntimeSec?: number;
   /** 0x0006 — cumulative total shutdown duration (seconds). */
@@ -226,18 +348,157 @@ export interface DecodedObdLive {
   cumulativeMileageKm?: number;
   /** 0x0020 — ignition type bit field. */
   ignitionTypeBits?: number;
+  /** 0x0010 — accelerometer (spec §3.43/§3.47). */
+  accelerometer?: DecodedAccelerometer;
+  /** 0x0011 — door / lock / window / light / gear status (spec §3.49). */
+  vehicleStatus?: DecodedVehicleStatus;
 
-  // ── 0xEB sedan data flow: newly-decoded fields (spec §3.38) ─────────────
+  // ── 0xEB sedan data flow: newly-decoded fields (spec §3.37) ─────────────
   /** 0x6070 — long-term fuel trim banks 1 & 3 (%, precision 0.1). */
   longTermFuelTrimPct?: number;
   /** 0x60E0 — first cylinder ignition timing advance (°, precision 0.1, offset -64). */
   timingAdvanceDeg?: number;
 
-  // ── 0xEC truck data flow: readiness (spec §3.39) ────────────────────────
+  // ── 0xEC truck data flow (spec §3.38) ───────────────────────────────────
+  // PTO has no 0xEC sub-ID — its state comes from the 0xFA alarm below.
+  // Axle weight comes from the 0xEE load cell.
   /** 0x5113 — diagnostic support status (bitmask). */
   diagnosticSupportStatus?: number;
   /** 0x5114 — diagnostic readiness status (bitmask). */
   diagnosticReadinessStatus?: number;
+  /** 0x5001 — clutch switch. */
+  clutchSwitchOn?: boolean;
+  /** 0x5002 — brake switch. */
+  brakeSwitchOn?: boolean;
+  /** 0x5003 — parking brake switch. */
+  parkingBrakeOn?: boolean;
+  /**
+   * 0xFA / 0x0404 — PTO running at idle: the vehicle is idling with the
+   * engine above the `ptoIdleRpm` threshold (param 0x2023, default
+   * 1000 rpm). The terminal only reports the alarm when it trips, so a
+   * report without it leaves this unset rather than false.
+   */
+  ptoIdleActive?: boolean;
+  /** 0x5005 / 0x5110 — engine fuel rate (L/h). */
+  fuelRateLph?: number;
+  /** 0x5006 — fuel temperature (°C). */
+  fuelTempC?: number;
+  /** 0x5007 — engine oil temperature (°C). */
+  engineOilTempC?: number;
+  /** 0x5008 — engine oil pressure (kPa). */
+  engineOilPressureKpa?: number;
+  /** 0x5009 — brake pedal position (%). */
+  brakePedalPct?: number;
+  /** 0x5101 — actual engine net torque (% of reference, −125..125). */
+  netEngineTorquePct?: number;
+  /** 0x5102 — engine friction torque (%, −125..125). */
+  frictionTorquePct?: number;
+  /** 0x520F — engine reference torque (Nm). */
+  engineReferenceTorqueNm?: number;
+  /** 0x510A — engine torque mode (J1939 SPN 899). */
+  engineTorqueMode?: number;
+  /** 0x5103 — SCR upstream NOx (ppm). */
+  scrUpstreamNoxPpm?: number;
+  /** 0x5104 — SCR downstream NOx (ppm). */
+  scrDownstreamNoxPpm?: number;
+  /** 0x5105 — DEF (urea / reagent) tank level (%). */
+  defLevelPct?: number;
+  /** 0x510C — DEF tank temperature (°C). */
+  defTankTempC?: number;
+  /** 0x510D — DEF dosing rate (ml/h). */
+  defDosingMlh?: number;
+  /** 0x510E — cumulative DEF consumed (g). */
+  defConsumedG?: number;
+  /** 0x5106 — intake air mass flow (kg/h). */
+  intakeAirFlowKgh?: number;
+  /** 0x5107 — SCR inlet temperature (°C). */
+  scrInletTempC?: number;
+  /** 0x5108 — SCR outlet temperature (°C). */
+  scrOutletTempC?: number;
+  /** 0x510F — DPF exhaust temperature (°C). */
+  dpfExhaustTempC?: number;
+  /** 0x5109 — DPF differential pressure (kPa). */
+  dpfDiffPressureKpa?: number;
+  /** 0x511A — smoke light-absorption coefficient (m⁻¹). */
+  smokeAbsorptionPerM?: number;
+  /** 0x511B — smoke opacity (%). */
+  smokeOpacityPct?: number;
+  /** 0x511C — particulate concentration (mg/m³). */
+  particulateMgM3?: number;
+  /** 0x5116 — ECU software calibration ID. */
+  calibrationId?: string;
+  /** 0x5117 — calibration verification number (CVN). */
+  calibrationVerificationNumber?: string;
+  /** 0x520A — total engine hours (h). */
+  engineHours?: number;
+  /** 0x520B — coolant low-level warning. */
+  coolantLowAlarm?: boolean;
+  /** 0x520C — engine oil low warning. */
+  oilLowAlarm?: boolean;
+  /** 0x520D — air (brake) pressure warning lamp. */
+  airPressureAlarm?: boolean;
+  /** 0x520E — exhaust brake switch. */
+  exhaustBrakeOn?: boolean;
+
+  // ── 0xED new-energy data flow (spec §3.39) ──────────────────────────────
+  /** 0x7002 — traction battery state of charge (%). */
+  evSocPct?: number;
+  /** 0x7006 — pack charge/discharge current (A, +discharge / −charge). */
+  evPackCurrentA?: number;
+  /** 0x700F — pack total voltage (V). */
+  evPackVoltageV?: number;
+  /** 0x7001 — remaining range (km). */
+  evRangeKm?: number;
+  /** 0x7004 — charging state. */
+  evChargingState?: EvChargingState;
+  /** 0x7005 — charge connector plugged in. */
+  evChargerPlugged?: boolean;
+  /** 0x7009 — drive motor speed (rpm, negative = reverse). */
+  evMotorRpm?: number;
+  /** 0x700A — drive motor torque (Nm). */
+  evMotorTorqueNm?: number;
+  /** 0x700B — drive motor temperature (°C). */
+  evMotorTempC?: number;
+  /** 0x700C — DC bus voltage (V). */
+  evDcBusVoltageV?: number;
+  /** 0x700D — DC bus current (A, +discharge / −charge). */
+  evDcBusCurrentA?: number;
+  /** 0x700E / 0x704C — remaining pack energy (kWh). */
+  evAvailableEnergyKwh?: number;
+  /** 0x704B — pack capacity (Ah). */
+  evPackCapacityAh?: number;
+  /** 0x7007 / 0x7043 — highest cell voltage (V). */
+  evMaxCellVoltageV?: number;
+  /** 0x7008 / 0x7044 — lowest cell voltage (V). */
+  evMinCellVoltageV?: number;
+  /** 0x7048 — average cell voltage (V). */
+  evAvgCellVoltageV?: number;
+  /** 0x7045 — cell voltage spread (V). */
+  evCellSpreadV?: number;
+  /** 0x7030 — highest probe temperature (°C). */
+  evMaxTempC?: number;
+  /** 0x7032 — lowest probe temperature (°C). */
+  evMinTempC?: number;
+  /** 0x7049 — average probe temperature (°C). */
+  evAvgTempC?: number;
+  /** 0x703F — battery temperature (°C). */
+  evBatteryTempC?: number;
+  /** 0x7042 — battery state of health (%). */
+  evSohPct?: number;
+  /** 0x7041 — insulation resistance (kΩ). */
+  evInsulationResistanceKohm?: number;
+  /** 0x7034 — BMS alarm word (vendor bit layout). */
+  evAlarmBits?: number;
+  /** 0x7047 byte 0 — BMS state. */
+  evBmsState?: EvBmsState;
+
+  // ── 0xEE peripheral data flow (spec §3.40) ──────────────────────────────
+  /** 0x300A — load cell current load (kg). */
+  axleWeightKg?: number;
+  /** 0x300A — load cell rated load (kg). */
+  ratedLoadKg?: number;
+  /** 0x3006 / 0x300E — per-wheel tire pressure and temperature. */
+  tires?: DecodedTire[];
 
   /** All unknown sub-IDs preserved as `{ 'b_0x60B0': [bytes] }`. */
   unknownPids: Record<string, number[]>;
@@ -335,12 +596,30 @@ export function decode(body: Buffer): DecodedLocation {
       case 0xea:
       case 0xeb:
       case 0xec:
-      case 0xed: {
+      case 0xed:
+      case 0xee: {
         // Sub-TLV stream of 2-byte sub-IDs + 1-byte length entries. See
-        // appendix §3.36-§3.39 (Basic / Car / Truck / New-Energy flows).
+        // appendix §3.36-§3.40 (Basic / Car / Truck / New-Energy /
+        // Peripheral flows).
         decodeExtendedSubTlv(id, value, obdAccumulator);
         break;
       }
+      case 0xfa: {
+        const events = decodeAlarmEvents(value);
+        if (events) {
+          additional.alarmEventIds = events;
+          if (events.includes(ALARM_EVENT_PTO_IDLE)) obdAccumulator.ptoIdleActive = true;
+        } else {
+          rawAdditional.set(id, Buffer.from(value));
+        }
+        break;
+      }
+      case 0xfb: {
+        const stations = decodeBaseStationContainer(value);
+        if (stations) additional.baseStations = stations;
+        else rawAdditional.set(id, Buffer.from(value));
+        break;
+      }
       default:
         // Vendor / unsupported — keep raw bytes for forensic logging.
         rawAdditional.set(id, Buffer.from(value));
@@ -358,6 +637,18 @@ export function decode(body: Buffer): DecodedLocation {
     obdAccumulator.coolantTempC !== undefined ||
     obdAccumulator.milOn !== undefined ||
     obdAccumulator.vin !== undefined ||
+    obdAccumulator.evSocPct !== undefined ||
+    obdAccumulator.evPackVoltageV !== undefined ||
+    obdAccumulator.accelerometer !== undefined ||
+    obdAccumulator.vehicleStatus !== undefined ||
+    obdAccumulator.engineHours !== undefined ||
+    obdAccumulator.fuelRateLph !== undefined ||
+    obdAccumulator.defLevelPct !== undefined ||
+    obdAccumulator.evRangeKm !== undefined ||
+    obdAccumulator.evChargingState !== undefined ||
+    obdAccumulator.axleWeightKg !== undefined ||
+    obdAccumulator.ptoIdleActive !== undefined ||
+    obdAccumulator.tires !== undefined ||
     Object.keys(obdAccumulator.unknownPids).length > 0
   ) {
     additional.obd = obdAccumulator;
@@ -381,8 +672,9 @@ export function decode(body: Buffer): DecodedLocation {
 
 /**
  * Decode a 2-byte sub-TLV stream (sub-id BE + 1-byte length + value),
- * populating the OBD accumulator in place. Used by all four extended
- * container IDs (0xEA basic / 0xEB sedan / 0xEC truck / 0xED new-energy).
+ * populating the OBD accumulator in place. Used by all five extended
+ * container IDs (0xEA basic / 0xEB sedan / 0xEC truck / 0xED new-energy /
+ * 0xEE peripheral).
  *
  * Unknown sub-IDs are kept under hex keys in `unknownPids` so we can wire
  * new fields later without losing data in the meantime.
@@ -403,7 +695,7 @@ function decodeExtendedSubTlv(
     i = valEnd;
 
     switch (subId) {
-      // ── 0xEA Basic data flow (spec §3.37) ──────────────────────────────
+      // ── 0xEA Basic data flow (spec §3.36) ──────────────────────────────
       case 0x0003: {
         // Total mileage: 5-byte (1-byte status + 4-byte uint32 meters) or 4-byte
         if (subLen >= 5) obd.totalMileageKm = v.readUInt32BE(1) / 1000;
@@ -473,10 +765,18 @@ function decodeExtendedSubTlv(
       case 0x0020: // Ignition type bit field (2 bytes)
         if (subLen >= 2) obd.ignitionTypeBits = v.readUInt16BE(0);
         break;
-      // 0x0010 (accelerometer, 14 bytes) and 0x0011 (vehicle status, 20 bytes)
-      // are variable-length diagnostic blobs — keep in unknownPids for now.
+      case 0x0010: { // Accelerometer (spec §3.43/§3.47)
+        const accel = decodeAccelerometer(v);
+        if (accel) obd.accelerometer = accel;
+        else obd.unknownPids['b_0x0010'] = Array.from(v);
+        break;
+      }
+      case 0x0011: // Vehicle status table (20 bytes, spec §3.49)
+        if (subLen >= 20) obd.vehicleStatus = decodeVehicleStatus(v);
+        else obd.unknownPids['b_0x0011'] = Array.from(v);
+        break;
 
-      // ── 0xEB Sedan / shared OBD live (spec §3.38) ─────────────────────
+      // ── 0xEB Sedan / shared OBD live (spec §3.37) ─────────────────────
       case 0x60c0: // RPM (2 bytes)
         if (subLen >= 2) obd.rpm = v.readUInt16BE(0);
         break;
@@ -547,7 +847,121 @@ function decodeExtendedSubTlv(
         if (subLen >= 2) obd.timingAdvanceDeg = v.readUInt16BE(0) / 10 - 64;
         break;
 
-      // ── 0xEC Truck extended (spec §3.39): MIL state, VIN, readiness ───
+      // ── 0xEC Truck extended (spec §3.38) ──────────────────────────────
+      // J1939-sourced values use the J1939 not-available markers, which
+      // the j1939* readers drop.
+      case 0x5001: // Clutch switch
+        if (subLen >= 1) obd.clutchSwitchOn = j1939Flag(v);
+        break;
+      case 0x5002: // Brake switch
+        if (subLen >= 1) obd.brakeSwitchOn = j1939Flag(v);
+        break;
+      case 0x5003: // Parking brake switch
+        if (subLen >= 1) obd.parkingBrakeOn = j1939Flag(v);
+        break;
+      case 0x5004: // Throttle position (1 byte, %)
+        if (subLen >= 1) obd.throttlePct = j1939U8(v);
+        break;
+      case 0x5005: // Engine fuel rate (2 bytes, 0.05 L/h)
+      case 0x5110:
+        if (subLen >= 2) obd.fuelRateLph = scaled(j1939U16(v), 0.05);
+        break;
+      case 0x5006: // Fuel temperature (2 bytes, 0.03125 °C, offset -273)
+        if (subLen >= 2) obd.fuelTempC = j1939TempC(v);
+        break;
+      case 0x5007: // Engine oil temperature (2 bytes, 0.03125 °C, offset -273)
+        if (subLen >= 2) obd.engineOilTempC = j1939TempC(v);
+        break;
+      case 0x5008: // Engine oil pressure (1 byte, 4 kPa)
+        if (subLen >= 1) obd.engineOilPressureKpa = scaled(j1939U8(v), 4);
+        break;
+      case 0x5009: // Brake pedal position (1 byte, %)
+        if (subLen >= 1) obd.brakePedalPct = j1939U8(v);
+        break;
+      case 0x500a: // Air flow (2 bytes, 0.1 g/s)
+        if (subLen >= 2) obd.mafGps = scaled(j1939U16(v), 0.1);
+        break;
+      case 0x5101: // Net engine torque (1 byte, %, offset -125)
+        if (subLen >= 1) obd.netEngineTorquePct = scaled(j1939U8(v), 1, -125);
+        break;
+      case 0x5102: // Friction torque (1 byte, %, offset -125)
+        if (subLen >= 1) obd.frictionTorquePct = scaled(j1939U8(v), 1, -125);
+        break;
+      case 0x5103: // SCR upstream NOx (2 bytes, 0.05 ppm, offset -200)
+        if (subLen >= 2) obd.scrUpstreamNoxPpm = scaled(j1939U16(v), 0.05, -200);
+        break;
+      case 0x5104: // SCR downstream NOx (2 bytes, 0.05 ppm, offset -200)
+        if (subLen >= 2) obd.scrDownstreamNoxPpm = scaled(j1939U16(v), 0.05, -200);
+        break;
+      case 0x5105: // Reagent (DEF) level (1 byte, 0.4 %)
+        if (subLen >= 1) obd.defLevelPct = scaled(j1939U8(v), 0.4);
+        break;
+      case 0x5106: // Intake air mass flow (2 bytes, 0.05 kg/h)
+        if (subLen >= 2) obd.intakeAirFlowKgh = scaled(j1939U16(v), 0.05);
+        break;
+      case 0x5107: // SCR inlet temperature
+        if (subLen >= 2) obd.scrInletTempC = j1939TempC(v);
+        break;
+      case 0x5108: // SCR outlet temperature
+        if (subLen >= 2) obd.scrOutletTempC = j1939TempC(v);
+        break;
+      case 0x5109: // DPF differential pressure (2 bytes, 0.1 kPa)
+        if (subLen >= 2) obd.dpfDiffPressureKpa = scaled(j1939U16(v), 0.1);
+        break;
+      case 0x510a: // Engine torque mode
+        if (subLen >= 1) obd.engineTorqueMode = j1939U8(v);
+        break;
+      case 0x510b: // Accelerator pedal (1 byte, 0.4 %)
+        if (subLen >= 1) obd.acceleratorPct = scaled(j1939U8(v), 0.4);
+        break;
+      case 0x510c: // Urea tank temperature (1 byte, offset -40)
+        if (subLen >= 1) obd.defTankTempC = scaled(j1939U8(v), 1, -40);
+        break;
+      case 0x510d: // Urea injection rate (4 bytes, 0.01 ml/h)
+        if (subLen >= 4) obd.defDosingMlh = scaled(j1939U32(v), 0.01);
+        break;
+      case 0x510e: // Cumulative urea consumption (4 bytes, g)
+        if (subLen >= 4) obd.defConsumedG = j1939U32(v);
+        break;
+      case 0x510f: // DPF exhaust temperature
+        if (subLen >= 2) obd.dpfExhaustTempC = j1939TempC(v);
+        break;
+      case 0x5116: // Software calibration ID (18 ASCII, '0'-padded)
+        obd.calibrationId = paddedAscii(v);
+        break;
+      case 0x5117: // Calibration verification number (18 ASCII, '0'-padded)
+        obd.calibrationVerificationNumber = paddedAscii(v);
+        break;
+      case 0x511a: // Light absorption coefficient (2 bytes, 0.01 m⁻¹)
+        if (subLen >= 2) obd.smokeAbsorptionPerM = scaled(j1939U16(v), 0.01);
+        break;
+      case 0x511b: // Opacity (2 bytes, 0.1 %)
+        if (subLen >= 2) obd.smokeOpacityPct = scaled(j1939U16(v), 0.1);
+        break;
+      case 0x511c: // Particulate concentration (2 bytes, mg/m³)
+        if (subLen >= 2) obd.particulateMgM3 = j1939U16(v);
+        break;
+      case 0x511f: // Real-time engine load (1 byte, %)
+        if (subLen >= 1) obd.engineLoadPct = j1939U8(v);
+        break;
+      case 0x520a: // Total engine running time (2 bytes, 0.1 h)
+        if (subLen >= 2) obd.engineHours = scaled(j1939U16(v), 0.1);
+        break;
+      case 0x520b: // Coolant low-level warning
+        if (subLen >= 1) obd.coolantLowAlarm = v.readUInt8(0) === 1;
+        break;
+      case 0x520c: // Low engine oil warning
+        if (subLen >= 1) obd.oilLowAlarm = v.readUInt8(0) === 1;
+        break;
+      case 0x520d: // Air pressure warning lamp
+        if (subLen >= 1) obd.airPressureAlarm = v.readUInt8(0) === 1;
+        break;
+      case 0x520e: // Exhaust brake switch
+        if (subLen >= 1) obd.exhaustBrakeOn = v.readUInt8(0) === 1;
+        break;
+      case 0x520f: // Engine reference torque (2 bytes, Nm)
+        if (subLen >= 2) obd.engineReferenceTorqueNm = j1939U16(v);
+        break;
       case 0x5111: // OBD diagnostic protocol
         if (subLen >= 1) {
           const p = v.readUInt8(0);
@@ -571,18 +985,377 @@ function decodeExtendedSubTlv(
         break;
       }
 
+      // ── 0xED New-energy (spec §3.39) ─────────────────────────────────
+      // Per-cell voltages / probe temperatures (0x7021–0x703E) stay in
+      // unknownPids: the per-cell tables arrive properly on 0x0210.
+      case 0x7002: // SOC (1 byte, %)
+        if (subLen >= 1) obd.evSocPct = v.readUInt8(0);
+        break;
+      case 0x7006: // Pack current (2 bytes, 0.01 A, offset -32767)
+        if (subLen >= 2) obd.evPackCurrentA = (v.readUInt16BE(0) - 32767) / 100;
+        break;
+      case 0x700f: // Pack total voltage (2 bytes, 0.01 V)
+        if (subLen >= 2) obd.evPackVoltageV = v.readUInt16BE(0) / 100;
+        break;
+      case 0x7001: // Range (4 bytes, 0.1 km)
+        if (subLen >= 4) obd.evRangeKm = v.readUInt32BE(0) / 10;
+        break;
+      case 0x7003: // Speed (1 byte, km/h) — only if the OBD bus gave none
+        if (subLen >= 1 && obd.vehicleSpeedKmh === undefined) obd.vehicleSpeedKmh = v.readUInt8(0);
+        break;
+      case 0x7004: // Charging status
+        if (subLen >= 1) obd.evChargingState = EV_CHARGING_STATES[v.readUInt8(0)];
+        break;
+      case 0x7005: // Charge connector
+        if (subLen >= 1) obd.evChargerPlugged = v.readUInt8(0) === 1;
+        break;
+      case 0x7007: // Highest cell voltage (2 bytes, 0.01 V)
+        if (subLen >= 2) obd.evMaxCellVoltageV = v.readUInt16BE(0) / 100;
+        break;
+      case 0x7008: // Lowest cell voltage (2 bytes, 0.01 V)
+        if (subLen >= 2) obd.evMinCellVoltageV = v.readUInt16BE(0) / 100;
+        break;
+      case 0x7009: // Drive motor speed (2 bytes, rpm, offset -32767)
+        if (subLen >= 2) obd.evMotorRpm = v.readUInt16BE(0) - 32767;
+        break;
+      case 0x700a: // Drive motor torque (2 bytes, Nm, signed)
+        if (subLen >= 2) obd.evMotorTorqueNm = v.readInt16BE(0);
+        break;
+      case 0x700b: // Drive motor temperature (1 byte, offset -40)
+        if (subLen >= 1) obd.evMotorTempC = v.readUInt8(0) - 40;
+        break;
+      case 0x700c: // DC bus voltage (2 bytes, 0.1 V)
+        if (subLen >= 2) obd.evDcBusVoltageV = v.readUInt16BE(0) / 10;
+        break;
+      case 0x700d: // DC bus current (2 bytes, 0.01 A, offset -500 A)
+        if (subLen >= 2) obd.evDcBusCurrentA = v.readUInt16BE(0) / 100 - 500;
+        break;
+      case 0x700e: // Available energy (2 bytes, 0.01 kWh)
+      case 0x704c: // Remaining energy (2 bytes, 0.01 kWh)
+        if (subLen >= 2) obd.evAvailableEnergyKwh = v.readUInt16BE(0) / 100;
+        break;
+      case 0x7030: // Highest probe temperature (offset -40)
+        if (subLen >= 1) obd.evMaxTempC = v.readUInt8(0) - 40;
+        break;
+      case 0x7032: // Lowest probe temperature (offset -40)
+        if (subLen >= 1) obd.evMinTempC = v.readUInt8(0) - 40;
+        break;
+      case 0x7034: // BMS alarm information (4 bytes)
+        if (subLen >= 4) obd.evAlarmBits = v.readUInt32BE(0);
+        break;
+      case 0x703f: // Battery temperature (offset -40)
+        if (subLen >= 1) obd.evBatteryTempC = v.readUInt8(0) - 40;
+        break;
+      case 0x7041: // Insulation resistance (2 bytes, kΩ)
+        if (subLen >= 2) obd.evInsulationResistanceKohm = v.readUInt16BE(0);
+        break;
+      case 0x7042: // Battery health (1 byte, 0–100)
+        if (subLen >= 1) obd.evSohPct = v.readUInt8(0);
+        break;
+      case 0x7043: // Highest cell voltage (2 bytes, 0.01 V or 0.001 V)
+        if (subLen >= 2) obd.evMaxCellVoltageV = cellVolts(v.readUInt16BE(0));
+        break;
+      case 0x7044: // Lowest cell voltage (2 bytes, 0.01 V or 0.001 V)
+        if (subLen >= 2) obd.evMinCellVoltageV = cellVolts(v.readUInt16BE(0));
+        break;
+      case 0x7045: // Cell voltage spread (2 bytes, 0.001 V on current firmware)
+        if (subLen >= 2) obd.evCellSpreadV = v.readUInt16BE(0) / 1000;
+        break;
+      case 0x7047: // BMS status (byte 0 = state; lock / fault bytes follow)
+        if (subLen >= 1) obd.evBmsState = EV_BMS_STATES[v.readUInt8(0)];
+        break;
+      case 0x7048: // Average cell voltage (2 bytes, 0.001 V)
+        if (subLen >= 2) obd.evAvgCellVoltageV = v.readUInt16BE(0) / 1000;
+        break;
+      case 0x7049: // Average temperature (offset -40)
+        if (subLen >= 1) obd.evAvgTempC = v.readUInt8(0) - 40;
+        break;
+      case 0x704a: // Accelerator pedal position (1 byte, %)
+        if (subLen >= 1) obd.acceleratorPct = v.readUInt8(0);
+        break;
+      case 0x704b: // Pack capacity (2 bytes, 0.1 Ah)
+        if (subLen >= 2) obd.evPackCapacityAh = v.readUInt16BE(0) / 10;
+        break;
+
+      // ── 0xEE Peripheral (spec §3.40) ─────────────────────────────────
+      case 0x3006: { // Tire pressure table (spec §3.56)
+        const tires = decodeTirePressure(v);
+        if (tires.length > 0) obd.tires = tires;
+        break;
+      }
+      case 0x300e: { // High-speed-rail tire pressure table (spec §3.80)
+        const tires = decodeAxleTirePressure(v);
+        if (tires.length > 0) obd.tires = tires;
+        break;
+      }
+      case 0x300a: { // Load cell (spec §3.57)
+        const load = decodeLoadCell(v);
+        if (load) {
+          obd.axleWeightKg = load.currentKg;
+          if (load.ratedKg > 0) obd.ratedLoadKg = load.ratedKg;
+        }
+        break;
+      }
+
       default: {
-        const key = `${containerId === 0xea ? 'b' : containerId === 0xeb ? 's' : containerId === 0xec ? 't' : 'n'}_0x${subId.toString(16).padStart(4, '0')}`;
+        const key = `${CONTAINER_KEY_PREFIX[containerId] ?? 'x'}_0x${subId.toString(16).padStart(4, '0')}`;
         obd.unknownPids[key] = Array.from(v);
       }
     }
   }
 }
 
+const CONTAINER_KEY_PREFIX: Record<number, string> = {
+  0xea: 'b',
+  0xeb: 's',
+  0xec: 't',
+  0xed: 'n',
+  0xee: 'p',
+};
+
+const EV_CHARGING_STATES: Record<number, EvChargingState> = {
+  1: 'NOT_CHARGING',
+  2: 'AC_CHARGING',
+  3: 'DC_CHARGING',
+  4: 'CHARGE_COMPLETE',
+  5: 'DRIVING_CHARGING',
+  6: 'PARKED_CHARGING',
+};
+
+const EV_BMS_STATES: Record<number, EvBmsState> = {
+  0: 'INIT',
+  1: 'STANDBY',
+  2: 'PRECHARGE',
+  3: 'RUN',
+  4: 'AC_CHARGE',
+  5: 'DC_CHARGE',
+  6: 'POWER_DOWN',
+  7: 'ERROR',
+};
+
+// J1939 reserves the top of each range: 0xFE.. = error, 0xFF.. = not
+// available. Both mean "no reading", so they decode to undefined.
+function j1939U8(v: Buffer): number | undefined {
+  const raw = v.readUInt8(0);
+  return raw >= 0xfe ? undefined : raw;
+}
+function j1939U16(v: Buffer): number | undefined {
+  const raw = v.readUInt16BE(0);
+  return raw >= 0xfe00 ? undefined : raw;
+}
+function j1939U32(v: Buffer): number | undefined {
+  const raw = v.readUInt32BE(0);
+  return raw >= 0xfe000000 ? undefined : raw;
+}
+/** Two-state switch: 0 = off, 1 = on, anything else unknown. */
+function j1939Flag(v: Buffer): boolean | undefined {
+  const raw = v.readUInt8(0);
+  return raw === 0 ? false : raw === 1 ? true : undefined;
+}
+/** 0.03125 °C/bit, offset −273 °C. */
+function j1939TempC(v: Buffer): number | undefined {
+  return scaled(j1939U16(v), 0.03125, -273);
+}
+
+function scaled(raw: number | undefined, factor: number, offset = 0): number | undefined {
+  return raw === undefined ? undefined : Math.round((raw * factor + offset) * 1000) / 1000;
+}
+
+/** ASCII, right-padded with '0' or NUL per GB 17691 — strip the padding. */
+function paddedAscii(v: Buffer): string | undefined {
+  const text = v.toString('ascii').replace(/[0\0\s]+$/, '');
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * 0x7043/0x7044 appear twice in the spec, at 0.01 V and 0.001 V. A Li-ion
+ * cell sits between 2 and 4.5 V, so a raw value ≥ 1000 can only be mV.
+ */
+function cellVolts(raw: number): number {
+  return raw >= 1000 ? raw / 1000 : raw / 100;
+}
+
+/** type u8 (1 = t, 2 = kg) | rated u16 | current u16 | optional raw tail. */
+function decodeLoadCell(v: Buffer): { ratedKg: number; currentKg: number } | null {
+  if (v.length < 5) return null;
+  const factor = v.readUInt8(0) === 1 ? 1000 : 1;
+  return { ratedKg: v.readUInt16BE(1) * factor, currentKg: v.readUInt16BE(3) * factor };
+}
+
+/**
+ * mask u32 (bit 31 = tire 1 … bit 0 = tire 32), then per set bit in tire
+ * order: pressure u16 kPa | temperature u8 (offset −40 °C) | status u8.
+ * The worked example in the spec reads 0x10 as 16 °C; it predates the
+ * VJT.04.027 offset note, which is what current firmware follows.
+ */
+function decodeTirePressure(v: Buffer): DecodedTire[] {
+  if (v.length < 4) return [];
+  const mask = v.readUInt32BE(0);
+  const out: DecodedTire[] = [];
+  let off = 4;
+  for (let n = 1; n <= 32 && off + 4 <= v.length; n++) {
+    if ((mask & (1 << (32 - n))) === 0) continue;
+    out.push({
+      position: n,
+      axle: null,
+      pressureKpa: v.readUInt16BE(off),
+      temperatureC: v.readUInt8(off + 2) - 40,
+      statusBits: v.readUInt8(off + 3),
+      sensorVoltageV: null,
+    });
+    off += 4;
+  }
+  return out;
+}
+
+/**
+ * 8 bytes per sensor: code u8 | pressure u16 kPa | temperature u8 (offset
+ * −55 °C) | voltage u16 (0.01 V) | Y / Z acceleration u8 (0.1 g, unused).
+ */
+function decodeAxleTirePressure(v: Buffer): DecodedTire[] {
+  const out: DecodedTire[] = [];
+  for (let off = 0; off + 8 <= v.length; off += 8) {
+    const code = v.readUInt8(off);
+    out.push({
+      position: code,
+      axle: (code >> 4) + 1,
+      pressureKpa: v.readUInt16BE(off + 1),
+      temperatureC: v.readUInt8(off + 3) - 55,
+      statusBits: null,
+      sensorVoltageV: v.readUInt16BE(off + 4) / 100,
+    });
+  }
+  return out;
+}
+
+/**
+ * count u16 | interval u16 | count × mean u16 | max u16, all mg. The count
+ * is trusted only if it fits the value; otherwise it is inferred from the
+ * length (older firmware sent a fixed 14 bytes with count 0).
+ */
+function decodeAccelerometer(v: Buffer): DecodedAccelerometer | null {
+  if (v.length < 6 || v.length % 2 !== 0) return null;
+  const declared = v.readUInt16BE(0);
+  const fits = (v.length - 6) / 2;
+  const count = declared > 0 && declared <= fits ? declared : fits;
+  const samplesMg: number[] = [];
+  for (let k = 0; k < count; k++) samplesMg.push(v.readUInt16BE(4 + k * 2));
+  return {
+    sampleIntervalMs: v.readUInt16BE(2),
+    samplesMg,
+    maxMg: v.readUInt16BE(4 + count * 2),
+  };
+}
+
+const GEAR_POSITIONS: Record<number, GearPosition> = {
+  0: 'P', 1: 'R', 2: 'N', 3: 'D',
+  4: '1', 5: '2', 6: '3', 7: '4', 8: '5', 9: '6',
+  10: 'M', 11: 'S', 12: 'B', 13: 'L',
+};
+
+function decodeVehicleStatus(v: Buffer): DecodedVehicleStatus {
+  const masked = (idx: number): number | null => {
+    const mask = v.readUInt8(idx);
+    return mask === 0 ? null : v.readUInt8(10 + idx) & mask;
+  };
+  const gearSupported = (v.readUInt8(6) & 0xf0) !== 0;
+  return {
+    securityBits: masked(0),
+    doorBits: masked(1),
+    lockBits: masked(2),
+    windowBits: masked(3),
+    lightBits: masked(4),
+    gear: gearSupported ? GEAR_POSITIONS[v.readUInt8(16) >> 4] ?? null : null,
+  };
+}
+
+/** §3.41 — PTO idle alarm (zero-length value). */
+const ALARM_EVENT_PTO_IDLE = 0x0404;
+
+/**
+ * 0xFA carries §3.41 alarm command IDs in the usual sub-TLV framing
+ * (2-byte ID, 1-byte length, data). Only the IDs are kept; the alarms we
+ * act on carry no data. Null when the framing doesn't add up.
+ */
+function decodeAlarmEvents(buf: Buffer): number[] | null {
+  const ids: number[] = [];
+  let i = 0;
+  while (i < buf.length) {
+    if (i + 3 > buf.length) return null;
+    const valEnd = i + 3 + buf.readUInt8(i + 2);
+    if (valEnd > buf.length) return null;
+    ids.push(buf.readUInt16BE(i));
+    i = valEnd;
+  }
+  return ids.length > 0 ? ids : null;
+}
+
+/**
+ * 0xFB wraps the §3.42 base-station flow in the usual sub-TLV framing
+ * (2-byte sub-ID, 1-byte length). The sub-ID is vendor-customisable, so
+ * every entry is tried; the first that parses wins. Some firmwares skip
+ * the framing and put the flow straight in the TLV value — if the framing
+ * doesn't add up we fall back to parsing the whole value.
+ */
+function decodeBaseStationContainer(buf: Buffer): DecodedBaseStations | null {
+  let i = 0;
+  while (i + 3 <= buf.length) {
+    const subLen = buf.readUInt8(i + 2);
+    const valEnd = i + 3 + subLen;
+    if (valEnd > buf.length) break;
+    const parsed = decodeBaseStationFlow(buf.subarray(i + 3, valEnd));
+    if (parsed) return parsed;
+    i = valEnd;
+  }
+  return decodeBaseStationFlow(buf);
+}
+
+/** Cell IDs the spec reserves as "not used". */
+const UNUSED_CELL_IDS = new Set([0, 65535, 268435455]);
+
+/**
+ * §3.42 body: BCD[6] trigger time, then comma-separated text
+ * `mcc,mnc,<base num>,lac,cellid,signal[,lac,cellid,signal…]`. The base
+ * count is documented as a raw byte but some devices send it as an ASCII
+ * digit — both are accepted, and the number of cells actually present wins
+ * over the declared count. The trigger time is ignored; the enclosing
+ * 0x0200 already has one.
+ */
+function decodeBaseStationFlow(buf: Buffer): DecodedBaseStations | null {
+  if (buf.length < 6 + 9) return null;
+  const fields = buf.subarray(6).toString('latin1').split(',');
+  if (fields.length < 6) return null;
+  const mcc = parseInt(fields[0], 10);
+  const mnc = parseInt(fields[1], 10);
+  if (!Number.isFinite(mcc) || !Number.isFinite(mnc)) return null;
+
+  const countField = fields[2];
+  const declared =
+    countField.length === 1 && countField.charCodeAt(0) < 0x30
+      ? countField.charCodeAt(0)
+      : parseInt(countField, 10);
+
+  const cells: DecodedCell[] = [];
+  for (let f = 3; f + 1 < fields.length; f += 3) {
+    const lac = parseInt(fields[f], 10);
+    const cellId = parseInt(fields[f + 1], 10);
+    const signal = parseInt(fields[f + 2] ?? '', 10);
+    if (!Number.isFinite(lac) || !Number.isFinite(cellId)) break;
+    if (UNUSED_CELL_IDS.has(cellId)) continue;
+    cells.push({ lac, cellId, signal: Number.isFinite(signal) ? signal : null });
+  }
+  if (cells.length === 0) return null;
+  return {
+    mcc,
+    mnc,
+    cells: Number.isFinite(declared) && declared > 0 ? cells.slice(0, declared) : cells,
+  };
+}
+
 /**
  * Clamp OBD values that fall outside physically-possible ranges to
  * `undefined` so they persist as NULL rather than misleading numbers.
- * Ranges are from the D450 spec §3.37-§3.39 and SAE J1979.
+ * Ranges are from the D450 spec §3.36-§3.40, SAE J1979 and J1939.
  */
 function sanitizeObdLive(obd: DecodedObdLive): void {
   const clamp = <K extends keyof DecodedObdLive>(
@@ -613,6 +1386,19 @@ function sanitizeObdLive(obd: DecodedObdLive): void {
   // Mileage sanity: reject > 2 million km (most vehicles never exceed 1M km)
   clamp('totalMileageKm', 0, 2_000_000);
   clamp('cumulativeMileageKm', 0, 2_000_000);
+  // 2M km at heavy-truck consumption is well under 1M L.
+  clamp('totalFuelL', 0, 999_999);
+  clamp('evSocPct', 0, 100);
+  clamp('evSohPct', 0, 100);
+  clamp('defLevelPct', 0, 100);
+  clamp('brakePedalPct', 0, 100);
+  clamp('engineOilTempC', -40, 210);
+  clamp('fuelRateLph', 0, 500);
+  clamp('evMotorTempC', -40, 210);
+  clamp('evRangeKm', 0, 2000);
+  // Legal axle loads top out well under 50 t; a tonne-scaled sensor
+  // misreported as kg lands far above that.
+  clamp('axleWeightKg', 0, 100_000);
 }
 
 /**
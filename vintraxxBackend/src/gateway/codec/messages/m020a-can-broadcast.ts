@@ -0,0 +1,74 @@
+/**
+ * 0x020A — CAN Broadcast Data Stream Report (§2.9 + §3.74, HOLLOO custom).
+ *
+ * Body layout:
+ *   offset     size  field
+ *   0          6     time       (BCD: YY MM DD hh mm ss, UTC+8)
+ *   6          2     count      (uint16, BE) — number of CAN list entries, N
+ *   8 + 12·i   4     canId      (uint32, BE)
+ *  12 + 12·i   8     data       (8 raw CAN payload bytes)
+ *
+ * The frames are whatever the device's CAN ID filter table (param 0x2050)
+ * let through; the bytes are manufacturer-specific and we never interpret
+ * them here — they're persisted verbatim for offline signal mining.
+ *
+ * A body that claims more entries than it carries is truncated to the
+ * complete entries present (a cut-off tail is more useful than nothing);
+ * the `truncated` flag lets the handler log it.
+ */
+
+import { bcdToString } from '../header';
+
+const HEADER_LEN = 8;
+const ENTRY_LEN = 12;
+
+export interface CanBroadcastEntry {
+  /** Raw 32-bit CAN identifier as sent by the device. */
+  canId: number;
+  /** 8-byte CAN data field. */
+  data: Buffer;
+}
+
+export interface DecodedCanBroadcast {
+  reportedAt: Date;
+  /** Entry count advertised in the body. */
+  declaredCount: number;
+  entries: CanBroadcastEntry[];
+  /** True when the body ended before `declaredCount` entries were read. */
+  truncated: boolean;
+}
+
+export function decode(body: Buffer): DecodedCanBroadcast {
+  if (body.length < HEADER_LEN) {
+    throw new Error(`0x020A body too short: ${body.length} bytes`);
+  }
+
+  const reportedAt = bcdTimeToDate(body.subarray(0, 6));
+  const declaredCount = body.readUInt16BE(6);
+  const available = Math.floor((body.length - HEADER_LEN) / ENTRY_LEN);
+  const count = Math.min(declaredCount, available);
+
+  const entries: CanBroadcastEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const off = HEADER_LEN + i * ENTRY_LEN;
+    entries.push({
+      canId: body.readUInt32BE(off),
+      data: Buffer.from(body.subarray(off + 4, off + ENTRY_LEN)),
+    });
+  }
+
+  return { reportedAt, declaredCount, entries, truncated: count < declaredCount };
+}
+
+/** 6-byte BCD (YYMMDDhhmmss, UTC+8) → UTC Date. Same rule as m0200. */
+function bcdTimeToDate(bcd: Buffer): Date {
+  const digits = bcdToString(bcd);
+  const yy = parseInt(digits.slice(0, 2), 10);
+  const mo = parseInt(digits.slice(2, 4), 10);
+  const dd = parseInt(digits.slice(4, 6), 10);
+  const hh = parseInt(digits.slice(6, 8), 10);
+  const mm = parseInt(digits.slice(8, 10), 10);
+  const ss = parseInt(digits.slice(10, 12), 10);
+  const utcMs = Date.UTC(2000 + yy, mo - 1, dd, hh, mm, ss);
+  return new Date(utcMs - 8 * 60 * 60 * 1000);
+}
@@ -0,0 +1,138 @@
+/**
+ * 0x0210 — New-Energy Vehicle BMS Data Flow Report (§2.10 + §3.75–§3.78).
+ *
+ * Body layout (§3.75):
+ *   offset  size  field
+ *   0       6     time            (BCD: YY MM DD hh mm ss, UTC+8)
+ *   6       2     contentLength   (uint16, BE)
+ *   8       N     content         — sequence of items: id(2) + len(2) + data(len)
+ *
+ * Known item ids (§3.76):
+ *   0x0001  per-cell voltage table      (§3.77)
+ *   0x0002  per-cell temperature table  (§3.78)
+ *
+ * Both tables share one shape: twelve 32-bit presence masks (384 cells,
+ * MSB of mask 0 = cell 1) followed by one uint16 per cell whose mask bit is
+ * set, in ascending cell order.
+ *   • voltage:     (raw − 32767) / 1000  V
+ *   • temperature: (raw − 400)   / 10    °C
+ *
+ * Unknown item ids are preserved as raw bytes so later firmware additions
+ * aren't silently lost.
+ */
+
+import { bcdToString } from '../header';
+
+const MASK_WORDS = 12;
+const MASK_BYTES = MASK_WORDS * 4;
+
+export const BmsItemId = {
+  CELL_VOLTAGES: 0x0001,
+  CELL_TEMPERATURES: 0x0002,
+} as const;
+
+export interface BmsCellReading {
+  /** 1-based cell (or probe) index, 1..384. */
+  index: number;
+  value: number;
+}
+
+export interface DecodedBmsDataFlow {
+  reportedAt: Date;
+  /** Cell voltages in volts, ascending by index. Empty when not reported. */
+  cellVoltagesV: BmsCellReading[];
+  /** Cell temperatures in °C, ascending by index. Empty when not reported. */
+  cellTemperaturesC: BmsCellReading[];
+  /** Items we don't decode, keyed `0x0003` etc. */
+  unknownItems: Record<string, number[]>;
+}
+
+export function decode(body: Buffer): DecodedBmsDataFlow {
+  if (body.length < 8) {
+    throw new Error(`0x0210 body too short: ${body.length} bytes`);
+  }
+
+  const reportedAt = bcdTimeToDate(body.subarray(0, 6));
+  const contentLength = body.readUInt16BE(6);
+  if (8 + contentLength > body.length) {
+    throw new Error(
+      `0x0210 content length ${contentLength} exceeds body (${body.length - 8} bytes remain)`,
+    );
+  }
+  const content = body.subarray(8, 8 + contentLength);
+
+  const result: DecodedBmsDataFlow = {
+    reportedAt,
+    cellVoltagesV: [],
+    cellTemperaturesC: [],
+    unknownItems: {},
+  };
+
+  let i = 0;
+  while (i + 4 <= content.length) {
+    const id = content.readUInt16BE(i);
+    const len = content.readUInt16BE(i + 2);
+    const start = i + 4;
+    const end = start + len;
+    if (end > content.length) {
+      throw new Error(
+        `0x0210 item 0x${id.toString(16)} declares len=${len} but only ${content.length - start} bytes remain`,
+      );
+    }
+    const data = content.subarray(start, end);
+    i = end;
+
+    switch (id) {
+      case BmsItemId.CELL_VOLTAGES:
+        result.cellVoltagesV = decodeCellTable(data, (raw) => (raw - 32767) / 1000);
+        break;
+      case BmsItemId.CELL_TEMPERATURES:
+        result.cellTemperaturesC = decodeCellTable(data, (raw) => (raw - 400) / 10);
+        break;
+      default:
+        result.unknownItems[`0x${id.toString(16).padStart(4, '0')}`] = Array.from(data);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Walk the 12 presence masks and pull one uint16 per set bit. A table that
+ * ends before every flagged cell is read keeps the readings it has — a
+ * partially-populated table is still useful for imbalance checks.
+ */
+function decodeCellTable(data: Buffer, scale: (raw: number) => number): BmsCellReading[] {
+  if (data.length < MASK_BYTES) {
+    throw new Error(`0x0210 cell table too short for masks: ${data.length} bytes`);
+  }
+  const readings: BmsCellReading[] = [];
+  let cursor = MASK_BYTES;
+  for (let w = 0; w < MASK_WORDS; w++) {
+    const mask = data.readUInt32BE(w * 4);
+    if (mask === 0) continue;
+    for (let bit = 31; bit >= 0; bit--) {
+      if ((mask & (1 << bit)) === 0) continue;
+      if (cursor + 2 > data.length) return readings;
+      readings.push({
+        index: w * 32 + (32 - bit),
+        value: Math.round(scale(data.readUInt16BE(cursor)) * 1000) / 1000,
+      });
+      cursor += 2;
+    }
+  }
+  return readings;
+}
+
+/** 6-byte BCD (YYMMDDhhmmss, UTC+8) → UTC Date. Same rule as m0200. */
+function bcdTimeToDate(bcd: Buffer): Date {
+  const digits = bcdToString(bcd);
+  const yy = parseInt(digits.slice(0, 2), 10);
+  const mo = parseInt(digits.slice(2, 4), 10);
+  const dd = parseInt(digits.slice(4, 6), 10);
+  const hh = parseInt(digits.slice(6, 8), 10);
+  const mm = parseInt(digits.slice(8, 10), 10);
+  const ss = parseInt(digits.slice(10, 12), 10);
+  const utcMs = Date.UTC(2000 + yy, mo - 1, dd, hh, mm, ss);
+  return new Date(utcMs - 8 * 60 * 60 * 1000);
+}
@@ -0,0 +1,126 @@
+/**
+ * 0x0252 — Terminal Report Driving License Data (§2.22 + §3.80–§3.82,
+ * HOLLOO custom). Sent when a driver swipes a magnetic-stripe license.
+ *
+ * Body: a sequence of items, id(2) + len(2) + data(len). Known item ids:
+ *   0x9009  N   track 1–3 data packet (sub-items, see below)
+ *   0x9010  1   login status   (1 = log in, 0 = log out)
+ *   0x9011  1   DLT permit flag (1 = license accepted, 0 = rejected)
+ *
+ * Track sub-items (§3.81 / §3.82) are id(2) + len(1) + ASCII data:
+ *   0x9901 name        0x9902 country      0x9903 ID card number
+ *   0x9904 due date    0x9905 birthday     0x9906 license type
+ *   0x9907 sex         0x9908 license no.  0x9909 issuing branch
+ *   0x990A all tracks  0x9011 license allowed (u8, track-3 cards only)
+ *
+ * The spec table labels the sub-item id column "1 byte" but lists two-byte
+ * ids; every capture we have uses two. Unknown ids at either level are kept
+ * as raw bytes.
+ */
+
+export interface DrivingLicenseTrack {
+  name?: string;
+  country?: string;
+  idCardNumber?: string;
+  dueDate?: string;
+  birthday?: string;
+  licenseType?: string;
+  sex?: string;
+  licenseNumber?: string;
+  issuingBranch?: string;
+  allTracks?: string;
+}
+
+export interface DecodedDrivingLicense {
+  /** `LOGIN` / `LOGOUT` from item 0x9010; null when absent. */
+  loginStatus: 'LOGIN' | 'LOGOUT' | null;
+  /** Item 0x9011 (or track sub-item 0x9011); null when absent. */
+  permitted: boolean | null;
+  track: DrivingLicenseTrack;
+  /** Unknown top-level items (`0x9012`) and track sub-items (`t_0x99FF`). */
+  unknownItems: Record<string, number[]>;
+}
+
+const TRACK_FIELDS: Record<number, keyof DrivingLicenseTrack> = {
+  0x9901: 'name',
+  0x9902: 'country',
+  0x9903: 'idCardNumber',
+  0x9904: 'dueDate',
+  0x9905: 'birthday',
+  0x9906: 'licenseType',
+  0x9907: 'sex',
+  0x9908: 'licenseNumber',
+  0x9909: 'issuingBranch',
+  0x990a: 'allTracks',
+};
+
+export function decode(body: Buffer): DecodedDrivingLicense {
+  const result: DecodedDrivingLicense = {
+    loginStatus: null,
+    permitted: null,
+    track: {},
+    unknownItems: {},
+  };
+
+  let i = 0;
+  while (i + 4 <= body.length) {
+    const id = body.readUInt16BE(i);
+    const len = body.readUInt16BE(i + 2);
+    const start = i + 4;
+    const end = start + len;
+    if (end > body.length) {
+      throw new Error(
+        `0x0252 item 0x${id.toString(16)} declares len=${len} but only ${body.length - start} bytes remain`,
+      );
+    }
+    const data = body.subarray(start, end);
+    i = end;
+
+    switch (id) {
+      case 0x9009:
+        decodeTrack(data, result);
+        break;
+      case 0x9010:
+        if (len >= 1) result.loginStatus = data.readUInt8(0) === 1 ? 'LOGIN' : 'LOGOUT';
+        break;
+      case 0x9011:
+        if (len >= 1) result.permitted = data.readUInt8(0) === 1;
+        break;
+      default:
+        result.unknownItems[hexKey(id)] = Array.from(data);
+    }
+  }
+
+  return result;
+}
+
+function decodeTrack(data: Buffer, out: DecodedDrivingLicense): void {
+  let i = 0;
+  while (i + 3 <= data.length) {
+    const id = data.readUInt16BE(i);
+    const len = data.readUInt8(i + 2);
+    const start = i + 3;
+    const end = start + len;
+    if (end > data.length) {
+      throw new Error(
+        `0x0252 track item 0x${id.toString(16)} declares len=${len} but only ${data.length - start} bytes remain`,
+      );
+    }
+    const v = data.subarray(start, end);
+    i = end;
+
+    const field = TRACK_FIELDS[id];
+    if (field) {
+      const text = v.toString('latin1').replace(/\0+$/, '').trim();
+      if (text) out.track[field] = text;
+    } else if (id === 0x9011 && len >= 1) {
+      out.permitted = v.readUInt8(0) === 1;
+    } else {
+      out.unknownItems[`t_${hexKey(id)}`] = Array.from(v);
+    }
+  }
+}
+
+function hexKey(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
@@ -0,0 +1,163 @@
+/**
+ * 0x0702 — Driver Identity Information Collection Report (§2.20 + §3.25).
+ *
+ * Sent when a driver inserts / removes their professional-qualification IC
+ * card, and in reply to a platform 0x8702 request.
+ *
+ * Body layout:
+ *   offset      size  field
+ *   0           1     status        (0x01 card inserted / on duty,
+ *                                    0x02 card removed / off duty)
+ *   1           6     time          (BCD: YY MM DD hh mm ss, UTC+8)
+ *   — only when status = 0x01 —
+ *   7           1     readResult    (0x00 OK; 0x01 key auth failed;
+ *                                    0x02 card locked; 0x03 card pulled;
+ *                                    0x04 checksum error)
+ *   — only when readResult = 0x00 —
+ *   8           1     nameLength n
+ *   9           n     name                      (GBK)
+ *   9+n         20    qualificationCode         (GBK, NUL-padded)
+ *   29+n        1     issuerLength m
+ *   30+n        m     issuingAuthority          (GBK)
+ *   30+n+m      4     certificateExpiresAt      (BCD: YYYYMMDD)
+ *   — 2019 only —
+ *   34+n+m      20    idCardNumber              (GBK, NUL-padded)
+ *
+ * The 2019 trailer is read whenever the bytes are present rather than keyed
+ * on the header version, because some 2013-header firmwares append it too.
+ */
+
+import * as iconv from 'iconv-lite';
+import { bcdToString } from '../header';
+
+export type DriverCardStatus = 'INSERTED' | 'REMOVED';
+
+export const DriverCardReadResult = {
+  OK: 0x00,
+  KEY_AUTH_FAILED: 0x01,
+  CARD_LOCKED: 0x02,
+  CARD_REMOVED: 0x03,
+  CHECKSUM_ERROR: 0x04,
+} as const;
+
+export interface DecodedDriverIdentity {
+  status: DriverCardStatus;
+  at: Date;
+  /** Null when status is REMOVED. */
+  readResult: number | null;
+  /** The following are only populated for an INSERTED card read OK. */
+  name: string | null;
+  qualificationCode: string | null;
+  issuingAuthority: string | null;
+  certificateExpiresAt: Date | null;
+  idCardNumber: string | null;
+}
+
+export function decode(body: Buffer): DecodedDriverIdentity {
+  if (body.length < 7) {
+    throw new Error(`0x0702 body too short: ${body.length} bytes`);
+  }
+  const rawStatus = body.readUInt8(0);
+  if (rawStatus !== 0x01 && rawStatus !== 0x02) {
+    throw new Error(`0x0702 unknown card status 0x${rawStatus.toString(16)}`);
+  }
+
+  const result: DecodedDriverIdentity = {
+    status: rawStatus === 0x01 ? 'INSERTED' : 'REMOVED',
+    at: bcdTimeToDate(body.subarray(1, 7)),
+    readResult: null,
+    name: null,
+    qualificationCode: null,
+    issuingAuthority: null,
+    certificateExpiresAt: null,
+    idCardNumber: null,
+  };
+  if (result.status === 'REMOVED') return result;
+
+  if (body.length < 8) {
+    throw new Error('0x0702 card-inserted body is missing the read result');
+  }
+  result.readResult = body.readUInt8(7);
+  if (result.readResult !== DriverCardReadResult.OK) return result;
+
+  let o = 8;
+  const need = (n: number, what: string) => {
+    if (o + n > body.length) {
+      throw new Error(`0x0702 body ends inside ${what} (need ${n} at ${o}, have ${body.length})`);
+    }
+  };
+
+  need(1, 'name length');
+  const n = body.readUInt8(o);
+  o += 1;
+  need(n, 'name');
+  result.name = readGbk(body, o, n);
+  o += n;
+
+  need(20, 'qualification code');
+  result.qualificationCode = readGbk(body, o, 20);
+  o += 20;
+
+  need(1, 'issuer length');
+  const m = body.readUInt8(o);
+  o += 1;
+  need(m, 'issuer');
+  result.issuingAuthority = readGbk(body, o, m);
+  o += m;
+
+  need(4, 'certificate validity');
+  result.certificateExpiresAt = bcdDateToDate(body.subarray(o, o + 4));
+  o += 4;
+
+  if (o + 20 <= body.length) {
+    result.idCardNumber = readGbk(body, o, 20);
+  }
+
+  // Empty strings after NUL-trim carry no identity; normalise to null so
+  // driver matching doesn't key on "".
+  for (const k of ['name', 'qualificationCode', 'issuingAuthority', 'idCardNumber'] as const) {
+    if (result[k] === '') result[k] = null;
+  }
+  return result;
+}
+
+/** GBK field, trailing NULs trimmed. Same fallback rule as m0100. */
+function readGbk(buf: Buffer, offset: number, length: number): string {
+  const slice = buf.subarray(offset, offset + length);
+  let end = slice.length;
+  for (let i = 0; i < slice.length; i++) {
+    if (slice[i] === 0x00) {
+      end = i;
+      break;
+    }
+  }
+  const trimmed = slice.subarray(0, end);
+  try {
+    return iconv.decode(trimmed, 'gbk').trim();
+  } catch {
+    return trimmed.toString('latin1').trim();
+  }
+}
+
+/** 4-byte BCD YYYYMMDD → UTC midnight, or null for an all-zero / invalid date. */
+function bcdDateToDate(bcd: Buffer): Date | null {
+  const digits = bcdToString(bcd);
+  const y = parseInt(digits.slice(0, 4), 10);
+  const mo = parseInt(digits.slice(4, 6), 10);
+  const d = parseInt(digits.slice(6, 8), 10);
+  if (!y || !mo || !d || mo > 12 || d > 31) return null;
+  return new Date(Date.UTC(y, mo - 1, d));
+}
+
+/** 6-byte BCD (YYMMDDhhmmss, UTC+8) → UTC Date. Same rule as m0200. */
+function bcdTimeToDate(bcd: Buffer): Date {
+  const digits = bcdToString(bcd);
+  const yy = parseInt(digits.slice(0, 2), 10);
+  const mo = parseInt(digits.slice(2, 4), 10);
+  const dd = parseInt(digits.slice(4, 6), 10);
+  const hh = parseInt(digits.slice(6, 8), 10);
+  const mm = parseInt(digits.slice(8, 10), 10);
+  const ss = parseInt(digits.slice(10, 12), 10);
+  const utcMs = Date.UTC(2000 + yy, mo - 1, dd, hh, mm, ss);
+  return new Date(utcMs - 8 * 60 * 60 * 1000);
+}
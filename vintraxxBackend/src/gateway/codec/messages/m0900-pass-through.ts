@@ -434,22 +434,28 @@ function decodeUpgradeStatus(payload: Buffer): DecodedUpgradeStatus {
 
 // ── 0xF7 — Suspected collision alarm ────────────────────────────────────────
 
+export interface CollisionSample {
+  accelXMg: number;
+  accelYMg: number;
+  accelZMg: number;
+  speedKmh: number;
+}
+
 export interface DecodedCollision {
   reportedAt: Date;
   latitude: number;
   longitude: number;
+  /** Sample period. The device sizes the trace to cover ~20 s around the impact. */
   collectionFrequencyMs: number;
   /** 0 = minor, 1 = moderate, 2 = severe. */
   level: number;
-  /** Truncated to the first sample for downstream alerting; full trace is in rawBody. */
-  firstSample?: {
-    accelXMg: number;
-    accelYMg: number;
-    accelZMg: number;
-    speedKmh: number;
-  };
+  /** Full accelerometer trace, oldest first. A trailing partial sample is dropped. */
+  samples: CollisionSample[];
 }
 
+const COLLISION_HEADER_BYTES = 19;
+const COLLISION_SAMPLE_BYTES = 7;
+
 function decodeCollision(payload: Buffer): DecodedCollision {
   const base: DecodedCollision = {
     reportedAt: payload.length >= 6 ? bcdTimeToDate(payload.subarray(0, 6)) : new Date(),
@@ -457,6 +463,7 @@ function decodeCollision(payload: Buffer): DecodedCollision {
     longitude: 0,
     collectionFrequencyMs: 500,
     level: 0,
+    samples: [],
   };
   if (payload.length >= 14) {
     const latRaw = payload.readUInt32BE(6);
@@ -466,13 +473,17 @@ function decodeCollision(payload: Buffer): DecodedCollision {
   }
   if (payload.length >= 18) base.collectionFrequencyMs = payload.readUInt32BE(14);
   if (payload.length >= 19) base.level = payload.readUInt8(18);
-  if (payload.length >= 26) {
-    base.firstSample = {
-      accelXMg: payload.readInt16BE(19),
-      accelYMg: payload.readInt16BE(21),
-      accelZMg: payload.readInt16BE(23),
-      speedKmh: payload.readUInt8(25),
-    };
+  for (
+    let off = COLLISION_HEADER_BYTES;
+    off + COLLISION_SAMPLE_BYTES <= payload.length;
+    off += COLLISION_SAMPLE_BYTES
+  ) {
+    base.samples.push({
+      accelXMg: payload.readInt16BE(off),
+      accelYMg: payload.readInt16BE(off + 2),
+      accelZMg: payload.readInt16BE(off + 4),
+      speedKmh: payload.readUInt8(off + 6),
+    });
   }
   return base;
 }
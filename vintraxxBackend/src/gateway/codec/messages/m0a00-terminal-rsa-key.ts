@@ -0,0 +1,23 @@
+/**
+ * 0x0A00 — Terminal RSA Public Key (JT/T 808-2013).
+ *
+ * Body layout:
+ *   offset  size  field
+ *   0       4     e (DWORD) — public exponent
+ *   4       128   n (BYTE[128]) — modulus, big-endian
+ *
+ * Sent in reply to our 0x8A00, or unprompted when the terminal starts the
+ * exchange (§1.9.10); in the latter case the platform answers with 0x8A00.
+ */
+
+import { RSA_MODULUS_BYTES, type RsaPublicKeyComponents } from '../rsa';
+
+export function decode(body: Buffer): RsaPublicKeyComponents {
+  if (body.length < 4 + RSA_MODULUS_BYTES) {
+    throw new Error(`0x0A00 body too short: ${body.length} bytes`);
+  }
+  return {
+    e: body.readUInt32BE(0),
+    n: Buffer.from(body.subarray(4, 4 + RSA_MODULUS_BYTES)),
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * 0x8003 — Retransmit Subpackage Request (§3.3 JT/T 808-2013).
+ *
+ * Body layout:
+ *   offset  size      field
+ *   0       2         originalSerial  (uint16, BE) — serial of the FIRST
+ *                                       subpackage of the original message
+ *   2       1         count           (uint8)      — number of ids below
+ *   3       2 × n     packageIds      (uint16, BE) — 1-based indices of the
+ *                                       subpackages we want re-sent
+ *
+ * Sent by the platform when a subpackaged up-link message is still missing
+ * fragments after the reassembly timeout. The terminal answers by re-sending
+ * exactly the listed fragments with their original serials.
+ */
+
+export interface RetransmitSubpackageArgs {
+  /** Serial of the first subpackage of the incomplete message. */
+  originalSerial: number;
+  /** 1-based subpackage indices still missing. At most 255 per request. */
+  packageIds: number[];
+}
+
+export function encode(args: RetransmitSubpackageArgs): Buffer {
+  if (args.packageIds.length === 0 || args.packageIds.length > 0xff) {
+    throw new Error(`0x8003 packageIds count out of range: ${args.packageIds.length}`);
+  }
+  const buf = Buffer.alloc(3 + args.packageIds.length * 2);
+  buf.writeUInt16BE(args.originalSerial & 0xffff, 0);
+  buf.writeUInt8(args.packageIds.length, 2);
+  args.packageIds.forEach((id, i) => buf.writeUInt16BE(id & 0xffff, 3 + i * 2));
+  return buf;
+}
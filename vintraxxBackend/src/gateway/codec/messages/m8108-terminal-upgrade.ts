@@ -0,0 +1,56 @@
+/**
+ * 0x8108 — Terminal Upgrade Package (§3.17 of JT/T 808-2019).
+ *
+ * Body layout:
+ *   offset  size  field
+ *   0       1     upgradeType     (uint8) — 0 terminal, 12 IC card reader, 52 GNSS module
+ *   1       5     manufacturerId  (BYTE[5], ASCII, zero-padded)
+ *   6       1     versionLength   (uint8)
+ *   7       n     version         (STRING)
+ *   7+n     4     packageLength   (uint32, BE)
+ *   11+n    m     package         (firmware bytes)
+ *
+ * A real image is far larger than one 1023-byte frame body, so the whole
+ * body is built once here and the firmware dispatcher slices it into
+ * subpackages (header bit 13). The terminal acks every subpackage with
+ * 0x0001 and reports the outcome with 0x0108 after flashing.
+ */
+
+export const UpgradeType = {
+  TERMINAL: 0,
+  IC_CARD_READER: 12,
+  GNSS_MODULE: 52,
+} as const;
+
+export const SUPPORTED_UPGRADE_TYPES: ReadonlySet<number> = new Set(Object.values(UpgradeType));
+
+const MANUFACTURER_ID_BYTES = 5;
+
+export function encode(args: {
+  upgradeType: number;
+  manufacturerId: string;
+  version: string;
+  data: Buffer;
+}): Buffer {
+  if (!SUPPORTED_UPGRADE_TYPES.has(args.upgradeType)) {
+    throw new Error(`0x8108: unsupported upgrade type ${args.upgradeType}`);
+  }
+  const manufacturer = Buffer.from(args.manufacturerId, 'ascii');
+  if (manufacturer.length > MANUFACTURER_ID_BYTES) {
+    throw new Error(`0x8108: manufacturer id longer than ${MANUFACTURER_ID_BYTES} bytes`);
+  }
+  const version = Buffer.from(args.version, 'ascii');
+  if (version.length === 0 || version.length > 0xff) {
+    throw new Error(`0x8108: version must be 1..255 bytes, got ${version.length}`);
+  }
+
+  const head = Buffer.alloc(1 + MANUFACTURER_ID_BYTES + 1);
+  head.writeUInt8(args.upgradeType, 0);
+  manufacturer.copy(head, 1);
+  head.writeUInt8(version.length, 1 + MANUFACTURER_ID_BYTES);
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(args.data.length, 0);
+
+  return Buffer.concat([head, version, length, args.data]);
+}
@@ -0,0 +1,35 @@
+/**
+ * 0x8202 — Temporary Location Tracking Control (§3.22 JT/T 808-2019).
+ *
+ * Body layout:
+ *   offset  size  field
+ *   0       2     intervalSec (WORD) — report interval; 0 stops tracking
+ *   2       4     validitySec (DWORD) — how long the terminal keeps the
+ *                 interval before falling back to its configured one
+ *
+ * When intervalSec is 0 the validity field is not sent (the spec omits it
+ * for a stop). The terminal answers with a plain 0x0001.
+ */
+
+/** Shortest interval we let anyone ask for — faster just floods the link. */
+export const MIN_INTERVAL_SEC = 5;
+export const MAX_INTERVAL_SEC = 3600;
+/** Cap on validity so a forgotten session can't drain the battery for days. */
+export const MAX_VALIDITY_SEC = 24 * 3600;
+
+export function encode(args: { intervalSec: number; validitySec?: number }): Buffer {
+  const { intervalSec } = args;
+  if (!Number.isInteger(intervalSec) || intervalSec < 0 || intervalSec > 0xffff) {
+    throw new Error(`0x8202: intervalSec must be a WORD (got ${intervalSec})`);
+  }
+  if (intervalSec === 0) return Buffer.from([0x00, 0x00]);
+
+  const validitySec = args.validitySec ?? 0;
+  if (!Number.isInteger(validitySec) || validitySec <= 0 || validitySec > 0xffffffff) {
+    throw new Error(`0x8202: validitySec must be a positive DWORD (got ${validitySec})`);
+  }
+  const out = Buffer.alloc(6);
+  out.writeUInt16BE(intervalSec, 0);
+  out.writeUInt32BE(validitySec, 2);
+  return out;
+}
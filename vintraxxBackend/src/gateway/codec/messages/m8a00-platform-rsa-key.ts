@@ -0,0 +1,18 @@
+/**
+ * 0x8A00 — Platform RSA Public Key (JT/T 808-2013).
+ *
+ * Same layout as 0x0A00: e (DWORD) + n (BYTE[128]). The terminal answers
+ * with its own key in a 0x0A00.
+ */
+
+import { RSA_MODULUS_BYTES, type RsaPublicKeyComponents } from '../rsa';
+
+export function encode({ e, n }: RsaPublicKeyComponents): Buffer {
+  if (n.length !== RSA_MODULUS_BYTES) {
+    throw new Error(`0x8A00: modulus must be ${RSA_MODULUS_BYTES} bytes (got ${n.length})`);
+  }
+  const out = Buffer.alloc(4 + RSA_MODULUS_BYTES);
+  out.writeUInt32BE(e, 0);
+  n.copy(out, 4);
+  return out;
+}
@@ -0,0 +1,335 @@
+/**
+ * Terminal parameter registry — every parameter id the D450 documents for
+ * 0x8103 set / 0x0104 query (spec §3.8 "Terminal Parameter Settings
+ * Definition" and the sub-tables §3.9–3.16).
+ *
+ * One table drives three things:
+ *   • decoding a 0x0104 dump into `GpsTerminal.parameters` (decodeParams)
+ *   • validating and sizing 0x8103 writes (normalizeParamWrite) — callers no
+ *     longer guess a byteWidth
+ *   • the admin parameter editor (served as-is by GET /admin/gps/parameters)
+ *
+ * Value representation, by wire type:
+ *   BYTE / WORD / DWORD → number
+ *   STRING              → string (UTF-8 on the wire)
+ *   BYTES               → lowercase hex string
+ *
+ * Numeric values are decoded by their actual TLV length, not the declared
+ * width — some firmwares answer every numeric parameter as a DWORD.
+ */
+
+import type { DecodedParam } from './messages/m0104-query-params-response';
+
+export type ParamType = 'BYTE' | 'WORD' | 'DWORD' | 'STRING' | 'BYTES';
+
+export type ParamGroup =
+  | 'communication'
+  | 'server'
+  | 'reporting'
+  | 'phone'
+  | 'alarm'
+  | 'driving'
+  | 'camera'
+  | 'vehicle'
+  | 'obd'
+  | 'device';
+
+export interface ParamDef {
+  id: number;
+  /** camelCase key under `GpsTerminal.parameters.values`. */
+  key: string;
+  name: string;
+  type: ParamType;
+  group: ParamGroup;
+  unit?: string;
+  /** Inclusive bounds for numeric types (defaults: the type's full range). */
+  min?: number;
+  max?: number;
+  /** Byte-length bounds for STRING / BYTES. */
+  minLength?: number;
+  maxLength?: number;
+  /** Shape a STRING value must match (composite "a,b,c" parameters). */
+  pattern?: string;
+  /** Allowed numeric values and their meaning. */
+  options?: Record<number, string>;
+  /** Reported by the device, never written. */
+  readOnly?: boolean;
+  /** One-shot instruction (clear data, read DTCs) rather than a setting. */
+  action?: boolean;
+  description: string;
+}
+
+const ON_OFF = { 0: 'Off', 1: 'On' };
+const SENSITIVITY = { 0: 'Off', 1: 'Low', 2: 'Medium', 3: 'High' };
+const ONE_SHOT = { 0: 'No', 1: 'Yes' };
+const BAUD_RATES = { 1: '9600', 2: '19200', 3: '38400', 4: '57600', 5: '115200' };
+
+export const PARAM_DEFS: readonly ParamDef[] = [
+  // ── Communication ────────────────────────────────────────────────────────
+  { id: 0x0001, key: 'heartbeatIntervalSec', name: 'Heartbeat interval', type: 'DWORD', group: 'communication', unit: 's', min: 1, description: 'Interval between terminal heartbeats (0x0002).' },
+  { id: 0x0002, key: 'tcpReplyTimeoutSec', name: 'TCP reply timeout', type: 'DWORD', group: 'communication', unit: 's', min: 1, description: 'How long the terminal waits for a platform reply over TCP.' },
+  { id: 0x0003, key: 'tcpRetransmitCount', name: 'TCP retransmissions', type: 'DWORD', group: 'communication', description: 'TCP message retransmission count.' },
+  { id: 0x0004, key: 'udpReplyTimeoutSec', name: 'UDP reply timeout', type: 'DWORD', group: 'communication', unit: 's', min: 1, description: 'How long the terminal waits for a platform reply over UDP.' },
+  { id: 0x0005, key: 'udpRetransmitCount', name: 'UDP retransmissions', type: 'DWORD', group: 'communication', description: 'UDP message retransmission count.' },
+  { id: 0x0006, key: 'smsReplyTimeoutSec', name: 'SMS reply timeout', type: 'DWORD', group: 'communication', unit: 's', min: 1, description: 'How long the terminal waits for a reply over SMS.' },
+  { id: 0x0007, key: 'smsRetransmitCount', name: 'SMS retransmissions', type: 'DWORD', group: 'communication', description: 'SMS message retransmission count.' },
+
+  // ── Server ───────────────────────────────────────────────────────────────
+  { id: 0x0010, key: 'apn', name: 'APN', type: 'STRING', group: 'server', minLength: 1, description: 'Primary server APN (PPP dial number on CDMA).' },
+  { id: 0x0011, key: 'apnUser', name: 'APN username', type: 'STRING', group: 'server', description: 'Primary server dial-up username.' },
+  { id: 0x0012, key: 'apnPassword', name: 'APN password', type: 'STRING', group: 'server', description: 'Primary server dial-up password.' },
+  { id: 0x0013, key: 'serverAddress', name: 'Server address', type: 'STRING', group: 'server', minLength: 1, description: 'Primary server IP address or domain name.' },
+  { id: 0x0014, key: 'backupApn', name: 'Backup APN', type: 'STRING', group: 'server', description: 'Backup server APN.' },
+  { id: 0x0015, key: 'backupApnUser', name: 'Backup APN username', type: 'STRING', group: 'server', description: 'Backup server dial-up username.' },
+  { id: 0x0016, key: 'backupApnPassword', name: 'Backup APN password', type: 'STRING', group: 'server', description: 'Backup server dial-up password.' },
+  { id: 0x0017, key: 'backupServerAddress', name: 'Backup server address', type: 'STRING', group: 'server', description: 'Backup server IP address or domain name.' },
+  { id: 0x0018, key: 'serverTcpPort', name: 'Server TCP port', type: 'DWORD', group: 'server', min: 1, max: 65535, description: 'Server TCP port.' },
+  { id: 0x0019, key: 'serverUdpPort', name: 'Server UDP port', type: 'DWORD', group: 'server', max: 65535, description: 'Server UDP port.' },
+
+  // ── Reporting ────────────────────────────────────────────────────────────
+  { id: 0x0020, key: 'reportPolicy', name: 'Report policy', type: 'DWORD', group: 'reporting', options: { 0: 'Timed', 1: 'Distance', 2: 'Timed and distance' }, description: 'Location report scheduling policy.' },
+  { id: 0x0021, key: 'reportBasis', name: 'Report basis', type: 'DWORD', group: 'reporting', options: { 0: 'ACC state', 1: 'Login state, then ACC state' }, description: 'Which state selects the report interval.' },
+  { id: 0x0022, key: 'driverLoggedOutReportIntervalSec', name: 'Report interval (driver logged out)', type: 'DWORD', group: 'reporting', unit: 's', min: 1, description: 'Time report interval while no driver is logged in.' },
+  { id: 0x0027, key: 'sleepReportIntervalSec', name: 'Report interval (sleep)', type: 'DWORD', group: 'reporting', unit: 's', min: 1, description: 'Time report interval while asleep.' },
+  { id: 0x0028, key: 'emergencyReportIntervalSec', name: 'Report interval (emergency)', type: 'DWORD', group: 'reporting', unit: 's', min: 1, description: 'Time report interval during an emergency alarm.' },
+  { id: 0x0029, key: 'reportIntervalSec', name: 'Report interval', type: 'DWORD', group: 'reporting', unit: 's', min: 1, description: 'Default time report interval.' },
+  { id: 0x002c, key: 'reportDistanceM', name: 'Report distance', type: 'DWORD', group: 'reporting', unit: 'm', min: 1, description: 'Default distance report interval.' },
+  { id: 0x002d, key: 'driverLoggedOutReportDistanceM', name: 'Report distance (driver logged out)', type: 'DWORD', group: 'reporting', unit: 'm', min: 1, description: 'Distance report interval while no driver is logged in.' },
+  { id: 0x002e, key: 'sleepReportDistanceM', name: 'Report distance (sleep)', type: 'DWORD', group: 'reporting', unit: 'm', min: 1, description: 'Distance report interval while asleep.' },
+  { id: 0x002f, key: 'emergencyReportDistanceM', name: 'Report distance (emergency)', type: 'DWORD', group: 'reporting', unit: 'm', min: 1, description: 'Distance report interval during an emergency alarm.' },
+  { id: 0x0030, key: 'cornerCompensationDeg', name: 'Corner compensation angle', type: 'DWORD', group: 'reporting', unit: '°', max: 179, description: 'Heading change that triggers an extra report at a turn.' },
+
+  // ── Phone ────────────────────────────────────────────────────────────────
+  { id: 0x0040, key: 'platformPhone', name: 'Platform phone number', type: 'STRING', group: 'phone', description: 'Monitoring platform phone number.' },
+  { id: 0x0041, key: 'resetPhone', name: 'Reset phone number', type: 'STRING', group: 'phone', description: 'Calling the terminal from this number resets it.' },
+  { id: 0x0042, key: 'factoryResetPhone', name: 'Factory-reset phone number', type: 'STRING', group: 'phone', description: 'Calling the terminal from this number restores factory settings.' },
+  { id: 0x0043, key: 'platformSmsPhone', name: 'Platform SMS number', type: 'STRING', group: 'phone', description: 'Monitoring platform SMS number.' },
+  { id: 0x0044, key: 'alarmSmsPhone', name: 'Alarm SMS number', type: 'STRING', group: 'phone', description: 'Number that receives SMS alarm texts.' },
+  { id: 0x0045, key: 'callAnswerPolicy', name: 'Call answer policy', type: 'DWORD', group: 'phone', options: { 0: 'Auto answer', 1: 'Auto answer with ACC on, manual with ACC off' }, description: 'How the terminal answers incoming calls.' },
+  { id: 0x0046, key: 'maxCallDurationSec', name: 'Max call duration', type: 'DWORD', group: 'phone', unit: 's', description: 'Per call. 0 = calls not allowed, 0xFFFFFFFF = unlimited.' },
+  { id: 0x0047, key: 'maxMonthlyCallDurationSec', name: 'Max monthly call duration', type: 'DWORD', group: 'phone', unit: 's', description: 'Per month. 0 = calls not allowed, 0xFFFFFFFF = unlimited.' },
+  { id: 0x0048, key: 'monitorPhone', name: 'Monitor phone number', type: 'STRING', group: 'phone', description: 'Listen-in (monitoring) phone number.' },
+  { id: 0x0049, key: 'privilegedSmsNumber', name: 'Privileged SMS number', type: 'STRING', group: 'phone', description: 'Supervisory privileged SMS number.' },
+
+  // ── Alarm masks (bit positions follow the 0x0200 alarm flag) ─────────────
+  { id: 0x0050, key: 'alarmMask', name: 'Alarm mask', type: 'DWORD', group: 'alarm', description: 'A set bit suppresses the corresponding alarm.' },
+  { id: 0x0051, key: 'alarmSmsMask', name: 'Alarm SMS switch', type: 'DWORD', group: 'alarm', description: 'A set bit sends an SMS for the corresponding alarm.' },
+  { id: 0x0052, key: 'alarmCaptureMask', name: 'Alarm capture switch', type: 'DWORD', group: 'alarm', description: 'A set bit takes a camera capture for the corresponding alarm.' },
+  { id: 0x0053, key: 'alarmStoreMask', name: 'Alarm capture storage', type: 'DWORD', group: 'alarm', description: 'A set bit stores the capture locally instead of uploading it.' },
+  { id: 0x0054, key: 'criticalAlarmMask', name: 'Critical alarm flags', type: 'DWORD', group: 'alarm', description: 'A set bit marks the corresponding alarm as critical.' },
+
+  // ── Driving ──────────────────────────────────────────────────────────────
+  { id: 0x0055, key: 'maxSpeedKmh', name: 'Speed limit', type: 'DWORD', group: 'driving', unit: 'km/h', description: 'Overspeed alarm threshold.' },
+  { id: 0x0056, key: 'overspeedDurationSec', name: 'Overspeed duration', type: 'DWORD', group: 'driving', unit: 's', description: 'How long above the limit before the overspeed alarm.' },
+  { id: 0x0057, key: 'continuousDrivingLimitSec', name: 'Continuous driving limit', type: 'DWORD', group: 'driving', unit: 's', description: 'Fatigue-driving threshold.' },
+  { id: 0x0058, key: 'dailyDrivingLimitSec', name: 'Daily driving limit', type: 'DWORD', group: 'driving', unit: 's', description: 'Cumulative driving time per day.' },
+  { id: 0x0059, key: 'minRestSec', name: 'Minimum rest', type: 'DWORD', group: 'driving', unit: 's', description: 'Rest that resets the continuous driving timer.' },
+  { id: 0x005a, key: 'maxParkingSec', name: 'Maximum parking time', type: 'DWORD', group: 'driving', unit: 's', description: 'Parking timeout alarm threshold.' },
+
+  // ── Camera ───────────────────────────────────────────────────────────────
+  { id: 0x0070, key: 'imageQuality', name: 'Image quality', type: 'DWORD', group: 'camera', min: 1, max: 10, description: '1 is best.' },
+  { id: 0x0071, key: 'imageBrightness', name: 'Brightness', type: 'DWORD', group: 'camera', max: 255, description: 'Image brightness.' },
+  { id: 0x0072, key: 'imageContrast', name: 'Contrast', type: 'DWORD', group: 'camera', max: 127, description: 'Image contrast.' },
+  { id: 0x0073, key: 'imageSaturation', name: 'Saturation', type: 'DWORD', group: 'camera', max: 127, description: 'Image saturation.' },
+  { id: 0x0074, key: 'imageChroma', name: 'Chroma', type: 'DWORD', group: 'camera', max: 255, description: 'Image chroma.' },
+
+  // ── Vehicle ──────────────────────────────────────────────────────────────
+  { id: 0x0080, key: 'odometer', name: 'Odometer', type: 'DWORD', group: 'vehicle', unit: '0.1 km', description: 'Vehicle odometer reading.' },
+  { id: 0x0081, key: 'provinceId', name: 'Province ID', type: 'WORD', group: 'vehicle', description: 'Vehicle province ID.' },
+  { id: 0x0082, key: 'cityId', name: 'City ID', type: 'WORD', group: 'vehicle', description: 'Vehicle city ID.' },
+  { id: 0x0083, key: 'licensePlate', name: 'License plate', type: 'STRING', group: 'vehicle', description: 'License plate issued by the traffic authority.' },
+  { id: 0x0084, key: 'plateColor', name: 'Plate color', type: 'BYTE', group: 'vehicle', description: 'License plate color code (JT/T 415-2006 §5.4.12).' },
+  { id: 0x0090, key: 'gnssMode', name: 'Positioning mode', type: 'BYTE', group: 'vehicle', options: { 1: 'GPS', 2: 'BeiDou', 3: 'GPS + BeiDou' }, description: 'Satellite systems used for positioning.' },
+
+  // ── D450 vendor parameters ───────────────────────────────────────────────
+  { id: 0x2001, key: 'clearDtcs', name: 'Clear fault codes', type: 'BYTE', group: 'obd', action: true, options: ONE_SHOT, description: 'One-shot: 1 clears the OBD fault codes.' },
+  { id: 0x2002, key: 'clearVehicleData', name: 'Clear vehicle data', type: 'BYTE', group: 'device', action: true, options: ONE_SHOT, description: 'One-shot: 1 clears stored vehicle data.' },
+  { id: 0x2003, key: 'clearTripData', name: 'Clear trip data', type: 'BYTE', group: 'device', action: true, options: ONE_SHOT, description: 'One-shot: 1 clears stored driving trip data.' },
+  { id: 0x2004, key: 'totalFuelMl', name: 'Total fuel consumption', type: 'DWORD', group: 'obd', unit: 'ml', description: 'Cumulative fuel consumption counter.' },
+  { id: 0x2006, key: 'coolantTempAlarmC', name: 'Coolant temperature alarm', type: 'DWORD', group: 'obd', unit: '°C', description: 'Water temperature alarm threshold.' },
+  { id: 0x2007, key: 'harshAccelSensitivity', name: 'Harsh acceleration sensitivity', type: 'BYTE', group: 'driving', options: SENSITIVITY, description: 'Sudden acceleration detection level (§3.10).' },
+  { id: 0x2008, key: 'harshBrakeSensitivity', name: 'Harsh braking sensitivity', type: 'BYTE', group: 'driving', options: SENSITIVITY, description: 'Sudden deceleration detection level (§3.11).' },
+  { id: 0x2009, key: 'sharpTurnSensitivity', name: 'Sharp turn sensitivity', type: 'BYTE', group: 'driving', options: SENSITIVITY, description: 'Sharp turn detection level (§3.12).' },
+  { id: 0x200a, key: 'vehicleTypeId', name: 'Vehicle type ID', type: 'WORD', group: 'obd', description: "Vehicle model code from the manufacturer's model list." },
+  { id: 0x200b, key: 'lowVoltageAlarm', name: 'Low voltage alarm', type: 'DWORD', group: 'alarm', unit: '0.1 V', description: 'Battery low-voltage alarm threshold.' },
+  { id: 0x200c, key: 'idleAlarmSec', name: 'Excessive idle alarm', type: 'DWORD', group: 'alarm', unit: 's', description: 'Idle time before the excessive-idle alarm.' },
+  { id: 0x200d, key: 'gnssTimeoutAlarmSec', name: 'Positioning timeout alarm', type: 'DWORD', group: 'alarm', unit: 's', description: 'Time without a fix before the positioning-timeout alarm.' },
+  { id: 0x200e, key: 'towAlarm', name: 'Tow alarm', type: 'STRING', group: 'alarm', pattern: '^[01],\\d+,\\d+$', description: 'enable,speed,duration — alarm (1) when moving above speed km/h (>15) for duration s (>20) with ACC off (§3.15).' },
+  { id: 0x200f, key: 'collisionSensitivity', name: 'Collision sensitivity', type: 'BYTE', group: 'alarm', options: SENSITIVITY, description: 'Collision alarm detection level (§3.16).' },
+  { id: 0x2010, key: 'privilegedNumbers', name: 'Privileged numbers', type: 'STRING', group: 'phone', description: 'Numbers allowed to query and configure the terminal by SMS.' },
+  { id: 0x2011, key: 'ignitionThreshold', name: 'Ignition voltage threshold', type: 'DWORD', group: 'obd', unit: '0.1 V', description: 'Battery voltage above which the engine counts as running.' },
+  { id: 0x2012, key: 'mileageFuelSource', name: 'Mileage / fuel source', type: 'WORD', group: 'obd', description: 'High byte: mileage source (0x01 GPS, 0x07 OBD instrument, 0xFF keep). Low byte: fuel source (0x06 OBD1, 0x07 OBD2, 0xFF keep). 0x00 cancels the forced setting.' },
+  { id: 0x2013, key: 'mileageFactor', name: 'Mileage factor', type: 'WORD', group: 'obd', unit: '1/1000', description: 'Mileage correction, e.g. 1020 = ×1.02.' },
+  { id: 0x2014, key: 'fuelFactor', name: 'Fuel consumption factor', type: 'WORD', group: 'obd', unit: '1/1000', description: 'Fuel consumption correction, e.g. 1020 = ×1.02.' },
+  { id: 0x2015, key: 'fuelDensity', name: 'Fuel density', type: 'WORD', group: 'obd', unit: 'g/L', description: 'E.g. diesel 0# 835, gasoline 92# 725, gasoline 95# 737.' },
+  { id: 0x2016, key: 'idleFuelFactor', name: 'Idle fuel factor', type: 'WORD', group: 'obd', unit: '1/1000', description: 'Idle fuel consumption correction, e.g. 1020 = ×1.02.' },
+  { id: 0x2017, key: 'obdEnabled', name: 'OBD', type: 'BYTE', group: 'obd', options: ON_OFF, description: 'OBD data collection on/off.' },
+  { id: 0x2018, key: 'locationSendOrder', name: 'Location send order', type: 'BYTE', group: 'reporting', options: { 0: 'First in, first out', 1: 'Real-time first' }, description: 'Order in which buffered location data is sent.' },
+  { id: 0x2019, key: 'emergencyPaddingSec', name: 'Emergency alarm padding', type: 'BYTE', group: 'alarm', unit: 's', max: 10, description: 'Extra 0x0200 data before and after an emergency event. 0 disables.' },
+  { id: 0x201a, key: 'readDtcs', name: 'Read fault codes', type: 'BYTE', group: 'obd', action: true, options: ONE_SHOT, description: 'One-shot: 1 reads the OBD fault codes and reports them via 0x0900/0xF2.' },
+  { id: 0x201b, key: 'wifi', name: 'Wi-Fi', type: 'STRING', group: 'device', pattern: '^[01],[^,]*,.*$', description: 'enable,ssid,password (§3.9).' },
+  { id: 0x201c, key: 'sleepWakeIntervalSec', name: 'Sleep wake-up interval', type: 'DWORD', group: 'device', unit: 's', min: 300, description: 'How often a sleeping terminal wakes. Minimum 5 minutes.' },
+  { id: 0x201d, key: 'harshAccelThresholdMg', name: 'Harsh acceleration threshold', type: 'WORD', group: 'driving', unit: 'mg', description: 'Acceleration that counts as harsh.' },
+  { id: 0x201e, key: 'harshBrakeThresholdMg', name: 'Harsh braking threshold', type: 'WORD', group: 'driving', unit: 'mg', description: 'Deceleration that counts as harsh.' },
+  { id: 0x201f, key: 'sharpTurnThresholdMg', name: 'Sharp turn threshold', type: 'WORD', group: 'driving', unit: 'mg', description: 'Lateral acceleration that counts as a sharp turn.' },
+  { id: 0x2020, key: 'brakeParams', name: 'Braking parameters', type: 'BYTES', group: 'driving', minLength: 2, maxLength: 2, description: 'Byte 0: speed-difference threshold km/h (default 9). Byte 1: speed threshold km/h (default 0).' },
+  { id: 0x2021, key: 'emergencyBrakeSpeedDeltaKmh', name: 'Emergency brake threshold', type: 'BYTE', group: 'driving', unit: 'km/h', description: 'Speed difference that counts as emergency braking (default 18).' },
+  { id: 0x2022, key: 'overRevRpm', name: 'Over-rev threshold', type: 'WORD', group: 'driving', unit: 'rpm', description: 'Engine speed alarm threshold (default 2400).' },
+  { id: 0x2023, key: 'ptoIdleRpm', name: 'PTO idle threshold', type: 'WORD', group: 'driving', unit: 'rpm', description: 'PTO idle engine speed threshold (default 1000).' },
+  { id: 0x2024, key: 'logUpload', name: 'Log upload', type: 'BYTE', group: 'device', options: ON_OFF, description: 'Device log upload; switches itself off after 20 minutes.' },
+  { id: 0x2025, key: 'ignitionDelaySec', name: 'Ignition delay', type: 'WORD', group: 'obd', unit: 's', description: 'Delay before ignition is reported.' },
+  { id: 0x2026, key: 'accLineValid', name: 'ACC line', type: 'BYTE', group: 'device', options: { 0: 'Not connected', 1: 'Connected' }, description: 'Whether the ACC wire is wired up.' },
+  { id: 0x2027, key: 'obdStreamIntervalMs', name: 'OBD stream frame interval', type: 'WORD', group: 'obd', unit: 'ms', min: 70, description: 'Minimum interval between OBD data-stream frames (default 70).' },
+  { id: 0x2028, key: 'obdReportIntervalSec', name: 'OBD report interval', type: 'WORD', group: 'obd', unit: 's', min: 1, description: 'Interval of OBD data in 0x0200 reports (default 60).' },
+  { id: 0x2029, key: 'bleAuthCode', name: 'Bluetooth auth code', type: 'BYTES', group: 'device', maxLength: 50, description: 'Bluetooth authorization code.' },
+  { id: 0x202a, key: 'bleName', name: 'Bluetooth name', type: 'STRING', group: 'device', minLength: 8, maxLength: 35, description: 'Bluetooth device name.' },
+  { id: 0x202b, key: 'bleMac', name: 'Bluetooth MAC', type: 'STRING', group: 'device', readOnly: true, description: 'Bluetooth MAC address, e.g. 44A6E5148CFE.' },
+  { id: 0x202c, key: 'serial1Baud', name: 'Serial port 1 baud rate', type: 'BYTE', group: 'device', options: BAUD_RATES, description: 'Other values mean 115200.' },
+  { id: 0x202d, key: 'serial2Baud', name: 'Serial port 2 baud rate', type: 'BYTE', group: 'device', options: BAUD_RATES, description: 'Other values mean 115200.' },
+  { id: 0x202e, key: 'canReportIntervalSec', name: 'CAN report interval (ACC on)', type: 'WORD', group: 'obd', unit: 's', description: 'CAN pass-through (0x0705) interval with ACC on (default 5).' },
+  { id: 0x202f, key: 'canReportIntervalAccOffSec', name: 'CAN report interval (ACC off)', type: 'WORD', group: 'obd', unit: 's', description: 'CAN pass-through (0x0705) interval with ACC off (default 60).' },
+  { id: 0x2030, key: 'buzzerEnabled', name: 'Buzzer', type: 'BYTE', group: 'device', options: ON_OFF, description: 'Buzzer on/off.' },
+  { id: 0x2050, key: 'canFilterTable', name: 'CAN ID filter table', type: 'BYTES', group: 'obd', minLength: 1, maxLength: 113, description: 'Group count (≤ 14; 0xAA = report all, 0x00 = none), then per group CAN ID[4] + mask[4].' },
+];
+
+const BY_ID = new Map(PARAM_DEFS.map((d) => [d.id, d]));
+
+export function paramDef(id: number): ParamDef | undefined {
+  return BY_ID.get(id);
+}
+
+/** Wire width for numeric types; undefined for STRING / BYTES. */
+export function byteWidthOf(type: ParamType): 1 | 2 | 4 | undefined {
+  switch (type) {
+    case 'BYTE':
+      return 1;
+    case 'WORD':
+      return 2;
+    case 'DWORD':
+      return 4;
+    default:
+      return undefined;
+  }
+}
+
+export function formatParamId(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
+
+export type ParamValue = number | string;
+
+function decodeValue(def: ParamDef, raw: Buffer): ParamValue | null {
+  switch (def.type) {
+    case 'BYTE':
+    case 'WORD':
+    case 'DWORD':
+      return raw.length >= 1 && raw.length <= 4 ? raw.readUIntBE(0, raw.length) : null;
+    case 'STRING':
+      return raw.toString('utf8').replace(/\0+$/, '');
+    case 'BYTES':
+      return raw.toString('hex');
+  }
+}
+
+export interface DecodedParamSet {
+  /** By registry key. Multi-value parameters (repeated id) become arrays. */
+  values: Record<string, ParamValue | ParamValue[]>;
+  /** Ids the registry doesn't know, or values that didn't fit their type: id → hex. */
+  unknown: Record<string, string>;
+}
+
+/** Decode a 0x0104 TLV dump against the registry. */
+export function decodeParams(params: DecodedParam[]): DecodedParamSet {
+  const values: DecodedParamSet['values'] = {};
+  const unknown: DecodedParamSet['unknown'] = {};
+  for (const p of params) {
+    const def = paramDef(p.id);
+    const value = def ? decodeValue(def, p.raw) : null;
+    if (!def || value === null) {
+      unknown[formatParamId(p.id)] = p.raw.toString('hex');
+      continue;
+    }
+    const prev = values[def.key];
+    if (prev === undefined) values[def.key] = value;
+    else values[def.key] = Array.isArray(prev) ? [...prev, value] : [prev, value];
+  }
+  return { values, unknown };
+}
+
+/**
+ * Registry-keyed values of 0x8103 items, for mirroring an acked write onto
+ * `GpsTerminal.parameters`. One-shot actions and unknown ids are skipped.
+ */
+export function decodeParamValues(
+  items: Array<{ id: number; value: unknown }>,
+): Record<string, ParamValue> {
+  const values: Record<string, ParamValue> = {};
+  for (const it of items) {
+    const def = paramDef(it.id);
+    if (!def || def.action) continue;
+    if (typeof it.value === 'number' || typeof it.value === 'string') values[def.key] = it.value;
+  }
+  return values;
+}
+
+/** A 0x8103 item after validation: width / format come from the registry. */
+export interface NormalizedParamWrite {
+  id: number;
+  value: ParamValue;
+  byteWidth?: 1 | 2 | 4;
+  /** Set for BYTES parameters: `value` is hex, sent as raw bytes. */
+  format?: 'hex';
+}
+
+/**
+ * Validate one 0x8103 write against the registry. Throws with a message fit
+ * for a 400 when the id is unknown, read-only, or the value doesn't fit.
+ */
+export function normalizeParamWrite(item: { id: number; value: ParamValue }): NormalizedParamWrite {
+  const def = paramDef(item.id);
+  const label = formatParamId(item.id);
+  if (!def) throw new Error(`param ${label}: not a known terminal parameter`);
+  if (def.readOnly) throw new Error(`param ${label} (${def.name}) is read-only`);
+
+  const width = byteWidthOf(def.type);
+  if (width !== undefined) {
+    if (typeof item.value !== 'number' || !Number.isInteger(item.value)) {
+      throw new Error(`param ${label} (${def.name}): expected an integer`);
+    }
+    const min = def.min ?? 0;
+    const max = def.max ?? 2 ** (8 * width) - 1;
+    if (item.value < min || item.value > max) {
+      throw new Error(`param ${label} (${def.name}): must be ${min}–${max}`);
+    }
+    if (def.options && !(item.value in def.options)) {
+      throw new Error(
+        `param ${label} (${def.name}): must be one of ${Object.keys(def.options).join(', ')}`,
+      );
+    }
+    return { id: def.id, value: item.value, byteWidth: width };
+  }
+
+  if (typeof item.value !== 'string') {
+    throw new Error(`param ${label} (${def.name}): expected a string`);
+  }
+  let length: number;
+  if (def.type === 'BYTES') {
+    if (!/^([0-9a-f]{2})*$/i.test(item.value)) {
+      throw new Error(`param ${label} (${def.name}): expected a hex string`);
+    }
+    length = item.value.length / 2;
+  } else {
+    length = Buffer.byteLength(item.value, 'utf8');
+    if (def.pattern && !new RegExp(def.pattern).test(item.value)) {
+      throw new Error(`param ${label} (${def.name}): expected ${def.description}`);
+    }
+  }
+  const minLength = def.minLength ?? 0;
+  const maxLength = Math.min(def.maxLength ?? 255, 255);
+  if (length < minLength || length > maxLength) {
+    throw new Error(`param ${label} (${def.name}): length must be ${minLength}–${maxLength} bytes`);
+  }
+  return def.type === 'BYTES'
+    ? { id: def.id, value: item.value.toLowerCase(), format: 'hex' }
+    : { id: def.id, value: item.value };
+}
@@ -0,0 +1,139 @@
+/**
+ * JT/T 808 RSA message-body encryption (§1.9.10 + header bit 10).
+ *
+ * Keys are 1024-bit RSA exchanged as { e: DWORD, n: BYTE[128] } in the
+ * 0x8A00 / 0x0A00 messages. The standard leaves the block format open; we
+ * follow the common implementation: the body is cut into 117-byte chunks,
+ * each encrypted with PKCS#1 v1.5 into one 128-byte block, and the blocks
+ * are concatenated. The header's body length is the encrypted length.
+ *
+ * Decryption runs RSA with no padding and strips the PKCS#1 v1.5 block
+ * here: Node ≥ 20.11 refuses RSA_PKCS1_PADDING in privateDecrypt
+ * (CVE-2023-46809, Marvin). Hand-stripping the padding is exactly the
+ * Bleichenbacher oracle that CVE is about, so it uses implicit rejection
+ * (RFC 8017 errata / draft-irtf-cfrg-rsa-guidance): a block with bad
+ * padding decrypts to a synthetic message derived from the key and the
+ * ciphertext instead of throwing. Good and bad padding then reach the
+ * message handlers the same way and the reply says nothing about which it
+ * was. The codec also never decrypts for a session that hasn't
+ * authenticated (see jt808Adapter.decode).
+ */
+
+import crypto, { type KeyObject } from 'crypto';
+
+export const RSA_MODULUS_BYTES = 128;
+/** Largest plaintext PKCS#1 v1.5 fits into one 1024-bit block (128 − 11). */
+export const RSA_PLAIN_CHUNK_BYTES = RSA_MODULUS_BYTES - 11;
+
+export interface RsaPublicKeyComponents {
+  e: number;
+  /** Big-endian modulus, exactly RSA_MODULUS_BYTES long. */
+  n: Buffer;
+}
+
+export function rsaEncryptBody(body: Buffer, publicKey: KeyObject): Buffer {
+  const blocks: Buffer[] = [];
+  for (let off = 0; off < body.length; off += RSA_PLAIN_CHUNK_BYTES) {
+    blocks.push(
+      crypto.publicEncrypt(
+        { key: publicKey, padding: crypto.constants.RSA_PKCS1_PADDING },
+        body.subarray(off, off + RSA_PLAIN_CHUNK_BYTES),
+      ),
+    );
+  }
+  return Buffer.concat(blocks);
+}
+
+export function rsaDecryptBody(body: Buffer, privateKey: KeyObject): Buffer {
+  if (body.length % RSA_MODULUS_BYTES !== 0) {
+    throw new Error(`RSA body length ${body.length} is not a multiple of ${RSA_MODULUS_BYTES}`);
+  }
+  const kdk = rejectionKey(privateKey);
+  const chunks: Buffer[] = [];
+  for (let off = 0; off < body.length; off += RSA_MODULUS_BYTES) {
+    const ciphertext = body.subarray(off, off + RSA_MODULUS_BYTES);
+    const block = crypto.privateDecrypt(
+      { key: privateKey, padding: crypto.constants.RSA_NO_PADDING },
+      ciphertext,
+    );
+    chunks.push(stripPkcs1Type2(block, syntheticMessage(kdk, ciphertext)));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 0x00 0x02 <≥8 non-zero pad bytes> 0x00 <message>, or `synthetic` when
+ * the block doesn't match. The whole block is always scanned and nothing
+ * throws; JS can't promise constant time, but there is no early exit.
+ */
+function stripPkcs1Type2(block: Buffer, synthetic: Buffer): Buffer {
+  // Index of the first 0x00 after the type byte (0 if there is none),
+  // found by scanning backwards without branching on the data.
+  let sep = 0;
+  for (let i = block.length - 1; i >= 2; i--) {
+    const isZero = ((block[i] - 1) >>> 31) & 1;
+    sep = (sep & (isZero - 1)) | (i & -isZero);
+  }
+  const shortPad = ((sep - 10) >>> 31) & 1;
+  const bad = block[0] | (block[1] ^ 0x02) | shortPad;
+  return bad === 0 ? block.subarray(sep + 1) : synthetic;
+}
+
+/** Per-key secret for implicit rejection: SHA-256 of the private key. */
+const rejectionKeys = new WeakMap<KeyObject, Buffer>();
+
+function rejectionKey(privateKey: KeyObject): Buffer {
+  let kdk = rejectionKeys.get(privateKey);
+  if (!kdk) {
+    const der = privateKey.export({ format: 'der', type: 'pkcs8' });
+    kdk = crypto.createHash('sha256').update(der).digest();
+    rejectionKeys.set(privateKey, kdk);
+  }
+  return kdk;
+}
+
+/**
+ * Stand-in plaintext for a block with bad padding: 0..117 bytes, fixed for
+ * a given key and ciphertext so a resent block gets the same answer.
+ */
+function syntheticMessage(kdk: Buffer, ciphertext: Buffer): Buffer {
+  const prf = Buffer.from(
+    crypto.hkdfSync('sha256', kdk, ciphertext, 'JT808 PKCS#1 implicit rejection', RSA_PLAIN_CHUNK_BYTES + 2),
+  );
+  const length = prf.readUInt16BE(0) % (RSA_PLAIN_CHUNK_BYTES + 1);
+  return prf.subarray(2, 2 + length);
+}
+
+export function publicKeyFromComponents({ e, n }: RsaPublicKeyComponents): KeyObject {
+  const eBytes = Buffer.alloc(4);
+  eBytes.writeUInt32BE(e, 0);
+  return crypto.createPublicKey({
+    key: {
+      kty: 'RSA',
+      // JWK wants minimal big-endian encodings.
+      n: stripLeadingZeros(n).toString('base64url'),
+      e: stripLeadingZeros(eBytes).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
+
+export function publicKeyComponents(key: KeyObject): RsaPublicKeyComponents {
+  const jwk = key.export({ format: 'jwk' });
+  if (!jwk.n || !jwk.e) throw new Error('Not an RSA public key');
+  const n = Buffer.from(jwk.n, 'base64url');
+  if (n.length > RSA_MODULUS_BYTES) {
+    throw new Error(`RSA modulus is ${n.length * 8} bits; JT/T 808 carries 1024`);
+  }
+  const e = Buffer.from(jwk.e, 'base64url');
+  return {
+    e: e.reduce((acc, b) => acc * 256 + b, 0),
+    n: Buffer.concat([Buffer.alloc(RSA_MODULUS_BYTES - n.length), n]),
+  };
+}
+
+function stripLeadingZeros(buf: Buffer): Buffer {
+  let i = 0;
+  while (i < buf.length - 1 && buf[i] === 0) i++;
+  return buf.subarray(i);
+}
@@ -16,8 +16,13 @@ export interface MessageHeader {
   /** True when the original logical message was split across multiple frames. */
   isSubpackage: boolean;
   /**
-   * Phone-number / IMEI as 12 BCD digits (6 bytes). For 2019-spec terminals
-   * this is the 15-digit IMEI (left-padded with zeros if shorter).
+   * 2019 header protocol-version byte, or null for a 2013 header (version
+   * flag bit 14 clear). Drives which layout we use when replying.
+   */
+  protocolVersion: number | null;
+  /**
+   * Phone-number / IMEI as BCD digits: 12 digits (6 bytes) on 2013 headers,
+   * 20 digits (10 bytes) on 2019 headers. Left-padded with zeros.
    */
   phoneBcd: string;
   /** Per-message running serial number (16-bit). */
@@ -5,30 +5,39 @@
  *   1. Captures phoneBcd on the session if not yet set.
  *   2. Enforces the auth gate: any message OTHER than 0x0100 / 0x0102 from an
  *      unauthenticated session is dropped (and logged).
- *   3. Body-decodes per msgId and forwards to the appropriate handler.
- *   4. Sends 0x8001 (platform general response) for messages that need one.
+ *   3. Enforces the per-terminal encryption policy (plaintext bodies from a
+ *      requireEncryption terminal are refused).
+ *   4. Body-decodes per msgId and forwards to the appropriate handler.
+ *   5. Sends 0x8001 (platform general response) for messages that need one.
  *
  * Phase 0 only knows about the registration / auth / heartbeat path. Unknown
  * msgIds are acked with `result=UNSUPPORTED` (3) so the device stops retrying
  * but the socket stays alive — required by spec §1.7.
  */
 
-import { MsgId, PlatformResult } from '../codec/constants';
+import { EncryptType, MsgId, PlatformResult } from '../codec/constants';
 import * as m0001 from '../codec/messages/m0001-terminal-general-response';
 import * as m0002 from '../codec/messages/m0002-heartbeat';
+import * as m0003 from '../codec/messages/m0003-logout';
 import * as m0100 from '../codec/messages/m0100-register';
 import * as m0102 from '../codec/messages/m0102-auth';
 import { handleRegister } from './handleRegister';
 import { handleAuth } from './handleAuth';
 import { handleHeartbeat } from './handleHeartbeat';
+import { handleLogout } from './handleLogout';
+import { handleTerminalRsaKey } from './handleRsaKey';
 import { handleTerminalGeneralResponse } from './handleTerminalGeneralResponse';
 import * as m0104 from '../codec/messages/m0104-query-params-response';
 import { handleLocation, handleBatchLocation } from './handleLocation';
 import { handlePassThrough } from './handlePassThrough';
 import { handleVersionInfo } from './handleVersionInfo';
+import { handleCanBroadcast } from './handleCanBroadcast';
+import { handleBmsDataFlow } from './handleBmsDataFlow';
+import { handleDriverIdentity, handleDrivingLicense } from './handleDriver';
+import { handleUpgradeResult } from './handleUpgradeResult';
+import { handleQueryParamsResponse } from './handleQueryParamsResponse';
 import * as m0205 from '../codec/messages/m0205-version-info';
 import iconv from 'iconv-lite';
-import prisma from '../../config/db';
 import { Prisma } from '@prisma/client';
 import * as commandService from '../../services/gps-command.service';
 import type { Session } from '../session/Session';
@@ -45,12 +54,25 @@ const PRE_AUTH_ALLOWED = new Set<number>([
   MsgId.TERMINAL_HEARTBEAT,
 ]);
 
+/**
+ * Messages accepted in plaintext from a terminal whose policy requires
+ * encryption: the handshake, the key exchange itself, and acks. Empty
+ * bodies (heartbeat, logout) have nothing to encrypt and always pass.
+ */
+const PLAINTEXT_ALLOWED = new Set<number>([
+  MsgId.TERMINAL_REGISTER,
+  MsgId.TERMINAL_AUTH,
+  MsgId.TERMINAL_GENERAL_RESPONSE,
+  MsgId.TERMINAL_RSA_PUBLIC_KEY,
+]);
+
 export async function dispatchFrame(session: Session, frame: DecodedFrame): Promise<void> {
   const { header, body } = frame;
 
-  // Capture phone identity on first frame.
+  // Capture phone identity (and header dialect, 2013 vs 2019) on first frame.
   if (!session.phoneBcd) {
     session.phoneBcd = header.phoneBcd;
+    session.protocolVersion = header.protocolVersion;
   }
 
   // Auth gate.
@@ -62,16 +84,30 @@ export async function dispatchFrame(session: Session, frame: DecodedFrame): Prom
     return;
   }
 
+  // Encryption policy gate (GpsTerminal.requireEncryption).
+  if (
+    session.requireEncryption &&
+    header.encryptType === EncryptType.NONE &&
+    body.length > 0 &&
+    !PLAINTEXT_ALLOWED.has(header.msgId)
+  ) {
+    session.log.warn('Dropping plaintext message from encryption-required terminal', {
+      msgId: `0x${header.msgId.toString(16).padStart(4, '0')}`,
+    });
+    session.ack(header.msgId, header.msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
   switch (header.msgId) {
     case MsgId.TERMINAL_REGISTER: {
-      const decoded = m0100.decode(body);
+      const decoded = m0100.decode(body, header.protocolVersion);
       await handleRegister(session, decoded, header.msgSerial);
       // handleRegister itself sends 0x8100 — no 0x8001 ack here.
       return;
     }
 
     case MsgId.TERMINAL_AUTH: {
-      const decoded = m0102.decode(body);
+      const decoded = m0102.decode(body, header.protocolVersion);
       await handleAuth(session, decoded, header.msgSerial);
       return;
     }
@@ -82,6 +118,19 @@ export async function dispatchFrame(session: Session, frame: DecodedFrame): Prom
       return;
     }
 
+    case MsgId.TERMINAL_LOGOUT: {
+      m0003.decode(body);
+      // handleLogout acks, then closes the session.
+      await handleLogout(session, header.msgSerial);
+      return;
+    }
+
+    case MsgId.TERMINAL_RSA_PUBLIC_KEY: {
+      // 0x0A00 — handler acks (or answers with 0x8A00).
+      await handleTerminalRsaKey(session, body, header.msgSerial);
+      return;
+    }
+
     case MsgId.TERMINAL_GENERAL_RESPONSE: {
       // Ack of one of OUR previously-sent commands. Spec §1.7 says NOT to ack
       // a 0x0001 (would create an infinite ack loop).
@@ -91,46 +140,9 @@ export async function dispatchFrame(session: Session, frame: DecodedFrame): Prom
     }
 
     case MsgId.QUERY_TERMINAL_PARAMS_RESPONSE: {
-      // 0x0104 — dedicated response to our 0x8104 query. The device replies
-      // with a TLV dump of ALL its parameters. We resolve the pending command
-      // so it doesn't time out, and do NOT send 0x8001 (it's a response msg).
-      const decoded0104 = m0104.decode(body);
-      session.log.info('Received 0x0104 param query response', {
-        replyToSerial: decoded0104.replyToSerial,
-        paramCount: decoded0104.paramCount,
-        actualParams: decoded0104.params.length,
-      });
-      // Resolve the pending 0x8104 command keyed by replyToSerial.
-      const pending0104 = session.pendingCommands.get(decoded0104.replyToSerial);
-      if (pending0104) {
-        clearTimeout(pending0104.timeoutHandle);
-        session.pendingCommands.delete(decoded0104.replyToSerial);
-        pending0104.resolve(0); // 0 = success
-      }
-      // Extract OBD-relevant config params and persist on the terminal row.
-      if (session.terminalId) {
-        const obdConfig: Record<string, unknown> = {};
-        for (const p of decoded0104.params) {
-          if (p.id === 0x2017 && p.raw.length >= 1) obdConfig.obdEnabled = p.raw.readUInt8(0);
-          if (p.id === 0x201a && p.raw.length >= 1) obdConfig.dtcReadFlag = p.raw.readUInt8(0);
-          if (p.id === 0x2012 && p.raw.length >= 1) obdConfig.mileageAndFuelType = p.raw.readUInt8(0);
-          if (p.id === 0x2013 && p.raw.length >= 4) obdConfig.mileageCoefficient = p.raw.readUInt32BE(0);
-          if (p.id === 0x2014 && p.raw.length >= 4) obdConfig.fuelCoefficient = p.raw.readUInt32BE(0);
-          if (p.id === 0x2015 && p.raw.length >= 4) obdConfig.fuelDensity = p.raw.readUInt32BE(0);
-          if (p.id === 0x2016 && p.raw.length >= 4) obdConfig.idleFuelCoefficient = p.raw.readUInt32BE(0);
-          // OBD interval parameters for scan timeout adjustment
-          if (p.id === 0x201b && p.raw.length >= 4) obdConfig.obdUploadIntervalSec = p.raw.readUInt32BE(0); // &3Z
-          if (p.id === 0x201c && p.raw.length >= 4) obdConfig.obdLargePacketIntervalSec = p.raw.readUInt32BE(0); // &5R
-          if (p.id === 0x201d && p.raw.length >= 1) obdConfig.obdDiagLogSetting = p.raw.readUInt8(0); // &5P
-        }
-        if (Object.keys(obdConfig).length > 0) {
-          session.log.info('OBD config from 0x0104 (decoded)', obdConfig);
-          void prisma.gpsTerminal.update({
-            where: { id: session.terminalId },
-            data: { parameters: obdConfig as Prisma.InputJsonValue },
-          }).catch(() => { /* best-effort */ });
-        }
-      }
+      // 0x0104 — dedicated response to our 0x8104 query (a TLV dump of ALL
+      // parameters). It is itself a response, so no 0x8001.
+      await handleQueryParamsResponse(session, m0104.decode(body));
       return;
     }
 
@@ -171,6 +183,36 @@ export async function dispatchFrame(session: Session, frame: DecodedFrame): Prom
       return;
     }
 
+    case MsgId.CAN_BROADCAST: {
+      // 0x020A — raw CAN frames; persisted verbatim for admin browsing.
+      await handleCanBroadcast(session, body, header.msgSerial);
+      return;
+    }
+
+    case MsgId.BMS_DATA_FLOW: {
+      // 0x0210 — EV per-cell voltage / temperature tables.
+      await handleBmsDataFlow(session, body, header.msgSerial);
+      return;
+    }
+
+    case MsgId.DRIVER_INFO: {
+      // 0x0702 — IC card insert / remove; drives trip + alarm attribution.
+      await handleDriverIdentity(session, body, header.msgSerial);
+      return;
+    }
+
+    case MsgId.DRIVING_LICENSE_DATA: {
+      // 0x0252 — magnetic-stripe driving license swipe.
+      await handleDrivingLicense(session, body, header.msgSerial);
+      return;
+    }
+
+    case MsgId.TERMINAL_UPGRADE_RESULT: {
+      // 0x0108 — outcome of an OTA image delivered over 0x8108.
+      await handleUpgradeResult(session, body, header.msgSerial);
+      return;
+    }
+
     case MsgId.DATA_UPLINK: {
       // 0x0900 — pass-through; the handler multiplexes on the inner subtype byte.
       await handlePassThrough(session, body, header.msgSerial);
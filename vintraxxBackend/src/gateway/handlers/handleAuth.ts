@@ -6,25 +6,34 @@
  * sends matches the one the platform issued in the previous 0x8100
  * response. On success:
  *   • binds the session to the GpsTerminal id
- *   • flips status → ONLINE, sets connectedAt
+ *   • flips status → ONLINE, sets connectedAt, takes the pod session lease
  *   • registers the session in SessionRegistry (closes any stale session
- *     for the same terminal)
+ *     for the same terminal, on this pod or — via gps_lease — on another)
  *   • when the 2019-spec auth body carries an IMEI, persists it to the
  *     `imei` metadata column (NOT used as the lookup key)
+ *   • records the header dialect (2013 vs 2019 + version byte) the session
+ *     opened with, so admins can see which firmware generation is deployed
  *   • acks with 0x8001 result=0
+ *   • restores the stored RSA key / encryption policy and sends 0x8A00
+ *     when the terminal encrypts (see handleRsaKey)
  *
  * On failure: 0x8001 result=1 (failure), close socket. The device retries
  * the full register → auth dance.
  */
 
 import prisma from '../../config/db';
+import type { Prisma } from '@prisma/client';
 import { MsgId, PlatformResult } from '../codec/constants';
 import { authCodeEquals } from '../services/auth-code';
 import { SessionRegistry } from '../session/SessionRegistry';
 import { emit as emitNotify } from '../../realtime/notify';
 import { dispatchQueuedForTerminal } from '../services/command-dispatcher';
+import { announceLease, leaseData } from '../services/pod-lease';
 import { authCodeLimiter } from '../services/rate-limit';
 import { enqueueCommand } from '../../services/gps-command.service';
+import { profileSetsParam } from '../../services/gps-config-profile.service';
+import { publicKeyFromComponents } from '../codec/rsa';
+import { offerPlatformRsaKey } from './handleRsaKey';
 import type { Session } from '../session/Session';
 import type { DecodedAuth } from '../codec/types';
 
@@ -60,7 +69,7 @@ export async function handleAuth(
   // incremented on EVERY attempt (success or fail) and reset on success —
   // this caps a brute-forcer to `capacity` attempts per window without
   // burdening a legitimate device that occasionally reconnects.
-  if (!authCodeLimiter.tryConsume(deviceIdentifier)) {
+  if (!(await authCodeLimiter.tryConsume(deviceIdentifier))) {
     session.log.warn('Auth rate-limit exceeded; closing', { deviceIdentifier });
     session.ack(MsgId.TERMINAL_AUTH, msgSerial, PlatformResult.FAILURE);
     session.close('auth rate limit');
@@ -85,6 +94,16 @@ export async function handleAuth(
     return;
   }
 
+  if (terminal.protocol !== 'JT808') {
+    session.log.warn('Auth attempt for a terminal provisioned with another protocol', {
+      terminalId: terminal.id,
+      protocol: terminal.protocol,
+    });
+    session.ack(MsgId.TERMINAL_AUTH, msgSerial, PlatformResult.FAILURE);
+    session.close('protocol mismatch at auth');
+    return;
+  }
+
   // If the terminal has NEVER_CONNECTED and no auth code on file (freshly
   // provisioned or re-created row), trust the device's identity via
   // deviceIdentifier and adopt whatever auth code it presents. This handles
@@ -120,36 +139,46 @@ export async function handleAuth(
   const incomingImei = body.imei && body.imei.length > 0 ? body.imei : null;
   const shouldUpdateImei = incomingImei !== null && incomingImei !== terminal.imei;
 
-  const now = new Date();
-  await prisma.gpsTerminal.update({
-    where: { id: terminal.id },
-    data: {
-      status: 'ONLINE',
-      connectedAt: now,
-      disconnectedAt: null,
-      lastHeartbeatAt: now,
-      firmwareVersion: body.softwareVersion || terminal.firmwareVersion,
-      ...(shouldUpdateImei ? { imei: incomingImei } : {}),
-      // Reset alarm bits so the first 0x0200 after reconnect re-evaluates
-      // the full alarm state from scratch instead of diffing against stale
-      // latched bits from the previous session.
-      lastAlarmBits: 0,
-    },
+  const now = await bindAuthenticatedSession(session, terminal.id, deviceIdentifier, {
+    firmwareVersion: body.softwareVersion || terminal.firmwareVersion,
+    ...(shouldUpdateImei ? { imei: incomingImei } : {}),
+    jt808Revision: session.protocolVersion !== null ? 2019 : 2013,
+    jt808ProtocolVersion: session.protocolVersion,
   });
 
-  session.bindTerminal({ terminalId: terminal.id, deviceIdentifier });
-  session.authenticated = true;
-  SessionRegistry.bind(session, terminal.id, deviceIdentifier);
-
   // Successful auth — clear the brute-force bucket.
-  authCodeLimiter.reset(deviceIdentifier);
+  await authCodeLimiter.reset(deviceIdentifier);
 
   session.ack(MsgId.TERMINAL_AUTH, msgSerial, PlatformResult.OK);
 
+  // RSA: restore the stored terminal key (downlink is encrypted from here
+  // on) and (re)send ours so the terminal is never holding a stale one.
+  session.requireEncryption = terminal.requireEncryption;
+  if (terminal.rsaPublicKeyN && terminal.rsaPublicKeyE !== null) {
+    try {
+      session.rsaPeerKey = publicKeyFromComponents({
+        e: terminal.rsaPublicKeyE,
+        n: Buffer.from(terminal.rsaPublicKeyN),
+      });
+    } catch (err) {
+      session.log.warn('Stored terminal RSA key unusable; waiting for a new 0x0A00', {
+        err: (err as Error).message,
+      });
+    }
+  }
+  if (terminal.requireEncryption || session.rsaPeerKey) {
+    if (!offerPlatformRsaKey(session) && terminal.requireEncryption) {
+      session.log.warn(
+        'Terminal requires encryption but GPS_RSA_PRIVATE_KEY_PATH is not configured; plaintext telemetry will be refused',
+      );
+    }
+  }
+
   session.log.info('Terminal authenticated', {
     terminalId: terminal.id,
     deviceIdentifier,
     imei: incomingImei ?? terminal.imei ?? null,
+    jt808Revision: session.protocolVersion !== null ? 2019 : 2013,
   });
 
   void emitNotify({
@@ -163,8 +192,12 @@ export async function handleAuth(
   // the last persisted fix is recent when the device goes offline at
   // ignition-off. We only enqueue when the terminal isn't already pinned —
   // markAcked clears the column once the device acks our 0x8103 so we
-  // don't spam a fresh command on every reconnect.
-  if (terminal.reportIntervalSec !== TARGET_REPORT_INTERVAL_SEC) {
+  // don't spam a fresh command on every reconnect. A configuration profile
+  // that sets the interval itself wins; pinning would fight it.
+  if (
+    terminal.reportIntervalSec !== TARGET_REPORT_INTERVAL_SEC &&
+    !(await profileSetsParam(terminal.id, PARAM_ID_LOCATION_REPORT_INTERVAL).catch(() => false))
+  ) {
     void enqueueCommand({
       terminalId: terminal.id,
       // System-issued: both originator columns null (schema allows it).
@@ -175,7 +208,6 @@ export async function handleAuth(
         {
           id: PARAM_ID_LOCATION_REPORT_INTERVAL,
           value: TARGET_REPORT_INTERVAL_SEC,
-          byteWidth: 4,
         },
       ],
     }).catch((err) => {
@@ -190,3 +222,42 @@ export async function handleAuth(
   // The dispatcher itself swallows errors and logs them.
   void dispatchQueuedForTerminal(terminal.id);
 }
+
+/**
+ * Put an identified terminal ONLINE on this session — the part of login
+ * every protocol adapter shares. One update flips the status, takes the
+ * pod session lease and clears the latched alarm bits (`data` adds the
+ * protocol's own columns); then the session is bound, registered, and the
+ * lease announced to the other pods. Returns the connect timestamp.
+ */
+export async function bindAuthenticatedSession(
+  session: Session,
+  terminalId: string,
+  deviceIdentifier: string,
+  data: Prisma.GpsTerminalUpdateInput,
+): Promise<Date> {
+  const now = new Date();
+  await prisma.gpsTerminal.update({
+    where: { id: terminalId },
+    data: {
+      ...data,
+      status: 'ONLINE',
+      connectedAt: now,
+      disconnectedAt: null,
+      lastHeartbeatAt: now,
+      // Session lease: downlink commands for this terminal route to us.
+      ...leaseData(session),
+      // Reset alarm bits so the first location report after reconnect
+      // re-evaluates the full alarm state from scratch instead of diffing
+      // against stale latched bits from the previous session.
+      lastAlarmBits: 0,
+    },
+  });
+
+  session.bindTerminal({ terminalId, deviceIdentifier });
+  session.authenticated = true;
+  SessionRegistry.bind(session, terminalId, deviceIdentifier);
+  // Other pods drop any session they still hold for this terminal.
+  void announceLease(session, terminalId);
+  return now;
+}
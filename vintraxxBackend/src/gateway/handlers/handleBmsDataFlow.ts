@@ -0,0 +1,70 @@
+/**
+ * 0x0210 — New-energy BMS data flow handler.
+ *
+ * Decodes the per-cell voltage / temperature tables and hands them to
+ * gps-ev.service, which writes a GpsEvSnapshot and opens / closes the
+ * EV_CELL_IMBALANCE and EV_OVER_TEMPERATURE alarms.
+ *
+ * Decode or persistence failures ack FAILURE without closing the session,
+ * same as 0x020A — battery telemetry must never cost us the location
+ * stream. A REVOKED terminal is dropped and closed, same as 0x0200.
+ */
+
+import prisma from '../../config/db';
+import { MsgId, PlatformResult } from '../codec/constants';
+import { decode as decodeBms, type DecodedBmsDataFlow } from '../codec/messages/m0210-bms-data-flow';
+import { recordBmsReport } from '../../services/gps-ev.service';
+import type { Session } from '../session/Session';
+
+export async function handleBmsDataFlow(
+  session: Session,
+  body: Buffer,
+  msgSerial: number,
+): Promise<void> {
+  if (!session.terminalId) return;
+
+  let decoded: DecodedBmsDataFlow;
+  try {
+    decoded = decodeBms(body);
+  } catch (err) {
+    session.log.warn('Failed to decode 0x0210', { err: (err as Error).message });
+    session.ack(MsgId.BMS_DATA_FLOW, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: session.terminalId },
+  });
+  if (!terminal) {
+    session.log.warn('Terminal vanished mid-session');
+    session.ack(MsgId.BMS_DATA_FLOW, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+  if (terminal.status === 'REVOKED') {
+    session.log.warn('BMS report from REVOKED terminal — closing', {
+      terminalId: terminal.id,
+    });
+    session.ack(MsgId.BMS_DATA_FLOW, msgSerial, PlatformResult.FAILURE);
+    session.close('terminal revoked mid-session');
+    return;
+  }
+
+  if (Object.keys(decoded.unknownItems).length > 0) {
+    session.log.info('0x0210 carried unknown BMS items', {
+      ids: Object.keys(decoded.unknownItems),
+    });
+  }
+
+  try {
+    await recordBmsReport(terminal, decoded);
+  } catch (err) {
+    session.log.warn('Failed to persist GpsEvSnapshot', {
+      err: (err as Error).message,
+      cells: decoded.cellVoltagesV.length,
+    });
+    session.ack(MsgId.BMS_DATA_FLOW, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  session.ack(MsgId.BMS_DATA_FLOW, msgSerial);
+}
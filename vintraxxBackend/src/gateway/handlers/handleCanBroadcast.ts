@@ -0,0 +1,62 @@
+/**
+ * 0x020A — CAN broadcast data stream handler.
+ *
+ * Decodes the CAN list and bulk-inserts one GpsCanFrame row per entry so
+ * admins can mine manufacturer-specific signals the standard OBD PIDs don't
+ * expose. No interpretation happens here; the bytes are stored verbatim.
+ *
+ * Decode or persistence failures ack FAILURE rather than closing the
+ * session — CAN capture is diagnostic data and must never cost us the
+ * location stream riding on the same socket.
+ */
+
+import prisma from '../../config/db';
+import { MsgId, PlatformResult } from '../codec/constants';
+import { decode as decodeCanBroadcast, type DecodedCanBroadcast } from '../codec/messages/m020a-can-broadcast';
+import type { Session } from '../session/Session';
+
+export async function handleCanBroadcast(
+  session: Session,
+  body: Buffer,
+  msgSerial: number,
+): Promise<void> {
+  if (!session.terminalId) return;
+
+  let decoded: DecodedCanBroadcast;
+  try {
+    decoded = decodeCanBroadcast(body);
+  } catch (err) {
+    session.log.warn('Failed to decode 0x020A', { err: (err as Error).message });
+    session.ack(MsgId.CAN_BROADCAST, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  if (decoded.truncated) {
+    session.log.warn('0x020A body shorter than declared entry count', {
+      declaredCount: decoded.declaredCount,
+      decodedCount: decoded.entries.length,
+    });
+  }
+
+  if (decoded.entries.length > 0) {
+    try {
+      await prisma.gpsCanFrame.createMany({
+        data: decoded.entries.map((e) => ({
+          terminalId: session.terminalId!,
+          reportedAt: decoded.reportedAt,
+          canId: BigInt(e.canId),
+          data: e.data,
+        })),
+      });
+    } catch (err) {
+      session.log.warn('Failed to persist GpsCanFrame rows', {
+        err: (err as Error).message,
+        count: decoded.entries.length,
+      });
+      session.ack(MsgId.CAN_BROADCAST, msgSerial, PlatformResult.FAILURE);
+      return;
+    }
+  }
+
+  session.ack(MsgId.CAN_BROADCAST, msgSerial);
+}
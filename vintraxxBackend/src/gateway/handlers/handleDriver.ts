@@ -0,0 +1,161 @@
+/**
+ * 0x0702 / 0x0252 — driver identification handlers.
+ *
+ *   • 0x0702: IC card inserted → identify driver; card removed → release.
+ *     A card the reader couldn't read (readResult ≠ 0) is logged and acked
+ *     without changing the current driver.
+ *   • 0x0252: magnetic-stripe license swipe. Login (or no login flag at all)
+ *     with license data identifies the driver; explicit logout releases.
+ *     A license the device itself flagged as not permitted is logged and
+ *     not attributed.
+ *
+ * Both ack OK once the message is understood, even if attribution was
+ * skipped (unpaired terminal, no identity key) — retrying wouldn't change
+ * the outcome. Decode or persistence failures ack FAILURE without closing
+ * the session, same as 0x020A / 0x0210.
+ */
+
+import prisma from '../../config/db';
+import type { GpsTerminal } from '@prisma/client';
+import { MsgId, PlatformResult } from '../codec/constants';
+import {
+  decode as decodeDriverIdentity,
+  DriverCardReadResult,
+  type DecodedDriverIdentity,
+} from '../codec/messages/m0702-driver-identity';
+import {
+  decode as decodeDrivingLicense,
+  type DecodedDrivingLicense,
+} from '../codec/messages/m0252-driving-license';
+import { identifyDriver, releaseDriver } from '../../services/gps-driver.service';
+import type { Session } from '../session/Session';
+
+export async function handleDriverIdentity(
+  session: Session,
+  body: Buffer,
+  msgSerial: number,
+): Promise<void> {
+  if (!session.terminalId) return;
+
+  let decoded: DecodedDriverIdentity;
+  try {
+    decoded = decodeDriverIdentity(body);
+  } catch (err) {
+    session.log.warn('Failed to decode 0x0702', { err: (err as Error).message });
+    session.ack(MsgId.DRIVER_INFO, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  const terminal = await loadTerminal(session, MsgId.DRIVER_INFO, msgSerial);
+  if (!terminal) return;
+
+  try {
+    if (decoded.status === 'REMOVED') {
+      await releaseDriver(terminal, decoded.at);
+    } else if (decoded.readResult !== DriverCardReadResult.OK) {
+      session.log.info('Driver IC card read failed on device', {
+        readResult: decoded.readResult,
+      });
+    } else {
+      await identifyDriver(
+        terminal,
+        {
+          name: decoded.name,
+          qualificationCode: decoded.qualificationCode,
+          issuingAuthority: decoded.issuingAuthority,
+          certificateExpiresAt: decoded.certificateExpiresAt,
+          idCardNumber: decoded.idCardNumber,
+        },
+        decoded.at,
+      );
+    }
+  } catch (err) {
+    session.log.warn('Failed to apply 0x0702 driver identity', {
+      err: (err as Error).message,
+    });
+    session.ack(MsgId.DRIVER_INFO, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  session.ack(MsgId.DRIVER_INFO, msgSerial);
+}
+
+export async function handleDrivingLicense(
+  session: Session,
+  body: Buffer,
+  msgSerial: number,
+): Promise<void> {
+  if (!session.terminalId) return;
+
+  let decoded: DecodedDrivingLicense;
+  try {
+    decoded = decodeDrivingLicense(body);
+  } catch (err) {
+    session.log.warn('Failed to decode 0x0252', { err: (err as Error).message });
+    session.ack(MsgId.DRIVING_LICENSE_DATA, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  const terminal = await loadTerminal(session, MsgId.DRIVING_LICENSE_DATA, msgSerial);
+  if (!terminal) return;
+
+  // 0x0252 carries no timestamp of its own; server receipt time is the
+  // closest we have.
+  const at = new Date();
+  try {
+    if (decoded.loginStatus === 'LOGOUT') {
+      await releaseDriver(terminal, at);
+    } else if (decoded.permitted === false) {
+      session.log.info('Driving license rejected by device; not attributing', {
+        licenseNumber: decoded.track.licenseNumber,
+      });
+    } else {
+      await identifyDriver(
+        terminal,
+        {
+          name: decoded.track.name,
+          licenseNumber: decoded.track.licenseNumber,
+          licenseType: decoded.track.licenseType,
+          idCardNumber: decoded.track.idCardNumber,
+        },
+        at,
+      );
+    }
+  } catch (err) {
+    session.log.warn('Failed to apply 0x0252 driving license', {
+      err: (err as Error).message,
+    });
+    session.ack(MsgId.DRIVING_LICENSE_DATA, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  session.ack(MsgId.DRIVING_LICENSE_DATA, msgSerial);
+}
+
+/**
+ * Fetch the session's terminal, acking FAILURE (and closing for REVOKED,
+ * same rule as 0x0200) when it can't be used. Returns null in that case.
+ */
+async function loadTerminal(
+  session: Session,
+  msgId: number,
+  msgSerial: number,
+): Promise<GpsTerminal | null> {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: session.terminalId! },
+  });
+  if (!terminal) {
+    session.log.warn('Terminal vanished mid-session');
+    session.ack(msgId, msgSerial, PlatformResult.FAILURE);
+    return null;
+  }
+  if (terminal.status === 'REVOKED') {
+    session.log.warn('Driver report from REVOKED terminal — closing', {
+      terminalId: terminal.id,
+    });
+    session.ack(msgId, msgSerial, PlatformResult.FAILURE);
+    session.close('terminal revoked mid-session');
+    return null;
+  }
+  return terminal;
+}
@@ -26,6 +26,22 @@ export async function handleHeartbeat(session: Session, msgSerial: number): Prom
     return;
   }
 
+  if (!(await touchTerminalHeartbeat(session))) {
+    session.ack(MsgId.TERMINAL_HEARTBEAT, msgSerial, PlatformResult.FAILURE);
+    session.close('terminal revoked mid-session');
+    return;
+  }
+
+  session.ack(MsgId.TERMINAL_HEARTBEAT, msgSerial);
+}
+
+/**
+ * Record liveness for the session's terminal. Returns false when the
+ * terminal was REVOKED (or deleted) mid-session — the caller refuses the
+ * ack and closes. Shared with the other protocol adapters' heartbeats.
+ */
+export async function touchTerminalHeartbeat(session: Session): Promise<boolean> {
+  if (!session.terminalId) return false;
   const terminal = await prisma.gpsTerminal.findUnique({
     where: { id: session.terminalId },
     select: { status: true },
@@ -35,14 +51,11 @@ export async function handleHeartbeat(session: Session, msgSerial: number): Prom
       terminalId: session.terminalId,
       status: terminal?.status,
     });
-    session.ack(MsgId.TERMINAL_HEARTBEAT, msgSerial, PlatformResult.FAILURE);
-    session.close('terminal revoked mid-session');
-    return;
+    return false;
   }
   await prisma.gpsTerminal.update({
     where: { id: session.terminalId },
-    data: { lastHeartbeatAt: now, status: 'ONLINE' },
+    data: { lastHeartbeatAt: session.lastHeartbeatAt ?? new Date(), status: 'ONLINE' },
   });
-
-  session.ack(MsgId.TERMINAL_HEARTBEAT, msgSerial);
+  return true;
 }
@@ -7,6 +7,8 @@
  *   2. Read the terminal once (we need ownerUserId + lastAlarmBits below).
  *   3. Insert one GpsLocation row per decoded entry. We use createMany() for
  *      0x0704 batch dumps so a 60-entry blind-area catch-up is one round-trip.
+ *      Fixless entries that carry 0xFB base-station data get a cell-tower
+ *      estimate instead of the stale coordinates (positionSource=CELL).
  *   4. Run alarm bit-diff against `lastAlarmBits` and the LATEST entry. For
  *      each newly-opened bit: open a GpsAlarm row + emit alarm.opened. For
  *      each newly-closed bit: close the open GpsAlarm + emit alarm.closed.
@@ -22,7 +24,11 @@
 import prisma from '../../config/db';
 import { Prisma, type GpsTerminal } from '@prisma/client';
 import { MsgId } from '../codec/constants';
-import { decode as decodeLocation, type DecodedLocation } from '../codec/messages/m0200-location';
+import {
+  decode as decodeLocation,
+  type DecodedLocation,
+  type DecodedObdLive,
+} from '../codec/messages/m0200-location';
 import { decode as decodeBatch } from '../codec/messages/m0704-batch-location';
 import { emit as emitNotify } from '../../realtime/notify';
 import { diffAlarms } from '../services/alarm-diff';
@@ -36,6 +42,10 @@ import {
 } from '../../services/gps-trip.service';
 import { ALARM_BITS } from '../codec/messages/m0200-location';
 import { onObdLiveArrived } from '../../services/gps-scan-report.service';
+import { recordPackSummary } from '../../services/gps-ev.service';
+import { estimateCellPosition } from '../../services/gps-cell-locator.service';
+import { evaluateParkedAlarms } from '../../services/gps-vehicle-status.service';
+import { evaluateTireAlarms, recordTireReadings } from '../../services/gps-tpms.service';
 import type { Session } from '../session/Session';
 
 export async function handleLocation(
@@ -58,79 +68,13 @@ export async function handleLocation(
     return;
   }
 
-  const terminal = await prisma.gpsTerminal.findUnique({
-    where: { id: session.terminalId },
-  });
-  if (!terminal) {
-    session.log.warn('Terminal vanished mid-session');
-    session.ack(MsgId.LOCATION_REPORT, msgSerial, 1);
-    return;
-  }
-
-  // CRITICAL #5: a REVOKED terminal must not keep persisting telemetry —
-  // including the GpsTerminal.status=ONLINE update at the end of this
-  // handler, which would silently un-revoke the row. Drop the packet and
-  // close the socket; the device retries via register/auth where REVOKED
-  // is properly rejected.
-  if (terminal.status === 'REVOKED') {
-    session.log.warn('Location report from REVOKED terminal — closing', {
-      terminalId: terminal.id,
-    });
+  const result = await ingestLocations(session, [decoded], rawFrameSnippet);
+  if (result !== 'ok') {
     session.ack(MsgId.LOCATION_REPORT, msgSerial, 1);
-    session.close('terminal revoked mid-session');
+    if (result === 'revoked') session.close('terminal revoked mid-session');
     return;
   }
-
-  await persistLocations(session.terminalId, [decoded], rawFrameSnippet);
-
-  // If the device shipped extended OBD PIDs alongside the location fix
-  // (containers 0xE1/0xEA/0xEB/0xEC), snapshot them and tell the Full Scan
-  // orchestrator. The orchestrator quietly no-ops when no scan is pending.
-  await persistObdSnapshot(terminal, decoded);
-
-  // Notify scan report service if OBD data arrived
-  const obd = decoded.additional?.obd;
-  if (obd) {
-    session.log.info('GPS scan hook: calling onObdLiveArrived', {
-      terminalId: terminal.id,
-      hasRpm: obd.rpm !== null,
-      hasCoolantTemp: obd.coolantTempC !== null,
-      hasVin: obd.vin !== null,
-    });
-    void onObdLiveArrived(terminal.id, obd, decoded);
-  }
-
-  const alarmTransitions = await processAlarmTransitions(terminal, decoded);
-  await processTrips(terminal, [decoded], alarmTransitions.openedOverspeed);
-
-  await prisma.gpsTerminal.update({
-    where: { id: session.terminalId },
-    data: {
-      status: 'ONLINE',
-      lastHeartbeatAt: new Date(),
-      lastAlarmBits: BigInt(decoded.alarmBits >>> 0),
-    },
-  });
-
   session.ack(MsgId.LOCATION_REPORT, msgSerial);
-
-  void emitNotify({
-    type: 'location.update',
-    terminalId: session.terminalId,
-    ownerUserId: terminal.ownerUserId,
-    data: {
-      reportedAt: decoded.reportedAt.toISOString(),
-      latitude: decoded.latitude,
-      longitude: decoded.longitude,
-      speedKmh: decoded.speedKmh,
-      heading: decoded.heading,
-      altitudeM: decoded.altitudeM,
-      accOn: decoded.accOn,
-      gpsFix: decoded.gpsFix,
-      alarmBits: decoded.alarmBits,
-      statusBits: decoded.statusBits,
-    },
-  });
 }
 
 export async function handleBatchLocation(
@@ -154,43 +98,73 @@ export async function handleBatchLocation(
     return;
   }
 
+  const result = await ingestLocations(session, batch.entries, body);
+  if (result !== 'ok') {
+    session.ack(MsgId.BATCH_LOCATION_REPORT, msgSerial, 1);
+    if (result === 'revoked') session.close('terminal revoked mid-session');
+    return;
+  }
+  session.ack(MsgId.BATCH_LOCATION_REPORT, msgSerial);
+}
+
+export type IngestResult = 'ok' | 'terminal-missing' | 'revoked';
+
+/**
+ * Steps 2–5 and 7 for one or more decoded entries, whatever protocol they
+ * arrived in — the JT/T 808 handlers above and the other protocol adapters
+ * all land here. The caller acks: FAILURE (and a close, when 'revoked') for
+ * anything but 'ok'.
+ *
+ * A single entry keeps `rawPayload` on its GpsLocation row; batches don't.
+ */
+export async function ingestLocations(
+  session: Session,
+  entries: DecodedLocation[],
+  rawPayload: Buffer,
+): Promise<IngestResult> {
+  if (!session.terminalId || entries.length === 0) return 'terminal-missing';
+
   const terminal = await prisma.gpsTerminal.findUnique({
     where: { id: session.terminalId },
   });
   if (!terminal) {
     session.log.warn('Terminal vanished mid-session');
-    session.ack(MsgId.BATCH_LOCATION_REPORT, msgSerial, 1);
-    return;
+    return 'terminal-missing';
   }
 
-  // CRITICAL #5: same REVOKED gate as the single-report path — refuse to
-  // persist (and refuse to flip status back to ONLINE) for a revoked
-  // terminal, then close.
+  // CRITICAL #5: a REVOKED terminal must not keep persisting telemetry —
+  // including the GpsTerminal.status=ONLINE update at the end of this
+  // function, which would silently un-revoke the row. The caller drops the
+  // packet and closes the socket; the device retries via register/auth
+  // where REVOKED is properly rejected.
   if (terminal.status === 'REVOKED') {
-    session.log.warn('Batch location from REVOKED terminal — closing', {
+    session.log.warn('Location report from REVOKED terminal — closing', {
       terminalId: terminal.id,
     });
-    session.ack(MsgId.BATCH_LOCATION_REPORT, msgSerial, 1);
-    session.close('terminal revoked mid-session');
-    return;
+    return 'revoked';
   }
 
-  await persistLocations(session.terminalId, batch.entries, body);
+  const positions = await persistLocations(terminal.id, entries, rawPayload);
 
   // Sort entries chronologically before any per-pair derivations (trip
   // distance, harsh-event detection). Devices send oldest→newest most of
   // the time but we don't want to bet on it.
-  const sortedAsc = [...batch.entries].sort(
+  const sortedAsc = [...entries].sort(
     (a, b) => a.reportedAt.getTime() - b.reportedAt.getTime(),
   );
   const latest = sortedAsc[sortedAsc.length - 1];
+  const latestPosition = positions[entries.indexOf(latest)];
 
-  // Persist any OBD telemetry the device piggybacked on the LATEST batch
-  // entry. We could iterate the whole batch but OBD live data is high
-  // cardinality + low value if it's already minutes old.
+  // If the device shipped extended OBD PIDs (containers 0xE1/0xEA/0xEB/0xEC),
+  // snapshot them from the LATEST entry only — OBD live data is high
+  // cardinality and low value once it's minutes old.
   await persistObdSnapshot(terminal, latest);
+  await persistEvPackSummary(terminal, latest);
+  // Tire pressure is the exception: the history is what makes a slow leak
+  // visible, so every entry's table is kept.
+  await recordTireReadings(terminal.id, sortedAsc);
 
-  // Notify scan report service if OBD data arrived
+  // Tell the Full Scan orchestrator; it quietly no-ops when no scan is pending.
   const obd = latest.additional?.obd;
   if (obd) {
     session.log.info('GPS scan hook: calling onObdLiveArrived', {
@@ -206,10 +180,12 @@ export async function handleBatchLocation(
   // not generate a flap of open/close events for transient states the
   // device already resolved before the network came back.
   const alarmTransitions = await processAlarmTransitions(terminal, latest);
+  await evaluateParkedAlarms(terminal, latest, latestPosition);
+  await evaluateTireAlarms(terminal, latest, latestPosition);
   await processTrips(terminal, sortedAsc, alarmTransitions.openedOverspeed);
 
   await prisma.gpsTerminal.update({
-    where: { id: session.terminalId },
+    where: { id: terminal.id },
     data: {
       status: 'ONLINE',
       lastHeartbeatAt: new Date(),
@@ -217,25 +193,26 @@ export async function handleBatchLocation(
     },
   });
 
-  session.ack(MsgId.BATCH_LOCATION_REPORT, msgSerial);
-
   void emitNotify({
     type: 'location.update',
-    terminalId: session.terminalId,
+    terminalId: terminal.id,
     ownerUserId: terminal.ownerUserId,
     data: {
       reportedAt: latest.reportedAt.toISOString(),
-      latitude: latest.latitude,
-      longitude: latest.longitude,
+      latitude: latestPosition.latitude,
+      longitude: latestPosition.longitude,
       speedKmh: latest.speedKmh,
       heading: latest.heading,
       altitudeM: latest.altitudeM,
       accOn: latest.accOn,
       gpsFix: latest.gpsFix,
+      positionSource: latestPosition.positionSource,
+      accuracyM: latestPosition.accuracyM,
       alarmBits: latest.alarmBits,
       statusBits: latest.statusBits,
     },
   });
+  return 'ok';
 }
 
 /**
@@ -272,6 +249,7 @@ async function processAlarmTransitions(
         data: {
           terminalId: terminal.id,
           ownerUserId: terminal.ownerUserId,
+          driverId: terminal.currentDriverId,
           type: desc.type,
           severity: desc.severity,
           openedAt: decoded.reportedAt,
@@ -407,23 +385,78 @@ async function processTrips(
   }
 }
 
+interface ResolvedPosition {
+  latitude: number;
+  longitude: number;
+  positionSource: 'GNSS' | 'CELL';
+  accuracyM: number | null;
+}
+
+/**
+ * Where to plot an entry. A GNSS fix is used as-is. Without one the device
+ * repeats its last good coordinates, so if it also sent 0xFB base-station
+ * data and the tower table knows the cells, the cell estimate replaces
+ * them. Anything else (no 0xFB, unknown towers, lookup error) falls back to
+ * the reported coordinates — still GNSS-sourced, just stale, as before.
+ *
+ * Only persistence and the live fan-out use this. Trips keep the raw
+ * coordinates so a jumpy cell estimate never adds phantom distance.
+ */
+async function resolvePosition(e: DecodedLocation): Promise<ResolvedPosition> {
+  const reported: ResolvedPosition = {
+    latitude: e.latitude,
+    longitude: e.longitude,
+    positionSource: 'GNSS',
+    accuracyM: null,
+  };
+  const stations = e.additional.baseStations;
+  if (e.gpsFix || !stations) return reported;
+  try {
+    const estimate = await estimateCellPosition(stations);
+    if (!estimate) return reported;
+    return {
+      latitude: estimate.latitude,
+      longitude: estimate.longitude,
+      positionSource: 'CELL',
+      accuracyM: estimate.accuracyM,
+    };
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.warn('[handleLocation] cell-tower lookup failed', {
+      err: (err as Error).message,
+    });
+    return reported;
+  }
+}
+
 /**
  * Bulk persist. Uses Prisma createMany so a 0x0704 batch is one round-trip;
  * we lose the individual generated IDs but those aren't needed for the
  * real-time path (alarm linkage in Phase 2 will require a different write
  * shape and is the only consumer of the IDs).
+ *
+ * Returns the position stored for each entry, in `entries` order.
  */
 async function persistLocations(
   terminalId: string,
   entries: DecodedLocation[],
   rawPayloadHint: Buffer,
-): Promise<void> {
-  const data = entries.map((e) => ({
+): Promise<ResolvedPosition[]> {
+  const positions: ResolvedPosition[] = [];
+  for (const e of entries) positions.push(await resolvePosition(e));
+
+  const data = entries.map((e, i) => ({
     terminalId,
     alarmBits: BigInt(e.alarmBits >>> 0),
     statusBits: BigInt(e.statusBits >>> 0),
-    latitude: new Prisma.Decimal(e.latitude.toFixed(7)),
-    longitude: new Prisma.Decimal(e.longitude.toFixed(7)),
+    latitude: new Prisma.Decimal(positions[i].latitude.toFixed(7)),
+    longitude: new Prisma.Decimal(positions[i].longitude.toFixed(7)),
+    positionSource: positions[i].positionSource,
+    accuracyM: positions[i].accuracyM,
+    mcc: e.additional.baseStations?.mcc ?? null,
+    mnc: e.additional.baseStations?.mnc ?? null,
+    lac: e.additional.baseStations?.cells[0]?.lac ?? null,
+    cellId: e.additional.baseStations?.cells[0]?.cellId ?? null,
     altitudeM: e.altitudeM,
     speedKmh: new Prisma.Decimal(e.speedKmh.toFixed(1)),
     heading: e.heading,
@@ -447,6 +480,7 @@ async function persistLocations(
   }));
 
   await prisma.gpsLocation.createMany({ data });
+  return positions;
 }
 
 /**
@@ -457,6 +491,64 @@ async function persistLocations(
  * Quietly no-ops when the location packet carried no OBD data — keeping
  * this guard in one place avoids cluttering the main flow with `if (obd)`.
  */
+/**
+ * Typed 0xEC / 0xED / 0xEE fields without a GpsObdSnapshot column. They go
+ * into extraPidsJson under the same names, so a later column promotion is
+ * just a backfill from the JSON.
+ */
+const EXTRA_TYPED_KEYS: (keyof DecodedObdLive)[] = [
+  'clutchSwitchOn',
+  'brakeSwitchOn',
+  'exhaustBrakeOn',
+  'fuelTempC',
+  'brakePedalPct',
+  'netEngineTorquePct',
+  'frictionTorquePct',
+  'engineReferenceTorqueNm',
+  'engineTorqueMode',
+  'scrUpstreamNoxPpm',
+  'scrDownstreamNoxPpm',
+  'defTankTempC',
+  'defDosingMlh',
+  'defConsumedG',
+  'intakeAirFlowKgh',
+  'scrInletTempC',
+  'scrOutletTempC',
+  'dpfExhaustTempC',
+  'dpfDiffPressureKpa',
+  'smokeAbsorptionPerM',
+  'smokeOpacityPct',
+  'particulateMgM3',
+  'calibrationId',
+  'calibrationVerificationNumber',
+  'coolantLowAlarm',
+  'oilLowAlarm',
+  'airPressureAlarm',
+  'ratedLoadKg',
+  'evDcBusVoltageV',
+  'evDcBusCurrentA',
+  'evAvailableEnergyKwh',
+  'evPackCapacityAh',
+  'evAvgCellVoltageV',
+  'evAvgTempC',
+  'evBatteryTempC',
+  'evInsulationResistanceKohm',
+  'evAlarmBits',
+  'evBmsState',
+];
+
+function pickDefined(obd: DecodedObdLive, keys: (keyof DecodedObdLive)[]): Prisma.JsonObject {
+  const out: Prisma.JsonObject = {};
+  for (const key of keys) {
+    const v = obd[key];
+    if (typeof v === 'number' || typeof v === 'boolean' || typeof v === 'string') out[key] = v;
+  }
+  return out;
+}
+
+const decimalOrNull = (v: number | undefined, digits: number) =>
+  v !== undefined ? new Prisma.Decimal(v.toFixed(digits)) : null;
+
 async function persistObdSnapshot(
   terminal: GpsTerminal,
   decoded: DecodedLocation,
@@ -492,11 +584,34 @@ async function persistObdSnapshot(
             : null,
         mafGps:
           obd.mafGps !== undefined ? new Prisma.Decimal(obd.mafGps.toFixed(2)) : null,
+        fuelRateLph: decimalOrNull(obd.fuelRateLph, 2),
+        fuelConsumedL: decimalOrNull(obd.totalFuelL, 2),
         milOn: obd.milOn ?? null,
         milDistanceKm:
           obd.distanceWithMilKm !== undefined
             ? new Prisma.Decimal(obd.distanceWithMilKm.toFixed(1))
             : null,
+        doorStatusBits: obd.vehicleStatus?.doorBits ?? null,
+        lockStatusBits: obd.vehicleStatus?.lockBits ?? null,
+        lightStatusBits: obd.vehicleStatus?.lightBits ?? null,
+        gearPosition: obd.vehicleStatus?.gear ?? null,
+        accelMaxMg: obd.accelerometer?.maxMg ?? null,
+        accelSampleIntervalMs: obd.accelerometer?.sampleIntervalMs ?? null,
+        accelSamplesMg: obd.accelerometer?.samplesMg ?? [],
+        engineHours: decimalOrNull(obd.engineHours, 1),
+        defLevelPct: decimalOrNull(obd.defLevelPct, 1),
+        engineOilTempC: obd.engineOilTempC !== undefined ? Math.round(obd.engineOilTempC) : null,
+        engineOilPressureKpa: obd.engineOilPressureKpa ?? null,
+        parkingBrakeOn: obd.parkingBrakeOn ?? null,
+        ptoIdleActive: obd.ptoIdleActive ?? null,
+        axleWeightKg: obd.axleWeightKg ?? null,
+        evRangeKm: decimalOrNull(obd.evRangeKm, 1),
+        evChargingState: obd.evChargingState ?? null,
+        evChargerPlugged: obd.evChargerPlugged ?? null,
+        evMotorRpm: obd.evMotorRpm ?? null,
+        evMotorTorqueNm: obd.evMotorTorqueNm ?? null,
+        evMotorTempC: obd.evMotorTempC ?? null,
+        evSohPct: obd.evSohPct ?? null,
         extraPidsJson: {
           ...(obd.fuelLevelPct !== undefined ? { fuelLevelPct: obd.fuelLevelPct } : {}),
           ...(obd.acceleratorPct !== undefined ? { acceleratorPct: obd.acceleratorPct } : {}),
@@ -508,6 +623,9 @@ async function persistObdSnapshot(
           ...(obd.totalMileageKm !== undefined ? { totalMileageKm: obd.totalMileageKm } : {}),
           ...(obd.totalFuelL !== undefined ? { totalFuelL: obd.totalFuelL } : {}),
           ...(obd.diagnosticProtocol ? { diagnosticProtocol: obd.diagnosticProtocol } : {}),
+          ...(obd.vehicleStatus?.securityBits != null ? { securityStatusBits: obd.vehicleStatus.securityBits } : {}),
+          ...(obd.vehicleStatus?.windowBits != null ? { windowStatusBits: obd.vehicleStatus.windowBits } : {}),
+          ...pickDefined(obd, EXTRA_TYPED_KEYS),
           ...(Object.keys(obd.unknownPids).length > 0 ? { unknownPids: obd.unknownPids } : {}),
         },
       },
@@ -530,3 +648,41 @@ async function persistObdSnapshot(
       });
   }
 }
+
+/**
+ * Persist a NEV_LOCATION GpsEvSnapshot when the 0xED container carried the
+ * traction-pack summary (SOC / pack V / pack I, plus the cell extremes when
+ * sent). Per-cell data and the EV alarms come from 0x0210 instead — see
+ * handleBmsDataFlow.
+ */
+async function persistEvPackSummary(
+  terminal: GpsTerminal,
+  decoded: DecodedLocation,
+): Promise<void> {
+  const obd = decoded.additional.obd;
+  if (
+    !obd ||
+    (obd.evSocPct === undefined &&
+      obd.evPackVoltageV === undefined &&
+      obd.evPackCurrentA === undefined)
+  ) {
+    return;
+  }
+
+  try {
+    await recordPackSummary(terminal.id, decoded.reportedAt, {
+      socPct: obd.evSocPct,
+      packVoltageV: obd.evPackVoltageV,
+      packCurrentA: obd.evPackCurrentA,
+      minCellVoltageV: obd.evMinCellVoltageV,
+      maxCellVoltageV: obd.evMaxCellVoltageV,
+      maxCellTempC: obd.evMaxTempC,
+    });
+  } catch (err) {
+    // Same rule as the OBD snapshot: never NACK the location frame over it.
+    // eslint-disable-next-line no-console
+    console.warn('[handleLocation] failed to persist GpsEvSnapshot', {
+      err: (err as Error).message,
+    });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * 0x0003 — Terminal Logout handler.
+ *
+ * A logout is the device deliberately deregistering (unplugged for removal,
+ * factory reset), as opposed to a link that went quiet. On receipt we:
+ *   • ack with 0x8001 result=0 before tearing anything down
+ *   • clear the auth code — the device throws its copy away too, and must
+ *     run the full 0x0100 → 0x0102 dance before it can report again
+ *   • flip status → LOGGED_OUT (not OFFLINE, so the UIs and the watchdog
+ *     can tell the two apart) and stamp disconnectedAt
+ *   • close any OPEN GpsTrip at the last known position — nothing more will
+ *     arrive on this registration to close it by ACC-off
+ *   • emit `terminal.logout` and close the session
+ *
+ * A REVOKED terminal stays REVOKED; the session is still closed.
+ */
+
+import prisma from '../../config/db';
+import { MsgId, PlatformResult } from '../codec/constants';
+import { emit as emitNotify } from '../../realtime/notify';
+import { closeOpenTripsForTerminal } from '../../services/gps-trip.service';
+import type { Session } from '../session/Session';
+
+export async function handleLogout(session: Session, msgSerial: number): Promise<void> {
+  const terminalId = session.terminalId;
+  if (!terminalId) {
+    session.ack(MsgId.TERMINAL_LOGOUT, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  session.ack(MsgId.TERMINAL_LOGOUT, msgSerial, PlatformResult.OK);
+
+  const now = new Date();
+  const result = await prisma.gpsTerminal.updateMany({
+    where: { id: terminalId, status: { not: 'REVOKED' } },
+    data: {
+      status: 'LOGGED_OUT',
+      authCode: null,
+      authCodeIssuedAt: null,
+      disconnectedAt: now,
+      lastAlarmBits: 0,
+    },
+  });
+
+  let tripsClosed = 0;
+  try {
+    tripsClosed = await closeOpenTripsForTerminal(terminalId, 'logout');
+  } catch (err) {
+    // The idle sweep will still close them; don't keep the session open over it.
+    session.log.warn('Failed to close open trips on logout', {
+      terminalId,
+      err: (err as Error).message,
+    });
+  }
+
+  session.log.info('Terminal logged out', {
+    terminalId,
+    statusUpdated: result.count > 0,
+    tripsClosed,
+  });
+
+  if (result.count > 0) {
+    const row = await prisma.gpsTerminal.findUnique({
+      where: { id: terminalId },
+      select: { ownerUserId: true },
+    });
+    void emitNotify({
+      type: 'terminal.logout',
+      terminalId,
+      ownerUserId: row?.ownerUserId ?? null,
+      at: now.toISOString(),
+    });
+  }
+
+  session.authenticated = false;
+  session.close('terminal logout');
+}
@@ -10,8 +10,9 @@
  *                          terminal so the Refresh UI sees the result
  *   0xF3  Sleep entry    → log + mark terminal idle
  *   0xF4  Sleep wake     → log + treat as activity
- *   0xF6  Upgrade status → log + mark the pending upgrade command
- *   0xF7  Collision      → stash for the alarm pipeline (Phase 2)
+ *   0xF6  Upgrade status → log + settle the terminal's firmware campaign target
+ *   0xF7  Collision      → COLLISION GpsAlarm + GpsCollisionTrace (peak g,
+ *                          impact direction) via gps-collision.service
  *
  * Live OBD telemetry (RPM, coolant, fuel level, etc.) is NOT carried in
  * 0x0900 — the D450 reports it through 0x0200 extended TLVs under container
@@ -41,7 +42,8 @@ import {
   type TripLocationPoint,
 } from '../../services/gps-trip.service';
 import { updateSleepEvent } from '../../services/gps-command.service';
-import { emit as emitNotify } from '../../realtime/notify';
+import { recordUpgradeResult } from '../../services/gps-firmware.service';
+import { recordCollision } from '../../services/gps-collision.service';
 import type { Session } from '../session/Session';
 
 export async function handlePassThrough(
@@ -109,7 +111,7 @@ export async function handlePassThrough(
       handleUpgradeStatus(terminal, decoded.parsed as DecodedUpgradeStatus | null, session);
       break;
     case PassThroughSubtype.COLLISION:
-      handleCollision(terminal, decoded.parsed as DecodedCollision | null, session);
+      handleCollision(terminal, decoded.parsed as DecodedCollision | null, session, decoded.rawBody);
       break;
     default:
       session.log.info('Pass-through subtype not implemented', {
@@ -320,6 +322,22 @@ function handleUpgradeStatus(
     status: parsed?.status ?? 'unknown',
     rawStatus: parsed?.rawStatus ?? null,
   });
+  if (!parsed) return;
+
+  // `same_version` means the terminal already runs the image — the campaign
+  // goal is met, so it counts as a success rather than a failure.
+  const succeeded = parsed.status === 'success' || parsed.status === 'same_version';
+  void recordUpgradeResult(terminal.id, {
+    source: '0xF6',
+    succeeded,
+    resultCode: parsed.rawStatus,
+    errorText: succeeded ? null : `MCU upgrade status: ${parsed.status}`,
+  }).catch((err) => {
+    session.log.warn('handleUpgradeStatus: failed to record campaign result', {
+      terminalId: terminal.id,
+      err: (err as Error).message,
+    });
+  });
 }
 
 // ── 0xF7 — Suspected collision alarm ─────────────────────────────────────────
@@ -328,6 +346,7 @@ function handleCollision(
   terminal: GpsTerminal,
   parsed: DecodedCollision | null,
   session: Session,
+  rawBody: Buffer,
 ): void {
   if (!parsed) return;
   session.log.warn('Suspected collision (0xF7)', {
@@ -335,17 +354,15 @@ function handleCollision(
     level: parsed.level,
     latitude: parsed.latitude,
     longitude: parsed.longitude,
+    samples: parsed.samples.length,
     reportedAt: parsed.reportedAt.toISOString(),
   });
-  // Phase 2 alarm pipeline takes over from here; for now we surface the
-  // event on the real-time bus so dashboards can flash.
-  void emitNotify({
-    type: 'alarm.opened',
-    terminalId: terminal.id,
-    ownerUserId: terminal.ownerUserId,
-    alarmId: '',
-    alarmType: 'COLLISION_WARNING',
-    severity: parsed.level >= 2 ? 'CRITICAL' : 'WARNING',
-    at: parsed.reportedAt.toISOString(),
+  // recordCollision opens (or joins) the COLLISION alarm and fires the
+  // notify/push itself.
+  void recordCollision(terminal, parsed, rawBody).catch((err) => {
+    session.log.warn('handleCollision: failed to persist collision trace', {
+      terminalId: terminal.id,
+      err: (err as Error).message,
+    });
   });
 }
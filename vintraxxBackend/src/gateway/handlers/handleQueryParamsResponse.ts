@@ -0,0 +1,65 @@
+/**
+ * 0x0104 — Query Terminal Parameters Response handler.
+ *
+ * The device answers our 0x8104 with a TLV dump of ALL its parameters. We:
+ *   1. Resolve the pending 0x8104 command (keyed by replyToSerial) so it
+ *      doesn't time out; the decoded values land in its `response`.
+ *   2. Decode every entry against the parameter registry and replace
+ *      `GpsTerminal.parameters` with the result:
+ *        { queriedAt, values: { <registry key>: value }, unknown: { <id>: hex } }
+ *   3. Mirror the heartbeat / report intervals onto their typed columns.
+ *   4. Compare the dump with the terminal's configuration profile, if any
+ *      (IN_SYNC / DRIFTED).
+ *
+ * No 0x8001 — 0x0104 is itself a response.
+ */
+
+import prisma from '../../config/db';
+import { Prisma } from '@prisma/client';
+import type { Session } from '../session/Session';
+import type { DecodedQueryParamsResponse } from '../codec/messages/m0104-query-params-response';
+import { decodeParams } from '../codec/param-registry';
+import { recordConfigReadBack } from '../../services/gps-config-profile.service';
+
+export async function handleQueryParamsResponse(
+  session: Session,
+  decoded: DecodedQueryParamsResponse,
+): Promise<void> {
+  const { values, unknown } = decodeParams(decoded.params);
+  session.log.info('Received 0x0104 param query response', {
+    replyToSerial: decoded.replyToSerial,
+    paramCount: decoded.paramCount,
+    decoded: Object.keys(values).length,
+    unknown: Object.keys(unknown).length,
+  });
+
+  const pending = session.pendingCommands.get(decoded.replyToSerial);
+  if (pending) {
+    clearTimeout(pending.timeoutHandle);
+    session.pendingCommands.delete(decoded.replyToSerial);
+    pending.resolve(0, { result: 0, values, unknown } as Prisma.InputJsonValue);
+  }
+
+  if (!session.terminalId) return;
+  const data: Prisma.GpsTerminalUpdateInput = {
+    parameters: {
+      queriedAt: new Date().toISOString(),
+      values,
+      unknown,
+    } as Prisma.InputJsonValue,
+  };
+  if (typeof values.heartbeatIntervalSec === 'number') {
+    data.heartbeatIntervalSec = values.heartbeatIntervalSec;
+  }
+  if (typeof values.reportIntervalSec === 'number') {
+    data.reportIntervalSec = values.reportIntervalSec;
+  }
+  await prisma.gpsTerminal
+    .update({ where: { id: session.terminalId }, data })
+    .catch((err) =>
+      session.log.warn('Persisting 0x0104 parameters failed', { err: (err as Error).message }),
+    );
+  await recordConfigReadBack(session.terminalId, values).catch((err) =>
+    session.log.warn('Config profile drift check failed', { err: (err as Error).message }),
+  );
+}
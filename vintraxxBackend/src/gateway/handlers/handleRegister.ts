@@ -10,10 +10,12 @@
  *      the IMEI. The protocol itself never says "IMEI"; we just use whatever
  *      the device sent in its header (leading zeros stripped).
  *   3. Look up GpsTerminal by deviceIdentifier:
- *        • Found + REVOKED → reply NO_SUCH_TERMINAL, close.
+ *        • Found + REVOKED, or provisioned as another protocol (GT06)
+ *          → reply NO_SUCH_TERMINAL, close.
  *        • Not found + GPS_AUTO_PROVISION=false → reply NO_SUCH_TERMINAL, close.
  *        • Not found + GPS_AUTO_PROVISION=true  → create + reply OK + new auth code.
- *        • Found → update metadata, rotate auth code, reply OK.
+ *        • Found → update metadata, rotate auth code, drop the stored RSA
+ *          key, reply OK.
  *   4. Leave GpsTerminal.status = NEVER_CONNECTED (waiting for 0x0102).
  *
  * Note: we DO NOT mark the terminal ONLINE here. ONLINE happens after a
@@ -39,15 +41,15 @@ export async function handleRegister(
   // capacity is sized for that. A device stuck in a register loop burns
   // the bucket and gets dropped without a response.
   const remoteIp = session.socket.remoteAddress ?? 'unknown';
-  if (!registrationLimiter.tryConsume(remoteIp)) {
+  if (!(await registrationLimiter.tryConsume(remoteIp))) {
     session.log.warn('Registration rate-limit exceeded; dropping', { remoteIp });
     session.close('registration rate limit');
     return;
   }
 
-  // The phoneBcd is 12 BCD digits, left-padded with zeros if the actual
-  // identifier is shorter. Strip leading zeros to get the canonical
-  // identifier the device transmits — for 2013-spec devices that's an
+  // The phoneBcd is 12 BCD digits (20 on a 2019 header), left-padded with
+  // zeros if the actual identifier is shorter. Strip leading zeros to get
+  // the canonical identifier the device transmits — for 2013-spec devices that's an
   // MSISDN, for 2019-spec it's commonly an IMEI. Either way, this is the
   // value the admin must have provisioned in `deviceIdentifier`.
   const deviceIdentifier = session.phoneBcd?.replace(/^0+/, '') ?? '';
@@ -74,6 +76,24 @@ export async function handleRegister(
     return;
   }
 
+  // Same identifier namespace as GT06 IMEIs — don't hand a GT06 row an
+  // auth code.
+  if (terminal && terminal.protocol !== 'JT808') {
+    session.log.warn('Registration for a terminal provisioned with another protocol', {
+      deviceIdentifier,
+      protocol: terminal.protocol,
+    });
+    session.writeFrame({
+      msgId: MsgId.REGISTER_RESPONSE,
+      body: encodeRegisterResponse({
+        replyToSerial: msgSerial,
+        result: RegisterResult.NO_SUCH_TERMINAL,
+      }),
+    });
+    session.close('protocol mismatch');
+    return;
+  }
+
   if (!terminal) {
     if (!env.GPS_AUTO_PROVISION) {
       session.log.warn('Unknown device identifier and auto-provisioning disabled', {
@@ -134,11 +154,19 @@ export async function handleRegister(
   }
 
   // Issue a fresh auth code and persist it. The terminal will echo this back
-  // in its 0x0102 message — handleAuth verifies the round-trip.
+  // in its 0x0102 message — handleAuth verifies the round-trip. A
+  // re-registering device may also have regenerated its RSA key pair, so
+  // the stored one is dropped until the next 0x0A00.
   const authCode = generateAuthCode();
   await prisma.gpsTerminal.update({
     where: { id: terminal.id },
-    data: { authCode, authCodeIssuedAt: new Date() },
+    data: {
+      authCode,
+      authCodeIssuedAt: new Date(),
+      rsaPublicKeyE: null,
+      rsaPublicKeyN: null,
+      rsaKeyReceivedAt: null,
+    },
   });
 
   session.writeFrame({
@@ -0,0 +1,82 @@
+/**
+ * RSA key exchange (JT/T 808 §1.9.10): 0x8A00 platform key out, 0x0A00
+ * terminal key in.
+ *
+ * Either side may start. When we start (`offerPlatformRsaKey`, called from
+ * handleAuth) the terminal answers with 0x0A00; when the terminal starts,
+ * our answer to its 0x0A00 is the 0x8A00 itself. Once the terminal's key
+ * is known every downlink body on the session is encrypted with it (see
+ * Session.downlinkKey); uplink bodies are decrypted in the codec with the
+ * platform key.
+ *
+ * The terminal key is persisted on GpsTerminal so the next connection
+ * encrypts from the first downlink frame; handleRegister clears it.
+ */
+
+import prisma from '../../config/db';
+import { MsgId, PlatformResult } from '../codec/constants';
+import { publicKeyFromComponents } from '../codec/rsa';
+import * as m0a00 from '../codec/messages/m0a00-terminal-rsa-key';
+import * as m8a00 from '../codec/messages/m8a00-platform-rsa-key';
+import { platformRsaKey } from '../services/rsa-keys';
+import type { Session } from '../session/Session';
+
+/** Send our 0x8A00. No-op when no platform key is configured. */
+export function offerPlatformRsaKey(session: Session): boolean {
+  const key = platformRsaKey();
+  if (!key) return false;
+  session.writeFrame({
+    msgId: MsgId.PLATFORM_RSA_PUBLIC_KEY,
+    body: m8a00.encode(key.components),
+  });
+  session.platformKeySent = true;
+  return true;
+}
+
+export async function handleTerminalRsaKey(
+  session: Session,
+  body: Buffer,
+  msgSerial: number,
+): Promise<void> {
+  let components: ReturnType<typeof m0a00.decode>;
+  let peerKey: ReturnType<typeof publicKeyFromComponents>;
+  try {
+    components = m0a00.decode(body);
+    // e lands in an int4 column; real exponents are 3 or 65537.
+    if (components.e < 3 || components.e > 0x7fffffff) {
+      throw new Error(`implausible exponent ${components.e}`);
+    }
+    peerKey = publicKeyFromComponents(components);
+  } catch (err) {
+    session.log.warn('Invalid 0x0A00 terminal RSA key', { err: (err as Error).message });
+    session.ack(MsgId.TERMINAL_RSA_PUBLIC_KEY, msgSerial, PlatformResult.MESSAGE_ERROR);
+    return;
+  }
+
+  // Reply before switching keys: the terminal may not expect its own key
+  // in use until the exchange has completed.
+  const answeredWithKey = !session.platformKeySent && offerPlatformRsaKey(session);
+  if (!answeredWithKey) session.ack(MsgId.TERMINAL_RSA_PUBLIC_KEY, msgSerial);
+  session.rsaPeerKey = peerKey;
+
+  session.log.info('Terminal RSA key received', {
+    terminalId: session.terminalId,
+    e: components.e,
+    answeredWithKey,
+  });
+
+  if (!session.terminalId) return;
+  try {
+    await prisma.gpsTerminal.update({
+      where: { id: session.terminalId },
+      data: {
+        rsaPublicKeyE: components.e,
+        rsaPublicKeyN: components.n,
+        rsaKeyReceivedAt: new Date(),
+      },
+    });
+  } catch (err) {
+    // The key is already live on this session; only the next connection loses it.
+    session.log.warn('Failed to persist terminal RSA key', { err: (err as Error).message });
+  }
+}
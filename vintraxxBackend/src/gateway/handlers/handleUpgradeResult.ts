@@ -0,0 +1,82 @@
+/**
+ * 0x0108 — Terminal upgrade result handler.
+ *
+ * The terminal reports how flashing an image delivered over 0x8108 went.
+ * gps-firmware.service settles the terminal's in-flight campaign target and
+ * re-evaluates the campaign (failure threshold, next batch).
+ *
+ * Decode or persistence failures ack FAILURE without closing the session;
+ * the result-timeout sweep still settles the target from 0x0205 if the
+ * terminal comes back on the new version. A REVOKED terminal is dropped and
+ * closed, same as 0x0200.
+ */
+
+import prisma from '../../config/db';
+import { MsgId, PlatformResult } from '../codec/constants';
+import {
+  decode as decodeUpgradeResult,
+  UpgradeResult,
+  type DecodedUpgradeResult,
+} from '../codec/messages/m0108-upgrade-result';
+import { recordUpgradeResult } from '../../services/gps-firmware.service';
+import type { Session } from '../session/Session';
+
+export async function handleUpgradeResult(
+  session: Session,
+  body: Buffer,
+  msgSerial: number,
+): Promise<void> {
+  if (!session.terminalId) return;
+
+  let decoded: DecodedUpgradeResult;
+  try {
+    decoded = decodeUpgradeResult(body);
+  } catch (err) {
+    session.log.warn('Failed to decode 0x0108', { err: (err as Error).message });
+    session.ack(MsgId.TERMINAL_UPGRADE_RESULT, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: session.terminalId },
+    select: { id: true, status: true },
+  });
+  if (!terminal) {
+    session.log.warn('Terminal vanished mid-session');
+    session.ack(MsgId.TERMINAL_UPGRADE_RESULT, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+  if (terminal.status === 'REVOKED') {
+    session.log.warn('Upgrade result from REVOKED terminal — closing', {
+      terminalId: terminal.id,
+    });
+    session.ack(MsgId.TERMINAL_UPGRADE_RESULT, msgSerial, PlatformResult.FAILURE);
+    session.close('terminal revoked mid-session');
+    return;
+  }
+
+  session.log.info('Terminal upgrade result (0x0108)', {
+    upgradeType: decoded.upgradeType,
+    result: decoded.result,
+  });
+
+  const succeeded = decoded.result === UpgradeResult.SUCCESS;
+  try {
+    await recordUpgradeResult(terminal.id, {
+      source: '0x0108',
+      succeeded,
+      resultCode: decoded.result,
+      errorText: succeeded
+        ? null
+        : decoded.result === UpgradeResult.CANCELLED
+          ? 'terminal cancelled the upgrade'
+          : 'terminal reported upgrade failure',
+    });
+  } catch (err) {
+    session.log.warn('Failed to record upgrade result', { err: (err as Error).message });
+    session.ack(MsgId.TERMINAL_UPGRADE_RESULT, msgSerial, PlatformResult.FAILURE);
+    return;
+  }
+
+  session.ack(MsgId.TERMINAL_UPGRADE_RESULT, msgSerial);
+}
@@ -3,13 +3,20 @@
  *
  * Process lifecycle:
  *   1. Boot: read env, ensure Prisma is reachable, bind TCP listener on
- *      GPS_TCP_PORT (and TLS on GPS_TLS_PORT when configured).
+ *      GPS_TCP_PORT (and TLS on GPS_TLS_PORT, UDP on GPS_UDP_PORT when
+ *      configured — see udp.ts for the datagram side).
  *   2. Per connection: create a Session, attach data/error/close handlers.
- *   3. On `data`: append to session.inboundBuffer, run splitFrames, decode
- *      each complete frame, dispatch.
- *   4. On `close`/`error`: mark terminal OFFLINE, remove from registry.
+ *   3. On `data`: pick the protocol adapter from the first bytes (JT/T 808
+ *      or GT06, see protocols/), append to session.inboundBuffer, split
+ *      frames with the adapter and hand each complete frame to
+ *      pipeline.processFrame (decode, dispatch).
+ *   4. On `close`/`error`: mark terminal OFFLINE, release its pod lease,
+ *      remove from registry.
  *   5. On SIGTERM/SIGINT: stop accepting new connections, end all live
- *      sockets, disconnect Prisma, exit.
+ *      sockets, hand back this pod's leases, disconnect Prisma, exit.
+ *
+ * Several instances may run side by side (one per pod); see
+ * services/pod-lease.ts for how terminals and commands are shared out.
  *
  * This file is an INDEPENDENT entry point — it is NOT imported by the
  * Express server. PM2 launches it as a separate process from
@@ -31,19 +38,24 @@ import { env } from '../config/env';
 import prisma from '../config/db';
 import logger from '../utils/logger';
 
-import { splitFrames } from './codec/framing';
-import { decodeFrame } from './codec';
 import { Session } from './session/Session';
 import { SessionRegistry } from './session/SessionRegistry';
-import { dispatchFrame } from './handlers/dispatch';
-import { emit as emitNotify } from '../realtime/notify';
+import { loadPlatformRsaKey } from './services/rsa-keys';
 import {
   startCommandDispatcher,
   stopCommandDispatcher,
 } from './services/command-dispatcher';
+import {
+  startFirmwareDispatcher,
+  stopFirmwareDispatcher,
+} from './services/firmware-dispatcher';
+import { startFrameJournal, stopFrameJournal } from './services/frame-journal';
+import { POD_ID, startPodLease, stopPodLease } from './services/pod-lease';
+import { processFrame, releaseSession } from './pipeline';
+import { startUdpListener, udpPeerCount } from './udp';
+import { detectAdapter, jt808Adapter } from './protocols';
 
 const MAX_INBOUND_BUFFER_BYTES = 64 * 1024; // 64 KiB. JT/T 808 frames are far smaller.
-const MAX_CONSECUTIVE_BAD_FRAMES = 10;
 
 function attachSocket(socket: net.Socket): void {
   // Discourage Nagle on small frames — most JT/T 808 messages are < 200 bytes
@@ -53,13 +65,24 @@ function attachSocket(socket: net.Socket): void {
   // but TCP keepalive helps catch half-open sockets behind carrier NAT.
   socket.setKeepAlive(true, 60_000);
 
-  const session = new Session({ id: randomUUID(), socket });
+  const session = new Session({ id: randomUUID(), socket, adapter: jt808Adapter });
   SessionRegistry.add(session);
   session.log.info('TCP connection accepted');
+  let protocolDetected = false;
 
   socket.on('data', async (chunk) => {
+    // Every device family shares the port; the first bytes say which
+    // protocol this connection speaks.
+    if (!protocolDetected) {
+      protocolDetected = true;
+      session.adapter = detectAdapter(chunk);
+      if (session.adapter !== jt808Adapter) {
+        session.log.info('Device protocol detected', { protocol: session.adapter.protocol });
+      }
+    }
+
     // Cap the buffer to defend against attackers / misbehaving devices that
-    // never emit a 0x7E.
+    // never complete a frame.
     if (session.inboundBuffer.length + chunk.length > MAX_INBOUND_BUFFER_BYTES) {
       session.log.warn('Inbound buffer overflow; closing socket', {
         bufLen: session.inboundBuffer.length,
@@ -70,26 +93,11 @@ function attachSocket(socket: net.Socket): void {
     }
     session.inboundBuffer = Buffer.concat([session.inboundBuffer, chunk]);
 
-    const { frames, rest } = splitFrames(session.inboundBuffer);
+    const { frames, rest } = session.adapter.splitFrames(session.inboundBuffer);
     session.inboundBuffer = rest;
 
     for (const frame of frames) {
-      try {
-        const decoded = decodeFrame(frame);
-        session.touchHealthy();
-        await dispatchFrame(session, decoded);
-      } catch (err) {
-        session.consecutiveBadFrames += 1;
-        session.log.warn('Failed to decode frame', {
-          err: (err as Error).message,
-          consecutiveBadFrames: session.consecutiveBadFrames,
-          frameLen: frame.length,
-        });
-        if (session.consecutiveBadFrames >= MAX_CONSECUTIVE_BAD_FRAMES) {
-          session.close('too many consecutive bad frames');
-          break;
-        }
-      }
+      if (!(await processFrame(session, frame))) break;
     }
   });
 
@@ -97,82 +105,9 @@ function attachSocket(socket: net.Socket): void {
     session.log.warn('Socket error', { err: err.message });
   });
 
-  socket.on('close', async (hadError) => {
+  socket.on('close', (hadError) => {
     session.log.info('TCP connection closed', { hadError });
-
-    // Capture replacement state BEFORE we remove ourselves: if a NEW session
-    // for the same terminal is in the registry, we were superseded by
-    // `SessionRegistry.bind()` and must NOT flip the terminal OFFLINE — the
-    // newer session is now the source of truth.
-    const currentForTerminal = session.terminalId
-      ? SessionRegistry.getByTerminalId(session.terminalId)
-      : undefined;
-    const replaced =
-      session.terminalId !== null &&
-      currentForTerminal !== undefined &&
-      currentForTerminal !== session;
-
-    SessionRegistry.remove(session);
-
-    if (replaced) {
-      session.log.info('Skipping OFFLINE write — session was replaced', {
-        terminalId: session.terminalId,
-      });
-      return;
-    }
-
-    // Mark the terminal OFFLINE if we'd successfully bound it.
-    //
-    // MEDIUM #29: previously this was an unconditional `update`. If a NEW
-    // session for the same terminal had bound between our `replaced` check
-    // above and this DB write, we'd clobber the new session's ONLINE row
-    // with our stale OFFLINE. Use `updateMany` with a CAS guard:
-    // only flip to OFFLINE if status is still ONLINE *and* the row's
-    // lastHeartbeatAt is no newer than the heartbeat the closing session
-    // actually saw. The new session's handleHeartbeat / handleAuth will
-    // have bumped lastHeartbeatAt past this threshold, so the update no-ops
-    // for that race — exactly what we want.
-    if (session.terminalId) {
-      const offlineAt = new Date();
-      const lastSeenByThisSession =
-        session.lastHeartbeatAt ?? session.connectedAt;
-      try {
-        const result = await prisma.gpsTerminal.updateMany({
-          where: {
-            id: session.terminalId,
-            status: 'ONLINE',
-            OR: [
-              { lastHeartbeatAt: null },
-              { lastHeartbeatAt: { lte: lastSeenByThisSession } },
-            ],
-          },
-          data: { status: 'OFFLINE', disconnectedAt: offlineAt },
-        });
-        if (result.count > 0) {
-          // Re-read to get the ownerUserId for the notify (updateMany
-          // doesn't return rows). One extra round-trip but only on the
-          // happy path; the racy path skips this entirely.
-          const row = await prisma.gpsTerminal.findUnique({
-            where: { id: session.terminalId },
-            select: { ownerUserId: true },
-          });
-          void emitNotify({
-            type: 'terminal.offline',
-            terminalId: session.terminalId,
-            ownerUserId: row?.ownerUserId ?? null,
-            at: offlineAt.toISOString(),
-          });
-        } else {
-          session.log.info('OFFLINE write skipped — terminal already moved on', {
-            terminalId: session.terminalId,
-          });
-        }
-      } catch (e) {
-        session.log.warn('Failed to mark terminal OFFLINE on disconnect', {
-          err: (e as Error).message,
-        });
-      }
-    }
+    void releaseSession(session);
   });
 }
 
@@ -263,33 +198,48 @@ async function bootstrap(): Promise<void> {
   await prisma.$queryRawUnsafe('SELECT 1');
   logger.info('vintraxx-gateway: Prisma connection healthy');
 
-  // Reconcile: any terminal still marked ONLINE from a prior crash/SIGKILL
-  // (where the socket-close handler never ran) should be flipped to OFFLINE.
-  // Without this, the admin dashboard's "online count" would lie until each
-  // device reconnects and re-auths.
+  // Reconcile: any terminal still marked ONLINE without a pod lease (rows
+  // from before leases existed) should be flipped to OFFLINE. Terminals
+  // leased to a pod that crashed are reaped by startPodLease once that pod's
+  // heartbeat goes stale; those held by live pods are left alone. Without
+  // this, the admin dashboard's "online count" would lie until each device
+  // reconnects and re-auths.
   const staleOnline = await prisma.gpsTerminal.updateMany({
-    where: { status: 'ONLINE' },
+    where: { status: 'ONLINE', gatewayPodId: null },
     data: { status: 'OFFLINE', disconnectedAt: new Date() },
   });
   if (staleOnline.count > 0) {
     logger.info(`vintraxx-gateway: reconciled ${staleOnline.count} stale ONLINE terminals → OFFLINE`);
   }
 
+  loadPlatformRsaKey();
+
+  // Register this pod, reap dead ones, start the lease heartbeat. Before the
+  // dispatcher so the first drain sees commands re-queued from dead pods.
+  await startPodLease();
+
   // Start the downstream-command dispatcher (LISTEN gps_command + 30s sweep).
   // Failure to connect is non-fatal — the dispatcher retries, and inbound
   // traffic continues unaffected.
   await startCommandDispatcher();
+  // OTA firmware transfers (QUEUED campaign targets → 0x8108 subpackages).
+  startFirmwareDispatcher();
+  // Raw frame capture for terminals with journalEnabled.
+  await startFrameJournal();
 
   const tcpServer = startTcpListener();
   const tlsServer = startTlsListener();
+  const udpServer = startUdpListener();
 
   // Periodic health log (every 60s).
   const healthTimer = setInterval(() => {
     const snap = SessionRegistry.snapshot();
     logger.info('gateway-health', {
+      podId: POD_ID,
       sessions: snap,
       bufferedSockets: tcpServer.listening,
       tlsListening: tlsServer?.listening ?? false,
+      udpPeers: udpServer ? udpPeerCount() : null,
     });
   }, 60_000);
   // Don't keep the event loop alive on this alone.
@@ -303,9 +253,14 @@ async function bootstrap(): Promise<void> {
     // Stop accepting new commands first so we don't open new pending entries
     // on sessions we're about to tear down.
     await stopCommandDispatcher();
+    stopFirmwareDispatcher();
     for (const s of SessionRegistry.iter()) {
       s.close(`process shutdown (${signal})`);
     }
+    await stopFrameJournal();
+    await stopPodLease();
+    // Last: UDP sessions write through this socket until they are closed.
+    udpServer?.close();
     try {
       await prisma.$disconnect();
     } catch (e) {
@@ -0,0 +1,131 @@
+/**
+ * pipeline — the transport-independent half of a gateway connection.
+ *
+ * The TCP/TLS listener (index.ts) and the UDP listener (udp.ts) differ only
+ * in how bytes reach a Session and how it ends. Both hand every complete
+ * frame to `processFrame` — which runs it through the session's protocol
+ * adapter — and call `releaseSession` once the session's socket has
+ * closed, so decode, auth-gate, dispatch and the OFFLINE / lease
+ * bookkeeping are identical on every transport and protocol.
+ */
+
+import prisma from '../config/db';
+import type { Session } from './session/Session';
+import { SessionRegistry } from './session/SessionRegistry';
+import { journalFrame } from './services/frame-journal';
+import { emit as emitNotify } from '../realtime/notify';
+
+const MAX_CONSECUTIVE_BAD_FRAMES = 10;
+
+/**
+ * Decode, journal and dispatch one frame through the session's protocol
+ * adapter. Returns false when the session was closed for too many
+ * consecutive bad frames — the caller stops feeding it.
+ */
+export async function processFrame(session: Session, frame: Buffer): Promise<boolean> {
+  const { adapter } = session;
+  let decoded: unknown = null;
+  try {
+    decoded = adapter.decode(frame, session);
+    journalFrame(session, { direction: 'IN', frame, ...adapter.frameMeta(decoded) });
+    session.touchHealthy();
+    await adapter.dispatch(session, decoded);
+  } catch (err) {
+    if (decoded === null) {
+      journalFrame(session, { direction: 'IN', frame, decodeError: (err as Error).message });
+    }
+    session.consecutiveBadFrames += 1;
+    session.log.warn('Failed to decode frame', {
+      err: (err as Error).message,
+      consecutiveBadFrames: session.consecutiveBadFrames,
+      frameLen: frame.length,
+    });
+    if (session.consecutiveBadFrames >= MAX_CONSECUTIVE_BAD_FRAMES) {
+      session.close('too many consecutive bad frames');
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Tear down a session whose socket has closed: drop it from the registry,
+ * then mark its terminal OFFLINE and release the pod lease unless a newer
+ * session has taken over.
+ */
+export async function releaseSession(session: Session): Promise<void> {
+  // Remote-initiated closes never go through session.close(); make sure no
+  // reassembly timer tries to write 0x8003 to a dead socket.
+  session.subpackages.clear();
+
+  // Capture replacement state BEFORE we remove ourselves: if a NEW session
+  // for the same terminal is in the registry, we were superseded by
+  // `SessionRegistry.bind()` and must NOT flip the terminal OFFLINE — the
+  // newer session is now the source of truth.
+  const currentForTerminal = session.terminalId
+    ? SessionRegistry.getByTerminalId(session.terminalId)
+    : undefined;
+  const replaced =
+    session.terminalId !== null &&
+    currentForTerminal !== undefined &&
+    currentForTerminal !== session;
+
+  SessionRegistry.remove(session);
+
+  if (replaced) {
+    session.log.info('Skipping OFFLINE write — session was replaced', {
+      terminalId: session.terminalId,
+    });
+    return;
+  }
+
+  // Mark the terminal OFFLINE if we'd successfully bound it.
+  //
+  // MEDIUM #29: previously this was an unconditional `update`. If a NEW
+  // session for the same terminal had bound between our `replaced` check
+  // above and this DB write, we'd clobber the new session's ONLINE row
+  // with our stale OFFLINE. Use `updateMany` with a CAS guard:
+  // only flip to OFFLINE if status is still ONLINE *and* this session
+  // still holds the lease. A newer session — on this pod or another —
+  // rewrote gatewaySessionId in handleAuth, so the update no-ops for that
+  // race — exactly what we want.
+  if (session.terminalId) {
+    const offlineAt = new Date();
+    const released = { gatewayPodId: null, gatewaySessionId: null, gatewayLeaseAt: null };
+    try {
+      const result = await prisma.gpsTerminal.updateMany({
+        where: { id: session.terminalId, status: 'ONLINE', gatewaySessionId: session.id },
+        data: { status: 'OFFLINE', disconnectedAt: offlineAt, ...released },
+      });
+      if (result.count > 0) {
+        // Re-read to get the ownerUserId for the notify (updateMany
+        // doesn't return rows). One extra round-trip but only on the
+        // happy path; the racy path skips this entirely.
+        const row = await prisma.gpsTerminal.findUnique({
+          where: { id: session.terminalId },
+          select: { ownerUserId: true },
+        });
+        void emitNotify({
+          type: 'terminal.offline',
+          terminalId: session.terminalId,
+          ownerUserId: row?.ownerUserId ?? null,
+          at: offlineAt.toISOString(),
+        });
+      } else {
+        // Not ONLINE any more (e.g. LOGGED_OUT) or leased elsewhere; drop
+        // the lease only if it is still ours.
+        await prisma.gpsTerminal.updateMany({
+          where: { id: session.terminalId, gatewaySessionId: session.id },
+          data: released,
+        });
+        session.log.info('OFFLINE write skipped — terminal already moved on', {
+          terminalId: session.terminalId,
+        });
+      }
+    } catch (e) {
+      session.log.warn('Failed to mark terminal OFFLINE on disconnect', {
+        err: (e as Error).message,
+      });
+    }
+  }
+}
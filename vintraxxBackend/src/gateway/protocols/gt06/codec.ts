@@ -0,0 +1,329 @@
+/**
+ * GT06 (Concox) wire codec — framing, CRC and the packets we speak.
+ *
+ * Wire format of one frame:
+ *   0x78 0x78 | len(1) | protocol(1) | content | serial(2) | crc(2) | 0x0D 0x0A
+ *   0x79 0x79 | len(2) | protocol(1) | content | serial(2) | crc(2) | 0x0D 0x0A
+ *
+ * `len` counts protocol + content + serial + crc. The long (0x7979) form is
+ * used by packets whose content can exceed 250 bytes (0x21 string replies
+ * on newer firmware). No byte stuffing — the length field frames the packet
+ * and the stop bytes only confirm it.
+ *
+ * CRC: CRC-ITU (X.25 — reflected 0x1021, init 0xFFFF, xorout 0xFFFF) over
+ * the length field through the serial.
+ *
+ * Coordinates are unsigned (degrees × 1 800 000, i.e. minutes × 30 000)
+ * with the hemisphere in the course/status word. Times are UTC.
+ */
+
+import type { FrameSplitResult } from '../../codec/types';
+import type { DecodedBaseStations } from '../../codec/messages/m0200-location';
+
+export const Gt06Proto = {
+  LOGIN: 0x01,
+  LOCATION: 0x12,
+  STATUS: 0x13,
+  STRING_REPLY: 0x15,
+  ALARM: 0x16,
+  STRING_REPLY_LONG: 0x21,
+  LOCATION_4G: 0x22,
+  ONLINE_COMMAND: 0x80,
+} as const;
+
+const START_SHORT = 0x78;
+const START_LONG = 0x79;
+const STOP = Buffer.from([0x0d, 0x0a]);
+
+export interface Gt06Frame {
+  protocolNumber: number;
+  content: Buffer;
+  serial: number;
+}
+
+// ── CRC / framing ───────────────────────────────────────────────────────────
+
+export function crcItu(buf: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of buf) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+  return ~crc & 0xffff;
+}
+
+/**
+ * Cut complete frames off the front of a stream buffer. Bytes that can't
+ * start a frame — and a frame whose stop bytes don't line up (corrupt
+ * length) — are skipped until the stream resyncs. A candidate still waiting
+ * for bytes is abandoned when a complete frame already follows it (noise
+ * that happened to look like a start marker).
+ */
+export function splitGt06Frames(input: Buffer): FrameSplitResult {
+  const frames: Buffer[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    const size = frameSizeAt(input, pos);
+    if (size > 0) {
+      frames.push(input.subarray(pos, pos + size));
+      pos += size;
+      continue;
+    }
+    if (size === INCOMPLETE) {
+      const next = nextCompleteFrame(input, pos + 1);
+      if (next < 0) break;
+      pos = next;
+      continue;
+    }
+    pos += 1;
+  }
+
+  return { frames, rest: Buffer.from(input.subarray(pos)) };
+}
+
+const INCOMPLETE = -1;
+const NOT_A_FRAME = 0;
+
+/** Size of the frame starting at `pos`, INCOMPLETE, or NOT_A_FRAME. */
+function frameSizeAt(input: Buffer, pos: number): number {
+  const b = input[pos];
+  if (b !== START_SHORT && b !== START_LONG) return NOT_A_FRAME;
+  if (pos + 1 >= input.length) return INCOMPLETE;
+  if (input[pos + 1] !== b) return NOT_A_FRAME;
+
+  const headerLen = b === START_LONG ? 4 : 3;
+  if (input.length - pos < headerLen) return INCOMPLETE;
+  const len = b === START_LONG ? input.readUInt16BE(pos + 2) : input[pos + 2];
+  if (len < 5) return NOT_A_FRAME;
+  const total = headerLen + len + STOP.length;
+  if (input.length - pos < total) return INCOMPLETE;
+  return input.subarray(pos + total - 2, pos + total).equals(STOP) ? total : NOT_A_FRAME;
+}
+
+function nextCompleteFrame(input: Buffer, from: number): number {
+  for (let pos = from; pos < input.length; pos++) {
+    if (frameSizeAt(input, pos) > 0) return pos;
+  }
+  return -1;
+}
+
+/** Validate and unwrap one complete frame. Throws on anything malformed. */
+export function decodeGt06Frame(frame: Buffer): Gt06Frame {
+  const long = frame[0] === START_LONG;
+  const headerLen = long ? 4 : 3;
+  if (frame.length < headerLen + 5 + STOP.length) {
+    throw new Error(`GT06 frame too short (${frame.length} bytes)`);
+  }
+  const len = long ? frame.readUInt16BE(2) : frame[2];
+  if (frame.length !== headerLen + len + STOP.length) {
+    throw new Error(`GT06 length mismatch: field=${len} frame=${frame.length}`);
+  }
+
+  const crcEnd = frame.length - STOP.length - 2;
+  const expected = frame.readUInt16BE(crcEnd);
+  const actual = crcItu(frame.subarray(2, crcEnd));
+  if (expected !== actual) {
+    throw new Error(
+      `GT06 CRC mismatch: expected 0x${expected.toString(16)}, got 0x${actual.toString(16)}`,
+    );
+  }
+
+  return {
+    protocolNumber: frame[headerLen],
+    content: Buffer.from(frame.subarray(headerLen + 1, crcEnd - 2)),
+    serial: frame.readUInt16BE(crcEnd - 2),
+  };
+}
+
+export function encodeGt06Frame(protocolNumber: number, content: Buffer, serial: number): Buffer {
+  const len = content.length + 5;
+  const long = len > 0xff;
+  const lenField = long ? Buffer.alloc(2) : Buffer.alloc(1);
+  if (long) lenField.writeUInt16BE(len);
+  else lenField[0] = len;
+
+  const serialBuf = Buffer.alloc(2);
+  serialBuf.writeUInt16BE(serial & 0xffff);
+  const crcInput = Buffer.concat([lenField, Buffer.from([protocolNumber]), content, serialBuf]);
+  const crc = Buffer.alloc(2);
+  crc.writeUInt16BE(crcItu(crcInput));
+
+  const start = long ? START_LONG : START_SHORT;
+  return Buffer.concat([Buffer.from([start, start]), crcInput, crc, STOP]);
+}
+
+// ── Uplink packets ──────────────────────────────────────────────────────────
+
+/** 0x01 — terminal ID is the IMEI as 8 BCD bytes (one leading zero nibble). */
+export function decodeLogin(content: Buffer): { imei: string } {
+  if (content.length < 8) throw new Error('GT06 login packet too short');
+  const imei = content.subarray(0, 8).toString('hex').replace(/^0+/, '');
+  if (!/^\d+$/.test(imei)) throw new Error('GT06 login IMEI is not BCD');
+  return { imei };
+}
+
+export interface Gt06GpsBlock {
+  reportedAt: Date;
+  satelliteCount: number;
+  latitude: number;
+  longitude: number;
+  speedKmh: number;
+  heading: number;
+  gpsFix: boolean;
+}
+
+const GPS_BLOCK_LEN = 18;
+const LBS_BLOCK_LEN = 8;
+
+/** Date/time (6) · length+satellites (1) · lat (4) · lon (4) · speed (1) · course/status (2). */
+function decodeGpsBlock(buf: Buffer, offset: number): Gt06GpsBlock {
+  if (buf.length < offset + GPS_BLOCK_LEN) throw new Error('GT06 GPS block truncated');
+  const reportedAt = new Date(
+    Date.UTC(
+      2000 + buf[offset],
+      buf[offset + 1] - 1,
+      buf[offset + 2],
+      buf[offset + 3],
+      buf[offset + 4],
+      buf[offset + 5],
+    ),
+  );
+  const courseStatus = buf.readUInt16BE(offset + 16);
+  const north = (courseStatus & 0x0400) !== 0;
+  const west = (courseStatus & 0x0800) !== 0;
+  const latitude = buf.readUInt32BE(offset + 7) / 1_800_000;
+  const longitude = buf.readUInt32BE(offset + 11) / 1_800_000;
+  return {
+    reportedAt,
+    satelliteCount: buf[offset + 6] & 0x0f,
+    latitude: north ? latitude : -latitude,
+    longitude: west ? -longitude : longitude,
+    speedKmh: buf[offset + 15],
+    heading: courseStatus & 0x03ff,
+    gpsFix: (courseStatus & 0x1000) !== 0,
+  };
+}
+
+/** MCC (2) · MNC (1) · LAC (2) · cell id (3) — the serving cell only. */
+function decodeLbsBlock(buf: Buffer, offset: number): DecodedBaseStations | undefined {
+  if (buf.length < offset + LBS_BLOCK_LEN) return undefined;
+  const mcc = buf.readUInt16BE(offset);
+  const lac = buf.readUInt16BE(offset + 3);
+  const cellId = buf.readUIntBE(offset + 5, 3);
+  if (mcc === 0 || cellId === 0) return undefined;
+  return { mcc, mnc: buf[offset + 2], cells: [{ lac, cellId, signal: null }] };
+}
+
+export interface Gt06Location {
+  gps: Gt06GpsBlock;
+  baseStations?: DecodedBaseStations;
+  /** 0x22 only; 0x12 carries no ACC state. */
+  accOn?: boolean;
+  /** 0x22 only, when the firmware appends it. */
+  mileageKm?: number;
+}
+
+/** 0x12 / 0x22 — GPS + LBS; 0x22 adds ACC, upload mode, re-upload flag and mileage. */
+export function decodeLocation(protocolNumber: number, content: Buffer): Gt06Location {
+  const gps = decodeGpsBlock(content, 0);
+  const baseStations = decodeLbsBlock(content, GPS_BLOCK_LEN);
+  if (protocolNumber !== Gt06Proto.LOCATION_4G) return { gps, baseStations };
+
+  const tail = GPS_BLOCK_LEN + LBS_BLOCK_LEN;
+  const accOn = content.length > tail ? content[tail] === 1 : undefined;
+  // ACC (1) · upload mode (1) · re-upload (1) · mileage (4, metres)
+  const mileageKm = content.length >= tail + 7 ? content.readUInt32BE(tail + 3) / 1000 : undefined;
+  return { gps, baseStations, accOn, mileageKm };
+}
+
+export interface Gt06TerminalInfo {
+  accOn: boolean;
+  charging: boolean;
+  /** Bits 3–5 of the terminal-info byte (1 shock, 2 power cut, 3 low battery, 4 SOS). */
+  alarm: number;
+  gpsTracking: boolean;
+}
+
+function decodeTerminalInfo(info: number): Gt06TerminalInfo {
+  return {
+    accOn: (info & 0x02) !== 0,
+    charging: (info & 0x04) !== 0,
+    alarm: (info >> 3) & 0x07,
+    gpsTracking: (info & 0x40) !== 0,
+  };
+}
+
+export interface Gt06Status {
+  info: Gt06TerminalInfo;
+  /** 0 (no power) … 6 (full). */
+  voltageLevel: number;
+  /** 0 (no signal) … 4 (strong). */
+  gsmSignal: number;
+}
+
+/** 0x13 — status / heartbeat: terminal info · voltage level · GSM strength · alarm/language. */
+export function decodeStatus(content: Buffer): Gt06Status {
+  if (content.length < 3) throw new Error('GT06 status packet too short');
+  return {
+    info: decodeTerminalInfo(content[0]),
+    voltageLevel: content[1],
+    gsmSignal: content[2],
+  };
+}
+
+export interface Gt06Alarm extends Gt06Status {
+  gps: Gt06GpsBlock;
+  baseStations?: DecodedBaseStations;
+  /** 1 SOS, 2 power cut, 3 shock, 4 fence in, 5 fence out, 6 overspeed. */
+  alarmType: number;
+}
+
+/** 0x16 — GPS block · LBS (length-prefixed) · status block · alarm/language. */
+export function decodeAlarm(content: Buffer): Gt06Alarm {
+  const gps = decodeGpsBlock(content, 0);
+  // The LBS length byte counts itself.
+  const lbsLen = content[GPS_BLOCK_LEN] ?? 0;
+  const baseStations = lbsLen > 1 ? decodeLbsBlock(content, GPS_BLOCK_LEN + 1) : undefined;
+  const statusAt = GPS_BLOCK_LEN + Math.max(lbsLen, 1);
+  if (content.length < statusAt + 4) throw new Error('GT06 alarm packet truncated');
+  return {
+    gps,
+    baseStations,
+    ...decodeStatus(content.subarray(statusAt)),
+    alarmType: content[statusAt + 3],
+  };
+}
+
+/**
+ * 0x15 / 0x21 — the terminal's text reply to an online command. The server
+ * flag is echoed from our 0x80, which is how the reply finds its command.
+ */
+export function decodeStringReply(
+  protocolNumber: number,
+  content: Buffer,
+): { serverFlag: number; text: string } {
+  if (protocolNumber === Gt06Proto.STRING_REPLY) {
+    // length (1, = 4 + text) · server flag (4) · text · [language (2)]
+    const len = content[0];
+    if (content.length < 5 || len < 4) throw new Error('GT06 string reply truncated');
+    const text = content.subarray(5, Math.min(1 + len, content.length)).toString('ascii');
+    return { serverFlag: content.readUInt32BE(1), text };
+  }
+  // server flag (4) · encoding (1) · text
+  if (content.length < 5) throw new Error('GT06 string reply truncated');
+  return { serverFlag: content.readUInt32BE(0), text: content.subarray(5).toString('ascii') };
+}
+
+// ── Downlink packets ────────────────────────────────────────────────────────
+
+/** 0x80 — online command: length (1) · server flag (4) · ASCII command · language (2). */
+export function encodeOnlineCommand(serverFlag: number, text: string): Buffer {
+  const body = Buffer.from(text, 'ascii');
+  const head = Buffer.alloc(5);
+  head[0] = 4 + body.length;
+  head.writeUInt32BE(serverFlag >>> 0, 1);
+  return Buffer.concat([head, body, Buffer.from([0x00, 0x02])]);
+}
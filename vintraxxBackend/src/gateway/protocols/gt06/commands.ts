@@ -0,0 +1,29 @@
+/**
+ * GpsCommand payload → GT06 online-command text.
+ *
+ * GT06 terminals take SMS-style text commands (0x80) rather than typed
+ * messages, and only a handful of our command kinds have an equivalent.
+ * The REST side calls this too, so an unsupported kind is refused at
+ * enqueue time instead of failing at the gateway.
+ */
+
+/** Terminal-control types (m8105) with a GT06 equivalent. */
+const CONTROL_TEXT: Record<number, string> = {
+  4: 'RESET#',
+  5: 'FACTORY#',
+};
+
+/** The command text for `payload`, or null when GT06 can't express it. */
+export function gt06CommandText(payload: unknown): string | null {
+  const p = (payload ?? {}) as { kind?: string; controlType?: number };
+  switch (p.kind) {
+    case 'locate':
+      return 'WHERE#';
+    case 'read-params':
+      return 'PARAM#';
+    case 'terminal-control':
+      return typeof p.controlType === 'number' ? CONTROL_TEXT[p.controlType] ?? null : null;
+    default:
+      return null;
+  }
+}
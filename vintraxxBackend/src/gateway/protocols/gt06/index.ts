@@ -0,0 +1,310 @@
+/**
+ * GT06 protocol adapter — Concox GT06 / GT06N and the many trackers that
+ * clone its protocol. Codec in ./codec.ts, command mapping in ./commands.ts.
+ *
+ * Mapping onto the shared models:
+ *
+ *   • 0x01 login — the IMEI (leading zeros stripped) is the terminal's
+ *     `deviceIdentifier`. GT06 has no credential of any kind: no register /
+ *     auth-code handshake, no key — whoever sends an IMEI is that terminal.
+ *     Login is therefore gated like JT/T 808 registration: per-IP rate
+ *     limit, REVOKED and unknown terminals refused (unknown ones
+ *     auto-provisioned only when GPS_AUTO_PROVISION is on), and only rows
+ *     provisioned as GT06 accept it. GT06 and JT/T 808 share the TCP port
+ *     and the `deviceIdentifier` namespace, and a stripped IMEI can equal a
+ *     JT/T phone number, so without that check a GT06 login could take over
+ *     a JT/T terminal that does have an auth code. `protocol` is never
+ *     rewritten on login. Then the terminal goes ONLINE with the pod lease
+ *     exactly as after a JT/T 0x0102.
+ *   • 0x13 status — the heartbeat. Also carries ACC and the alarm state.
+ *   • 0x12 / 0x22 location and 0x16 alarm — converted to DecodedLocation and
+ *     run through handleLocation.ingestLocations, so GpsLocation, GpsAlarm,
+ *     trips and the live fan-out behave exactly as for JT/T 808 terminals.
+ *     GT06 alarms are mapped onto the JT/T 808 alarm bits (ALARM_BITS) and
+ *     held per session until the next status packet restates them.
+ *   • GpsCommand — sent as 0x80 online commands (text, see ./commands.ts)
+ *     with the frame serial as the server flag; the terminal's 0x15 / 0x21
+ *     text reply acks the command and lands in `response.text`.
+ */
+
+import prisma from '../../../config/db';
+import { env } from '../../../config/env';
+import { emit as emitNotify } from '../../../realtime/notify';
+import { ALARM_BITS, STATUS_BITS, type DecodedLocation } from '../../codec/messages/m0200-location';
+import { bindAuthenticatedSession } from '../../handlers/handleAuth';
+import { touchTerminalHeartbeat } from '../../handlers/handleHeartbeat';
+import { ingestLocations } from '../../handlers/handleLocation';
+import { dispatchQueuedForTerminal } from '../../services/command-dispatcher';
+import { registrationLimiter } from '../../services/rate-limit';
+import type { Session } from '../../session/Session';
+import type { ProtocolAdapter } from '../types';
+import {
+  Gt06Proto,
+  decodeAlarm,
+  decodeGt06Frame,
+  decodeLocation,
+  decodeLogin,
+  decodeStatus,
+  decodeStringReply,
+  encodeGt06Frame,
+  encodeOnlineCommand,
+  splitGt06Frames,
+  type Gt06Frame,
+  type Gt06GpsBlock,
+  type Gt06TerminalInfo,
+} from './codec';
+import { gt06CommandText } from './commands';
+
+/** Terminal-info alarm field (status / alarm packets) → JT/T 808 alarm bit. */
+const INFO_ALARM_BITS: Record<number, number> = {
+  1: ALARM_BITS.VEHICLE_THEFT, // shock
+  2: ALARM_BITS.POWER_CUT,
+  3: ALARM_BITS.POWER_LOW_VOLT,
+  4: ALARM_BITS.SOS,
+};
+
+/** 0x16 alarm type → JT/T 808 alarm bit. */
+const ALARM_TYPE_BITS: Record<number, number> = {
+  1: ALARM_BITS.SOS,
+  2: ALARM_BITS.POWER_CUT,
+  3: ALARM_BITS.VEHICLE_THEFT, // shock
+  4: ALARM_BITS.ZONE_VIOLATION, // fence in
+  5: ALARM_BITS.ZONE_VIOLATION, // fence out
+  6: ALARM_BITS.OVERSPEED,
+};
+
+/** What a GT06 session knows between packets (location packets carry neither). */
+interface Gt06State {
+  accOn: boolean;
+  alarmBits: number;
+}
+
+const sessionState = new WeakMap<Session, Gt06State>();
+
+function stateOf(session: Session): Gt06State {
+  let state = sessionState.get(session);
+  if (!state) {
+    state = { accOn: false, alarmBits: 0 };
+    sessionState.set(session, state);
+  }
+  return state;
+}
+
+export const gt06Adapter: ProtocolAdapter<Gt06Frame> = {
+  protocol: 'GT06',
+
+  detect: (head) =>
+    head.length >= 2 && (head[0] === 0x78 || head[0] === 0x79) && head[1] === head[0],
+
+  splitFrames: splitGt06Frames,
+
+  decode: decodeGt06Frame,
+
+  frameMeta: (frame) => ({ msgId: frame.protocolNumber, msgSerial: frame.serial }),
+
+  async dispatch(session, frame) {
+    if (frame.protocolNumber === Gt06Proto.LOGIN) {
+      await handleLogin(session, frame);
+      return;
+    }
+    if (!session.authenticated || !session.terminalId) {
+      session.log.warn('GT06 packet before login; dropping', {
+        protocolNumber: `0x${frame.protocolNumber.toString(16)}`,
+      });
+      return;
+    }
+
+    switch (frame.protocolNumber) {
+      case Gt06Proto.STATUS:
+        await handleStatus(session, frame);
+        return;
+      case Gt06Proto.LOCATION:
+      case Gt06Proto.LOCATION_4G:
+        await handleLocationPacket(session, frame);
+        return;
+      case Gt06Proto.ALARM:
+        await handleAlarm(session, frame);
+        return;
+      case Gt06Proto.STRING_REPLY:
+      case Gt06Proto.STRING_REPLY_LONG:
+        handleStringReply(session, frame);
+        return;
+      default:
+        session.log.debug('Unsupported GT06 protocol number', {
+          protocolNumber: `0x${frame.protocolNumber.toString(16)}`,
+        });
+    }
+  },
+
+  encodeCommand(_session, cmd, msgSerial) {
+    const text = gt06CommandText(cmd.payload);
+    if (text === null) {
+      const kind = (cmd.payload as { kind?: string } | null)?.kind ?? 'unknown';
+      throw new Error(`GT06 has no equivalent for command kind ${kind}`);
+    }
+    const frame = encodeGt06Frame(
+      Gt06Proto.ONLINE_COMMAND,
+      encodeOnlineCommand(msgSerial, text),
+      msgSerial,
+    );
+    return { frame, msgId: Gt06Proto.ONLINE_COMMAND };
+  },
+};
+
+/** Echo a packet's protocol number and serial — the GT06 acknowledgement. */
+function respond(session: Session, frame: Gt06Frame): void {
+  session.writeRaw(encodeGt06Frame(frame.protocolNumber, Buffer.alloc(0), frame.serial), {
+    msgId: frame.protocolNumber,
+    msgSerial: frame.serial,
+  });
+}
+
+async function handleLogin(session: Session, frame: Gt06Frame): Promise<void> {
+  const remoteIp = session.socket.remoteAddress ?? 'unknown';
+  if (!(await registrationLimiter.tryConsume(remoteIp))) {
+    session.log.warn('GT06 login rate-limit exceeded; dropping', { remoteIp });
+    session.close('registration rate limit');
+    return;
+  }
+
+  const { imei } = decodeLogin(frame.content);
+  // The IMEI is the identity; there is no separate phone number.
+  const deviceIdentifier = imei;
+
+  let terminal = await prisma.gpsTerminal.findUnique({ where: { deviceIdentifier } });
+  if (terminal && terminal.status === 'REVOKED') {
+    session.log.warn('GT06 login from REVOKED terminal', { deviceIdentifier });
+    session.close('terminal revoked');
+    return;
+  }
+  if (terminal && terminal.protocol !== 'GT06') {
+    session.log.warn('GT06 login for a terminal provisioned with another protocol', {
+      deviceIdentifier,
+      protocol: terminal.protocol,
+    });
+    session.close('protocol mismatch');
+    return;
+  }
+  if (!terminal) {
+    if (!env.GPS_AUTO_PROVISION) {
+      session.log.warn('Unknown GT06 IMEI and auto-provisioning disabled', { deviceIdentifier });
+      session.close('terminal not provisioned');
+      return;
+    }
+    terminal = await prisma.gpsTerminal.create({
+      data: { deviceIdentifier, imei, protocol: 'GT06', status: 'NEVER_CONNECTED' },
+    });
+    session.log.info('Auto-provisioned new GpsTerminal', {
+      terminalId: terminal.id,
+      deviceIdentifier,
+      protocol: 'GT06',
+    });
+  }
+
+  const now = await bindAuthenticatedSession(session, terminal.id, deviceIdentifier, { imei });
+  sessionState.set(session, { accOn: false, alarmBits: 0 });
+  respond(session, frame);
+
+  session.log.info('Terminal authenticated', {
+    terminalId: terminal.id,
+    deviceIdentifier,
+    protocol: 'GT06',
+  });
+  void emitNotify({
+    type: 'terminal.online',
+    terminalId: terminal.id,
+    ownerUserId: terminal.ownerUserId,
+    at: now.toISOString(),
+  });
+  void dispatchQueuedForTerminal(terminal.id);
+}
+
+async function handleStatus(session: Session, frame: Gt06Frame): Promise<void> {
+  const status = decodeStatus(frame.content);
+  const state = stateOf(session);
+  state.accOn = status.info.accOn;
+  state.alarmBits = infoAlarmBits(status.info);
+
+  session.lastHeartbeatAt = new Date();
+  if (!(await touchTerminalHeartbeat(session))) {
+    session.close('terminal revoked mid-session');
+    return;
+  }
+  respond(session, frame);
+}
+
+async function handleLocationPacket(session: Session, frame: Gt06Frame): Promise<void> {
+  const decoded = decodeLocation(frame.protocolNumber, frame.content);
+  const state = stateOf(session);
+  if (decoded.accOn !== undefined) state.accOn = decoded.accOn;
+
+  const entry = toDecodedLocation(decoded.gps, state, {
+    baseStations: decoded.baseStations,
+    mileageKm: decoded.mileageKm,
+  });
+  // Location packets get no response in GT06.
+  const result = await ingestLocations(session, [entry], frame.content);
+  if (result === 'revoked') session.close('terminal revoked mid-session');
+}
+
+async function handleAlarm(session: Session, frame: Gt06Frame): Promise<void> {
+  const alarm = decodeAlarm(frame.content);
+  const state = stateOf(session);
+  state.accOn = alarm.info.accOn;
+  state.alarmBits = infoAlarmBits(alarm.info) | (ALARM_TYPE_BITS[alarm.alarmType] ?? 0);
+  session.log.info('GT06 alarm packet', { alarmType: alarm.alarmType });
+
+  const entry = toDecodedLocation(alarm.gps, state, { baseStations: alarm.baseStations });
+  const result = await ingestLocations(session, [entry], frame.content);
+  if (result === 'revoked') {
+    session.close('terminal revoked mid-session');
+    return;
+  }
+  respond(session, frame);
+}
+
+function handleStringReply(session: Session, frame: Gt06Frame): void {
+  const { serverFlag, text } = decodeStringReply(frame.protocolNumber, frame.content);
+  // The command dispatcher uses the frame serial as the server flag.
+  const key = serverFlag & 0xffff;
+  const pending = session.pendingCommands.get(key);
+  if (!pending) {
+    session.log.debug('GT06 command reply with no matching pending command', { serverFlag, text });
+    return;
+  }
+  clearTimeout(pending.timeoutHandle);
+  session.pendingCommands.delete(key);
+  pending.resolve(0, { result: 0, text });
+}
+
+function infoAlarmBits(info: Gt06TerminalInfo): number {
+  return INFO_ALARM_BITS[info.alarm] ?? 0;
+}
+
+function toDecodedLocation(
+  gps: Gt06GpsBlock,
+  state: Gt06State,
+  extra: Pick<DecodedLocation['additional'], 'baseStations' | 'mileageKm'>,
+): DecodedLocation {
+  let statusBits = 0;
+  if (state.accOn) statusBits |= STATUS_BITS.ACC_ON;
+  if (gps.gpsFix) statusBits |= STATUS_BITS.GPS_FIX;
+  return {
+    alarmBits: state.alarmBits,
+    statusBits,
+    latitude: gps.latitude,
+    longitude: gps.longitude,
+    altitudeM: 0,
+    speedKmh: gps.speedKmh,
+    heading: gps.heading,
+    reportedAt: gps.reportedAt,
+    accOn: state.accOn,
+    gpsFix: gps.gpsFix,
+    additional: {
+      satelliteCount: gps.satelliteCount,
+      ...(extra.baseStations ? { baseStations: extra.baseStations } : {}),
+      ...(extra.mileageKm !== undefined ? { mileageKm: extra.mileageKm } : {}),
+    },
+    rawAdditional: new Map(),
+  };
+}
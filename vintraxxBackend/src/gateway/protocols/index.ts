@@ -0,0 +1,29 @@
+/**
+ * Protocol adapter registry. See ./types.ts for the adapter contract.
+ */
+
+import type { GpsProtocol } from '@prisma/client';
+import { jt808Adapter } from './jt808';
+import { gt06Adapter } from './gt06';
+import type { ProtocolAdapter } from './types';
+
+export { jt808Adapter, gt06Adapter };
+export type { ProtocolAdapter } from './types';
+
+const ADAPTERS: Record<GpsProtocol, ProtocolAdapter> = {
+  JT808: jt808Adapter,
+  GT06: gt06Adapter,
+};
+
+export function adapterFor(protocol: GpsProtocol): ProtocolAdapter {
+  return ADAPTERS[protocol];
+}
+
+/**
+ * Pick the adapter for a new TCP connection from its first bytes. Devices
+ * of every family share the listener port; anything unrecognised stays on
+ * JT/T 808, whose framer discards leading noise.
+ */
+export function detectAdapter(head: Buffer): ProtocolAdapter {
+  return Object.values(ADAPTERS).find((a) => a.detect(head)) ?? jt808Adapter;
+}
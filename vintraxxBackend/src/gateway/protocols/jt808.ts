@@ -0,0 +1,152 @@
+/**
+ * JT/T 808 protocol adapter — the gateway's native protocol.
+ *
+ * Framing and decode live in ../codec, message handling in ../handlers
+ * (dispatch.ts routes by msgId); this file only plugs them into the
+ * ProtocolAdapter seam and owns the GpsCommand → downlink message mapping.
+ */
+
+import { FRAME_DELIMITER, MsgId } from '../codec/constants';
+import { decodeFrame, downlinkFrameCount, encodeFrame, type DecodedFrame } from '../codec';
+import { splitFrames } from '../codec/framing';
+import * as m8201 from '../codec/messages/m8201-location-query';
+import * as m8104 from '../codec/messages/m8104-query-params';
+import * as m8103 from '../codec/messages/m8103-set-params';
+import * as m8105 from '../codec/messages/m8105-terminal-control';
+import * as m8202 from '../codec/messages/m8202-temporary-tracking';
+import * as m8300 from '../codec/messages/m8300-text-distribution';
+import * as m8900 from '../codec/messages/m8900-pass-through-down';
+import { dispatchFrame } from '../handlers/dispatch';
+import { platformRsaKey } from '../services/rsa-keys';
+import type { Session } from '../session/Session';
+import type { DownlinkCommand, ProtocolAdapter } from './types';
+
+export const jt808Adapter: ProtocolAdapter<DecodedFrame> = {
+  protocol: 'JT808',
+
+  detect: (head) => head[0] === FRAME_DELIMITER,
+
+  splitFrames,
+
+  // Encrypted frames are only decrypted once the session has authenticated:
+  // before that anyone can send one, and whatever we do with the plaintext
+  // would tell them something about the platform key.
+  decode: (frame, session) =>
+    decodeFrame(frame, { rsaPrivateKey: session.authenticated ? platformRsaKey()?.privateKey : null }),
+
+  frameMeta: (decoded) => ({ msgId: decoded.header.msgId, msgSerial: decoded.header.msgSerial }),
+
+  async dispatch(session, decoded) {
+    // Subpackaged fragments are buffered until the whole message is in;
+    // dispatch only ever sees complete bodies.
+    const complete = session.subpackages.accept(decoded);
+    if (complete) await dispatchFrame(session, complete);
+  },
+
+  encodeCommand(session, cmd, msgSerial) {
+    const frame = buildFrameForRecord(session, cmd.functionCode, buildBody(cmd), msgSerial);
+    return { frame, msgId: cmd.functionCode };
+  },
+};
+
+/**
+ * Encode the full frame (with header + checksum + escaping) so the
+ * dispatcher can store the exact bytes-on-the-wire on the GpsCommand row
+ * before it even writes.
+ *
+ * `Session.writeFrame` is the usual helper but it always allocates a fresh
+ * msgSerial — the dispatcher already reserved ours up-front (so it can
+ * install the pending-command callback before the bytes hit the wire) so we call
+ * `encodeFrame` directly here.
+ */
+function buildFrameForRecord(
+  session: Session,
+  msgId: number,
+  body: Buffer,
+  msgSerial: number,
+): Buffer {
+  if (!session.phoneBcd) {
+    throw new Error('session has no phoneBcd');
+  }
+  const rsaPublicKey = session.downlinkKey(msgId);
+  // An encrypted body too long for one frame goes out as subpackages with
+  // consecutive serials. The dispatcher reserved `msgSerial` right before
+  // calling us, so the rest are the next ones on the session; replies still
+  // come back under `msgSerial`.
+  const extraFrames = downlinkFrameCount(body, rsaPublicKey) - 1;
+  if (extraFrames > 0) session.reserveSerials(extraFrames);
+  return encodeFrame({
+    msgId,
+    phoneBcd: session.phoneBcd,
+    protocolVersion: session.protocolVersion,
+    msgSerial,
+    body,
+    rsaPublicKey,
+  });
+}
+
+function buildBody(cmd: DownlinkCommand): Buffer {
+  switch (cmd.functionCode) {
+    case MsgId.LOCATION_QUERY:
+      return m8201.encode();
+    case MsgId.QUERY_TERMINAL_PARAMS:
+      return m8104.encode();
+    case MsgId.SET_TERMINAL_PARAMS: {
+      const payload = cmd.payload as { kind: string; items: unknown };
+      if (!Array.isArray(payload.items)) {
+        throw new Error('set-params payload missing `items` array');
+      }
+      // Persisted items are registry-normalized at enqueue time
+      // (param-registry normalizeParamWrite): numbers carry their byteWidth,
+      // BYTES parameters are hex strings flagged `format: 'hex'`.
+      const entries: m8103.ParamEntry[] = (
+        payload.items as Array<{ id: number; value: unknown; byteWidth?: number; format?: string }>
+      ).map((p) => {
+        if (typeof p.value === 'number') {
+          return {
+            id: p.id,
+            value: p.value,
+            ...(p.byteWidth === 1 || p.byteWidth === 2 ? { byteWidth: p.byteWidth as 1 | 2 } : {}),
+          };
+        }
+        if (typeof p.value === 'string') {
+          return p.format === 'hex'
+            ? { id: p.id, value: Buffer.from(p.value, 'hex') }
+            : { id: p.id, value: p.value };
+        }
+        throw new Error(`set-params item id=0x${p.id.toString(16)} has unsupported value type`);
+      });
+      return m8103.encode(entries);
+    }
+    case MsgId.DATA_PASSTHROUGH_DOWN: {
+      const payload = cmd.payload as { kind: string };
+      if (payload.kind === 'clear-dtcs') {
+        return m8900.encodeDtcClear();
+      }
+      throw new Error(`Unsupported pass-through kind: ${String(payload.kind)}`);
+    }
+    case MsgId.TERMINAL_CONTROL: {
+      const payload = cmd.payload as { kind: string; controlType?: number };
+      if (payload.kind !== 'terminal-control' || typeof payload.controlType !== 'number') {
+        throw new Error('terminal-control payload missing controlType');
+      }
+      return m8105.encode({ controlType: payload.controlType });
+    }
+    case MsgId.TEMPORARY_TRACKING_CONTROL: {
+      const payload = cmd.payload as { kind: string; intervalSec?: number; validitySec?: number };
+      if (payload.kind !== 'temporary-tracking' || typeof payload.intervalSec !== 'number') {
+        throw new Error('temporary-tracking payload missing intervalSec');
+      }
+      return m8202.encode({ intervalSec: payload.intervalSec, validitySec: payload.validitySec });
+    }
+    case MsgId.TEXT_DISTRIBUTION: {
+      const payload = cmd.payload as { kind: string; textPayload?: string };
+      if (typeof payload.textPayload !== 'string' || payload.textPayload.length === 0) {
+        throw new Error('text-distribution payload missing textPayload');
+      }
+      return m8300.encode({ textFlag: 0x01, text: payload.textPayload });
+    }
+    default:
+      throw new Error(`Unsupported function code: 0x${cmd.functionCode.toString(16)}`);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Protocol adapters — the seam between transports and device protocols.
+ *
+ * The listeners only move bytes; everything protocol-shaped goes through
+ * the session's adapter:
+ *
+ *   • `detect` / `splitFrames` — recognise and frame the byte stream
+ *   • `decode` / `frameMeta` / `dispatch` — one inbound frame, run by
+ *     pipeline.processFrame (which owns journaling and the bad-frame limit)
+ *   • `encodeCommand` — turn a QUEUED GpsCommand into wire bytes for
+ *     command-dispatcher
+ *
+ * Every adapter maps its device's messages onto the shared models —
+ * GpsTerminal (identity, ONLINE/OFFLINE, session lease), GpsLocation /
+ * GpsAlarm (via handleLocation.ingestLocations) and GpsCommand — so nothing
+ * above the gateway knows which protocol a terminal speaks beyond
+ * `GpsTerminal.protocol`.
+ */
+
+import type { GpsProtocol } from '@prisma/client';
+import type { FrameSplitResult } from '../codec/types';
+import type { Session } from '../session/Session';
+
+/** The GpsCommand columns an adapter needs to build the downlink. */
+export interface DownlinkCommand {
+  id: string;
+  terminalId: string;
+  functionCode: number;
+  payload: unknown;
+}
+
+export interface EncodedDownlink {
+  /** Complete wire frame. */
+  frame: Buffer;
+  /** Protocol message id of the frame (journal / logs). */
+  msgId: number;
+}
+
+export interface ProtocolAdapter<TFrame = unknown> {
+  readonly protocol: GpsProtocol;
+
+  /** Whether the first bytes of a connection belong to this protocol. */
+  detect(head: Buffer): boolean;
+
+  /** Cut complete frames off the front of a stream buffer. */
+  splitFrames(input: Buffer): FrameSplitResult;
+
+  /**
+   * Decode one complete frame; throws on anything malformed. `session` is
+   * the connection it arrived on (e.g. whether it has authenticated yet).
+   */
+  decode(frame: Buffer, session: Session): TFrame;
+
+  /** Message id + serial of a decoded frame (frame journal). */
+  frameMeta(decoded: TFrame): { msgId: number; msgSerial: number };
+
+  /** Handle one decoded frame — ack, persist, reply. */
+  dispatch(session: Session, decoded: TFrame): Promise<void>;
+
+  /**
+   * Build the downlink frame for `cmd`, using `msgSerial` (already reserved
+   * on the session) as the frame serial a reply will be matched against.
+   * Throws when the command can't be expressed in this protocol.
+   */
+  encodeCommand(session: Session, cmd: DownlinkCommand, msgSerial: number): EncodedDownlink;
+}
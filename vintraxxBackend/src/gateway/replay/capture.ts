@@ -0,0 +1,81 @@
+/**
+ * Capture files — the downloadable form of a terminal's frame journal
+ * (GpsFrameJournalEntry), read back by scripts/replay-frame-journal.ts.
+ *
+ * JSON Lines: a header line, then one line per frame in wire order.
+ *
+ *   {"format":"vintraxx-frame-journal","version":1,"terminalId":"…","deviceIdentifier":"13800138000","exportedAt":"…","frames":2}
+ *   {"at":"2026-10-19T08:00:00.000Z","session":"…","dir":"IN","msgId":"0x0200","serial":17,"hex":"7e0200…7e","error":null}
+ *   {"at":"2026-10-19T08:00:00.004Z","session":"…","dir":"OUT","msgId":"0x8001","serial":3,"hex":"7e8001…7e","error":null}
+ *
+ * `hex` is the escaped frame including both 0x7E delimiters. `msgId` and
+ * `serial` are null for inbound frames that failed to decode, which carry
+ * the decoder's message in `error` instead.
+ */
+
+import { z } from 'zod';
+
+export const CAPTURE_FORMAT = 'vintraxx-frame-journal';
+export const CAPTURE_VERSION = 1;
+
+const headerSchema = z.object({
+  format: z.literal(CAPTURE_FORMAT),
+  version: z.literal(CAPTURE_VERSION),
+  terminalId: z.string(),
+  deviceIdentifier: z.string(),
+  exportedAt: z.string(),
+  frames: z.number().int().nonnegative(),
+});
+
+const frameSchema = z.object({
+  at: z.string(),
+  session: z.string(),
+  dir: z.enum(['IN', 'OUT']),
+  msgId: z
+    .string()
+    .regex(/^0x[0-9a-f]{4}$/i)
+    .nullable(),
+  serial: z.number().int().min(0).max(0xffff).nullable(),
+  hex: z.string().regex(/^(?:[0-9a-f]{2})+$/i),
+  error: z.string().nullable(),
+});
+
+export type CaptureHeader = z.infer<typeof headerSchema>;
+export type CaptureFrame = z.infer<typeof frameSchema>;
+
+export interface Capture {
+  header: CaptureHeader;
+  frames: CaptureFrame[];
+}
+
+export const formatMsgId = (msgId: number) => `0x${msgId.toString(16).padStart(4, '0')}`;
+
+/** Serialise a capture; one JSON document per line, trailing newline. */
+export function formatCapture(capture: Capture): string {
+  return [capture.header, ...capture.frames].map((l) => JSON.stringify(l)).join('\n') + '\n';
+}
+
+/** Parse + validate a capture file; throws with the offending line number. */
+export function parseCapture(text: string): Capture {
+  const lines = text.split('\n').filter((l) => l.trim() !== '');
+  if (lines.length === 0) throw new Error('Capture file is empty');
+
+  const parseLine = <T>(schema: z.ZodType<T>, index: number): T => {
+    let json: unknown;
+    try {
+      json = JSON.parse(lines[index]);
+    } catch {
+      throw new Error(`Capture line ${index + 1}: not valid JSON`);
+    }
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Capture line ${index + 1}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    }
+    return result.data;
+  };
+
+  const header = parseLine(headerSchema, 0);
+  const frames = lines.slice(1).map((_, i) => parseLine(frameSchema, i + 1));
+  return { header, frames };
+}
@@ -0,0 +1,182 @@
+/**
+ * Replay a frame-journal capture through the real inbound pipeline —
+ * decodeFrame → subpackage reassembly → dispatchFrame — against a scratch
+ * terminal, so a decoder or handler fix can be checked against field data.
+ *
+ * The replay session is pre-bound and authenticated as the scratch
+ * terminal; everything the handlers persist (locations, alarms, trips…)
+ * lands on that terminal, never on the one the capture came from. The
+ * handshake frames (0x0100 / 0x0102) and 0x0003 logout are skipped — the
+ * captured auth code belongs to the original device, and a logout would end
+ * the session half-way. Outbound frames from the capture are only counted:
+ * the platform answers for itself, and those replies are swallowed by a
+ * socket that goes nowhere.
+ *
+ * For each inbound frame the result is compared with the decode outcome
+ * recorded at capture time, so a frame that used to fail and now decodes
+ * (or the reverse) stands out.
+ *
+ * Only JT/T 808 captures replay; the session runs on the JT/T adapter.
+ */
+
+import { Duplex } from 'stream';
+import type { Socket } from 'net';
+import { randomUUID } from 'crypto';
+
+import { decodeFrame, type DecodedFrame } from '../codec';
+import { MsgId } from '../codec/constants';
+import { Session } from '../session/Session';
+import { SessionRegistry } from '../session/SessionRegistry';
+import { dispatchFrame } from '../handlers/dispatch';
+import { platformRsaKey } from '../services/rsa-keys';
+import { jt808Adapter } from '../protocols';
+import { formatMsgId, type Capture, type CaptureFrame } from './capture';
+
+/** Inbound messages a pre-authenticated replay session must not see. */
+const SKIPPED_MSG_IDS = new Set<number>([
+  MsgId.TERMINAL_REGISTER,
+  MsgId.TERMINAL_AUTH,
+  MsgId.TERMINAL_LOGOUT,
+]);
+
+export type ReplayOutcome =
+  /** Decoded and dispatched, same as at capture time. */
+  | 'ok'
+  /** Failed at capture time, decodes now. */
+  | 'fixed'
+  /** Decoded at capture time, fails now. */
+  | 'regressed'
+  /** Failed at capture time and still does. */
+  | 'still_failing'
+  /** Decoded, but the handler threw. */
+  | 'dispatch_error'
+  | 'skipped';
+
+export interface ReplayFrameResult {
+  index: number;
+  at: string;
+  msgId: string | null;
+  serial: number | null;
+  outcome: ReplayOutcome;
+  error: string | null;
+}
+
+export interface ReplaySummary {
+  inbound: number;
+  outboundInCapture: number;
+  repliesWritten: number;
+  counts: Record<ReplayOutcome, number>;
+  results: ReplayFrameResult[];
+}
+
+export interface ReplayOptions {
+  terminal: { id: string; deviceIdentifier: string };
+  /** Called after each inbound frame (CLI progress output). */
+  onFrame?: (result: ReplayFrameResult) => void;
+}
+
+/** A socket stand-in that accepts the platform's replies and drops them. */
+class SinkSocket extends Duplex {
+  readonly remoteAddress = 'replay';
+  readonly remotePort = 0;
+  framesWritten = 0;
+
+  _read(): void {}
+
+  _write(_chunk: Buffer, _encoding: BufferEncoding, callback: (err?: Error | null) => void): void {
+    this.framesWritten += 1;
+    callback();
+  }
+}
+
+export async function replayCapture(capture: Capture, opts: ReplayOptions): Promise<ReplaySummary> {
+  const socket = new SinkSocket();
+  const session = new Session({
+    id: `replay-${randomUUID()}`,
+    socket: socket as unknown as Socket,
+    adapter: jt808Adapter,
+  });
+  session.bindTerminal({
+    terminalId: opts.terminal.id,
+    deviceIdentifier: opts.terminal.deviceIdentifier,
+  });
+  session.authenticated = true;
+  SessionRegistry.add(session);
+  SessionRegistry.bind(session, opts.terminal.id, opts.terminal.deviceIdentifier);
+
+  const counts: Record<ReplayOutcome, number> = {
+    ok: 0,
+    fixed: 0,
+    regressed: 0,
+    still_failing: 0,
+    dispatch_error: 0,
+    skipped: 0,
+  };
+  const results: ReplayFrameResult[] = [];
+  let inbound = 0;
+  let outboundInCapture = 0;
+
+  try {
+    for (const [index, captured] of capture.frames.entries()) {
+      if (captured.dir === 'OUT') {
+        outboundInCapture += 1;
+        continue;
+      }
+      inbound += 1;
+      const result = await replayFrame(session, captured, index);
+      counts[result.outcome] += 1;
+      results.push(result);
+      opts.onFrame?.(result);
+    }
+  } finally {
+    session.subpackages.clear();
+    SessionRegistry.remove(session);
+  }
+
+  return {
+    inbound,
+    outboundInCapture,
+    repliesWritten: socket.framesWritten,
+    counts,
+    results,
+  };
+}
+
+async function replayFrame(
+  session: Session,
+  captured: CaptureFrame,
+  index: number,
+): Promise<ReplayFrameResult> {
+  const base = { index, at: captured.at, msgId: captured.msgId, serial: captured.serial };
+  const failedBefore = captured.error !== null;
+
+  let decoded: DecodedFrame;
+  try {
+    decoded = decodeFrame(Buffer.from(captured.hex, 'hex'), {
+      rsaPrivateKey: platformRsaKey()?.privateKey,
+    });
+  } catch (err) {
+    return {
+      ...base,
+      outcome: failedBefore ? 'still_failing' : 'regressed',
+      error: (err as Error).message,
+    };
+  }
+
+  const result = {
+    ...base,
+    msgId: formatMsgId(decoded.header.msgId),
+    serial: decoded.header.msgSerial,
+  };
+  if (SKIPPED_MSG_IDS.has(decoded.header.msgId)) {
+    return { ...result, outcome: 'skipped', error: null };
+  }
+
+  try {
+    const complete = session.subpackages.accept(decoded);
+    if (complete) await dispatchFrame(session, complete);
+  } catch (err) {
+    return { ...result, outcome: 'dispatch_error', error: (err as Error).message };
+  }
+  return { ...result, outcome: failedBefore ? 'fixed' : 'ok', error: null };
+}
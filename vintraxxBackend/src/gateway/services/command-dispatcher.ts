@@ -2,19 +2,24 @@
  * command-dispatcher — gateway-side consumer of QUEUED GpsCommand rows.
  *
  * How it works:
- *   1. A dedicated `pg.Client` listens on the `gps_command` channel.
+ *   1. A dedicated `pg.Client` listens on the `gps_command` channel (and on
+ *      `gps_lease`, see pod-lease.ts).
  *   2. On each notification (or every 30s sweep, whichever comes first),
  *      we pull QUEUED commands whose terminal has a live session in the
- *      LOCAL SessionRegistry. Other gateway pods (if any) handle the rest.
+ *      LOCAL SessionRegistry. Notifications carry the pod holding the
+ *      terminal's session lease; other pods ignore them. A command is only
+ *      written by the session that still holds the lease, so a zombie
+ *      socket on another pod never swallows it.
  *   3. For each picked command:
- *        a. Build the wire body via the appropriate codec.
- *        b. Reserve a fresh msgSerial via session.writeFrame.
- *        c. Mark the row SENT (atomic CAS on QUEUED → SENT).
- *        d. Register a PendingCommand on the session keyed by msgSerial.
- *        e. When the device sends 0x0001 acking that serial,
- *           handleTerminalGeneralResponse resolves the pending future →
- *           we mark the row ACKED.
- *        f. If the timeout fires first, mark FAILED.
+ *        a. Reserve a fresh msgSerial and build the frame through the
+ *           session's protocol adapter (protocols/).
+ *        b. Mark the row SENT (atomic CAS on QUEUED → SENT).
+ *        c. Register a PendingCommand on the session keyed by msgSerial.
+ *        d. When the device acks that serial (JT/T 808 0x0001 via
+ *           handleTerminalGeneralResponse, or the adapter's own reply
+ *           message) the pending future resolves → we mark the row ACKED.
+ *        e. If the timeout fires first, mark FAILED — or re-queue it for a
+ *           later attempt when the kind's retry policy allows.
  *
  * If the database step (markSent) fails — e.g. another pod beat us to it —
  * we DON'T write to the socket. This guarantees a single command is sent at
@@ -22,6 +27,8 @@
  *
  * On reconnect after a device-side restart we also do a sweep so commands
  * queued while the device was offline get delivered when it comes back.
+ * A terminal whose configuration profile isn't IN_SYNC gets the profile
+ * queued first (gps-config-profile.service), so it rides the same drain.
  *
  * The dispatcher is OPTIONAL — if the LISTEN client fails to connect, it
  * keeps retrying with exponential backoff but the gateway continues to
@@ -35,16 +42,17 @@ import logger from '../../utils/logger';
 import { env } from '../../config/env';
 
 import { SessionRegistry } from '../session/SessionRegistry';
-import { MsgId } from '../codec/constants';
-import { encodeFrame } from '../codec';
-import * as m8201 from '../codec/messages/m8201-location-query';
-import * as m8104 from '../codec/messages/m8104-query-params';
-import * as m8103 from '../codec/messages/m8103-set-params';
-import * as m8105 from '../codec/messages/m8105-terminal-control';
-import * as m8300 from '../codec/messages/m8300-text-distribution';
-import * as m8900 from '../codec/messages/m8900-pass-through-down';
 import * as commandService from '../../services/gps-command.service';
-
+import { pushConfigProfile } from '../../services/gps-config-profile.service';
+import {
+  LEASE_CHANNEL,
+  POD_ID,
+  holdsLease,
+  onLeaseTaken,
+  type LeaseTakenEvent,
+} from './pod-lease';
+
+import type { DownlinkCommand, EncodedDownlink } from '../protocols/types';
 import type { Session, PendingCommand } from '../session/Session';
 
 // ── Tunables ────────────────────────────────────────────────────────────────
@@ -107,11 +115,17 @@ export async function stopCommandDispatcher(): Promise<void> {
 /**
  * Public hook: when a session finishes auth and binds to a terminal, the auth
  * handler can call this to drain any queued commands for that terminal that
- * arrived while the device was offline.
+ * arrived while the device was offline — after queueing its configuration
+ * profile when the terminal is out of sync with it.
  */
 export async function dispatchQueuedForTerminal(terminalId: string): Promise<void> {
   const session = SessionRegistry.getByTerminalId(terminalId);
   if (!session || !session.authenticated) return;
+  await pushConfigProfile(terminalId).catch((err) =>
+    session.log.warn('command-dispatcher: config profile push failed', {
+      err: (err as Error).message,
+    }),
+  );
   await pickAndDispatch({ terminalIds: [terminalId] });
 }
 
@@ -138,16 +152,30 @@ async function connectListenClient(): Promise<void> {
   });
 
   c.on('notification', (msg) => {
-    if (msg.channel !== 'gps_command' || !msg.payload) return;
-    let parsed: { commandId: string };
+    if (!msg.payload) return;
+    if (msg.channel === LEASE_CHANNEL) {
+      try {
+        onLeaseTaken(JSON.parse(msg.payload) as LeaseTakenEvent);
+      } catch (err) {
+        logger.warn('command-dispatcher: bad gps_lease payload', {
+          err: (err as Error).message,
+        });
+      }
+      return;
+    }
+    if (msg.channel !== 'gps_command') return;
+    let parsed: { commandId: string; podId?: string | null };
     try {
-      parsed = JSON.parse(msg.payload) as { commandId: string };
+      parsed = JSON.parse(msg.payload) as { commandId: string; podId?: string | null };
     } catch (err) {
       logger.warn('command-dispatcher: bad payload (non-JSON)', {
         err: (err as Error).message,
       });
       return;
     }
+    // Addressed to the pod holding the terminal. Without a pod (terminal
+    // offline, or an older emitter) every pod tries; dispatchOne filters.
+    if (parsed.podId && parsed.podId !== POD_ID) return;
     void pickAndDispatch({ commandIds: [parsed.commandId] }).catch((err) => {
       logger.error('command-dispatcher: dispatch failed', {
         commandId: parsed.commandId,
@@ -159,6 +187,7 @@ async function connectListenClient(): Promise<void> {
   try {
     await c.connect();
     await c.query('LISTEN gps_command');
+    await c.query(`LISTEN ${LEASE_CHANNEL}`);
     listenClient = c;
     reconnectAttempts = 0;
     logger.info('command-dispatcher: LISTEN ready');
@@ -187,7 +216,9 @@ async function sweepQueuedCommands(): Promise<void> {
 
 /**
  * Common picker. Loads candidate QUEUED commands from the DB filtered by
- * terminalId or commandId, then loops them through `dispatchOne`. We DON'T
+ * terminalId or commandId — skipping scheduled ones and retries still in
+ * their backoff (`notBefore` in the future) — then loops them through
+ * `dispatchOne`. We DON'T
  * mark SENT here — that happens inside dispatchOne, atomically right before
  * the socket write so a row never sits in SENT without bytes on the wire.
  */
@@ -195,7 +226,12 @@ async function pickAndDispatch(args: {
   terminalIds?: string[];
   commandIds?: string[];
 }): Promise<void> {
-  const where: Record<string, unknown> = { status: 'QUEUED' };
+  // SMS-channel rows are sent by the REST process, never over a session.
+  const where: Record<string, unknown> = {
+    status: 'QUEUED',
+    channel: 'DATA',
+    OR: [{ notBefore: null }, { notBefore: { lte: new Date() } }],
+  };
   if (args.terminalIds) where.terminalId = { in: args.terminalIds };
   if (args.commandIds) where.id = { in: args.commandIds };
 
@@ -212,19 +248,12 @@ async function pickAndDispatch(args: {
 
 // ── Dispatch one command ────────────────────────────────────────────────────
 
-interface DispatchableRow {
-  id: string;
-  terminalId: string;
-  functionCode: number;
-  payload: unknown;
-}
-
 async function dispatchOne(commandId: string): Promise<void> {
   const cmd = (await prisma.gpsCommand.findUnique({
     where: { id: commandId },
     select: { id: true, terminalId: true, functionCode: true, payload: true, status: true },
   })) as
-    | (DispatchableRow & { status: string })
+    | (DownlinkCommand & { status: string })
     | null;
 
   if (!cmd || cmd.status !== 'QUEUED') return;
@@ -235,20 +264,10 @@ async function dispatchOne(commandId: string): Promise<void> {
     // sweep when the device reconnects.
     return;
   }
-
-  let body: Buffer;
-  try {
-    body = buildBody(cmd);
-  } catch (err) {
-    logger.warn('command-dispatcher: failed to build body', {
+  if (!(await holdsLease(session))) {
+    // The device reconnected through another pod; this socket is stale.
+    session.log.info('command-dispatcher: session no longer holds the lease', {
       commandId: cmd.id,
-      functionCode: `0x${cmd.functionCode.toString(16).padStart(4, '0')}`,
-      err: (err as Error).message,
-    });
-    await commandService.markFailed({
-      commandId: cmd.id,
-      errorText: `body build error: ${(err as Error).message}`,
-      fromStatus: ['QUEUED'],
     });
     return;
   }
@@ -258,19 +277,26 @@ async function dispatchOne(commandId: string): Promise<void> {
   // (otherwise the device could in theory ack before we install the handler).
   const msgSerial = session.nextSerial();
 
-  // Pre-build the encoded frame so we can record exact bytes to the audit
-  // log even if the socket write fails.
-  let rawFrame: Buffer;
+  // Pre-build the encoded frame (in the terminal's protocol) so we can
+  // record exact bytes to the audit log even if the socket write fails.
+  let downlink: EncodedDownlink;
   try {
-    rawFrame = buildFrameForRecord(session, cmd.functionCode, body, msgSerial);
+    downlink = session.adapter.encodeCommand(session, cmd, msgSerial);
   } catch (err) {
+    logger.warn('command-dispatcher: failed to encode command', {
+      commandId: cmd.id,
+      protocol: session.adapter.protocol,
+      functionCode: `0x${cmd.functionCode.toString(16).padStart(4, '0')}`,
+      err: (err as Error).message,
+    });
     await commandService.markFailed({
       commandId: cmd.id,
-      errorText: `frame encode error: ${(err as Error).message}`,
+      errorText: `encode error: ${(err as Error).message}`,
       fromStatus: ['QUEUED'],
     });
     return;
   }
+  const rawFrame = downlink.frame;
 
   // Atomic QUEUED→SENT — this is the contention point with other gateway
   // pods. If it returns false we lost the race; abort silently.
@@ -278,6 +304,7 @@ async function dispatchOne(commandId: string): Promise<void> {
     commandId: cmd.id,
     rawBytes: rawFrame,
     serialNumber: msgSerial,
+    gatewayPodId: POD_ID,
   });
   if (!claimed) {
     session.log.info('command-dispatcher: lost claim race (another pod sent it)', {
@@ -291,7 +318,7 @@ async function dispatchOne(commandId: string): Promise<void> {
 
   // Write. Errors here transition SENT→FAILED.
   try {
-    session.socket.write(rawFrame);
+    session.writeRaw(rawFrame, { msgId: downlink.msgId, msgSerial });
     const payload = cmd.payload as { kind?: string; textPayload?: string } | null;
     session.log.info('GPS command sent', {
       commandId: cmd.id,
@@ -317,93 +344,11 @@ async function dispatchOne(commandId: string): Promise<void> {
       commandId: cmd.id,
       errorText: `socket write error: ${(err as Error).message}`,
       fromStatus: ['SENT'],
+      retryable: true,
     });
   }
 }
 
-/**
- * Encode the full frame (with header + checksum + escaping) so we can store
- * the exact bytes-on-the-wire on the GpsCommand row before we even write.
- *
- * `Session.writeFrame` is the usual helper but it always allocates a fresh
- * msgSerial — we already reserved ours up-front (so we can install the
- * pending-command callback before the bytes hit the wire) so we call
- * `encodeFrame` directly here.
- */
-function buildFrameForRecord(
-  session: Session,
-  msgId: number,
-  body: Buffer,
-  msgSerial: number,
-): Buffer {
-  if (!session.phoneBcd) {
-    throw new Error('session has no phoneBcd');
-  }
-  return encodeFrame({
-    msgId,
-    phoneBcd: session.phoneBcd,
-    msgSerial,
-    body,
-  });
-}
-
-function buildBody(cmd: DispatchableRow): Buffer {
-  switch (cmd.functionCode) {
-    case MsgId.LOCATION_QUERY:
-      return m8201.encode();
-    case MsgId.QUERY_TERMINAL_PARAMS:
-      return m8104.encode();
-    case MsgId.SET_TERMINAL_PARAMS: {
-      const payload = cmd.payload as { kind: string; items: unknown };
-      if (!Array.isArray(payload.items)) {
-        throw new Error('set-params payload missing `items` array');
-      }
-      // The persisted items have shape { id:number, value:number|string|hex }.
-      // Convert to the codec's ParamEntry union — strings/numbers pass through;
-      // anything else is rejected (the REST validator already enforces this).
-      const entries: m8103.ParamEntry[] = (
-        payload.items as Array<{ id: number; value: unknown; byteWidth?: number }>
-      ).map((p) => {
-        if (typeof p.value === 'number') {
-          return {
-            id: p.id,
-            value: p.value,
-            ...(p.byteWidth === 1 || p.byteWidth === 2 ? { byteWidth: p.byteWidth as 1 | 2 } : {}),
-          };
-        }
-        if (typeof p.value === 'string') {
-          return { id: p.id, value: p.value };
-        }
-        throw new Error(`set-params item id=0x${p.id.toString(16)} has unsupported value type`);
-      });
-      return m8103.encode(entries);
-    }
-    case MsgId.DATA_PASSTHROUGH_DOWN: {
-      const payload = cmd.payload as { kind: string };
-      if (payload.kind === 'clear-dtcs') {
-        return m8900.encodeDtcClear();
-      }
-      throw new Error(`Unsupported pass-through kind: ${String(payload.kind)}`);
-    }
-    case MsgId.TERMINAL_CONTROL: {
-      const payload = cmd.payload as { kind: string; controlType?: number };
-      if (payload.kind !== 'terminal-control' || typeof payload.controlType !== 'number') {
-        throw new Error('terminal-control payload missing controlType');
-      }
-      return m8105.encode({ controlType: payload.controlType });
-    }
-    case MsgId.TEXT_DISTRIBUTION: {
-      const payload = cmd.payload as { kind: string; textPayload?: string };
-      if (typeof payload.textPayload !== 'string' || payload.textPayload.length === 0) {
-        throw new Error('text-distribution payload missing textPayload');
-      }
-      return m8300.encode({ textFlag: 0x01, text: payload.textPayload });
-    }
-    default:
-      throw new Error(`Unsupported function code: 0x${cmd.functionCode.toString(16)}`);
-  }
-}
-
 /**
  * Register a PendingCommand on the session whose resolution updates the
  * GpsCommand row. We DON'T need to keep a JS Promise here — the session's
@@ -422,6 +367,7 @@ function installPending(
         commandId,
         errorText: 'timeout: 0x0001 ack not received',
         fromStatus: ['SENT'],
+        retryable: true,
       })
       .catch((err) =>
         logger.warn('command-dispatcher: markFailed(timeout) raced', {
@@ -435,7 +381,7 @@ function installPending(
     msgId: functionCode,
     msgSerial,
     sentAt: new Date(),
-    resolve: (result: number) => {
+    resolve: (result, response) => {
       const resultMeaning =
         result === 0 ? 'success' :
         result === 1 ? 'failure' :
@@ -443,18 +389,20 @@ function installPending(
         result === 3 ? 'not supported' :
         result === 4 ? 'executing previous operation' :
         `unknown (0x${result.toString(16).padStart(2, '0')})`;
-      session.log.info('GPS command JT808 ACK (0x0001)', {
+      const jt808 = session.adapter.protocol === 'JT808';
+      session.log.info(jt808 ? 'GPS command JT808 ACK (0x0001)' : 'GPS command reply', {
         commandId,
         terminalId: session.terminalId,
         deviceIdentifier: session.canonicalDeviceId,
-        responseId: '0x0001',
+        protocol: session.adapter.protocol,
+        ...(jt808 ? { responseId: '0x0001' } : {}),
         responseSerial: msgSerial,
         result,
         resultMeaning,
         functionCode: `0x${functionCode.toString(16).padStart(4, '0')}`,
       });
       void commandService
-        .markAcked({ commandId, result })
+        .markAcked({ commandId, result, ...(response !== undefined ? { response } : {}) })
         .catch((err) =>
           logger.warn('command-dispatcher: markAcked failed', {
             commandId,
@@ -468,6 +416,7 @@ function installPending(
           commandId,
           errorText: err.message,
           fromStatus: ['SENT'],
+          retryable: true,
         })
         .catch((failErr) =>
           logger.warn('command-dispatcher: markFailed(reject) raced', {
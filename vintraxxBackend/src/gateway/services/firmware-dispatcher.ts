@@ -0,0 +1,292 @@
+/**
+ * firmware-dispatcher — gateway-side sender for OTA firmware campaigns.
+ *
+ * How it works:
+ *   1. Every PERIODIC_SWEEP_MS we look for QUEUED GpsFirmwareCampaignTarget
+ *      rows (of RUNNING campaigns) whose terminal has a live session in the
+ *      LOCAL SessionRegistry. Other gateway pods handle the rest.
+ *   2. Each pick is claimed with an atomic QUEUED → TRANSFERRING CAS
+ *      (`claimTarget`); losing the claim means another pod has it.
+ *   3. The full 0x8108 body is built once, sliced into PACKET_BODY_BYTES
+ *      chunks and sent as subpackages over a block of consecutive serials.
+ *      Packets go one at a time: each waits for its 0x0001 ack (through the
+ *      session's pendingCommands map, same as command-dispatcher) and is
+ *      resent up to PACKET_MAX_ATTEMPTS times.
+ *   4. After the last ack the target moves to AWAITING_RESULT; the 0x0108 /
+ *      0xF6 handlers settle it from there.
+ *
+ * A dropped socket or a gateway shutdown mid-transfer puts the target back
+ * in QUEUED (bounded by the service's attempt budget), so the image is
+ * resent from the start when the terminal reconnects. Campaign-level state
+ * (batches, failure threshold) is entirely gps-firmware.service's job.
+ */
+
+import prisma from '../../config/db';
+import logger from '../../utils/logger';
+
+import { SessionRegistry } from '../session/SessionRegistry';
+import { MsgId } from '../codec/constants';
+import { encodeFrame } from '../codec';
+import * as m8108 from '../codec/messages/m8108-terminal-upgrade';
+import * as firmwareService from '../../services/gps-firmware.service';
+
+import type { Session } from '../session/Session';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/** Subpackage body size. Must stay under the 10-bit body-length limit (1023). */
+const PACKET_BODY_BYTES = 1000;
+
+/** Per-packet wait for the terminal's 0x0001. Flash writes can be slow. */
+const PACKET_ACK_TIMEOUT_MS = 20_000;
+
+/** Sends per packet (first try + resends) before the transfer fails. */
+const PACKET_MAX_ATTEMPTS = 3;
+
+/** Persist progress every N acked packets (and on the last one). */
+const PROGRESS_EVERY_PACKETS = 25;
+
+/** Transfers this gateway runs at once — each holds an image in memory. */
+const MAX_CONCURRENT_TRANSFERS = 4;
+
+const PERIODIC_SWEEP_MS = 15_000;
+
+/** Targets currently streaming from this process, by terminalId. */
+const activeTransfers = new Set<string>();
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+/** Transfer ended for a reason that a later attempt could get past. */
+class RetryableTransferError extends Error {}
+
+// ── Public lifecycle ────────────────────────────────────────────────────────
+
+export function startFirmwareDispatcher(): void {
+  stopped = false;
+  if (sweepTimer === null) {
+    sweepTimer = setInterval(() => {
+      void sweepQueuedTargets().catch((err) => {
+        logger.warn('firmware-dispatcher sweep failed', {
+          err: (err as Error).message,
+        });
+      });
+    }, PERIODIC_SWEEP_MS);
+    sweepTimer.unref();
+  }
+  logger.info('firmware-dispatcher started');
+}
+
+/**
+ * Stop picking new targets. Transfers in flight notice `stopped` before
+ * their next packet and re-queue themselves.
+ */
+export function stopFirmwareDispatcher(): void {
+  stopped = true;
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
+
+// ── Picker ──────────────────────────────────────────────────────────────────
+
+async function sweepQueuedTargets(): Promise<void> {
+  if (stopped) return;
+  const capacity = MAX_CONCURRENT_TRANSFERS - activeTransfers.size;
+  if (capacity <= 0) return;
+
+  const liveTerminalIds: string[] = [];
+  for (const s of SessionRegistry.iter()) {
+    if (s.authenticated && s.terminalId && !activeTransfers.has(s.terminalId)) {
+      liveTerminalIds.push(s.terminalId);
+    }
+  }
+  if (liveTerminalIds.length === 0) return;
+
+  const rows = await prisma.gpsFirmwareCampaignTarget.findMany({
+    where: {
+      status: 'QUEUED',
+      terminalId: { in: liveTerminalIds },
+      campaign: { status: 'RUNNING' },
+    },
+    orderBy: { queuedAt: 'asc' },
+    take: capacity,
+    select: { id: true, terminalId: true, campaignId: true },
+  });
+
+  for (const row of rows) {
+    if (activeTransfers.size >= MAX_CONCURRENT_TRANSFERS) break;
+    const session = SessionRegistry.getByTerminalId(row.terminalId);
+    if (!session || !session.authenticated) continue;
+    if (!(await firmwareService.claimTarget(row.id))) continue;
+
+    activeTransfers.add(row.terminalId);
+    void runTransfer(session, row)
+      .catch((err) => {
+        logger.error('firmware-dispatcher: transfer crashed', {
+          targetId: row.id,
+          err: (err as Error).message,
+        });
+      })
+      .finally(() => activeTransfers.delete(row.terminalId));
+  }
+}
+
+// ── Transfer ────────────────────────────────────────────────────────────────
+
+async function runTransfer(
+  session: Session,
+  target: { id: string; terminalId: string; campaignId: string },
+): Promise<void> {
+  const campaign = await prisma.gpsFirmwareCampaign.findUnique({
+    where: { id: target.campaignId },
+    select: {
+      image: {
+        select: { id: true, version: true, upgradeType: true, manufacturerId: true, data: true },
+      },
+    },
+  });
+  if (!campaign) return;
+  const { image } = campaign;
+
+  let packets: Buffer[];
+  try {
+    packets = split(
+      m8108.encode({
+        upgradeType: image.upgradeType,
+        manufacturerId: image.manufacturerId,
+        version: image.version,
+        data: Buffer.from(image.data),
+      }),
+    );
+  } catch (err) {
+    await firmwareService.abortTransfer(
+      target.id,
+      `body build error: ${(err as Error).message}`,
+      false,
+    );
+    return;
+  }
+
+  session.log.info('Firmware transfer starting (0x8108)', {
+    targetId: target.id,
+    imageId: image.id,
+    version: image.version,
+    packets: packets.length,
+  });
+
+  try {
+    await sendPackets(session, target.id, packets);
+  } catch (err) {
+    const retryable = err instanceof RetryableTransferError;
+    session.log.warn('Firmware transfer aborted', {
+      targetId: target.id,
+      retryable,
+      err: (err as Error).message,
+    });
+    await firmwareService.abortTransfer(target.id, (err as Error).message, retryable);
+    return;
+  }
+
+  await firmwareService.markTransferComplete(target.id);
+  session.log.info('Firmware transfer complete; awaiting 0x0108', {
+    targetId: target.id,
+    packets: packets.length,
+  });
+}
+
+async function sendPackets(session: Session, targetId: string, packets: Buffer[]): Promise<void> {
+  if (!session.phoneBcd) throw new RetryableTransferError('session has no phoneBcd');
+
+  const total = packets.length;
+  const firstSerial = session.reserveSerials(total);
+
+  if (!(await firmwareService.recordTransferProgress(targetId, { packetsAcked: 0, packetsTotal: total }))) {
+    throw new Error('target no longer transferring');
+  }
+
+  for (let i = 0; i < total; i++) {
+    const msgSerial = (firstSerial + i) & 0xffff;
+    // Never RSA-encrypted: a full-size packet would not fit the 1023-byte
+    // body length once padded into 128-byte blocks.
+    const frame = encodeFrame({
+      msgId: MsgId.TERMINAL_UPGRADE_PACKAGE,
+      phoneBcd: session.phoneBcd,
+      protocolVersion: session.protocolVersion,
+      msgSerial,
+      body: packets[i],
+      subpackage: { total, index: i + 1 },
+    });
+
+    let result: number | null = null;
+    for (let attempt = 1; attempt <= PACKET_MAX_ATTEMPTS; attempt++) {
+      if (stopped) throw new RetryableTransferError('gateway shutting down');
+      if (session.socket.destroyed) throw new RetryableTransferError('session closed');
+      try {
+        result = await sendAndAwaitAck(session, msgSerial, frame);
+      } catch (err) {
+        if (session.socket.destroyed) throw new RetryableTransferError((err as Error).message);
+        session.log.info('Firmware packet ack timed out; resending', {
+          targetId,
+          index: i + 1,
+          total,
+          attempt,
+        });
+        continue;
+      }
+      if (result === 0) break;
+    }
+    if (result !== 0) {
+      throw new Error(
+        result === null
+          ? `packet ${i + 1}/${total} not acked after ${PACKET_MAX_ATTEMPTS} attempts`
+          : `packet ${i + 1}/${total} rejected (result=${result})`,
+      );
+    }
+
+    const acked = i + 1;
+    if (acked % PROGRESS_EVERY_PACKETS === 0 || acked === total) {
+      const stillActive = await firmwareService.recordTransferProgress(targetId, {
+        packetsAcked: acked,
+        packetsTotal: total,
+      });
+      if (!stillActive) throw new Error('target no longer transferring');
+    }
+  }
+}
+
+/** Write one frame and resolve with the result byte of its 0x0001. */
+function sendAndAwaitAck(session: Session, msgSerial: number, frame: Buffer): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const timeoutHandle = setTimeout(() => {
+      session.pendingCommands.delete(msgSerial);
+      reject(new Error('timeout: 0x0001 ack not received'));
+    }, PACKET_ACK_TIMEOUT_MS);
+
+    session.pendingCommands.set(msgSerial, {
+      msgId: MsgId.TERMINAL_UPGRADE_PACKAGE,
+      msgSerial,
+      sentAt: new Date(),
+      resolve,
+      reject,
+      timeoutHandle,
+    });
+
+    try {
+      session.writeRaw(frame, { msgId: MsgId.TERMINAL_UPGRADE_PACKAGE, msgSerial });
+    } catch (err) {
+      clearTimeout(timeoutHandle);
+      session.pendingCommands.delete(msgSerial);
+      reject(err as Error);
+    }
+  });
+}
+
+function split(body: Buffer): Buffer[] {
+  const packets: Buffer[] = [];
+  for (let off = 0; off < body.length; off += PACKET_BODY_BYTES) {
+    packets.push(body.subarray(off, off + PACKET_BODY_BYTES));
+  }
+  return packets;
+}
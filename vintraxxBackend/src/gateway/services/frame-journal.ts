@@ -0,0 +1,187 @@
+/**
+ * frame-journal — per-terminal raw frame capture (GpsFrameJournalEntry).
+ *
+ * How it works:
+ *   1. Every REFRESH_INTERVAL_MS we reload the set of terminals with
+ *      `journalEnabled` set. The admin API runs in another process, so a
+ *      toggle takes effect on a live session within one refresh.
+ *   2. `journalFrame` is called for every inbound frame (gateway frame loop)
+ *      and every outbound frame (Session.writeRaw). Frames of a journaled
+ *      terminal are buffered in memory and written with one createMany every
+ *      FLUSH_INTERVAL_MS, so capture never adds a DB round-trip to the
+ *      ack path.
+ *   3. Frames seen before the session is bound (0x0100 / 0x0102 and their
+ *      replies) are held per session and flushed on the first frame after
+ *      binding — the handshake is usually the interesting part.
+ *   4. After each refresh, terminals that received frames are trimmed to
+ *      the newest GPS_JOURNAL_MAX_FRAMES rows.
+ *
+ * Journaling is strictly best-effort: a failed write drops the batch with a
+ * warning, and the buffer is capped so a DB outage can't grow it without
+ * bound.
+ */
+
+import { Prisma, type GpsFrameDirection } from '@prisma/client';
+import prisma from '../../config/db';
+import { env } from '../../config/env';
+import logger from '../../utils/logger';
+
+import type { Session } from '../session/Session';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+const FLUSH_INTERVAL_MS = 2_000;
+const REFRESH_INTERVAL_MS = 15_000;
+
+/** Rows held in memory before new frames are dropped (DB unreachable). */
+const MAX_BUFFERED_FRAMES = 5_000;
+
+/** Pre-binding frames held per session. A handshake is 2–4 frames. */
+const MAX_UNBOUND_FRAMES = 16;
+
+export interface JournalFrameInput {
+  direction: GpsFrameDirection;
+  /** Escaped wire bytes, including both 0x7E delimiters. */
+  frame: Buffer;
+  msgId?: number | null;
+  msgSerial?: number | null;
+  decodeError?: string | null;
+}
+
+type PendingEntry = Omit<Prisma.GpsFrameJournalEntryCreateManyInput, 'terminalId'>;
+
+let enabledTerminalIds = new Set<string>();
+let buffer: Prisma.GpsFrameJournalEntryCreateManyInput[] = [];
+let droppedFrames = 0;
+const unbound = new WeakMap<Session, PendingEntry[]>();
+/** Terminals written since the last trim. */
+const touched = new Set<string>();
+
+let flushTimer: NodeJS.Timeout | null = null;
+let refreshTimer: NodeJS.Timeout | null = null;
+
+// ── Public lifecycle ────────────────────────────────────────────────────────
+
+export async function startFrameJournal(): Promise<void> {
+  try {
+    await refreshEnabledTerminals();
+  } catch (err) {
+    // Non-fatal: the next refresh tick tries again.
+    logger.warn('frame-journal: initial refresh failed', { err: (err as Error).message });
+  }
+  if (flushTimer === null) {
+    flushTimer = setInterval(() => void flush(), FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+  }
+  if (refreshTimer === null) {
+    refreshTimer = setInterval(() => {
+      void refreshEnabledTerminals()
+        .then(trimTouched)
+        .catch((err) => {
+          logger.warn('frame-journal refresh failed', { err: (err as Error).message });
+        });
+    }, REFRESH_INTERVAL_MS);
+    refreshTimer.unref();
+  }
+  logger.info('frame-journal started', { journaledTerminals: enabledTerminalIds.size });
+}
+
+/** Stop the timers and write whatever is still buffered. */
+export async function stopFrameJournal(): Promise<void> {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+  await flush();
+}
+
+// ── Capture ─────────────────────────────────────────────────────────────────
+
+export function journalFrame(session: Session, input: JournalFrameInput): void {
+  // Fast path: nothing is journaled (the normal production state).
+  if (enabledTerminalIds.size === 0) return;
+
+  const entry: PendingEntry = {
+    sessionId: session.id,
+    direction: input.direction,
+    capturedAt: new Date(),
+    msgId: input.msgId ?? null,
+    msgSerial: input.msgSerial ?? null,
+    frame: Buffer.from(input.frame),
+    decodeError: input.decodeError ?? null,
+  };
+
+  const terminalId = session.terminalId;
+  if (!terminalId) {
+    const held = unbound.get(session) ?? [];
+    if (held.length < MAX_UNBOUND_FRAMES) held.push(entry);
+    unbound.set(session, held);
+    return;
+  }
+
+  const held = unbound.get(session);
+  unbound.delete(session);
+  if (!enabledTerminalIds.has(terminalId)) return;
+
+  for (const e of held ?? []) enqueue({ ...e, terminalId });
+  enqueue({ ...entry, terminalId });
+}
+
+function enqueue(row: Prisma.GpsFrameJournalEntryCreateManyInput): void {
+  if (buffer.length >= MAX_BUFFERED_FRAMES) {
+    droppedFrames += 1;
+    return;
+  }
+  buffer.push(row);
+}
+
+// ── Persistence ─────────────────────────────────────────────────────────────
+
+async function flush(): Promise<void> {
+  if (droppedFrames > 0) {
+    logger.warn('frame-journal: buffer full, frames dropped', { droppedFrames });
+    droppedFrames = 0;
+  }
+  if (buffer.length === 0) return;
+  const rows = buffer;
+  buffer = [];
+  try {
+    await prisma.gpsFrameJournalEntry.createMany({ data: rows });
+    for (const r of rows) touched.add(r.terminalId);
+  } catch (err) {
+    logger.warn('frame-journal: failed to persist frames', {
+      rows: rows.length,
+      err: (err as Error).message,
+    });
+  }
+}
+
+async function refreshEnabledTerminals(): Promise<void> {
+  const rows = await prisma.gpsTerminal.findMany({
+    where: { journalEnabled: true },
+    select: { id: true },
+  });
+  enabledTerminalIds = new Set(rows.map((r) => r.id));
+}
+
+/** Keep the newest GPS_JOURNAL_MAX_FRAMES rows of every terminal we wrote to. */
+async function trimTouched(): Promise<void> {
+  const terminalIds = [...touched];
+  touched.clear();
+  for (const terminalId of terminalIds) {
+    await prisma.$executeRaw`
+      DELETE FROM "GpsFrameJournalEntry"
+      WHERE "terminalId" = ${terminalId}
+        AND "id" <= (
+          SELECT "id" FROM "GpsFrameJournalEntry"
+          WHERE "terminalId" = ${terminalId}
+          ORDER BY "id" DESC
+          OFFSET ${env.GPS_JOURNAL_MAX_FRAMES} LIMIT 1
+        )
+    `;
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * pod-lease — gateway pod identity, per-terminal session leases, failover.
+ *
+ * Several gateway processes can run behind one TCP load balancer. Each one
+ * (a "pod", identified by POD_ID) records itself in GpsGatewayPod and
+ * refreshes `lastSeenAt` every POD_HEARTBEAT_MS. Which pod holds a
+ * terminal's socket is recorded on the terminal itself:
+ *
+ *   • handleAuth takes the lease (`gatewayPodId` / `gatewaySessionId`) in the
+ *     same update that flips the terminal ONLINE, then announces it on the
+ *     `gps_lease` channel. A pod still holding an older session for that
+ *     terminal (the device reconnected through another pod before the old
+ *     socket timed out) closes it on receipt — see `onLeaseTaken`.
+ *   • The socket-close handler releases the lease, guarded on the session id
+ *     so a stale close never clobbers a newer owner.
+ *   • command-dispatcher only writes a command from the pod and session that
+ *     hold the lease, and the REST side addresses `gps_command`
+ *     notifications to that pod.
+ *
+ * Failover: every tick each pod looks for pods silent for POD_LEASE_TTL_MS.
+ * The first pod to delete a dead pod's row reaps it: its ONLINE terminals go
+ * OFFLINE with the lease cleared, and its SENT-but-unacked commands go back
+ * to QUEUED and are re-announced, so the terminal's next owner sends them
+ * again. A re-queued command may therefore reach the device twice, so the
+ * destructive kinds (gps-command.service DESTRUCTIVE_KINDS: a reset or a
+ * DTC wipe may well have landed) are failed instead of re-queued.
+ *
+ * A pod that was only stalled finds its row gone on the next heartbeat. It
+ * re-registers, takes back the leases for its live sessions that nobody
+ * else claimed meanwhile, and flips those terminals ONLINE again.
+ */
+
+import os from 'os';
+import prisma from '../../config/db';
+import { env } from '../../config/env';
+import logger from '../../utils/logger';
+import { emit as emitNotify } from '../../realtime/notify';
+import { emitCommandQueued } from '../../realtime/notify-command';
+import * as commandService from '../../services/gps-command.service';
+
+import { SessionRegistry } from '../session/SessionRegistry';
+import type { Session } from '../session/Session';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+const POD_HEARTBEAT_MS = 10_000;
+
+/** A pod silent this long is dead. Several missed heartbeats, not one. */
+const POD_LEASE_TTL_MS = 45_000;
+
+export const POD_ID = env.GPS_POD_ID ?? `${os.hostname()}-${process.pid}`;
+
+export const LEASE_CHANNEL = 'gps_lease';
+
+export interface LeaseTakenEvent {
+  terminalId: string;
+  podId: string;
+  sessionId: string;
+}
+
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+// ── Public lifecycle ────────────────────────────────────────────────────────
+
+/**
+ * Register this pod and start the heartbeat / dead-pod reaper. Anything
+ * still leased to POD_ID is left over from a previous process with the same
+ * id (a restart with GPS_POD_ID pinned) and is reaped first.
+ */
+export async function startPodLease(): Promise<void> {
+  await reapPod(POD_ID);
+  const now = new Date();
+  await prisma.gpsGatewayPod.upsert({
+    where: { id: POD_ID },
+    create: { id: POD_ID, hostname: os.hostname(), pid: process.pid, lastSeenAt: now },
+    update: { hostname: os.hostname(), pid: process.pid, startedAt: now, lastSeenAt: now },
+  });
+  await reapDeadPods();
+
+  if (heartbeatTimer === null) {
+    heartbeatTimer = setInterval(() => {
+      void heartbeat().catch((err) => {
+        logger.warn('pod-lease heartbeat failed', { err: (err as Error).message });
+      });
+    }, POD_HEARTBEAT_MS);
+    heartbeatTimer.unref();
+  }
+  logger.info('pod-lease started', { podId: POD_ID });
+}
+
+/**
+ * Graceful shutdown: hand everything back at once instead of making the
+ * other pods wait out the TTL. Call after the sessions are closed.
+ */
+export async function stopPodLease(): Promise<void> {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+  try {
+    await prisma.gpsGatewayPod.deleteMany({ where: { id: POD_ID } });
+    await reapPod(POD_ID);
+  } catch (err) {
+    logger.warn('pod-lease: release on shutdown failed', { err: (err as Error).message });
+  }
+}
+
+// ── Terminal leases ─────────────────────────────────────────────────────────
+
+/** Columns handleAuth writes alongside status ONLINE. */
+export function leaseData(session: Session) {
+  return { gatewayPodId: POD_ID, gatewaySessionId: session.id, gatewayLeaseAt: new Date() };
+}
+
+/** Tell the other pods this session now owns the terminal. Fire-and-forget. */
+export async function announceLease(session: Session, terminalId: string): Promise<void> {
+  const event: LeaseTakenEvent = { terminalId, podId: POD_ID, sessionId: session.id };
+  try {
+    const payload = JSON.stringify(event);
+    await prisma.$executeRaw`SELECT pg_notify(${LEASE_CHANNEL}, ${payload}::text)`;
+  } catch (err) {
+    session.log.warn('pg_notify gps_lease failed (non-fatal)', { err: (err as Error).message });
+  }
+}
+
+/**
+ * `gps_lease` handler: another session took over a terminal we still hold
+ * a session for. Our socket is a zombie (the device can only be on one
+ * connection); drop it without touching the DB — the lease already moved.
+ */
+export function onLeaseTaken(event: LeaseTakenEvent): void {
+  const local = SessionRegistry.getByTerminalId(event.terminalId);
+  if (!local || local.id === event.sessionId) return;
+  local.close(`lease taken by pod ${event.podId}`);
+}
+
+/**
+ * Whether `session` still holds the lease for its terminal. Checked right
+ * before a downlink command is written.
+ */
+export async function holdsLease(session: Session): Promise<boolean> {
+  if (!session.terminalId) return false;
+  const row = await prisma.gpsTerminal.findUnique({
+    where: { id: session.terminalId },
+    select: { gatewayPodId: true, gatewaySessionId: true },
+  });
+  return row?.gatewayPodId === POD_ID && row.gatewaySessionId === session.id;
+}
+
+// ── Heartbeat / failover ────────────────────────────────────────────────────
+
+async function heartbeat(): Promise<void> {
+  const result = await prisma.gpsGatewayPod.updateMany({
+    where: { id: POD_ID },
+    data: { lastSeenAt: new Date() },
+  });
+  if (result.count === 0) {
+    // Another pod declared us dead (we stalled past the TTL) and reaped our
+    // leases. Re-register and take back the terminals nobody else claimed
+    // in the meantime — the reaper flipped them OFFLINE, so flip them back.
+    logger.warn('pod-lease: pod row was reaped while alive; re-registering', { podId: POD_ID });
+    await prisma.gpsGatewayPod.create({
+      data: { id: POD_ID, hostname: os.hostname(), pid: process.pid, lastSeenAt: new Date() },
+    });
+    for (const s of SessionRegistry.iter()) {
+      if (!s.authenticated || !s.terminalId) continue;
+      const onlineAt = new Date();
+      const retaken = await prisma.gpsTerminal.updateMany({
+        where: { id: s.terminalId, gatewayPodId: null },
+        data: { ...leaseData(s), status: 'ONLINE', disconnectedAt: null },
+      });
+      if (retaken.count === 0) continue;
+      const row = await prisma.gpsTerminal.findUnique({
+        where: { id: s.terminalId },
+        select: { ownerUserId: true },
+      });
+      void emitNotify({
+        type: 'terminal.online',
+        terminalId: s.terminalId,
+        ownerUserId: row?.ownerUserId ?? null,
+        at: onlineAt.toISOString(),
+      });
+    }
+  }
+  await reapDeadPods();
+}
+
+async function reapDeadPods(): Promise<void> {
+  const dead = await prisma.gpsGatewayPod.findMany({
+    where: { lastSeenAt: { lt: new Date(Date.now() - POD_LEASE_TTL_MS) } },
+    select: { id: true },
+  });
+  for (const { id } of dead) {
+    // The delete doubles as the claim: only one surviving pod reaps.
+    const claimed = await prisma.gpsGatewayPod.deleteMany({
+      where: { id, lastSeenAt: { lt: new Date(Date.now() - POD_LEASE_TTL_MS) } },
+    });
+    if (claimed.count === 1) await reapPod(id);
+  }
+}
+
+/** Release every lease and in-flight command of `podId`. */
+async function reapPod(podId: string): Promise<void> {
+  const offlineAt = new Date();
+
+  const online = await prisma.gpsTerminal.findMany({
+    where: { gatewayPodId: podId, status: 'ONLINE' },
+    select: { id: true, ownerUserId: true },
+  });
+  await prisma.gpsTerminal.updateMany({
+    where: { gatewayPodId: podId, status: 'ONLINE' },
+    data: { status: 'OFFLINE', disconnectedAt: offlineAt },
+  });
+  const released = await prisma.gpsTerminal.updateMany({
+    where: { gatewayPodId: podId },
+    data: { gatewayPodId: null, gatewaySessionId: null, gatewayLeaseAt: null },
+  });
+  for (const t of online) {
+    void emitNotify({
+      type: 'terminal.offline',
+      terminalId: t.id,
+      ownerUserId: t.ownerUserId,
+      at: offlineAt.toISOString(),
+    });
+  }
+
+  const sent = await prisma.gpsCommand.findMany({
+    where: { gatewayPodId: podId, status: 'SENT' },
+    select: { id: true, payload: true, terminal: { select: { gatewayPodId: true } } },
+  });
+  const isDestructive = (c: (typeof sent)[number]) => {
+    const kind = (c.payload as { kind?: commandService.CommandKind } | null)?.kind;
+    return kind !== undefined && commandService.DESTRUCTIVE_KINDS.has(kind);
+  };
+
+  // Nobody knows whether these reached the device; don't risk a second one.
+  const abandoned = sent.filter(isDestructive);
+  for (const c of abandoned) {
+    await commandService.markFailed({
+      commandId: c.id,
+      errorText: `gateway pod ${podId} died before the terminal acked; not re-sent`,
+      fromStatus: ['SENT'],
+    });
+  }
+
+  const inFlight = sent.filter((c) => !isDestructive(c));
+  if (inFlight.length > 0) {
+    await prisma.gpsCommand.updateMany({
+      where: { id: { in: inFlight.map((c) => c.id) }, status: 'SENT' },
+      data: {
+        status: 'QUEUED',
+        gatewayPodId: null,
+        sentAt: null,
+        serialNumber: null,
+        rawBytesSent: null,
+      },
+    });
+    for (const c of inFlight) {
+      void emitCommandQueued({ commandId: c.id, podId: c.terminal.gatewayPodId });
+    }
+  }
+
+  if (released.count > 0 || sent.length > 0) {
+    logger.info('pod-lease: reaped gateway pod', {
+      podId,
+      terminalsReleased: released.count,
+      terminalsOffline: online.length,
+      commandsRequeued: inFlight.length,
+      commandsFailed: abandoned.length,
+    });
+  }
+}
@@ -1,23 +1,25 @@
 /**
- * rate-limit — small in-memory leaky-bucket helper for gateway hot paths.
+ * rate-limit — fixed-window counters for gateway hot paths.
  *
  * Two callers use it today:
  *   • handleAuth   — caps failed auth-code attempts per JT/T 808 device
  *                    identifier to defeat brute-force of the auth-code space.
  *   • handleRegister — caps registration storms from a single source IP.
  *
- * The buckets are PROCESS-LOCAL (Map). With one gateway pod this is the
- * truth; with multiple pods, an attacker could fan out across pods to
- * triple their effective rate. That's an acceptable tradeoff at the
- * scale we run today — Phase 6 (Redis-backed pubsub) will lift the limit
- * to a shared store. We size buckets conservatively so even per-pod
- * limits are tight enough to make brute-force infeasible.
+ * The buckets live in Postgres (GpsRateLimitBucket) so every gateway pod
+ * counts against the same window — an attacker can't multiply their rate
+ * by fanning out across pods behind the load balancer. One upsert per
+ * event; both callers sit on the handshake path, never the location path.
  *
- * Memory bound: each bucket carries a single number + a Date; the Map's
- * overhead per entry is ~50 bytes. We sweep entries that haven't been
- * touched in BUCKET_GC_MS to keep the store size bounded.
+ * If the DB is unreachable we fall back to a process-local bucket rather
+ * than failing open (or closed) for every device: per-pod limits are still
+ * tight enough to make brute-force infeasible. Rows untouched for
+ * BUCKET_GC_MS are swept by every pod's GC timer.
  */
 
+import prisma from '../../config/db';
+import logger from '../../utils/logger';
+
 interface Bucket {
   /** Number of "tokens" used in the current window. */
   count: number;
@@ -26,6 +28,8 @@ interface Bucket {
 }
 
 interface LimiterOpts {
+  /** Key namespace in GpsRateLimitBucket (one per limiter). */
+  name: string;
   /** Max events permitted per window. */
   capacity: number;
   /** Window length in ms. */
@@ -47,11 +51,53 @@ export class RateLimiter {
   }
 
   /**
-   * Returns `true` if the event is permitted (bucket has capacity), `false`
+   * Resolves `true` if the event is permitted (bucket has capacity), `false`
    * if rate-limited. Always counts the event toward the bucket — callers
    * shouldn't keep retrying.
    */
-  tryConsume(key: string): boolean {
+  async tryConsume(key: string): Promise<boolean> {
+    const { name, capacity, windowMs } = this.opts;
+    const now = new Date();
+    const expired = new Date(now.getTime() - windowMs);
+    try {
+      const rows = await prisma.$queryRaw<Array<{ count: number }>>`
+        INSERT INTO "GpsRateLimitBucket" ("key", "count", "windowStart")
+        VALUES (${`${name}:${key}`}, 1, ${now})
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE WHEN "GpsRateLimitBucket"."windowStart" <= ${expired}
+            THEN 1 ELSE "GpsRateLimitBucket"."count" + 1 END,
+          "windowStart" = CASE WHEN "GpsRateLimitBucket"."windowStart" <= ${expired}
+            THEN ${now} ELSE "GpsRateLimitBucket"."windowStart" END
+        RETURNING "count"
+      `;
+      return rows[0].count <= capacity;
+    } catch (err) {
+      logger.warn('rate-limit: shared bucket unavailable, using local', {
+        limiter: name,
+        err: (err as Error).message,
+      });
+      return this.tryConsumeLocal(key);
+    }
+  }
+
+  /**
+   * Reset the bucket for `key` — call after a SUCCESSFUL operation so that
+   * a successful login (etc.) doesn't penalise the next legitimate attempt.
+   */
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+    this.lastTouch.delete(key);
+    try {
+      await prisma.gpsRateLimitBucket.deleteMany({ where: { key: `${this.opts.name}:${key}` } });
+    } catch (err) {
+      logger.warn('rate-limit: failed to reset shared bucket', {
+        limiter: this.opts.name,
+        err: (err as Error).message,
+      });
+    }
+  }
+
+  private tryConsumeLocal(key: string): boolean {
     const now = Date.now();
     let bucket = this.buckets.get(key);
     if (!bucket || now - bucket.windowStart >= this.opts.windowMs) {
@@ -64,15 +110,6 @@ export class RateLimiter {
     return bucket.count <= this.opts.capacity;
   }
 
-  /**
-   * Reset the bucket for `key` — call after a SUCCESSFUL operation so that
-   * a successful login (etc.) doesn't penalise the next legitimate attempt.
-   */
-  reset(key: string): void {
-    this.buckets.delete(key);
-    this.lastTouch.delete(key);
-  }
-
   private gc(): void {
     const cutoff = Date.now() - BUCKET_GC_MS;
     for (const [key, ts] of this.lastTouch) {
@@ -81,6 +118,17 @@ export class RateLimiter {
         this.lastTouch.delete(key);
       }
     }
+    // Every pod sweeps; deleteMany on an already-swept range is a no-op.
+    void prisma.gpsRateLimitBucket
+      .deleteMany({
+        where: { key: { startsWith: `${this.opts.name}:` }, windowStart: { lt: new Date(cutoff) } },
+      })
+      .catch((err) => {
+        logger.warn('rate-limit: shared bucket GC failed', {
+          limiter: this.opts.name,
+          err: (err as Error).message,
+        });
+      });
   }
 
   /** Test hook + graceful shutdown. */
@@ -100,6 +148,7 @@ export class RateLimiter {
  * horizon.
  */
 export const authCodeLimiter = new RateLimiter({
+  name: 'auth',
   capacity: 5,
   windowMs: 60_000,
 });
@@ -111,6 +160,7 @@ export const authCodeLimiter = new RateLimiter({
  * looping registration) detectable without blocking real fleets.
  */
 export const registrationLimiter = new RateLimiter({
+  name: 'register',
   capacity: 30,
   windowMs: 60_000,
 });
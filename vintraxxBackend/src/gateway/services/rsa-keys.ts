@@ -0,0 +1,47 @@
+/**
+ * Platform RSA key for JT/T 808 body encryption.
+ *
+ * Loaded once at gateway start from GPS_RSA_PRIVATE_KEY_PATH (PEM, PKCS#1
+ * or PKCS#8). The private key decrypts uplink bodies; the public half is
+ * what we hand terminals in 0x8A00. A missing or unusable key disables RSA
+ * rather than stopping the gateway — plaintext terminals keep working.
+ *
+ * Generate one with:
+ *   openssl genrsa -out gps-rsa.pem 1024
+ */
+
+import fs from 'fs';
+import crypto, { type KeyObject } from 'crypto';
+import { env } from '../../config/env';
+import logger from '../../utils/logger';
+import { publicKeyComponents, type RsaPublicKeyComponents } from '../codec/rsa';
+
+export interface PlatformRsaKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  /** { e, n } as carried in 0x8A00. */
+  components: RsaPublicKeyComponents;
+}
+
+let platformKey: PlatformRsaKey | null = null;
+
+export function loadPlatformRsaKey(): void {
+  const keyPath = env.GPS_RSA_PRIVATE_KEY_PATH;
+  if (!keyPath) return;
+  try {
+    const privateKey = crypto.createPrivateKey(fs.readFileSync(keyPath));
+    const publicKey = crypto.createPublicKey(privateKey);
+    platformKey = { privateKey, publicKey, components: publicKeyComponents(publicKey) };
+    logger.info('GPS RSA platform key loaded', { keyPath, e: platformKey.components.e });
+  } catch (err) {
+    platformKey = null;
+    logger.error('Failed to load GPS RSA platform key; RSA disabled', {
+      keyPath,
+      err: (err as Error).message,
+    });
+  }
+}
+
+export function platformRsaKey(): PlatformRsaKey | null {
+  return platformKey;
+}
@@ -1,12 +1,15 @@
 /**
- * Session — per-TCP-socket state for one connected GPS terminal.
+ * Session — per-connection state for one connected GPS terminal.
  *
- * One Session is created when a socket opens, before we know which terminal
- * is on the other end. The handler for 0x0100 (registration) or 0x0102
+ * One Session is created when a TCP socket opens (or, over UDP, when the
+ * first datagram from a new phone number arrives — `socket` is then a
+ * per-peer stand-in, see udp.ts), before we know which terminal is on the
+ * other end. The handler for 0x0100 (registration) or 0x0102
  * (authentication) calls `bindTerminal()` once we've identified the device.
  *
  * The session owns:
  *   • the inbound byte buffer (for frame re-assembly across TCP reads)
+ *   • the subpackage reassembler (for messages split across frames)
  *   • per-message-serial outgoing sequence (for messages WE send)
  *   • a map of pending downstream commands waiting for a 0x0001 ack
  *
@@ -16,19 +19,27 @@
  */
 
 import type { Socket } from 'net';
+import type { Prisma } from '@prisma/client';
+import type { KeyObject } from 'crypto';
 import type { Logger } from 'winston';
-import { encodeFrame } from '../codec';
+import { downlinkFrameCount, encodeFrame } from '../codec';
 import { MsgId, PlatformResult } from '../codec/constants';
 import * as platformResp from '../codec/messages/m8001-platform-general-response';
 import logger from '../../utils/logger';
+import { journalFrame } from '../services/frame-journal';
+import { SubpackageReassembler } from './SubpackageReassembler';
+import type { ProtocolAdapter } from '../protocols/types';
 
 /** Internal record kept while a downstream message awaits its 0x0001 ack. */
 export interface PendingCommand {
   msgId: number;
   msgSerial: number;
   sentAt: Date;
-  /** Resolves with the result code from the device's 0x0001 response. */
-  resolve: (result: number) => void;
+  /**
+   * Resolves with the result code from the device's 0x0001 response (or
+   * the adapter's equivalent reply, which may carry a `response` to store).
+   */
+  resolve: (result: number, response?: Prisma.InputJsonValue) => void;
   /** Rejects on timeout / socket close. */
   reject: (err: Error) => void;
   timeoutHandle: NodeJS.Timeout;
@@ -37,18 +48,32 @@ export interface PendingCommand {
 export class Session {
   public readonly id: string;
   public readonly socket: Socket;
+  /**
+   * Device protocol. TCP sessions start as JT/T 808 and may switch once,
+   * on the first bytes received (see protocols/index.ts `detectAdapter`).
+   */
+  public adapter: ProtocolAdapter;
   public readonly remote: string;
   public readonly connectedAt: Date;
   public readonly log: Logger;
 
   /**
-   * Raw BCD identifier from the first inbound JT/T 808 header. Always 12 BCD
-   * digits, left-padded with zeros. Set once on the first frame and NEVER
-   * mutated afterwards — downstream frame encoding relies on this being the
-   * exact value the device sent so response headers match.
+   * Raw BCD identifier from the first inbound JT/T 808 header. 12 BCD digits
+   * on 2013 headers, 20 on 2019 headers, left-padded with zeros. Set once on
+   * the first frame and NEVER mutated afterwards — downstream frame encoding
+   * relies on this being the exact value the device sent so response
+   * headers match.
    */
   public phoneBcd: string | null = null;
 
+  /**
+   * JT/T 808-2019 header version byte seen on the first inbound frame, or
+   * null when the terminal speaks the 2013 layout. Captured alongside
+   * `phoneBcd` and used for every outgoing header so we always answer in
+   * the dialect the device opened with.
+   */
+  public protocolVersion: number | null = null;
+
   /**
    * Canonical device identifier (leading-zero-stripped form of `phoneBcd`).
    * Set by `bindTerminal()` after successful registration/authentication.
@@ -62,14 +87,26 @@ export class Session {
   /** True after a successful 0x0102 authentication. */
   public authenticated = false;
 
+  /**
+   * The terminal's RSA public key (0x0A00, or loaded from GpsTerminal at
+   * auth). While set, downlink bodies are RSA-encrypted with it.
+   */
+  public rsaPeerKey: KeyObject | null = null;
+
+  /** GpsTerminal.requireEncryption — plaintext telemetry is refused. */
+  public requireEncryption = false;
+
+  /** True once we've sent our 0x8A00 on this connection. */
+  public platformKeySent = false;
+
   public lastFrameAt: Date = new Date();
   public lastHeartbeatAt: Date | null = null;
 
   /** Bytes received but not yet split into frames. */
   public inboundBuffer: Buffer = Buffer.alloc(0);
 
-  /** Reassembly buffer for sub-packaged messages, keyed by original msgSerial. */
-  public subpackageReassembler: Map<number, Buffer[]> = new Map();
+  /** Reassembly buffer for sub-packaged messages (header bit 13). */
+  public readonly subpackages: SubpackageReassembler;
 
   /** Outgoing serial counter (16-bit, wraps). */
   private outSerial = 0;
@@ -80,14 +117,16 @@ export class Session {
   /** Number of consecutive bad frames — close the socket if this exceeds 10. */
   public consecutiveBadFrames = 0;
 
-  constructor(args: { id: string; socket: Socket }) {
+  constructor(args: { id: string; socket: Socket; adapter: ProtocolAdapter }) {
     this.id = args.id;
     this.socket = args.socket;
+    this.adapter = args.adapter;
     const address = args.socket.remoteAddress ?? 'unknown';
     const port = args.socket.remotePort ?? 0;
     this.remote = `${address}:${port}`;
     this.connectedAt = new Date();
     this.log = logger.child({ sessionId: this.id, remote: this.remote });
+    this.subpackages = new SubpackageReassembler(this);
   }
 
   /** Reset the bad-frame counter after a successful decode. */
@@ -118,6 +157,26 @@ export class Session {
     return s;
   }
 
+  /**
+   * Allocate `count` consecutive outgoing serials and return the first.
+   * Subpackages of one message must carry consecutive serials (the terminal
+   * derives the message identity from `serial - (index - 1)`), so a
+   * multi-frame sender reserves the whole block up-front.
+   */
+  reserveSerials(count: number): number {
+    const first = this.outSerial;
+    this.outSerial = (this.outSerial + count) & 0xffff;
+    return first;
+  }
+
+  /**
+   * Key to encrypt a downlink body with, or null for plaintext. 0x8A00 is
+   * always plaintext so a terminal that lost our key can still re-key.
+   */
+  downlinkKey(msgId: number): KeyObject | null {
+    return msgId === MsgId.PLATFORM_RSA_PUBLIC_KEY ? null : this.rsaPeerKey;
+  }
+
   /**
    * Send a fully-built downstream message body. Wraps it in the JT/T 808 frame
    * and writes to the socket. Caller MUST have already encoded the body.
@@ -129,17 +188,31 @@ export class Session {
     if (!this.phoneBcd) {
       throw new Error('Cannot write frame before phoneBcd is known');
     }
-    const msgSerial = this.nextSerial();
+    const rsaPublicKey = this.downlinkKey(args.msgId);
+    // An encrypted body may go out as several subpackages, one serial each.
+    const msgSerial = this.reserveSerials(downlinkFrameCount(args.body, rsaPublicKey));
     const frame = encodeFrame({
       msgId: args.msgId,
       phoneBcd: this.phoneBcd,
+      protocolVersion: this.protocolVersion,
       msgSerial,
       body: args.body,
+      rsaPublicKey,
     });
-    this.socket.write(frame);
+    this.writeRaw(frame, { msgId: args.msgId, msgSerial });
     return msgSerial;
   }
 
+  /**
+   * Write an already-encoded frame. Every downlink goes through here (or
+   * writeFrame) so the frame journal sees it; senders that reserve their own
+   * serials (command / firmware dispatchers) call this directly.
+   */
+  writeRaw(frame: Buffer, meta: { msgId: number; msgSerial: number }): void {
+    journalFrame(this, { direction: 'OUT', frame, ...meta });
+    this.socket.write(frame);
+  }
+
   /**
    * Convenience helper: send an 0x8001 (Platform General Response) acking the
    * given inbound message. This MUST be called for every up-link message
@@ -159,6 +232,7 @@ export class Session {
       cmd.reject(new Error(`Session closed: ${reason}`));
     }
     this.pendingCommands.clear();
+    this.subpackages.clear();
     if (!this.socket.destroyed) {
       this.socket.end();
       // Force-destroy after 2s if FIN doesn't get acked.
@@ -6,8 +6,9 @@
  *   • close a stale session when the same terminal reconnects
  *   • emit health metrics (online count, by status…)
  *
- * Single-process scope: this is in-memory. When (if) we cluster the gateway
- * we'll fan messages out via Redis pub/sub instead. Phase 0 keeps it simple.
+ * Single-process scope: this is in-memory and only knows this pod's
+ * sockets. Which pod owns a terminal across the cluster is the lease on
+ * GpsTerminal — see services/pod-lease.ts.
  */
 
 import type { Session } from './Session';
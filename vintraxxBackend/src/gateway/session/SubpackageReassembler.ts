@@ -0,0 +1,228 @@
+/**
+ * SubpackageReassembler — per-session buffer that stitches subpackaged
+ * JT/T 808 messages (header bit 13 set) back into one logical body.
+ *
+ * The D450 splits anything that doesn't fit in a 1023-byte body across
+ * several frames: long 0x0704 blind-area batches and full 0x0104 parameter
+ * dumps are the usual offenders. Each fragment carries `subpackageTotal` and
+ * a 1-based `subpackageIndex`, and per spec the fragments of one message
+ * use consecutive serials, so `serial - (index - 1)` identifies the message
+ * regardless of arrival order.
+ *
+ * Protocol behaviour:
+ *   • Every fragment is acked with 0x8001 result=OK as it arrives.
+ *   • Fragments may arrive in any order; duplicates are ignored.
+ *   • If a message is still incomplete after REASSEMBLY_TIMEOUT_MS with no
+ *     new fragment, we send 0x8003 listing the missing indices. After
+ *     MAX_RETRANSMIT_REQUESTS unanswered requests the partial is dropped.
+ *   • Once complete, `accept()` returns a synthetic DecodedFrame with
+ *     `isSubpackage=false`, the concatenated body, and the FIRST fragment's
+ *     serial — that's the frame dispatch.ts sees. Handlers never observe a
+ *     fragment.
+ *
+ * Memory is bounded by MAX_PENDING_MESSAGES × MAX_SUBPACKAGE_TOTAL × 1023
+ * bytes per session; anything beyond that is refused and acked FAILURE.
+ */
+
+import { MsgId, PlatformResult } from '../codec/constants';
+import * as retransmitReq from '../codec/messages/m8003-retransmit-subpackage';
+import type { DecodedFrame } from '../codec';
+import type { Session } from './Session';
+
+/** Idle time before we ask for missing fragments. */
+const REASSEMBLY_TIMEOUT_MS = 15_000;
+/** How many 0x8003 requests we send for one message before giving up. */
+const MAX_RETRANSMIT_REQUESTS = 3;
+/** Concurrent incomplete messages per session. */
+const MAX_PENDING_MESSAGES = 8;
+/** Upper bound on fragments per message (~64 KiB of body). */
+const MAX_SUBPACKAGE_TOTAL = 64;
+
+interface PendingMessage {
+  msgId: number;
+  firstSerial: number;
+  total: number;
+  /** Header of the first fragment we saw — reused for the synthetic frame. */
+  template: DecodedFrame['header'];
+  /** Fragment bodies keyed by 1-based index. */
+  parts: Map<number, Buffer>;
+  retransmitRequests: number;
+  timer: NodeJS.Timeout;
+}
+
+export class SubpackageReassembler {
+  private readonly pending = new Map<string, PendingMessage>();
+
+  constructor(private readonly session: Session) {}
+
+  /** Number of incomplete messages currently buffered. */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Feed one decoded frame. Non-subpackaged frames are returned unchanged.
+   * For fragments, returns the reassembled frame once the last missing piece
+   * arrives, otherwise `null`.
+   */
+  accept(frame: DecodedFrame): DecodedFrame | null {
+    const { header, body } = frame;
+    if (!header.isSubpackage) return frame;
+
+    // Acks below need phoneBcd; dispatch normally captures it, but a
+    // session's very first frame can be a fragment.
+    if (!this.session.phoneBcd) {
+      this.session.phoneBcd = header.phoneBcd;
+      this.session.protocolVersion = header.protocolVersion;
+    }
+
+    const total = header.subpackageTotal ?? 0;
+    const index = header.subpackageIndex ?? 0;
+    if (total < 1 || total > MAX_SUBPACKAGE_TOTAL || index < 1 || index > total) {
+      this.session.log.warn('Rejecting malformed subpackage', {
+        msgId: hex(header.msgId),
+        total,
+        index,
+      });
+      this.session.ack(header.msgId, header.msgSerial, PlatformResult.MESSAGE_ERROR);
+      return null;
+    }
+
+    const firstSerial = (header.msgSerial - (index - 1)) & 0xffff;
+    const key = `${header.msgId}:${firstSerial}`;
+    let entry = this.pending.get(key);
+
+    if (entry && entry.total !== total) {
+      // Same key, different shape — the serial space wrapped onto a stale
+      // partial. The newer message wins.
+      this.drop(key, 'subpackage total changed');
+      entry = undefined;
+    }
+
+    if (!entry) {
+      if (this.pending.size >= MAX_PENDING_MESSAGES) {
+        this.session.log.warn('Too many incomplete subpackaged messages; refusing fragment', {
+          msgId: hex(header.msgId),
+          pending: this.pending.size,
+        });
+        this.session.ack(header.msgId, header.msgSerial, PlatformResult.FAILURE);
+        return null;
+      }
+      entry = {
+        msgId: header.msgId,
+        firstSerial,
+        total,
+        template: header,
+        parts: new Map(),
+        retransmitRequests: 0,
+        timer: this.armTimer(key),
+      };
+      this.pending.set(key, entry);
+    } else {
+      clearTimeout(entry.timer);
+      entry.timer = this.armTimer(key);
+    }
+
+    if (!entry.parts.has(index)) {
+      entry.parts.set(index, Buffer.from(body));
+    }
+    this.session.ack(header.msgId, header.msgSerial, PlatformResult.OK);
+
+    if (entry.parts.size < entry.total) return null;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+
+    const ordered: Buffer[] = [];
+    for (let i = 1; i <= entry.total; i++) ordered.push(entry.parts.get(i)!);
+    const fullBody = Buffer.concat(ordered);
+
+    this.session.log.info('Reassembled subpackaged message', {
+      msgId: hex(entry.msgId),
+      firstSerial: entry.firstSerial,
+      total: entry.total,
+      bodyLen: fullBody.length,
+    });
+
+    return {
+      header: {
+        ...entry.template,
+        bodyLength: fullBody.length,
+        isSubpackage: false,
+        msgSerial: entry.firstSerial,
+        subpackageTotal: undefined,
+        subpackageIndex: undefined,
+      },
+      body: fullBody,
+      // There's no single wire frame for a reassembled message; the body is
+      // the closest thing to "raw" for journaling purposes.
+      rawUnescaped: fullBody,
+    };
+  }
+
+  /** Drop every partial and cancel timers. Called from Session.close(). */
+  clear(): void {
+    for (const entry of this.pending.values()) clearTimeout(entry.timer);
+    this.pending.clear();
+  }
+
+  private armTimer(key: string): NodeJS.Timeout {
+    const t = setTimeout(() => this.onTimeout(key), REASSEMBLY_TIMEOUT_MS);
+    // Never keep the process alive just for a reassembly timer.
+    t.unref();
+    return t;
+  }
+
+  private onTimeout(key: string): void {
+    const entry = this.pending.get(key);
+    if (!entry) return;
+
+    if (entry.retransmitRequests >= MAX_RETRANSMIT_REQUESTS) {
+      this.drop(key, 'retransmit requests exhausted');
+      return;
+    }
+
+    const missing: number[] = [];
+    for (let i = 1; i <= entry.total; i++) {
+      if (!entry.parts.has(i)) missing.push(i);
+    }
+
+    entry.retransmitRequests += 1;
+    this.session.log.info('Requesting subpackage retransmit (0x8003)', {
+      msgId: hex(entry.msgId),
+      firstSerial: entry.firstSerial,
+      missing,
+      attempt: entry.retransmitRequests,
+    });
+    try {
+      this.session.writeFrame({
+        msgId: MsgId.RETRANSMIT_SUBPACKAGE_REQUEST,
+        body: retransmitReq.encode({
+          originalSerial: entry.firstSerial,
+          packageIds: missing.slice(0, 0xff),
+        }),
+      });
+    } catch (err) {
+      this.session.log.warn('Failed to send 0x8003', { err: (err as Error).message });
+    }
+    entry.timer = this.armTimer(key);
+  }
+
+  private drop(key: string, reason: string): void {
+    const entry = this.pending.get(key);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+    this.session.log.warn('Dropping incomplete subpackaged message', {
+      msgId: hex(entry.msgId),
+      firstSerial: entry.firstSerial,
+      received: entry.parts.size,
+      total: entry.total,
+      reason,
+    });
+  }
+}
+
+function hex(msgId: number): string {
+  return `0x${msgId.toString(16).padStart(4, '0')}`;
+}
@@ -0,0 +1,691 @@
+/**
+ * SimulatedTerminal — a scripted D450 that talks JT/T 808 to the gateway
+ * over TCP, for end-to-end testing without hardware.
+ *
+ * Lifecycle:
+ *   1. connect, then 0x0102 with the scenario's stored auth code if it has
+ *      one; otherwise (or if that is rejected) 0x0100 → 0x8100 → 0x0102,
+ *      the same fallback the real firmware uses.
+ *   2. heartbeat (0x0002) every `heartbeatSec` while connected.
+ *   3. play the scenario steps in order, awaiting the 0x8001 for each
+ *      uplink so the gateway has processed it before the next one.
+ *   4. optionally linger, answering commands until the socket closes.
+ *
+ * Platform commands are answered the way the D450 does:
+ *   0x8103 → 0x0001, and the values show up in later 0x0104 replies
+ *   0x8104 → 0x0104 with the current parameter table
+ *   0x8201 → 0x0001, then a 0x0200 at the current position
+ *   0x8300 → 0x0001, then a 0x6006 text reply
+ *   0x8105 / 0x8202 / 0x8900 → 0x0001 OK; anything else → 0x0001 unsupported
+ *
+ * Timestamps come from a simulated clock (see `scenarioDurationSec`): the
+ * timeline is anchored so that the last step lands at the real "now" when
+ * it is sent, so a fast replay never reports from the future.
+ *
+ * RSA is not simulated; a 0x8A00 gets "unsupported" like on a device with
+ * encryption disabled.
+ */
+
+import net from 'net';
+import { decodeFrame, encodeFrame } from '../codec';
+import { splitFrames } from '../codec/framing';
+import { MsgId, PlatformResult, RegisterResult } from '../codec/constants';
+import { ALARM_BITS } from '../codec/messages/m0200-location';
+import { PARAM_DEFS } from '../codec/param-registry';
+import type { Scenario, ScenarioObd, ScenarioStep, TrackPoint } from './scenario';
+import {
+  encodeAuth,
+  encodeBatchLocation,
+  encodeCollision,
+  encodeDtcPacket,
+  encodeGeneralResponse,
+  encodeLocation,
+  encodeParamsResponse,
+  encodeRegister,
+  encodeSleepEntry,
+  encodeSleepWake,
+  encodeTextReply,
+  encodeTripSummary,
+  type SimObd,
+} from './uplink';
+
+/** Max body per frame; longer bodies are subpackaged. */
+const MAX_BODY_BYTES = 1023;
+const ACK_TIMEOUT_MS = 10_000;
+const CONNECT_TIMEOUT_MS = 10_000;
+
+/** Parameters a factory-fresh D450 reports in 0x0104. */
+const DEFAULT_PARAMS: Array<[number, number]> = [
+  [0x0001, 30], // heartbeat interval (s) — overwritten from the scenario
+  [0x0029, 30], // default report interval (s)
+  [0x0055, 120], // max speed (km/h)
+  [0x2017, 1], // OBD enable (BYTE)
+  [0x2028, 30], // OBD report interval (s)
+];
+/** Answered as one byte in 0x0104, the rest as DWORDs. */
+const BYTE_PARAMS = PARAM_DEFS.filter((d) => d.type === 'BYTE').map((d) => d.id);
+
+export interface SimulatorLog {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export interface SimulatorOptions {
+  host: string;
+  port: number;
+  /** Simulated seconds per real second, ≥ 1. Infinity = don't sleep at all. */
+  speed: number;
+  /** Keep the session open after the last step, answering commands. */
+  linger: boolean;
+  log: SimulatorLog;
+}
+
+export interface SimulationSummary {
+  authCode: string | null;
+  framesSent: number;
+  acksOk: number;
+  acksFailed: number;
+  ackTimeouts: number;
+  commandsAnswered: number;
+}
+
+interface VehicleState {
+  latitude: number;
+  longitude: number;
+  altitudeM: number;
+  speedKmh: number;
+  heading: number;
+  accOn: boolean;
+  gpsFix: boolean;
+  satellites: number;
+  mileageKm: number;
+  obd: ScenarioObd;
+}
+
+interface TripAccumulator {
+  startedAt: Date;
+  distanceKm: number;
+  maxSpeedKmh: number;
+  speedSum: number;
+  reports: number;
+}
+
+interface AckWaiter {
+  msgId: number;
+  resolve: (result: number | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+type LocationFields = Extract<ScenarioStep, { type: 'location' }>;
+
+const hex = (msgId: number) => `0x${msgId.toString(16).padStart(4, '0')}`;
+
+function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+function bearingDeg(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = Math.PI / 180;
+  const y = Math.sin((lng2 - lng1) * rad) * Math.cos(lat2 * rad);
+  const x =
+    Math.cos(lat1 * rad) * Math.sin(lat2 * rad) -
+    Math.sin(lat1 * rad) * Math.cos(lat2 * rad) * Math.cos((lng2 - lng1) * rad);
+  return Math.round((Math.atan2(y, x) / rad + 360) % 360);
+}
+
+/** Simulated seconds a scenario spans (waits + track / batch intervals). */
+export function scenarioDurationSec(scenario: Scenario): number {
+  return scenario.steps.reduce((sum, step) => {
+    switch (step.type) {
+      case 'wait':
+        return sum + step.seconds;
+      case 'track':
+      case 'batch':
+        return sum + step.points.length * step.intervalSec;
+      default:
+        return sum;
+    }
+  }, 0);
+}
+
+export class SimulatedTerminal {
+  private socket: net.Socket | null = null;
+  private inbound: Buffer = Buffer.alloc(0);
+  private serial = 0;
+  private closed = false;
+  private closedPromise: Promise<void> = Promise.resolve();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private readonly ackWaiters = new Map<number, AckWaiter>();
+  private registerWaiter: { serial: number; resolve: (r: { result: number; authCode: string }) => void } | null =
+    null;
+
+  private clock: Date;
+  private readonly state: VehicleState;
+  private trip: TripAccumulator | null = null;
+  private readonly params = new Map<number, number>(DEFAULT_PARAMS);
+  private readonly byteParams = new Set<number>(BYTE_PARAMS);
+  private readonly protocolVersion: number | null;
+
+  private readonly summary: SimulationSummary = {
+    authCode: null,
+    framesSent: 0,
+    acksOk: 0,
+    acksFailed: 0,
+    ackTimeouts: 0,
+    commandsAnswered: 0,
+  };
+
+  constructor(
+    private readonly scenario: Scenario,
+    private readonly opts: SimulatorOptions,
+  ) {
+    if (!(opts.speed >= 1)) throw new Error('speed must be ≥ 1 (or Infinity)');
+    this.protocolVersion = scenario.terminal.protocolVersion ?? null;
+    const durationMs = scenarioDurationSec(scenario) * 1000;
+    this.clock = new Date(Date.now() - durationMs * (1 - 1 / opts.speed));
+    this.state = {
+      latitude: scenario.start?.lat ?? 0,
+      longitude: scenario.start?.lng ?? 0,
+      altitudeM: 0,
+      speedKmh: 0,
+      heading: 0,
+      accOn: false,
+      gpsFix: scenario.start !== undefined,
+      satellites: scenario.start ? 9 : 0,
+      mileageKm: scenario.start?.mileageKm ?? 0,
+      obd: { vehicleVoltageV: 12.6, csq: 24, fuelLevelPct: 60, ...scenario.start?.obd },
+    };
+    this.params.set(0x0001, scenario.heartbeatSec);
+    for (const [id, value] of Object.entries(scenario.replies.params)) {
+      this.params.set(parseInt(id, 16), value);
+    }
+  }
+
+  // ── Public API ─────────────────────────────────────────────────────────────
+
+  async run(): Promise<SimulationSummary> {
+    await this.connect();
+    try {
+      await this.handshake();
+      this.startHeartbeat();
+      for (const [i, step] of this.scenario.steps.entries()) {
+        if (this.closed) {
+          this.opts.log.warn(`Gateway closed the connection before step ${i + 1}`);
+          break;
+        }
+        this.opts.log.info(`Step ${i + 1}/${this.scenario.steps.length}: ${step.type}`);
+        await this.runStep(step);
+      }
+      if (this.opts.linger && !this.closed) {
+        this.opts.log.info('Scenario finished; lingering (Ctrl-C to stop)');
+        await this.closedPromise;
+      }
+    } finally {
+      this.close();
+    }
+    return this.summary;
+  }
+
+  close(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    for (const waiter of this.ackWaiters.values()) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(null);
+    }
+    this.ackWaiters.clear();
+    this.socket?.end();
+    this.socket = null;
+    this.closed = true;
+  }
+
+  // ── Connection ─────────────────────────────────────────────────────────────
+
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.opts.host, port: this.opts.port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out connecting to ${this.opts.host}:${this.opts.port}`));
+      }, CONNECT_TIMEOUT_MS);
+      let connected = false;
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        connected = true;
+        this.opts.log.info(`Connected to ${this.opts.host}:${this.opts.port}`);
+        resolve();
+      });
+      socket.on('error', (err) => {
+        clearTimeout(timer);
+        if (connected) this.opts.log.warn(`Socket error: ${err.message}`);
+        else reject(err);
+      });
+      this.closedPromise = new Promise((done) => {
+        socket.once('close', () => {
+          if (!this.closed) this.opts.log.warn('Connection closed by gateway');
+          this.closed = true;
+          done();
+        });
+      });
+      socket.on('data', (chunk) => this.onData(chunk));
+      this.socket = socket;
+    });
+  }
+
+  private async handshake(): Promise<void> {
+    const stored = this.scenario.terminal.authCode;
+    if (stored) {
+      const result = await this.authenticate(stored);
+      if (result === PlatformResult.OK) return;
+      this.opts.log.warn(`Stored auth code rejected (result ${result}); re-registering`);
+    }
+    const authCode = await this.register();
+    const result = await this.authenticate(authCode);
+    if (result !== PlatformResult.OK) {
+      throw new Error(`0x0102 rejected by gateway (result ${result})`);
+    }
+  }
+
+  private async register(): Promise<string> {
+    const { terminal } = this.scenario;
+    const serial = this.nextSerial();
+    const reply = new Promise<{ result: number; authCode: string }>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('No 0x8100 register response')), ACK_TIMEOUT_MS);
+      this.registerWaiter = {
+        serial,
+        resolve: (r) => {
+          clearTimeout(timer);
+          resolve(r);
+        },
+      };
+    });
+    this.writeFrame(
+      MsgId.TERMINAL_REGISTER,
+      encodeRegister({ ...terminal, protocolVersion: this.protocolVersion }),
+      serial,
+    );
+    const { result, authCode } = await reply;
+    if (result !== RegisterResult.OK) {
+      const name = Object.entries(RegisterResult).find(([, v]) => v === result)?.[0] ?? result;
+      throw new Error(`0x0100 rejected by gateway: ${name} — is ${terminal.phone} provisioned?`);
+    }
+    this.opts.log.info(`Registered; auth code ${authCode}`);
+    return authCode;
+  }
+
+  private async authenticate(authCode: string): Promise<number | null> {
+    const { terminal } = this.scenario;
+    const result = await this.send(
+      MsgId.TERMINAL_AUTH,
+      encodeAuth(authCode, {
+        protocolVersion: this.protocolVersion,
+        imei: terminal.imei,
+        softwareVersion: terminal.softwareVersion,
+      }),
+    );
+    if (result === PlatformResult.OK) {
+      this.summary.authCode = authCode;
+      this.opts.log.info('Authenticated');
+    }
+    return result;
+  }
+
+  private startHeartbeat(): void {
+    const speed = Number.isFinite(this.opts.speed) ? this.opts.speed : 1;
+    const intervalMs = Math.max(1000, (this.scenario.heartbeatSec * 1000) / speed);
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.closed) this.writeFrame(MsgId.TERMINAL_HEARTBEAT, Buffer.alloc(0));
+    }, intervalMs);
+  }
+
+  // ── Steps ──────────────────────────────────────────────────────────────────
+
+  private async runStep(step: ScenarioStep): Promise<void> {
+    switch (step.type) {
+      case 'location': {
+        this.moveTo(step.lat ?? this.state.latitude, step.lng ?? this.state.longitude, step, null);
+        await this.send(MsgId.LOCATION_REPORT, this.locationBody(step.alarms));
+        return;
+      }
+      case 'track': {
+        for (const point of step.points) {
+          await this.advance(step.intervalSec);
+          this.moveToPoint(point, step);
+          await this.send(MsgId.LOCATION_REPORT, this.locationBody(step.alarms));
+          if (this.closed) return;
+        }
+        return;
+      }
+      case 'batch': {
+        const bodies: Buffer[] = [];
+        for (const point of step.points) {
+          await this.advance(step.intervalSec);
+          this.moveToPoint(point, step);
+          bodies.push(this.locationBody(step.alarms));
+        }
+        await this.send(MsgId.BATCH_LOCATION_REPORT, encodeBatchLocation(bodies));
+        return;
+      }
+      case 'wait':
+        await this.advance(step.seconds);
+        return;
+      case 'trip_summary': {
+        const trip = this.trip;
+        const durationSec = trip ? Math.round((this.clock.getTime() - trip.startedAt.getTime()) / 1000) : 0;
+        await this.send(
+          MsgId.DATA_UPLINK,
+          encodeTripSummary({
+            ...step,
+            distanceKm: step.distanceKm ?? trip?.distanceKm ?? 0,
+            durationSec: step.durationSec ?? durationSec,
+            maxSpeedKmh: step.maxSpeedKmh ?? trip?.maxSpeedKmh ?? 0,
+            avgSpeedKmh: step.avgSpeedKmh ?? (trip && trip.reports > 0 ? trip.speedSum / trip.reports : 0),
+          }),
+        );
+        this.trip = null;
+        return;
+      }
+      case 'dtc': {
+        const codes = [
+          ...step.codes.map((code) => ({ code, status: 'stored' as const })),
+          ...step.pending.map((code) => ({ code, status: 'pending' as const })),
+          ...step.permanent.map((code) => ({ code, status: 'permanent' as const })),
+        ];
+        this.state.obd.milOn = step.codes.length + step.permanent.length > 0;
+        this.state.obd.faultCodeCount = codes.length;
+        await this.send(
+          MsgId.DATA_UPLINK,
+          encodeDtcPacket({
+            reportedAt: this.clock,
+            latitude: this.state.latitude,
+            longitude: this.state.longitude,
+            codes,
+          }),
+        );
+        return;
+      }
+      case 'sleep':
+        await this.send(MsgId.DATA_UPLINK, encodeSleepEntry(this.clock));
+        return;
+      case 'wake':
+        await this.send(
+          MsgId.DATA_UPLINK,
+          encodeSleepWake(this.clock, step.wakeType, Math.round((this.state.obd.vehicleVoltageV ?? 12.6) * 1000)),
+        );
+        return;
+      case 'collision':
+        await this.send(
+          MsgId.DATA_UPLINK,
+          encodeCollision({
+            ...step,
+            reportedAt: this.clock,
+            latitude: this.state.latitude,
+            longitude: this.state.longitude,
+            speedKmh: this.state.speedKmh,
+          }),
+        );
+        return;
+      case 'logout':
+        await this.send(MsgId.TERMINAL_LOGOUT, Buffer.alloc(0));
+        return;
+    }
+  }
+
+  private async advance(seconds: number): Promise<void> {
+    this.clock = new Date(this.clock.getTime() + seconds * 1000);
+    if (Number.isFinite(this.opts.speed) && seconds > 0) {
+      await new Promise((resolve) => setTimeout(resolve, (seconds * 1000) / this.opts.speed));
+    }
+  }
+
+  private moveToPoint(point: TrackPoint, step: Omit<LocationFields, 'type' | 'lat' | 'lng'> & { intervalSec: number }) {
+    const [lat, lng, speed] = point;
+    this.moveTo(lat, lng, step, speed ?? step.speedKmh ?? null, step.intervalSec);
+  }
+
+  /**
+   * Apply a step to the vehicle state. Speed and heading are derived from
+   * the movement when the scenario doesn't give them; odometer and trip
+   * stats accumulate along the way.
+   */
+  private moveTo(
+    lat: number,
+    lng: number,
+    fields: Omit<LocationFields, 'type' | 'lat' | 'lng'>,
+    speedOverride: number | null,
+    intervalSec?: number,
+  ): void {
+    const s = this.state;
+    const distanceKm = s.gpsFix ? haversineKm(s.latitude, s.longitude, lat, lng) : 0;
+    if (fields.acc !== undefined) s.accOn = fields.acc;
+    if (fields.gpsFix !== undefined) s.gpsFix = fields.gpsFix;
+    else s.gpsFix = true;
+    if (fields.satellites !== undefined) s.satellites = fields.satellites;
+    else if (s.gpsFix && s.satellites === 0) s.satellites = 9;
+    if (fields.altitudeM !== undefined) s.altitudeM = fields.altitudeM;
+    if (fields.obd) Object.assign(s.obd, fields.obd);
+
+    const derivedSpeed = intervalSec ? (distanceKm / intervalSec) * 3600 : null;
+    s.speedKmh = speedOverride ?? fields.speedKmh ?? derivedSpeed ?? (s.accOn ? s.speedKmh : 0);
+    if (fields.heading !== undefined) s.heading = fields.heading;
+    else if (distanceKm > 0.005) s.heading = bearingDeg(s.latitude, s.longitude, lat, lng);
+
+    s.latitude = lat;
+    s.longitude = lng;
+    s.mileageKm += distanceKm;
+
+    if (s.accOn && !this.trip) {
+      this.trip = { startedAt: this.clock, distanceKm: 0, maxSpeedKmh: 0, speedSum: 0, reports: 0 };
+    } else if (this.trip) {
+      this.trip.distanceKm += distanceKm;
+    }
+    if (this.trip && s.accOn) {
+      this.trip.maxSpeedKmh = Math.max(this.trip.maxSpeedKmh, s.speedKmh);
+      this.trip.speedSum += s.speedKmh;
+      this.trip.reports++;
+    }
+  }
+
+  private locationBody(alarms: Array<keyof typeof ALARM_BITS> = [], reportedAt = this.clock): Buffer {
+    const s = this.state;
+    const obd: SimObd = { ...s.obd };
+    // Unless the scenario pins them, engine values follow the ignition and
+    // the GPS speed.
+    if (s.obd.vehicleSpeedKmh === undefined) obd.vehicleSpeedKmh = s.accOn ? Math.min(255, Math.round(s.speedKmh)) : null;
+    if (s.obd.rpm === undefined) obd.rpm = s.accOn ? Math.round(750 + s.speedKmh * 25) : null;
+    return encodeLocation({
+      reportedAt,
+      latitude: s.latitude,
+      longitude: s.longitude,
+      altitudeM: s.altitudeM,
+      speedKmh: s.speedKmh,
+      heading: s.heading,
+      accOn: s.accOn,
+      gpsFix: s.gpsFix,
+      alarmBits: alarms.reduce((bits, name) => bits | ALARM_BITS[name], 0),
+      satellites: s.satellites,
+      mileageKm: s.mileageKm,
+      obd,
+    });
+  }
+
+  // ── Framing ────────────────────────────────────────────────────────────────
+
+  private nextSerial(): number {
+    const serial = this.serial;
+    this.serial = (this.serial + 1) & 0xffff;
+    return serial;
+  }
+
+  private writeFrame(msgId: number, body: Buffer, serial = this.nextSerial(), subpackage?: { total: number; index: number }) {
+    if (!this.socket || this.closed) throw new Error('Not connected');
+    this.socket.write(
+      encodeFrame({
+        msgId,
+        phoneBcd: this.scenario.terminal.phone,
+        msgSerial: serial,
+        body,
+        protocolVersion: this.protocolVersion,
+        subpackage,
+      }),
+    );
+    this.summary.framesSent++;
+    return serial;
+  }
+
+  /**
+   * Send one uplink (subpackaged when the body is over 1023 bytes) and wait
+   * for the 0x8001 to its last frame. Resolves with the result code, or
+   * null on timeout / disconnect.
+   */
+  private async send(msgId: number, body: Buffer): Promise<number | null> {
+    if (this.closed) return null;
+    const chunks: Buffer[] = [];
+    for (let off = 0; off < body.length || chunks.length === 0; off += MAX_BODY_BYTES) {
+      chunks.push(body.subarray(off, off + MAX_BODY_BYTES));
+    }
+    let lastSerial = 0;
+    chunks.forEach((chunk, i) => {
+      lastSerial = this.writeFrame(
+        msgId,
+        chunk,
+        this.nextSerial(),
+        chunks.length > 1 ? { total: chunks.length, index: i + 1 } : undefined,
+      );
+    });
+
+    const result = await new Promise<number | null>((resolve) => {
+      const timer = setTimeout(() => {
+        this.ackWaiters.delete(lastSerial);
+        resolve(null);
+      }, ACK_TIMEOUT_MS);
+      this.ackWaiters.set(lastSerial, { msgId, resolve, timer });
+    });
+
+    if (result === null) {
+      if (!this.closed) {
+        this.summary.ackTimeouts++;
+        this.opts.log.warn(`${hex(msgId)} #${lastSerial}: no 0x8001 within ${ACK_TIMEOUT_MS / 1000}s`);
+      }
+    } else if (result === PlatformResult.OK) {
+      this.summary.acksOk++;
+    } else {
+      this.summary.acksFailed++;
+      this.opts.log.warn(`${hex(msgId)} #${lastSerial}: gateway answered result ${result}`);
+    }
+    return result;
+  }
+
+  private onData(chunk: Buffer): void {
+    const { frames, rest } = splitFrames(Buffer.concat([this.inbound, chunk]));
+    this.inbound = rest;
+    for (const raw of frames) {
+      try {
+        const { header, body } = decodeFrame(raw);
+        this.onDownlink(header.msgId, header.msgSerial, body);
+      } catch (err) {
+        this.opts.log.warn(`Undecodable downlink frame: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  // ── Downlink ───────────────────────────────────────────────────────────────
+
+  private onDownlink(msgId: number, serial: number, body: Buffer): void {
+    switch (msgId) {
+      case MsgId.PLATFORM_GENERAL_RESPONSE: {
+        if (body.length < 5) return;
+        const waiter = this.ackWaiters.get(body.readUInt16BE(0));
+        if (!waiter) return; // heartbeat / subpackage fragment acks
+        clearTimeout(waiter.timer);
+        this.ackWaiters.delete(body.readUInt16BE(0));
+        waiter.resolve(body.readUInt8(4));
+        return;
+      }
+      case MsgId.REGISTER_RESPONSE: {
+        if (body.length < 3 || !this.registerWaiter) return;
+        if (body.readUInt16BE(0) !== this.registerWaiter.serial) return;
+        const waiter = this.registerWaiter;
+        this.registerWaiter = null;
+        waiter.resolve({ result: body.readUInt8(2), authCode: body.toString('latin1', 3) });
+        return;
+      }
+      case MsgId.SET_TERMINAL_PARAMS: {
+        const ids = this.applyParams(body);
+        this.opts.log.info(`0x8103 set ${ids.map((id) => hex(id)).join(', ') || 'nothing'}`);
+        this.reply(serial, msgId, PlatformResult.OK);
+        return;
+      }
+      case MsgId.QUERY_TERMINAL_PARAMS: {
+        this.opts.log.info(`0x8104 query → 0x0104 with ${this.params.size} parameters`);
+        this.writeFrame(
+          MsgId.QUERY_TERMINAL_PARAMS_RESPONSE,
+          encodeParamsResponse(serial, this.params, this.byteParams),
+        );
+        this.summary.commandsAnswered++;
+        return;
+      }
+      case MsgId.LOCATION_QUERY: {
+        this.opts.log.info('0x8201 location query → 0x0001 + 0x0200');
+        this.reply(serial, msgId, PlatformResult.OK);
+        const now = new Date(Math.max(this.clock.getTime(), Date.now()));
+        void this.send(MsgId.LOCATION_REPORT, this.locationBody([], now));
+        return;
+      }
+      case MsgId.TEXT_DISTRIBUTION: {
+        const text = body.toString('latin1', 1).replace(/\0+$/, '');
+        const answer = this.scenario.replies.text.replace('{text}', text);
+        this.opts.log.info(`0x8300 "${text}" → 0x0001 + 0x6006 "${answer}"`);
+        this.reply(serial, msgId, PlatformResult.OK);
+        // 0x6006 gets no 0x8001, so don't wait for one.
+        this.writeFrame(MsgId.TEXT_REPLY, encodeTextReply(answer));
+        return;
+      }
+      case MsgId.TERMINAL_CONTROL:
+      case MsgId.TEMPORARY_TRACKING_CONTROL:
+      case MsgId.DATA_PASSTHROUGH_DOWN:
+        this.opts.log.info(`${hex(msgId)} → 0x0001 OK`);
+        this.reply(serial, msgId, PlatformResult.OK);
+        return;
+      case MsgId.RETRANSMIT_SUBPACKAGE_REQUEST:
+        this.opts.log.warn('Gateway requested subpackage retransmission; not simulated');
+        return;
+      default:
+        this.opts.log.warn(`${hex(msgId)} not simulated → 0x0001 unsupported`);
+        this.reply(serial, msgId, PlatformResult.UNSUPPORTED);
+    }
+  }
+
+  private reply(serial: number, msgId: number, result: number): void {
+    this.writeFrame(MsgId.TERMINAL_GENERAL_RESPONSE, encodeGeneralResponse(serial, msgId, result));
+    this.summary.commandsAnswered++;
+  }
+
+  /** Store numeric 0x8103 values (1/2/4-byte); returns the ids touched. */
+  private applyParams(body: Buffer): number[] {
+    const ids: number[] = [];
+    if (body.length < 1) return ids;
+    const count = body.readUInt8(0);
+    let cursor = 1;
+    for (let i = 0; i < count && cursor + 5 <= body.length; i++) {
+      const id = body.readUInt32BE(cursor);
+      const len = body.readUInt8(cursor + 4);
+      const value = body.subarray(cursor + 5, cursor + 5 + len);
+      cursor += 5 + len;
+      ids.push(id);
+      if (len === 1) {
+        this.params.set(id, value.readUInt8(0));
+        this.byteParams.add(id);
+      } else if (len === 2 || len === 4) {
+        this.params.set(id, value.readUIntBE(0, len));
+        this.byteParams.delete(id);
+      }
+    }
+    return ids;
+  }
+}
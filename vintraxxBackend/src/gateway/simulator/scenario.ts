@@ -0,0 +1,222 @@
+/**
+ * Scenario files for the D450 terminal simulator (scripts/simulate-terminal.ts).
+ *
+ * A scenario is a JSON document describing one simulated device and a list
+ * of steps it plays against the gateway after register + auth:
+ *
+ *   {
+ *     "name": "Short commute",
+ *     "terminal": { "phone": "13800138000", "plateNumber": "SIM-001" },
+ *     "steps": [
+ *       { "type": "location", "lat": 33.7490, "lng": -84.3880, "acc": true },
+ *       { "type": "track", "intervalSec": 10, "points": [[33.75, -84.39], [33.76, -84.40]] },
+ *       { "type": "trip_summary" },
+ *       { "type": "dtc", "codes": ["P0301"] }
+ *     ]
+ *   }
+ *
+ * Steps run against a simulated clock that advances by `wait` /
+ * `intervalSec`; the CLI decides how much of that to sleep for in real time
+ * (`--speed`). Example scenarios live in scripts/scenarios/.
+ *
+ * Vehicle state (position, ignition, OBD values, odometer) carries over from
+ * step to step, so a step only needs the fields that change.
+ */
+
+import { z } from 'zod';
+import { ALARM_BITS } from '../codec/messages/m0200-location';
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+const alarmName = z.enum(Object.keys(ALARM_BITS) as [keyof typeof ALARM_BITS, ...(keyof typeof ALARM_BITS)[]]);
+
+/** J2012 code (P0301, U0100…) — the F2 packet only carries SAE codes. */
+const dtcCode = z.string().regex(/^[PCBU][0-3][0-9A-F]{3}$/i, 'DTC must look like P0301');
+
+/**
+ * OBD values carried in the 0xEA / 0xEB containers. Anything omitted keeps
+ * its previous value; `null` stops reporting it.
+ */
+const obdSchema = z
+  .object({
+    /** Defaults to idle plus a speed-proportional part while the ignition is on. */
+    rpm: z.number().int().min(0).max(0xffff).nullable(),
+    /** Defaults to the GPS speed of the report while the ignition is on. */
+    vehicleSpeedKmh: z.number().int().min(0).max(255).nullable(),
+    coolantTempC: z.number().int().min(-40).max(215).nullable(),
+    intakeAirTempC: z.number().int().min(-40).max(215).nullable(),
+    engineLoadPct: z.number().int().min(0).max(100).nullable(),
+    fuelLevelPct: z.number().min(0).max(100).nullable(),
+    vehicleVoltageV: z.number().min(0).max(60).nullable(),
+    milOn: z.boolean().nullable(),
+    faultCodeCount: z.number().int().min(0).max(255).nullable(),
+    csq: z.number().int().min(0).max(31).nullable(),
+  })
+  .partial()
+  .strict();
+
+const locationFields = {
+  speedKmh: z.number().min(0).max(6553).optional(),
+  heading: z.number().int().min(0).max(359).optional(),
+  altitudeM: z.number().int().min(-32768).max(32767).optional(),
+  acc: z.boolean().optional(),
+  gpsFix: z.boolean().optional(),
+  satellites: z.number().int().min(0).max(255).optional(),
+  /** Alarm bits active on this report, by ALARM_BITS name. */
+  alarms: z.array(alarmName).optional(),
+  obd: obdSchema.optional(),
+};
+
+/** [lat, lng] or [lat, lng, speedKmh]. */
+const trackPoint = z.union([
+  z.tuple([latitude, longitude]),
+  z.tuple([latitude, longitude, z.number().min(0).max(6553)]),
+]);
+
+const stepSchema = z.discriminatedUnion('type', [
+  /** One 0x0200 report. */
+  z
+    .object({
+      type: z.literal('location'),
+      lat: latitude.optional(),
+      lng: longitude.optional(),
+      ...locationFields,
+    })
+    .strict(),
+  /** One 0x0200 per point, each `intervalSec` of simulated time after the last report. */
+  z
+    .object({
+      type: z.literal('track'),
+      points: z.array(trackPoint).min(1),
+      intervalSec: z.number().positive().default(10),
+      ...locationFields,
+    })
+    .strict(),
+  /**
+   * Blind-area back-fill: the points are timestamped like a track but held
+   * back and uploaded as one 0x0704 (locationType 1) at the end.
+   */
+  z
+    .object({
+      type: z.literal('batch'),
+      points: z.array(trackPoint).min(1).max(50),
+      intervalSec: z.number().positive().default(30),
+      ...locationFields,
+    })
+    .strict(),
+  /** Advance the simulated clock; heartbeats keep running. */
+  z.object({ type: z.literal('wait'), seconds: z.number().nonnegative() }).strict(),
+  /**
+   * 0x0900/F1 end-of-trip packet. Distance, duration and speeds default to
+   * what the simulator accumulated since the ignition came on.
+   */
+  z
+    .object({
+      type: z.literal('trip_summary'),
+      closeReason: z.enum(['acc_off', 'idle', 'manual']).default('acc_off'),
+      distanceKm: z.number().nonnegative().optional(),
+      durationSec: z.number().int().nonnegative().optional(),
+      maxSpeedKmh: z.number().nonnegative().optional(),
+      avgSpeedKmh: z.number().nonnegative().optional(),
+      fuelConsumedL: z.number().nonnegative().default(0),
+      harshAccelCount: z.number().int().nonnegative().default(0),
+      harshBrakeCount: z.number().int().nonnegative().default(0),
+      harshTurnCount: z.number().int().nonnegative().default(0),
+      overspeedCount: z.number().int().nonnegative().default(0),
+      idleSec: z.number().int().nonnegative().default(0),
+    })
+    .strict(),
+  /** 0x0900/F2 fault-code packet. An empty list reports "no faults". */
+  z
+    .object({
+      type: z.literal('dtc'),
+      codes: z.array(dtcCode).default([]),
+      pending: z.array(dtcCode).default([]),
+      permanent: z.array(dtcCode).default([]),
+    })
+    .strict(),
+  /** 0x0900/F3 sleep entry. */
+  z.object({ type: z.literal('sleep') }).strict(),
+  /** 0x0900/F4 wake-up. `wakeType` is the device's bit-encoded wake source. */
+  z
+    .object({ type: z.literal('wake'), wakeType: z.number().int().min(0).max(255).default(1) })
+    .strict(),
+  /**
+   * 0x0900/F7 suspected collision at the current position, with a
+   * synthetic accelerometer trace peaking at `peakMg` mid-window.
+   */
+  z
+    .object({
+      type: z.literal('collision'),
+      level: z.number().int().min(0).max(2).default(1),
+      peakMg: z.number().int().min(0).max(32767).default(2500),
+      sampleIntervalMs: z.number().int().min(50).max(5000).default(500),
+      /** Window length; the D450 covers roughly 20 s around the impact. */
+      durationSec: z.number().int().min(1).max(60).default(20),
+    })
+    .strict(),
+  /** 0x0003 terminal logout; the gateway drops the session afterwards. */
+  z.object({ type: z.literal('logout') }).strict(),
+]);
+
+export const scenarioSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    terminal: z
+      .object({
+        /** Header phone / device identifier — must match a provisioned GpsTerminal. */
+        phone: z.string().regex(/^\d{1,20}$/),
+        /** 2019 header version byte; omit for a 2013 header (D450 default). */
+        protocolVersion: z.number().int().min(0).max(255).optional(),
+        /** Skip 0x0100 and authenticate with a previously issued code. */
+        authCode: z.string().min(1).optional(),
+        manufacturerId: z.string().max(11).default('HOLLO'),
+        terminalModel: z.string().max(30).default('D450'),
+        terminalId: z.string().max(30).default('SIM0001'),
+        plateNumber: z.string().max(16).default(''),
+        imei: z.string().regex(/^\d{15}$/).default('860000000000001'),
+        softwareVersion: z.string().max(20).default('D450_SIM_1.0'),
+      })
+      .strict(),
+    heartbeatSec: z.number().int().min(1).default(30),
+    start: z
+      .object({
+        lat: latitude,
+        lng: longitude,
+        mileageKm: z.number().nonnegative().default(0),
+        obd: obdSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    /** Canned answers to platform commands. */
+    replies: z
+      .object({
+        /** 0x6006 body for a 0x8300 text command; `{text}` is the command. */
+        text: z.string().default('{text}:OK'),
+        /** Extra 0x0104 parameters (id → uint32) on top of the defaults. */
+        params: z.record(z.string().regex(/^(0x)?[0-9a-f]+$/i), z.number().int().nonnegative()).default({}),
+      })
+      .strict()
+      .default({}),
+    steps: z.array(stepSchema).min(1),
+  })
+  .strict();
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+export type ScenarioStep = z.infer<typeof stepSchema>;
+export type ScenarioObd = z.infer<typeof obdSchema>;
+export type TrackPoint = z.infer<typeof trackPoint>;
+
+/** Parse + validate a scenario document; throws a readable error. */
+export function parseScenario(json: unknown): Scenario {
+  const result = scenarioSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('\n');
+    throw new Error(`Invalid scenario:\n${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,343 @@
+/**
+ * Uplink body encoders for the terminal simulator — the inverse of the
+ * decoders under codec/messages for the messages a D450 sends. Layouts are
+ * documented on the matching decoder; only the encoding choices the
+ * decoders leave open are noted here.
+ *
+ * Everything here is plain Buffer work so the simulator can run against a
+ * remote gateway without the backend's env / database configuration.
+ */
+
+import { stringToBcd } from '../codec/header';
+import { STATUS_BITS } from '../codec/messages/m0200-location';
+import { PassThroughSubtype } from '../codec/messages/m0900-pass-through';
+
+// ── Shared helpers ──────────────────────────────────────────────────────────
+
+/** Wire timestamps are BCD YYMMDDhhmmss in China Standard Time (UTC+8). */
+export function dateToBcd(date: Date): Buffer {
+  const cst = new Date(date.getTime() + 8 * 60 * 60 * 1000);
+  const two = (n: number) => String(n).padStart(2, '0');
+  return stringToBcd(
+    two(cst.getUTCFullYear() % 100) +
+      two(cst.getUTCMonth() + 1) +
+      two(cst.getUTCDate()) +
+      two(cst.getUTCHours()) +
+      two(cst.getUTCMinutes()) +
+      two(cst.getUTCSeconds()),
+    6,
+  );
+}
+
+function fixedAscii(value: string, length: number): Buffer {
+  const out = Buffer.alloc(length);
+  out.write(value.slice(0, length), 'latin1');
+  return out;
+}
+
+/** 0xF2 / 0xF7 coordinates: magnitude × 1e6 with the sign in bit 31. */
+function signedCoordinate(degrees: number): number {
+  const magnitude = Math.round(Math.abs(degrees) * 1_000_000) & 0x7fff_ffff;
+  return (degrees < 0 ? 0x8000_0000 | magnitude : magnitude) >>> 0;
+}
+
+function tlv(id: number, value: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([id, value.length]), value]);
+}
+
+function subTlv(id: number, value: Buffer): Buffer {
+  const head = Buffer.alloc(3);
+  head.writeUInt16BE(id, 0);
+  head.writeUInt8(value.length, 2);
+  return Buffer.concat([head, value]);
+}
+
+const u8 = (n: number) => Buffer.from([n & 0xff]);
+const u16 = (n: number) => {
+  const b = Buffer.alloc(2);
+  b.writeUInt16BE(n & 0xffff, 0);
+  return b;
+};
+const u32 = (n: number) => {
+  const b = Buffer.alloc(4);
+  b.writeUInt32BE(n >>> 0, 0);
+  return b;
+};
+
+// ── 0x0100 / 0x0102 ─────────────────────────────────────────────────────────
+
+export interface RegisterInput {
+  manufacturerId: string;
+  terminalModel: string;
+  terminalId: string;
+  plateNumber: string;
+  /** Non-null selects the 2019 field widths (11 / 30 / 30). */
+  protocolVersion: number | null;
+}
+
+export function encodeRegister(input: RegisterInput): Buffer {
+  const is2019 = input.protocolVersion !== null;
+  const plate = Buffer.from(input.plateNumber, 'latin1');
+  return Buffer.concat([
+    u16(0), // provinceId
+    u16(0), // cityId
+    fixedAscii(input.manufacturerId, is2019 ? 11 : 5),
+    fixedAscii(input.terminalModel, is2019 ? 30 : 20),
+    fixedAscii(input.terminalId, is2019 ? 30 : 7),
+    u8(plate.length > 0 ? 9 : 0), // plateColor: 9 = other, 0 = unbound
+    plate,
+  ]);
+}
+
+export function encodeAuth(
+  authCode: string,
+  opts: { protocolVersion: number | null; imei: string; softwareVersion: string },
+): Buffer {
+  const code = Buffer.from(authCode, 'latin1');
+  if (opts.protocolVersion === null) return code;
+  return Buffer.concat([
+    u8(code.length),
+    code,
+    fixedAscii(opts.imei, 15),
+    fixedAscii(opts.softwareVersion, 20),
+  ]);
+}
+
+// ── 0x0001 / 0x0104 / 0x6006 ────────────────────────────────────────────────
+
+export function encodeGeneralResponse(replyToSerial: number, replyToMsgId: number, result: number): Buffer {
+  return Buffer.concat([u16(replyToSerial), u16(replyToMsgId), u8(result)]);
+}
+
+/** 0x0104 — every value is sent as a DWORD except ids in `byteParams`. */
+export function encodeParamsResponse(
+  replyToSerial: number,
+  params: Map<number, number>,
+  byteParams: ReadonlySet<number> = new Set(),
+): Buffer {
+  const entries = [...params].map(([id, value]) => {
+    const raw = byteParams.has(id) ? u8(value) : u32(value);
+    return Buffer.concat([u32(id), u8(raw.length), raw]);
+  });
+  return Buffer.concat([u16(replyToSerial), u8(entries.length), ...entries]);
+}
+
+export function encodeTextReply(text: string): Buffer {
+  return Buffer.from(text, 'ascii');
+}
+
+// ── 0x0200 ──────────────────────────────────────────────────────────────────
+
+/** OBD values for the 0xEA / 0xEB containers; undefined/null are omitted. */
+export interface SimObd {
+  rpm?: number | null;
+  vehicleSpeedKmh?: number | null;
+  coolantTempC?: number | null;
+  intakeAirTempC?: number | null;
+  engineLoadPct?: number | null;
+  fuelLevelPct?: number | null;
+  vehicleVoltageV?: number | null;
+  milOn?: boolean | null;
+  faultCodeCount?: number | null;
+  csq?: number | null;
+}
+
+export interface LocationInput {
+  reportedAt: Date;
+  latitude: number;
+  longitude: number;
+  altitudeM: number;
+  speedKmh: number;
+  heading: number;
+  accOn: boolean;
+  gpsFix: boolean;
+  alarmBits: number;
+  satellites: number;
+  mileageKm: number;
+  obd: SimObd;
+}
+
+const present = <T>(v: T | null | undefined): v is T => v !== null && v !== undefined;
+
+/**
+ * 28-byte basic block + TLVs 0x01 (mileage), 0x30 (CSQ), 0x31 (satellites)
+ * and the 0xEA basic / 0xEB sedan containers, the way the D450 lays out a
+ * periodic report.
+ */
+export function encodeLocation(input: LocationInput): Buffer {
+  let statusBits = 0;
+  if (input.accOn) statusBits |= STATUS_BITS.ACC_ON;
+  if (input.gpsFix) statusBits |= STATUS_BITS.GPS_FIX;
+  if (input.latitude < 0) statusBits |= 1 << 2;
+  if (input.longitude < 0) statusBits |= 1 << 3;
+
+  const basic = Buffer.alloc(28);
+  basic.writeUInt32BE(input.alarmBits >>> 0, 0);
+  basic.writeUInt32BE(statusBits >>> 0, 4);
+  basic.writeUInt32BE(Math.round(Math.abs(input.latitude) * 1_000_000), 8);
+  basic.writeUInt32BE(Math.round(Math.abs(input.longitude) * 1_000_000), 12);
+  basic.writeInt16BE(input.altitudeM, 16);
+  basic.writeUInt16BE(Math.round(input.speedKmh * 10), 18);
+  basic.writeUInt16BE(input.heading % 360, 20);
+  dateToBcd(input.reportedAt).copy(basic, 22);
+
+  const { obd } = input;
+  const tlvs: Buffer[] = [tlv(0x01, u32(Math.round(input.mileageKm * 10)))];
+  if (present(obd.csq)) tlvs.push(tlv(0x30, u8(obd.csq)));
+  tlvs.push(tlv(0x31, u8(input.satellites)));
+
+  // 0xEA — mileage (status byte + metres), voltage, CSQ, satellites.
+  const basicFlow: Buffer[] = [
+    subTlv(0x0003, Buffer.concat([u8(0), u32(Math.round(input.mileageKm * 1000))])),
+    subTlv(0x0018, u8(input.satellites)),
+  ];
+  if (present(obd.vehicleVoltageV)) basicFlow.push(subTlv(0x0012, u16(Math.round(obd.vehicleVoltageV * 10))));
+  if (present(obd.csq)) basicFlow.push(subTlv(0x0014, u8(obd.csq)));
+  tlvs.push(tlv(0xea, Buffer.concat(basicFlow)));
+
+  // 0xEB — sedan live PIDs.
+  const sedan: Buffer[] = [];
+  if (present(obd.rpm)) sedan.push(subTlv(0x60c0, u16(obd.rpm)));
+  if (present(obd.vehicleSpeedKmh)) sedan.push(subTlv(0x60d0, u8(obd.vehicleSpeedKmh)));
+  if (present(obd.coolantTempC)) sedan.push(subTlv(0x6050, u8(obd.coolantTempC + 40)));
+  if (present(obd.intakeAirTempC)) sedan.push(subTlv(0x60f0, u8(obd.intakeAirTempC + 40)));
+  if (present(obd.engineLoadPct)) sedan.push(subTlv(0x6040, u8(obd.engineLoadPct)));
+  // 0x62F0 bit 15 clear = percent, value × 10.
+  if (present(obd.fuelLevelPct)) sedan.push(subTlv(0x62f0, u16(Math.round(obd.fuelLevelPct * 10) & 0x7fff)));
+  if (present(obd.milOn)) sedan.push(subTlv(0x6014, u8(obd.milOn ? 1 : 0)));
+  if (present(obd.faultCodeCount)) sedan.push(subTlv(0x6010, u8(obd.faultCodeCount)));
+  if (sedan.length > 0) tlvs.push(tlv(0xeb, Buffer.concat(sedan)));
+
+  return Buffer.concat([basic, ...tlvs]);
+}
+
+/** 0x0704 — `locationType` 1 marks a blind-area supplement. */
+export function encodeBatchLocation(locationBodies: Buffer[], locationType = 1): Buffer {
+  return Buffer.concat([
+    u16(locationBodies.length),
+    u8(locationType),
+    ...locationBodies.flatMap((b) => [u16(b.length), b]),
+  ]);
+}
+
+// ── 0x0900 pass-through ─────────────────────────────────────────────────────
+
+export interface TripSummaryInput {
+  closeReason: 'acc_off' | 'idle' | 'manual';
+  distanceKm: number;
+  durationSec: number;
+  maxSpeedKmh: number;
+  avgSpeedKmh: number;
+  fuelConsumedL: number;
+  harshAccelCount: number;
+  harshBrakeCount: number;
+  harshTurnCount: number;
+  overspeedCount: number;
+  idleSec: number;
+}
+
+const CLOSE_FLAGS = { acc_off: 0, idle: 1, manual: 2 } as const;
+
+export function encodeTripSummary(input: TripSummaryInput): Buffer {
+  return Buffer.concat([
+    u8(PassThroughSubtype.TRIP_SUMMARY),
+    u8(CLOSE_FLAGS[input.closeReason]),
+    u32(Math.round(input.distanceKm * 1000)),
+    u32(input.durationSec),
+    u16(Math.round(input.maxSpeedKmh * 10)),
+    u16(Math.round(input.avgSpeedKmh * 10)),
+    u16(Math.round(input.fuelConsumedL * 100)),
+    u16(input.harshAccelCount),
+    u16(input.harshBrakeCount),
+    u16(input.harshTurnCount),
+    u16(input.overspeedCount),
+    u16(Math.min(input.idleSec, 0xffff)),
+  ]);
+}
+
+/** Pack 'P0301' into the 2-byte SAE J2012 form decodeJ2012 reads. */
+function packJ2012(code: string): number {
+  const prefix = 'PCBU'.indexOf(code[0].toUpperCase());
+  const firstDigit = parseInt(code[1], 10);
+  const rest = parseInt(code.slice(2), 16);
+  return ((prefix << 14) | (firstDigit << 12) | rest) & 0xffff;
+}
+
+const DTC_STATUS = { stored: 0, pending: 1, permanent: 2 } as const;
+
+export function encodeDtcPacket(input: {
+  reportedAt: Date;
+  latitude: number;
+  longitude: number;
+  codes: Array<{ code: string; status: keyof typeof DTC_STATUS }>;
+}): Buffer {
+  // System byte 0x01 (engine) — the platform derives the system from the
+  // J2012 letter anyway.
+  const codes = input.codes.map(({ code, status }) =>
+    Buffer.concat([u8(0x01), u16(packJ2012(code)), u8(DTC_STATUS[status])]),
+  );
+  return Buffer.concat([
+    u8(PassThroughSubtype.DTC),
+    dateToBcd(input.reportedAt),
+    u32(signedCoordinate(input.latitude)),
+    u32(signedCoordinate(input.longitude)),
+    u8(codes.length),
+    ...codes,
+  ]);
+}
+
+export function encodeSleepEntry(at: Date): Buffer {
+  return Buffer.concat([u8(PassThroughSubtype.SLEEP_ENTRY), dateToBcd(at)]);
+}
+
+export function encodeSleepWake(at: Date, wakeType: number, busVoltageMv: number): Buffer {
+  return Buffer.concat([
+    u8(PassThroughSubtype.SLEEP_WAKE),
+    dateToBcd(at),
+    u8(wakeType),
+    u16(busVoltageMv),
+  ]);
+}
+
+export interface CollisionInput {
+  reportedAt: Date;
+  latitude: number;
+  longitude: number;
+  level: number;
+  peakMg: number;
+  sampleIntervalMs: number;
+  durationSec: number;
+  speedKmh: number;
+}
+
+/**
+ * F7 with a synthetic trace: 1 g on Z throughout, a longitudinal spike
+ * decaying either side of the window midpoint, and the speed dropping to
+ * zero after the impact.
+ */
+export function encodeCollision(input: CollisionInput): Buffer {
+  const count = Math.max(1, Math.round((input.durationSec * 1000) / input.sampleIntervalMs));
+  const impact = Math.floor(count / 2);
+  const samples: Buffer[] = [];
+  for (let k = 0; k < count; k++) {
+    const distance = Math.abs(k - impact);
+    const x = -Math.round(input.peakMg / 2 ** distance);
+    const y = Math.round(x / 4);
+    const speed = k < impact ? input.speedKmh : 0;
+    const s = Buffer.alloc(7);
+    s.writeInt16BE(Math.max(-32768, x), 0);
+    s.writeInt16BE(Math.max(-32768, y), 2);
+    s.writeInt16BE(1000, 4);
+    s.writeUInt8(Math.min(255, Math.round(speed)), 6);
+    samples.push(s);
+  }
+  return Buffer.concat([
+    u8(PassThroughSubtype.COLLISION),
+    dateToBcd(input.reportedAt),
+    u32(signedCoordinate(input.latitude)),
+    u32(signedCoordinate(input.longitude)),
+    u32(input.sampleIntervalMs),
+    u8(input.level),
+    ...samples,
+  ]);
+}
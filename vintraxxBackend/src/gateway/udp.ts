@@ -0,0 +1,337 @@
+/**
+ * UDP transport — JT/T 808 over datagrams, for trackers (low-power D450
+ * firmware profiles among them) that report over UDP to save battery/data.
+ *
+ * UDP has no connection, so a "session" here is keyed by the terminal's
+ * phone number (the BCD identifier in every header), not by socket:
+ *
+ *   • The first datagram from an unknown phone number creates a Session
+ *     backed by a `UdpPeerSocket`, then every frame goes through the same
+ *     `processFrame` pipeline as TCP — decode, auth gate, dispatch. At most
+ *     MAX_UNAUTHENTICATED_PEERS sessions may be waiting for their 0x0102 at
+ *     once; datagrams for further new phone numbers are dropped.
+ *   • Replies (and downlink commands) go to the address the peer was
+ *     opened from. The phone number is no secret, so once the session has
+ *     authenticated a datagram from another address doesn't move it: the
+ *     new address has to log in again. A register / auth frame from it
+ *     opens a second, candidate peer (`rebinding`) with its own session;
+ *     when that authenticates, SessionRegistry closes the old session like
+ *     a TCP reconnect and the candidate takes over. Anything else from an
+ *     unproven address is dropped and does not keep the old peer alive —
+ *     after a real carrier NAT rebind the terminal gets no acks, times out
+ *     and logs in again, or the old peer idles out and goes OFFLINE.
+ *     Before authentication there is nothing to steal and the peer simply
+ *     follows the latest address.
+ *   • A terminal silent for GPS_HEARTBEAT_TIMEOUT_SEC is closed like a dead
+ *     TCP socket: `releaseSession` marks it OFFLINE and drops the lease.
+ *   • Devices retransmit when our reply is lost, and the network can
+ *     duplicate datagrams. A frame byte-identical to one seen recently is
+ *     not dispatched again (no duplicate location rows / alarms); the
+ *     replies it produced the first time are re-sent instead.
+ *
+ * Frames of one peer are processed strictly in arrival order. UDP is JT/T
+ * 808 only: the peer key is the JT/T header's phone number.
+ */
+
+import dgram from 'dgram';
+import { Duplex } from 'stream';
+import type { Socket } from 'net';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { splitFrames } from './codec/framing';
+import { decodeFrameHeader } from './codec';
+import { MsgId } from './codec/constants';
+import { Session } from './session/Session';
+import { SessionRegistry } from './session/SessionRegistry';
+import { processFrame, releaseSession } from './pipeline';
+import { jt808Adapter } from './protocols';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/** Recently processed frames remembered per peer for duplicate detection. */
+const DEDUP_WINDOW = 64;
+
+/** How long a processed frame counts as "recent". */
+const DEDUP_TTL_MS = 120_000;
+
+/** Peers that haven't authenticated yet, across all phone numbers. */
+const MAX_UNAUTHENTICATED_PEERS = 256;
+
+/** Frames written while a datagram frame is processed (its replies). */
+const replyCapture = new AsyncLocalStorage<Buffer[]>();
+
+/**
+ * Socket stand-in for one UDP peer. Session writes become datagrams to the
+ * peer's current address; ending it emits `close`, which is where the
+ * teardown hangs off, same as a TCP socket.
+ */
+class UdpPeerSocket extends Duplex {
+  remoteAddress: string;
+  remotePort: number;
+
+  constructor(
+    private readonly server: dgram.Socket,
+    rinfo: dgram.RemoteInfo,
+  ) {
+    super();
+    this.remoteAddress = rinfo.address;
+    this.remotePort = rinfo.port;
+  }
+
+  _read(): void {}
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (err?: Error | null) => void): void {
+    replyCapture.getStore()?.push(chunk);
+    // A lost datagram is the device's problem to retransmit; never fail the
+    // stream over it.
+    const onSent = (err: Error | null) => {
+      if (err) logger.warn('UDP send failed', { remote: this.remote, err: err.message });
+      callback();
+    };
+    try {
+      this.server.send(chunk, this.remotePort, this.remoteAddress, onSent);
+    } catch (err) {
+      // Listener already closed (shutdown).
+      onSent(err as Error);
+    }
+  }
+
+  _final(callback: (err?: Error | null) => void): void {
+    callback();
+    this.destroy();
+  }
+
+  get remote(): string {
+    return `${this.remoteAddress}:${this.remotePort}`;
+  }
+}
+
+interface UdpPeer {
+  session: Session;
+  socket: UdpPeerSocket;
+  /** Escaped frame (hex) → replies written while processing it. */
+  recent: Map<string, { at: number; replies: Buffer[] }>;
+  /** Tail of the per-peer processing chain. */
+  queue: Promise<void>;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/** Live UDP peers keyed by header phoneBcd. */
+const peers = new Map<string, UdpPeer>();
+
+/**
+ * Peers logging in from a new address while `peers` still holds an
+ * authenticated one for the same phone number; promoted once they
+ * authenticate.
+ */
+const rebinding = new Map<string, UdpPeer>();
+
+/**
+ * Start the UDP listener when GPS_UDP_PORT > 0. Returns null when disabled;
+ * bind errors are logged, never thrown — TCP stays the primary transport.
+ */
+export function startUdpListener(): dgram.Socket | null {
+  const port = env.GPS_UDP_PORT;
+  if (!port || port <= 0) return null;
+
+  const server = dgram.createSocket('udp4');
+  server.on('message', (msg, rinfo) => onDatagram(server, msg, rinfo));
+  server.on('error', (err) => {
+    logger.error('UDP listener error', { err: err.message });
+  });
+  server.bind(port, '0.0.0.0', () => {
+    logger.info(`vintraxx-gateway listening (UDP) on 0.0.0.0:${port}`);
+  });
+  return server;
+}
+
+/** Number of live UDP peers (health log). */
+export function udpPeerCount(): number {
+  return peers.size;
+}
+
+function onDatagram(server: dgram.Socket, msg: Buffer, rinfo: dgram.RemoteInfo): void {
+  // A datagram carries whole frames; a trailing partial frame can't be
+  // completed by a later datagram, so `rest` is dropped.
+  const { frames } = splitFrames(msg);
+  if (frames.length === 0) return;
+
+  let phoneBcd: string;
+  let firstMsgId: number;
+  try {
+    ({ phoneBcd, msgId: firstMsgId } = decodeFrameHeader(frames[0]));
+  } catch (err) {
+    logger.debug('UDP datagram dropped: unreadable header', {
+      remote: `${rinfo.address}:${rinfo.port}`,
+      err: (err as Error).message,
+    });
+    return;
+  }
+
+  let peer = livePeer(peers, phoneBcd);
+  if (!peer) {
+    if (!canOpenPeer(phoneBcd, rinfo)) return;
+    peer = openPeer(server, phoneBcd, rinfo, peers);
+  } else if (!sameAddress(peer, rinfo)) {
+    if (!peer.session.authenticated) {
+      peer.session.log.info('UDP peer address changed before auth', {
+        from: peer.socket.remote,
+        to: `${rinfo.address}:${rinfo.port}`,
+      });
+      peer.socket.remoteAddress = rinfo.address;
+      peer.socket.remotePort = rinfo.port;
+    } else {
+      const candidate = rebindCandidate(server, phoneBcd, firstMsgId, rinfo);
+      if (!candidate) {
+        peer.session.log.debug('UDP datagram from unproven address dropped', {
+          remote: `${rinfo.address}:${rinfo.port}`,
+          msgId: `0x${firstMsgId.toString(16).padStart(4, '0')}`,
+        });
+        return;
+      }
+      peer = candidate;
+    }
+  }
+
+  armIdleTimer(peer);
+  const current = peer;
+  current.queue = current.queue
+    .then(() => processDatagram(current, frames))
+    .then(() => promoteIfAuthenticated(phoneBcd, current))
+    .catch((err) => {
+      current.session.log.error('UDP datagram processing failed', { err: (err as Error).message });
+    });
+}
+
+/** The registry's peer for `phoneBcd`, unless it is closing (auth failure, idle). */
+function livePeer(registry: Map<string, UdpPeer>, phoneBcd: string): UdpPeer | undefined {
+  const peer = registry.get(phoneBcd);
+  return peer && !peer.socket.destroyed && !peer.socket.writableEnded ? peer : undefined;
+}
+
+function sameAddress(peer: UdpPeer, rinfo: dgram.RemoteInfo): boolean {
+  return peer.socket.remoteAddress === rinfo.address && peer.socket.remotePort === rinfo.port;
+}
+
+/**
+ * The candidate peer for a datagram from a new address of an
+ * authenticated terminal, or null to drop it. Only a register / auth frame
+ * opens one; a later login from yet another address replaces it.
+ */
+function rebindCandidate(
+  server: dgram.Socket,
+  phoneBcd: string,
+  firstMsgId: number,
+  rinfo: dgram.RemoteInfo,
+): UdpPeer | null {
+  const existing = livePeer(rebinding, phoneBcd);
+  if (existing && sameAddress(existing, rinfo)) return existing;
+  if (firstMsgId !== MsgId.TERMINAL_AUTH && firstMsgId !== MsgId.TERMINAL_REGISTER) return null;
+  if (!canOpenPeer(phoneBcd, rinfo)) return null;
+  existing?.session.close('superseded by a login from another address');
+  const candidate = openPeer(server, phoneBcd, rinfo, rebinding);
+  candidate.session.log.info('UDP login from a new address; old peer kept until it authenticates', {
+    remote: candidate.socket.remote,
+  });
+  return candidate;
+}
+
+/** A rebinding candidate that authenticated replaces the old peer. */
+function promoteIfAuthenticated(phoneBcd: string, peer: UdpPeer): void {
+  if (rebinding.get(phoneBcd) !== peer || !peer.session.authenticated) return;
+  rebinding.delete(phoneBcd);
+  peers.set(phoneBcd, peer);
+  peer.session.log.info('UDP peer rebound to new address', { remote: peer.socket.remote });
+}
+
+function canOpenPeer(phoneBcd: string, rinfo: dgram.RemoteInfo): boolean {
+  if (unauthenticatedPeerCount() < MAX_UNAUTHENTICATED_PEERS) return true;
+  logger.warn('UDP datagram dropped: too many unauthenticated peers', {
+    remote: `${rinfo.address}:${rinfo.port}`,
+    phoneBcd,
+  });
+  return false;
+}
+
+function unauthenticatedPeerCount(): number {
+  let count = rebinding.size;
+  for (const peer of peers.values()) {
+    if (!peer.session.authenticated) count++;
+  }
+  return count;
+}
+
+function openPeer(
+  server: dgram.Socket,
+  phoneBcd: string,
+  rinfo: dgram.RemoteInfo,
+  registry: Map<string, UdpPeer>,
+): UdpPeer {
+  const socket = new UdpPeerSocket(server, rinfo);
+  const session = new Session({
+    id: randomUUID(),
+    socket: socket as unknown as Socket,
+    adapter: jt808Adapter,
+  });
+  const peer: UdpPeer = {
+    session,
+    socket,
+    recent: new Map(),
+    queue: Promise.resolve(),
+    idleTimer: null,
+  };
+  registry.set(phoneBcd, peer);
+  SessionRegistry.add(session);
+  session.log.info('UDP peer opened', { phoneBcd });
+
+  socket.on('close', () => {
+    if (peer.idleTimer) clearTimeout(peer.idleTimer);
+    if (peers.get(phoneBcd) === peer) peers.delete(phoneBcd);
+    if (rebinding.get(phoneBcd) === peer) rebinding.delete(phoneBcd);
+    session.log.info('UDP peer closed');
+    void releaseSession(session);
+  });
+  return peer;
+}
+
+function armIdleTimer(peer: UdpPeer): void {
+  if (peer.idleTimer) clearTimeout(peer.idleTimer);
+  peer.idleTimer = setTimeout(() => {
+    peer.session.close('UDP peer idle');
+  }, env.GPS_HEARTBEAT_TIMEOUT_SEC * 1000);
+  peer.idleTimer.unref();
+}
+
+async function processDatagram(peer: UdpPeer, frames: Buffer[]): Promise<void> {
+  for (const frame of frames) {
+    if (peer.socket.destroyed) return;
+
+    const key = frame.toString('hex');
+    const seen = peer.recent.get(key);
+    if (seen && Date.now() - seen.at < DEDUP_TTL_MS) {
+      peer.session.log.debug('Duplicate UDP frame; re-sending its replies', {
+        replies: seen.replies.length,
+      });
+      for (const reply of seen.replies) peer.socket.write(reply);
+      continue;
+    }
+
+    const replies: Buffer[] = [];
+    const keepGoing = await replyCapture.run(replies, () => processFrame(peer.session, frame));
+    remember(peer, key, replies);
+    if (!keepGoing) return;
+  }
+}
+
+function remember(peer: UdpPeer, key: string, replies: Buffer[]): void {
+  peer.recent.delete(key);
+  peer.recent.set(key, { at: Date.now(), replies });
+  // Map iteration is insertion order: the first key is the oldest.
+  while (peer.recent.size > DEDUP_WINDOW) {
+    const oldest = peer.recent.keys().next().value as string;
+    peer.recent.delete(oldest);
+  }
+}
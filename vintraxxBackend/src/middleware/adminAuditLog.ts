@@ -10,13 +10,16 @@
  *
  * GETs are skipped — the table would explode with read traffic and they
  * carry no state change. Service-level audits (e.g. internal jobs that
- * bypass HTTP) should write directly via prisma.adminAuditLog.create().
+ * bypass HTTP) should write directly via prisma.adminAuditLog.create();
+ * services acting for an admin request use `recordAdminAction` below to add
+ * a slug-labelled row next to the HTTP one.
  *
  * Errors inside the audit insert are swallowed and logged — admin writes
  * must NEVER fail because we couldn't record them.
  */
 
 import type { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../config/db';
 import logger from '../utils/logger';
 
@@ -84,6 +87,14 @@ function inferTarget(path: string, body: unknown): { type?: string; id?: string
   return {};
 }
 
+function clientIp(req: Request): string | null {
+  return (
+    (req.headers['x-forwarded-for'] as string | undefined)?.split(',')[0]?.trim() ||
+    req.ip ||
+    null
+  );
+}
+
 /**
  * Self-delete loophole: every DELETE on this very table writes a fresh row
  * via this middleware, so the list never shrinks from the operator's POV
@@ -113,10 +124,7 @@ export function adminAuditMiddleware(
   const adminId = req.admin?.adminId ?? null;
   const method = req.method;
   const path = req.originalUrl ?? req.url;
-  const ip =
-    (req.headers['x-forwarded-for'] as string | undefined)?.split(',')[0]?.trim() ||
-    req.ip ||
-    null;
+  const ip = clientIp(req);
   const userAgent = req.headers['user-agent']?.toString() ?? null;
   const sanitisedBody = sanitiseBody(req.body);
   const target = inferTarget(path, req.body);
@@ -173,3 +181,65 @@ export function adminAuditMiddleware(
 
   next();
 }
+
+// ── Service-level rows ──────────────────────────────────────────────────────
+
+/** Who did it and from where — captured from the request by the controller. */
+export interface AuditContext {
+  adminId: string | null;
+  method: string;
+  path: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export function auditContext(req: Request): AuditContext {
+  return {
+    adminId: req.admin?.adminId ?? null,
+    method: req.method,
+    path: req.originalUrl ?? req.url,
+    ip: clientIp(req),
+    userAgent: req.headers['user-agent']?.toString() ?? null,
+  };
+}
+
+interface AdminActionEntry {
+  /** Stable slug, e.g. 'command.approval.approve'. */
+  action: string;
+  targetType?: string;
+  targetId?: string;
+  payload?: Record<string, unknown>;
+  /** Defaults to 200; pass the error's status when recording a failure. */
+  statusCode?: number;
+  errorText?: string | null;
+}
+
+/**
+ * Write one service-level audit row alongside the middleware's HTTP row.
+ * Same contract as the middleware: never throws.
+ */
+export async function recordAdminAction(ctx: AuditContext, entry: AdminActionEntry): Promise<void> {
+  try {
+    await prisma.adminAuditLog.create({
+      data: {
+        adminId: ctx.adminId,
+        method: ctx.method,
+        path: ctx.path,
+        statusCode: entry.statusCode ?? 200,
+        action: entry.action,
+        targetType: entry.targetType ?? null,
+        targetId: entry.targetId ?? null,
+        ip: ctx.ip,
+        userAgent: ctx.userAgent,
+        payload: entry.payload ? (entry.payload as Prisma.InputJsonValue) : Prisma.DbNull,
+        errorText: entry.errorText ?? null,
+      },
+    });
+  } catch (err) {
+    logger.warn('admin-audit insert failed (non-fatal)', {
+      err: (err as Error).message,
+      action: entry.action,
+      adminId: ctx.adminId,
+    });
+  }
+}
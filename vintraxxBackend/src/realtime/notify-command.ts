@@ -10,7 +10,9 @@
  *     dispatcher's poll-on-bind sweep). Losses are tolerable but separation
  *     keeps the semantics clean.
  *
- * Payload format: just `{ commandId }`. The dispatcher does the row lookup
+ * Payload format: `{ commandId, podId }`. `podId` is the gateway pod holding
+ * the terminal's session lease (null when the terminal is offline); only
+ * that pod acts on the notification. The dispatcher does the row lookup
  * itself so we don't have to keep this struct stable across versions.
  */
 
@@ -19,6 +21,7 @@ import logger from '../utils/logger';
 
 export interface CommandQueuedEvent {
   commandId: string;
+  podId?: string | null;
 }
 
 /** Fire-and-forget — emitter is the REST process. Errors are logged. */
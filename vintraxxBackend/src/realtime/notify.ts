@@ -27,7 +27,8 @@ export type GpsEvent =
   | AlarmEvent
   | DtcEvent
   | TripEvent
-  | ScanReportEvent;
+  | ScanReportEvent
+  | CommandBatchEvent;
 
 export interface LocationUpdateEvent {
   type: 'location.update';
@@ -43,14 +44,22 @@ export interface LocationUpdateEvent {
     altitudeM: number;
     accOn: boolean;
     gpsFix: boolean;
+    /** CELL = cell-tower estimate; draw `accuracyM` as an uncertainty circle. */
+    positionSource: 'GNSS' | 'CELL';
+    accuracyM: number | null;
     /** Raw alarmBits — clients render badges based on which bits are set. */
     alarmBits: number;
     statusBits: number;
   };
 }
 
+/**
+ * `terminal.offline` = the link dropped (socket closed or heartbeat timed
+ * out); `terminal.logout` = the device deregistered on purpose with 0x0003
+ * (unplugged / reset) and will re-register before reporting again.
+ */
 export interface TerminalStatusEvent {
-  type: 'terminal.online' | 'terminal.offline';
+  type: 'terminal.online' | 'terminal.offline' | 'terminal.logout';
   terminalId: string;
   ownerUserId: string | null;
   /** ISO 8601 UTC. */
@@ -120,6 +129,31 @@ export interface ScanReportEvent {
   at: string;
 }
 
+/**
+ * Bulk command job progress (gps-command-batch.service). A batch spans many
+ * terminals, so `terminalId` / `ownerUserId` are null and only the `admin`
+ * firehose delivers it.
+ */
+export interface CommandBatchEvent {
+  type: 'command.batch.progress';
+  terminalId: null;
+  ownerUserId: null;
+  batchId: string;
+  status: 'RUNNING' | 'COMPLETED' | 'CANCELLED';
+  progress: {
+    total: number;
+    released: number;
+    /** QUEUED, SENT or awaiting a vendor reply. */
+    pending: number;
+    acked: number;
+    failed: number;
+    expired: number;
+    /** Refused at release (terminal gone, kind unsupported by its protocol). */
+    skipped: number;
+  };
+  at: string;
+}
+
 /**
  * Emit a Postgres NOTIFY on the `gps_event` channel.
  *
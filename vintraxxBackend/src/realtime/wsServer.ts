@@ -304,6 +304,8 @@ async function canAccessChannel(client: AuthedClient, channel: string): Promise<
  */
 function shouldDeliver(client: AuthedClient, e: GpsEvent): boolean {
   if (client.isAdmin && client.subscriptions.has('admin')) return true;
+  // Fleet-wide events (command batches) have no terminal; admin-only.
+  if (e.terminalId === null) return false;
   if (e.ownerUserId && e.ownerUserId === client.userId) return true;
   if (client.subscriptions.has(`terminal:${e.terminalId}`)) return true;
   return false;
@@ -24,15 +24,45 @@ import {
   scanReportIdParamsSchema,
   listScanReportsQuerySchema,
   emailScanReportSchema,
+  listDriversQuerySchema,
+  driverIdParamsSchema,
+  driverScoresQuerySchema,
+  startTrackingSchema,
 } from '../schemas/gps.schema';
 import {
   adminTerminalLocationsQuerySchema,
   adminTerminalObdQuerySchema,
+  adminTerminalCanQuerySchema,
+  adminTerminalEvQuerySchema,
+  adminTerminalTiresQuerySchema,
+  adminTerminalJournalQuerySchema,
+  adminTerminalJournalCaptureSchema,
   adminAnalyzeDtcEventSchema,
   adminBulkAckAlarmsSchema,
   adminListAuditLogsQuerySchema,
   auditLogIdParamsSchema,
   adminBulkDeleteSchema,
+  createFirmwareImageSchema,
+  firmwareIdParamsSchema,
+  createFirmwareCampaignSchema,
+  listFirmwareCampaignsQuerySchema,
+  listFirmwareTargetsQuerySchema,
+  createConfigProfileSchema,
+  updateConfigProfileSchema,
+  configProfileIdParamsSchema,
+  listConfigProfileTerminalsQuerySchema,
+  createCommandBatchSchema,
+  listCommandBatchesQuerySchema,
+  commandBatchIdParamsSchema,
+  createCommandScheduleSchema,
+  updateCommandScheduleSchema,
+  listCommandSchedulesQuerySchema,
+  commandScheduleIdParamsSchema,
+  createCommandApprovalSchema,
+  listCommandApprovalsQuerySchema,
+  commandApprovalIdParamsSchema,
+  approveCommandApprovalSchema,
+  rejectCommandApprovalSchema,
 } from '../schemas/gps-admin.schema';
 import {
   createUserBodySchema,
@@ -138,6 +168,7 @@ router.post(
   validateRequest(terminalIdParamsSchema),
   gpsCtrl.adminUnpairTerminal,
 );
+// Other admins file a DELETE_TERMINAL request under /gps/command-approvals.
 router.delete(
   '/gps/terminals/:id',
   requireSuperAdmin,
@@ -162,6 +193,32 @@ router.get(
   validateRequest(adminTerminalObdQuerySchema),
   gpsCtrl.adminListTerminalObd,
 );
+router.get(
+  '/gps/terminals/:id/can',
+  validateRequest(adminTerminalCanQuerySchema),
+  gpsCtrl.adminListTerminalCan,
+);
+router.get(
+  '/gps/terminals/:id/ev',
+  validateRequest(adminTerminalEvQuerySchema),
+  gpsCtrl.adminGetTerminalEv,
+);
+router.get(
+  '/gps/terminals/:id/tires',
+  validateRequest(adminTerminalTiresQuerySchema),
+  gpsCtrl.adminGetTerminalTires,
+);
+// Raw frame journal (enabled per terminal via PATCH journalEnabled).
+router.get(
+  '/gps/terminals/:id/journal',
+  validateRequest(adminTerminalJournalQuerySchema),
+  gpsCtrl.adminListTerminalJournal,
+);
+router.get(
+  '/gps/terminals/:id/journal/capture',
+  validateRequest(adminTerminalJournalCaptureSchema),
+  gpsCtrl.adminDownloadJournalCapture,
+);
 
 // Admin: alarms (Phase 2)
 router.get('/gps/alarms', validateRequest(listAlarmsQuerySchema), gpsCtrl.adminListAlarms);
@@ -175,6 +232,16 @@ router.post(
   validateRequest(ackAlarmBodySchema),
   gpsCtrl.adminAckAlarm,
 );
+router.get(
+  '/gps/alarms/:id/collision',
+  validateRequest(alarmIdParamsSchema),
+  gpsCtrl.adminGetCollisionReport,
+);
+router.get(
+  '/gps/alarms/:id/collision/report',
+  validateRequest(alarmIdParamsSchema),
+  gpsCtrl.adminCollisionReportPdf,
+);
 // Bulk-ack — accepts an array of alarm ids in the body, idempotent per id.
 router.post(
   '/gps/alarms/ack-bulk',
@@ -221,12 +288,38 @@ router.get(
   gpsCtrl.adminListDailyStats,
 );
 
+// Admin: drivers (read-only; owners manage their own roster)
+router.get('/gps/drivers', validateRequest(listDriversQuerySchema), gpsCtrl.adminListDrivers);
+router.get(
+  '/gps/drivers/scores',
+  validateRequest(driverScoresQuerySchema),
+  gpsCtrl.adminDriverScores,
+);
+router.get('/gps/drivers/:id', validateRequest(driverIdParamsSchema), gpsCtrl.adminGetDriver);
+
 // Admin: commands (Phase 4)
+router.get('/gps/parameters', gpsCtrl.adminListParameterDefs);
 router.post(
   '/gps/terminals/:id/commands',
   validateRequest(enqueueCommandBodySchema),
   gpsCtrl.adminEnqueueCommand,
 );
+// Admin: temporary tracking sessions (0x8202)
+router.get(
+  '/gps/terminals/:id/tracking',
+  validateRequest(terminalIdParamsSchema),
+  gpsCtrl.adminGetTracking,
+);
+router.post(
+  '/gps/terminals/:id/tracking',
+  validateRequest(startTrackingSchema),
+  gpsCtrl.adminStartTracking,
+);
+router.delete(
+  '/gps/terminals/:id/tracking',
+  validateRequest(terminalIdParamsSchema),
+  gpsCtrl.adminStopTracking,
+);
 router.get(
   '/gps/commands',
   validateRequest(listCommandsQuerySchema),
@@ -237,6 +330,186 @@ router.get(
   validateRequest(commandIdParamsSchema),
   gpsCtrl.adminGetCommand,
 );
+router.post(
+  '/gps/commands/:id/sms',
+  validateRequest(commandIdParamsSchema),
+  gpsCtrl.adminSendCommandViaSms,
+);
+// Admin: bulk command batches. terminal-control batches are gated to
+// super-admins in the controller, as on the single-terminal endpoint.
+router.get(
+  '/gps/command-batches',
+  validateRequest(listCommandBatchesQuerySchema),
+  gpsCtrl.adminListCommandBatches,
+);
+router.post(
+  '/gps/command-batches',
+  validateRequest(createCommandBatchSchema),
+  gpsCtrl.adminCreateCommandBatch,
+);
+router.get(
+  '/gps/command-batches/:id',
+  validateRequest(commandBatchIdParamsSchema),
+  gpsCtrl.adminGetCommandBatch,
+);
+router.post(
+  '/gps/command-batches/:id/cancel',
+  validateRequest(commandBatchIdParamsSchema),
+  gpsCtrl.adminCancelCommandBatch,
+);
+
+// Admin: one-off and recurring command schedules, run by the backend cron.
+// Same destructive-kind gate as batches.
+router.get(
+  '/gps/command-schedules',
+  validateRequest(listCommandSchedulesQuerySchema),
+  gpsCtrl.adminListCommandSchedules,
+);
+router.post(
+  '/gps/command-schedules',
+  validateRequest(createCommandScheduleSchema),
+  gpsCtrl.adminCreateCommandSchedule,
+);
+router.get(
+  '/gps/command-schedules/:id',
+  validateRequest(commandScheduleIdParamsSchema),
+  gpsCtrl.adminGetCommandSchedule,
+);
+router.patch(
+  '/gps/command-schedules/:id',
+  validateRequest(updateCommandScheduleSchema),
+  gpsCtrl.adminUpdateCommandSchedule,
+);
+router.delete(
+  '/gps/command-schedules/:id',
+  validateRequest(commandScheduleIdParamsSchema),
+  gpsCtrl.adminDeleteCommandSchedule,
+);
+
+// Admin: two-person approval for destructive actions (terminal-control,
+// clear-dtcs, terminal deletion). Any admin files or cancels a request; a
+// different super admin approves or rejects it.
+router.get(
+  '/gps/command-approvals',
+  validateRequest(listCommandApprovalsQuerySchema),
+  gpsCtrl.adminListCommandApprovals,
+);
+router.post(
+  '/gps/command-approvals',
+  validateRequest(createCommandApprovalSchema),
+  gpsCtrl.adminCreateCommandApproval,
+);
+router.get(
+  '/gps/command-approvals/:id',
+  validateRequest(commandApprovalIdParamsSchema),
+  gpsCtrl.adminGetCommandApproval,
+);
+router.post(
+  '/gps/command-approvals/:id/approve',
+  requireSuperAdmin,
+  validateRequest(approveCommandApprovalSchema),
+  gpsCtrl.adminApproveCommandApproval,
+);
+router.post(
+  '/gps/command-approvals/:id/reject',
+  requireSuperAdmin,
+  validateRequest(rejectCommandApprovalSchema),
+  gpsCtrl.adminRejectCommandApproval,
+);
+router.post(
+  '/gps/command-approvals/:id/cancel',
+  validateRequest(commandApprovalIdParamsSchema),
+  gpsCtrl.adminCancelCommandApproval,
+);
+
+// Admin: OTA firmware campaigns. Uploading an image and anything that puts
+// bytes on a terminal's flash is super-admin only; pausing is open to every
+// admin so whoever spots a bad rollout can stop it.
+router.get('/gps/firmware/images', gpsCtrl.adminListFirmwareImages);
+router.post(
+  '/gps/firmware/images',
+  requireSuperAdmin,
+  validateRequest(createFirmwareImageSchema),
+  gpsCtrl.adminCreateFirmwareImage,
+);
+router.delete(
+  '/gps/firmware/images/:id',
+  requireSuperAdmin,
+  validateRequest(firmwareIdParamsSchema),
+  gpsCtrl.adminDeleteFirmwareImage,
+);
+router.get(
+  '/gps/firmware/campaigns',
+  validateRequest(listFirmwareCampaignsQuerySchema),
+  gpsCtrl.adminListFirmwareCampaigns,
+);
+router.post(
+  '/gps/firmware/campaigns',
+  requireSuperAdmin,
+  validateRequest(createFirmwareCampaignSchema),
+  gpsCtrl.adminCreateFirmwareCampaign,
+);
+router.get(
+  '/gps/firmware/campaigns/:id',
+  validateRequest(firmwareIdParamsSchema),
+  gpsCtrl.adminGetFirmwareCampaign,
+);
+router.get(
+  '/gps/firmware/campaigns/:id/targets',
+  validateRequest(listFirmwareTargetsQuerySchema),
+  gpsCtrl.adminListFirmwareTargets,
+);
+router.post(
+  '/gps/firmware/campaigns/:id/start',
+  requireSuperAdmin,
+  validateRequest(firmwareIdParamsSchema),
+  gpsCtrl.adminStartFirmwareCampaign,
+);
+router.post(
+  '/gps/firmware/campaigns/:id/pause',
+  validateRequest(firmwareIdParamsSchema),
+  gpsCtrl.adminPauseFirmwareCampaign,
+);
+router.post(
+  '/gps/firmware/campaigns/:id/cancel',
+  requireSuperAdmin,
+  validateRequest(firmwareIdParamsSchema),
+  gpsCtrl.adminCancelFirmwareCampaign,
+);
+
+// Admin: terminal configuration profiles. Assignment goes through
+// PATCH /gps/terminals/:id (`configProfileId` / `fleetGroup`).
+router.get('/gps/config-profiles', gpsCtrl.adminListConfigProfiles);
+router.post(
+  '/gps/config-profiles',
+  validateRequest(createConfigProfileSchema),
+  gpsCtrl.adminCreateConfigProfile,
+);
+router.get(
+  '/gps/config-profiles/:id',
+  validateRequest(configProfileIdParamsSchema),
+  gpsCtrl.adminGetConfigProfile,
+);
+router.patch(
+  '/gps/config-profiles/:id',
+  validateRequest(updateConfigProfileSchema),
+  gpsCtrl.adminUpdateConfigProfile,
+);
+router.delete(
+  '/gps/config-profiles/:id',
+  validateRequest(configProfileIdParamsSchema),
+  gpsCtrl.adminDeleteConfigProfile,
+);
+router.get(
+  '/gps/config-profiles/:id/terminals',
+  validateRequest(listConfigProfileTerminalsQuerySchema),
+  gpsCtrl.adminListConfigProfileTerminals,
+);
+router.post(
+  '/gps/config-profiles/:id/push',
+  validateRequest(configProfileIdParamsSchema),
+  gpsCtrl.adminPushConfigProfile,
+);
 
 // Admin: GPS Full Scan Reports (Phase 5+)
 router.post(
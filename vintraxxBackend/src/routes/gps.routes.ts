@@ -1,27 +1,37 @@
 /**
  * User-facing GPS routes — mounted at `/api/v1/gps`.
  *
- * Every endpoint here is gated by `authMiddleware` and operates on terminals
- * the requester OWNS. Cross-user access happens exclusively via the
+ * Every endpoint here — except the SMS webhook, which the SMS provider calls
+ * and authenticates itself — is gated by `authMiddleware` and operates on
+ * terminals the requester OWNS. Cross-user access happens exclusively via the
  * `/api/v1/admin/gps/*` namespace which has its own admin auth middleware.
  *
  * Endpoints:
+ *   POST /sms/inbound   (public, provider-signed)
  *   GET  /terminals
  *   GET  /terminals/:id
  *   GET  /terminals/:id/latest
  *   GET  /terminals/:id/locations
+ *   GET  /terminals/:id/ev
+ *   GET  /terminals/:id/tires
+ *   GET|POST|DELETE /terminals/:id/tracking
+ *   GET  /drivers, POST /drivers, GET /drivers/scores
+ *   GET|PATCH|DELETE /drivers/:id
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { authMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validateRequest';
 import * as gpsCtrl from '../controllers/gps.controller';
 import {
   userTerminalIdParamsSchema,
+  userTerminalEvQuerySchema,
+  userTerminalTiresQuerySchema,
   locationHistoryQuerySchema,
   listAlarmsQuerySchema,
   alarmIdParamsSchema,
   ackAlarmBodySchema,
+  emailCollisionReportSchema,
   listDtcEventsQuerySchema,
   dtcEventIdParamsSchema,
   userTerminalTripsParamsSchema,
@@ -31,15 +41,31 @@ import {
   deletePushTokenSchema,
   renameTerminalSchema,
   userLocateTerminalSchema,
+  startTrackingSchema,
   userAnalyzeDtcEventSchema,
   userRequestScanReportSchema,
   scanReportIdParamsSchema,
   listScanReportsQuerySchema,
   emailScanReportSchema,
+  listDriversQuerySchema,
+  driverIdParamsSchema,
+  createDriverSchema,
+  updateDriverSchema,
+  driverScoresQuerySchema,
+  smsInboundSchema,
 } from '../schemas/gps.schema';
 
 const router = Router();
 
+// Terminal SIM replies. Mounted before authMiddleware; providers post
+// form-encoded bodies, which the global JSON parser leaves alone.
+router.post(
+  '/sms/inbound',
+  express.urlencoded({ extended: false, limit: '64kb' }),
+  validateRequest(smsInboundSchema),
+  gpsCtrl.smsInbound,
+);
+
 router.use(authMiddleware);
 
 // Terminals
@@ -59,6 +85,16 @@ router.get(
   validateRequest(locationHistoryQuerySchema),
   gpsCtrl.myLocationHistory,
 );
+router.get(
+  '/terminals/:id/ev',
+  validateRequest(userTerminalEvQuerySchema),
+  gpsCtrl.myTerminalEv,
+);
+router.get(
+  '/terminals/:id/tires',
+  validateRequest(userTerminalTiresQuerySchema),
+  gpsCtrl.myTerminalTires,
+);
 
 // Owner-only mutations on terminals (Phase 5: mobile)
 router.patch(
@@ -71,6 +107,21 @@ router.post(
   validateRequest(userLocateTerminalSchema),
   gpsCtrl.myLocateTerminal,
 );
+router.get(
+  '/terminals/:id/tracking',
+  validateRequest(userTerminalIdParamsSchema),
+  gpsCtrl.myTrackingStatus,
+);
+router.post(
+  '/terminals/:id/tracking',
+  validateRequest(startTrackingSchema),
+  gpsCtrl.myStartTracking,
+);
+router.delete(
+  '/terminals/:id/tracking',
+  validateRequest(userTerminalIdParamsSchema),
+  gpsCtrl.myStopTracking,
+);
 
 // Trips + daily stats (Phase 3)
 router.get(
@@ -89,6 +140,15 @@ router.get(
   gpsCtrl.myTerminalDailyStats,
 );
 
+// Drivers (0x0702 / 0x0252 attribution). `/drivers/scores` must precede
+// `/drivers/:id` so "scores" isn't parsed as an id.
+router.get('/drivers', validateRequest(listDriversQuerySchema), gpsCtrl.myDrivers);
+router.post('/drivers', validateRequest(createDriverSchema), gpsCtrl.myCreateDriver);
+router.get('/drivers/scores', validateRequest(driverScoresQuerySchema), gpsCtrl.myDriverScores);
+router.get('/drivers/:id', validateRequest(driverIdParamsSchema), gpsCtrl.myDriverDetail);
+router.patch('/drivers/:id', validateRequest(updateDriverSchema), gpsCtrl.myUpdateDriver);
+router.delete('/drivers/:id', validateRequest(driverIdParamsSchema), gpsCtrl.myDeleteDriver);
+
 // Alarms (Phase 2)
 router.get('/alarms', validateRequest(listAlarmsQuerySchema), gpsCtrl.myAlarms);
 router.get(
@@ -101,6 +161,22 @@ router.post(
   validateRequest(ackAlarmBodySchema),
   gpsCtrl.myAckAlarm,
 );
+// Collision alarms carrying a 0xF7 accelerometer trace.
+router.get(
+  '/alarms/:id/collision',
+  validateRequest(alarmIdParamsSchema),
+  gpsCtrl.myCollisionReport,
+);
+router.get(
+  '/alarms/:id/collision/report',
+  validateRequest(alarmIdParamsSchema),
+  gpsCtrl.myCollisionReportPdf,
+);
+router.post(
+  '/alarms/:id/collision/email',
+  validateRequest(emailCollisionReportSchema),
+  gpsCtrl.myEmailCollisionReport,
+);
 
 // DTC events (Phase 2)
 router.get('/dtc-events', validateRequest(listDtcEventsQuerySchema), gpsCtrl.myDtcEvents);
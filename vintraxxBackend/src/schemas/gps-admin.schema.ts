@@ -7,9 +7,18 @@
  *   GET    /admin/gps/terminals/:id/latest
  *   GET    /admin/gps/terminals/:id/locations
  *   GET    /admin/gps/terminals/:id/obd
+ *   GET    /admin/gps/terminals/:id/can
+ *   GET    /admin/gps/terminals/:id/ev
+ *   GET    /admin/gps/terminals/:id/journal[/capture]
  *   POST   /admin/gps/dtc-events/:id/analyze
  *   POST   /admin/gps/alarms/ack-bulk
  *   GET    /admin/audit-logs
+ *   *      /admin/gps/firmware/images[/:id]
+ *   *      /admin/gps/firmware/campaigns[/:id[/targets|/start|/pause|/cancel]]
+ *   *      /admin/gps/config-profiles[/:id[/terminals|/push]]
+ *   *      /admin/gps/command-batches[/:id[/cancel]]
+ *   *      /admin/gps/command-schedules[/:id]
+ *   *      /admin/gps/command-approvals[/:id[/approve|/reject|/cancel]]
  *
  * The `?ownerUserId=` filter on `GET /admin/gps/terminals` reuses the
  * existing `listTerminalsQuerySchema` extended in-place — see
@@ -17,6 +26,7 @@
  */
 
 import { z } from 'zod';
+import { enqueueCommandBodySchema, setParamsItemSchema } from './gps.schema';
 
 const isoDate = z.string().datetime({ offset: true });
 
@@ -41,6 +51,66 @@ export const adminTerminalObdQuerySchema = z.object({
   }),
 });
 
+/**
+ * `canId` accepts either hex (`0x18FEF100`) or decimal — the vendor docs and
+ * CAN tooling use hex, but scripted clients tend to send numbers.
+ */
+export const adminTerminalCanQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    canId: z
+      .string()
+      .regex(/^(0x[0-9a-fA-F]{1,8}|\d{1,10})$/, 'canId must be hex (0x…) or decimal')
+      .refine((v) => Number(v) <= 0xffffffff, 'canId must fit in 32 bits')
+      .optional(),
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(5000).default(500).optional(),
+  }),
+});
+
+export const adminTerminalEvQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+    limit: z.coerce.number().int().min(1).max(2000).default(500).optional(),
+  }),
+});
+
+export const adminTerminalTiresQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+    limit: z.coerce.number().int().min(1).max(5000).default(1000).optional(),
+  }),
+});
+
+export const adminTerminalJournalQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    direction: z.enum(['IN', 'OUT']).optional(),
+    msgId: z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{1,4}$/, 'msgId must be hex (0x0200)')
+      .optional(),
+    /** Only inbound frames that failed to decode. */
+    errorsOnly: z.enum(['true', 'false']).optional(),
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100).optional(),
+  }),
+});
+
+export const adminTerminalJournalCaptureSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+  }),
+});
+
 export const adminAnalyzeDtcEventSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
 });
@@ -87,3 +157,266 @@ export const adminBulkDeleteSchema = z.object({
     ids: z.array(z.string().uuid()).min(1).max(1000),
   }),
 });
+
+// ── OTA firmware ────────────────────────────────────────────────────────────
+
+/**
+ * POST /admin/gps/firmware/images — the image travels base64-encoded in the
+ * JSON body (the same upload path the rest of the admin app uses). Size is
+ * checked after decoding in gps-firmware.service.
+ */
+export const createFirmwareImageSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1).max(120),
+    version: z.string().trim().min(1).max(64).regex(/^[\x20-\x7e]+$/, 'version must be printable ASCII'),
+    /** 0x8108 upgrade type: 0 terminal, 12 IC card reader, 52 GNSS module. */
+    upgradeType: z.union([z.literal(0), z.literal(12), z.literal(52)]).default(0),
+    manufacturerId: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9]{1,5}$/, 'manufacturerId must be 1–5 letters or digits'),
+    terminalModel: z.string().trim().max(64).nullish(),
+    dataBase64: z.string().min(1).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'dataBase64 must be base64'),
+  }),
+});
+
+export const firmwareIdParamsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+});
+
+export const createFirmwareCampaignSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1).max(120),
+    imageId: z.string().uuid(),
+    targetModels: z.array(z.string().trim().min(1).max(64)).max(50).default([]),
+    targetFirmwareVersions: z.array(z.string().trim().min(1).max(64)).max(50).default([]),
+    batchSize: z.coerce.number().int().min(1).max(1000).default(10),
+    failureThresholdPct: z.coerce.number().int().min(0).max(100).default(20),
+    minResultsBeforePause: z.coerce.number().int().min(1).max(1000).default(3),
+  }),
+});
+
+const FIRMWARE_CAMPAIGN_STATUSES = ['DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED'] as const;
+const FIRMWARE_TARGET_STATUSES = [
+  'PENDING',
+  'QUEUED',
+  'TRANSFERRING',
+  'AWAITING_RESULT',
+  'SUCCEEDED',
+  'FAILED',
+  'SKIPPED',
+] as const;
+
+export const listFirmwareCampaignsQuerySchema = z.object({
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
+    status: z.enum(FIRMWARE_CAMPAIGN_STATUSES).optional(),
+  }),
+});
+
+export const listFirmwareTargetsQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100).optional(),
+    status: z.enum(FIRMWARE_TARGET_STATUSES).optional(),
+    batchNumber: z.coerce.number().int().min(0).optional(),
+  }),
+});
+
+// ── Configuration profiles ──────────────────────────────────────────────────
+
+const fleetGroupsSchema = z
+  .array(z.string().trim().min(1).max(64))
+  .max(50)
+  .refine((groups) => new Set(groups).size === groups.length, 'fleetGroups must be unique');
+
+/** Params are checked against the parameter registry in the service. */
+export const createConfigProfileSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1).max(120),
+    description: z.string().trim().max(500).nullish(),
+    params: z.array(setParamsItemSchema).min(1).max(255),
+    fleetGroups: fleetGroupsSchema.default([]),
+  }),
+});
+
+export const updateConfigProfileSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z
+    .object({
+      name: z.string().trim().min(1).max(120).optional(),
+      description: z.string().trim().max(500).nullable().optional(),
+      params: z.array(setParamsItemSchema).min(1).max(255).optional(),
+      fleetGroups: fleetGroupsSchema.optional(),
+    })
+    .strict(),
+});
+
+export const configProfileIdParamsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+});
+
+export const listConfigProfileTerminalsQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100).optional(),
+    status: z.enum(['PENDING', 'IN_SYNC', 'DRIFTED']).optional(),
+  }),
+});
+
+// ── Bulk command batches ────────────────────────────────────────────────────
+
+/** Terminal targeting of a batch or schedule; criteria combine with AND. */
+const commandTargetFilter = z
+  .object({
+    terminalIds: z.array(z.string().uuid()).max(5000).optional(),
+    models: z.array(z.string().trim().min(1).max(64)).max(50).optional(),
+    firmwareVersions: z.array(z.string().trim().min(1).max(64)).max(50).optional(),
+    ownerUserId: z.string().uuid().optional(),
+    fleetGroups: z.array(z.string().trim().min(1).max(64)).max(50).optional(),
+  })
+  .strict();
+
+/** The single-terminal command body, sent now over the data channel. */
+const fleetCommandBody = enqueueCommandBodySchema.shape.body
+  .refine((c) => c.channel !== 'SMS', {
+    message: 'Bulk commands go over the data channel only',
+  })
+  .refine((c) => !c.scheduledFor, {
+    message: 'Use a command schedule to run a bulk command later',
+  });
+
+/**
+ * POST /admin/gps/command-batches. The service requires at least one filter
+ * criterion.
+ */
+export const createCommandBatchSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1).max(120).nullish(),
+    filter: commandTargetFilter,
+    command: fleetCommandBody,
+    concurrency: z.coerce.number().int().min(1).max(500).default(20),
+  }),
+});
+
+export const listCommandBatchesQuerySchema = z.object({
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
+    status: z.enum(['RUNNING', 'COMPLETED', 'CANCELLED']).optional(),
+  }),
+});
+
+export const commandBatchIdParamsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+});
+
+// ── Command schedules ───────────────────────────────────────────────────────
+
+/**
+ * POST /admin/gps/command-schedules. `command` is required for COMMAND
+ * schedules and ignored for FULL_SCAN ones. No `intervalMinutes` means a
+ * one-off run at `nextRunAt`.
+ */
+export const createCommandScheduleSchema = z.object({
+  body: z
+    .object({
+      name: z.string().trim().min(1).max(120),
+      action: z.enum(['COMMAND', 'FULL_SCAN']).default('COMMAND'),
+      command: fleetCommandBody.optional(),
+      filter: commandTargetFilter,
+      concurrency: z.coerce.number().int().min(1).max(500).default(20),
+      intervalMinutes: z.coerce.number().int().min(5).max(60 * 24 * 31).nullish(),
+      nextRunAt: isoDate,
+      enabled: z.boolean().default(true),
+    })
+    .refine((b) => b.action !== 'COMMAND' || b.command, {
+      message: '`command` is required for a COMMAND schedule',
+      path: ['command'],
+    }),
+});
+
+/** PATCH /admin/gps/command-schedules/:id — any subset of the create body but `action`. */
+export const updateCommandScheduleSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z
+    .object({
+      name: z.string().trim().min(1).max(120).optional(),
+      command: fleetCommandBody.optional(),
+      filter: commandTargetFilter.optional(),
+      concurrency: z.coerce.number().int().min(1).max(500).optional(),
+      intervalMinutes: z.coerce.number().int().min(5).max(60 * 24 * 31).nullable().optional(),
+      nextRunAt: isoDate.optional(),
+      enabled: z.boolean().optional(),
+    })
+    .strict(),
+});
+
+export const listCommandSchedulesQuerySchema = z.object({
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
+    enabled: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+export const commandScheduleIdParamsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+});
+
+// ── Command approvals ───────────────────────────────────────────────────────
+
+/** A destructive command awaiting approval — sent now, over the data channel. */
+const approvalCommandBody = enqueueCommandBodySchema.shape.body
+  .refine((c) => c.kind === 'terminal-control' || c.kind === 'clear-dtcs', {
+    message: 'Only terminal-control and clear-dtcs commands need approval',
+  })
+  .refine((c) => c.channel !== 'SMS' && !c.scheduledFor, {
+    message: 'Approved commands are sent right away over the data channel',
+  });
+
+const justification = z.string().trim().min(10).max(2000);
+
+/** POST /admin/gps/command-approvals — file a request for a super admin. */
+export const createCommandApprovalSchema = z.object({
+  body: z.discriminatedUnion('action', [
+    z.object({
+      action: z.literal('COMMAND'),
+      terminalId: z.string().uuid(),
+      command: approvalCommandBody,
+      justification,
+    }),
+    z.object({
+      action: z.literal('DELETE_TERMINAL'),
+      terminalId: z.string().uuid(),
+      justification,
+    }),
+  ]),
+});
+
+export const listCommandApprovalsQuerySchema = z.object({
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
+    status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+    terminalId: z.string().uuid().optional(),
+  }),
+});
+
+export const commandApprovalIdParamsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+});
+
+export const approveCommandApprovalSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({ note: z.string().trim().max(2000).optional() }).optional(),
+});
+
+/** A rejection always says why. */
+export const rejectCommandApprovalSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({ note: z.string().trim().min(1).max(2000) }),
+});
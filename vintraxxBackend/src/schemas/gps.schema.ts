@@ -64,6 +64,12 @@ export const provisionTerminalSchema = z.object({
      */
     plateNumber: z.string().max(16).optional(),
     ownerUserId: z.string().uuid().nullable().optional(),
+    /**
+     * Device protocol family. Only decides which command kinds the REST
+     * side accepts before first contact — the gateway records what the
+     * device actually speaks at every login.
+     */
+    protocol: z.enum(['JT808', 'GT06']).optional(),
   }),
 });
 
@@ -112,6 +118,14 @@ export const updateTerminalSchema = z.object({
       nickname: z.string().max(64).nullable().optional(),
       plateNumber: z.string().max(16).nullable().optional(),
       ownerUserId: z.string().uuid().nullable().optional(),
+      /** Refuse plaintext message bodies. Applied at the terminal's next login. */
+      requireEncryption: z.boolean().optional(),
+      /** Capture every frame into the raw frame journal (within ~15 s). */
+      journalEnabled: z.boolean().optional(),
+      /** Fleet group label; picks up the config profile listing it. */
+      fleetGroup: z.string().trim().min(1).max(64).nullable().optional(),
+      /** Config profile assigned directly; wins over the fleet group's. */
+      configProfileId: z.string().uuid().nullable().optional(),
     })
     .strict(),
 });
@@ -120,7 +134,9 @@ export const listTerminalsQuerySchema = z.object({
   query: z.object({
     page: z.coerce.number().int().min(1).default(1).optional(),
     limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
-    filter: z.enum(['online', 'offline', 'unpaired', 'never_connected', 'revoked']).optional(),
+    filter: z
+      .enum(['online', 'offline', 'unpaired', 'never_connected', 'logged_out', 'revoked'])
+      .optional(),
     search: z.string().max(64).optional(),
     /** Admin-only: scope the list to a specific owner. Used by the
      *  UserDetailModal "GPS Devices" section. Validated UUID so a typo
@@ -150,6 +166,26 @@ export const userTerminalIdParamsSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
 });
 
+/** EV battery history window. Defaults to the last 24h server-side. */
+export const userTerminalEvQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    since: isoDateString.optional(),
+    until: isoDateString.optional(),
+    limit: z.coerce.number().int().min(1).max(2000).default(500).optional(),
+  }),
+});
+
+/** Tire-pressure history window. Defaults to the last 24h server-side. */
+export const userTerminalTiresQuerySchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({
+    since: isoDateString.optional(),
+    until: isoDateString.optional(),
+    limit: z.coerce.number().int().min(1).max(5000).default(1000).optional(),
+  }),
+});
+
 // ── Phase 2: alarms + DTC events ─────────────────────────────────────────────
 
 const isoDate = z.string().datetime({ offset: true });
@@ -163,6 +199,7 @@ export const listAlarmsQuerySchema = z.object({
     // use the default of 50.
     limit: z.coerce.number().int().min(1).max(5000).default(50).optional(),
     terminalId: z.string().uuid().optional(),
+    driverId: z.string().uuid().optional(),
     severity: z.enum(['INFO', 'WARNING', 'CRITICAL']).optional(),
     /**
      * Specific alarm type filter (admin console). The set is intentionally
@@ -201,6 +238,18 @@ export const ackAlarmBodySchema = z.object({
   params: z.object({ id: z.string().uuid() }),
 });
 
+export const emailCollisionReportSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z
+    .object({
+      /** Customer or insurer address; defaults to the calling user's account. */
+      email: z.string().email().optional(),
+      /** Free-text cover note placed above the attachment. */
+      note: z.string().max(2000).optional(),
+    })
+    .optional(),
+});
+
 export const listDtcEventsQuerySchema = z.object({
   query: z.object({
     page: z.coerce.number().int().min(1).default(1).optional(),
@@ -224,6 +273,7 @@ export const listTripsQuerySchema = z.object({
     page: z.coerce.number().int().min(1).default(1).optional(),
     limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
     terminalId: z.string().uuid().optional(),
+    driverId: z.string().uuid().optional(),
     status: z.enum(['OPEN', 'CLOSED']).optional(),
     since: isoDate.optional(),
     until: isoDate.optional(),
@@ -257,6 +307,7 @@ export const userTerminalTripsParamsSchema = z.object({
   query: z.object({
     page: z.coerce.number().int().min(1).default(1).optional(),
     limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
+    driverId: z.string().uuid().optional(),
     status: z.enum(['OPEN', 'CLOSED']).optional(),
     since: isoDate.optional(),
     until: isoDate.optional(),
@@ -281,17 +332,16 @@ export const userTerminalStatsParamsSchema = z.object({
 // ── Phase 4: commands ───────────────────────────────────────────────────────
 
 /**
- * Set-params item shape. `id` is a uint32 JT/T 808 parameter id (e.g. 0x0001
- * = heartbeat interval). `value` is either an integer that fits in uint32 or
- * a UTF-8 string ≤ 255 bytes — same constraints the codec enforces.
+ * Set-params item shape. `id` is a JT/T 808 parameter id (e.g. 0x0001 =
+ * heartbeat interval). Only the broad shape is checked here; the service
+ * validates type, range and length against the parameter registry.
  */
-const setParamsItemSchema = z.object({
+export const setParamsItemSchema = z.object({
   id: z.number().int().min(0).max(0xffffffff),
   value: z.union([
     z.number().int().min(0).max(0xffffffff),
     z.string().max(1024), // byte length re-checked in the service
   ]),
-  byteWidth: z.union([z.literal(1), z.literal(2), z.literal(4)]).optional(),
 });
 
 /**
@@ -301,18 +351,30 @@ const setParamsItemSchema = z.object({
  * - `set-params`: `setParams` array required; sends 0x8103
  * - `clear-dtcs`: no params; sends 0x8900/0xF6
  */
+/**
+ * `channel: SMS` texts the command to the terminal's SIM (D450 SMS template)
+ * instead of queueing it for the gateway; only kinds with a template are
+ * accepted. `scheduledFor` holds a data-channel command until that time.
+ */
+const commandOptions = {
+  channel: z.enum(['DATA', 'SMS']).optional(),
+  scheduledFor: isoDate.optional(),
+};
+
 export const enqueueCommandBodySchema = z.object({
   params: z.object({ id: z.string().uuid() }),
   body: z.discriminatedUnion('kind', [
-    z.object({ kind: z.literal('locate') }),
-    z.object({ kind: z.literal('read-params') }),
-    z.object({ kind: z.literal('clear-dtcs') }),
+    z.object({ kind: z.literal('locate'), ...commandOptions }),
+    z.object({ kind: z.literal('read-params'), ...commandOptions }),
+    z.object({ kind: z.literal('clear-dtcs'), ...commandOptions }),
     z.object({
       kind: z.literal('set-params'),
+      ...commandOptions,
       setParams: z.array(setParamsItemSchema).min(1).max(255),
     }),
     z.object({
       kind: z.literal('terminal-control'),
+      ...commandOptions,
       // Allowed: 3 SHUTDOWN, 4 RESET, 5 FACTORY_RESET, 6 CLOSE_LINK, 7 OPEN_LINK.
       // 1 (firmware OTA) and 2 (server move) require structured params we
       // don't expose yet.
@@ -327,6 +389,17 @@ export const enqueueCommandBodySchema = z.object({
   ]),
 });
 
+/** Twilio-shaped inbound SMS webhook (form-encoded). Verified by the provider. */
+export const smsInboundSchema = z.object({
+  body: z
+    .object({
+      From: z.string().min(1).max(32),
+      Body: z.string().max(1600),
+      MessageSid: z.string().max(64).optional(),
+    })
+    .passthrough(),
+});
+
 export const listCommandsQuerySchema = z.object({
   query: z.object({
     page: z.coerce.number().int().min(1).default(1).optional(),
@@ -334,6 +407,7 @@ export const listCommandsQuerySchema = z.object({
     terminalId: z.string().uuid().optional(),
     status: z.enum(['QUEUED', 'SENT', 'ACKED', 'FAILED', 'EXPIRED']).optional(),
     adminId: z.string().uuid().optional(),
+    batchId: z.string().uuid().optional(),
     since: isoDate.optional(),
     until: isoDate.optional(),
   }),
@@ -380,6 +454,19 @@ export const userLocateTerminalSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
 });
 
+/**
+ * Start a temporary tracking session (0x8202) — owner and admin routes
+ * share it. Bounds match the m8202 codec; `durationSec` becomes the
+ * terminal's validity period.
+ */
+export const startTrackingSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    intervalSec: z.coerce.number().int().min(5).max(3600),
+    durationSec: z.coerce.number().int().min(60).max(24 * 3600),
+  }),
+});
+
 /** Owner-only DTC-event → Scan promotion (AI bridge). */
 export const userAnalyzeDtcEventSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
@@ -413,3 +500,57 @@ export const emailScanReportSchema = z.object({
     })
     .optional(),
 });
+
+// ── Drivers (0x0702 / 0x0252 attribution) ───────────────────────────────────
+
+/** Card / license strings are short on the wire (qualification code is 20). */
+const driverFields = {
+  name: z.string().trim().min(1).max(100),
+  qualificationCode: z.string().trim().min(1).max(20).nullable().optional(),
+  licenseNumber: z.string().trim().min(1).max(40).nullable().optional(),
+  licenseType: z.string().trim().max(20).nullable().optional(),
+  idCardNumber: z.string().trim().max(40).nullable().optional(),
+  issuingAuthority: z.string().trim().max(200).nullable().optional(),
+  /** `YYYY-MM-DD`. */
+  certificateExpiresAt: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'certificateExpiresAt must be YYYY-MM-DD')
+    .nullable()
+    .optional(),
+  phone: z.string().trim().max(40).nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+};
+
+export const listDriversQuerySchema = z.object({
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50).optional(),
+    search: z.string().min(1).max(200).optional(),
+    /** Admin-only; user-scoped routes ignore it. */
+    ownerUserId: z.string().uuid().optional(),
+  }),
+});
+
+export const driverIdParamsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+});
+
+export const createDriverSchema = z.object({
+  body: z.object(driverFields),
+});
+
+export const updateDriverSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z
+    .object({ ...driverFields, name: driverFields.name.optional() })
+    .refine((b) => Object.keys(b).length > 0, 'At least one field must be provided'),
+});
+
+/** Per-driver score window. Defaults to the last 30 days server-side. */
+export const driverScoresQuerySchema = z.object({
+  query: z.object({
+    driverId: z.string().uuid().optional(),
+    since: isoDate.optional(),
+    until: isoDate.optional(),
+  }),
+});
@@ -3,6 +3,7 @@ import { FullReportData } from '../types';
 import { formatCurrency } from '../utils/helpers';
 import { getEmailLogoHeaderHtml } from '../utils/logos';
 import logger from '../utils/logger';
+import { escapeHtml } from '../utils/escape-html';
 import { EmailServiceUnavailableError } from '../utils/errors';
 // MEDIUM #21: transporter and verify-cache are now owned by ../services/mailer
 // so we no longer create one per consumer module. Both helpers below come
@@ -212,6 +213,76 @@ export async function sendGpsScanReportEmail(args: {
   }
 }
 
+export async function sendCollisionReportEmail(args: {
+  toEmail: string;
+  pdfPath: string;
+  vehicleLabel: string;
+  vin: string | null;
+  occurredAt: Date;
+  peakG: number;
+  impactDirection: string | null;
+  note?: string | null;
+}): Promise<void> {
+  const { toEmail, pdfPath, vehicleLabel, vin, occurredAt, peakG, impactDirection, note } = args;
+  const subject = `VinTraxx Collision Report — ${vehicleLabel}`;
+  const direction = impactDirection
+    ? impactDirection.toLowerCase().replace('_', '-')
+    : null;
+  const htmlBody = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, Helvetica, sans-serif; color: #0F172A; line-height: 1.6;">
+    ${getEmailLogoHeaderHtml('Collision Report', vehicleLabel)}
+    <div style="max-width: 640px; margin: 0 auto; padding: 24px;">
+      <h1 style="color:#1B3A5F; margin-bottom: 8px;">Collision Report</h1>
+      <p style="color:#475569; margin-top: 0;">${vehicleLabel}${vin ? ` &middot; VIN ${vin}` : ''}</p>
+      <p style="color:#475569;">Recorded ${occurredAt.toLocaleString()}.</p>
+
+      <div style="margin: 24px 0; padding: 16px 20px; background:#F1F5F9; border-left: 4px solid #DC2626; border-radius: 6px;">
+        <strong>Peak force ${peakG.toFixed(2)} g${direction ? `, ${direction} impact` : ''}.</strong><br/>
+        <span style="color:#475569;">Measured by the vehicle's telematics device.</span>
+      </div>
+${note ? `
+      <p style="white-space: pre-line;">${escapeHtml(note)}</p>
+` : ''}
+      <p>The attached PDF shows the vehicle's position, its speed in the minute before the impact and the accelerometer trace.</p>
+
+      <p style="color:#94A3B8; font-size: 12px; margin-top: 32px;">
+        VinTraxx SmartScan &middot; ${new Date().getFullYear()}
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  try {
+    await ensureTransporterVerified();
+    const info = await transporter.sendMail({
+      from: `"${env.EMAIL_FROM_NAME}" <${env.EMAIL_FROM}>`,
+      to: toEmail,
+      subject,
+      html: htmlBody,
+      attachments: [
+        {
+          filename: `VinTraxx-Collision-${vin ?? 'report'}.pdf`,
+          path: pdfPath,
+        },
+      ],
+    });
+    logger.info('Collision report email sent', {
+      to: toEmail,
+      vin,
+      messageId: info.messageId,
+      accepted: info.accepted,
+      rejected: info.rejected,
+    });
+  } catch (error) {
+    logger.error('Failed to send collision report email', {
+      to: toEmail,
+      error: (error as Error).message,
+    });
+    rethrowAsEmailServiceError(error);
+  }
+}
+
 export async function sendPasswordResetEmail(toEmail: string, resetLink: string): Promise<void> {
   const htmlBody = `
 <!DOCTYPE html>
@@ -11,6 +11,10 @@
  *   • OBD snapshot listing per terminal (admin only — there is no user-
  *     facing variant yet because the dealer Live tab reads telemetry from
  *     the WS stream).
+ *   • Raw CAN frame browsing per terminal (0x020A captures — diagnostic
+ *     data with no dealer-facing meaning).
+ *   • Raw frame journal browsing and capture-file export per terminal
+ *     (GpsFrameJournalEntry, written by the gateway's frame-journal).
  *   • Bulk alarm acknowledgement (loops the existing acknowledgeAlarm
  *     under one transaction so partial failure rolls back).
  *   • Audit-log read for the Settings → Audit Log tab.
@@ -23,6 +27,12 @@ import prisma from '../config/db';
 import type { Prisma } from '@prisma/client';
 import { AppError } from '../middleware/errorHandler';
 import { acknowledgeAlarm } from './gps-alarm.service';
+import {
+  CAPTURE_FORMAT,
+  CAPTURE_VERSION,
+  formatCapture,
+  formatMsgId,
+} from '../gateway/replay/capture';
 
 // ── Latest / locations / OBD (admin scope, no ownership check) ──────────────
 
@@ -148,6 +158,8 @@ export async function adminGetLocationHistory(opts: AdminLocationHistoryOptions)
         heading: true,
         accOn: true,
         gpsFix: true,
+        positionSource: true,
+        accuracyM: true,
         satelliteCount: true,
         signalStrength: true,
         odometerKm: true,
@@ -223,6 +235,180 @@ export async function adminGetObdHistory(opts: AdminObdHistoryOptions) {
   };
 }
 
+interface AdminCanFramesOptions {
+  terminalId: string;
+  canId?: number;
+  since?: Date;
+  until?: Date;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Paginated raw CAN frames for any terminal, newest-first, optionally
+ * narrowed to one CAN ID. Default window is 1h — CAN captures are far
+ * denser than location rows, so a 24h default would page through tens of
+ * thousands of frames for no reason.
+ *
+ * `canId` and `data` are returned as hex strings: BigInt and Buffer don't
+ * survive JSON in a shape the admin UI can use.
+ */
+export async function adminGetCanFrames(opts: AdminCanFramesOptions) {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: opts.terminalId },
+    select: { id: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  const since = opts.since ?? new Date(Date.now() - 60 * 60 * 1000);
+  const until = opts.until ?? new Date();
+  if (since >= until) {
+    throw new AppError('`since` must be earlier than `until`', 400);
+  }
+
+  const where: Prisma.GpsCanFrameWhereInput = {
+    terminalId: opts.terminalId,
+    reportedAt: { gte: since, lte: until },
+    ...(opts.canId !== undefined ? { canId: BigInt(opts.canId) } : {}),
+  };
+
+  const [total, rows] = await Promise.all([
+    prisma.gpsCanFrame.count({ where }),
+    prisma.gpsCanFrame.findMany({
+      where,
+      orderBy: { reportedAt: 'desc' },
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+    }),
+  ]);
+
+  return {
+    frames: rows.map((r) => ({
+      id: r.id,
+      reportedAt: r.reportedAt,
+      serverReceivedAt: r.serverReceivedAt,
+      canId: `0x${r.canId.toString(16).toUpperCase().padStart(8, '0')}`,
+      data: Buffer.from(r.data).toString('hex').toUpperCase(),
+    })),
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+    since: since.toISOString(),
+    until: until.toISOString(),
+  };
+}
+
+// ── Raw frame journal ───────────────────────────────────────────────────────
+
+interface AdminJournalOptions {
+  terminalId: string;
+  direction?: 'IN' | 'OUT';
+  msgId?: number;
+  errorsOnly?: boolean;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Paginated frame-journal entries for one terminal, newest-first. The
+ * journal is bounded per terminal (GPS_JOURNAL_MAX_FRAMES), so there is no
+ * time window — filters narrow it instead.
+ */
+export async function adminGetJournal(opts: AdminJournalOptions) {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: opts.terminalId },
+    select: { id: true, journalEnabled: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  const where: Prisma.GpsFrameJournalEntryWhereInput = {
+    terminalId: opts.terminalId,
+    ...(opts.direction ? { direction: opts.direction } : {}),
+    ...(opts.msgId !== undefined ? { msgId: opts.msgId } : {}),
+    ...(opts.errorsOnly ? { decodeError: { not: null } } : {}),
+  };
+
+  const [total, rows] = await Promise.all([
+    prisma.gpsFrameJournalEntry.count({ where }),
+    prisma.gpsFrameJournalEntry.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+    }),
+  ]);
+
+  return {
+    journalEnabled: terminal.journalEnabled,
+    entries: rows.map((r) => ({
+      id: r.id.toString(),
+      sessionId: r.sessionId,
+      direction: r.direction,
+      capturedAt: r.capturedAt,
+      msgId: r.msgId !== null ? formatMsgId(r.msgId) : null,
+      msgSerial: r.msgSerial,
+      frame: Buffer.from(r.frame).toString('hex').toUpperCase(),
+      decodeError: r.decodeError,
+    })),
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+/**
+ * The journal (optionally windowed) as a capture file in wire order —
+ * the input format of scripts/replay-frame-journal.ts.
+ */
+export async function adminExportJournalCapture(opts: {
+  terminalId: string;
+  since?: Date;
+  until?: Date;
+}) {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: opts.terminalId },
+    select: { id: true, deviceIdentifier: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+  if (opts.since && opts.until && opts.since >= opts.until) {
+    throw new AppError('`since` must be earlier than `until`', 400);
+  }
+
+  const rows = await prisma.gpsFrameJournalEntry.findMany({
+    where: {
+      terminalId: opts.terminalId,
+      capturedAt: { gte: opts.since, lte: opts.until },
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  const exportedAt = new Date();
+  const body = formatCapture({
+    header: {
+      format: CAPTURE_FORMAT,
+      version: CAPTURE_VERSION,
+      terminalId: terminal.id,
+      deviceIdentifier: terminal.deviceIdentifier,
+      exportedAt: exportedAt.toISOString(),
+      frames: rows.length,
+    },
+    frames: rows.map((r) => ({
+      at: r.capturedAt.toISOString(),
+      session: r.sessionId,
+      dir: r.direction,
+      msgId: r.msgId !== null ? formatMsgId(r.msgId) : null,
+      serial: r.msgSerial,
+      hex: Buffer.from(r.frame).toString('hex'),
+      error: r.decodeError,
+    })),
+  });
+
+  const stamp = exportedAt.toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return { filename: `journal-${terminal.deviceIdentifier}-${stamp}.jsonl`, body };
+}
+
 // ── Bulk alarm acknowledge ──────────────────────────────────────────────────
 
 interface BulkAckInput {
@@ -51,6 +51,8 @@ interface ListOptions {
   limit: number;
   /** Restrict to a single terminal id. */
   terminalId?: string;
+  /** Restrict to alarms raised while this driver was identified. */
+  driverId?: string;
   severity?: GpsAlarmSeverity;
   /**
    * Restrict to a single alarm type. Admin-only; user-scoped routes pass
@@ -90,6 +92,7 @@ export async function listAlarms(opts: ListOptions) {
   if (!opts.admin) where.ownerUserId = opts.userId;
   if (opts.admin && opts.ownerUserId) where.ownerUserId = opts.ownerUserId;
   if (opts.terminalId) where.terminalId = opts.terminalId;
+  if (opts.driverId) where.driverId = opts.driverId;
   if (opts.severity) where.severity = opts.severity;
   // The Prisma column is `type`; the public API renames it to `alarmType`
   // on output via `serializeAlarm`. Filter inputs use `alarmType` for
@@ -142,11 +145,13 @@ export async function listAlarms(opts: ListOptions) {
         },
         acknowledgedByAdmin: { select: { id: true, email: true } },
         acknowledgedByUser: { select: { id: true, email: true, fullName: true } },
+        driver: { select: { id: true, name: true } },
       }
     : {
         terminal: {
           select: { id: true, deviceIdentifier: true, imei: true, nickname: true, vehicleVin: true },
         },
+        driver: { select: { id: true, name: true } },
       };
 
   const [total, alarms] = await Promise.all([
@@ -0,0 +1,234 @@
+/**
+ * gps-cell-locator.service — cell-tower (LBS) fallback positioning.
+ *
+ * When a 0x0200 arrives without a GNSS fix (underground garage, service
+ * bay) the D450 can append the 0xFB base-station flow: MCC/MNC plus up to
+ * nine cells (LAC, cell ID, signal). This service looks those cells up in
+ * GpsCellTower and turns them into an approximate position:
+ *
+ *   • one known cell  → the tower's position, accuracy = its range
+ *   • several cells   → signal-weighted centroid; accuracy = the larger of
+ *                       the smallest tower range and the furthest tower
+ *                       from the centroid
+ *
+ * Either way the radius is clamped to [MIN_ACCURACY_M, MAX_ACCURACY_M] —
+ * OpenCellID ranges run from a few metres (bad data) to tens of km.
+ *
+ * The tower table is loaded offline from an OpenCellID-style CSV with
+ * `importCellTowersCsv` (wrapped by scripts/import-cell-towers.ts). No
+ * external API is called at ingest time.
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+import { randomUUID } from 'crypto';
+import prisma from '../config/db';
+import { Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import { haversineKm } from './gps-trip.service';
+import type { DecodedBaseStations } from '../gateway/codec/messages/m0200-location';
+
+/** Used when a tower row has no range. Typical urban macro cell. */
+const DEFAULT_RANGE_M = 1000;
+const MIN_ACCURACY_M = 100;
+const MAX_ACCURACY_M = 20_000;
+
+/** Weight for a cell that reported no signal value (mid-scale CSQ). */
+const DEFAULT_SIGNAL = 15;
+
+const IMPORT_BATCH_SIZE = 1000;
+
+export interface CellEstimate {
+  latitude: number;
+  longitude: number;
+  accuracyM: number;
+  /** How many of the reported cells were found in GpsCellTower. */
+  towersUsed: number;
+}
+
+function clampAccuracy(m: number): number {
+  return Math.round(Math.min(MAX_ACCURACY_M, Math.max(MIN_ACCURACY_M, m)));
+}
+
+/** Null when none of the reported cells is in the tower table. */
+export async function estimateCellPosition(
+  stations: DecodedBaseStations,
+): Promise<CellEstimate | null> {
+  if (stations.cells.length === 0) return null;
+
+  const towers = await prisma.gpsCellTower.findMany({
+    where: {
+      mcc: stations.mcc,
+      mnc: stations.mnc,
+      OR: stations.cells.map((c) => ({ lac: c.lac, cellId: c.cellId })),
+    },
+  });
+  if (towers.length === 0) return null;
+
+  const signalOf = new Map(
+    stations.cells.map((c) => [`${c.lac}:${c.cellId}`, c.signal ?? DEFAULT_SIGNAL]),
+  );
+  const points = towers.map((t) => ({
+    latitude: Number(t.latitude),
+    longitude: Number(t.longitude),
+    rangeM: t.rangeM && t.rangeM > 0 ? t.rangeM : DEFAULT_RANGE_M,
+    // CSQ is already roughly logarithmic, so a linear weight pulls the
+    // estimate toward the strongest cell without one tower swamping it.
+    weight: Math.max(1, signalOf.get(`${t.lac}:${t.cellId}`) ?? DEFAULT_SIGNAL),
+  }));
+
+  if (points.length === 1) {
+    const [p] = points;
+    return {
+      latitude: p.latitude,
+      longitude: p.longitude,
+      accuracyM: clampAccuracy(p.rangeM),
+      towersUsed: 1,
+    };
+  }
+
+  const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+  const latitude = points.reduce((sum, p) => sum + p.latitude * p.weight, 0) / totalWeight;
+  const longitude = points.reduce((sum, p) => sum + p.longitude * p.weight, 0) / totalWeight;
+  const spreadM = Math.max(
+    ...points.map((p) => haversineKm(latitude, longitude, p.latitude, p.longitude) * 1000),
+  );
+  const minRangeM = Math.min(...points.map((p) => p.rangeM));
+
+  return {
+    latitude,
+    longitude,
+    accuracyM: clampAccuracy(Math.max(minRangeM, spreadM)),
+    towersUsed: points.length,
+  };
+}
+
+// ── Tower import ────────────────────────────────────────────────────────────
+
+interface TowerRow {
+  radio: string | null;
+  mcc: number;
+  mnc: number;
+  lac: number;
+  cellId: number;
+  latitude: number;
+  longitude: number;
+  rangeM: number | null;
+  samples: number | null;
+}
+
+/** OpenCellID / MLS export column order, used when the file has no header. */
+const DEFAULT_COLUMNS = [
+  'radio', 'mcc', 'net', 'area', 'cell', 'unit', 'lon', 'lat', 'range', 'samples',
+  'changeable', 'created', 'updated', 'averageSignal',
+];
+
+function parseTowerLine(fields: string[], col: Map<string, number>): TowerRow | null {
+  const num = (name: string) => {
+    const idx = col.get(name);
+    return idx === undefined || fields[idx] === '' ? NaN : Number(fields[idx]);
+  };
+  const mcc = num('mcc');
+  const mnc = num('net');
+  const lac = num('area');
+  const cellId = num('cell');
+  const latitude = num('lat');
+  const longitude = num('lon');
+  if (![mcc, mnc, lac, cellId, latitude, longitude].every(Number.isFinite)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  // Cell IDs past int32 (some LTE ECIs in MLS dumps) can't be reported in
+  // the 0xFB flow anyway.
+  if (cellId > 0x7fffffff || lac > 0x7fffffff) return null;
+  const range = num('range');
+  const samples = num('samples');
+  const radioIdx = col.get('radio');
+  return {
+    radio: radioIdx !== undefined && fields[radioIdx] ? fields[radioIdx] : null,
+    mcc,
+    mnc,
+    lac,
+    cellId,
+    latitude,
+    longitude,
+    rangeM: Number.isFinite(range) ? Math.round(range) : null,
+    samples: Number.isFinite(samples) ? Math.round(samples) : null,
+  };
+}
+
+async function upsertTowers(rows: TowerRow[]): Promise<void> {
+  // ON CONFLICT can't touch the same key twice in one statement.
+  const unique = new Map<string, TowerRow>();
+  for (const r of rows) unique.set(`${r.mcc}:${r.mnc}:${r.lac}:${r.cellId}`, r);
+
+  const values = [...unique.values()].map(
+    (r) => Prisma.sql`(${randomUUID()}, ${r.radio}, ${r.mcc}, ${r.mnc}, ${r.lac}, ${r.cellId},
+      ${r.latitude.toFixed(7)}::numeric, ${r.longitude.toFixed(7)}::numeric,
+      ${r.rangeM}, ${r.samples}, NOW())`,
+  );
+  await prisma.$executeRaw`
+    INSERT INTO "GpsCellTower"
+      ("id", "radio", "mcc", "mnc", "lac", "cellId", "latitude", "longitude", "rangeM", "samples", "updatedAt")
+    VALUES ${Prisma.join(values)}
+    ON CONFLICT ("mcc", "mnc", "lac", "cellId") DO UPDATE SET
+      "radio"     = EXCLUDED."radio",
+      "latitude"  = EXCLUDED."latitude",
+      "longitude" = EXCLUDED."longitude",
+      "rangeM"    = EXCLUDED."rangeM",
+      "samples"   = EXCLUDED."samples",
+      "updatedAt" = EXCLUDED."updatedAt"`;
+}
+
+/**
+ * Stream an OpenCellID-style CSV into GpsCellTower, upserting on
+ * (mcc, mnc, lac, cellId). A header row is honoured if present; otherwise
+ * the standard OpenCellID column order is assumed. `mcc` limits the import
+ * to the given country codes — the world file is ~40M rows and a dealer
+ * network only needs its own region.
+ */
+export async function importCellTowersCsv(
+  filePath: string,
+  opts: { mcc?: number[] } = {},
+): Promise<{ imported: number; skipped: number }> {
+  const mccFilter = opts.mcc && opts.mcc.length > 0 ? new Set(opts.mcc) : null;
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+
+  let columns: Map<string, number> | null = null;
+  let batch: TowerRow[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const fields = line.split(',').map((f) => f.trim());
+    if (!columns) {
+      const isHeader = fields.some((f) => f.toLowerCase() === 'mcc');
+      const names = isHeader ? fields : DEFAULT_COLUMNS;
+      columns = new Map(names.map((name, i) => [name.toLowerCase(), i]));
+      if (isHeader) continue;
+    }
+    const row = parseTowerLine(fields, columns);
+    if (!row || (mccFilter && !mccFilter.has(row.mcc))) {
+      skipped++;
+      continue;
+    }
+    batch.push(row);
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      await upsertTowers(batch);
+      imported += batch.length;
+      batch = [];
+      if (imported % (IMPORT_BATCH_SIZE * 100) === 0) {
+        logger.info('Cell tower import progress', { imported, skipped });
+      }
+    }
+  }
+  if (batch.length > 0) {
+    await upsertTowers(batch);
+    imported += batch.length;
+  }
+
+  logger.info('Cell tower import finished', { filePath, imported, skipped });
+  return { imported, skipped };
+}
@@ -0,0 +1,452 @@
+/**
+ * Render a GpsCollisionTrace as a crash-report PDF.
+ *
+ * Audience is the vehicle owner, the dealer and — forwarded by email — an
+ * insurer, so everything is drawn from stored data with no map tiles or AI
+ * text: the position is a breadcrumb plot of the GpsLocation fixes around
+ * the impact with a Google Maps link, and both charts are vector lines.
+ *
+ * Layout and drawing helpers follow `gps-scan-report-pdf.service.ts`.
+ */
+
+import PDFDocument from 'pdfkit';
+import path from 'path';
+import fs from 'fs';
+import { APP_CONSTANTS } from '../config/constants';
+import logger from '../utils/logger';
+import type { GpsTerminal } from '@prisma/client';
+import {
+  parseStoredSamples,
+  toDynamicTrace,
+  type CollisionReport,
+} from './gps-collision.service';
+
+const COLORS = {
+  navy: '#1B3A5F',
+  navyLight: '#2D5278',
+  red: '#DC2626',
+  amber: '#D97706',
+  green: '#16A34A',
+  slate: '#475569',
+  slateLight: '#94A3B8',
+  border: '#E2E8F0',
+  bg: '#F1F5F9',
+  bgLight: '#F8FAFC',
+} as const;
+
+/** Height of the section title bar drawn by drawSection. */
+const TITLE_BAR_H = 30;
+
+const LEVEL_LABELS = ['Minor', 'Moderate', 'Severe'];
+
+interface RenderInput {
+  report: CollisionReport;
+  ownerEmail?: string | null;
+}
+
+export async function generateCollisionReportPdf(input: RenderInput): Promise<string> {
+  const reportsDir = path.resolve(APP_CONSTANTS.PDF_DIR);
+  if (!fs.existsSync(reportsDir)) {
+    fs.mkdirSync(reportsDir, { recursive: true });
+  }
+  const fileName = `gps-collision-${input.report.trace.id}.pdf`;
+  const filePath = path.join(reportsDir, fileName);
+
+  return new Promise<string>((resolve, reject) => {
+    try {
+      logger.info('Generating collision report PDF', {
+        alarmId: input.report.alarm.id,
+        traceId: input.report.trace.id,
+        filePath,
+      });
+
+      const doc = new PDFDocument({
+        size: 'letter',
+        margins: { top: 48, bottom: 48, left: 54, right: 54 },
+        info: {
+          Title: `VinTraxx Collision Report ${input.report.trace.id.slice(0, 8)}`,
+          Author: 'VinTraxx SmartScan',
+        },
+      });
+      const stream = fs.createWriteStream(filePath);
+      doc.pipe(stream);
+
+      drawHeader(doc, input);
+      drawVehicleBlock(doc, input);
+      drawImpactBlock(doc, input);
+      drawPositionBlock(doc, input);
+      drawSpeedBlock(doc, input);
+      drawGForceBlock(doc, input);
+      drawFooter(doc, input);
+
+      doc.end();
+      stream.on('finish', () => resolve(filePath));
+      stream.on('error', reject);
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const x = 54;
+  const w = doc.page.width - 108;
+  const boxH = 70;
+  doc.save();
+  doc.rect(x, 48, w, boxH).fill(COLORS.navy);
+  doc.fill('#FFFFFF').fontSize(22).font('Helvetica-Bold').text('VinTraxx', x + 16, 60);
+  doc.fontSize(11).font('Helvetica').text('Collision Report', x + 16, 84);
+  doc.fontSize(9).fill('#CBD5E1').text(
+    input.report.trace.occurredAt.toLocaleString(),
+    x + 16,
+    100,
+  );
+  doc.restore();
+  doc.y = 48 + boxH + 14;
+}
+
+function drawVehicleBlock(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const { terminal } = input.report;
+  const x = 54;
+  const w = doc.page.width - 108;
+  const y = doc.y;
+  const blockH = 96;
+
+  doc.save();
+  doc.rect(x, y, w, blockH).lineWidth(1).strokeColor(COLORS.border).stroke();
+
+  doc.fontSize(10).font('Helvetica-Bold').fill(COLORS.slate).text('VEHICLE', x + 16, y + 12);
+
+  const vehicleLabel = collisionVehicleLabel(terminal);
+
+  doc.fontSize(16).font('Helvetica-Bold').fill(COLORS.navy).text(vehicleLabel, x + 16, y + 30);
+  doc.fontSize(10).font('Helvetica').fill(COLORS.slate);
+  doc.text(`VIN: ${terminal.vehicleVin ?? '—'}`, x + 16, y + 54);
+  doc.text(`Alarm: ${input.report.alarm.id}`, x + 16, y + 72);
+  doc.text(`Plate: ${terminal.plateNumber ?? '—'}`, x + w / 2, y + 54);
+  doc.text(`Device: ${terminal.deviceIdentifier}`, x + w / 2, y + 72);
+  doc.restore();
+  doc.y = y + blockH + 10;
+}
+
+function drawImpactBlock(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const { trace } = input.report;
+  const severe = trace.level >= 2;
+  const rows: Array<[string, string]> = [
+    ['Time', trace.occurredAt.toLocaleString()],
+    ['Severity (device)', LEVEL_LABELS[trace.level] ?? `Level ${trace.level}`],
+    ['Peak force', `${Number(trace.peakG).toFixed(2)} g`],
+    [
+      'Impact direction',
+      trace.impactDirection
+        ? `${formatDirection(trace.impactDirection)} (${trace.impactAngleDeg}°)`
+        : '—',
+    ],
+    ['Speed at impact', formatMph(trace.impactSpeedKmh)],
+    ['Samples', `${trace.sampleCount} @ ${trace.sampleIntervalMs} ms`],
+  ];
+
+  const rowH = 22;
+  const contentH = 10 + Math.ceil(rows.length / 2) * rowH + 10;
+
+  drawSection(doc, 'IMPACT', (cx, cy, cw) => {
+    let yy = cy + 10;
+    const halfW = Math.floor(cw / 2);
+    const labelW = 110;
+    doc.save();
+    doc.rect(cx, cy, 4, contentH).fill(severe ? COLORS.red : COLORS.amber);
+    doc.restore();
+    for (let i = 0; i < rows.length; i += 2) {
+      for (let col = 0; col < 2 && rows[i + col]; col++) {
+        const lx = col === 0 ? cx + 16 : cx + halfW + 8;
+        doc.fontSize(9).font('Helvetica').fill(COLORS.slate);
+        doc.text(rows[i + col][0], lx, yy, { width: labelW - 8, lineBreak: false });
+        doc.font('Helvetica-Bold').fill('#0F172A');
+        doc.text(rows[i + col][1], lx + labelW, yy, {
+          width: halfW - labelW - 16,
+          lineBreak: false,
+        });
+      }
+      yy += rowH;
+    }
+  }, contentH);
+}
+
+/**
+ * Breadcrumb of the approach with the impact marked. Coordinates are
+ * projected equirectangularly (longitude scaled by cos(lat)) — fine over the
+ * few hundred metres a minute of driving covers.
+ */
+function drawPositionBlock(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const { trace, approach } = input.report;
+  const lat = Number(trace.latitude);
+  const lon = Number(trace.longitude);
+  const mapsUrl = `https://www.google.com/maps/search/?api=1&query=${lat.toFixed(6)},${lon.toFixed(6)}`;
+  const plotH = 170;
+  const contentH = plotH + 44;
+
+  drawSection(doc, 'POSITION', (cx, cy, cw) => {
+    const px = cx + 16;
+    const py = cy + 12;
+    const pw = cw - 32;
+
+    doc.save();
+    doc.rect(px, py, pw, plotH).fill(COLORS.bgLight);
+    doc.restore();
+
+    const points = approach.filter((p) => p.latitude !== 0 || p.longitude !== 0);
+    const all = [...points.map((p) => [p.latitude, p.longitude]), [lat, lon]];
+    const kx = Math.cos((lat * Math.PI) / 180);
+    const xs = all.map(([, lo]) => lo * kx);
+    const ys = all.map(([la]) => la);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+    // 0.0005° ≈ 50 m: never zoom in further, so a stationary vehicle isn't a smear.
+    const span = Math.max(maxX - minX, maxY - minY, 0.0005);
+    const pad = 14;
+    const scale = Math.min(pw - 2 * pad, plotH - 2 * pad) / span;
+    const offX = px + (pw - (maxX - minX) * scale) / 2;
+    const offY = py + (plotH - (maxY - minY) * scale) / 2;
+    const project = (la: number, lo: number): [number, number] => [
+      offX + (lo * kx - minX) * scale,
+      offY + (maxY - la) * scale,
+    ];
+
+    doc.save();
+    if (points.length > 1) {
+      const [sx, sy] = project(points[0].latitude, points[0].longitude);
+      doc.moveTo(sx, sy);
+      for (const p of points.slice(1)) doc.lineTo(...project(p.latitude, p.longitude));
+      doc.lineWidth(2).strokeColor(COLORS.navyLight).stroke();
+    }
+    for (const p of points) {
+      const [x, y] = project(p.latitude, p.longitude);
+      doc.circle(x, y, 2).fill(p.reportedAt <= trace.occurredAt ? COLORS.navy : COLORS.slateLight);
+    }
+    const [ix, iy] = project(lat, lon);
+    doc.circle(ix, iy, 7).lineWidth(2).strokeColor(COLORS.red).stroke();
+    doc.circle(ix, iy, 3).fill(COLORS.red);
+    doc.restore();
+
+    if (points.length === 0) {
+      doc.fontSize(9).font('Helvetica').fill(COLORS.slate).text(
+        'No location fixes were recorded around the impact; only the device-reported position is shown.',
+        px + 8,
+        py + plotH - 18,
+        { width: pw - 16 },
+      );
+    }
+
+    const ty = py + plotH + 10;
+    doc.fontSize(9).font('Helvetica').fill(COLORS.slate)
+      .text(`Impact at ${lat.toFixed(6)}, ${lon.toFixed(6)}  •  `, px, ty, { continued: true })
+      .fill(COLORS.navyLight)
+      .text('Open in Google Maps', { link: mapsUrl, underline: true });
+  }, contentH);
+}
+
+/** GpsLocation speed from one minute before the impact to just after it. */
+function drawSpeedBlock(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const { trace, approach } = input.report;
+  const at = trace.occurredAt.getTime();
+  const series = approach
+    .filter((p) => p.speedKmh !== null)
+    .map((p) => ({ t: (p.reportedAt.getTime() - at) / 1000, v: p.speedKmh! * 0.621371 }));
+
+  const plotH = 120;
+  drawSection(doc, 'SPEED BEFORE IMPACT', (cx, cy, cw) => {
+    if (series.length === 0) {
+      doc.fontSize(9).font('Helvetica').fill(COLORS.slate).text(
+        'No speed data was recorded in the minute before the impact.',
+        cx + 16,
+        cy + 14,
+      );
+      return;
+    }
+    const tMin = Math.min(-60, ...series.map((s) => s.t));
+    const tMax = Math.max(15, ...series.map((s) => s.t));
+    const vMax = Math.max(10, ...series.map((s) => s.v));
+    drawLineChart(doc, {
+      x: cx + 48,
+      y: cy + 12,
+      w: cw - 64,
+      h: plotH,
+      xRange: [tMin, tMax],
+      yRange: [0, Math.ceil(vMax / 10) * 10],
+      yLabel: 'mph',
+      xLabel: 'seconds from impact',
+      series: [{ points: series.map((s) => [s.t, s.v]), color: COLORS.navy, dots: true }],
+    });
+  }, series.length === 0 ? 40 : plotH + 40);
+}
+
+/**
+ * Dynamic acceleration (gravity and mounting offset removed) per axis plus
+ * the resultant, centred on the peak sample.
+ */
+function drawGForceBlock(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const { trace } = input.report;
+  const dynamic = toDynamicTrace(parseStoredSamples(trace.samples));
+  const plotH = 150;
+
+  drawSection(doc, 'G-FORCE', (cx, cy, cw) => {
+    if (dynamic.length === 0) {
+      doc.fontSize(9).font('Helvetica').fill(COLORS.slate).text(
+        'The device did not include accelerometer samples with this event.',
+        cx + 16,
+        cy + 14,
+      );
+      return;
+    }
+    const t = (i: number) => ((i - trace.peakSampleIndex) * trace.sampleIntervalMs) / 1000;
+    const peak = Math.max(...dynamic.map((d) => d.magnitude));
+    const yMax = Math.max(0.5, Math.ceil(peak * 2) / 2);
+    drawLineChart(doc, {
+      x: cx + 48,
+      y: cy + 12,
+      w: cw - 64,
+      h: plotH,
+      xRange: [t(0), Math.max(t(dynamic.length - 1), t(0) + 1)],
+      yRange: [-yMax, yMax],
+      yLabel: 'g',
+      xLabel: 'seconds from peak',
+      series: [
+        { points: dynamic.map((d, i) => [t(i), d.x]), color: COLORS.navyLight, label: 'Longitudinal' },
+        { points: dynamic.map((d, i) => [t(i), d.y]), color: COLORS.green, label: 'Lateral' },
+        { points: dynamic.map((d, i) => [t(i), d.z]), color: COLORS.slateLight, label: 'Vertical' },
+        { points: dynamic.map((d, i) => [t(i), d.magnitude]), color: COLORS.red, label: 'Resultant' },
+      ],
+    });
+  }, dynamic.length === 0 ? 40 : plotH + 56);
+}
+
+interface ChartSpec {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  xRange: [number, number];
+  yRange: [number, number];
+  xLabel: string;
+  yLabel: string;
+  series: Array<{ points: Array<[number, number]>; color: string; label?: string; dots?: boolean }>;
+}
+
+/** Axes, a zero/impact marker, gridlines and one polyline per series. */
+function drawLineChart(doc: PDFKit.PDFDocument, spec: ChartSpec) {
+  const { x, y, w, h } = spec;
+  const [x0, x1] = spec.xRange;
+  const [y0, y1] = spec.yRange;
+  const sx = (v: number) => x + ((v - x0) / (x1 - x0)) * w;
+  const sy = (v: number) => y + h - ((v - y0) / (y1 - y0)) * h;
+
+  doc.save();
+  doc.rect(x, y, w, h).fill(COLORS.bgLight);
+
+  // Horizontal gridlines with value labels.
+  doc.fontSize(7).font('Helvetica');
+  for (let i = 0; i <= 4; i++) {
+    const v = y0 + ((y1 - y0) * i) / 4;
+    doc.moveTo(x, sy(v)).lineTo(x + w, sy(v)).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.fill(COLORS.slate).text(formatTick(v), x - 40, sy(v) - 3, { width: 34, align: 'right' });
+  }
+  doc.fill(COLORS.slate).text(spec.yLabel, x - 40, y - 10, { width: 34, align: 'right' });
+
+  // t = 0 marker (impact / peak).
+  if (x0 < 0 && x1 > 0) {
+    doc.moveTo(sx(0), y).lineTo(sx(0), y + h).lineWidth(1).dash(3, { space: 3 })
+      .strokeColor(COLORS.red).stroke().undash();
+  }
+
+  doc.fill(COLORS.slate)
+    .text(formatTick(x0), x - 10, y + h + 4, { width: 40, lineBreak: false })
+    .text(formatTick(x1), x + w - 30, y + h + 4, { width: 40, align: 'right', lineBreak: false })
+    .text(spec.xLabel, x, y + h + 4, { width: w, align: 'center' });
+
+  for (const s of spec.series) {
+    if (s.points.length === 0) continue;
+    doc.moveTo(sx(s.points[0][0]), sy(s.points[0][1]));
+    for (const [px, py] of s.points.slice(1)) doc.lineTo(sx(px), sy(py));
+    doc.lineWidth(1.2).strokeColor(s.color).stroke();
+    if (s.dots) {
+      for (const [px, py] of s.points) doc.circle(sx(px), sy(py), 1.8).fill(s.color);
+    }
+  }
+
+  // Legend under the x-axis label, only when series are named.
+  const named = spec.series.filter((s) => s.label);
+  let lx = x;
+  for (const s of named) {
+    doc.rect(lx, y + h + 20, 10, 3).fill(s.color);
+    doc.fill(COLORS.slate).text(s.label!, lx + 14, y + h + 17, { lineBreak: false });
+    lx += 14 + doc.widthOfString(s.label!) + 16;
+  }
+  doc.restore();
+}
+
+function drawFooter(doc: PDFKit.PDFDocument, input: RenderInput) {
+  const y = doc.page.height - 64;
+  doc
+    .fontSize(8)
+    .font('Helvetica')
+    .fill(COLORS.slateLight)
+    .text(
+      `Generated for ${input.ownerEmail ?? 'VinTraxx user'} • Collision ${input.report.trace.id} • VinTraxx SmartScan`,
+      54,
+      y,
+      { width: doc.page.width - 108, align: 'center' },
+    );
+}
+
+/**
+ * Draw a bordered section with a dedicated title bar. `contentHeight` is the
+ * height of the content area BELOW the title bar. `contentFn` receives the
+ * content-area top Y so callers never have to account for the title.
+ */
+function drawSection(
+  doc: PDFKit.PDFDocument,
+  title: string,
+  contentFn: (cx: number, cy: number, cw: number) => void,
+  contentHeight: number,
+) {
+  const totalH = TITLE_BAR_H + contentHeight;
+  if (doc.y + totalH > doc.page.height - 80) doc.addPage();
+  const x = 54;
+  const w = doc.page.width - 108;
+  const y = doc.y;
+
+  doc.save();
+  doc.rect(x, y, w, TITLE_BAR_H).fill(COLORS.bg);
+  doc.rect(x, y, w, totalH).lineWidth(1).strokeColor(COLORS.border).stroke();
+  doc.moveTo(x, y + TITLE_BAR_H).lineTo(x + w, y + TITLE_BAR_H)
+    .lineWidth(0.5).strokeColor(COLORS.border).stroke();
+  doc.fontSize(10).font('Helvetica-Bold').fill(COLORS.navy)
+    .text(title, x + 16, y + 9);
+  doc.restore();
+
+  contentFn(x, y + TITLE_BAR_H, w);
+  doc.y = y + totalH + 10;
+}
+
+export function collisionVehicleLabel(terminal: GpsTerminal): string {
+  return (
+    [terminal.vehicleYear, terminal.vehicleMake, terminal.vehicleModel].filter(Boolean).join(' ') ||
+    terminal.nickname ||
+    `Device ${(terminal.deviceIdentifier ?? terminal.imei ?? '').slice(-6)}`
+  );
+}
+
+function formatDirection(direction: string): string {
+  return direction.toLowerCase().replace('_', '-').replace(/^./, (c) => c.toUpperCase());
+}
+
+function formatMph(kmh: number | null): string {
+  if (kmh === null) return '—';
+  return `${Math.round(kmh * 0.621371)} mph`;
+}
+
+function formatTick(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(1);
+}
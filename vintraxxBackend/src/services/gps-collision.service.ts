@@ -0,0 +1,311 @@
+/**
+ * gps-collision.service — 0x0900/0xF7 suspected-collision traces.
+ *
+ * Write side (called from handlePassThrough):
+ *   `recordCollision` stores the accelerometer trace against a COLLISION
+ *   GpsAlarm. If the terminal already opened one from the 0x0200 collision
+ *   bit within COLLISION_MERGE_WINDOW_MS, the trace joins that alarm;
+ *   otherwise a new alarm is opened (and closed at once — a collision is an
+ *   event, not a condition that later clears).
+ *
+ * Analysis (`analyseTrace`, run once at ingest):
+ *   • Each axis' median over the trace is taken as its resting value and
+ *     subtracted, which removes gravity whatever way up the device is
+ *     mounted. The trace is ~20 s long and the impact a few samples of it,
+ *     so the median is not pulled by the spike.
+ *   • Peak g = largest magnitude of the remaining (dynamic) vector.
+ *   • Direction comes from the horizontal components at the peak. Axes are
+ *     assumed ISO 8855 (x forward, y left); the impact comes from the side
+ *     opposite the acceleration, reported as a clockwise bearing from the
+ *     vehicle's nose and bucketed into eight sectors.
+ *
+ * Read side: `getCollisionReport` assembles the trace, the alarm and the
+ * GpsLocation rows leading up to the impact — the JSON endpoint and the
+ * crash-report PDF both render from it.
+ */
+
+import prisma from '../config/db';
+import {
+  Prisma,
+  type GpsAlarm,
+  type GpsCollisionTrace,
+  type GpsTerminal,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { emit as emitNotify } from '../realtime/notify';
+import { maybeSendCriticalAlarmPush } from './gps-alarm-bridge.service';
+import type {
+  CollisionSample,
+  DecodedCollision,
+} from '../gateway/codec/messages/m0900-pass-through';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/** A 0x0200 COLLISION alarm this close to the 0xF7 time is the same event. */
+const COLLISION_MERGE_WINDOW_MS = 2 * 60_000;
+
+/** How far back the report looks in GpsLocation for the approach. */
+const APPROACH_WINDOW_MS = 60_000;
+
+/** …and how far past the impact (to show the vehicle coming to rest). */
+const AFTERMATH_WINDOW_MS = 15_000;
+
+const DIRECTIONS = [
+  'FRONT',
+  'FRONT_RIGHT',
+  'RIGHT',
+  'REAR_RIGHT',
+  'REAR',
+  'REAR_LEFT',
+  'LEFT',
+  'FRONT_LEFT',
+] as const;
+
+export type ImpactDirection = (typeof DIRECTIONS)[number];
+
+// ── Analysis ────────────────────────────────────────────────────────────────
+
+export interface TraceAnalysis {
+  peakG: number;
+  peakSampleIndex: number;
+  impactSpeedKmh: number | null;
+  impactDirection: ImpactDirection | null;
+  impactAngleDeg: number | null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** Per-sample acceleration with the resting (median) value removed, in g. */
+export interface DynamicSample {
+  x: number;
+  y: number;
+  z: number;
+  magnitude: number;
+}
+
+export function toDynamicTrace(samples: CollisionSample[]): DynamicSample[] {
+  if (samples.length === 0) return [];
+  const restX = median(samples.map((s) => s.accelXMg));
+  const restY = median(samples.map((s) => s.accelYMg));
+  const restZ = median(samples.map((s) => s.accelZMg));
+  return samples.map((s) => {
+    const x = (s.accelXMg - restX) / 1000;
+    const y = (s.accelYMg - restY) / 1000;
+    const z = (s.accelZMg - restZ) / 1000;
+    return { x, y, z, magnitude: Math.sqrt(x * x + y * y + z * z) };
+  });
+}
+
+/** GpsCollisionTrace.samples is stored compactly as [[x, y, z, speed], …]. */
+export function parseStoredSamples(json: Prisma.JsonValue): CollisionSample[] {
+  if (!Array.isArray(json)) return [];
+  return json.flatMap((row) => {
+    if (!Array.isArray(row) || row.length < 4) return [];
+    const [x, y, z, speed] = row.map(Number);
+    return [{ accelXMg: x, accelYMg: y, accelZMg: z, speedKmh: speed }];
+  });
+}
+
+export function analyseTrace(samples: CollisionSample[]): TraceAnalysis {
+  const dynamic = toDynamicTrace(samples);
+  if (dynamic.length === 0) {
+    return {
+      peakG: 0,
+      peakSampleIndex: 0,
+      impactSpeedKmh: null,
+      impactDirection: null,
+      impactAngleDeg: null,
+    };
+  }
+
+  let peakIdx = 0;
+  dynamic.forEach((d, i) => {
+    if (d.magnitude > dynamic[peakIdx].magnitude) peakIdx = i;
+  });
+
+  const { x: dx, y: dy, magnitude } = dynamic[peakIdx];
+  let impactAngleDeg: number | null = null;
+  let impactDirection: ImpactDirection | null = null;
+  if (dx !== 0 || dy !== 0) {
+    // Impact source = −acceleration. Forward component −dx, rightward +dy
+    // (y points left), so the clockwise bearing is atan2(dy, −dx).
+    const deg = (Math.atan2(dy, -dx) * 180) / Math.PI;
+    impactAngleDeg = Math.round((deg + 360) % 360) % 360;
+    impactDirection = DIRECTIONS[Math.round(impactAngleDeg / 45) % 8];
+  }
+
+  return {
+    peakG: Math.round(magnitude * 100) / 100,
+    peakSampleIndex: peakIdx,
+    // The peak sample's own speed is often already post-impact; take the one before.
+    impactSpeedKmh: samples[Math.max(0, peakIdx - 1)].speedKmh,
+    impactDirection,
+    impactAngleDeg,
+  };
+}
+
+// ── Write side ──────────────────────────────────────────────────────────────
+
+export async function recordCollision(
+  terminal: GpsTerminal,
+  decoded: DecodedCollision,
+  rawBody: Buffer,
+): Promise<GpsCollisionTrace> {
+  const analysis = analyseTrace(decoded.samples);
+  const severity = decoded.level >= 2 ? 'CRITICAL' : 'WARNING';
+  const latitude = new Prisma.Decimal(decoded.latitude.toFixed(7));
+  const longitude = new Prisma.Decimal(decoded.longitude.toFixed(7));
+
+  const existing = await prisma.gpsAlarm.findFirst({
+    where: {
+      terminalId: terminal.id,
+      type: 'COLLISION',
+      collisionTrace: null,
+      openedAt: {
+        gte: new Date(decoded.reportedAt.getTime() - COLLISION_MERGE_WINDOW_MS),
+        lte: new Date(decoded.reportedAt.getTime() + COLLISION_MERGE_WINDOW_MS),
+      },
+    },
+    orderBy: { openedAt: 'desc' },
+  });
+
+  let alarm: GpsAlarm;
+  let opened = false;
+  if (existing) {
+    alarm = existing;
+  } else {
+    alarm = await prisma.gpsAlarm.create({
+      data: {
+        terminalId: terminal.id,
+        ownerUserId: terminal.ownerUserId,
+        driverId: terminal.currentDriverId,
+        type: 'COLLISION',
+        severity,
+        openedAt: decoded.reportedAt,
+        closedAt: decoded.reportedAt,
+        latitude,
+        longitude,
+        speedKmh:
+          analysis.impactSpeedKmh !== null ? new Prisma.Decimal(analysis.impactSpeedKmh) : null,
+        extraData: { source: '0xF7', level: decoded.level },
+      },
+    });
+    opened = true;
+  }
+
+  const trace = await prisma.gpsCollisionTrace.create({
+    data: {
+      alarmId: alarm.id,
+      terminalId: terminal.id,
+      occurredAt: decoded.reportedAt,
+      latitude,
+      longitude,
+      level: decoded.level,
+      sampleIntervalMs: decoded.collectionFrequencyMs,
+      sampleCount: decoded.samples.length,
+      samples: decoded.samples.map((s) => [s.accelXMg, s.accelYMg, s.accelZMg, s.speedKmh]),
+      peakG: new Prisma.Decimal(analysis.peakG.toFixed(2)),
+      peakSampleIndex: analysis.peakSampleIndex,
+      impactSpeedKmh: analysis.impactSpeedKmh,
+      impactDirection: analysis.impactDirection,
+      impactAngleDeg: analysis.impactAngleDeg,
+      rawBody,
+    },
+  });
+
+  logger.info('Collision trace stored', {
+    terminalId: terminal.id,
+    alarmId: alarm.id,
+    joinedExistingAlarm: !opened,
+    samples: trace.sampleCount,
+    peakG: analysis.peakG,
+    impactDirection: analysis.impactDirection,
+  });
+
+  if (opened) {
+    void emitNotify({
+      type: 'alarm.opened',
+      terminalId: terminal.id,
+      ownerUserId: terminal.ownerUserId,
+      alarmId: alarm.id,
+      alarmType: alarm.type,
+      severity: alarm.severity,
+      at: alarm.openedAt.toISOString(),
+    });
+    void maybeSendCriticalAlarmPush({ alarm, terminal });
+  }
+  return trace;
+}
+
+// ── Read side ───────────────────────────────────────────────────────────────
+
+export interface CollisionReport {
+  alarm: GpsAlarm;
+  terminal: GpsTerminal;
+  trace: Omit<GpsCollisionTrace, 'rawBody'> & { rawBodyHex: string };
+  /** GpsLocation rows from APPROACH_WINDOW_MS before to AFTERMATH_WINDOW_MS after, oldest first. */
+  approach: Array<{
+    reportedAt: Date;
+    latitude: number;
+    longitude: number;
+    speedKmh: number | null;
+    heading: number | null;
+  }>;
+}
+
+/**
+ * Load everything the report needs. Owner-scoped calls pass `userId` and
+ * get a 404 for alarms that aren't theirs; admins pass `admin: true`.
+ */
+export async function getCollisionReport(opts: {
+  alarmId: string;
+  userId?: string;
+  admin?: boolean;
+}): Promise<CollisionReport> {
+  const alarm = await prisma.gpsAlarm.findUnique({
+    where: { id: opts.alarmId },
+    include: { terminal: true, collisionTrace: true },
+  });
+  if (!alarm) throw new AppError('Alarm not found', 404);
+  if (!opts.admin && alarm.ownerUserId !== opts.userId) {
+    throw new AppError('Alarm not found', 404);
+  }
+  if (!alarm.collisionTrace) {
+    throw new AppError('No collision trace recorded for this alarm', 404);
+  }
+
+  const { terminal, collisionTrace, ...alarmRow } = alarm;
+  const { rawBody, ...trace } = collisionTrace;
+  const at = trace.occurredAt.getTime();
+
+  const locations = await prisma.gpsLocation.findMany({
+    where: {
+      terminalId: terminal.id,
+      reportedAt: {
+        gte: new Date(at - APPROACH_WINDOW_MS),
+        lte: new Date(at + AFTERMATH_WINDOW_MS),
+      },
+    },
+    orderBy: { reportedAt: 'asc' },
+    select: { reportedAt: true, latitude: true, longitude: true, speedKmh: true, heading: true },
+    take: 500,
+  });
+
+  return {
+    alarm: alarmRow,
+    terminal,
+    trace: { ...trace, rawBodyHex: Buffer.from(rawBody).toString('hex') },
+    approach: locations.map((l) => ({
+      reportedAt: l.reportedAt,
+      latitude: Number(l.latitude),
+      longitude: Number(l.longitude),
+      speedKmh: l.speedKmh !== null ? Number(l.speedKmh) : null,
+      heading: l.heading,
+    })),
+  };
+}
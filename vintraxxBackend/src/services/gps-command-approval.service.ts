@@ -0,0 +1,299 @@
+/**
+ * gps-command-approval.service — two-person rule for destructive actions.
+ *
+ * terminal-control (0x8105: shutdown, reset, factory reset, …), clear-dtcs
+ * (gps-command.service DESTRUCTIVE_KINDS) and terminal deletion are
+ * super-admin only. Any other admin files a request here with a
+ * justification; a DIFFERENT super admin approves or rejects it:
+ *
+ *   PENDING ──approve──> APPROVED   (enqueueCommand / deleteTerminal ran)
+ *      ├─────reject───> REJECTED   (reviewNote says why)
+ *      └─────cancel───> CANCELLED  (by the requester)
+ *
+ * Nothing touches the terminal until approval: only then does the request
+ * become a GpsCommand row (issued in the requester's name, `commandId`
+ * recorded here) or delete the terminal. Every transition is a CAS on
+ * PENDING, so two reviewers can't both act on one request. If the action
+ * itself fails (terminal gone, command unsupported) the request goes back
+ * to PENDING and the error reaches the reviewer.
+ *
+ * Each step writes a slug-labelled AdminAuditLog row
+ * ('command.approval.request' / '.approve' / '.reject' / '.cancel').
+ */
+
+import prisma from '../config/db';
+import {
+  Prisma,
+  type GpsCommandApproval,
+  type GpsCommandApprovalAction,
+  type GpsCommandApprovalStatus,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { recordAdminAction, type AuditContext } from '../middleware/adminAuditLog';
+import * as commandService from './gps-command.service';
+import * as terminalService from './gps-terminal.service';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+/** The acting admin plus where the request came from, for the audit row. */
+export type ApprovalActor = AuditContext & { adminId: string; superAdmin: boolean };
+
+/** What an approved COMMAND request enqueues. */
+export type ApprovalCommand = Pick<commandService.CommandSpec, 'kind' | 'controlType'>;
+
+interface RequestApprovalInput {
+  action: GpsCommandApprovalAction;
+  terminalId: string;
+  /** Required for COMMAND, ignored for DELETE_TERMINAL. */
+  command?: ApprovalCommand;
+  justification: string;
+}
+
+const AUDIT_TARGET = 'gps-command-approval';
+
+// ── Requests ────────────────────────────────────────────────────────────────
+
+export async function requestApproval(input: RequestApprovalInput, actor: ApprovalActor) {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: input.terminalId },
+    select: { id: true, deviceIdentifier: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  let command: ApprovalCommand | null = null;
+  if (input.action === 'COMMAND') {
+    if (!input.command) throw new AppError('`command` is required for a COMMAND request', 400);
+    if (!commandService.DESTRUCTIVE_KINDS.has(input.command.kind)) {
+      throw new AppError(`${input.command.kind} commands don't need approval`, 400);
+    }
+    commandService.buildCommandPayload(input.command);
+    command = { kind: input.command.kind, controlType: input.command.controlType };
+  }
+
+  // One open request per terminal and action is enough for a reviewer.
+  const pending = await prisma.gpsCommandApproval.findMany({
+    where: { terminalId: terminal.id, action: input.action, status: 'PENDING' },
+    select: { command: true },
+  });
+  const duplicate = pending.some((p) => sameCommand(p.command, command));
+  if (duplicate) throw new AppError('An identical request for this terminal is already pending', 409);
+
+  const approval = await prisma.gpsCommandApproval.create({
+    data: {
+      action: input.action,
+      terminalId: terminal.id,
+      deviceIdentifier: terminal.deviceIdentifier,
+      command: command ? (command as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      justification: input.justification.trim(),
+      requestedByAdminId: actor.adminId,
+    },
+  });
+  logger.info('Command approval requested', {
+    approvalId: approval.id,
+    action: approval.action,
+    kind: command?.kind,
+    terminalId: terminal.id,
+    adminId: actor.adminId,
+  });
+  await audit(actor, 'command.approval.request', approval);
+  return withAdminEmails(approval);
+}
+
+interface ListApprovalsOptions {
+  page: number;
+  limit: number;
+  status?: GpsCommandApprovalStatus;
+  terminalId?: string;
+}
+
+export async function listApprovals(opts: ListApprovalsOptions) {
+  const where: Prisma.GpsCommandApprovalWhereInput = {};
+  if (opts.status) where.status = opts.status;
+  if (opts.terminalId) where.terminalId = opts.terminalId;
+
+  const [total, approvals] = await Promise.all([
+    prisma.gpsCommandApproval.count({ where }),
+    prisma.gpsCommandApproval.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+    }),
+  ]);
+  return {
+    approvals: await withAdminEmails(approvals),
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+export async function getApproval(approvalId: string) {
+  return withAdminEmails(await findApproval(approvalId));
+}
+
+// ── Review ──────────────────────────────────────────────────────────────────
+
+export async function approveRequest(approvalId: string, note: string | null, actor: ApprovalActor) {
+  const approval = await findApproval(approvalId);
+  assertReviewable(approval, actor);
+
+  const reviewedAt = new Date();
+  await claim(approval.id, {
+    status: 'APPROVED',
+    reviewedByAdminId: actor.adminId,
+    reviewNote: note,
+    reviewedAt,
+  });
+
+  let commandId: string | null = null;
+  try {
+    if (approval.action === 'COMMAND') {
+      const spec = approval.command as unknown as ApprovalCommand;
+      const cmd = await commandService.enqueueCommand({
+        terminalId: approval.terminalId,
+        adminId: approval.requestedByAdminId,
+        kind: spec.kind,
+        controlType: spec.controlType,
+      });
+      commandId = cmd.id;
+    } else {
+      await terminalService.deleteTerminal(approval.terminalId);
+    }
+  } catch (err) {
+    // Hand it back to the queue: the reviewer sees why and can reject it.
+    await prisma.gpsCommandApproval.updateMany({
+      where: { id: approval.id, status: 'APPROVED', reviewedAt },
+      data: { status: 'PENDING', reviewedByAdminId: null, reviewNote: null, reviewedAt: null },
+    });
+    await audit(actor, 'command.approval.approve', approval, {
+      statusCode: err instanceof AppError ? err.statusCode : 500,
+      errorText: (err as Error).message,
+    });
+    throw err;
+  }
+
+  const updated = await prisma.gpsCommandApproval.update({
+    where: { id: approval.id },
+    data: { commandId },
+  });
+  logger.info('Command approval approved', {
+    approvalId: approval.id,
+    action: approval.action,
+    terminalId: approval.terminalId,
+    ...(commandId ? { commandId } : {}),
+    adminId: actor.adminId,
+  });
+  await audit(actor, 'command.approval.approve', updated);
+  return withAdminEmails(updated);
+}
+
+export async function rejectRequest(approvalId: string, note: string, actor: ApprovalActor) {
+  const approval = await findApproval(approvalId);
+  assertReviewable(approval, actor);
+
+  await claim(approval.id, {
+    status: 'REJECTED',
+    reviewedByAdminId: actor.adminId,
+    reviewNote: note,
+    reviewedAt: new Date(),
+  });
+  const updated = await findApproval(approval.id);
+  logger.info('Command approval rejected', { approvalId: approval.id, adminId: actor.adminId });
+  await audit(actor, 'command.approval.reject', updated);
+  return withAdminEmails(updated);
+}
+
+/** Withdraw a still-pending request — the requester only. */
+export async function cancelRequest(approvalId: string, actor: ApprovalActor) {
+  const approval = await findApproval(approvalId);
+  if (approval.requestedByAdminId !== actor.adminId) {
+    throw new AppError('Only the admin who filed a request can cancel it', 403);
+  }
+  await claim(approval.id, { status: 'CANCELLED', reviewedAt: new Date() });
+  const updated = await findApproval(approval.id);
+  logger.info('Command approval cancelled', { approvalId: approval.id, adminId: actor.adminId });
+  await audit(actor, 'command.approval.cancel', updated);
+  return withAdminEmails(updated);
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+async function findApproval(approvalId: string): Promise<GpsCommandApproval> {
+  const approval = await prisma.gpsCommandApproval.findUnique({ where: { id: approvalId } });
+  if (!approval) throw new AppError('Approval request not found', 404);
+  return approval;
+}
+
+function assertReviewable(approval: GpsCommandApproval, actor: ApprovalActor): void {
+  if (!actor.superAdmin) throw new AppError('Super-admin privilege required', 403);
+  if (approval.requestedByAdminId === actor.adminId) {
+    throw new AppError('A request must be reviewed by a different admin than the one who filed it', 403);
+  }
+}
+
+/** Move a PENDING request on; 409 if someone else got there first. */
+async function claim(approvalId: string, data: Prisma.GpsCommandApprovalUpdateManyMutationInput) {
+  const res = await prisma.gpsCommandApproval.updateMany({
+    where: { id: approvalId, status: 'PENDING' },
+    data,
+  });
+  if (res.count === 0) throw new AppError('Approval request is no longer pending', 409);
+}
+
+function sameCommand(stored: Prisma.JsonValue, command: ApprovalCommand | null): boolean {
+  const s = stored as ApprovalCommand | null;
+  if (!s || !command) return !s && !command;
+  return s.kind === command.kind && (s.controlType ?? null) === (command.controlType ?? null);
+}
+
+async function audit(
+  actor: ApprovalActor,
+  action: string,
+  approval: GpsCommandApproval,
+  failure?: { statusCode: number; errorText: string },
+): Promise<void> {
+  const command = approval.command as ApprovalCommand | null;
+  await recordAdminAction(actor, {
+    action,
+    targetType: AUDIT_TARGET,
+    targetId: approval.id,
+    payload: {
+      action: approval.action,
+      terminalId: approval.terminalId,
+      deviceIdentifier: approval.deviceIdentifier,
+      ...(command ? { kind: command.kind, controlType: command.controlType ?? null } : {}),
+      requestedByAdminId: approval.requestedByAdminId,
+      ...(approval.commandId ? { commandId: approval.commandId } : {}),
+    },
+    statusCode: failure?.statusCode,
+    errorText: failure?.errorText,
+  });
+}
+
+type WithEmails<T> = T & { requestedByEmail: string | null; reviewedByEmail: string | null };
+
+/** Attach requester / reviewer emails — the reviewer needs to know who asked. */
+async function withAdminEmails(approval: GpsCommandApproval): Promise<WithEmails<GpsCommandApproval>>;
+async function withAdminEmails(approvals: GpsCommandApproval[]): Promise<WithEmails<GpsCommandApproval>[]>;
+async function withAdminEmails(input: GpsCommandApproval | GpsCommandApproval[]) {
+  const list = Array.isArray(input) ? input : [input];
+  const ids = new Set<string>();
+  for (const a of list) {
+    ids.add(a.requestedByAdminId);
+    if (a.reviewedByAdminId) ids.add(a.reviewedByAdminId);
+  }
+  const admins = await prisma.admin.findMany({
+    where: { id: { in: [...ids] } },
+    select: { id: true, email: true },
+  });
+  const emailById = new Map(admins.map((a) => [a.id, a.email]));
+  const out = list.map((a) => ({
+    ...a,
+    requestedByEmail: emailById.get(a.requestedByAdminId) ?? null,
+    reviewedByEmail: a.reviewedByAdminId ? emailById.get(a.reviewedByAdminId) ?? null : null,
+  }));
+  return Array.isArray(input) ? out : out[0];
+}
@@ -0,0 +1,405 @@
+/**
+ * gps-command-batch.service — one command fanned out to many terminals.
+ *
+ * Lifecycle of one batch:
+ *   1. `createBatch` validates the command once, resolves the terminal
+ *      filter (explicit ids, model, firmware version, owner, fleet group)
+ *      ONCE into `terminalIds` and starts the batch RUNNING.
+ *   2. `advanceBatch` releases the next terminals as ordinary GpsCommand
+ *      rows (same `batchId`) until `concurrency` of them are in flight —
+ *      SENT, or QUEUED for a terminal that is online. Rows queued for an
+ *      offline terminal don't hold a slot: they go out when it reconnects
+ *      or EXPIRE with the normal queue window.
+ *   3. Every settled row (gps-command.service `markAcked` / `markFailed` /
+ *      the expiry sweep) calls `onBatchCommandSettled`, which releases more
+ *      and pushes a `command.batch.progress` event to the admin WebSocket.
+ *      Once every terminal is released and settled the batch COMPLETES.
+ *
+ * `cancelBatch` stops further releases and EXPIRES the batch's still-QUEUED
+ * rows; SENT ones finish on their own. `sweepCommandBatches` (backend cron,
+ * every minute) re-advances RUNNING batches in case a settle hook was lost.
+ *
+ * Releases are a CAS on `releasedCount`, so the gateway's settle hooks and
+ * the cron can race without releasing a terminal twice. The concurrency cap
+ * is best-effort under that race — it can overshoot by a release or two.
+ */
+
+import prisma from '../config/db';
+import { Prisma, type GpsCommandBatchStatus, type GpsCommandStatus } from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { emit, type CommandBatchEvent } from '../realtime/notify';
+import * as commandService from './gps-command.service';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/** Terminals one batch may target. */
+const MAX_TARGETS = 5000;
+
+/** Statuses still owed an outcome — a batch with any of these isn't settled. */
+const UNSETTLED: GpsCommandStatus[] = ['QUEUED', 'SENT', 'JT808_ACKED'];
+
+const ACKED: GpsCommandStatus[] = ['ACKED', 'VENDOR_RESPONSE_RECEIVED'];
+const FAILED: GpsCommandStatus[] = ['FAILED', 'JT808_ACK_TIMEOUT', 'VENDOR_RESPONSE_TIMEOUT'];
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface BatchFilter {
+  terminalIds?: string[];
+  models?: string[];
+  firmwareVersions?: string[];
+  ownerUserId?: string;
+  fleetGroups?: string[];
+}
+
+/** Bulk commands go over the data channel only. */
+export type BatchCommand = Pick<commandService.CommandSpec, 'kind' | 'setParams' | 'controlType'>;
+
+export type BatchProgress = CommandBatchEvent['progress'];
+
+interface SkippedTarget {
+  terminalId: string;
+  error: string;
+}
+
+/** Everything but the (possibly thousands long) target list. */
+const BATCH_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  command: true,
+  filter: true,
+  releasedCount: true,
+  concurrency: true,
+  skipped: true,
+  createdByAdminId: true,
+  scheduleId: true,
+  finishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.GpsCommandBatchSelect;
+
+// ── Admin CRUD ──────────────────────────────────────────────────────────────
+
+interface CreateBatchInput {
+  name: string | null;
+  filter: BatchFilter;
+  command: BatchCommand;
+  concurrency: number;
+  adminId: string | null;
+  /** Set when a recurring schedule (gps-command-schedule.service) runs. */
+  scheduleId?: string;
+}
+
+export async function createBatch(input: CreateBatchInput) {
+  // Reject a bad body once here rather than once per terminal at release.
+  commandService.buildCommandPayload(input.command);
+  const terminalIds = await resolveTargets(input.filter);
+
+  const batch = await prisma.gpsCommandBatch.create({
+    data: {
+      name: input.name,
+      command: input.command as unknown as Prisma.InputJsonValue,
+      filter: input.filter as unknown as Prisma.InputJsonValue,
+      terminalIds,
+      concurrency: input.concurrency,
+      createdByAdminId: input.adminId,
+      scheduleId: input.scheduleId ?? null,
+    },
+    select: { id: true },
+  });
+  logger.info('Command batch created', {
+    batchId: batch.id,
+    kind: input.command.kind,
+    targets: terminalIds.length,
+    concurrency: input.concurrency,
+    adminId: input.adminId,
+    ...(input.scheduleId ? { scheduleId: input.scheduleId } : {}),
+  });
+
+  await advanceBatch(batch.id);
+  await emitProgress(batch.id);
+  return getBatch(batch.id);
+}
+
+/**
+ * Resolve a filter to the ids of the (non-revoked) terminals it matches, in
+ * a stable order. 400 when it's empty, matches nothing or matches too many.
+ */
+export async function resolveTargets(f: BatchFilter): Promise<string[]> {
+  if (
+    !f.terminalIds?.length &&
+    !f.models?.length &&
+    !f.firmwareVersions?.length &&
+    !f.ownerUserId &&
+    !f.fleetGroups?.length
+  ) {
+    throw new AppError('Select terminals by id, model, firmware, owner or fleet group', 400);
+  }
+
+  const where: Prisma.GpsTerminalWhereInput = { status: { not: 'REVOKED' } };
+  if (f.terminalIds?.length) where.id = { in: f.terminalIds };
+  if (f.models?.length) where.terminalModel = { in: f.models };
+  if (f.firmwareVersions?.length) where.firmwareVersion = { in: f.firmwareVersions };
+  if (f.ownerUserId) where.ownerUserId = f.ownerUserId;
+  if (f.fleetGroups?.length) where.fleetGroup = { in: f.fleetGroups };
+
+  const terminals = await prisma.gpsTerminal.findMany({
+    where,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: MAX_TARGETS + 1,
+    select: { id: true },
+  });
+  if (terminals.length === 0) {
+    throw new AppError('No terminals match the targeting', 400);
+  }
+  if (terminals.length > MAX_TARGETS) {
+    throw new AppError(`Targeting matches more than ${MAX_TARGETS} terminals; narrow it`, 400);
+  }
+  return terminals.map((t) => t.id);
+}
+
+interface ListBatchesOptions {
+  page: number;
+  limit: number;
+  status?: GpsCommandBatchStatus;
+}
+
+export async function listBatches(opts: ListBatchesOptions) {
+  const where: Prisma.GpsCommandBatchWhereInput = {};
+  if (opts.status) where.status = opts.status;
+
+  const [total, batches] = await Promise.all([
+    prisma.gpsCommandBatch.count({ where }),
+    prisma.gpsCommandBatch.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+      select: BATCH_SELECT,
+    }),
+  ]);
+
+  const progress = await computeProgress(batches.map((b) => b.id));
+  return {
+    batches: batches.map((b) => ({ ...b, progress: progress.get(b.id)! })),
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+export async function getBatch(batchId: string) {
+  const batch = await prisma.gpsCommandBatch.findUnique({
+    where: { id: batchId },
+    select: BATCH_SELECT,
+  });
+  if (!batch) throw new AppError('Command batch not found', 404);
+  const progress = await computeProgress([batch.id]);
+  return { ...batch, progress: progress.get(batch.id)! };
+}
+
+/** Stop releasing and expire the batch's still-QUEUED commands. */
+export async function cancelBatch(batchId: string) {
+  const batch = await prisma.gpsCommandBatch.findUnique({
+    where: { id: batchId },
+    select: { status: true },
+  });
+  if (!batch) throw new AppError('Command batch not found', 404);
+  if (batch.status !== 'RUNNING') {
+    throw new AppError(`Cannot cancel a ${batch.status} batch`, 409);
+  }
+
+  const [updated, expired] = await prisma.$transaction([
+    prisma.gpsCommandBatch.updateMany({
+      where: { id: batchId, status: 'RUNNING' },
+      data: { status: 'CANCELLED', finishedAt: new Date() },
+    }),
+    prisma.gpsCommand.updateMany({
+      where: { batchId, status: 'QUEUED' },
+      data: { status: 'EXPIRED', errorText: 'expired: batch cancelled' },
+    }),
+  ]);
+  if (updated.count === 0) throw new AppError('Batch changed state; reload and retry', 409);
+  logger.info('Command batch cancelled', { batchId, expired: expired.count });
+
+  await emitProgress(batchId);
+  return getBatch(batchId);
+}
+
+// ── Release / settle ────────────────────────────────────────────────────────
+
+/** Settle hook from gps-command.service — release more, report progress. */
+export async function onBatchCommandSettled(batchId: string): Promise<void> {
+  await advanceBatch(batchId);
+  await emitProgress(batchId);
+}
+
+/**
+ * Release terminals into free concurrency slots, then complete the batch
+ * once everything is released and settled. Returns true when it released
+ * or completed anything.
+ */
+async function advanceBatch(batchId: string): Promise<boolean> {
+  let changed = false;
+  for (;;) {
+    const batch = await prisma.gpsCommandBatch.findUnique({
+      where: { id: batchId },
+      select: {
+        status: true,
+        terminalIds: true,
+        releasedCount: true,
+        concurrency: true,
+        command: true,
+        createdByAdminId: true,
+      },
+    });
+    if (!batch || batch.status !== 'RUNNING') return changed;
+
+    const remaining = batch.terminalIds.length - batch.releasedCount;
+    if (remaining <= 0) return (await completeIfSettled(batchId)) || changed;
+
+    const inFlight = await prisma.gpsCommand.count({
+      where: {
+        batchId,
+        OR: [
+          { status: { in: ['SENT', 'JT808_ACKED'] } },
+          { status: 'QUEUED', terminal: { status: 'ONLINE' } },
+        ],
+      },
+    });
+    const slots = Math.min(batch.concurrency - inFlight, remaining);
+    if (slots <= 0) return changed;
+
+    const claimed = await prisma.gpsCommandBatch.updateMany({
+      where: { id: batchId, status: 'RUNNING', releasedCount: batch.releasedCount },
+      data: { releasedCount: batch.releasedCount + slots },
+    });
+    // Someone else released this slice; they carry on from here.
+    if (claimed.count === 0) return changed;
+    changed = true;
+
+    const command = batch.command as unknown as BatchCommand;
+    const skipped: SkippedTarget[] = [];
+    for (const terminalId of batch.terminalIds.slice(
+      batch.releasedCount,
+      batch.releasedCount + slots,
+    )) {
+      try {
+        await commandService.enqueueCommand({
+          ...command,
+          terminalId,
+          adminId: batch.createdByAdminId,
+          batchId,
+        });
+      } catch (err) {
+        skipped.push({ terminalId, error: (err as Error).message });
+      }
+    }
+    if (skipped.length === 0) return changed;
+
+    // Skipped targets never settle, so their slots are free again — loop.
+    await prisma.$executeRaw`
+      UPDATE "GpsCommandBatch"
+      SET "skipped" = "skipped" || ${JSON.stringify(skipped)}::jsonb
+      WHERE "id" = ${batchId}`;
+    logger.warn('Command batch skipped targets', { batchId, skipped: skipped.length });
+  }
+}
+
+async function completeIfSettled(batchId: string): Promise<boolean> {
+  const unsettled = await prisma.gpsCommand.count({
+    where: { batchId, status: { in: UNSETTLED } },
+  });
+  if (unsettled > 0) return false;
+  const res = await prisma.gpsCommandBatch.updateMany({
+    where: { id: batchId, status: 'RUNNING' },
+    data: { status: 'COMPLETED', finishedAt: new Date() },
+  });
+  if (res.count === 1) logger.info('Command batch completed', { batchId });
+  return res.count === 1;
+}
+
+// ── Progress ────────────────────────────────────────────────────────────────
+
+async function computeProgress(batchIds: string[]): Promise<Map<string, BatchProgress>> {
+  const out = new Map<string, BatchProgress>();
+  if (batchIds.length === 0) return out;
+
+  const [batches, rows] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string; total: number; released: number; skipped: number }>>`
+      SELECT "id",
+             cardinality("terminalIds") AS "total",
+             "releasedCount" AS "released",
+             jsonb_array_length("skipped") AS "skipped"
+      FROM "GpsCommandBatch"
+      WHERE "id" IN (${Prisma.join(batchIds)})`,
+    prisma.gpsCommand.groupBy({
+      by: ['batchId', 'status'],
+      where: { batchId: { in: batchIds } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  for (const b of batches) {
+    out.set(b.id, {
+      total: Number(b.total),
+      released: Number(b.released),
+      pending: 0,
+      acked: 0,
+      failed: 0,
+      expired: 0,
+      skipped: Number(b.skipped),
+    });
+  }
+  for (const row of rows) {
+    const p = row.batchId ? out.get(row.batchId) : undefined;
+    if (!p) continue;
+    const n = row._count._all;
+    if (UNSETTLED.includes(row.status)) p.pending += n;
+    else if (ACKED.includes(row.status)) p.acked += n;
+    else if (FAILED.includes(row.status)) p.failed += n;
+    else if (row.status === 'EXPIRED') p.expired += n;
+  }
+  return out;
+}
+
+async function emitProgress(batchId: string): Promise<void> {
+  const batch = await prisma.gpsCommandBatch.findUnique({
+    where: { id: batchId },
+    select: { status: true },
+  });
+  if (!batch) return;
+  const progress = (await computeProgress([batchId])).get(batchId);
+  if (!progress) return;
+  await emit({
+    type: 'command.batch.progress',
+    terminalId: null,
+    ownerUserId: null,
+    batchId,
+    status: batch.status,
+    progress,
+    at: new Date().toISOString(),
+  });
+}
+
+// ── Cron ────────────────────────────────────────────────────────────────────
+
+/** Re-advance every RUNNING batch; a lost settle hook must not stall one. */
+export async function sweepCommandBatches(): Promise<void> {
+  const running = await prisma.gpsCommandBatch.findMany({
+    where: { status: 'RUNNING' },
+    select: { id: true },
+  });
+  for (const b of running) {
+    try {
+      if (await advanceBatch(b.id)) await emitProgress(b.id);
+    } catch (err) {
+      logger.warn('sweepCommandBatches: batch advance failed', {
+        batchId: b.id,
+        err: (err as Error).message,
+      });
+    }
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * gps-command-schedule.service — commands the backend cron runs later, once
+ * or on a fixed interval (a nightly 0x8104 read-back, a weekly full scan).
+ *
+ * A schedule stores what to run, a terminal filter (the same one bulk
+ * batches take), `nextRunAt` and an optional `intervalMinutes`.
+ * `runDueSchedules` (backend cron, every minute) claims each due schedule
+ * with a CAS on `nextRunAt`, moves it to its next slot — skipping slots
+ * missed while the backend was down rather than firing them all at once —
+ * and then runs it:
+ *
+ *   • COMMAND   — a GpsCommandBatch over the filter
+ *                 (gps-command-batch.service), so every run is throttled,
+ *                 retried per kind and reported like a hand-made batch.
+ *   • FULL_SCAN — gps-scan-report.service `requestFullScan` for each
+ *                 matching terminal; offline ones get their FAILED report
+ *                 straight away.
+ *
+ * The filter is resolved at run time, so a fleet-group schedule follows the
+ * group as it changes. A run that can't start records `lastError` and the
+ * schedule stays on its interval. One-off schedules disable themselves.
+ */
+
+import prisma from '../config/db';
+import {
+  Prisma,
+  type GpsCommandSchedule,
+  type GpsCommandScheduleAction,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import * as commandService from './gps-command.service';
+import * as commandBatchService from './gps-command-batch.service';
+import * as scanReportService from './gps-scan-report.service';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface CreateScheduleInput {
+  name: string;
+  action: GpsCommandScheduleAction;
+  /** Required for COMMAND, ignored for FULL_SCAN. */
+  command: commandBatchService.BatchCommand | null;
+  filter: commandBatchService.BatchFilter;
+  concurrency: number;
+  /** Null for a one-off run at `nextRunAt`. */
+  intervalMinutes: number | null;
+  nextRunAt: Date;
+  enabled: boolean;
+  adminId: string;
+}
+
+type UpdateScheduleInput = Partial<
+  Pick<
+    CreateScheduleInput,
+    'name' | 'command' | 'filter' | 'concurrency' | 'intervalMinutes' | 'nextRunAt' | 'enabled'
+  >
+>;
+
+/** The latest run's batch, shown next to COMMAND schedules. */
+const SCHEDULE_INCLUDE = {
+  batches: {
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    select: { id: true, status: true, createdAt: true },
+  },
+} satisfies Prisma.GpsCommandScheduleInclude;
+
+// ── Admin CRUD ──────────────────────────────────────────────────────────────
+
+export async function createSchedule(input: CreateScheduleInput) {
+  let command: commandBatchService.BatchCommand | null = null;
+  if (input.action === 'COMMAND') {
+    if (!input.command) throw new AppError('`command` is required for a COMMAND schedule', 400);
+    commandService.buildCommandPayload(input.command);
+    command = input.command;
+  }
+  // Reject a filter that matches nothing today rather than at 3 a.m.
+  await commandBatchService.resolveTargets(input.filter);
+
+  const schedule = await prisma.gpsCommandSchedule.create({
+    data: {
+      name: input.name,
+      action: input.action,
+      command: command ? (command as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      filter: input.filter as unknown as Prisma.InputJsonValue,
+      concurrency: input.concurrency,
+      intervalMinutes: input.intervalMinutes,
+      nextRunAt: input.nextRunAt,
+      enabled: input.enabled,
+      createdByAdminId: input.adminId,
+    },
+    include: SCHEDULE_INCLUDE,
+  });
+  logger.info('Command schedule created', {
+    scheduleId: schedule.id,
+    action: schedule.action,
+    kind: command?.kind,
+    intervalMinutes: schedule.intervalMinutes,
+    nextRunAt: schedule.nextRunAt.toISOString(),
+    adminId: input.adminId,
+  });
+  return schedule;
+}
+
+interface ListSchedulesOptions {
+  page: number;
+  limit: number;
+  enabled?: boolean;
+}
+
+export async function listSchedules(opts: ListSchedulesOptions) {
+  const where: Prisma.GpsCommandScheduleWhereInput = {};
+  if (opts.enabled !== undefined) where.enabled = opts.enabled;
+
+  const [total, schedules] = await Promise.all([
+    prisma.gpsCommandSchedule.count({ where }),
+    prisma.gpsCommandSchedule.findMany({
+      where,
+      orderBy: [{ enabled: 'desc' }, { nextRunAt: 'asc' }],
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+      include: SCHEDULE_INCLUDE,
+    }),
+  ]);
+  return {
+    schedules,
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+export async function getSchedule(scheduleId: string) {
+  const schedule = await prisma.gpsCommandSchedule.findUnique({
+    where: { id: scheduleId },
+    include: SCHEDULE_INCLUDE,
+  });
+  if (!schedule) throw new AppError('Command schedule not found', 404);
+  return schedule;
+}
+
+export async function updateSchedule(scheduleId: string, patch: UpdateScheduleInput) {
+  const existing = await getSchedule(scheduleId);
+  if (patch.command) {
+    if (existing.action !== 'COMMAND') {
+      throw new AppError(`A ${existing.action} schedule takes no command`, 400);
+    }
+    commandService.buildCommandPayload(patch.command);
+  }
+  if (patch.filter) await commandBatchService.resolveTargets(patch.filter);
+
+  const data: Prisma.GpsCommandScheduleUpdateInput = {};
+  if (patch.name !== undefined) data.name = patch.name;
+  if (patch.command) data.command = patch.command as unknown as Prisma.InputJsonValue;
+  if (patch.filter) data.filter = patch.filter as unknown as Prisma.InputJsonValue;
+  if (patch.concurrency !== undefined) data.concurrency = patch.concurrency;
+  if (patch.intervalMinutes !== undefined) data.intervalMinutes = patch.intervalMinutes;
+  if (patch.nextRunAt !== undefined) data.nextRunAt = patch.nextRunAt;
+  if (patch.enabled !== undefined) data.enabled = patch.enabled;
+
+  return prisma.gpsCommandSchedule.update({
+    where: { id: scheduleId },
+    data,
+    include: SCHEDULE_INCLUDE,
+  });
+}
+
+/** Past runs' batches stay; they just lose the link. */
+export async function deleteSchedule(scheduleId: string): Promise<void> {
+  const res = await prisma.gpsCommandSchedule.deleteMany({ where: { id: scheduleId } });
+  if (res.count === 0) throw new AppError('Command schedule not found', 404);
+  logger.info('Command schedule deleted', { scheduleId });
+}
+
+// ── Cron ────────────────────────────────────────────────────────────────────
+
+/** Run every enabled schedule whose `nextRunAt` has passed. */
+export async function runDueSchedules(): Promise<void> {
+  const now = new Date();
+  const due = await prisma.gpsCommandSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+  });
+  for (const schedule of due) {
+    try {
+      await runSchedule(schedule, now);
+    } catch (err) {
+      logger.warn('runDueSchedules: schedule run failed', {
+        scheduleId: schedule.id,
+        err: (err as Error).message,
+      });
+    }
+  }
+}
+
+async function runSchedule(schedule: GpsCommandSchedule, now: Date): Promise<void> {
+  // Claim the run by moving the schedule on; a slow tick overlapping the
+  // next one sees `nextRunAt` changed and skips it.
+  const claimed = await prisma.gpsCommandSchedule.updateMany({
+    where: { id: schedule.id, enabled: true, nextRunAt: schedule.nextRunAt },
+    data: schedule.intervalMinutes
+      ? { lastRunAt: now, nextRunAt: nextSlot(schedule.nextRunAt, schedule.intervalMinutes, now) }
+      : { lastRunAt: now, enabled: false },
+  });
+  if (claimed.count === 0) return;
+
+  const filter = schedule.filter as unknown as commandBatchService.BatchFilter;
+  let lastError: string | null = null;
+  let batchId: string | undefined;
+  try {
+    if (schedule.action === 'COMMAND') {
+      const batch = await commandBatchService.createBatch({
+        name: schedule.name,
+        filter,
+        command: schedule.command as unknown as commandBatchService.BatchCommand,
+        concurrency: schedule.concurrency,
+        adminId: schedule.createdByAdminId,
+        scheduleId: schedule.id,
+      });
+      batchId = batch.id;
+    } else {
+      lastError = await runFullScans(schedule, filter);
+    }
+  } catch (err) {
+    lastError = (err as Error).message;
+  }
+
+  await prisma.gpsCommandSchedule.update({
+    where: { id: schedule.id },
+    data: { lastError },
+  });
+  logger.info('Command schedule ran', {
+    scheduleId: schedule.id,
+    action: schedule.action,
+    ...(batchId ? { batchId } : {}),
+    ...(lastError ? { lastError } : {}),
+  });
+}
+
+/** Start a full scan on every matching terminal; returns an error summary. */
+async function runFullScans(
+  schedule: GpsCommandSchedule,
+  filter: commandBatchService.BatchFilter,
+): Promise<string | null> {
+  const terminalIds = await commandBatchService.resolveTargets(filter);
+  const errors: string[] = [];
+  for (const terminalId of terminalIds) {
+    try {
+      await scanReportService.requestFullScan({
+        terminalId,
+        requestedByAdminId: schedule.createdByAdminId,
+      });
+    } catch (err) {
+      errors.push((err as Error).message);
+    }
+  }
+  if (errors.length === 0) return null;
+  return `${errors.length} of ${terminalIds.length} scans failed to start: ${errors[0]}`;
+}
+
+/** First slot after `now` on the `from` + k × interval grid. */
+function nextSlot(from: Date, intervalMinutes: number, now: Date): Date {
+  const step = intervalMinutes * 60_000;
+  const missed = Math.floor((now.getTime() - from.getTime()) / step) + 1;
+  return new Date(from.getTime() + missed * step);
+}
@@ -10,6 +10,13 @@
  *     └─ socket error             ─> FAILED
  *   QUEUED ──(no live session)   ──> EXPIRED
  *
+ *   Retries: an ack timeout or a dropped socket on a command whose kind's
+ *   RETRY_POLICIES entry has attempts left puts the row back to QUEUED
+ *   (attempt + 1, `notBefore` = now + backoff) instead of FAILED; the
+ *   failed send is archived in `attempts`. A scheduled command is simply a
+ *   QUEUED row with a future `notBefore` — the dispatcher skips it until
+ *   then. Recurring schedules live in gps-command-schedule.service.
+ *
  *   Vendor-specific commands (4G always-online 0x8300):
  *   QUEUED ──(gateway dispatches)──> SENT
  *     ├─ 0x0001 ACK               ──> JT808_ACKED      (layer-1 transport ACK)
@@ -18,7 +25,9 @@
  *     └─ 0x0001 timeout           ──> JT808_ACK_TIMEOUT
  *
  * Only the REST process calls `enqueueCommand`. Only the gateway process
- * calls `markSent / markAcked / markFailed`. The cron (in the backend
+ * calls `markSent / markAcked / markFailed` — except for SMS-channel
+ * commands, which the REST process sends and acks itself
+ * (gps-sms-command.service). The cron (in the backend
  * process) calls `expireStaleCommands` and `timeoutSentCommands`.
  *
  * Idempotency: every status mutator scopes its update to the previous status
@@ -27,13 +36,19 @@
  */
 
 import prisma from '../config/db';
-import { Prisma, type GpsCommand } from '@prisma/client';
+import { Prisma, type GpsCommand, type GpsCommandStatus } from '@prisma/client';
 import logger from '../utils/logger';
 import { emitCommandQueued } from '../realtime/notify-command';
 import { AppError } from '../middleware/errorHandler';
 import { MsgId } from '../gateway/codec/constants';
 import { SUPPORTED_CONTROL_TYPES } from '../gateway/codec/messages/m8105-terminal-control';
+import * as m8202 from '../gateway/codec/messages/m8202-temporary-tracking';
+import { gt06CommandText } from '../gateway/protocols/gt06/commands';
+import { decodeParamValues, normalizeParamWrite } from '../gateway/codec/param-registry';
 import * as alwaysOnlineService from './gps-4g-always-online.service';
+import * as smsCommandService from './gps-sms-command.service';
+import * as trackingService from './gps-tracking.service';
+import * as commandBatchService from './gps-command-batch.service';
 
 // ── Public command kinds ────────────────────────────────────────────────────
 
@@ -49,20 +64,19 @@ export type CommandKind =
   | 'set-params'
   | 'clear-dtcs'
   | 'terminal-control'
+  | 'temporary-tracking'
   | 'enable-4g-always-online'
   | 'disable-4g-always-online';
 
 export interface SetParamsItem {
-  /** JT/T 808 parameter id (e.g. 0x0001 = heartbeat interval). */
+  /** JT/T 808 parameter id; must be in the parameter registry. */
   id: number;
-  /** Encoded as uint32 BE if number, UTF-8 if string, opaque if Buffer-like. */
-  value: number | string;
   /**
-   * Wire byte width for numeric values: 1 = BYTE, 2 = WORD, 4 = DWORD
-   * (default). MUST match the param-type table in the device spec — a
-   * wrong length causes the device to silently misinterpret the value.
+   * Number for BYTE / WORD / DWORD parameters, string for STRING ones, hex
+   * string for BYTES ones. Wire width and range come from the registry
+   * (gateway/codec/param-registry) — callers don't pick a byte width.
    */
-  byteWidth?: 1 | 2 | 4;
+  value: number | string;
 }
 
 export interface EnqueueInput {
@@ -78,6 +92,11 @@ export interface EnqueueInput {
   kind: CommandKind;
   /** Required for `set-params`; ignored otherwise. */
   setParams?: SetParamsItem[];
+  /**
+   * `set-params` only: the config profile this write pushes. Recorded on the
+   * payload so gps-config-profile.service can tell a push is in flight.
+   */
+  configProfileId?: string;
   /**
    * Required for `terminal-control`; ignored otherwise. One of
    * SUPPORTED_CONTROL_TYPES (3, 4, 5, 6, 7) per the m8105 codec.
@@ -85,34 +104,107 @@ export interface EnqueueInput {
   controlType?: number;
   /** Text payload for 0x8300 text-distribution commands (4G always-online). */
   textPayload?: string;
+  /**
+   * Required for `temporary-tracking`. `intervalSec: 0` stops tracking and
+   * `validitySec` is then ignored.
+   */
+  tracking?: { intervalSec: number; validitySec?: number };
+  /**
+   * `SMS` texts the command to the terminal's SIM instead of queueing it for
+   * the gateway — see gps-sms-command.service. Default `DATA`.
+   */
+  channel?: 'DATA' | 'SMS';
+  /** Bulk command job releasing this row — see gps-command-batch.service. */
+  batchId?: string;
+  /** Hold the row until then instead of dispatching it right away (DATA only). */
+  scheduledFor?: Date;
 }
 
+/** The parts of an EnqueueInput that make up the command itself. */
+export type CommandSpec = Pick<
+  EnqueueInput,
+  'kind' | 'setParams' | 'configProfileId' | 'controlType' | 'textPayload' | 'tracking'
+>;
+
 const KIND_TO_FUNCTION_CODE: Record<CommandKind, number> = {
   'locate':                    MsgId.LOCATION_QUERY,        // 0x8201
   'read-params':               MsgId.QUERY_TERMINAL_PARAMS, // 0x8104
   'set-params':                MsgId.SET_TERMINAL_PARAMS,   // 0x8103
   'clear-dtcs':                MsgId.DATA_PASSTHROUGH_DOWN, // 0x8900 (subtype 0xF6)
   'terminal-control':          MsgId.TERMINAL_CONTROL,      // 0x8105
+  'temporary-tracking':        MsgId.TEMPORARY_TRACKING_CONTROL, // 0x8202
   'enable-4g-always-online':   MsgId.TEXT_DISTRIBUTION,     // 0x8300
   'disable-4g-always-online':  MsgId.TEXT_DISTRIBUTION,     // 0x8300
 };
 
-// ── Enqueue (REST side) ─────────────────────────────────────────────────────
+/**
+ * Kinds only a super admin may send directly. Anyone else files a
+ * gps-command-approval.service request that a second, super admin approves.
+ * terminal-control covers reset and factory reset (0x8105); clear-dtcs wipes
+ * fault codes a workshop may still need.
+ */
+export const DESTRUCTIVE_KINDS: ReadonlySet<CommandKind> = new Set<CommandKind>([
+  'terminal-control',
+  'clear-dtcs',
+]);
+
+// ── Retry policies ──────────────────────────────────────────────────────────
+
+interface RetryPolicy {
+  /** Sends allowed in total, the first one included. */
+  maxAttempts: number;
+  /** Wait before the second send; doubles for each one after. */
+  backoffMs: number;
+  /**
+   * Hold a retried row for the terminal's next connect (up to
+   * REQUEUE_HOLD_MS) instead of expiring it with the normal queue window.
+   */
+  requeueOnReconnect: boolean;
+}
 
 /**
- * Validate the request, persist a QUEUED row, fire pg_notify so the gateway
- * can pick it up. Returns the row.
- *
- * Rejects with 4xx if the terminal doesn't exist OR the kind is `set-params`
- * but the param list is empty.
+ * Only failures that say nothing about the command itself are retried — ack
+ * timeouts and dropped sockets. Encode errors and device NACKs are final.
+ * DESTRUCTIVE_KINDS are never re-sent blindly — a reset or DTC wipe may
+ * well have landed and lost only its ack, and one approval must not turn
+ * into two — and the 4G always-online kinds run their own two-layer state
+ * machine in gps-4g-always-online.service.
  */
-export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
-  const terminal = await prisma.gpsTerminal.findUnique({
-    where: { id: input.terminalId },
-    select: { id: true, status: true },
-  });
-  if (!terminal) throw new AppError('Terminal not found', 404);
+const RETRY_POLICIES: Record<CommandKind, RetryPolicy> = {
+  'locate':                   { maxAttempts: 2, backoffMs: 30_000, requeueOnReconnect: false },
+  'read-params':              { maxAttempts: 3, backoffMs: 60_000, requeueOnReconnect: true },
+  'set-params':               { maxAttempts: 3, backoffMs: 60_000, requeueOnReconnect: true },
+  'clear-dtcs':               { maxAttempts: 1, backoffMs: 0, requeueOnReconnect: false },
+  'terminal-control':         { maxAttempts: 1, backoffMs: 0, requeueOnReconnect: false },
+  'temporary-tracking':       { maxAttempts: 2, backoffMs: 30_000, requeueOnReconnect: false },
+  'enable-4g-always-online':  { maxAttempts: 1, backoffMs: 0, requeueOnReconnect: false },
+  'disable-4g-always-online': { maxAttempts: 1, backoffMs: 0, requeueOnReconnect: false },
+};
+
+/** How long a `requeueOnReconnect` retry waits for the terminal to return. */
+const REQUEUE_HOLD_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** One failed send, archived on the row's `attempts` before a retry. */
+interface CommandAttempt {
+  attempt: number;
+  sentAt: string | null;
+  serialNumber: number | null;
+  gatewayPodId: string | null;
+  failedAt: string;
+  errorText: string;
+}
 
+// ── Enqueue (REST side) ─────────────────────────────────────────────────────
+
+/**
+ * Validate a command and build its function code + typed `payload`, without
+ * touching any terminal. Throws 400 on a bad command. Bulk batches call this
+ * once up front so a bad body fails the whole request, not every row.
+ */
+export function buildCommandPayload(input: CommandSpec): {
+  functionCode: number;
+  payload: Prisma.InputJsonValue;
+} {
   const functionCode = KIND_TO_FUNCTION_CODE[input.kind];
   if (functionCode === undefined) {
     throw new AppError(`Unsupported command kind: ${input.kind}`, 400);
@@ -131,34 +223,21 @@ export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
       if (!input.setParams || input.setParams.length === 0) {
         throw new AppError('`setParams` is required and must be non-empty', 400);
       }
-      // Sanity-check value shapes here so the API client gets a 4xx, not a
-      // 5xx from the gateway.
-      for (const p of input.setParams) {
-        if (!Number.isInteger(p.id) || p.id < 0 || p.id > 0xffffffff) {
-          throw new AppError(`param.id must be a uint32 (got ${p.id})`, 400);
+      // Validate against the registry here so the API client gets a 4xx,
+      // not a 5xx from the gateway. The normalized items carry the wire
+      // width the gateway encodes with.
+      const items = input.setParams.map((p) => {
+        try {
+          return normalizeParamWrite(p);
+        } catch (err) {
+          throw new AppError((err as Error).message, 400);
         }
-        if (typeof p.value === 'number') {
-          if (!Number.isInteger(p.value) || p.value < 0 || p.value > 0xffffffff) {
-            throw new AppError(
-              `param 0x${p.id.toString(16)}: numeric value out of uint32 range`,
-              400,
-            );
-          }
-        } else if (typeof p.value === 'string') {
-          if (Buffer.byteLength(p.value, 'utf8') > 255) {
-            throw new AppError(
-              `param 0x${p.id.toString(16)}: string value exceeds 255 UTF-8 bytes`,
-              400,
-            );
-          }
-        } else {
-          throw new AppError(
-            `param 0x${p.id.toString(16)}: value must be number or string`,
-            400,
-          );
-        }
-      }
-      payload = { kind: 'set-params', items: input.setParams as unknown as Prisma.InputJsonValue };
+      });
+      payload = {
+        kind: 'set-params',
+        items: items as unknown as Prisma.InputJsonValue,
+        ...(input.configProfileId ? { configProfileId: input.configProfileId } : {}),
+      };
       break;
     }
     case 'terminal-control': {
@@ -176,6 +255,38 @@ export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
       payload = { kind: 'terminal-control', controlType: input.controlType };
       break;
     }
+    case 'temporary-tracking': {
+      const t = input.tracking;
+      if (!t) throw new AppError('`tracking` is required for temporary-tracking', 400);
+      if (t.intervalSec === 0) {
+        payload = { kind: 'temporary-tracking', intervalSec: 0 };
+        break;
+      }
+      if (
+        !Number.isInteger(t.intervalSec) ||
+        t.intervalSec < m8202.MIN_INTERVAL_SEC ||
+        t.intervalSec > m8202.MAX_INTERVAL_SEC
+      ) {
+        throw new AppError(
+          `intervalSec must be 0 or ${m8202.MIN_INTERVAL_SEC}–${m8202.MAX_INTERVAL_SEC}`,
+          400,
+        );
+      }
+      if (
+        t.validitySec === undefined ||
+        !Number.isInteger(t.validitySec) ||
+        t.validitySec <= 0 ||
+        t.validitySec > m8202.MAX_VALIDITY_SEC
+      ) {
+        throw new AppError(`validitySec must be 1–${m8202.MAX_VALIDITY_SEC}`, 400);
+      }
+      payload = {
+        kind: 'temporary-tracking',
+        intervalSec: t.intervalSec,
+        validitySec: t.validitySec,
+      };
+      break;
+    }
     case 'enable-4g-always-online':
     case 'disable-4g-always-online': {
       if (!input.textPayload || input.textPayload.length === 0) {
@@ -187,6 +298,47 @@ export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
     default:
       throw new AppError(`Unsupported command kind: ${input.kind}`, 400);
   }
+  return { functionCode, payload };
+}
+
+/**
+ * Validate the request, persist a QUEUED row, fire pg_notify so the gateway
+ * can pick it up. Returns the row.
+ *
+ * Rejects with 4xx if the terminal doesn't exist OR the kind is `set-params`
+ * but the param list is empty.
+ */
+export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: input.terminalId },
+    select: { id: true, status: true, gatewayPodId: true, protocol: true, phoneNumber: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  const { functionCode, payload } = buildCommandPayload(input);
+
+  const channel = input.channel ?? 'DATA';
+  if (channel === 'SMS') {
+    if (input.scheduledFor) {
+      throw new AppError('SMS commands are sent right away and cannot be scheduled', 400);
+    }
+    if (!terminal.phoneNumber) {
+      throw new AppError('Terminal has no phone number to send an SMS to', 400);
+    }
+    if (!smsCommandService.smsPhoneNumber(terminal.phoneNumber)) {
+      throw new AppError(
+        `Terminal phone number ${terminal.phoneNumber} has no country code; set GPS_SMS_DEFAULT_COUNTRY_CODE or store it in international form`,
+        400,
+      );
+    }
+    if (!smsCommandService.renderSmsCommand(payload)) {
+      throw new AppError(`Command ${input.kind} has no SMS template`, 400);
+    }
+  } else if (terminal.protocol === 'GT06' && gt06CommandText(payload) === null) {
+    // GT06 terminals only take a few text commands; refuse the rest here
+    // rather than let the gateway fail the row.
+    throw new AppError(`Command ${input.kind} is not supported by GT06 terminals`, 400);
+  }
 
   const cmd = await prisma.gpsCommand.create({
     data: {
@@ -196,11 +348,14 @@ export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
       functionCode,
       payload,
       status: 'QUEUED',
+      channel,
+      batchId: input.batchId ?? null,
+      // SMS rows are sent once, by hand — no retries.
+      maxAttempts: channel === 'SMS' ? 1 : RETRY_POLICIES[input.kind].maxAttempts,
+      notBefore: input.scheduledFor ?? null,
     },
   });
 
-  void emitCommandQueued({ commandId: cmd.id });
-
   logger.info('Command enqueued', {
     commandId: cmd.id,
     terminalId: cmd.terminalId,
@@ -208,7 +363,15 @@ export async function enqueueCommand(input: EnqueueInput): Promise<GpsCommand> {
     userId: cmd.userId,
     functionCode: `0x${functionCode.toString(16).padStart(4, '0')}`,
     kind: input.kind,
+    channel,
+    ...(input.batchId ? { batchId: input.batchId } : {}),
+    ...(input.scheduledFor ? { scheduledFor: input.scheduledFor.toISOString() } : {}),
   });
+
+  // SMS rows never reach the gateway; send them from here.
+  if (channel === 'SMS') return smsCommandService.sendSmsCommand(cmd.id);
+
+  void emitCommandQueued({ commandId: cmd.id, podId: terminal.gatewayPodId });
   return cmd;
 }
 
@@ -223,14 +386,17 @@ export async function markSent(args: {
   commandId: string;
   rawBytes: Buffer;
   serialNumber: number;
+  gatewayPodId: string;
 }): Promise<boolean> {
   const result = await prisma.gpsCommand.updateMany({
-    where: { id: args.commandId, status: 'QUEUED' },
+    // channel guard: a row switched to SMS while queued is no longer ours.
+    where: { id: args.commandId, status: 'QUEUED', channel: 'DATA' },
     data: {
       status: 'SENT',
       sentAt: new Date(),
       rawBytesSent: args.rawBytes,
       serialNumber: args.serialNumber,
+      gatewayPodId: args.gatewayPodId,
     },
   });
   return result.count === 1;
@@ -251,7 +417,7 @@ export async function markAcked(args: {
   // use JT808_ACKED instead of ACKED and record the jt808Ack* fields.
   const cmd = await prisma.gpsCommand.findUnique({
     where: { id: args.commandId },
-    select: { terminalId: true, payload: true, status: true },
+    select: { terminalId: true, payload: true, status: true, batchId: true },
   });
   if (!cmd || cmd.status !== 'SENT') return false;
 
@@ -272,6 +438,8 @@ export async function markAcked(args: {
     },
   });
   if (result.count === 1) {
+    fireBatchSettled(cmd.batchId, args.commandId);
+
     void fire4gAlwaysOnlineJt808Ack(args.commandId, args.result, is4g).catch((err) =>
       logger.warn('markAcked: 4G always-online callback failed', {
         commandId: args.commandId,
@@ -279,11 +447,19 @@ export async function markAcked(args: {
       }),
     );
 
-    // set-params acked: persist any "interesting" parameter values back onto
-    // the GpsTerminal row so we don't re-send identical commands on the
-    // next reconnect. Today we only care about the location report
-    // interval (id 0x0029) which `handleAuth` pins to 10 s, but the same
-    // shape extends to heartbeat (0x0001), TCP reconnect (0x0027), etc.
+    if (payload?.kind === 'temporary-tracking') {
+      void trackingService.onTrackingCommandAcked(args.commandId, args.result, now).catch((err) =>
+        logger.warn('markAcked: tracking session update failed', {
+          commandId: args.commandId,
+          err: (err as Error).message,
+        }),
+      );
+    }
+
+    // set-params acked: persist the written values back onto the
+    // GpsTerminal row so we don't re-send identical commands on the next
+    // reconnect (`handleAuth` pins the 0x0029 report interval to 10 s) and
+    // the admin parameter editor shows them without a fresh 0x8104.
     if (
       payload?.kind === 'set-params' &&
       Array.isArray(payload.items) &&
@@ -302,39 +478,40 @@ export async function markAcked(args: {
 }
 
 /**
- * Mirror acked 0x8103 parameter values onto the GpsTerminal row. Only the
- * subset of parameter ids we expose as columns is mirrored; the rest are
- * folded into the catch-all `parameters` JSON blob (Phase-4 will round-trip
- * 0x8104 reads through it). Best-effort \u2014 never throws.
+ * Mirror acked 0x8103 parameter values onto the GpsTerminal row: merged into
+ * `parameters.values` (same registry keys a 0x0104 dump produces) and, for
+ * the few ids with their own column, onto that column. Best-effort — the
+ * caller swallows errors; the next 0x8104 query is the source of truth.
  */
 async function persistSetParamsToTerminal(
   terminalId: string,
   items: Array<{ id: number; value: unknown }>,
 ): Promise<void> {
-  const data: Prisma.GpsTerminalUpdateInput = {};
-  for (const it of items) {
-    if (typeof it.value !== 'number') continue;
-    switch (it.id) {
-      case 0x0001: // heartbeat interval (s)
-        data.heartbeatIntervalSec = it.value;
-        break;
-      case 0x0029: // default location report interval (s)
-        data.reportIntervalSec = it.value;
-        break;
-      case 0x0027: // TCP reconnect interval (s)
-        data.tcpReconnectSec = it.value;
-        break;
-      case 0x0028: // TCP reply timeout (s)
-        data.tcpReplySec = it.value;
-        break;
-      default:
-        // Other parameter ids are ignored here \u2014 they live in the
-        // structured-but-untyped `parameters` JSON populated by 0x8104
-        // query responses (Phase 4).
-        break;
-    }
+  const written = decodeParamValues(items);
+  if (Object.keys(written).length === 0) return;
+
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: terminalId },
+    select: { parameters: true },
+  });
+  if (!terminal) return;
+  const current = (terminal.parameters ?? {}) as { values?: Record<string, unknown> };
+
+  const data: Prisma.GpsTerminalUpdateInput = {
+    parameters: {
+      ...current,
+      values: { ...(current.values ?? {}), ...written },
+    } as Prisma.InputJsonValue,
+  };
+  if (typeof written.heartbeatIntervalSec === 'number') {
+    data.heartbeatIntervalSec = written.heartbeatIntervalSec;
+  }
+  if (typeof written.reportIntervalSec === 'number') {
+    data.reportIntervalSec = written.reportIntervalSec;
+  }
+  if (typeof written.tcpReplyTimeoutSec === 'number') {
+    data.tcpReplySec = written.tcpReplyTimeoutSec;
   }
-  if (Object.keys(data).length === 0) return;
   await prisma.gpsTerminal.update({ where: { id: terminalId }, data });
 }
 
@@ -478,13 +655,28 @@ export async function markFailed(args: {
   errorText: string;
   /** Allowed previous statuses — defaults to ['QUEUED','SENT']. */
   fromStatus?: ('QUEUED' | 'SENT' | 'JT808_ACKED')[];
+  /**
+   * The failure says nothing about the command (ack timeout, socket gone),
+   * so another send may work: re-queue while the retry policy allows.
+   */
+  retryable?: boolean;
 }): Promise<boolean> {
   const allowed = args.fromStatus ?? ['QUEUED', 'SENT'];
+  if (args.retryable) {
+    const outcome = await retryCommand(args.commandId, allowed, args.errorText);
+    if (outcome !== 'exhausted') return outcome === 'requeued';
+  }
   const result = await prisma.gpsCommand.updateMany({
     where: { id: args.commandId, status: { in: allowed } },
     data: { status: 'FAILED', errorText: args.errorText, ackAt: new Date() },
   });
   if (result.count === 1) {
+    const row = await prisma.gpsCommand.findUnique({
+      where: { id: args.commandId },
+      select: { batchId: true },
+    });
+    fireBatchSettled(row?.batchId ?? null, args.commandId);
+
     // Fire 4G always-online failure callback if applicable.
     void fire4gAlwaysOnlineFail(args.commandId, args.errorText).catch((err) =>
       logger.warn('markFailed: 4G always-online callback failed', {
@@ -496,6 +688,93 @@ export async function markFailed(args: {
   return result.count === 1;
 }
 
+/**
+ * Put a failed send back in the queue for another attempt, archiving it in
+ * `attempts`. `exhausted` leaves the caller to fail the row; `raced` means
+ * the row already moved on (acked, or re-queued by another failure path).
+ */
+async function retryCommand(
+  commandId: string,
+  allowed: GpsCommandStatus[],
+  errorText: string,
+): Promise<'requeued' | 'exhausted' | 'raced'> {
+  const cmd = await prisma.gpsCommand.findUnique({
+    where: { id: commandId },
+    select: {
+      terminalId: true,
+      status: true,
+      channel: true,
+      payload: true,
+      attempt: true,
+      maxAttempts: true,
+      attempts: true,
+      sentAt: true,
+      serialNumber: true,
+      gatewayPodId: true,
+    },
+  });
+  if (!cmd || !allowed.includes(cmd.status)) return 'raced';
+  const kind = (cmd.payload as { kind?: CommandKind } | null)?.kind;
+  const policy = kind && !DESTRUCTIVE_KINDS.has(kind) ? RETRY_POLICIES[kind] : undefined;
+  if (cmd.channel !== 'DATA' || !policy || cmd.attempt >= cmd.maxAttempts) return 'exhausted';
+
+  const now = new Date();
+  const notBefore = new Date(now.getTime() + policy.backoffMs * 2 ** (cmd.attempt - 1));
+  const failed: CommandAttempt = {
+    attempt: cmd.attempt,
+    sentAt: cmd.sentAt?.toISOString() ?? null,
+    serialNumber: cmd.serialNumber,
+    gatewayPodId: cmd.gatewayPodId,
+    failedAt: now.toISOString(),
+    errorText,
+  };
+  const history = Array.isArray(cmd.attempts) ? cmd.attempts : [];
+  const result = await prisma.gpsCommand.updateMany({
+    // attempt guard: read-modify-write of `attempts` is safe under it.
+    where: { id: commandId, status: { in: allowed }, attempt: cmd.attempt },
+    data: {
+      status: 'QUEUED',
+      attempt: cmd.attempt + 1,
+      attempts: [...history, failed] as unknown as Prisma.InputJsonValue,
+      notBefore,
+      expiresAt: policy.requeueOnReconnect ? new Date(notBefore.getTime() + REQUEUE_HOLD_MS) : null,
+      errorText: null,
+      sentAt: null,
+      serialNumber: null,
+      rawBytesSent: null,
+      gatewayPodId: null,
+    },
+  });
+  if (result.count === 0) return 'raced';
+
+  // No notify: the row isn't due yet. The dispatcher's periodic sweep (or
+  // the terminal's next connect) picks it up once `notBefore` passes.
+  logger.info('Command re-queued for retry', {
+    commandId,
+    terminalId: cmd.terminalId,
+    attempt: cmd.attempt + 1,
+    maxAttempts: cmd.maxAttempts,
+    notBefore: notBefore.toISOString(),
+    errorText,
+  });
+  return 'requeued';
+}
+
+/**
+ * A command of a bulk batch settled: let the batch release its next
+ * terminals and report progress. Fire-and-forget like the other hooks.
+ */
+function fireBatchSettled(batchId: string | null, commandId?: string): void {
+  if (!batchId) return;
+  void commandBatchService.onBatchCommandSettled(batchId).catch((err) =>
+    logger.warn('command batch update failed', {
+      batchId,
+      commandId,
+      err: (err as Error).message,
+    }),
+  );
+}
+
 // ── 4G Always-Online lifecycle hooks ────────────────────────────────────────
 
 async function fire4gAlwaysOnlineJt808Ack(
@@ -609,11 +888,15 @@ async function fire4gAlwaysOnlineFail(commandId: string, errorText: string) {
 
 // ── Cron sweeps ─────────────────────────────────────────────────────────────
 
-/** SENT commands that haven't been ACKED within `ms` get marked FAILED (JT808_ACK_TIMEOUT for 4G commands). */
+/**
+ * SENT commands that haven't been ACKED within `ms` get marked FAILED
+ * (JT808_ACK_TIMEOUT for 4G commands). SMS-channel rows have their own,
+ * longer window — see gps-sms-command.service `timeoutSmsCommands`.
+ */
 export async function timeoutSentCommands(ms: number): Promise<number> {
   const cutoff = new Date(Date.now() - ms);
   const stale = await prisma.gpsCommand.findMany({
-    where: { status: 'SENT', sentAt: { lt: cutoff } },
+    where: { status: 'SENT', channel: 'DATA', sentAt: { lt: cutoff } },
     select: { id: true, payload: true },
   });
   let n = 0;
@@ -636,6 +919,7 @@ export async function timeoutSentCommands(ms: number): Promise<number> {
         commandId: row.id,
         errorText: 'timeout: no 0x0001 ack within window',
         fromStatus: ['SENT'],
+        retryable: true,
       });
       if (ok) n++;
     }
@@ -660,15 +944,27 @@ export async function timeoutVendorResponseCommands(ms: number): Promise<number>
   return n;
 }
 
-/** QUEUED commands older than `ms` get marked EXPIRED. */
+/**
+ * QUEUED commands that have waited more than `ms` since they became due
+ * (`notBefore`, else creation) get marked EXPIRED — or, when the row
+ * carries its own `expiresAt`, once that passes instead.
+ */
 export async function expireStaleQueuedCommands(ms: number): Promise<number> {
-  const cutoff = new Date(Date.now() - ms);
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - ms);
+  const stale: Prisma.GpsCommandWhereInput = {
+    status: 'QUEUED',
+    OR: [
+      { expiresAt: null, notBefore: null, createdAt: { lt: cutoff } },
+      { expiresAt: null, notBefore: { lt: cutoff } },
+      { expiresAt: { lt: now } },
+    ],
+  };
 
   // First, find 4G always-online commands that will expire so we can update terminal status
   const fourGCommands = await prisma.gpsCommand.findMany({
     where: {
-      status: 'QUEUED',
-      createdAt: { lt: cutoff },
+      ...stale,
       payload: {
         path: ['kind'],
         string_contains: '4g-always-online',
@@ -694,10 +990,17 @@ export async function expireStaleQueuedCommands(ms: number): Promise<number> {
     }
   }
 
+  const batches = await prisma.gpsCommand.findMany({
+    where: { ...stale, batchId: { not: null } },
+    distinct: ['batchId'],
+    select: { batchId: true },
+  });
+
   const result = await prisma.gpsCommand.updateMany({
-    where: { status: 'QUEUED', createdAt: { lt: cutoff } },
+    where: stale,
     data: { status: 'EXPIRED', errorText: 'expired: no live session in window' },
   });
+  for (const b of batches) fireBatchSettled(b.batchId);
   if (result.count > 0) {
     logger.info('expireStaleQueuedCommands: expired N commands', {
       count: result.count,
@@ -715,6 +1018,7 @@ interface ListOptions {
   terminalId?: string;
   status?: 'QUEUED' | 'SENT' | 'ACKED' | 'FAILED' | 'EXPIRED' | 'JT808_ACKED' | 'VENDOR_RESPONSE_RECEIVED' | 'JT808_ACK_TIMEOUT' | 'VENDOR_RESPONSE_TIMEOUT';
   adminId?: string;
+  batchId?: string;
   since?: Date;
   until?: Date;
 }
@@ -724,6 +1028,7 @@ export async function listCommands(opts: ListOptions) {
   if (opts.terminalId) where.terminalId = opts.terminalId;
   if (opts.status) where.status = opts.status;
   if (opts.adminId) where.adminId = opts.adminId;
+  if (opts.batchId) where.batchId = opts.batchId;
   if (opts.since || opts.until) {
     where.createdAt = {};
     if (opts.since) (where.createdAt as Record<string, unknown>).gte = opts.since;
@@ -739,7 +1044,14 @@ export async function listCommands(opts: ListOptions) {
       skip: (opts.page - 1) * opts.limit,
       include: {
         terminal: {
-          select: { id: true, deviceIdentifier: true, imei: true, nickname: true, vehicleVin: true },
+          select: {
+            id: true,
+            deviceIdentifier: true,
+            imei: true,
+            nickname: true,
+            vehicleVin: true,
+            phoneNumber: true,
+          },
         },
         admin: {
           select: { id: true, email: true },
@@ -777,6 +1089,14 @@ export async function getCommandDetail(commandId: string) {
       response: true,
       errorText: true,
       serialNumber: true,
+      channel: true,
+      smsProviderMessageId: true,
+      batchId: true,
+      attempt: true,
+      maxAttempts: true,
+      attempts: true,
+      notBefore: true,
+      expiresAt: true,
       sentAt: true,
       ackAt: true,
       jt808AckAt: true,
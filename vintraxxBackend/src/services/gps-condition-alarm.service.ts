@@ -0,0 +1,95 @@
+/**
+ * gps-condition-alarm.service — alarms derived from telemetry values rather
+ * than 0x0200 alarm bits (EV pack health, parked-vehicle checks).
+ *
+ * Same model as alarm-diff: a condition that becomes true opens a GpsAlarm
+ * row unless one of that type is already open; a condition that becomes
+ * false closes the open row.
+ */
+
+import prisma from '../config/db';
+import {
+  Prisma,
+  type GpsAlarmSeverity,
+  type GpsAlarmType,
+  type GpsTerminal,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import { emit as emitNotify } from '../realtime/notify';
+import { maybeSendCriticalAlarmPush } from './gps-alarm-bridge.service';
+
+export interface ConditionAlarm {
+  type: GpsAlarmType;
+  severity: GpsAlarmSeverity;
+  active: boolean;
+  extraData: Record<string, unknown>;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Open or close the single alarm row tracking one condition. Failures are
+ * logged and swallowed — callers have already persisted the telemetry the
+ * condition was judged from.
+ */
+export async function syncConditionAlarm(
+  terminal: GpsTerminal,
+  at: Date,
+  cond: ConditionAlarm,
+): Promise<void> {
+  try {
+    const open = await prisma.gpsAlarm.findFirst({
+      where: { terminalId: terminal.id, type: cond.type, closedAt: null },
+      select: { id: true },
+    });
+
+    if (cond.active && !open) {
+      const alarm = await prisma.gpsAlarm.create({
+        data: {
+          terminalId: terminal.id,
+          ownerUserId: terminal.ownerUserId,
+          driverId: terminal.currentDriverId,
+          type: cond.type,
+          severity: cond.severity,
+          openedAt: at,
+          latitude:
+            cond.latitude !== undefined ? new Prisma.Decimal(cond.latitude.toFixed(7)) : null,
+          longitude:
+            cond.longitude !== undefined ? new Prisma.Decimal(cond.longitude.toFixed(7)) : null,
+          extraData: cond.extraData as Prisma.InputJsonValue,
+        },
+      });
+      void emitNotify({
+        type: 'alarm.opened',
+        terminalId: terminal.id,
+        ownerUserId: terminal.ownerUserId,
+        alarmId: alarm.id,
+        alarmType: alarm.type,
+        severity: alarm.severity,
+        at: alarm.openedAt.toISOString(),
+      });
+      void maybeSendCriticalAlarmPush({ alarm, terminal });
+      return;
+    }
+
+    if (!cond.active && open) {
+      const closedAt = new Date();
+      await prisma.gpsAlarm.update({ where: { id: open.id }, data: { closedAt } });
+      void emitNotify({
+        type: 'alarm.closed',
+        terminalId: terminal.id,
+        ownerUserId: terminal.ownerUserId,
+        alarmId: open.id,
+        alarmType: cond.type,
+        severity: cond.severity,
+        at: closedAt.toISOString(),
+      });
+    }
+  } catch (err) {
+    logger.warn('[gps-condition-alarm] failed to sync alarm', {
+      terminalId: terminal.id,
+      type: cond.type,
+      err: (err as Error).message,
+    });
+  }
+}
@@ -0,0 +1,505 @@
+/**
+ * gps-config-profile.service — named terminal configuration profiles and
+ * drift detection.
+ *
+ * A profile is a desired parameter set ([{ id, value }], validated against
+ * the parameter registry). A terminal gets one either directly
+ * (`GpsTerminal.configProfileId`) or through its `fleetGroup`, which at most
+ * one profile lists. Per terminal, `configStatus` tracks where it stands:
+ *
+ *   assignment / profile edit ──> PENDING
+ *   0x0104 read-back            ──> IN_SYNC | DRIFTED (mismatches in configDrift)
+ *
+ * Pushing: when a terminal that isn't IN_SYNC connects, the gateway's
+ * command-dispatcher calls `pushConfigProfile`, which queues the whole
+ * profile as one system set-params followed by a read-params to verify it.
+ * `pushProfileToOnlineTerminals` does the same on demand for terminals that
+ * are connected right now.
+ *
+ * Sweep: `sweepConfigProfiles` (backend cron) pushes to online terminals
+ * left PENDING by an edit made while they were connected, and queues a
+ * read-params for every other online profiled terminal not checked within
+ * READBACK_INTERVAL_MS. Whatever 0x0104 comes back — ours or an admin's —
+ * is compared in `recordConfigReadBack`. DRIFTED terminals are only flagged;
+ * they get the profile again on their next connect or an explicit push.
+ *
+ * Only JT/T 808 terminals take set-params / read-params; GT06 terminals can
+ * carry a profile but are never pushed or read back.
+ */
+
+import prisma from '../config/db';
+import {
+  Prisma,
+  type GpsConfigProfile,
+  type GpsConfigSyncStatus,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import {
+  formatParamId,
+  normalizeParamWrite,
+  paramDef,
+  type ParamValue,
+} from '../gateway/codec/param-registry';
+import { enqueueCommand } from './gps-command.service';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/** How often an online profiled terminal is read back (0x8104). */
+const READBACK_INTERVAL_MS = 6 * 60 * 60_000;
+
+/** Pushes / read-backs queued per sweep, so a fleet-wide edit doesn't flood the queue. */
+const READBACK_BATCH = 200;
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface ProfileParam {
+  id: number;
+  value: ParamValue;
+}
+
+/** One parameter whose read-back value differs from the profile. */
+export interface ConfigDriftItem {
+  id: string;
+  key: string;
+  expected: ParamValue;
+  /** Null when the device didn't report the parameter at all. */
+  actual: ParamValue | ParamValue[] | null;
+}
+
+interface ProfileInput {
+  name: string;
+  description?: string | null;
+  params: ProfileParam[];
+  fleetGroups: string[];
+}
+
+// ── Admin CRUD ──────────────────────────────────────────────────────────────
+
+export async function listProfiles() {
+  const profiles = await prisma.gpsConfigProfile.findMany({ orderBy: { name: 'asc' } });
+  const withCounts = await Promise.all(
+    profiles.map(async (p) => ({ ...p, statusCounts: await statusCounts(p) })),
+  );
+  return { profiles: withCounts };
+}
+
+export async function getProfile(profileId: string) {
+  const profile = await findProfileOrThrow(profileId);
+  return { ...profile, statusCounts: await statusCounts(profile) };
+}
+
+export async function createProfile(input: ProfileInput & { adminId: string }) {
+  const params = validateParams(input.params);
+  await assertNameFree(input.name);
+  await assertGroupsFree(input.fleetGroups);
+
+  const profile = await prisma.gpsConfigProfile.create({
+    data: {
+      name: input.name,
+      description: input.description ?? null,
+      params: params as unknown as Prisma.InputJsonValue,
+      fleetGroups: input.fleetGroups,
+      createdByAdminId: input.adminId,
+    },
+  });
+  // Terminals that join through a group (direct assignment needs the id).
+  await setConfigStatus(profileTerminalsWhere(profile), 'PENDING');
+  logger.info('Config profile created', { profileId: profile.id, name: profile.name });
+  return getProfile(profile.id);
+}
+
+/**
+ * A params change re-opens every terminal on the profile (PENDING). A
+ * fleetGroups change re-opens the terminals that join and clears the ones
+ * that leave — they have no profile any more, as a group belongs to at most
+ * one.
+ */
+export async function updateProfile(profileId: string, patch: Partial<ProfileInput>) {
+  const before = await findProfileOrThrow(profileId);
+  const params = patch.params !== undefined ? validateParams(patch.params) : undefined;
+  if (patch.name !== undefined && patch.name !== before.name) await assertNameFree(patch.name);
+  if (patch.fleetGroups !== undefined) await assertGroupsFree(patch.fleetGroups, profileId);
+
+  const after = await prisma.gpsConfigProfile.update({
+    where: { id: profileId },
+    data: {
+      name: patch.name,
+      description: patch.description,
+      params: params as unknown as Prisma.InputJsonValue | undefined,
+      fleetGroups: patch.fleetGroups,
+    },
+  });
+
+  if (patch.fleetGroups !== undefined) {
+    const left = before.fleetGroups.filter((g) => !after.fleetGroups.includes(g));
+    const joined = after.fleetGroups.filter((g) => !before.fleetGroups.includes(g));
+    if (left.length > 0) {
+      await setConfigStatus({ configProfileId: null, fleetGroup: { in: left } }, null);
+    }
+    if (joined.length > 0) {
+      await setConfigStatus({ configProfileId: null, fleetGroup: { in: joined } }, 'PENDING');
+    }
+  }
+  if (params !== undefined && JSON.stringify(params) !== JSON.stringify(before.params)) {
+    await setConfigStatus(profileTerminalsWhere(after), 'PENDING');
+  }
+  logger.info('Config profile updated', { profileId });
+  return getProfile(profileId);
+}
+
+export async function deleteProfile(profileId: string) {
+  const profile = await findProfileOrThrow(profileId);
+  // Direct assignments are nulled by the FK; group members just lose it.
+  await setConfigStatus(profileTerminalsWhere(profile), null);
+  await prisma.gpsConfigProfile.delete({ where: { id: profileId } });
+  logger.info('Config profile deleted', { profileId });
+  return { id: profileId };
+}
+
+export async function listProfileTerminals(args: {
+  profileId: string;
+  status?: GpsConfigSyncStatus;
+  page: number;
+  limit: number;
+}) {
+  const profile = await findProfileOrThrow(args.profileId);
+  const where: Prisma.GpsTerminalWhereInput = {
+    ...profileTerminalsWhere(profile),
+    ...(args.status ? { configStatus: args.status } : {}),
+  };
+  const [terminals, total] = await Promise.all([
+    prisma.gpsTerminal.findMany({
+      where,
+      orderBy: [{ configStatus: 'asc' }, { deviceIdentifier: 'asc' }],
+      skip: (args.page - 1) * args.limit,
+      take: args.limit,
+      select: {
+        id: true,
+        deviceIdentifier: true,
+        nickname: true,
+        vehicleVin: true,
+        status: true,
+        protocol: true,
+        fleetGroup: true,
+        configProfileId: true,
+        configStatus: true,
+        configCheckedAt: true,
+        configDrift: true,
+      },
+    }),
+    prisma.gpsTerminal.count({ where }),
+  ]);
+  return {
+    terminals,
+    page: args.page,
+    limit: args.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / args.limit)),
+  };
+}
+
+/** Push now to every connected terminal on the profile that isn't IN_SYNC. */
+export async function pushProfileToOnlineTerminals(profileId: string) {
+  const profile = await findProfileOrThrow(profileId);
+  const terminals = await prisma.gpsTerminal.findMany({
+    where: {
+      ...profileTerminalsWhere(profile),
+      status: 'ONLINE',
+      protocol: 'JT808',
+      configStatus: { in: ['PENDING', 'DRIFTED'] },
+    },
+    select: { id: true },
+  });
+  let queued = 0;
+  for (const t of terminals) {
+    if (await pushConfigProfile(t.id)) queued++;
+  }
+  return { queued };
+}
+
+// ── Terminal assignment ─────────────────────────────────────────────────────
+
+/** 404 unless `profileId` exists — for the terminal update path. */
+export async function assertProfileExists(profileId: string): Promise<void> {
+  await findProfileOrThrow(profileId);
+}
+
+/**
+ * Re-resolve a terminal's profile after its `configProfileId` or
+ * `fleetGroup` changed: PENDING if one applies now, cleared otherwise.
+ */
+export async function refreshTerminalConfig(terminalId: string): Promise<void> {
+  const profile = await effectiveProfileFor(terminalId);
+  await setConfigStatus({ id: terminalId }, profile ? 'PENDING' : null);
+}
+
+/** The profile a terminal runs with: its own, else its fleet group's. */
+export async function effectiveProfileFor(terminalId: string): Promise<GpsConfigProfile | null> {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: terminalId },
+    select: { fleetGroup: true, configProfile: true },
+  });
+  if (!terminal) return null;
+  if (terminal.configProfile) return terminal.configProfile;
+  if (!terminal.fleetGroup) return null;
+  return prisma.gpsConfigProfile.findFirst({
+    where: { fleetGroups: { has: terminal.fleetGroup } },
+  });
+}
+
+/** True when the terminal's profile sets parameter `id`. */
+export async function profileSetsParam(terminalId: string, id: number): Promise<boolean> {
+  const profile = await effectiveProfileFor(terminalId);
+  return profile !== null && profileParams(profile).some((p) => p.id === id);
+}
+
+// ── Push (gateway side) ─────────────────────────────────────────────────────
+
+/**
+ * Queue the terminal's profile as one set-params plus a verifying
+ * read-params. No-op (false) when the terminal has no profile, is IN_SYNC,
+ * isn't JT/T 808, or a push of the same profile is still in flight.
+ */
+export async function pushConfigProfile(terminalId: string): Promise<boolean> {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: terminalId },
+    select: { protocol: true, configStatus: true },
+  });
+  if (!terminal || terminal.protocol !== 'JT808') return false;
+  if (terminal.configStatus === null || terminal.configStatus === 'IN_SYNC') return false;
+
+  const profile = await effectiveProfileFor(terminalId);
+  if (!profile) return false;
+  const params = profileParams(profile);
+  if (params.length === 0) return false;
+
+  const inFlight = await prisma.gpsCommand.findFirst({
+    where: {
+      terminalId,
+      status: { in: ['QUEUED', 'SENT'] },
+      payload: { path: ['configProfileId'], equals: profile.id },
+    },
+    select: { id: true },
+  });
+  if (inFlight) return false;
+
+  // System-issued: both originator columns null.
+  const cmd = await enqueueCommand({
+    terminalId,
+    adminId: null,
+    userId: null,
+    kind: 'set-params',
+    setParams: params,
+    configProfileId: profile.id,
+  });
+  await enqueueCommand({ terminalId, adminId: null, userId: null, kind: 'read-params' });
+  logger.info('Config profile pushed', {
+    terminalId,
+    profileId: profile.id,
+    commandId: cmd.id,
+    paramCount: params.length,
+  });
+  return true;
+}
+
+// ── Read-back ───────────────────────────────────────────────────────────────
+
+/**
+ * Compare a 0x0104 read-back with the terminal's profile and record the
+ * outcome. Only the profile's parameters count; anything else the device
+ * reports is none of the profile's business.
+ */
+export async function recordConfigReadBack(
+  terminalId: string,
+  values: Record<string, ParamValue | ParamValue[]>,
+): Promise<void> {
+  const profile = await effectiveProfileFor(terminalId);
+  if (!profile) return;
+
+  const drift: ConfigDriftItem[] = [];
+  for (const p of profileParams(profile)) {
+    const def = paramDef(p.id);
+    if (!def) continue;
+    const actual = values[def.key];
+    if (!sameValue(p.value, actual)) {
+      drift.push({ id: formatParamId(p.id), key: def.key, expected: p.value, actual: actual ?? null });
+    }
+  }
+
+  await prisma.gpsTerminal.update({
+    where: { id: terminalId },
+    data: {
+      configStatus: drift.length === 0 ? 'IN_SYNC' : 'DRIFTED',
+      configCheckedAt: new Date(),
+      configDrift: drift.length === 0 ? Prisma.DbNull : (drift as unknown as Prisma.InputJsonValue),
+    },
+  });
+  if (drift.length > 0) {
+    logger.warn('Terminal configuration drifted from profile', {
+      terminalId,
+      profileId: profile.id,
+      drifted: drift.map((d) => d.id),
+    });
+  }
+}
+
+/**
+ * Cron: push PENDING online terminals, then queue a read-params for each
+ * other online profiled terminal whose last check is older than
+ * READBACK_INTERVAL_MS (or that was never checked).
+ */
+export async function sweepConfigProfiles(): Promise<{ pushed: number; readBacks: number }> {
+  const pending = await prisma.gpsTerminal.findMany({
+    where: { status: 'ONLINE', protocol: 'JT808', configStatus: 'PENDING' },
+    take: READBACK_BATCH,
+    select: { id: true },
+  });
+  let pushed = 0;
+  for (const t of pending) {
+    try {
+      if (await pushConfigProfile(t.id)) pushed++;
+    } catch (err) {
+      logger.warn('sweepConfigProfiles: push failed', {
+        terminalId: t.id,
+        err: (err as Error).message,
+      });
+    }
+  }
+
+  const cutoff = new Date(Date.now() - READBACK_INTERVAL_MS);
+  const due = await prisma.gpsTerminal.findMany({
+    where: {
+      status: 'ONLINE',
+      protocol: 'JT808',
+      configStatus: { in: ['IN_SYNC', 'DRIFTED'] },
+      OR: [{ configCheckedAt: null }, { configCheckedAt: { lt: cutoff } }],
+      commands: {
+        none: {
+          status: { in: ['QUEUED', 'SENT'] },
+          payload: { path: ['kind'], equals: 'read-params' },
+        },
+      },
+    },
+    orderBy: { configCheckedAt: { sort: 'asc', nulls: 'first' } },
+    take: READBACK_BATCH,
+    select: { id: true },
+  });
+
+  let readBacks = 0;
+  for (const t of due) {
+    try {
+      await enqueueCommand({ terminalId: t.id, adminId: null, userId: null, kind: 'read-params' });
+      readBacks++;
+    } catch (err) {
+      logger.warn('sweepConfigProfiles: read-back enqueue failed', {
+        terminalId: t.id,
+        err: (err as Error).message,
+      });
+    }
+  }
+  if (pushed + readBacks > 0) {
+    logger.info('sweepConfigProfiles: queued pushes and read-backs', { pushed, readBacks });
+  }
+  return { pushed, readBacks };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+async function findProfileOrThrow(profileId: string): Promise<GpsConfigProfile> {
+  const profile = await prisma.gpsConfigProfile.findUnique({ where: { id: profileId } });
+  if (!profile) throw new AppError('Config profile not found', 404);
+  return profile;
+}
+
+/** Registry-checked, one entry per id, no one-shot actions. */
+function validateParams(params: ProfileParam[]): ProfileParam[] {
+  const seen = new Set<number>();
+  return params.map((p) => {
+    if (seen.has(p.id)) {
+      throw new AppError(`param ${formatParamId(p.id)} appears more than once`, 400);
+    }
+    seen.add(p.id);
+    if (paramDef(p.id)?.action) {
+      // Re-sent on every push — a "clear mileage" would fire each time.
+      throw new AppError(`param ${formatParamId(p.id)} is a one-shot action, not a setting`, 400);
+    }
+    try {
+      const { id, value } = normalizeParamWrite(p);
+      return { id, value };
+    } catch (err) {
+      throw new AppError((err as Error).message, 400);
+    }
+  });
+}
+
+async function assertNameFree(name: string): Promise<void> {
+  const clash = await prisma.gpsConfigProfile.findUnique({ where: { name }, select: { id: true } });
+  if (clash) throw new AppError(`A config profile named "${name}" already exists`, 409);
+}
+
+async function assertGroupsFree(groups: string[], exceptProfileId?: string): Promise<void> {
+  if (groups.length === 0) return;
+  const clash = await prisma.gpsConfigProfile.findFirst({
+    where: {
+      fleetGroups: { hasSome: groups },
+      ...(exceptProfileId ? { NOT: { id: exceptProfileId } } : {}),
+    },
+    select: { name: true, fleetGroups: true },
+  });
+  if (clash) {
+    const taken = groups.filter((g) => clash.fleetGroups.includes(g));
+    throw new AppError(
+      `Fleet group ${taken.join(', ')} already belongs to profile "${clash.name}"`,
+      409,
+    );
+  }
+}
+
+function profileParams(profile: GpsConfigProfile): ProfileParam[] {
+  return Array.isArray(profile.params) ? (profile.params as unknown as ProfileParam[]) : [];
+}
+
+/** Terminals the profile applies to: assigned directly, or via a group. */
+function profileTerminalsWhere(profile: GpsConfigProfile): Prisma.GpsTerminalWhereInput {
+  return {
+    OR: [
+      { configProfileId: profile.id },
+      ...(profile.fleetGroups.length > 0
+        ? [{ configProfileId: null, fleetGroup: { in: profile.fleetGroups } }]
+        : []),
+    ],
+  };
+}
+
+async function setConfigStatus(
+  where: Prisma.GpsTerminalWhereInput,
+  status: GpsConfigSyncStatus | null,
+): Promise<void> {
+  await prisma.gpsTerminal.updateMany({
+    where,
+    data:
+      status === null
+        ? { configStatus: null, configCheckedAt: null, configDrift: Prisma.DbNull }
+        : { configStatus: status, configDrift: Prisma.DbNull },
+  });
+}
+
+async function statusCounts(profile: GpsConfigProfile) {
+  const rows = await prisma.gpsTerminal.groupBy({
+    by: ['configStatus'],
+    where: profileTerminalsWhere(profile),
+    _count: { _all: true },
+  });
+  const counts = { total: 0, PENDING: 0, IN_SYNC: 0, DRIFTED: 0 };
+  for (const r of rows) {
+    counts.total += r._count._all;
+    if (r.configStatus) counts[r.configStatus] += r._count._all;
+  }
+  return counts;
+}
+
+/** BYTES values are lowercase hex on both sides, so strict equality holds. */
+function sameValue(expected: ParamValue, actual: ParamValue | ParamValue[] | undefined): boolean {
+  return !Array.isArray(actual) && actual === expected;
+}
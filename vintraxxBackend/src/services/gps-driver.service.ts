@@ -0,0 +1,296 @@
+/**
+ * gps-driver.service — Driver roster + driver identification from the
+ * gateway.
+ *
+ * Gateway side:
+ *   • `identifyDriver` — a 0x0702 card insert or 0x0252 license login.
+ *     Resolves (or auto-creates) the Driver under the terminal's owner, sets
+ *     it as the terminal's current driver, and attributes the open trip if
+ *     that trip has no driver yet.
+ *   • `releaseDriver` — a 0x0702 card removal or 0x0252 logout. Clears the
+ *     terminal's current driver; trips already attributed keep their driver.
+ *
+ * New trips and alarms pick the driver up from `GpsTerminal.currentDriverId`
+ * when they open (see gps-trip.service `openNewTrip` and the alarm paths).
+ *
+ * CRUD side: same scope discriminator as gps-alarm.service — `admin: true`
+ * bypasses the owner filter, a user only ever sees their own drivers and
+ * gets 404 (not 403) for anyone else's.
+ */
+
+import prisma from '../config/db';
+import { Prisma, type Driver, type GpsTerminal } from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+// ── Gateway side ────────────────────────────────────────────────────────────
+
+/** Identity fields either 0x0702 or 0x0252 can supply. */
+export interface DriverIdentity {
+  name?: string | null;
+  qualificationCode?: string | null;
+  licenseNumber?: string | null;
+  licenseType?: string | null;
+  idCardNumber?: string | null;
+  issuingAuthority?: string | null;
+  certificateExpiresAt?: Date | null;
+}
+
+/**
+ * Resolve the driver for `identity` and make them the terminal's current
+ * driver. Returns null (and changes nothing) when the terminal is unpaired
+ * — a driver must belong to someone — or when the identity carries no
+ * matching key.
+ */
+export async function identifyDriver(
+  terminal: GpsTerminal,
+  identity: DriverIdentity,
+  at: Date,
+): Promise<Driver | null> {
+  if (!terminal.ownerUserId) {
+    logger.info('[gps-driver] driver identified on unpaired terminal; ignoring', {
+      terminalId: terminal.id,
+    });
+    return null;
+  }
+  if (!identity.qualificationCode && !identity.licenseNumber) {
+    logger.info('[gps-driver] driver identity has no matching key; ignoring', {
+      terminalId: terminal.id,
+    });
+    return null;
+  }
+
+  const driver = await findOrCreateDriver(terminal.ownerUserId, identity);
+
+  await prisma.gpsTerminal.update({
+    where: { id: terminal.id },
+    data: { currentDriverId: driver.id, currentDriverSince: at },
+  });
+
+  // A trip that opened before the card went in (driver started the engine,
+  // then swiped) belongs to this driver. One that already has a driver
+  // keeps it — a mid-trip handover doesn't rewrite history.
+  await prisma.gpsTrip.updateMany({
+    where: { terminalId: terminal.id, status: 'OPEN', driverId: null },
+    data: { driverId: driver.id },
+  });
+
+  return driver;
+}
+
+export async function releaseDriver(terminal: GpsTerminal, at: Date): Promise<void> {
+  if (!terminal.currentDriverId) return;
+  // Out-of-order guard: a removal older than the current identification is a
+  // late replay, not the current driver leaving.
+  if (terminal.currentDriverSince && terminal.currentDriverSince > at) return;
+  await prisma.gpsTerminal.update({
+    where: { id: terminal.id },
+    data: { currentDriverId: null, currentDriverSince: null },
+  });
+}
+
+async function findOrCreateDriver(ownerUserId: string, identity: DriverIdentity): Promise<Driver> {
+  const keys: Prisma.DriverWhereInput[] = [];
+  if (identity.qualificationCode) keys.push({ qualificationCode: identity.qualificationCode });
+  if (identity.licenseNumber) keys.push({ licenseNumber: identity.licenseNumber });
+
+  const existing = await prisma.driver.findFirst({
+    where: { ownerUserId, OR: keys },
+    // Prefer the qualification-code match when both keys hit different rows.
+    orderBy: { qualificationCode: { sort: 'asc', nulls: 'last' } },
+  });
+
+  if (existing) {
+    const patch = backfill(existing, identity);
+    if (Object.keys(patch).length === 0) return existing;
+    try {
+      return await prisma.driver.update({ where: { id: existing.id }, data: patch });
+    } catch (err) {
+      // A backfilled key colliding with another driver row is an owner data
+      // problem; the match itself is still good.
+      logger.warn('[gps-driver] driver backfill failed', {
+        driverId: existing.id,
+        err: (err as Error).message,
+      });
+      return existing;
+    }
+  }
+
+  try {
+    return await prisma.driver.create({
+      data: {
+        ownerUserId,
+        name: identity.name || identity.qualificationCode || identity.licenseNumber!,
+        qualificationCode: identity.qualificationCode ?? null,
+        licenseNumber: identity.licenseNumber ?? null,
+        licenseType: identity.licenseType ?? null,
+        idCardNumber: identity.idCardNumber ?? null,
+        issuingAuthority: identity.issuingAuthority ?? null,
+        certificateExpiresAt: identity.certificateExpiresAt ?? null,
+        autoCreated: true,
+      },
+    });
+  } catch (err: unknown) {
+    // P2002 = two terminals of the same owner raced on a first swipe.
+    if ((err as { code?: string })?.code === 'P2002') {
+      const raced = await prisma.driver.findFirst({ where: { ownerUserId, OR: keys } });
+      if (raced) return raced;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Fields the card / license supplied that the stored row is missing. An
+ * auto-created driver also takes the card's name, since its placeholder
+ * name was only ever the card number.
+ */
+function backfill(driver: Driver, identity: DriverIdentity): Prisma.DriverUpdateInput {
+  const patch: Prisma.DriverUpdateInput = {};
+  if (identity.name && driver.autoCreated && driver.name !== identity.name) {
+    patch.name = identity.name;
+  }
+  if (identity.qualificationCode && !driver.qualificationCode) {
+    patch.qualificationCode = identity.qualificationCode;
+  }
+  if (identity.licenseNumber && !driver.licenseNumber) patch.licenseNumber = identity.licenseNumber;
+  if (identity.licenseType && !driver.licenseType) patch.licenseType = identity.licenseType;
+  if (identity.idCardNumber && !driver.idCardNumber) patch.idCardNumber = identity.idCardNumber;
+  if (identity.issuingAuthority && !driver.issuingAuthority) {
+    patch.issuingAuthority = identity.issuingAuthority;
+  }
+  // Certificates get renewed; always take the latest validity date.
+  if (
+    identity.certificateExpiresAt &&
+    driver.certificateExpiresAt?.getTime() !== identity.certificateExpiresAt.getTime()
+  ) {
+    patch.certificateExpiresAt = identity.certificateExpiresAt;
+  }
+  return patch;
+}
+
+// ── CRUD ────────────────────────────────────────────────────────────────────
+
+interface DriverInput {
+  name?: string;
+  qualificationCode?: string | null;
+  licenseNumber?: string | null;
+  licenseType?: string | null;
+  idCardNumber?: string | null;
+  issuingAuthority?: string | null;
+  certificateExpiresAt?: Date | null;
+  phone?: string | null;
+  notes?: string | null;
+}
+
+interface ListOptions {
+  userId?: string;
+  admin?: boolean;
+  page: number;
+  limit: number;
+  /** Admin-only: restrict to one owner. */
+  ownerUserId?: string;
+  /** Case-insensitive match on name / qualification code / license number. */
+  search?: string;
+}
+
+export async function listDrivers(opts: ListOptions) {
+  if (!opts.admin && !opts.userId) {
+    throw new AppError('Either admin or userId must be set', 500);
+  }
+
+  const where: Prisma.DriverWhereInput = {};
+  if (!opts.admin) where.ownerUserId = opts.userId;
+  if (opts.admin && opts.ownerUserId) where.ownerUserId = opts.ownerUserId;
+  if (opts.search) {
+    const q = opts.search.trim();
+    where.OR = [
+      { name: { contains: q, mode: 'insensitive' } },
+      { qualificationCode: { contains: q, mode: 'insensitive' } },
+      { licenseNumber: { contains: q, mode: 'insensitive' } },
+    ];
+  }
+
+  const [total, drivers] = await Promise.all([
+    prisma.driver.count({ where }),
+    prisma.driver.findMany({
+      where,
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+      include: {
+        currentTerminals: {
+          select: { id: true, deviceIdentifier: true, nickname: true, currentDriverSince: true },
+        },
+        ...(opts.admin
+          ? { ownerUser: { select: { id: true, email: true, fullName: true, isDealer: true } } }
+          : {}),
+      },
+    }),
+  ]);
+
+  return {
+    drivers,
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+export async function getDriver(opts: { driverId: string; userId?: string; admin?: boolean }) {
+  const driver = await prisma.driver.findUnique({
+    where: { id: opts.driverId },
+    include: {
+      currentTerminals: {
+        select: { id: true, deviceIdentifier: true, nickname: true, currentDriverSince: true },
+      },
+    },
+  });
+  if (!driver) throw new AppError('Driver not found', 404);
+  if (!opts.admin && driver.ownerUserId !== opts.userId) {
+    throw new AppError('Driver not found', 404);
+  }
+  return driver;
+}
+
+export async function createDriver(userId: string, input: DriverInput & { name: string }) {
+  try {
+    return await prisma.driver.create({ data: { ...input, ownerUserId: userId } });
+  } catch (err) {
+    throw mapUniqueViolation(err);
+  }
+}
+
+export async function updateDriver(opts: { driverId: string; userId: string; input: DriverInput }) {
+  await getDriver({ driverId: opts.driverId, userId: opts.userId });
+  try {
+    return await prisma.driver.update({
+      where: { id: opts.driverId },
+      // Any owner edit turns an auto-created placeholder into a real record.
+      data: { ...opts.input, autoCreated: false },
+    });
+  } catch (err) {
+    throw mapUniqueViolation(err);
+  }
+}
+
+/**
+ * Delete a driver. Trips, alarms and terminals referencing it are detached
+ * (FK `ON DELETE SET NULL`), not removed.
+ */
+export async function deleteDriver(opts: { driverId: string; userId: string }) {
+  await getDriver(opts);
+  await prisma.driver.delete({ where: { id: opts.driverId } });
+  return { id: opts.driverId };
+}
+
+function mapUniqueViolation(err: unknown): unknown {
+  if ((err as { code?: string })?.code === 'P2002') {
+    return new AppError(
+      'Another driver already uses this qualification code or license number',
+      409,
+    );
+  }
+  return err;
+}
@@ -0,0 +1,200 @@
+/**
+ * gps-ev.service — traction-battery telemetry for hybrids / EVs.
+ *
+ * Write side (called from the gateway):
+ *   • `recordBmsReport`  — one 0x0210 report → one GpsEvSnapshot with the
+ *     per-cell tables plus derived min/max/spread, then runs the EV alarm
+ *     check against it.
+ *   • `recordPackSummary` — the 0xED pack summary (SOC, pack V/I) riding on
+ *     a 0x0200 → one GpsEvSnapshot with only the pack columns set.
+ *
+ * Alarms go through gps-condition-alarm (open while the condition holds,
+ * close when it clears). Only BMS reports drive alarms — the 0xED summary
+ * carries no per-cell data to judge imbalance or temperature by.
+ *
+ * Read side: `getEvTelemetry` serves both the owner route (the controller
+ * asserts ownership first) and the admin route.
+ */
+
+import prisma from '../config/db';
+import { Prisma, type GpsTerminal } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { syncConditionAlarm } from './gps-condition-alarm.service';
+import type { DecodedBmsDataFlow } from '../gateway/codec/messages/m0210-bms-data-flow';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/**
+ * Max − min cell voltage (mV) above which the pack counts as imbalanced.
+ * Healthy Li-ion packs sit well under 50 mV at rest; 100 mV is the common
+ * BMS service threshold.
+ */
+const CELL_IMBALANCE_MV = 100;
+
+/**
+ * Hottest cell (°C) at or above which we raise an over-temperature alarm.
+ * Most NMC/LFP packs derate around 55 °C and cut out near 60 °C.
+ */
+const CELL_OVER_TEMP_C = 60;
+
+const EV_SOURCE = {
+  BMS_DATA_FLOW: 'BMS_DATA_FLOW',
+  NEV_LOCATION: 'NEV_LOCATION',
+} as const;
+
+// ── Write side ──────────────────────────────────────────────────────────────
+
+export async function recordBmsReport(
+  terminal: GpsTerminal,
+  decoded: DecodedBmsDataFlow,
+): Promise<void> {
+  const volts = decoded.cellVoltagesV.map((c) => c.value);
+  const temps = decoded.cellTemperaturesC.map((c) => c.value);
+
+  const minV = volts.length > 0 ? Math.min(...volts) : null;
+  const maxV = volts.length > 0 ? Math.max(...volts) : null;
+  const spreadMv = minV !== null && maxV !== null ? Math.round((maxV - minV) * 1000) : null;
+  const maxTemp = temps.length > 0 ? Math.max(...temps) : null;
+
+  await prisma.gpsEvSnapshot.create({
+    data: {
+      terminalId: terminal.id,
+      source: EV_SOURCE.BMS_DATA_FLOW,
+      reportedAt: decoded.reportedAt,
+      cellVoltagesJson:
+        volts.length > 0 ? (decoded.cellVoltagesV as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      cellTemperaturesJson:
+        temps.length > 0 ? (decoded.cellTemperaturesC as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      cellCount: volts.length > 0 ? volts.length : null,
+      minCellVoltageV: minV !== null ? new Prisma.Decimal(minV.toFixed(3)) : null,
+      maxCellVoltageV: maxV !== null ? new Prisma.Decimal(maxV.toFixed(3)) : null,
+      cellSpreadMv: spreadMv,
+      maxCellTempC: maxTemp !== null ? new Prisma.Decimal(maxTemp.toFixed(1)) : null,
+    },
+  });
+
+  // A table the report didn't carry says nothing about its condition —
+  // leave the matching alarm as-is rather than closing it.
+  if (spreadMv !== null) {
+    await syncConditionAlarm(terminal, decoded.reportedAt, {
+      type: 'EV_CELL_IMBALANCE',
+      severity: 'WARNING',
+      active: spreadMv > CELL_IMBALANCE_MV,
+      extraData: { cellSpreadMv: spreadMv, minCellVoltageV: minV, maxCellVoltageV: maxV },
+    });
+  }
+  if (maxTemp !== null) {
+    await syncConditionAlarm(terminal, decoded.reportedAt, {
+      type: 'EV_OVER_TEMPERATURE',
+      severity: 'CRITICAL',
+      active: maxTemp >= CELL_OVER_TEMP_C,
+      extraData: { maxCellTempC: maxTemp },
+    });
+  }
+}
+
+export async function recordPackSummary(
+  terminalId: string,
+  reportedAt: Date,
+  pack: {
+    socPct?: number;
+    packVoltageV?: number;
+    packCurrentA?: number;
+    // 0xED extremes, when the terminal sends them alongside the summary.
+    minCellVoltageV?: number;
+    maxCellVoltageV?: number;
+    maxCellTempC?: number;
+  },
+): Promise<void> {
+  const spreadMv =
+    pack.minCellVoltageV !== undefined && pack.maxCellVoltageV !== undefined
+      ? Math.round((pack.maxCellVoltageV - pack.minCellVoltageV) * 1000)
+      : null;
+  await prisma.gpsEvSnapshot.create({
+    data: {
+      terminalId,
+      source: EV_SOURCE.NEV_LOCATION,
+      reportedAt,
+      socPct: pack.socPct ?? null,
+      packVoltageV:
+        pack.packVoltageV !== undefined ? new Prisma.Decimal(pack.packVoltageV.toFixed(2)) : null,
+      packCurrentA:
+        pack.packCurrentA !== undefined ? new Prisma.Decimal(pack.packCurrentA.toFixed(2)) : null,
+      minCellVoltageV:
+        pack.minCellVoltageV !== undefined ? new Prisma.Decimal(pack.minCellVoltageV.toFixed(3)) : null,
+      maxCellVoltageV:
+        pack.maxCellVoltageV !== undefined ? new Prisma.Decimal(pack.maxCellVoltageV.toFixed(3)) : null,
+      cellSpreadMv: spreadMv,
+      maxCellTempC:
+        pack.maxCellTempC !== undefined ? new Prisma.Decimal(pack.maxCellTempC.toFixed(1)) : null,
+    },
+  });
+}
+
+// ── Read side ───────────────────────────────────────────────────────────────
+
+interface EvTelemetryOptions {
+  terminalId: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/**
+ * Latest pack summary + latest cell tables + a newest-first history window
+ * (default 24h). `latestPack` and `latestCells` are looked up independently
+ * of the window so the battery card still renders for a parked EV that
+ * hasn't reported today.
+ */
+export async function getEvTelemetry(opts: EvTelemetryOptions) {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: opts.terminalId },
+    select: { id: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  const since = opts.since ?? new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const until = opts.until ?? new Date();
+  if (since >= until) {
+    throw new AppError('`since` must be earlier than `until`', 400);
+  }
+
+  const [latestPack, latestCells, snapshots] = await Promise.all([
+    prisma.gpsEvSnapshot.findFirst({
+      where: { terminalId: opts.terminalId, source: EV_SOURCE.NEV_LOCATION },
+      orderBy: { reportedAt: 'desc' },
+    }),
+    prisma.gpsEvSnapshot.findFirst({
+      where: { terminalId: opts.terminalId, source: EV_SOURCE.BMS_DATA_FLOW },
+      orderBy: { reportedAt: 'desc' },
+    }),
+    prisma.gpsEvSnapshot.findMany({
+      where: { terminalId: opts.terminalId, reportedAt: { gte: since, lte: until } },
+      orderBy: { reportedAt: 'desc' },
+      take: opts.limit,
+      // Per-cell arrays can run to 384 entries each; the history strip only
+      // plots the derived columns.
+      select: {
+        id: true,
+        source: true,
+        reportedAt: true,
+        socPct: true,
+        packVoltageV: true,
+        packCurrentA: true,
+        cellCount: true,
+        minCellVoltageV: true,
+        maxCellVoltageV: true,
+        cellSpreadMv: true,
+        maxCellTempC: true,
+      },
+    }),
+  ]);
+
+  return {
+    latestPack,
+    latestCells,
+    snapshots,
+    since: since.toISOString(),
+    until: until.toISOString(),
+  };
+}
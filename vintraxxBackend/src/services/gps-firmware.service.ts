@@ -0,0 +1,655 @@
+/**
+ * gps-firmware.service — OTA firmware images and staged upgrade campaigns.
+ *
+ * Lifecycle of one campaign:
+ *   1. An admin uploads a GpsFirmwareImage (bytes stored in Postgres so the
+ *      gateway process can read them).
+ *   2. `createCampaign` resolves matching terminals by model / current
+ *      firmware version ONCE and writes one PENDING target per terminal,
+ *      numbered into batches of `batchSize`. The campaign starts in DRAFT so
+ *      the admin can review the target list before anything is sent.
+ *   3. `startCampaign` flips it RUNNING and releases batch 0 (PENDING →
+ *      QUEUED). The gateway's firmware-dispatcher picks QUEUED targets whose
+ *      terminal is online, streams the 0x8108 body as subpackages and
+ *      parks the target in AWAITING_RESULT.
+ *   4. 0x0108 (or the vendor 0xF6 pass-through) settles the target via
+ *      `recordUpgradeResult`. `evaluateCampaign` then either pauses on the
+ *      failure-rate threshold, releases the next batch once the current one
+ *      has settled, or completes the campaign.
+ *
+ * `sweepFirmwareCampaigns` (backend cron, every minute) is the safety net:
+ * it times out targets that never reported, re-queues transfers orphaned
+ * by a gateway restart, and re-evaluates every RUNNING campaign.
+ *
+ * Every state transition is a CAS `updateMany` on the expected status so
+ * the gateway and the cron can race without double-advancing a campaign.
+ */
+
+import crypto from 'crypto';
+import prisma from '../config/db';
+import {
+  Prisma,
+  type GpsFirmwareCampaignStatus,
+  type GpsFirmwareTargetStatus,
+} from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/** Upload cap. D450 images are 1–2 MiB; this leaves room for GNSS blobs. */
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+/** Transfer attempts per target before a disconnect counts as a failure. */
+const MAX_TRANSFER_ATTEMPTS = 3;
+
+/**
+ * How long after the last subpackage ack we wait for 0x0108 / 0xF6. Flashing
+ * plus reboot takes a few minutes; 30 leaves slack for a slow re-register.
+ */
+const RESULT_TIMEOUT_MS = 30 * 60_000;
+
+/**
+ * A TRANSFERRING row untouched this long belongs to a gateway that died
+ * mid-transfer (progress is written every few dozen packets).
+ */
+const STALE_TRANSFER_MS = 10 * 60_000;
+
+/**
+ * A QUEUED terminal that hasn't come online in this window is skipped so
+ * one parked vehicle can't hold up the rest of the rollout.
+ */
+const QUEUED_MAX_MS = 24 * 60 * 60_000;
+
+/** Targets still owed an outcome — a batch with any of these isn't settled. */
+const UNSETTLED: GpsFirmwareTargetStatus[] = ['PENDING', 'QUEUED', 'TRANSFERRING', 'AWAITING_RESULT'];
+
+// ── Images ──────────────────────────────────────────────────────────────────
+
+interface CreateImageInput {
+  name: string;
+  version: string;
+  upgradeType: number;
+  manufacturerId: string;
+  terminalModel?: string | null;
+  dataBase64: string;
+  adminId: string;
+}
+
+const IMAGE_META_SELECT = {
+  id: true,
+  name: true,
+  version: true,
+  upgradeType: true,
+  manufacturerId: true,
+  terminalModel: true,
+  sizeBytes: true,
+  sha256: true,
+  uploadedByAdminId: true,
+  createdAt: true,
+} satisfies Prisma.GpsFirmwareImageSelect;
+
+export async function createImage(input: CreateImageInput) {
+  const data = Buffer.from(input.dataBase64, 'base64');
+  if (data.length === 0) {
+    throw new AppError('Firmware image is empty', 400);
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new AppError(`Firmware image exceeds ${MAX_IMAGE_BYTES} bytes`, 413);
+  }
+
+  return prisma.gpsFirmwareImage.create({
+    data: {
+      name: input.name,
+      version: input.version,
+      upgradeType: input.upgradeType,
+      manufacturerId: input.manufacturerId,
+      terminalModel: input.terminalModel ?? null,
+      sizeBytes: data.length,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      data,
+      uploadedByAdminId: input.adminId,
+    },
+    select: IMAGE_META_SELECT,
+  });
+}
+
+export async function listImages() {
+  const images = await prisma.gpsFirmwareImage.findMany({
+    orderBy: { createdAt: 'desc' },
+    select: { ...IMAGE_META_SELECT, _count: { select: { campaigns: true } } },
+  });
+  return { images };
+}
+
+/** Images referenced by any campaign are kept for the campaign's history. */
+export async function deleteImage(imageId: string) {
+  const image = await prisma.gpsFirmwareImage.findUnique({
+    where: { id: imageId },
+    select: { id: true, _count: { select: { campaigns: true } } },
+  });
+  if (!image) throw new AppError('Firmware image not found', 404);
+  if (image._count.campaigns > 0) {
+    throw new AppError('Firmware image is used by a campaign and cannot be deleted', 409);
+  }
+  await prisma.gpsFirmwareImage.delete({ where: { id: imageId } });
+  return { id: imageId };
+}
+
+// ── Campaigns: admin side ───────────────────────────────────────────────────
+
+interface CreateCampaignInput {
+  name: string;
+  imageId: string;
+  targetModels: string[];
+  targetFirmwareVersions: string[];
+  batchSize: number;
+  failureThresholdPct: number;
+  minResultsBeforePause: number;
+  adminId: string;
+}
+
+export async function createCampaign(input: CreateCampaignInput) {
+  if (input.targetModels.length === 0 && input.targetFirmwareVersions.length === 0) {
+    throw new AppError('Select at least one terminal model or firmware version to target', 400);
+  }
+
+  const image = await prisma.gpsFirmwareImage.findUnique({
+    where: { id: input.imageId },
+    select: { id: true, version: true },
+  });
+  if (!image) throw new AppError('Firmware image not found', 404);
+
+  const where: Prisma.GpsTerminalWhereInput = {
+    status: { not: 'REVOKED' },
+    // Already on the target version — nothing to do.
+    OR: [{ firmwareVersion: null }, { firmwareVersion: { not: image.version } }],
+    // A terminal is in at most one live rollout at a time.
+    firmwareTargets: {
+      none: {
+        status: { in: UNSETTLED },
+        campaign: { status: { in: ['DRAFT', 'RUNNING', 'PAUSED'] } },
+      },
+    },
+  };
+  if (input.targetModels.length > 0) where.terminalModel = { in: input.targetModels };
+  if (input.targetFirmwareVersions.length > 0) {
+    where.AND = [{ firmwareVersion: { in: input.targetFirmwareVersions } }];
+  }
+
+  const terminals = await prisma.gpsTerminal.findMany({
+    where,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, firmwareVersion: true },
+  });
+  if (terminals.length === 0) {
+    throw new AppError('No terminals match the campaign targeting', 400);
+  }
+
+  const totalBatches = Math.ceil(terminals.length / input.batchSize);
+
+  return prisma.$transaction(async (tx) => {
+    const campaign = await tx.gpsFirmwareCampaign.create({
+      data: {
+        name: input.name,
+        imageId: image.id,
+        targetModels: input.targetModels,
+        targetFirmwareVersions: input.targetFirmwareVersions,
+        batchSize: input.batchSize,
+        totalBatches,
+        failureThresholdPct: input.failureThresholdPct,
+        minResultsBeforePause: input.minResultsBeforePause,
+        createdByAdminId: input.adminId,
+      },
+    });
+    await tx.gpsFirmwareCampaignTarget.createMany({
+      data: terminals.map((t, i) => ({
+        campaignId: campaign.id,
+        terminalId: t.id,
+        batchNumber: Math.floor(i / input.batchSize),
+        fromVersion: t.firmwareVersion,
+      })),
+    });
+    return { ...campaign, targetCount: terminals.length };
+  });
+}
+
+interface ListCampaignsOptions {
+  page: number;
+  limit: number;
+  status?: GpsFirmwareCampaignStatus;
+}
+
+export async function listCampaigns(opts: ListCampaignsOptions) {
+  const where: Prisma.GpsFirmwareCampaignWhereInput = {};
+  if (opts.status) where.status = opts.status;
+
+  const [total, campaigns] = await Promise.all([
+    prisma.gpsFirmwareCampaign.count({ where }),
+    prisma.gpsFirmwareCampaign.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+      include: { image: { select: { id: true, name: true, version: true } } },
+    }),
+  ]);
+
+  const counts = await countTargetsByStatus(campaigns.map((c) => c.id));
+
+  return {
+    campaigns: campaigns.map((c) => ({ ...c, targetCounts: counts.get(c.id) ?? {} })),
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+export async function getCampaign(campaignId: string) {
+  const campaign = await prisma.gpsFirmwareCampaign.findUnique({
+    where: { id: campaignId },
+    include: { image: { select: IMAGE_META_SELECT } },
+  });
+  if (!campaign) throw new AppError('Firmware campaign not found', 404);
+  const counts = await countTargetsByStatus([campaign.id]);
+  return { ...campaign, targetCounts: counts.get(campaign.id) ?? {} };
+}
+
+interface ListTargetsOptions {
+  campaignId: string;
+  page: number;
+  limit: number;
+  status?: GpsFirmwareTargetStatus;
+  batchNumber?: number;
+}
+
+export async function listCampaignTargets(opts: ListTargetsOptions) {
+  await getCampaignStatus(opts.campaignId);
+
+  const where: Prisma.GpsFirmwareCampaignTargetWhereInput = { campaignId: opts.campaignId };
+  if (opts.status) where.status = opts.status;
+  if (opts.batchNumber !== undefined) where.batchNumber = opts.batchNumber;
+
+  const [total, targets] = await Promise.all([
+    prisma.gpsFirmwareCampaignTarget.count({ where }),
+    prisma.gpsFirmwareCampaignTarget.findMany({
+      where,
+      orderBy: [{ batchNumber: 'asc' }, { id: 'asc' }],
+      take: opts.limit,
+      skip: (opts.page - 1) * opts.limit,
+      include: {
+        terminal: {
+          select: {
+            id: true,
+            deviceIdentifier: true,
+            nickname: true,
+            terminalModel: true,
+            firmwareVersion: true,
+            status: true,
+          },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    targets,
+    page: opts.page,
+    limit: opts.limit,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / opts.limit)),
+  };
+}
+
+/** DRAFT → RUNNING, or resume a PAUSED campaign. */
+export async function startCampaign(campaignId: string) {
+  const status = await getCampaignStatus(campaignId);
+  if (status !== 'DRAFT' && status !== 'PAUSED') {
+    throw new AppError(`Cannot start a ${status} campaign`, 409);
+  }
+  const now = new Date();
+  const res = await prisma.gpsFirmwareCampaign.updateMany({
+    where: { id: campaignId, status },
+    data: {
+      status: 'RUNNING',
+      pauseReason: null,
+      failureRateSince: now,
+      ...(status === 'DRAFT' ? { startedAt: now } : {}),
+    },
+  });
+  if (res.count === 0) throw new AppError('Campaign changed state; reload and retry', 409);
+
+  await evaluateCampaign(campaignId);
+  return getCampaign(campaignId);
+}
+
+/**
+ * RUNNING → PAUSED. Transfers already on the wire finish; QUEUED targets
+ * stay queued but the gateway only picks targets of RUNNING campaigns.
+ */
+export async function pauseCampaign(campaignId: string) {
+  const status = await getCampaignStatus(campaignId);
+  if (status !== 'RUNNING') {
+    throw new AppError(`Cannot pause a ${status} campaign`, 409);
+  }
+  await prisma.gpsFirmwareCampaign.updateMany({
+    where: { id: campaignId, status: 'RUNNING' },
+    data: { status: 'PAUSED', pauseReason: 'Paused by admin' },
+  });
+  return getCampaign(campaignId);
+}
+
+/**
+ * Cancel a campaign. Targets not yet flashing — including ones mid-transfer,
+ * which the gateway notices on its next progress write — become SKIPPED.
+ * AWAITING_RESULT targets already have the full image and are left to report.
+ */
+export async function cancelCampaign(campaignId: string) {
+  const status = await getCampaignStatus(campaignId);
+  if (status === 'COMPLETED' || status === 'CANCELLED') {
+    throw new AppError(`Cannot cancel a ${status} campaign`, 409);
+  }
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.gpsFirmwareCampaign.updateMany({
+      where: { id: campaignId, status },
+      data: { status: 'CANCELLED', finishedAt: now },
+    }),
+    prisma.gpsFirmwareCampaignTarget.updateMany({
+      where: { campaignId, status: { in: ['PENDING', 'QUEUED', 'TRANSFERRING'] } },
+      data: { status: 'SKIPPED', errorText: 'campaign cancelled', finishedAt: now },
+    }),
+  ]);
+  return getCampaign(campaignId);
+}
+
+async function getCampaignStatus(campaignId: string): Promise<GpsFirmwareCampaignStatus> {
+  const campaign = await prisma.gpsFirmwareCampaign.findUnique({
+    where: { id: campaignId },
+    select: { status: true },
+  });
+  if (!campaign) throw new AppError('Firmware campaign not found', 404);
+  return campaign.status;
+}
+
+async function countTargetsByStatus(
+  campaignIds: string[],
+): Promise<Map<string, Partial<Record<GpsFirmwareTargetStatus, number>>>> {
+  const out = new Map<string, Partial<Record<GpsFirmwareTargetStatus, number>>>();
+  if (campaignIds.length === 0) return out;
+  const rows = await prisma.gpsFirmwareCampaignTarget.groupBy({
+    by: ['campaignId', 'status'],
+    where: { campaignId: { in: campaignIds } },
+    _count: { _all: true },
+  });
+  for (const row of rows) {
+    const entry = out.get(row.campaignId) ?? {};
+    entry[row.status] = row._count._all;
+    out.set(row.campaignId, entry);
+  }
+  return out;
+}
+
+// ── Gateway side ────────────────────────────────────────────────────────────
+
+/**
+ * Atomic QUEUED → TRANSFERRING claim. Returns false when another gateway pod
+ * (or a cancel) got there first; the caller must not touch the socket then.
+ */
+export async function claimTarget(targetId: string): Promise<boolean> {
+  const res = await prisma.gpsFirmwareCampaignTarget.updateMany({
+    where: { id: targetId, status: 'QUEUED', campaign: { status: 'RUNNING' } },
+    data: {
+      status: 'TRANSFERRING',
+      attempts: { increment: 1 },
+      packetsAcked: 0,
+      transferStartedAt: new Date(),
+      errorText: null,
+    },
+  });
+  return res.count > 0;
+}
+
+/**
+ * Persist transfer progress. Returns false when the target is no longer
+ * TRANSFERRING (cancelled, or reclaimed by the stale-transfer sweep) — the
+ * gateway stops sending in that case.
+ */
+export async function recordTransferProgress(
+  targetId: string,
+  progress: { packetsAcked: number; packetsTotal: number },
+): Promise<boolean> {
+  const res = await prisma.gpsFirmwareCampaignTarget.updateMany({
+    where: { id: targetId, status: 'TRANSFERRING' },
+    data: progress,
+  });
+  return res.count > 0;
+}
+
+export async function markTransferComplete(targetId: string): Promise<void> {
+  await prisma.gpsFirmwareCampaignTarget.updateMany({
+    where: { id: targetId, status: 'TRANSFERRING' },
+    data: { status: 'AWAITING_RESULT', transferCompletedAt: new Date() },
+  });
+}
+
+/**
+ * End a transfer that didn't finish. A retryable abort (socket dropped,
+ * gateway shutting down) goes back to QUEUED until the attempt budget is
+ * spent — with a fresh `queuedAt`, so the offline-skip window starts over —
+ * and anything else fails the target outright.
+ */
+export async function abortTransfer(
+  targetId: string,
+  reason: string,
+  retryable: boolean,
+): Promise<void> {
+  const target = await prisma.gpsFirmwareCampaignTarget.findUnique({
+    where: { id: targetId },
+    select: { campaignId: true, attempts: true },
+  });
+  if (!target) return;
+
+  if (retryable && target.attempts < MAX_TRANSFER_ATTEMPTS) {
+    await prisma.gpsFirmwareCampaignTarget.updateMany({
+      where: { id: targetId, status: 'TRANSFERRING' },
+      data: { status: 'QUEUED', queuedAt: new Date(), errorText: reason },
+    });
+    return;
+  }
+
+  const res = await prisma.gpsFirmwareCampaignTarget.updateMany({
+    where: { id: targetId, status: 'TRANSFERRING' },
+    data: { status: 'FAILED', errorText: reason, finishedAt: new Date() },
+  });
+  if (res.count > 0) await evaluateCampaign(target.campaignId);
+}
+
+export type UpgradeResultSource = '0x0108' | '0xF6' | 'version';
+
+/**
+ * Settle the terminal's in-flight target with the device-reported outcome.
+ * A result with no in-flight target (manual upgrade, or a late duplicate)
+ * is logged and ignored.
+ */
+export async function recordUpgradeResult(
+  terminalId: string,
+  result: {
+    source: UpgradeResultSource;
+    succeeded: boolean;
+    resultCode: number | null;
+    errorText?: string | null;
+  },
+): Promise<void> {
+  const target = await prisma.gpsFirmwareCampaignTarget.findFirst({
+    where: { terminalId, status: { in: ['TRANSFERRING', 'AWAITING_RESULT'] } },
+    orderBy: { updatedAt: 'desc' },
+    select: { id: true, campaignId: true, status: true },
+  });
+  if (!target) {
+    logger.info('[gps-firmware] upgrade result with no in-flight campaign target', {
+      terminalId,
+      source: result.source,
+      resultCode: result.resultCode,
+    });
+    return;
+  }
+
+  const res = await prisma.gpsFirmwareCampaignTarget.updateMany({
+    where: { id: target.id, status: target.status },
+    data: {
+      status: result.succeeded ? 'SUCCEEDED' : 'FAILED',
+      resultCode: result.resultCode,
+      resultSource: result.source,
+      errorText: result.succeeded ? null : (result.errorText ?? 'terminal reported failure'),
+      finishedAt: new Date(),
+    },
+  });
+  if (res.count > 0) await evaluateCampaign(target.campaignId);
+}
+
+// ── State machine ───────────────────────────────────────────────────────────
+
+/**
+ * Drive one RUNNING campaign forward: pause on the failure threshold,
+ * release the current batch, advance to the next batch once the current one
+ * has settled, or complete. Safe to call from anywhere, any number of times.
+ */
+export async function evaluateCampaign(campaignId: string): Promise<void> {
+  const campaign = await prisma.gpsFirmwareCampaign.findUnique({ where: { id: campaignId } });
+  if (!campaign || campaign.status !== 'RUNNING') return;
+
+  const settledWhere: Prisma.GpsFirmwareCampaignTargetWhereInput = {
+    campaignId,
+    ...(campaign.failureRateSince ? { finishedAt: { gte: campaign.failureRateSince } } : {}),
+  };
+  const [succeeded, failed] = await Promise.all([
+    prisma.gpsFirmwareCampaignTarget.count({ where: { ...settledWhere, status: 'SUCCEEDED' } }),
+    prisma.gpsFirmwareCampaignTarget.count({ where: { ...settledWhere, status: 'FAILED' } }),
+  ]);
+  const settled = succeeded + failed;
+  if (settled >= campaign.minResultsBeforePause && failed * 100 > campaign.failureThresholdPct * settled) {
+    const pct = Math.round((failed * 100) / settled);
+    const res = await prisma.gpsFirmwareCampaign.updateMany({
+      where: { id: campaignId, status: 'RUNNING' },
+      data: {
+        status: 'PAUSED',
+        pauseReason: `Failure rate ${pct}% (${failed}/${settled}) exceeded ${campaign.failureThresholdPct}%`,
+      },
+    });
+    if (res.count > 0) {
+      logger.warn('[gps-firmware] campaign paused on failure threshold', {
+        campaignId,
+        failed,
+        settled,
+        thresholdPct: campaign.failureThresholdPct,
+      });
+    }
+    return;
+  }
+
+  // Release the current batch. Idempotent: covers the first start, a
+  // resume, and the batch we just advanced to below.
+  let batch = campaign.currentBatch;
+  for (;;) {
+    await prisma.gpsFirmwareCampaignTarget.updateMany({
+      where: { campaignId, batchNumber: batch, status: 'PENDING' },
+      data: { status: 'QUEUED', queuedAt: new Date() },
+    });
+
+    const unsettled = await prisma.gpsFirmwareCampaignTarget.count({
+      where: { campaignId, batchNumber: batch, status: { in: UNSETTLED } },
+    });
+    if (unsettled > 0) return;
+
+    const next = batch + 1;
+    if (next >= campaign.totalBatches) {
+      const res = await prisma.gpsFirmwareCampaign.updateMany({
+        where: { id: campaignId, status: 'RUNNING', currentBatch: batch },
+        data: { status: 'COMPLETED', finishedAt: new Date() },
+      });
+      if (res.count > 0) {
+        logger.info('[gps-firmware] campaign completed', { campaignId, succeeded, failed });
+      }
+      return;
+    }
+
+    const res = await prisma.gpsFirmwareCampaign.updateMany({
+      where: { id: campaignId, status: 'RUNNING', currentBatch: batch },
+      data: { currentBatch: next },
+    });
+    // Someone else advanced (or paused) it concurrently — their call owns
+    // the release.
+    if (res.count === 0) return;
+    logger.info('[gps-firmware] campaign advanced to next batch', { campaignId, batch: next });
+    batch = next;
+  }
+}
+
+/**
+ * Cron safety net. Settles targets that will never hear back on their own,
+ * then re-evaluates every RUNNING campaign.
+ */
+export async function sweepFirmwareCampaigns(): Promise<void> {
+  const now = Date.now();
+
+  // 1. No result within RESULT_TIMEOUT_MS. If the terminal has since
+  //    reported the image's version over 0x0205, the upgrade worked and
+  //    only the result message got lost.
+  const overdue = await prisma.gpsFirmwareCampaignTarget.findMany({
+    where: {
+      status: 'AWAITING_RESULT',
+      transferCompletedAt: { lt: new Date(now - RESULT_TIMEOUT_MS) },
+    },
+    select: {
+      id: true,
+      terminal: { select: { firmwareVersion: true } },
+      campaign: { select: { image: { select: { version: true } } } },
+    },
+  });
+  for (const t of overdue) {
+    const upgraded = t.terminal.firmwareVersion === t.campaign.image.version;
+    await prisma.gpsFirmwareCampaignTarget.updateMany({
+      where: { id: t.id, status: 'AWAITING_RESULT' },
+      data: upgraded
+        ? { status: 'SUCCEEDED', resultSource: 'version', finishedAt: new Date() }
+        : {
+            status: 'FAILED',
+            errorText: 'no upgrade result reported',
+            finishedAt: new Date(),
+          },
+    });
+  }
+
+  // 2. Transfers orphaned by a gateway crash.
+  const stale = await prisma.gpsFirmwareCampaignTarget.findMany({
+    where: { status: 'TRANSFERRING', updatedAt: { lt: new Date(now - STALE_TRANSFER_MS) } },
+    select: { id: true },
+  });
+  for (const t of stale) {
+    await abortTransfer(t.id, 'transfer stalled', true);
+  }
+
+  // 3. Terminals that never came online for their batch.
+  const skipped = await prisma.gpsFirmwareCampaignTarget.updateMany({
+    where: { status: 'QUEUED', queuedAt: { lt: new Date(now - QUEUED_MAX_MS) } },
+    data: { status: 'SKIPPED', errorText: 'terminal offline for the whole batch window', finishedAt: new Date() },
+  });
+
+  if (overdue.length > 0 || stale.length > 0 || skipped.count > 0) {
+    logger.info('[gps-firmware] sweep settled targets', {
+      resultTimeouts: overdue.length,
+      staleTransfers: stale.length,
+      skippedOffline: skipped.count,
+    });
+  }
+
+  const running = await prisma.gpsFirmwareCampaign.findMany({
+    where: { status: 'RUNNING' },
+    select: { id: true },
+  });
+  for (const c of running) {
+    await evaluateCampaign(c.id);
+  }
+}
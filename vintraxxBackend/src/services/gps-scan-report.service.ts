@@ -51,7 +51,6 @@ import type {
   DecodedLocation,
   DecodedObdLive,
 } from '../gateway/codec/messages/m0200-location';
-import type { DecodedObdConfig } from '../gateway/codec/messages/m0104-query-params-response';
 
 // ── Constants ──────────────────────────────────────────────────────────────
 
@@ -88,19 +87,7 @@ const CACHED_OBD_FRESHNESS_MS = 60_000;
  * If the device is configured with long OBD upload intervals, we need to wait longer.
  */
 function calculateScanTimeout(terminal: GpsTerminal): number {
-  const params = terminal.parameters as Record<string, unknown> | null;
-  if (!params) {
-    return DEFAULT_SCAN_TIMEOUT_MS;
-  }
-
-  const largePacketIntervalSec = params.obdLargePacketIntervalSec as number | undefined;
-  const uploadIntervalSec = params.obdUploadIntervalSec as number | undefined;
-
-  // Use the larger of the two intervals (whichever controls OBD live data)
-  const intervalSec = Math.max(
-    largePacketIntervalSec ?? 0,
-    uploadIntervalSec ?? 0,
-  );
+  const intervalSec = obdReportIntervalSec(terminal) ?? 0;
 
   if (intervalSec === 0) {
     return DEFAULT_SCAN_TIMEOUT_MS;
@@ -114,6 +101,13 @@ function calculateScanTimeout(terminal: GpsTerminal): number {
   return Math.min(timeoutMs, 120_000);
 }
 
+/** 0x2028 from the last 0x0104 dump (see param-registry), if known. */
+function obdReportIntervalSec(terminal: GpsTerminal): number | undefined {
+  const params = terminal.parameters as { values?: Record<string, unknown> } | null;
+  const value = params?.values?.obdReportIntervalSec;
+  return typeof value === 'number' ? value : undefined;
+}
+
 // ── In-memory pending-timer registry ───────────────────────────────────────
 
 /**
@@ -170,7 +164,11 @@ export async function requestFullScan(
 
   // Reject pre-emptively if the device is offline. Saves enqueuing two
   // commands the gateway will never get to deliver.
-  if (terminal.status === 'OFFLINE' || terminal.status === 'NEVER_CONNECTED') {
+  if (
+    terminal.status === 'OFFLINE' ||
+    terminal.status === 'NEVER_CONNECTED' ||
+    terminal.status === 'LOGGED_OUT'
+  ) {
     // Persist a FAILED row so the UI can show the user-friendly reason
     // (instead of just bouncing the request — the dashboard wants to render
     // a record either way).
@@ -269,11 +267,11 @@ export async function requestFullScan(
       adminId: input.requestedByAdminId ?? null,
       kind: 'set-params',
       setParams: [
-        // 0x2017 — enable OBD function (spec type: BYTE). Idempotent: writes 1 if already 1.
-        { id: 0x2017, value: 1, byteWidth: 1 },
-        // 0x201A — read fault codes (spec type: BYTE, one-shot). Device clears this flag
+        // 0x2017 — enable OBD function. Idempotent: writes 1 if already 1.
+        { id: 0x2017, value: 1 },
+        // 0x201A — read fault codes (one-shot). Device clears this flag
         // after responding so the next 8103 won't re-trigger unintentionally.
-        { id: 0x201a, value: 1, byteWidth: 1 },
+        { id: 0x201a, value: 1 },
       ],
     });
     await commandService.enqueueCommand({
@@ -293,8 +291,7 @@ export async function requestFullScan(
     terminalId: terminal.id,
     timeoutMs: scanTimeoutMs,
     timeoutSec: scanTimeoutMs / 1000,
-    obdUploadInterval: (terminal.parameters as Record<string, unknown> | null)?.obdUploadIntervalSec,
-    obdLargePacketInterval: (terminal.parameters as Record<string, unknown> | null)?.obdLargePacketIntervalSec,
+    obdReportIntervalSec: obdReportIntervalSec(terminal) ?? null,
   });
   registerTimeout(report, scanTimeoutMs);
 
@@ -540,6 +537,17 @@ export async function onObdLiveArrived(
     ambientTempC: obd.ambientTempC,
     distanceWithMilKm: obd.distanceWithMilKm,
     fuelLevelPct: obd.fuelLevelPct,
+    engineOilPressureKpa: obd.engineOilPressureKpa,
+    parkingBrakeOn: obd.parkingBrakeOn,
+    ptoIdleActive: obd.ptoIdleActive,
+    axleWeightKg: obd.axleWeightKg,
+    evSocPct: obd.evSocPct,
+    evChargingState: obd.evChargingState,
+    evChargerPlugged: obd.evChargerPlugged,
+    evMotorRpm: obd.evMotorRpm,
+    evMotorTorqueNm: obd.evMotorTorqueNm,
+    evMotorTempC: obd.evMotorTempC,
+    evSohPct: obd.evSohPct,
   };
 
   if (obd.vehicleSpeedKmh !== undefined) {
@@ -563,6 +571,24 @@ export async function onObdLiveArrived(
   if (obd.distanceWithMilKm !== undefined) {
     data.distanceWithMilKm = new Prisma.Decimal(obd.distanceWithMilKm.toFixed(1));
   }
+  if (obd.engineHours !== undefined) {
+    data.engineHours = new Prisma.Decimal(obd.engineHours.toFixed(1));
+  }
+  if (obd.fuelRateLph !== undefined) {
+    data.fuelRateLph = new Prisma.Decimal(obd.fuelRateLph.toFixed(2));
+  }
+  if (obd.totalFuelL !== undefined) {
+    data.fuelConsumedL = new Prisma.Decimal(obd.totalFuelL.toFixed(2));
+  }
+  if (obd.defLevelPct !== undefined) {
+    data.defLevelPct = new Prisma.Decimal(obd.defLevelPct.toFixed(1));
+  }
+  if (obd.engineOilTempC !== undefined) {
+    data.engineOilTempC = Math.round(obd.engineOilTempC);
+  }
+  if (obd.evRangeKm !== undefined) {
+    data.evRangeKm = new Prisma.Decimal(obd.evRangeKm.toFixed(1));
+  }
   if (obd.totalMileageKm !== undefined && report.mileageKm === null) {
     data.mileageKm = new Prisma.Decimal(obd.totalMileageKm.toFixed(1));
   }
@@ -675,6 +701,10 @@ function hasLiveObdData(
     | 'mafGps'
     | 'fuelLevelPct'
     | 'distanceWithMilKm'
+    | 'engineHours'
+    | 'defLevelPct'
+    | 'evSocPct'
+    | 'evRangeKm'
   >,
 ): boolean {
   return (
@@ -693,7 +723,11 @@ function hasLiveObdData(
     row.engineLoadPct !== null ||
     row.mafGps !== null ||
     row.fuelLevelPct !== null ||
-    row.distanceWithMilKm !== null
+    row.distanceWithMilKm !== null ||
+    row.engineHours !== null ||
+    row.defLevelPct !== null ||
+    row.evSocPct !== null ||
+    row.evRangeKm !== null
   );
 }
 
@@ -728,6 +762,22 @@ function buildScanReportUpdateFromCachedObd(cachedObd: GpsObdSnapshot): Prisma.G
     fuelRailPressureKpa: cachedObd.fuelPressureKpa,
     batteryVoltageMv: cachedObd.batteryVoltageMv,
     vehicleSpeedKmh: cachedObd.vehicleSpeedKmh,
+    engineHours: cachedObd.engineHours,
+    fuelRateLph: cachedObd.fuelRateLph,
+    fuelConsumedL: cachedObd.fuelConsumedL,
+    defLevelPct: cachedObd.defLevelPct,
+    engineOilTempC: cachedObd.engineOilTempC,
+    engineOilPressureKpa: cachedObd.engineOilPressureKpa,
+    parkingBrakeOn: cachedObd.parkingBrakeOn,
+    ptoIdleActive: cachedObd.ptoIdleActive,
+    axleWeightKg: cachedObd.axleWeightKg,
+    evRangeKm: cachedObd.evRangeKm,
+    evChargingState: cachedObd.evChargingState,
+    evChargerPlugged: cachedObd.evChargerPlugged,
+    evMotorRpm: cachedObd.evMotorRpm,
+    evMotorTorqueNm: cachedObd.evMotorTorqueNm,
+    evMotorTempC: cachedObd.evMotorTempC,
+    evSohPct: cachedObd.evSohPct,
   };
   if (cachedObd.extraPidsJson) {
     const extra = cachedObd.extraPidsJson as Record<string, unknown>;
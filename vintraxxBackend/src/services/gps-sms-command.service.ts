@@ -0,0 +1,353 @@
+/**
+ * gps-sms-command.service — the SMS fallback channel for GpsCommand.
+ *
+ * A terminal that is offline (no gateway session) can still take a handful
+ * of D450 SMS templates on its SIM: re-point the server, set the APN, reboot
+ * or wake it. Those are the same command kinds the data channel uses, so the
+ * payload stays the same and only the transport differs:
+ *
+ *   QUEUED ──(provider accepted)──> SENT
+ *     ├─ reply SMS from the SIM   ──> ACKED   (parsed reply in `response`)
+ *     └─ no reply in window       ──> FAILED
+ *   QUEUED ──(provider refused)  ──> FAILED
+ *
+ * Templates the device never answers (`<HLCK>` wake, `&1R:1` reboot) go
+ * straight to ACKED once the provider accepts them — there is nothing else
+ * to wait for.
+ *
+ * Everything runs in the REST process; the gateway never sees SMS rows
+ * (the dispatcher only picks `channel: 'DATA'`).
+ *
+ * The templates carry GPS_SMS_PASSWORD, so only the provider gets the real
+ * text; the stored message body, `rawBytesSent` and logs hold `P:***`.
+ */
+
+import type { GpsCommand, Prisma } from '@prisma/client';
+import prisma from '../config/db';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { markAcked, markFailed } from './gps-command.service';
+import { smsProvider, type InboundSms, type SmsProvider } from './sms.service';
+
+export interface SmsCommand {
+  text: string;
+  /** `text` with the password masked — what gets stored and logged. */
+  redactedText: string;
+  /** False for templates the device executes without texting back. */
+  expectsReply: boolean;
+}
+
+/** set-params ids → D450 SMS key, for ids that map one-to-one. */
+const PARAM_SMS_KEYS: Record<number, string> = {
+  0x0029: '1A', // location report interval (s)
+  0x0055: '1E', // overspeed threshold (km/h)
+  0x0056: '1F', // overspeed duration (s)
+};
+
+const PARAM_MAIN_SERVER_HOST = 0x0013;
+const PARAM_SERVER_TCP_PORT = 0x0018;
+const PARAM_APN = 0x0010;
+
+/**
+ * The SMS text for `payload`, or null when no D450 template expresses it.
+ * Used at enqueue time too, so an unrenderable command is a 400.
+ */
+export function renderSmsCommand(payload: unknown): SmsCommand | null {
+  const p = (payload ?? {}) as {
+    kind?: string;
+    controlType?: number;
+    items?: Array<{ id: number; value: number | string }>;
+  };
+  switch (p.kind) {
+    case 'read-params':
+      // The template's "query": no SMS receipt, but it wakes a sleeping
+      // unit, which then reports in over the data link.
+      return { text: '<HLCK>', redactedText: '<HLCK>', expectsReply: false };
+    case 'terminal-control':
+      return p.controlType === 4 ? { ...template('1R:1'), expectsReply: false } : null;
+    case 'set-params':
+      return renderSetParams(p.items ?? []);
+    default:
+      return null;
+  }
+}
+
+function renderSetParams(items: Array<{ id: number; value: number | string }>): SmsCommand | null {
+  if (items.length === 0) return null;
+  const fields: string[] = [];
+  const host = items.find((it) => it.id === PARAM_MAIN_SERVER_HOST);
+  const port = items.find((it) => it.id === PARAM_SERVER_TCP_PORT);
+
+  for (const it of items) {
+    if (it.id === PARAM_MAIN_SERVER_HOST) {
+      // `&B:` carries host and port together, so both must be present.
+      if (!port || typeof it.value !== 'string' || typeof port.value !== 'number') return null;
+      fields.push(`B:${it.value}:${port.value}`);
+    } else if (it.id === PARAM_SERVER_TCP_PORT) {
+      if (!host) return null;
+    } else if (it.id === PARAM_APN) {
+      if (typeof it.value !== 'string') return null;
+      fields.push(`A:${it.value}`);
+    } else if (PARAM_SMS_KEYS[it.id] && typeof it.value === 'number') {
+      fields.push(`${PARAM_SMS_KEYS[it.id]}:${it.value}`);
+    } else {
+      return null;
+    }
+  }
+  const rendered = template(fields.join('&'));
+  // The firmware splits on spaces; a value containing one can't be sent.
+  if (/\s/.test(rendered.text)) return null;
+  return { ...rendered, expectsReply: true };
+}
+
+function template(fields: string): Pick<SmsCommand, 'text' | 'redactedText'> {
+  return {
+    text: `<HL&P:${env.GPS_SMS_PASSWORD}&${fields}>`,
+    redactedText: `<HL&P:***&${fields}>`,
+  };
+}
+
+/**
+ * A stored terminal phone number (bare digits, possibly national) in E.164
+ * form, or null when it can't be made into one. `00…` is taken as already
+ * international; anything else not starting with GPS_SMS_DEFAULT_COUNTRY_CODE
+ * is national and gets that code in place of its trunk `0`. Without a
+ * default code a national-looking number (leading `0`) is rejected rather
+ * than guessed at.
+ */
+export function smsPhoneNumber(stored: string): string | null {
+  let digits = stored.replace(/\D/g, '');
+  const countryCode = env.GPS_SMS_DEFAULT_COUNTRY_CODE;
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (countryCode && !digits.startsWith(countryCode)) {
+    digits = countryCode + digits.replace(/^0/, '');
+  } else if (!countryCode && digits.startsWith('0')) {
+    return null;
+  }
+  // E.164 allows at most 15 digits; fewer than 8 is no full number.
+  if (!/^[1-9]\d{7,14}$/.test(digits)) return null;
+  return `+${digits}`;
+}
+
+/**
+ * Text a QUEUED SMS-channel command to the terminal's SIM. Provider errors
+ * fail the row rather than throw, so the caller always gets the final row.
+ */
+export async function sendSmsCommand(commandId: string): Promise<GpsCommand> {
+  const cmd = await prisma.gpsCommand.findUnique({
+    where: { id: commandId },
+    include: { terminal: { select: { phoneNumber: true } } },
+  });
+  if (!cmd) throw new AppError('Command not found', 404);
+  if (cmd.status !== 'QUEUED') {
+    throw new AppError(`Command is ${cmd.status}; only QUEUED commands can be sent`, 409);
+  }
+  const to = cmd.terminal.phoneNumber;
+  if (!to) throw new AppError('Terminal has no phone number', 400);
+  const e164 = smsPhoneNumber(to);
+  if (!e164) throw new AppError(`Terminal phone number ${to} has no country code`, 400);
+  const rendered = renderSmsCommand(cmd.payload);
+  if (!rendered) throw new AppError('Command has no SMS template', 400);
+
+  let provider: SmsProvider;
+  try {
+    provider = smsProvider();
+  } catch (err) {
+    // No usable provider: fail the row rather than leave it QUEUED on a
+    // channel nothing else picks up.
+    const errorText = `sms send failed: ${(err as Error).message}`;
+    await markFailed({ commandId: cmd.id, errorText, fromStatus: ['QUEUED'] });
+    logger.error('SMS command not sent: no SMS provider', {
+      commandId: cmd.id,
+      err: (err as Error).message,
+    });
+    return prisma.gpsCommand.findUniqueOrThrow({ where: { id: cmd.id } });
+  }
+
+  let providerMessageId: string;
+  try {
+    ({ providerMessageId } = await provider.send(e164, rendered.text));
+  } catch (err) {
+    const errorText = `sms send failed: ${(err as Error).message}`;
+    await prisma.gpsSmsMessage.create({
+      data: {
+        terminalId: cmd.terminalId,
+        commandId: cmd.id,
+        direction: 'OUT',
+        phoneNumber: to,
+        body: rendered.redactedText,
+        provider: provider.name,
+        errorText,
+      },
+    });
+    await markFailed({ commandId: cmd.id, errorText, fromStatus: ['QUEUED'] });
+    logger.warn('SMS command send failed', { commandId: cmd.id, err: (err as Error).message });
+    return prisma.gpsCommand.findUniqueOrThrow({ where: { id: cmd.id } });
+  }
+
+  await prisma.gpsSmsMessage.create({
+    data: {
+      terminalId: cmd.terminalId,
+      commandId: cmd.id,
+      direction: 'OUT',
+      phoneNumber: to,
+      body: rendered.redactedText,
+      provider: provider.name,
+      providerMessageId,
+    },
+  });
+  await prisma.gpsCommand.updateMany({
+    where: { id: cmd.id, status: 'QUEUED' },
+    data: {
+      status: 'SENT',
+      sentAt: new Date(),
+      rawBytesSent: Buffer.from(rendered.redactedText, 'utf8'),
+      smsProviderMessageId: providerMessageId,
+    },
+  });
+  if (!rendered.expectsReply) {
+    await markAcked({ commandId: cmd.id, result: 0, response: { result: 0, channel: 'SMS' } });
+  }
+
+  logger.info('SMS command sent', {
+    commandId: cmd.id,
+    terminalId: cmd.terminalId,
+    provider: provider.name,
+    providerMessageId,
+    text: rendered.redactedText,
+  });
+  return prisma.gpsCommand.findUniqueOrThrow({ where: { id: cmd.id } });
+}
+
+/**
+ * Move a QUEUED data-channel command onto SMS and send it — for commands
+ * that are stuck because the terminal never came online.
+ */
+export async function resendQueuedViaSms(commandId: string): Promise<GpsCommand> {
+  const cmd = await prisma.gpsCommand.findUnique({
+    where: { id: commandId },
+    select: { status: true, payload: true },
+  });
+  if (!cmd) throw new AppError('Command not found', 404);
+  if (cmd.status !== 'QUEUED') {
+    throw new AppError(`Command is ${cmd.status}; only QUEUED commands can be sent`, 409);
+  }
+  if (!renderSmsCommand(cmd.payload)) throw new AppError('Command has no SMS template', 400);
+
+  // Guarded on QUEUED so a gateway pod dispatching it right now wins.
+  const moved = await prisma.gpsCommand.updateMany({
+    where: { id: commandId, status: 'QUEUED' },
+    data: { channel: 'SMS' },
+  });
+  if (moved.count !== 1) throw new AppError('Command was dispatched meanwhile', 409);
+  return sendSmsCommand(commandId);
+}
+
+// ── Inbound ─────────────────────────────────────────────────────────────────
+
+/**
+ * `<HL&V:1.2&A:cmnet&B:1.2.3.4:7018>` → `{ V: '1.2', A: 'cmnet', B: '1.2.3.4:7018' }`.
+ * Null when the text isn't a D450 reply.
+ */
+export function parseSmsReply(body: string): Record<string, string> | null {
+  const m = /<HL&([^>]*)>/.exec(body.trim());
+  if (!m) return null;
+  const params: Record<string, string> = {};
+  for (const field of m[1].split('&')) {
+    const sep = field.indexOf(':');
+    if (sep <= 0) continue;
+    params[field.slice(0, sep)] = field.slice(sep + 1);
+  }
+  return params;
+}
+
+/**
+ * Record an inbound SMS and, when it comes from a terminal with an SMS
+ * command in flight, ack the oldest one with the parsed reply. The device
+ * doesn't echo anything that identifies the command, so replies are matched
+ * in send order.
+ */
+export async function handleInboundSms(sms: InboundSms, provider: string): Promise<void> {
+  const terminal = await findTerminalByPhone(sms.from);
+  const cmd = terminal
+    ? await prisma.gpsCommand.findFirst({
+        where: { terminalId: terminal.id, channel: 'SMS', status: 'SENT' },
+        orderBy: { sentAt: 'asc' },
+        select: { id: true },
+      })
+    : null;
+
+  await prisma.gpsSmsMessage.create({
+    data: {
+      terminalId: terminal?.id ?? null,
+      commandId: cmd?.id ?? null,
+      direction: 'IN',
+      phoneNumber: sms.from,
+      body: sms.body,
+      provider,
+      providerMessageId: sms.providerMessageId,
+    },
+  });
+
+  if (!terminal) {
+    logger.warn('Inbound SMS from unknown number', { from: sms.from });
+    return;
+  }
+  if (!cmd) {
+    logger.info('Inbound SMS with no command in flight', { terminalId: terminal.id });
+    return;
+  }
+
+  const params = parseSmsReply(sms.body);
+  const response: Prisma.InputJsonValue = {
+    result: 0,
+    channel: 'SMS',
+    text: sms.body,
+    ...(params ? { params } : {}),
+  };
+  await markAcked({ commandId: cmd.id, result: 0, response });
+  logger.info('SMS command acked by reply', { commandId: cmd.id, terminalId: terminal.id });
+}
+
+/**
+ * Terminal phone numbers are stored as bare digits, possibly without the
+ * country code the provider adds — so match the sender's digits and every
+ * suffix down to a plausible national number.
+ */
+async function findTerminalByPhone(from: string): Promise<{ id: string } | null> {
+  const digits = from.replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  const candidates: string[] = [];
+  for (let i = 0; digits.length - i >= 7; i++) candidates.push(digits.slice(i));
+  const matches = await prisma.gpsTerminal.findMany({
+    where: { phoneNumber: { in: candidates } },
+    select: { id: true, phoneNumber: true },
+  });
+  // Longest (most specific) match wins.
+  matches.sort((a, b) => (b.phoneNumber?.length ?? 0) - (a.phoneNumber?.length ?? 0));
+  return matches[0] ?? null;
+}
+
+// ── Cron sweep ──────────────────────────────────────────────────────────────
+
+/** SENT SMS commands with no reply within `ms` get marked FAILED. */
+export async function timeoutSmsCommands(ms: number): Promise<number> {
+  const cutoff = new Date(Date.now() - ms);
+  const stale = await prisma.gpsCommand.findMany({
+    where: { channel: 'SMS', status: 'SENT', sentAt: { lt: cutoff } },
+    select: { id: true },
+  });
+  let n = 0;
+  for (const row of stale) {
+    const ok = await markFailed({
+      commandId: row.id,
+      errorText: 'timeout: no SMS reply within window',
+      fromStatus: ['SENT'],
+    });
+    if (ok) n++;
+  }
+  if (n > 0) logger.info('timeoutSmsCommands: timed out N commands', { count: n });
+  return n;
+}
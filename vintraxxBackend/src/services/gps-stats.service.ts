@@ -22,6 +22,7 @@ export async function getOverviewCounts() {
     online,
     offline,
     neverConnected,
+    loggedOut,
     revoked,
     unpaired,
     alarms24h,
@@ -37,6 +38,7 @@ export async function getOverviewCounts() {
     prisma.gpsTerminal.count({ where: { status: 'ONLINE' } }),
     prisma.gpsTerminal.count({ where: { status: 'OFFLINE' } }),
     prisma.gpsTerminal.count({ where: { status: 'NEVER_CONNECTED' } }),
+    prisma.gpsTerminal.count({ where: { status: 'LOGGED_OUT' } }),
     prisma.gpsTerminal.count({ where: { status: 'REVOKED' } }),
     prisma.gpsTerminal.count({ where: { ownerUserId: null } }),
     prisma.gpsAlarm.count({ where: { openedAt: { gte: day1Ago } } }),
@@ -64,7 +66,7 @@ export async function getOverviewCounts() {
   ]);
 
   return {
-    terminals: { total, online, offline, neverConnected, revoked, unpaired },
+    terminals: { total, online, offline, neverConnected, loggedOut, revoked, unpaired },
     alarms: {
       last24h: alarms24h,
       criticalLast24h: criticalAlarms24h,
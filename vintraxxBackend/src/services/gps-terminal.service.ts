@@ -5,9 +5,10 @@
  * Controllers translate HTTP into calls into this module.
  */
 
-import { Prisma } from '@prisma/client';
+import { Prisma, type GpsProtocol } from '@prisma/client';
 import prisma from '../config/db';
 import { AppError } from '../middleware/errorHandler';
+import * as configProfileService from './gps-config-profile.service';
 
 interface ProvisionInput {
   /**
@@ -33,6 +34,8 @@ interface ProvisionInput {
    *  admin terminal list and the search filter. */
   plateNumber?: string;
   ownerUserId?: string | null;
+  /** Device protocol family; JT808 when omitted. */
+  protocol?: GpsProtocol;
 }
 
 /**
@@ -101,6 +104,7 @@ export async function provisionTerminal(input: ProvisionInput) {
       nickname: input.nickname ?? null,
       plateNumber: input.plateNumber ?? null,
       ownerUserId: input.ownerUserId ?? null,
+      protocol: input.protocol ?? 'JT808',
       status: 'NEVER_CONNECTED',
     },
   });
@@ -109,7 +113,7 @@ export async function provisionTerminal(input: ProvisionInput) {
 interface ListOptions {
   page: number;
   limit: number;
-  filter?: 'online' | 'offline' | 'unpaired' | 'never_connected' | 'revoked';
+  filter?: 'online' | 'offline' | 'unpaired' | 'never_connected' | 'logged_out' | 'revoked';
   search?: string;
   /** Admin-only: scope the list to a specific owner. Used by the admin
    *  UserDetailModal "GPS Devices" section. The route schema validates the
@@ -133,6 +137,9 @@ export async function listTerminals(opts: ListOptions) {
     case 'never_connected':
       where.status = 'NEVER_CONNECTED';
       break;
+    case 'logged_out':
+      where.status = 'LOGGED_OUT';
+      break;
     case 'revoked':
       where.status = 'REVOKED';
       break;
@@ -298,6 +305,10 @@ export interface UpdateTerminalInput {
   nickname?: string | null;
   plateNumber?: string | null;
   ownerUserId?: string | null;
+  requireEncryption?: boolean;
+  journalEnabled?: boolean;
+  fleetGroup?: string | null;
+  configProfileId?: string | null;
 }
 
 /**
@@ -305,8 +316,12 @@ export interface UpdateTerminalInput {
  *
  *   - 404 if `id` doesn't exist.
  *   - 404 if `ownerUserId` is set to a missing user id.
+ *   - 404 if `configProfileId` is set to a missing profile.
  *   - 409 if `imei` / `phoneNumber` collides with a different terminal.
  *
+ * Changing `fleetGroup` or `configProfileId` re-resolves the terminal's
+ * configuration profile (its config status goes back to PENDING).
+ *
  * We filter `undefined` values out of the Prisma `data` payload so absent
  * keys keep their current DB value (Prisma otherwise would happily overwrite
  * with `null` if we passed `foo: undefined` through some spread paths).
@@ -343,12 +358,20 @@ export async function updateTerminalMetadata(id: string, patch: UpdateTerminalIn
     if (!user) throw new AppError('Owner user not found', 404);
   }
 
+  if (patch.configProfileId) await configProfileService.assertProfileExists(patch.configProfileId);
+
   const data: Record<string, unknown> = {};
   for (const [k, v] of Object.entries(patch)) {
     if (v !== undefined) data[k] = v;
   }
 
-  return prisma.gpsTerminal.update({ where: { id }, data });
+  const updated = await prisma.gpsTerminal.update({ where: { id }, data });
+  const profileChanged =
+    (patch.fleetGroup !== undefined && patch.fleetGroup !== terminal.fleetGroup) ||
+    (patch.configProfileId !== undefined && patch.configProfileId !== terminal.configProfileId);
+  if (!profileChanged) return updated;
+  await configProfileService.refreshTerminalConfig(id);
+  return prisma.gpsTerminal.findUniqueOrThrow({ where: { id } });
 }
 
 /**
@@ -385,7 +408,7 @@ export async function deleteTerminal(id: string) {
 
 /**
  * Return the authenticated user's terminals. Sorted: ONLINE first (by most-
- * recent heartbeat), then OFFLINE / NEVER_CONNECTED / REVOKED.
+ * recent heartbeat), then OFFLINE / NEVER_CONNECTED / LOGGED_OUT / REVOKED.
  */
 export async function getMyTerminals(userId: string) {
   return prisma.gpsTerminal.findMany({
@@ -522,6 +545,8 @@ export async function getLocationHistory(opts: LocationHistoryOptions) {
         heading: true,
         accOn: true,
         gpsFix: true,
+        positionSource: true,
+        accuracyM: true,
         satelliteCount: true,
         signalStrength: true,
         odometerKm: true,
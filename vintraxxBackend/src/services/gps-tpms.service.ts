@@ -0,0 +1,226 @@
+/**
+ * gps-tpms.service — tire-pressure time series and TPMS alarms from the
+ * 0xEE peripheral flow (0x3006 tire table §3.56, 0x300E axle table §3.80).
+ *
+ * Write side (called from handleLocation):
+ *   `recordTireReadings` stores one GpsTireReading row per wheel per report
+ *   — every entry of a 0x0704 back-fill, not just the latest, so the
+ *   pressure history has no gaps.
+ *   `evaluateTireAlarms` judges the latest report against three condition
+ *   alarms (see gps-condition-alarm):
+ *     • TIRE_LOW_PRESSURE     — sensor low-pressure / slow-leak flag, or a
+ *                               wheel below MIN_PRESSURE_KPA.
+ *     • TIRE_RAPID_LEAK       — sensor quick-leak flag, or a wheel that lost
+ *                               RAPID_LEAK_KPA against its highest reading
+ *                               in the last RAPID_LEAK_WINDOW_MS.
+ *     • TIRE_OVER_TEMPERATURE — sensor high-temperature flag, or a wheel at
+ *                               or above MAX_TEMPERATURE_C.
+ *   The server-side thresholds cover the 0x300E table (no status byte) and
+ *   sensors whose thresholds were never configured. A report without a tire
+ *   table leaves the alarms as they are.
+ *
+ * Read side: `getTireTelemetry` returns the latest reading per wheel plus a
+ * history window for the detail screens.
+ */
+
+import prisma from '../config/db';
+import { Prisma, type GpsTerminal } from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { syncConditionAlarm } from './gps-condition-alarm.service';
+import {
+  TIRE_STATUS_BITS,
+  type DecodedLocation,
+  type DecodedTire,
+} from '../gateway/codec/messages/m0200-location';
+
+// ── Tunables ────────────────────────────────────────────────────────────────
+
+/**
+ * Below this a tire is flat for any road vehicle — passenger cars run
+ * 200–250 kPa, trucks 600–900 kPa. Per-vehicle placard pressures would
+ * need configuration we don't have; the sensor's own flag covers the rest.
+ */
+const MIN_PRESSURE_KPA = 140;
+
+/** Pressure lost within RAPID_LEAK_WINDOW_MS that counts as a rapid leak. */
+const RAPID_LEAK_KPA = 40;
+const RAPID_LEAK_WINDOW_MS = 10 * 60_000;
+
+/** Tread separation risk starts around here for passenger and truck tires. */
+const MAX_TEMPERATURE_C = 90;
+
+// ── Write side ──────────────────────────────────────────────────────────────
+
+export async function recordTireReadings(
+  terminalId: string,
+  entries: DecodedLocation[],
+): Promise<void> {
+  const rows = entries.flatMap((entry) =>
+    (entry.additional.obd?.tires ?? []).map((t) => ({
+      terminalId,
+      reportedAt: entry.reportedAt,
+      position: t.position,
+      axle: t.axle,
+      pressureKpa: t.pressureKpa,
+      temperatureC: t.temperatureC,
+      statusBits: t.statusBits,
+      sensorVoltageV:
+        t.sensorVoltageV !== null ? new Prisma.Decimal(t.sensorVoltageV.toFixed(2)) : null,
+    })),
+  );
+  if (rows.length === 0) return;
+
+  try {
+    await prisma.gpsTireReading.createMany({ data: rows });
+  } catch (err) {
+    // Never NACK the location frame over tire history.
+    logger.warn('[gps-tpms] failed to persist tire readings', {
+      terminalId,
+      rows: rows.length,
+      err: (err as Error).message,
+    });
+  }
+}
+
+const hasFlag = (t: DecodedTire, bit: number) =>
+  t.statusBits !== null && (t.statusBits & bit) !== 0;
+
+const wheelSummary = (t: DecodedTire) => ({
+  position: t.position,
+  axle: t.axle,
+  pressureKpa: t.pressureKpa,
+  temperatureC: t.temperatureC,
+});
+
+export async function evaluateTireAlarms(
+  terminal: GpsTerminal,
+  decoded: DecodedLocation,
+  position: { latitude: number; longitude: number },
+): Promise<void> {
+  const tires = decoded.additional.obd?.tires;
+  if (!tires || tires.length === 0) return;
+
+  // Highest pressure per wheel over the leak window, excluding this report.
+  // A failed lookup only loses the server-side leak check for this report.
+  const peakByPosition = new Map<number, number | null>();
+  try {
+    const recent = await prisma.gpsTireReading.groupBy({
+      by: ['position'],
+      where: {
+        terminalId: terminal.id,
+        reportedAt: {
+          gte: new Date(decoded.reportedAt.getTime() - RAPID_LEAK_WINDOW_MS),
+          lt: decoded.reportedAt,
+        },
+      },
+      _max: { pressureKpa: true },
+    });
+    for (const r of recent) peakByPosition.set(r.position, r._max.pressureKpa);
+  } catch (err) {
+    logger.warn('[gps-tpms] failed to load recent tire readings', {
+      terminalId: terminal.id,
+      err: (err as Error).message,
+    });
+  }
+
+  const low = tires.filter(
+    (t) =>
+      hasFlag(t, TIRE_STATUS_BITS.LOW_PRESSURE) ||
+      hasFlag(t, TIRE_STATUS_BITS.SLOW_LEAK) ||
+      t.pressureKpa < MIN_PRESSURE_KPA,
+  );
+  const leaking = tires.filter((t) => {
+    if (hasFlag(t, TIRE_STATUS_BITS.QUICK_LEAK)) return true;
+    const peak = peakByPosition.get(t.position);
+    return peak != null && peak - t.pressureKpa >= RAPID_LEAK_KPA;
+  });
+  const hot = tires.filter(
+    (t) => hasFlag(t, TIRE_STATUS_BITS.HIGH_TEMPERATURE) || t.temperatureC >= MAX_TEMPERATURE_C,
+  );
+
+  await syncConditionAlarm(terminal, decoded.reportedAt, {
+    type: 'TIRE_LOW_PRESSURE',
+    severity: 'WARNING',
+    active: low.length > 0,
+    extraData: { wheels: low.map(wheelSummary), thresholdKpa: MIN_PRESSURE_KPA },
+    ...position,
+  });
+  await syncConditionAlarm(terminal, decoded.reportedAt, {
+    type: 'TIRE_RAPID_LEAK',
+    severity: 'CRITICAL',
+    active: leaking.length > 0,
+    extraData: {
+      wheels: leaking.map((t) => ({
+        ...wheelSummary(t),
+        previousPeakKpa: peakByPosition.get(t.position) ?? null,
+      })),
+      thresholdKpa: RAPID_LEAK_KPA,
+      windowSec: RAPID_LEAK_WINDOW_MS / 1000,
+    },
+    ...position,
+  });
+  await syncConditionAlarm(terminal, decoded.reportedAt, {
+    type: 'TIRE_OVER_TEMPERATURE',
+    severity: 'WARNING',
+    active: hot.length > 0,
+    extraData: { wheels: hot.map(wheelSummary), thresholdC: MAX_TEMPERATURE_C },
+    ...position,
+  });
+}
+
+// ── Read side ───────────────────────────────────────────────────────────────
+
+interface TireTelemetryOptions {
+  terminalId: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/**
+ * Latest reading per wheel (from the most recent report that carried a tire
+ * table, regardless of the window) + a newest-first history window
+ * (default 24h).
+ */
+export async function getTireTelemetry(opts: TireTelemetryOptions) {
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: opts.terminalId },
+    select: { id: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  const since = opts.since ?? new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const until = opts.until ?? new Date();
+  if (since >= until) {
+    throw new AppError('`since` must be earlier than `until`', 400);
+  }
+
+  const newest = await prisma.gpsTireReading.findFirst({
+    where: { terminalId: opts.terminalId },
+    orderBy: { reportedAt: 'desc' },
+    select: { reportedAt: true },
+  });
+
+  const [latest, readings] = await Promise.all([
+    newest
+      ? prisma.gpsTireReading.findMany({
+          where: { terminalId: opts.terminalId, reportedAt: newest.reportedAt },
+          orderBy: { position: 'asc' },
+        })
+      : Promise.resolve([]),
+    prisma.gpsTireReading.findMany({
+      where: { terminalId: opts.terminalId, reportedAt: { gte: since, lte: until } },
+      orderBy: { reportedAt: 'desc' },
+      take: opts.limit,
+    }),
+  ]);
+
+  return {
+    latestReportedAt: newest?.reportedAt.toISOString() ?? null,
+    latest,
+    readings,
+    since: since.toISOString(),
+    until: until.toISOString(),
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * gps-tracking.service — temporary tracking sessions (JT/T 808 0x8202).
+ *
+ * A session switches one terminal to a short report interval for a bounded
+ * duration (stolen vehicle, dealer test drive). The terminal enforces the
+ * duration itself; this service records who asked, mirrors the state and
+ * sends the early stop.
+ *
+ * State flow (mirrors GpsTrackingSessionStatus):
+ *
+ *   start → PENDING  (0x8202 enqueued via gps-command.service)
+ *     ├─ 0x0001 result=0        ──> ACTIVE  (expiresAt = ackAt + duration)
+ *     ├─ 0x0001 result≠0        ──> FAILED
+ *     └─ command FAILED/EXPIRED ──> FAILED  (cron sweep)
+ *   ACTIVE ──(expiresAt passes)──> EXPIRED  (cron sweep)
+ *   PENDING|ACTIVE ──(stop)─────> STOPPED  (0x8202 with interval 0 enqueued)
+ *
+ * One live session per terminal: starting a new one marks the previous
+ * PENDING/ACTIVE row STOPPED ("superseded") — the new 0x8202 overrides the
+ * terminal's settings anyway, so there is nothing to send for the old one.
+ */
+
+import prisma from '../config/db';
+import type { GpsTrackingSession } from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { buildCommandPayload, enqueueCommand } from './gps-command.service';
+
+const LIVE_STATUSES = ['PENDING', 'ACTIVE'] as const;
+
+/** A PENDING session still without a start command after this is failed. */
+const UNLINKED_PENDING_MS = 5 * 60_000;
+
+interface Originator {
+  adminId?: string | null;
+  userId?: string | null;
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+export async function startTracking(
+  args: Originator & { terminalId: string; intervalSec: number; durationSec: number },
+): Promise<GpsTrackingSession> {
+  const spec = {
+    kind: 'temporary-tracking' as const,
+    tracking: { intervalSec: args.intervalSec, validitySec: args.durationSec },
+  };
+  // Reject bad bounds / unknown terminals before superseding anything.
+  buildCommandPayload(spec);
+  const terminal = await prisma.gpsTerminal.findUnique({
+    where: { id: args.terminalId },
+    select: { id: true },
+  });
+  if (!terminal) throw new AppError('Terminal not found', 404);
+
+  const now = new Date();
+  const session = await prisma.$transaction(async (tx) => {
+    await tx.gpsTrackingSession.updateMany({
+      where: { terminalId: args.terminalId, status: { in: [...LIVE_STATUSES] } },
+      data: { status: 'STOPPED', endedAt: now, endReason: 'superseded' },
+    });
+    return tx.gpsTrackingSession.create({
+      data: {
+        terminalId: args.terminalId,
+        adminId: args.adminId ?? null,
+        userId: args.userId ?? null,
+        intervalSec: args.intervalSec,
+        durationSec: args.durationSec,
+      },
+    });
+  });
+
+  // Enqueue only once the session is committed, so a failed transaction
+  // can't leave a 0x8202 on the queue with nothing tracking it. An ack that
+  // lands before `startCommandId` is linked is picked up by the sweep.
+  let commandId: string;
+  try {
+    const cmd = await enqueueCommand({
+      terminalId: args.terminalId,
+      adminId: args.adminId ?? null,
+      userId: args.userId ?? null,
+      ...spec,
+    });
+    commandId = cmd.id;
+  } catch (err) {
+    await settlePending(session, { error: (err as Error).message });
+    throw err;
+  }
+  const linked = await prisma.gpsTrackingSession.update({
+    where: { id: session.id },
+    data: { startCommandId: commandId },
+  });
+
+  logger.info('Tracking session requested', {
+    sessionId: session.id,
+    terminalId: args.terminalId,
+    commandId,
+    intervalSec: args.intervalSec,
+    durationSec: args.durationSec,
+    adminId: args.adminId ?? null,
+    userId: args.userId ?? null,
+  });
+  return linked;
+}
+
+/** End the live session early. 404s when there is nothing to stop. */
+export async function stopTracking(
+  args: Originator & { terminalId: string },
+): Promise<GpsTrackingSession> {
+  const live = await prisma.gpsTrackingSession.findFirst({
+    where: { terminalId: args.terminalId, status: { in: [...LIVE_STATUSES] } },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!live) throw new AppError('No active tracking session', 404);
+
+  const cmd = await enqueueCommand({
+    terminalId: args.terminalId,
+    adminId: args.adminId ?? null,
+    userId: args.userId ?? null,
+    kind: 'temporary-tracking',
+    tracking: { intervalSec: 0 },
+  });
+
+  const updated = await prisma.gpsTrackingSession.updateMany({
+    where: { id: live.id, status: { in: [...LIVE_STATUSES] } },
+    data: {
+      status: 'STOPPED',
+      stopCommandId: cmd.id,
+      endedAt: new Date(),
+      endReason: 'stopped',
+    },
+  });
+  if (updated.count === 0) {
+    // Expired or failed between the read and the write — the stop command
+    // is harmless (interval 0 is a no-op on an idle terminal).
+    throw new AppError('Tracking session already ended', 409);
+  }
+
+  logger.info('Tracking session stopped', {
+    sessionId: live.id,
+    terminalId: args.terminalId,
+    commandId: cmd.id,
+  });
+  return prisma.gpsTrackingSession.findUniqueOrThrow({ where: { id: live.id } });
+}
+
+/**
+ * The live session if there is one, otherwise the most recent ended one
+ * (so the client can show "tracking expired 5 min ago"). Null if the
+ * terminal has never been tracked.
+ */
+export async function getTrackingStatus(terminalId: string) {
+  const live = await prisma.gpsTrackingSession.findFirst({
+    where: { terminalId, status: { in: [...LIVE_STATUSES] } },
+    orderBy: { createdAt: 'desc' },
+  });
+  const session =
+    live ??
+    (await prisma.gpsTrackingSession.findFirst({
+      where: { terminalId },
+      orderBy: { createdAt: 'desc' },
+    }));
+  return { active: live !== null, session };
+}
+
+// ── Command hooks (gateway side) ────────────────────────────────────────────
+
+/**
+ * Called from `markAcked` for every temporary-tracking command. Stop
+ * commands have no PENDING session pointing at them, so this is a no-op
+ * for those.
+ */
+export async function onTrackingCommandAcked(
+  commandId: string,
+  result: number,
+  ackAt: Date,
+): Promise<void> {
+  const session = await prisma.gpsTrackingSession.findFirst({
+    where: { startCommandId: commandId, status: 'PENDING' },
+    select: { id: true, durationSec: true },
+  });
+  if (!session) return;
+  await settlePending(
+    session,
+    result === 0 ? { ackAt } : { error: `rejected by terminal (result=${result})` },
+  );
+}
+
+async function settlePending(
+  session: { id: string; durationSec: number },
+  outcome: { ackAt: Date } | { error: string },
+): Promise<boolean> {
+  const data =
+    'ackAt' in outcome
+      ? {
+          status: 'ACTIVE' as const,
+          startedAt: outcome.ackAt,
+          expiresAt: new Date(outcome.ackAt.getTime() + session.durationSec * 1000),
+        }
+      : {
+          status: 'FAILED' as const,
+          endedAt: new Date(),
+          endReason: outcome.error,
+        };
+  const res = await prisma.gpsTrackingSession.updateMany({
+    where: { id: session.id, status: 'PENDING' },
+    data,
+  });
+  return res.count === 1;
+}
+
+// ── Cron sweep ──────────────────────────────────────────────────────────────
+
+/**
+ * Expire ACTIVE sessions past their expiresAt and settle PENDING ones whose
+ * start command finished without the ack hook firing (failed, expired in
+ * the queue, or acked while the hook errored).
+ */
+export async function sweepTrackingSessions(): Promise<void> {
+  const now = new Date();
+  const expired = await prisma.gpsTrackingSession.updateMany({
+    where: { status: 'ACTIVE', expiresAt: { lte: now } },
+    data: { status: 'EXPIRED', endedAt: now, endReason: 'duration elapsed' },
+  });
+
+  // Sessions whose start command was never linked (process died between
+  // the session insert and the enqueue).
+  const orphaned = await prisma.gpsTrackingSession.updateMany({
+    where: {
+      status: 'PENDING',
+      startCommandId: null,
+      createdAt: { lt: new Date(now.getTime() - UNLINKED_PENDING_MS) },
+    },
+    data: { status: 'FAILED', endedAt: now, endReason: 'start command was never queued' },
+  });
+
+  const pending = await prisma.gpsTrackingSession.findMany({
+    where: { status: 'PENDING', startCommandId: { not: null } },
+    select: { id: true, durationSec: true, startCommandId: true },
+    take: 200,
+  });
+  let settled = 0;
+  if (pending.length > 0) {
+    const commands = await prisma.gpsCommand.findMany({
+      where: { id: { in: pending.map((p) => p.startCommandId!) } },
+      select: { id: true, status: true, ackAt: true, errorText: true, response: true },
+    });
+    const byId = new Map(commands.map((c) => [c.id, c]));
+    for (const p of pending) {
+      const cmd = byId.get(p.startCommandId!);
+      let ok = false;
+      if (!cmd) {
+        ok = await settlePending(p, { error: 'start command deleted' });
+      } else if (cmd.status === 'ACKED' && cmd.ackAt) {
+        const result = (cmd.response as { result?: number } | null)?.result ?? 0;
+        ok = await settlePending(
+          p,
+          result === 0 ? { ackAt: cmd.ackAt } : { error: `rejected by terminal (result=${result})` },
+        );
+      } else if (cmd.status === 'FAILED' || cmd.status === 'EXPIRED') {
+        ok = await settlePending(p, { error: cmd.errorText ?? `start command ${cmd.status.toLowerCase()}` });
+      }
+      if (ok) settled++;
+    }
+  }
+
+  if (expired.count > 0 || settled > 0 || orphaned.count > 0) {
+    logger.info('sweepTrackingSessions', { expired: expired.count, settled, orphaned: orphaned.count });
+  }
+}
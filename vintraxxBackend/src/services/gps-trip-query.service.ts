@@ -20,6 +20,8 @@ interface ListOptions {
   page: number;
   limit: number;
   terminalId?: string;
+  /** Restrict to trips attributed to one driver. */
+  driverId?: string;
   status?: GpsTripStatus;
   since?: Date;
   until?: Date;
@@ -33,6 +35,7 @@ export async function listTrips(opts: ListOptions) {
   const where: Prisma.GpsTripWhereInput = {};
   if (!opts.admin) where.ownerUserId = opts.userId;
   if (opts.terminalId) where.terminalId = opts.terminalId;
+  if (opts.driverId) where.driverId = opts.driverId;
   if (opts.status) where.status = opts.status;
   if (opts.since || opts.until) {
     where.startAt = {};
@@ -51,6 +54,7 @@ export async function listTrips(opts: ListOptions) {
         terminal: {
           select: { id: true, deviceIdentifier: true, imei: true, nickname: true, vehicleVin: true },
         },
+        driver: { select: { id: true, name: true } },
       },
     }),
   ]);
@@ -71,7 +75,7 @@ export async function getTripDetail(opts: {
 }) {
   const trip = await prisma.gpsTrip.findUnique({
     where: { id: opts.tripId },
-    include: { terminal: true },
+    include: { terminal: true, driver: { select: { id: true, name: true } } },
   });
   if (!trip) throw new AppError('Trip not found', 404);
 
@@ -139,3 +143,92 @@ export async function listDailyStats(opts: DailyStatsOptions) {
 
   return { days, since: sinceDay.toISOString(), until: untilDay.toISOString() };
 }
+
+interface DriverScoresOptions {
+  userId?: string;
+  admin?: boolean;
+  /** Restrict to one driver; otherwise every driver with a closed trip. */
+  driverId?: string;
+  since: Date;
+  until: Date;
+}
+
+/**
+ * Per-driver rollup of CLOSED trips whose `endAt` falls in the window:
+ * trip count, distance, harsh-event totals and the average trip score.
+ * Same aggregation shape gps-daily-rollup uses per terminal, keyed by
+ * `driverId` instead. Alarm counts come from `GpsAlarm.driverId`.
+ *
+ * Unattributed trips (driverId null) are excluded.
+ */
+export async function listDriverScores(opts: DriverScoresOptions) {
+  if (!opts.admin && !opts.userId) {
+    throw new AppError('Either admin or userId must be set', 500);
+  }
+  if (opts.since > opts.until) {
+    throw new AppError('`since` must be earlier than `until`', 400);
+  }
+
+  const tripWhere: Prisma.GpsTripWhereInput = {
+    status: 'CLOSED',
+    endAt: { gte: opts.since, lte: opts.until },
+    driverId: opts.driverId ?? { not: null },
+  };
+  const alarmWhere: Prisma.GpsAlarmWhereInput = {
+    openedAt: { gte: opts.since, lte: opts.until },
+    driverId: opts.driverId ?? { not: null },
+  };
+  if (!opts.admin) {
+    tripWhere.ownerUserId = opts.userId;
+    alarmWhere.ownerUserId = opts.userId;
+  }
+
+  const [tripAgg, alarmAgg] = await Promise.all([
+    prisma.gpsTrip.groupBy({
+      by: ['driverId'],
+      where: tripWhere,
+      _sum: {
+        distanceKm: true,
+        durationSec: true,
+        harshAccelCount: true,
+        harshBrakeCount: true,
+        harshTurnCount: true,
+        overspeedCount: true,
+      },
+      _avg: { score: true },
+      _count: { _all: true },
+    }),
+    prisma.gpsAlarm.groupBy({
+      by: ['driverId'],
+      where: alarmWhere,
+      _count: { _all: true },
+    }),
+  ]);
+
+  const alarmsByDriver = new Map(alarmAgg.map((a) => [a.driverId, a._count._all]));
+  const driverIds = tripAgg.map((t) => t.driverId!);
+  const drivers = await prisma.driver.findMany({
+    where: { id: { in: driverIds } },
+    select: { id: true, name: true },
+  });
+  const nameById = new Map(drivers.map((d) => [d.id, d.name]));
+
+  const scores = tripAgg
+    .map((t) => ({
+      driverId: t.driverId!,
+      driverName: nameById.get(t.driverId!) ?? null,
+      tripCount: t._count._all,
+      distanceKm: Number(t._sum.distanceKm ?? 0),
+      durationSec: t._sum.durationSec ?? 0,
+      harshAccelCount: t._sum.harshAccelCount ?? 0,
+      harshBrakeCount: t._sum.harshBrakeCount ?? 0,
+      harshTurnCount: t._sum.harshTurnCount ?? 0,
+      overspeedCount: t._sum.overspeedCount ?? 0,
+      alarmCount: alarmsByDriver.get(t.driverId) ?? 0,
+      avgScore:
+        t._avg.score !== null && t._avg.score !== undefined ? Math.round(Number(t._avg.score)) : null,
+    }))
+    .sort((a, b) => (b.avgScore ?? -1) - (a.avgScore ?? -1));
+
+  return { scores, since: opts.since.toISOString(), until: opts.until.toISOString() };
+}
@@ -167,6 +167,7 @@ async function openNewTrip(
       terminalId: terminal.id,
       ownerUserId: terminal.ownerUserId,
       vin: terminal.vehicleVin,
+      driverId: terminal.currentDriverId,
       status: 'OPEN',
       startAt: startPoint.reportedAt,
       startLat: new Prisma.Decimal(startPoint.latitude.toFixed(7)),
@@ -297,7 +298,7 @@ async function appendPoint(
 export async function closeOpenTrip(
   trip: GpsTrip,
   endPoint: TripLocationPoint,
-  reason: 'acc_off' | 'idle_timeout' | 'vendor_summary',
+  reason: 'acc_off' | 'idle_timeout' | 'vendor_summary' | 'logout',
 ): Promise<GpsTrip | null> {
   const durationSec = Math.max(
     0,
@@ -453,36 +454,14 @@ export async function closeStaleOpenTrips(): Promise<number> {
 
   let closedCount = 0;
   for (const t of openTrips) {
-    const lastLoc = await prisma.gpsLocation.findFirst({
-      where: { terminalId: t.terminalId },
-      orderBy: { reportedAt: 'desc' },
-      select: {
-        reportedAt: true,
-        latitude: true,
-        longitude: true,
-        speedKmh: true,
-        heading: true,
-        accOn: true,
-      },
-    });
-
     // No locations at all? Trip is stale by definition; close it now.
-    const lastSeen = lastLoc?.reportedAt ?? t.startAt;
-    if (lastSeen > cutoff) continue;
+    const endPoint = await lastKnownPoint(t.terminalId, t.startAt);
+    if (endPoint.reportedAt > cutoff) continue;
 
     // Reload the full trip row so closeOpenTrip can produce a sensible score.
     const full = await prisma.gpsTrip.findUnique({ where: { id: t.id } });
     if (!full) continue;
 
-    const endPoint: TripLocationPoint = {
-      reportedAt: lastSeen,
-      latitude: lastLoc ? Number(lastLoc.latitude) : 0,
-      longitude: lastLoc ? Number(lastLoc.longitude) : 0,
-      speedKmh: lastLoc ? Number(lastLoc.speedKmh ?? 0) : 0,
-      heading: lastLoc?.heading ?? 0,
-      accOn: lastLoc?.accOn ?? null,
-    };
-
     try {
       const closed = await closeOpenTrip(full, endPoint, 'idle_timeout');
       if (closed) closedCount++;
@@ -500,6 +479,56 @@ export async function closeStaleOpenTrips(): Promise<number> {
   return closedCount;
 }
 
+/**
+ * Close every OPEN trip on one terminal at its last known position. Used
+ * when the device logs out (0x0003) — no further reports will arrive on
+ * this registration, so waiting for the idle sweep would only stretch the
+ * trip's end time. Returns number of trips closed.
+ */
+export async function closeOpenTripsForTerminal(
+  terminalId: string,
+  reason: 'logout',
+): Promise<number> {
+  const openTrips = await prisma.gpsTrip.findMany({
+    where: { terminalId, status: 'OPEN' },
+  });
+
+  let closedCount = 0;
+  for (const trip of openTrips) {
+    const endPoint = await lastKnownPoint(terminalId, trip.startAt);
+    const closed = await closeOpenTrip(trip, endPoint, reason);
+    if (closed) closedCount++;
+  }
+  return closedCount;
+}
+
+/**
+ * Synthetic trip end point from the terminal's newest GpsLocation. With no
+ * locations at all, falls back to `fallbackAt` at 0,0.
+ */
+async function lastKnownPoint(terminalId: string, fallbackAt: Date): Promise<TripLocationPoint> {
+  const lastLoc = await prisma.gpsLocation.findFirst({
+    where: { terminalId },
+    orderBy: { reportedAt: 'desc' },
+    select: {
+      reportedAt: true,
+      latitude: true,
+      longitude: true,
+      speedKmh: true,
+      heading: true,
+      accOn: true,
+    },
+  });
+  return {
+    reportedAt: lastLoc?.reportedAt ?? fallbackAt,
+    latitude: lastLoc ? Number(lastLoc.latitude) : 0,
+    longitude: lastLoc ? Number(lastLoc.longitude) : 0,
+    speedKmh: lastLoc ? Number(lastLoc.speedKmh ?? 0) : 0,
+    heading: lastLoc?.heading ?? 0,
+    accOn: lastLoc?.accOn ?? null,
+  };
+}
+
 // ── Pure helpers ────────────────────────────────────────────────────────────
 
 /** Haversine great-circle distance in kilometres. */
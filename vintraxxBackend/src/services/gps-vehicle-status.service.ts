@@ -0,0 +1,61 @@
+/**
+ * gps-vehicle-status.service — parked-vehicle alarms from the 0xEA basic
+ * data flow (0x0011 vehicle status table, 0x0010 accelerometer).
+ *
+ * "Parked" means ACC off on the 0x0200 status word. While parked:
+ *   • DOOR_OPEN_PARKED — any door, the trunk or the hood reads open.
+ *   • MOTION_PARKED    — the accelerometer window peaked at or above
+ *                        PARKED_MOTION_MG (bump, tow, break-in).
+ *
+ * Both are condition alarms (see gps-condition-alarm): they close on the
+ * next report where the condition no longer holds, including ignition on.
+ * A report that doesn't carry the relevant table leaves the alarm as-is.
+ */
+
+import type { GpsTerminal } from '@prisma/client';
+import { syncConditionAlarm } from './gps-condition-alarm.service';
+import type { DecodedLocation } from '../gateway/codec/messages/m0200-location';
+
+/**
+ * Peak resultant acceleration (mg) that counts as the vehicle being moved.
+ * The D450 reports it with gravity removed; a door slam on the vehicle
+ * itself stays around 100–150 mg, a tow hook-up or a shunt goes well past.
+ */
+const PARKED_MOTION_MG = 300;
+
+/** Door-status bits 0–5: LF, RF, LR, RR door, trunk, hood. */
+const DOOR_NAMES = ['frontLeft', 'frontRight', 'rearLeft', 'rearRight', 'trunk', 'hood'];
+const DOOR_MASK = 0x3f;
+
+export async function evaluateParkedAlarms(
+  terminal: GpsTerminal,
+  decoded: DecodedLocation,
+  position: { latitude: number; longitude: number },
+): Promise<void> {
+  const obd = decoded.additional.obd;
+  if (!obd) return;
+  const parked = !decoded.accOn;
+
+  const doorBits = obd.vehicleStatus?.doorBits;
+  if (doorBits !== undefined && doorBits !== null) {
+    const open = DOOR_NAMES.filter((_, bit) => (doorBits & (1 << bit)) !== 0);
+    await syncConditionAlarm(terminal, decoded.reportedAt, {
+      type: 'DOOR_OPEN_PARKED',
+      severity: 'WARNING',
+      active: parked && (doorBits & DOOR_MASK) !== 0,
+      extraData: { doorBits, open },
+      ...position,
+    });
+  }
+
+  const accel = obd.accelerometer;
+  if (accel) {
+    await syncConditionAlarm(terminal, decoded.reportedAt, {
+      type: 'MOTION_PARKED',
+      severity: 'CRITICAL',
+      active: parked && accel.maxMg >= PARKED_MOTION_MG,
+      extraData: { accelMaxMg: accel.maxMg, thresholdMg: PARKED_MOTION_MG },
+      ...position,
+    });
+  }
+}
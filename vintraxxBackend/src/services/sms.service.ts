@@ -0,0 +1,125 @@
+/**
+ * sms.service — outbound / inbound SMS behind a provider interface.
+ *
+ * One provider per process, chosen by SMS_PROVIDER:
+ *
+ *   • `stub`   — logs every send and returns a fake message id. Inbound
+ *                webhooks are accepted unauthenticated, so a reply can be
+ *                simulated with a plain POST. Refused in production: a send
+ *                that goes nowhere must not look delivered.
+ *   • `twilio` — Programmable Messaging. Inbound webhooks must carry a valid
+ *                X-Twilio-Signature for SMS_INBOUND_WEBHOOK_URL.
+ *
+ * Callers only see `SmsProvider`; nothing outside this file imports twilio.
+ */
+
+import { randomUUID } from 'crypto';
+import twilio from 'twilio';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+
+export interface InboundSms {
+  from: string;
+  body: string;
+  providerMessageId: string | null;
+}
+
+/** What the webhook route hands a provider: enough to verify and parse. */
+export interface InboundWebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, unknown>;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  /** Throws when the provider refuses the message. */
+  send(to: string, body: string): Promise<{ providerMessageId: string }>;
+  /** Null when the request isn't a genuine inbound SMS from this provider. */
+  parseInbound(req: InboundWebhookRequest): InboundSms | null;
+  /** Response body + content type the webhook answers with. */
+  readonly inboundAck: { contentType: string; body: string };
+}
+
+class StubSmsProvider implements SmsProvider {
+  readonly name = 'stub';
+  readonly inboundAck = { contentType: 'application/json', body: '{"success":true}' };
+
+  async send(to: string, body: string): Promise<{ providerMessageId: string }> {
+    const providerMessageId = `stub-${randomUUID()}`;
+    // The body can carry a device password; callers log their own redacted copy.
+    logger.info('SMS (stub provider, not sent)', { to, chars: body.length, providerMessageId });
+    return { providerMessageId };
+  }
+
+  parseInbound(req: InboundWebhookRequest): InboundSms | null {
+    if (env.NODE_ENV === 'production') return null;
+    const from = stringField(req.body, 'From');
+    const body = stringField(req.body, 'Body');
+    if (!from || body === null) return null;
+    return { from, body, providerMessageId: stringField(req.body, 'MessageSid') };
+  }
+}
+
+class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  readonly inboundAck = { contentType: 'text/xml', body: '<Response></Response>' };
+  private readonly client: twilio.Twilio;
+
+  constructor(
+    accountSid: string,
+    private readonly authToken: string,
+    private readonly fromNumber: string,
+  ) {
+    this.client = twilio(accountSid, authToken);
+  }
+
+  async send(to: string, body: string): Promise<{ providerMessageId: string }> {
+    const msg = await this.client.messages.create({ to, from: this.fromNumber, body });
+    return { providerMessageId: msg.sid };
+  }
+
+  parseInbound(req: InboundWebhookRequest): InboundSms | null {
+    const signature = req.headers['x-twilio-signature'];
+    if (typeof signature !== 'string' || !env.SMS_INBOUND_WEBHOOK_URL) return null;
+    if (!twilio.validateRequest(this.authToken, signature, env.SMS_INBOUND_WEBHOOK_URL, req.body)) {
+      return null;
+    }
+    const from = stringField(req.body, 'From');
+    const body = stringField(req.body, 'Body');
+    if (!from || body === null) return null;
+    return { from, body, providerMessageId: stringField(req.body, 'MessageSid') };
+  }
+}
+
+function stringField(body: Record<string, unknown>, key: string): string | null {
+  const v = body[key];
+  return typeof v === 'string' ? v : null;
+}
+
+let provider: SmsProvider | null = null;
+
+/**
+ * The configured provider. Throws (once per call) when Twilio is
+ * misconfigured, or when production is left on the stub.
+ */
+export function smsProvider(): SmsProvider {
+  if (provider) return provider;
+  if (env.SMS_PROVIDER === 'twilio') {
+    if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.TWILIO_FROM_NUMBER) {
+      throw new Error(
+        'SMS_PROVIDER=twilio needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER',
+      );
+    }
+    provider = new TwilioSmsProvider(
+      env.TWILIO_ACCOUNT_SID,
+      env.TWILIO_AUTH_TOKEN,
+      env.TWILIO_FROM_NUMBER,
+    );
+  } else {
+    if (env.NODE_ENV === 'production') {
+      throw new Error('SMS_PROVIDER=stub is not allowed in production; configure twilio');
+    }
+    provider = new StubSmsProvider();
+  }
+  return provider;
+}
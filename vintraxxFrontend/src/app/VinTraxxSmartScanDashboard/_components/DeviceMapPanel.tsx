@@ -21,7 +21,7 @@
 "use client";
 
 import { Fragment, useMemo, useState } from "react";
-import { GoogleMap, Polyline, InfoWindow } from "@react-google-maps/api";
+import { Circle, GoogleMap, Polyline, InfoWindow } from "@react-google-maps/api";
 import { useGoogleMaps } from "../_lib/GoogleMapsContext";
 import { MapPin } from "lucide-react";
 import { AdvancedMarkerWrapper } from "./AdvancedMarkerWrapper";
@@ -197,8 +197,25 @@ export function DeviceMapPanel({
         {points.map((p) => {
           const color = MARKER_PALETTE[p.color ?? "primary"];
           const isSelected = selectedId === p.id;
+          const accuracyM =
+            p.location?.positionSource === "CELL" ? p.location.accuracyM : null;
           return (
             <Fragment key={p.id}>
+              {/* Cell-tower fix: the pin is only somewhere inside this circle. */}
+              {accuracyM ? (
+                <Circle
+                  center={{ lat: p.lat, lng: p.lng }}
+                  radius={accuracyM}
+                  options={{
+                    strokeColor: color,
+                    strokeOpacity: 0.6,
+                    strokeWeight: 1,
+                    fillColor: color,
+                    fillOpacity: 0.12,
+                    clickable: false,
+                  }}
+                />
+              ) : null}
               <AdvancedMarkerWrapper
                 position={{ lat: p.lat, lng: p.lng }}
                 title={p.label}
@@ -40,6 +40,11 @@ const STATUS_PILL: Record<GpsTerminal["status"], { label: string; classes: strin
     classes: "bg-gray-50 text-gray-500 border-gray-200",
     dot: "bg-[#9CA3AF]",
   },
+  LOGGED_OUT: {
+    label: "Logged out",
+    classes: "bg-amber-50 text-amber-700 border-amber-200",
+    dot: "bg-amber-500",
+  },
   REVOKED: {
     label: "Revoked",
     classes: "bg-rose-50 text-rose-700 border-rose-200",
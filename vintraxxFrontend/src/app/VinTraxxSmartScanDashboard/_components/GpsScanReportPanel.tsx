@@ -291,6 +291,28 @@ function DtcSection({ report }: { report: GpsScanReport }) {
 }
 
 function ObdLiveGrid({ report }: { report: GpsScanReport }) {
+  // Commercial (0xEC/0xEE) and EV (0xED) rows only apply to some vehicles —
+  // list them when present instead of padding every car with dashes.
+  const vehicleRows = [
+    { label: "Engine Hours", value: report.engineHours != null ? `${report.engineHours} h` : null },
+    { label: "Fuel Rate", value: report.fuelRateLph != null ? `${report.fuelRateLph} L/h` : null },
+    { label: "Total Fuel Used", value: report.fuelConsumedL != null ? `${Number(report.fuelConsumedL).toFixed(1)} L` : null },
+    { label: "DEF Level", value: report.defLevelPct != null ? `${Number(report.defLevelPct).toFixed(1)}%` : null },
+    { label: "Engine Oil Temp", value: report.engineOilTempC != null ? `${report.engineOilTempC} °C` : null },
+    { label: "Engine Oil Pressure", value: report.engineOilPressureKpa != null ? `${report.engineOilPressureKpa} kPa` : null },
+    { label: "Parking Brake", value: report.parkingBrakeOn != null ? (report.parkingBrakeOn ? "Set" : "Released") : null },
+    { label: "PTO", value: report.ptoIdleActive ? "Running at idle" : null },
+    { label: "Axle Weight", value: report.axleWeightKg != null ? `${report.axleWeightKg.toLocaleString()} kg` : null },
+    { label: "EV State of Charge", value: report.evSocPct != null ? `${report.evSocPct}%` : null },
+    { label: "EV Range", value: report.evRangeKm != null ? `${Math.round(Number(report.evRangeKm) * 0.621371)} mi` : null },
+    { label: "Charging State", value: report.evChargingState != null ? report.evChargingState.replace(/_/g, " ").toLowerCase() : null },
+    { label: "Charger Plugged In", value: report.evChargerPlugged != null ? (report.evChargerPlugged ? "Yes" : "No") : null },
+    { label: "Drive Motor RPM", value: report.evMotorRpm != null ? `${report.evMotorRpm} rpm` : null },
+    { label: "Drive Motor Torque", value: report.evMotorTorqueNm != null ? `${report.evMotorTorqueNm} Nm` : null },
+    { label: "Drive Motor Temp", value: report.evMotorTempC != null ? `${report.evMotorTempC} °C` : null },
+    { label: "Battery Health", value: report.evSohPct != null ? `${report.evSohPct}%` : null },
+  ].filter((r): r is { label: string; value: string } => r.value !== null);
+
   const rows: Array<{ label: string; value: string; unsupported?: boolean }> = [
     { label: "VIN", value: report.vin ?? "—" },
     { label: "MIL Status", value: report.milOn === true ? "ON" : report.milOn === false ? "OFF" : "—" },
@@ -328,6 +350,7 @@ function ObdLiveGrid({ report }: { report: GpsScanReport }) {
     },
     { label: "Barometric Pressure", value: report.barometricKpa != null ? `${report.barometricKpa} kPa` : "—" },
     { label: "Accelerator Position", value: report.acceleratorPct != null ? `${report.acceleratorPct}%` : "—" },
+    ...vehicleRows,
     { label: "Fuel System Status", value: report.fuelSystemStatus ?? "N/A", unsupported: true },
     { label: "Secondary Air Status", value: report.secondaryAirStatus ?? "N/A", unsupported: true },
     { label: "Distance Since Clear", value: "N/A", unsupported: true },
@@ -7,12 +7,24 @@
  * Note: rich OBD PIDs (RPM, coolant temp, etc.) live in `GpsObdSnapshot`
  * which today only exposes through the admin namespace. When a user-facing
  * /terminals/:id/obd endpoint ships, this panel can layer it on top of the
- * fields already shown here.
+ * fields already shown here. The one exception is the commercial / EV row
+ * below, fed from the latest snapshot that `useGpsLatest` already returns.
  */
 
 "use client";
 
-import { Activity, Battery, Compass, Fuel, Gauge, Satellite } from "lucide-react";
+import {
+  Activity,
+  Battery,
+  BatteryCharging,
+  Clock,
+  Compass,
+  Droplet,
+  Fuel,
+  Gauge,
+  Satellite,
+  Weight,
+} from "lucide-react";
 import { useGpsLatest } from "../_lib/useGpsLatest";
 import { formatRelativeOrAbsolute, formatMph } from "../_lib/format";
 
@@ -21,7 +33,14 @@ interface Props {
 }
 
 export function LiveObdPanel({ terminalId }: Props) {
-  const { location, loading } = useGpsLatest(terminalId);
+  const { location, obd, loading } = useGpsLatest(terminalId);
+  const hasTruck =
+    obd != null &&
+    (obd.engineHours != null ||
+      obd.defLevelPct != null ||
+      obd.axleWeightKg != null ||
+      obd.ptoIdleActive === true);
+  const hasEv = obd != null && (obd.evRangeKm != null || obd.evChargingState != null);
 
   return (
     <div className="rounded-xl border border-slate-200 bg-white p-4 sm:p-6">
@@ -110,6 +129,64 @@ export function LiveObdPanel({ terminalId }: Props) {
           }
         />
       </div>
+      {(hasTruck || hasEv) && obd && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3 pt-3 border-t border-slate-100">
+          {obd.engineHours != null && (
+            <Stat
+              icon={<Clock className="w-4 h-4" />}
+              label="Engine Hours"
+              value={`${Number(obd.engineHours).toFixed(1)} h`}
+            />
+          )}
+          {obd.defLevelPct != null && (
+            <Stat
+              icon={<Droplet className="w-4 h-4" />}
+              label="DEF Level"
+              value={`${Number(obd.defLevelPct).toFixed(0)}%`}
+            />
+          )}
+          {obd.axleWeightKg != null && (
+            <Stat
+              icon={<Weight className="w-4 h-4" />}
+              label="Axle Weight"
+              value={`${obd.axleWeightKg.toLocaleString()} kg`}
+            />
+          )}
+          {obd.ptoIdleActive && (
+            <Stat
+              icon={<Activity className="w-4 h-4" />}
+              label="PTO"
+              value="Running at idle"
+            />
+          )}
+          {obd.evRangeKm != null && (
+            <Stat
+              icon={<Gauge className="w-4 h-4" />}
+              label="EV Range"
+              value={`${Math.round(Number(obd.evRangeKm) * 0.621371)} mi`}
+            />
+          )}
+          {obd.evChargingState != null && (
+            <Stat
+              icon={<BatteryCharging className="w-4 h-4" />}
+              label="Charging"
+              value={obd.evChargingState.replace(/_/g, " ").toLowerCase()}
+              accent={
+                obd.evChargingState.endsWith("CHARGING") && obd.evChargingState !== "NOT_CHARGING"
+                  ? "text-emerald-600"
+                  : undefined
+              }
+            />
+          )}
+          {obd.evSohPct != null && (
+            <Stat
+              icon={<Battery className="w-4 h-4" />}
+              label="Battery Health"
+              value={`${obd.evSohPct}%`}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -192,6 +192,12 @@ export default function TerminalInfoCard({
       <Section title="Location">
         <Row label="Address" value={address} />
         <Row label="Coordinates" value={coordsLabel} mono />
+        {location?.positionSource === "CELL" && (
+          <Row
+            label="Position source"
+            value={`Cell tower (approx.${location.accuracyM ? ` ±${location.accuracyM.toLocaleString()} m` : ""})`}
+          />
+        )}
         <Row
           label="Last GPS ping"
           value={
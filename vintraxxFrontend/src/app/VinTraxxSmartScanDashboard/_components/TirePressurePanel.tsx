@@ -0,0 +1,110 @@
+/**
+ * TirePressurePanel — per-wheel pressure / temperature from the device's
+ * TPMS peripheral (0xEE tire tables). Renders nothing for vehicles that
+ * have never reported a tire table, so passenger cars without a TPMS
+ * receiver don't get an empty card.
+ *
+ * Re-fetches whenever `useGpsLatest` sees a newer location report — tire
+ * tables ride on the same 0x0200 frame.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, CircleDot } from "lucide-react";
+import { gpsApi } from "../_lib/gpsApi";
+import { useGpsLatest } from "../_lib/useGpsLatest";
+import { formatRelativeOrAbsolute } from "../_lib/format";
+import type { GpsTireReading } from "../_lib/types";
+
+interface Props {
+  terminalId: string;
+}
+
+const KPA_TO_PSI = 0.145038;
+
+/** Active 0x3006 status flags, most severe first. */
+const STATUS_FLAGS: Array<[number, string]> = [
+  [0x80, "Quick leak"],
+  [0x40, "Slow leak"],
+  [0x10, "High temp"],
+  [0x04, "Low pressure"],
+  [0x08, "High pressure"],
+  [0x20, "Sensor battery low"],
+];
+
+function tireFlags(statusBits: number | null): string[] {
+  if (statusBits == null) return [];
+  return STATUS_FLAGS.filter(([bit]) => (statusBits & bit) !== 0).map(
+    ([, name]) => name,
+  );
+}
+
+function tireLabel(t: GpsTireReading): string {
+  return t.axle != null
+    ? `Axle ${t.axle} · Wheel ${t.position & 0x0f}`
+    : `Tire ${t.position}`;
+}
+
+export function TirePressurePanel({ terminalId }: Props) {
+  const { location } = useGpsLatest(terminalId);
+  const [tires, setTires] = useState<GpsTireReading[]>([]);
+  const [reportedAt, setReportedAt] = useState<string | null>(null);
+  const lastReport = location?.reportedAt ?? null;
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    (async () => {
+      const res = await gpsApi.getTires(terminalId, { limit: 1 }, ctrl.signal);
+      if (ctrl.signal.aborted) return;
+      if (res.success && res.data) {
+        setTires(res.data.latest ?? []);
+        setReportedAt(res.data.latestReportedAt);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [terminalId, lastReport]);
+
+  if (tires.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-900">Tire Pressure</h3>
+        <span className="text-xs text-slate-500">
+          {reportedAt ? formatRelativeOrAbsolute(reportedAt) : "—"}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {tires.map((t) => {
+          const flags = tireFlags(t.statusBits);
+          return (
+            <div
+              key={t.id}
+              className={`rounded-lg p-3 ${
+                flags.length > 0 ? "bg-red-50 border border-red-200" : "bg-slate-50"
+              }`}
+            >
+              <div className="flex items-center gap-1.5 text-xs text-slate-500 mb-1">
+                <CircleDot className="w-4 h-4" />
+                <span>{tireLabel(t)}</span>
+              </div>
+              <p className="text-lg font-bold text-slate-900">
+                {(t.pressureKpa * KPA_TO_PSI).toFixed(0)} psi
+              </p>
+              <p className="text-xs text-slate-500">
+                {t.pressureKpa} kPa · {t.temperatureC}°C
+              </p>
+              {flags.length > 0 && (
+                <p className="mt-1 flex items-center gap-1 text-xs font-medium text-red-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  {flags.join(", ")}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
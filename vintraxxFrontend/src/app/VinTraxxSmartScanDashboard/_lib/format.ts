@@ -139,6 +139,8 @@ export function statusDotClasses(status: string): string {
       return "bg-[#DC2626] ring-2 ring-red-200";
     case "NEVER_CONNECTED":
       return "bg-[#9CA3AF] ring-2 ring-gray-200";
+    case "LOGGED_OUT":
+      return "bg-amber-500 ring-2 ring-amber-200";
     case "REVOKED":
       return "bg-red-500 ring-2 ring-red-200";
     default:
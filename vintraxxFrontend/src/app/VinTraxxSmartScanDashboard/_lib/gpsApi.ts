@@ -33,6 +33,7 @@ import type {
   ListTripsResult,
   RequestScanReportResponse,
   ScanReportEmailResponse,
+  TireTelemetryResult,
 } from "./types";
 import { API_BASE, toApiUrl } from "@/lib/api-config";
 import { gpsWs } from "./gpsWs";
@@ -215,6 +216,18 @@ export const gpsApi = {
     });
   },
 
+  /** Latest tire per wheel + history window (default 24h). */
+  getTires(
+    id: string,
+    opts: { since?: string; until?: string; limit?: number } = {},
+    signal?: AbortSignal,
+  ) {
+    return request<TireTelemetryResult>(`/gps/terminals/${id}/tires`, {
+      query: opts,
+      signal,
+    });
+  },
+
   // Trips + stats
   listTrips(
     id: string,
@@ -14,6 +14,7 @@ export type GpsTerminalStatus =
   | "NEVER_CONNECTED"
   | "ONLINE"
   | "OFFLINE"
+  | "LOGGED_OUT"
   | "REVOKED";
 
 export interface GpsTerminal {
@@ -72,6 +73,9 @@ export interface GpsLocation {
   serverReceivedAt: string;
   accOn: boolean | null;
   gpsFix: boolean | null;
+  /** CELL = cell-tower estimate (no GNSS fix); `accuracyM` is its radius. */
+  positionSource: "GNSS" | "CELL";
+  accuracyM: number | null;
   satelliteCount: number | null;
   signalStrength: number | null;
   odometerKm: number | null;
@@ -114,10 +118,50 @@ export interface GpsObdSnapshot {
   o2Voltage: number | string | null;
   milOn: boolean | null;
   milDistanceKm: number | string | null;
+  /** Commercial vehicles (0xEC J1939 flow / 0xEE load cell). */
+  engineHours: number | string | null;
+  defLevelPct: number | string | null;
+  engineOilTempC: number | null;
+  engineOilPressureKpa: number | null;
+  parkingBrakeOn: boolean | null;
+  ptoIdleActive: boolean | null;
+  axleWeightKg: number | null;
+  /** New-energy vehicles (0xED flow). */
+  evRangeKm: number | string | null;
+  evChargingState: string | null;
+  evChargerPlugged: boolean | null;
+  evMotorRpm: number | null;
+  evMotorTorqueNm: number | null;
+  evMotorTempC: number | null;
+  evSohPct: number | null;
   /** Vendor-specific PIDs not natively decoded — key is hex ("0x21"). */
   extraPidsJson: Record<string, unknown> | null;
 }
 
+/**
+ * One wheel from the 0xEE tire table (0x3006) or per-axle table (0x300E).
+ * `axle` is only set for the per-axle table; `statusBits` only for 0x3006.
+ */
+export interface GpsTireReading {
+  id: string;
+  terminalId: string;
+  reportedAt: string;
+  position: number;
+  axle: number | null;
+  pressureKpa: number;
+  temperatureC: number;
+  statusBits: number | null;
+  sensorVoltageV: number | string | null;
+}
+
+export interface TireTelemetryResult {
+  latestReportedAt: string | null;
+  latest: GpsTireReading[];
+  readings: GpsTireReading[];
+  since: string;
+  until: string;
+}
+
 // ── Alarms ──────────────────────────────────────────────────────────────────
 
 export type GpsAlarmSeverity = "INFO" | "WARNING" | "CRITICAL";
@@ -144,6 +188,9 @@ export type GpsAlarmType =
   | "DRIVE_TIME_EXCEEDED"
   | "OFFLINE"
   | "ENGINE_FAULT_LIGHT"
+  | "TIRE_LOW_PRESSURE"
+  | "TIRE_RAPID_LEAK"
+  | "TIRE_OVER_TEMPERATURE"
   | "OTHER";
 
 export interface GpsAlarm {
@@ -243,6 +290,25 @@ export interface GpsScanReport {
   acceleratorPct: string | number | null;
   intakeManifoldKpa: number | null;
 
+  engineHours: string | number | null;
+  fuelRateLph: string | number | null;
+  fuelConsumedL: string | number | null;
+  defLevelPct: string | number | null;
+  engineOilTempC: number | null;
+  engineOilPressureKpa: number | null;
+  parkingBrakeOn: boolean | null;
+  ptoIdleActive: boolean | null;
+  axleWeightKg: number | null;
+
+  evSocPct: number | null;
+  evRangeKm: string | number | null;
+  evChargingState: string | null;
+  evChargerPlugged: boolean | null;
+  evMotorRpm: number | null;
+  evMotorTorqueNm: number | null;
+  evMotorTempC: number | null;
+  evSohPct: number | null;
+
   protocol: string | null;
   rawObdJson: {
     obdLive?: {
@@ -331,6 +397,8 @@ export interface WsLocationUpdate {
     altitudeM: number;
     accOn: boolean;
     gpsFix: boolean;
+    positionSource: "GNSS" | "CELL";
+    accuracyM: number | null;
     alarmBits: number;
     statusBits: number;
   };
@@ -350,7 +418,11 @@ export interface WsTerminalOnline extends WsTerminalStatusBase {
 export interface WsTerminalOffline extends WsTerminalStatusBase {
   type: "terminal.offline";
 }
-export type WsTerminalStatus = WsTerminalOnline | WsTerminalOffline;
+/** Device deregistered with 0x0003 (unplugged / reset), not a lost link. */
+export interface WsTerminalLogout extends WsTerminalStatusBase {
+  type: "terminal.logout";
+}
+export type WsTerminalStatus = WsTerminalOnline | WsTerminalOffline | WsTerminalLogout;
 
 interface WsAlarmEventBase {
   terminalId: string;
@@ -399,6 +471,7 @@ export type WsDomainEvent =
   | WsLocationUpdate
   | WsTerminalOnline
   | WsTerminalOffline
+  | WsTerminalLogout
   | WsAlarmOpened
   | WsAlarmClosed
   | WsAlarmAcknowledged
@@ -78,6 +78,8 @@ export function useGpsLatest(terminalId: string | null | undefined) {
         serverReceivedAt: new Date().toISOString(),
         accOn: e.data.accOn,
         gpsFix: e.data.gpsFix,
+        positionSource: e.data.positionSource,
+        accuracyM: e.data.accuracyM,
       }));
     });
 
@@ -2,7 +2,8 @@
  * useGpsTerminals — REST seed + WS deltas for the dealer's fleet.
  *
  * On mount: fetches /gps/terminals once. Then subscribes to:
- *   • `terminal.online` / `terminal.offline` — flip status + lastHeartbeatAt.
+ *   • `terminal.online` / `terminal.offline` / `terminal.logout` — flip
+ *     status + lastHeartbeatAt.
  *   • `location.update`                       — best-effort heartbeat refresh.
  *
  * Exposes `{ terminals, loading, error, refetch }`. The terminals array is
@@ -77,6 +78,15 @@ export function useGpsTerminals() {
         ),
       );
     });
+    const offLogout = gpsWs.on("terminal.logout", (e) => {
+      setTerminals((prev) =>
+        prev.map<GpsTerminal>((t) =>
+          t.id === e.terminalId
+            ? { ...t, status: "LOGGED_OUT", disconnectedAt: e.at }
+            : t,
+        ),
+      );
+    });
     const offLoc = gpsWs.on("location.update", (e) => {
       // Refresh heartbeat ts so "last seen" sorting stays fresh during live
       // tracking. We deliberately don't update the terminal's coords here —
@@ -94,6 +104,7 @@ export function useGpsTerminals() {
     return () => {
       offOnline();
       offOffline();
+      offLogout();
       offLoc();
     };
   }, []);
@@ -23,6 +23,7 @@ import type {
 import { BackLink } from "../../_components/BackLink";
 import { DeviceMapPanel } from "../../_components/DeviceMapPanel";
 import { LiveObdPanel } from "../../_components/LiveObdPanel";
+import { TirePressurePanel } from "../../_components/TirePressurePanel";
 import { GpsScanReportPanel } from "../../_components/GpsScanReportPanel";
 import { TripsTable } from "../../_components/TripsTable";
 import { DtcTable } from "../../_components/DtcTable";
@@ -109,6 +110,7 @@ function StatusPill({ status }: { status: GpsTerminal["status"] }) {
     ONLINE: { dot: "bg-[#16A34A]", label: "Online" },
     OFFLINE: { dot: "bg-[#DC2626]", label: "Offline" },
     NEVER_CONNECTED: { dot: "bg-[#9CA3AF]", label: "Never connected" },
+    LOGGED_OUT: { dot: "bg-amber-500", label: "Logged out" },
     REVOKED: { dot: "bg-rose-500", label: "Revoked" },
   };
   const s = map[status];
@@ -213,6 +215,7 @@ function LiveTab({ terminal }: { terminal: GpsTerminal }) {
         </p>
       )}
       <LiveObdPanel terminalId={terminal.id} />
+      <TirePressurePanel terminalId={terminal.id} />
     </div>
   );
 }
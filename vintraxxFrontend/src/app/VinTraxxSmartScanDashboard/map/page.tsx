@@ -103,6 +103,8 @@ export default function MapPage() {
               serverReceivedAt: new Date().toISOString(),
               accOn: e.data.accOn,
               gpsFix: e.data.gpsFix,
+              positionSource: e.data.positionSource,
+              accuracyM: e.data.accuracyM,
             },
           },
         };
@@ -20,6 +20,7 @@ const STATUS_MAP: Record<GpsTerminalStatus, { dot: string; label: string; text:
   ONLINE:          { dot: "bg-[#16A34A]", label: "text-green-700",  text: "Online" },
   OFFLINE:         { dot: "bg-[#DC2626]", label: "text-red-600",    text: "Offline" },
   NEVER_CONNECTED: { dot: "bg-[#9CA3AF]", label: "text-gray-500",   text: "Never connected" },
+  LOGGED_OUT:      { dot: "bg-amber-500", label: "text-amber-700",  text: "Logged out" },
   REVOKED:         { dot: "bg-rose-500",  label: "text-rose-600",   text: "Revoked" },
 };
 
@@ -165,6 +165,29 @@ const DtcSection: React.FC<{ report: GpsScanReport }> = ({ report }) => {
 };
 
 const ObdGrid: React.FC<{ report: GpsScanReport }> = ({ report }) => {
+  // Commercial (0xEC/0xEE) and EV (0xED) rows — only listed when reported.
+  const vehicleRows = (
+    [
+      ['Engine Hours', report.engineHours != null ? `${report.engineHours} h` : null],
+      ['Fuel Rate', report.fuelRateLph != null ? `${report.fuelRateLph} L/h` : null],
+      ['Total Fuel Used', report.fuelConsumedL != null ? `${Number(report.fuelConsumedL).toFixed(1)} L` : null],
+      ['DEF Level', report.defLevelPct != null ? formatPct(report.defLevelPct) : null],
+      ['Engine Oil Temp', report.engineOilTempC != null ? formatTemp(report.engineOilTempC) : null],
+      ['Engine Oil Pressure', report.engineOilPressureKpa != null ? `${report.engineOilPressureKpa} kPa` : null],
+      ['Parking Brake', report.parkingBrakeOn != null ? (report.parkingBrakeOn ? 'Set' : 'Released') : null],
+      ['PTO', report.ptoIdleActive ? 'Running at idle' : null],
+      ['Axle Weight', report.axleWeightKg != null ? `${report.axleWeightKg} kg` : null],
+      ['EV State of Charge', report.evSocPct != null ? `${report.evSocPct}%` : null],
+      ['EV Range', report.evRangeKm != null ? `${Math.round(Number(report.evRangeKm) * 0.621371)} mi` : null],
+      ['Charging State', report.evChargingState != null ? report.evChargingState.replace(/_/g, ' ').toLowerCase() : null],
+      ['Charger Plugged In', report.evChargerPlugged != null ? (report.evChargerPlugged ? 'Yes' : 'No') : null],
+      ['Drive Motor RPM', report.evMotorRpm != null ? `${report.evMotorRpm} rpm` : null],
+      ['Drive Motor Torque', report.evMotorTorqueNm != null ? `${report.evMotorTorqueNm} Nm` : null],
+      ['Drive Motor Temp', report.evMotorTempC != null ? formatTemp(report.evMotorTempC) : null],
+      ['Battery Health', report.evSohPct != null ? `${report.evSohPct}%` : null],
+    ] as Array<[string, string | null]>
+  ).filter((r): r is [string, string] => r[1] !== null);
+
   const rows: Array<[string, string, boolean?]> = [
     ['VIN', report.vin ?? '—'],
     ['MIL Status', report.milOn === true ? 'ON' : report.milOn === false ? 'OFF' : '—'],
@@ -221,6 +244,7 @@ const ObdGrid: React.FC<{ report: GpsScanReport }> = ({ report }) => {
     ],
     ['Barometric Pressure', report.barometricKpa != null ? `${report.barometricKpa} kPa` : '—'],
     ['Accelerator Position', formatPct(report.acceleratorPct)],
+    ...vehicleRows,
     ['Fuel System Status', report.fuelSystemStatus ?? '—'],
     ['Secondary Air Status', report.secondaryAirStatus ?? '—'],
     ['Distance Since Clear', formatMiles(report.distanceSinceClearKm)],
@@ -111,12 +111,16 @@ export const GPS_ENDPOINTS = {
   TERMINAL_LOCATIONS:       '/api/v1/gps/terminals/:id/locations',
   TERMINAL_RENAME:          '/api/v1/gps/terminals/:id/label',
   TERMINAL_LOCATE:          '/api/v1/gps/terminals/:id/locate',
+  TERMINAL_TRACKING:        '/api/v1/gps/terminals/:id/tracking',
   TERMINAL_TRIPS:           '/api/v1/gps/terminals/:id/trips',
   TERMINAL_TRIP_DETAIL:     '/api/v1/gps/terminals/:id/trips/:tripId',
   TERMINAL_STATS:           '/api/v1/gps/terminals/:id/stats',
+  TERMINAL_TIRES:           '/api/v1/gps/terminals/:id/tires',
   ALARMS:                   '/api/v1/gps/alarms',
   ALARM_DETAIL:             '/api/v1/gps/alarms/:id',
   ALARM_ACK:                '/api/v1/gps/alarms/:id/ack',
+  ALARM_COLLISION:          '/api/v1/gps/alarms/:id/collision',
+  ALARM_COLLISION_EMAIL:    '/api/v1/gps/alarms/:id/collision/email',
   DTC_EVENTS:               '/api/v1/gps/dtc-events',
   DTC_EVENT_DETAIL:         '/api/v1/gps/dtc-events/:id',
   DTC_EVENT_ANALYZE:        '/api/v1/gps/dtc-events/:id/analyze',
@@ -7,6 +7,10 @@
 // Actions: Acknowledge (with optional note via simple Alert.prompt-like
 // fallback), View Vehicle Live, Create Service Appointment (deep-links
 // Schedule pre-filled with VIN + reason).
+//
+// COLLISION alarms with a device accelerometer trace also get a crash
+// card (peak g, impact side, speed) and "Email crash report", which a
+// dealer can point at the customer or an insurer.
 
 import React, { useEffect, useState } from 'react';
 import {
@@ -28,7 +32,7 @@ import { logger, LogCategory } from '../utils/Logger';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import type { RootStackParamList } from '../navigation/types';
-import type { GpsAlarm } from '../types/gps';
+import type { GpsAlarm, GpsCollisionTrace } from '../types/gps';
 
 let MapView: any = null;
 let Marker: any = null;
@@ -57,6 +61,9 @@ export const AlertDetailScreen: React.FC = () => {
   const [loading, setLoading] = useState(!cached);
   const [ackNote, setAckNote] = useState('');
   const [acking, setAcking] = useState(false);
+  const [collision, setCollision] = useState<GpsCollisionTrace | null>(null);
+  const [reportEmail, setReportEmail] = useState('');
+  const [sendingReport, setSendingReport] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -78,6 +85,21 @@ export const AlertDetailScreen: React.FC = () => {
     };
   }, [alarmId, addGpsAlarm]);
 
+  // Only COLLISION alarms can carry a trace; a 404 just means the device
+  // raised the alarm bit without sending 0xF7.
+  const isCollision = alarm?.type === 'COLLISION';
+  useEffect(() => {
+    if (!isCollision) return;
+    let cancelled = false;
+    (async () => {
+      const result = await gpsApi.getCollisionReport(alarmId);
+      if (!cancelled && result.success && result.data) setCollision(result.data.trace);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [alarmId, isCollision]);
+
   if (loading || !alarm) {
     return (
       <View style={styles.loadingWrap}>
@@ -113,6 +135,21 @@ export const AlertDetailScreen: React.FC = () => {
     }
   };
 
+  const onEmailReport = async () => {
+    setSendingReport(true);
+    const result = await gpsApi.emailCollisionReport(
+      alarmId,
+      reportEmail.trim() ? { email: reportEmail.trim() } : {},
+    );
+    setSendingReport(false);
+    if (result.success && result.data) {
+      Alert.alert('Report sent', `Crash report emailed to ${result.data.sentTo}.`);
+      setReportEmail('');
+    } else {
+      Alert.alert('Could not send report', result.message ?? 'Try again later.');
+    }
+  };
+
   const onCreateAppointment = () => {
     navigation.navigate('Main', {
       screen: 'Schedule',
@@ -161,6 +198,47 @@ export const AlertDetailScreen: React.FC = () => {
         </View>
       ) : null}
 
+      {/* Crash data (0xF7 trace) */}
+      {collision ? (
+        <View style={styles.ackBox}>
+          <Text style={styles.ackTitle}>Crash data</Text>
+          <View style={styles.crashRow}>
+            <CrashStat label="Peak force" value={`${Number(collision.peakG).toFixed(2)} g`} />
+            <CrashStat
+              label="Impact"
+              value={collision.impactDirection ? humanise(collision.impactDirection) : '—'}
+            />
+            <CrashStat
+              label="Speed"
+              value={
+                collision.impactSpeedKmh !== null
+                  ? `${Math.round(collision.impactSpeedKmh * 0.621371)} mph`
+                  : '—'
+              }
+            />
+          </View>
+          <TextInput
+            value={reportEmail}
+            onChangeText={setReportEmail}
+            placeholder="Send to (defaults to your email)"
+            placeholderTextColor={colors.text.muted}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.emailInput}
+          />
+          <TouchableOpacity
+            style={[styles.btnPrimary, sendingReport && styles.btnDisabled]}
+            disabled={sendingReport}
+            onPress={onEmailReport}
+          >
+            <Text style={styles.btnPrimaryText}>
+              {sendingReport ? 'Sending…' : 'Email crash report'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
       {/* Acknowledge */}
       {!alarm.acknowledged ? (
         <View style={styles.ackBox}>
@@ -220,6 +298,13 @@ export const AlertDetailScreen: React.FC = () => {
   );
 };
 
+const CrashStat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <View style={styles.crashStat}>
+    <Text style={styles.crashValue}>{value}</Text>
+    <Text style={styles.crashLabel}>{label}</Text>
+  </View>
+);
+
 function humanise(type: string): string {
   return type.replace(/_/g, ' ').toLowerCase().replace(/^\w/, (c) => c.toUpperCase());
 }
@@ -291,6 +376,20 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textAlignVertical: 'top',
   },
+  crashRow: { flexDirection: 'row', marginBottom: 12 },
+  crashStat: { flex: 1 },
+  crashValue: { fontSize: 16, fontWeight: '700', color: colors.text.primary },
+  crashLabel: { fontSize: 11, color: colors.text.secondary, marginTop: 2 },
+  emailInput: {
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: colors.text.primary,
+    backgroundColor: '#F9FAFB',
+    marginBottom: 10,
+  },
   btnPrimary: {
     backgroundColor: colors.primary.navy,
     paddingVertical: 12,
@@ -211,10 +211,15 @@ const GpsPanel: React.FC = () => {
       const t = gpsTerminals.find((x) => x.id === e.terminalId);
       if (t) upsertGpsTerminal({ ...t, status: 'OFFLINE', disconnectedAt: e.at });
     });
+    const offLogout = gpsWs.on('terminal.logout', (e) => {
+      const t = gpsTerminals.find((x) => x.id === e.terminalId);
+      if (t) upsertGpsTerminal({ ...t, status: 'LOGGED_OUT', disconnectedAt: e.at });
+    });
     return () => {
       offState();
       offOnline();
       offOffline();
+      offLogout();
     };
   }, [gpsTerminals, upsertGpsTerminal]);
 
@@ -11,12 +11,14 @@
 //   • Top overlay — back chevron, vehicle label, status dots
 //     (online + signal strength + ACC), settings gear.
 //   • Connection-state banner — Live / Reconnecting… / Offline.
+//   • Fast-tracking pill — starts / stops a temporary tracking session
+//     (0x8202) so the vehicle reports every few seconds for a while.
 //
 // Realtime feed:
 //   On mount we subscribe the WS client to `terminal:<id>`; updates fan out
 //   into `applyLocationUpdate` on the store, which keeps the marker fresh.
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -41,7 +43,13 @@ import { logger, LogCategory } from '../utils/Logger';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import type { RootStackParamList } from '../navigation/types';
-import type { GpsAlarm, GpsLocation } from '../types/gps';
+import type {
+  GpsAlarm,
+  GpsLocation,
+  GpsObdSnapshot,
+  GpsTireReading,
+  GpsTrackingSession,
+} from '../types/gps';
 import { GOOGLE_MAPS_CONFIG } from '../config/api';
 
 import CarIcon from '../assets/icons/car.svg';
@@ -56,6 +64,7 @@ import CloseIcon from '../assets/icons/close.svg';
 let MapView: any = null;
 let Marker: any = null;
 let Polyline: any = null;
+let Circle: any = null;
 let PROVIDER_GOOGLE: any = undefined;
 try {
   // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -63,6 +72,7 @@ try {
   MapView = maps.default;
   Marker = maps.Marker;
   Polyline = maps.Polyline;
+  Circle = maps.Circle;
   PROVIDER_GOOGLE = maps.PROVIDER_GOOGLE;
 } catch (err) {
   // Logged once; the screen renders a friendly "map unavailable" state.
@@ -77,6 +87,17 @@ const SHEET_HALF = Math.round(SCREEN_H * 0.45);
 const SHEET_FULL = Math.round(SCREEN_H * 0.85);
 const TRAIL_MINUTES = 30;
 
+// Fast tracking: report interval and the durations offered to the owner.
+// The backend caps duration at 24 h; these cover a test drive through to
+// a stolen-vehicle hand-off to police.
+const FAST_TRACKING_INTERVAL_SEC = 10;
+const FAST_TRACKING_DURATIONS: Array<{ label: string; sec: number }> = [
+  { label: '15 minutes', sec: 15 * 60 },
+  { label: '1 hour', sec: 60 * 60 },
+  { label: '4 hours', sec: 4 * 60 * 60 },
+];
+const TRACKING_POLL_MS = 30_000;
+
 export const LiveTrackScreen: React.FC = () => {
   const route = useRoute<LiveTrackRoute>();
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
@@ -95,9 +116,17 @@ export const LiveTrackScreen: React.FC = () => {
   const terminal = gpsTerminals.find((t) => t.id === terminalId);
   const latest = gpsLatestLocations[terminalId];
   const [trail, setTrail] = useState<GpsLocation[]>([]);
+  // Commercial / EV values from the latest OBD snapshot. Fetched once with
+  // the initial location — they change slowly enough not to need the WS.
+  const [obd, setObd] = useState<GpsObdSnapshot | null>(null);
+  // Latest TPMS reading per wheel; empty for vehicles without a receiver.
+  const [tires, setTires] = useState<GpsTireReading[]>([]);
   const [wsState, setWsState] = useState<GpsWsState>(gpsWs.getState());
   const [tab, setTab] = useState<'obd' | 'status' | 'alerts'>('obd');
   const [loading, setLoading] = useState(true);
+  // Live (PENDING / ACTIVE) tracking session, or null.
+  const [tracking, setTracking] = useState<GpsTrackingSession | null>(null);
+  const [trackingBusy, setTrackingBusy] = useState(false);
 
   // Bottom-sheet animation — uses Animated.Value + PanResponder. A full
   // gesture-handler bottom sheet is overkill here; the spec calls for 3
@@ -164,13 +193,14 @@ export const LiveTrackScreen: React.FC = () => {
   useEffect(() => {
     let cancelled = false;
     (async () => {
-      const [detail, latestRes, history] = await Promise.all([
+      const [detail, latestRes, history, tiresRes] = await Promise.all([
         gpsApi.getTerminal(terminalId),
         gpsApi.getLatestLocation(terminalId),
         gpsApi.getLocationHistory(terminalId, {
           since: new Date(Date.now() - TRAIL_MINUTES * 60_000).toISOString(),
           limit: 200,
         }),
+        gpsApi.getTires(terminalId, { limit: 1 }),
       ]);
       if (cancelled) return;
       logger.info(LogCategory.GPS, '[LiveTrack] Initial data fetched', {
@@ -184,6 +214,8 @@ export const LiveTrackScreen: React.FC = () => {
       if (latestRes.success && latestRes.data?.location) {
         setGpsLatestLocation(terminalId, latestRes.data.location);
       }
+      if (latestRes.success) setObd(latestRes.data?.obd ?? null);
+      if (tiresRes.success) setTires(tiresRes.data?.latest ?? []);
       if (history.success && history.data) {
         // Locations come back newest-first; reverse for polyline drawing.
         setTrail([...history.data.locations].reverse());
@@ -219,6 +251,8 @@ export const LiveTrackScreen: React.FC = () => {
           statusBits: event.data.statusBits,
           accOn: event.data.accOn,
           gpsFix: event.data.gpsFix,
+          positionSource: event.data.positionSource,
+          accuracyM: event.data.accuracyM,
           satelliteCount: null,
           signalStrength: null,
           odometerKm: null,
@@ -256,6 +290,75 @@ export const LiveTrackScreen: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Fast-tracking status: fetched on mount, then polled while a session is
+  // live so PENDING flips to ACTIVE (once the device acks) and the pill
+  // disappears when the session expires.
+  const refreshTracking = useCallback(async () => {
+    const res = await gpsApi.getTrackingStatus(terminalId);
+    if (res.success && res.data) {
+      setTracking(res.data.active ? res.data.session : null);
+    }
+  }, [terminalId]);
+
+  useEffect(() => {
+    void refreshTracking();
+  }, [refreshTracking]);
+
+  useEffect(() => {
+    if (!tracking) return;
+    const timer = setInterval(() => void refreshTracking(), TRACKING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [tracking, refreshTracking]);
+
+  const startTracking = async (durationSec: number) => {
+    setTrackingBusy(true);
+    const result = await gpsApi.startTracking(terminalId, {
+      intervalSec: FAST_TRACKING_INTERVAL_SEC,
+      durationSec,
+    });
+    setTrackingBusy(false);
+    if (result.success && result.data) {
+      setTracking(result.data.session);
+    } else {
+      Alert.alert('Could not start fast tracking', result.message ?? 'Try again later.');
+    }
+  };
+
+  const onFastTrackingPress = () => {
+    if (trackingBusy) return;
+    if (tracking) {
+      Alert.alert('Stop fast tracking?', 'The vehicle goes back to its normal reporting interval.', [
+        { text: 'Keep tracking', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: async () => {
+            setTrackingBusy(true);
+            const result = await gpsApi.stopTracking(terminalId);
+            setTrackingBusy(false);
+            if (result.success || result.status === 404 || result.status === 409) {
+              setTracking(null);
+            } else {
+              Alert.alert('Could not stop fast tracking', result.message ?? 'Try again later.');
+            }
+          },
+        },
+      ]);
+      return;
+    }
+    Alert.alert(
+      'Fast tracking',
+      `Report position every ${FAST_TRACKING_INTERVAL_SEC} seconds for:`,
+      [
+        ...FAST_TRACKING_DURATIONS.map((d) => ({
+          text: d.label,
+          onPress: () => void startTracking(d.sec),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ],
+    );
+  };
+
   const onRequestLocate = async () => {
     const result = await gpsApi.requestLocate(terminalId);
     if (result.success) {
@@ -344,6 +447,16 @@ export const LiveTrackScreen: React.FC = () => {
               strokeWidth={4}
             />
           )}
+          {/* Cell-tower fix: the vehicle is somewhere inside this circle. */}
+          {Circle && latest?.positionSource === 'CELL' && latest.accuracyM ? (
+            <Circle
+              center={{ latitude: latest.latitude, longitude: latest.longitude }}
+              radius={latest.accuracyM}
+              strokeColor={`${colors.primary.navy}99`}
+              strokeWidth={1}
+              fillColor={`${colors.primary.navy}1F`}
+            />
+          ) : null}
           {latest && (
             <Marker
               coordinate={{ latitude: latest.latitude, longitude: latest.longitude }}
@@ -423,6 +536,29 @@ export const LiveTrackScreen: React.FC = () => {
               : `Offline${latest ? ` (data is up to ${formatTime(latest.reportedAt)})` : ''}`}
           </Text>
         </View>
+
+        {/* Fast-tracking pill */}
+        <TouchableOpacity
+          style={[styles.trackingPill, tracking && styles.trackingPillActive]}
+          onPress={onFastTrackingPress}
+          disabled={trackingBusy}
+          activeOpacity={0.85}
+          accessibilityLabel={tracking ? 'Stop fast tracking' : 'Start fast tracking'}
+        >
+          {trackingBusy ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.trackingPillText}>
+              {!tracking
+                ? 'Start fast tracking'
+                : tracking.status === 'PENDING'
+                ? 'Fast tracking requested… · Stop'
+                : `Fast tracking every ${tracking.intervalSec}s${
+                    tracking.expiresAt ? ` until ${formatClock(tracking.expiresAt)}` : ''
+                  } · Stop`}
+            </Text>
+          )}
+        </TouchableOpacity>
       </SafeAreaView>
 
       {/* Bottom sheet */}
@@ -465,7 +601,7 @@ export const LiveTrackScreen: React.FC = () => {
           contentContainerStyle={styles.sheetContent}
           showsVerticalScrollIndicator={false}
         >
-          {tab === 'obd' && <LiveObdGrid latest={latest} />}
+          {tab === 'obd' && <LiveObdGrid latest={latest} obd={obd} tires={tires} />}
           {tab === 'status' && <StatusGrid latest={latest} />}
           {tab === 'alerts' && (
             <AlertsList
@@ -522,7 +658,11 @@ const SheetTab: React.FC<{ label: string; active: boolean; onPress: () => void }
   </TouchableOpacity>
 );
 
-const LiveObdGrid: React.FC<{ latest: GpsLocation | undefined }> = ({ latest }) => (
+const LiveObdGrid: React.FC<{
+  latest: GpsLocation | undefined;
+  obd: GpsObdSnapshot | null;
+  tires: GpsTireReading[];
+}> = ({ latest, obd, tires }) => (
   <View style={styles.kpiGrid}>
     <KpiCard label="Speed" value={formatSpeedMph(latest?.speedKmh)} />
     <KpiCard label="Heading" value={latest?.heading != null ? `${latest.heading}°` : '—'} />
@@ -562,6 +702,36 @@ const LiveObdGrid: React.FC<{ latest: GpsLocation | undefined }> = ({ latest })
           : '—'
       }
     />
+    {obd?.engineHours != null && (
+      <KpiCard label="Engine Hours" value={`${Number(obd.engineHours).toFixed(1)} h`} />
+    )}
+    {obd?.defLevelPct != null && (
+      <KpiCard label="DEF Level" value={`${Math.round(Number(obd.defLevelPct))}%`} />
+    )}
+    {obd?.axleWeightKg != null && (
+      <KpiCard label="Axle Weight" value={`${obd.axleWeightKg} kg`} />
+    )}
+    {obd?.ptoIdleActive && <KpiCard label="PTO" value="Running at idle" />}
+    {obd?.evRangeKm != null && (
+      <KpiCard
+        label="EV Range"
+        value={`${Math.round(Number(obd.evRangeKm) * 0.621371)} mi`}
+      />
+    )}
+    {obd?.evChargingState != null && (
+      <KpiCard
+        label="Charging"
+        value={obd.evChargingState.replace(/_/g, ' ').toLowerCase()}
+      />
+    )}
+    {obd?.evSohPct != null && <KpiCard label="Battery Health" value={`${obd.evSohPct}%`} />}
+    {tires.map((t) => (
+      <KpiCard
+        key={t.id}
+        label={t.axle != null ? `Axle ${t.axle} · W${t.position & 0x0f}` : `Tire ${t.position}`}
+        value={`${Math.round(t.pressureKpa * 0.145038)} psi`}
+      />
+    ))}
   </View>
 );
 
@@ -670,6 +840,10 @@ function formatTime(iso: string): string {
   return d.toLocaleTimeString();
 }
 
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
 function formatRelativeTime(iso: string): string {
   const ms = Date.now() - new Date(iso).getTime();
   if (ms < 60_000) return 'just now';
@@ -799,6 +973,18 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
   connBannerDot: { width: 8, height: 8, borderRadius: 4, marginRight: 6 },
+  trackingPill: {
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0,0,0,0.55)',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 999,
+    marginTop: 6,
+    minHeight: 28,
+    justifyContent: 'center',
+  },
+  trackingPillActive: { backgroundColor: colors.primary.red },
+  trackingPillText: { color: '#FFFFFF', fontSize: 12, fontWeight: '600' },
   connBannerDotLive: { backgroundColor: colors.status.success },
   connBannerDotReconnecting: { backgroundColor: colors.status.warning },
   connBannerDotOffline: { backgroundColor: colors.text.light },
@@ -1,10 +1,10 @@
 // GpsLiveMapTabScreen — Live Map tab for the GPS workflow.
 //
 // Google Maps with markers for all user terminals.
-// Marker colors: green=ONLINE, red=OFFLINE, grey=NEVER_CONNECTED.
+// Marker colors: green=ONLINE, red=OFFLINE, amber=LOGGED_OUT, grey=NEVER_CONNECTED.
 // Below map: scrollable terminal list with tap-to-pan.
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -37,12 +37,14 @@ import CarIcon from '../../assets/icons/car.svg';
 let MapView: any = null;
 let Marker: any = null;
 let Callout: any = null;
+let Circle: any = null;
 let PROVIDER_GOOGLE: any = undefined;
 try {
   const maps = require('react-native-maps');
   MapView = maps.default;
   Marker = maps.Marker;
   Callout = maps.Callout;
+  Circle = maps.Circle;
   PROVIDER_GOOGLE = maps.PROVIDER_GOOGLE;
 } catch (err) {
   logger.warn(LogCategory.APP, '[GpsLiveMap] react-native-maps unavailable', err);
@@ -55,6 +57,7 @@ const MARKER_COLORS: Record<string, string> = {
   ONLINE: '#16A34A',
   OFFLINE: '#DC2626',
   NEVER_CONNECTED: '#9CA3AF',
+  LOGGED_OUT: '#F59E0B',
   REVOKED: '#6B7280',
 };
 
@@ -184,6 +187,8 @@ export const GpsLiveMapTabScreen: React.FC = () => {
           statusBits: e.data.statusBits ?? 0,
           accOn: e.data.accOn,
           gpsFix: e.data.gpsFix,
+          positionSource: e.data.positionSource,
+          accuracyM: e.data.accuracyM,
           satelliteCount: null,
           signalStrength: null,
           odometerKm: null,
@@ -276,25 +281,39 @@ export const GpsLiveMapTabScreen: React.FC = () => {
               showsUserLocation={false}
               showsMyLocationButton={false}
             >
-              {located.map(({ terminal, location }) => (
-                <Marker
-                  key={terminal.id}
-                  coordinate={{
-                    latitude: location!.latitude,
-                    longitude: location!.longitude,
-                  }}
-                  pinColor={MARKER_COLORS[terminal.status] ?? MARKER_COLORS.OFFLINE}
-                >
-                  {Callout && (
-                    <Callout
-                      tooltip
-                      onPress={() => navigation.navigate('LiveTrack', { terminalId: terminal.id })}
+              {located.map(({ terminal, location }) => {
+                const color = MARKER_COLORS[terminal.status] ?? MARKER_COLORS.OFFLINE;
+                return (
+                  <Fragment key={terminal.id}>
+                    {/* Cell-tower fix: the vehicle is somewhere inside this circle. */}
+                    {Circle && location!.positionSource === 'CELL' && location!.accuracyM ? (
+                      <Circle
+                        center={{ latitude: location!.latitude, longitude: location!.longitude }}
+                        radius={location!.accuracyM}
+                        strokeColor={`${color}99`}
+                        strokeWidth={1}
+                        fillColor={`${color}1F`}
+                      />
+                    ) : null}
+                    <Marker
+                      coordinate={{
+                        latitude: location!.latitude,
+                        longitude: location!.longitude,
+                      }}
+                      pinColor={color}
                     >
-                      <TerminalCallout terminal={terminal} location={location} />
-                    </Callout>
-                  )}
-                </Marker>
-              ))}
+                      {Callout && (
+                        <Callout
+                          tooltip
+                          onPress={() => navigation.navigate('LiveTrack', { terminalId: terminal.id })}
+                        >
+                          <TerminalCallout terminal={terminal} location={location} />
+                        </Callout>
+                      )}
+                    </Marker>
+                  </Fragment>
+                );
+              })}
             </MapView>
 
             {/* Map mounted but never became ready — almost always an
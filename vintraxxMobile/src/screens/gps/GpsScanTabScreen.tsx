@@ -58,6 +58,7 @@ const STATUS_CONFIG: Record<string, { color: string; label: string }> = {
   ONLINE:          { color: '#16A34A', label: 'Online' },
   OFFLINE:         { color: '#DC2626', label: 'Offline' },
   NEVER_CONNECTED: { color: '#9CA3AF', label: 'Never Connected' },
+  LOGGED_OUT:      { color: '#F59E0B', label: 'Logged Out' },
   REVOKED:         { color: '#6B7280', label: 'Revoked' },
 };
 
@@ -155,9 +156,16 @@ export const GpsScanTabScreen: React.FC = () => {
         upsertGpsTerminal({ ...existing, status: 'OFFLINE', disconnectedAt: e.at });
       }
     });
+    const offLogout = gpsWs.on('terminal.logout', (e: any) => {
+      const existing = useAppStore.getState().gpsTerminals.find((t) => t.id === e.terminalId);
+      if (existing) {
+        upsertGpsTerminal({ ...existing, status: 'LOGGED_OUT', disconnectedAt: e.at });
+      }
+    });
     return () => {
       offOnline();
       offOffline();
+      offLogout();
     };
   }, [upsertGpsTerminal]);
 
@@ -52,6 +52,7 @@ const STATUS_CONFIG: Record<string, { color: string; label: string; bg: string }
   ONLINE:          { color: '#16A34A', label: 'Online',          bg: '#DCFCE7' },
   OFFLINE:         { color: '#DC2626', label: 'Offline',         bg: '#FEE2E2' },
   NEVER_CONNECTED: { color: '#9CA3AF', label: 'Never Connected', bg: '#F3F4F6' },
+  LOGGED_OUT:      { color: '#F59E0B', label: 'Logged Out',      bg: '#FEF3C7' },
   REVOKED:         { color: '#6B7280', label: 'Revoked',         bg: '#F3F4F6' },
 };
 
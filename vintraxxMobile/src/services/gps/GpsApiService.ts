@@ -22,6 +22,8 @@ import type {
   ListAlarmsResponse,
   AlarmDetailResponse,
   AckAlarmResponse,
+  CollisionReportResponse,
+  CollisionEmailResponse,
   ListDtcEventsResponse,
   DtcEventDetailResponse,
   ListTripsResponse,
@@ -31,6 +33,9 @@ import type {
   SimpleSuccessResponse,
   RenameTerminalRequest,
   LocateCommandResponse,
+  TrackingStatusResponse,
+  TrackingSessionResponse,
+  TireTelemetryResponse,
   AnalyzeDtcEventResponse,
   RequestScanReportResponse,
   ScanReportDetailResponse,
@@ -256,6 +261,49 @@ class GpsApiService {
     return result;
   }
 
+  /**
+   * Temporary tracking (0x8202): the terminal reports every `intervalSec`
+   * for `durationSec`, then falls back to its normal interval on its own.
+   */
+  async getTrackingStatus(id: string): Promise<ApiResult<TrackingStatusResponse>> {
+    return this.request<TrackingStatusResponse>(
+      'GET',
+      this.interpolate(GPS_ENDPOINTS.TERMINAL_TRACKING, { id }),
+    );
+  }
+
+  async startTracking(
+    id: string,
+    body: { intervalSec: number; durationSec: number },
+  ): Promise<ApiResult<TrackingSessionResponse>> {
+    logger.info(LogCategory.GPS, '[GPS] startTracking', { terminalId: id, ...body });
+    return this.request<TrackingSessionResponse>(
+      'POST',
+      this.interpolate(GPS_ENDPOINTS.TERMINAL_TRACKING, { id }),
+      { body },
+    );
+  }
+
+  async stopTracking(id: string): Promise<ApiResult<TrackingSessionResponse>> {
+    logger.info(LogCategory.GPS, '[GPS] stopTracking', { terminalId: id });
+    return this.request<TrackingSessionResponse>(
+      'DELETE',
+      this.interpolate(GPS_ENDPOINTS.TERMINAL_TRACKING, { id }),
+    );
+  }
+
+  /** Latest TPMS reading per wheel + a history window (default 24h). */
+  async getTires(
+    id: string,
+    opts: { since?: string; until?: string; limit?: number } = {},
+  ): Promise<ApiResult<TireTelemetryResponse>> {
+    return this.request<TireTelemetryResponse>(
+      'GET',
+      this.interpolate(GPS_ENDPOINTS.TERMINAL_TIRES, { id }),
+      { query: opts },
+    );
+  }
+
   // ── Trips + stats ─────────────────────────────────────────────────────────
 
   async listTrips(
@@ -336,6 +384,26 @@ class GpsApiService {
     );
   }
 
+  /** Crash data for a COLLISION alarm; 404 when the device sent no trace. */
+  async getCollisionReport(id: string): Promise<ApiResult<CollisionReportResponse>> {
+    return this.request<CollisionReportResponse>(
+      'GET',
+      this.interpolate(GPS_ENDPOINTS.ALARM_COLLISION, { id }),
+    );
+  }
+
+  /** Email the crash-report PDF — to the caller, or forwarded to `email`. */
+  async emailCollisionReport(
+    id: string,
+    body: { email?: string; note?: string } = {},
+  ): Promise<ApiResult<CollisionEmailResponse>> {
+    return this.request<CollisionEmailResponse>(
+      'POST',
+      this.interpolate(GPS_ENDPOINTS.ALARM_COLLISION_EMAIL, { id }),
+      { body },
+    );
+  }
+
   // ── DTC events ────────────────────────────────────────────────────────────
 
   async listDtcEvents(
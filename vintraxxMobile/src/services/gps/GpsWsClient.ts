@@ -49,6 +49,7 @@ type EventHandlerMap = {
   'trip.closed': (event: WsTripEvent) => void;
   'terminal.online': (event: WsTerminalStatus) => void;
   'terminal.offline': (event: WsTerminalStatus) => void;
+  'terminal.logout': (event: WsTerminalStatus) => void;
 };
 
 type EventName = keyof EventHandlerMap;
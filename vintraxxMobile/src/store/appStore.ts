@@ -268,6 +268,8 @@ export const useAppStore = create<AppState>((set) => ({
         statusBits: event.data.statusBits,
         accOn: event.data.accOn,
         gpsFix: event.data.gpsFix,
+        positionSource: event.data.positionSource,
+        accuracyM: event.data.accuracyM,
         satelliteCount: null,
         signalStrength: null,
         odometerKm: null,
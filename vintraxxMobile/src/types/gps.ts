@@ -9,6 +9,7 @@ export type GpsTerminalStatus =
   | 'NEVER_CONNECTED'
   | 'ONLINE'
   | 'OFFLINE'
+  | 'LOGGED_OUT'
   | 'REVOKED';
 
 export interface GpsTerminal {
@@ -63,6 +64,9 @@ export interface GpsLocation {
   statusBits: number;
   accOn: boolean | null;
   gpsFix: boolean | null;
+  /** CELL = cell-tower estimate (no GNSS fix); `accuracyM` is its radius. */
+  positionSource?: 'GNSS' | 'CELL';
+  accuracyM?: number | null;
   satelliteCount: number | null;
   signalStrength: number | null;
   odometerKm: number | null;
@@ -90,6 +94,13 @@ export type GpsAlarmType =
   | 'DTC_DETECTED'
   | 'MIL_ON'
   | 'TAMPER'
+  | 'EV_CELL_IMBALANCE'
+  | 'EV_OVER_TEMPERATURE'
+  | 'DOOR_OPEN_PARKED'
+  | 'MOTION_PARKED'
+  | 'TIRE_LOW_PRESSURE'
+  | 'TIRE_RAPID_LEAK'
+  | 'TIRE_OVER_TEMPERATURE'
   | 'OTHER';
 
 export interface GpsAlarm {
@@ -169,6 +180,9 @@ export interface GpsTrip {
   idleDurationSec: number | null;
   fuelConsumedL: number | null;
   score: number | null;
+  /** Driver identified via IC card / license swipe when the trip opened. */
+  driverId?: string | null;
+  driver?: { id: string; name: string } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -218,9 +232,59 @@ export interface TerminalDetailResponse {
   terminal: GpsTerminal;
 }
 
+/**
+ * Commercial / EV subset of the latest GpsObdSnapshot, as returned next to
+ * the latest location. Decimal columns arrive as strings.
+ */
+export interface GpsObdSnapshot {
+  id: string;
+  reportedAt: string;
+  engineHours: string | number | null;
+  fuelRateLph: string | number | null;
+  fuelConsumedL: string | number | null;
+  defLevelPct: string | number | null;
+  engineOilTempC: number | null;
+  engineOilPressureKpa: number | null;
+  parkingBrakeOn: boolean | null;
+  ptoIdleActive: boolean | null;
+  axleWeightKg: number | null;
+  evRangeKm: string | number | null;
+  evChargingState: string | null;
+  evChargerPlugged: boolean | null;
+  evMotorRpm: number | null;
+  evMotorTorqueNm: number | null;
+  evMotorTempC: number | null;
+  evSohPct: number | null;
+}
+
+/**
+ * One wheel from the TPMS tire table. `axle` is only set by the per-axle
+ * (truck) table; `statusBits` only by the sensor table.
+ */
+export interface GpsTireReading {
+  id: string;
+  reportedAt: string;
+  position: number;
+  axle: number | null;
+  pressureKpa: number;
+  temperatureC: number;
+  statusBits: number | null;
+  sensorVoltageV: string | number | null;
+}
+
+export interface TireTelemetryResponse {
+  success: boolean;
+  latestReportedAt: string | null;
+  latest: GpsTireReading[];
+  readings: GpsTireReading[];
+  since: string;
+  until: string;
+}
+
 export interface LatestLocationResponse {
   success: boolean;
   location: GpsLocation | null;
+  obd?: GpsObdSnapshot | null;
 }
 
 export interface LocationHistoryResponse {
@@ -251,6 +315,39 @@ export interface AckAlarmResponse {
   alarm: GpsAlarm;
 }
 
+/** 0x0900/0xF7 accelerometer trace attached to a COLLISION alarm. */
+export interface GpsCollisionTrace {
+  id: string;
+  alarmId: string;
+  terminalId: string;
+  occurredAt: string;
+  latitude: string;
+  longitude: string;
+  /** Device-reported severity: 0 minor, 1 moderate, 2 severe. */
+  level: number;
+  sampleIntervalMs: number;
+  sampleCount: number;
+  /** Decimal string, g. */
+  peakG: string;
+  peakSampleIndex: number;
+  impactSpeedKmh: number | null;
+  /** FRONT, FRONT_RIGHT, RIGHT, … clockwise from the nose. */
+  impactDirection: string | null;
+  impactAngleDeg: number | null;
+}
+
+export interface CollisionReportResponse {
+  success: boolean;
+  alarm: GpsAlarm;
+  trace: GpsCollisionTrace;
+}
+
+export interface CollisionEmailResponse {
+  success: boolean;
+  sentTo: string;
+  pdfPath: string;
+}
+
 export interface ListDtcEventsResponse {
   success: boolean;
   events: GpsDtcEvent[];
@@ -316,6 +413,35 @@ export interface LocateCommandResponse {
   command: { id: string; status: string; createdAt: string };
 }
 
+/** Temporary tracking session (0x8202) — see backend gps-tracking.service. */
+export type GpsTrackingSessionStatus = 'PENDING' | 'ACTIVE' | 'STOPPED' | 'EXPIRED' | 'FAILED';
+
+export interface GpsTrackingSession {
+  id: string;
+  terminalId: string;
+  status: GpsTrackingSessionStatus;
+  intervalSec: number;
+  durationSec: number;
+  startedAt: string | null;
+  /** Set once the terminal acks; null while PENDING. */
+  expiresAt: string | null;
+  endedAt: string | null;
+  endReason: string | null;
+  createdAt: string;
+}
+
+export interface TrackingStatusResponse {
+  success: boolean;
+  /** True while the latest session is PENDING or ACTIVE. */
+  active: boolean;
+  session: GpsTrackingSession | null;
+}
+
+export interface TrackingSessionResponse {
+  success: boolean;
+  session: GpsTrackingSession;
+}
+
 export interface AnalyzeDtcEventResponse {
   success: boolean;
   scanId: string;
@@ -384,6 +510,25 @@ export interface GpsScanReport {
   acceleratorPct: string | number | null;
   intakeManifoldKpa: number | null;
 
+  engineHours: string | number | null;
+  fuelRateLph: string | number | null;
+  fuelConsumedL: string | number | null;
+  defLevelPct: string | number | null;
+  engineOilTempC: number | null;
+  engineOilPressureKpa: number | null;
+  parkingBrakeOn: boolean | null;
+  ptoIdleActive: boolean | null;
+  axleWeightKg: number | null;
+
+  evSocPct: number | null;
+  evRangeKm: string | number | null;
+  evChargingState: string | null;
+  evChargerPlugged: boolean | null;
+  evMotorRpm: number | null;
+  evMotorTorqueNm: number | null;
+  evMotorTempC: number | null;
+  evSohPct: number | null;
+
   protocol: string | null;
   rawObdJson: Record<string, unknown> | null;
 
@@ -437,13 +582,16 @@ export interface WsLocationUpdate {
     altitudeM: number;
     accOn: boolean;
     gpsFix: boolean;
+    positionSource?: 'GNSS' | 'CELL';
+    accuracyM?: number | null;
     alarmBits: number;
     statusBits: number;
   };
 }
 
+/** `terminal.logout` = the device deregistered (0x0003), not a lost link. */
 export interface WsTerminalStatus {
-  type: 'terminal.online' | 'terminal.offline';
+  type: 'terminal.online' | 'terminal.offline' | 'terminal.logout';
   terminalId: string;
   ownerUserId: string | null;
   at: string;